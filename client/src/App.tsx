@@ -8,8 +8,11 @@ import TranslationPage from "@/pages/TranslationPage";
 import WebSearchPage from "@/pages/WebSearchPage";
 import { AnalyticsPage } from "@/pages/AnalyticsPage";
 import JobHistoryPage from "@/pages/JobHistoryPage";
+import FinancialModelsPage from "@/pages/FinancialModelsPage";
+import MLExperimentsPage from "@/pages/MLExperimentsPage";
+import CalibrationPage from "@/pages/CalibrationPage";
 import NotFound from "@/pages/not-found";
-import { BrainCircuit, Languages, FileEdit, Globe, Bot, Brain, Mail, User, LogOut, Trash2, History, Eye, Loader2 } from "lucide-react";
+import { BrainCircuit, Languages, FileEdit, Globe, Bot, Brain, Mail, User, LogOut, Trash2, History, Eye, Loader2, Calculator, FlaskConical, Gauge } from "lucide-react";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import { useState, createContext, useContext } from "react";
 import { ActiveJobProvider, useActiveJob } from "@/contexts/ActiveJobContext";
@@ -92,14 +95,14 @@ function LoginDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (ope
               </div>
               <div>
                 <Label htmlFor="login-password">
-                  Password{loginForm.username.toLowerCase().trim() === "jmkuczynski" ? " (Optional for JMKUCZYNSKI)" : ""}
+                  Password
                 </Label>
                 <Input
                   id="login-password"
                   type="password"
                   value={loginForm.password}
                   onChange={(e) => setLoginForm({ ...loginForm, password: e.target.value })}
-                  required={loginForm.username.toLowerCase().trim() !== "jmkuczynski"}
+                  required
                   autoComplete="current-password"
                   data-testid="input-login-password"
                 />
@@ -215,6 +218,30 @@ function Navigation() {
             <History className="h-4 w-4" />
             <span>Job History</span>
           </Link>
+          <Link 
+            href="/financial-models" 
+            className="flex items-center gap-2 hover:underline text-sm bg-primary-foreground/10 px-3 py-1.5 rounded-md"
+            data-testid="link-financial-models"
+          >
+            <Calculator className="h-4 w-4" />
+            <span>Financial Models</span>
+          </Link>
+          <Link 
+            href="/ml-experiments" 
+            className="flex items-center gap-2 hover:underline text-sm bg-primary-foreground/10 px-3 py-1.5 rounded-md"
+            data-testid="link-ml-experiments"
+          >
+            <FlaskConical className="h-4 w-4" />
+            <span>ML Experiments</span>
+          </Link>
+          <Link 
+            href="/calibration" 
+            className="flex items-center gap-2 hover:underline text-sm bg-primary-foreground/10 px-3 py-1.5 rounded-md"
+            data-testid="link-calibration"
+          >
+            <Gauge className="h-4 w-4" />
+            <span>Calibration</span>
+          </Link>
           {/* OPEN PROGRESS POPUP - Always visible button */}
           <Button
             variant="ghost"
@@ -308,6 +335,9 @@ function Router({ resetKey }: { resetKey: number }) {
         <Route path="/" component={HomePage} />
         <Route path="/analytics" component={AnalyticsPage} />
         <Route path="/job-history" component={JobHistoryPage} />
+        <Route path="/financial-models" component={FinancialModelsPage} />
+        <Route path="/ml-experiments" component={MLExperimentsPage} />
+        <Route path="/calibration" component={CalibrationPage} />
         <Route component={NotFound} />
       </Switch>
     </>
@@ -121,7 +121,7 @@ export default function CognitiveEvaluationPanel() {
       if (data.success) {
         setEvaluation(data.evaluation);
       } else {
-        setError(data.error || 'Evaluation failed');
+        setError(data.message || 'Evaluation failed');
       }
     } catch (err: any) {
       setError(err.message || 'Network error occurred');
@@ -1,29 +1,63 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Play, Pause, RefreshCw, Copy, ChevronDown, ChevronUp,
-  CheckCircle, AlertCircle, Clock, Loader2, FileText, Shield, MessageSquare, Target
+  CheckCircle, AlertCircle, Clock, Loader2, FileText, Shield, MessageSquare, Target, ListChecks
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import {
+  PIPELINE_INTEGRATION_STRATEGIES, DEFAULT_PIPELINE_STAGES,
+  type PipelineIntegrationStrategy, type PipelineSkeletonType
+} from '@shared/schema';
 
-interface PipelineStage {
-  number: number;
+const STAGE_ICONS: Record<PipelineSkeletonType, typeof FileText> = {
+  reconstruction: FileText,
+  objections: Target,
+  responses: MessageSquare,
+  bulletproof: Shield,
+  text: FileText,
+};
+
+// One stage of the job's composition, with its run if it has started
+interface StageRun {
+  index: number;
   name: string;
-  icon: typeof FileText;
-  description: string;
+  label: string;
+  skeletonType: PipelineSkeletonType;
+  status: string;
+  words: number | null;
+  start: string | null;
+  end: string | null;
+  errorMessage: string | null;
 }
 
-const PIPELINE_STAGES: PipelineStage[] = [
-  { number: 1, name: 'Reconstruction', icon: FileText, description: 'Conservative charitable interpretation' },
-  { number: 2, name: 'Objections', icon: Target, description: 'Generate 25 objections with initial responses' },
-  { number: 3, name: 'Enhanced Responses', icon: MessageSquare, description: 'Deepen and strengthen each response' },
-  { number: 4, name: 'Bullet-proof Version', icon: Shield, description: 'Integrate all responses into final text' },
-];
+interface StageOutput {
+  index: number;
+  name: string;
+  skeletonType: PipelineSkeletonType;
+  output: string | null;
+}
+
+// Shown until the first status poll returns the job's own stages
+const DEFAULT_STAGE_RUNS: StageRun[] = DEFAULT_PIPELINE_STAGES.map((stage, i) => ({
+  index: i + 1,
+  name: stage.name,
+  label: stage.label || stage.name,
+  skeletonType: stage.skeletonType,
+  status: 'pending',
+  words: null,
+  start: null,
+  end: null,
+  errorMessage: null,
+}));
 
 interface PipelineJob {
   id: number;
@@ -37,19 +71,15 @@ interface PipelineJob {
     responses: number | null;
     bulletproof: number | null;
   };
+  totalStages: number;
+  stages: StageRun[];
   timing: {
-    stage1Start: string | null;
-    stage1End: string | null;
-    stage2Start: string | null;
-    stage2End: string | null;
-    stage3Start: string | null;
-    stage3End: string | null;
-    stage4Start: string | null;
-    stage4End: string | null;
     hcCheck: string | null;
   };
   hcResults: any;
   hcViolations: any;
+  pauseForTriage: boolean;
+  awaitingTriage: boolean;
   errorMessage: string | null;
 }
 
@@ -61,6 +91,30 @@ interface ObjectionSummary {
   hasResponse: boolean;
   hasEnhancedResponse: boolean;
   integrated: boolean;
+  integrationStatus: 'integrated' | 'unintegrated' | 'contradicted' | null;
+  excluded: boolean;
+  integrationStrategy: PipelineIntegrationStrategy | null;
+}
+
+const STRATEGY_DESCRIPTIONS: Record<PipelineIntegrationStrategy, string> = {
+  preemptive: 'Address before the claim is made',
+  inline: 'Answer within the passage',
+  footnote: 'Answer in a note',
+  structural: 'Reorganize the argument around it',
+};
+
+// Editable copy of one objection while the pipeline waits for triage
+interface TriageEntry {
+  index: number;
+  type: string;
+  severity: string;
+  keep: boolean;
+  // 'auto' lets the bullet-proof stage choose
+  strategy: PipelineIntegrationStrategy | 'auto';
+  claimTargeted: string;
+  objectionText: string;
+  initialResponse: string;
+  original: { claimTargeted: string; objectionText: string; initialResponse: string };
 }
 
 interface PipelineUIProps {
@@ -75,14 +129,12 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
   const [currentJobId, setCurrentJobId] = useState<number | null>(null);
   const [jobData, setJobData] = useState<PipelineJob | null>(null);
   const [objections, setObjections] = useState<ObjectionSummary[]>([]);
-  const [outputs, setOutputs] = useState<{
-    reconstruction: string | null;
-    objections: string | null;
-    responses: string | null;
-    bulletproof: string | null;
-  }>({ reconstruction: null, objections: null, responses: null, bulletproof: null });
+  const [outputs, setOutputs] = useState<StageOutput[]>([]);
   const [expandedSections, setExpandedSections] = useState<{ [key: string]: boolean }>({});
-  const [pollInterval, setPollInterval] = useState<NodeJS.Timeout | null>(null);
+  const [pauseForTriage, setPauseForTriage] = useState(false);
+  const [triage, setTriage] = useState<TriageEntry[] | null>(null);
+  const [isSubmittingTriage, setIsSubmittingTriage] = useState(false);
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const countWords = (text: string) => text.trim().split(/\s+/).filter(w => w).length;
 
@@ -99,6 +151,36 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
     }
   };
 
+  const stopPolling = useCallback(() => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current);
+      pollRef.current = null;
+    }
+  }, []);
+
+  const loadTriage = useCallback(async (jobId: number) => {
+    const response = await fetch(`/api/pipeline/outputs/${jobId}`);
+    const data = await response.json();
+    if (!data.success) return;
+
+    setOutputs(data.stageOutputs || []);
+    setTriage((data.objectionsDetail || []).map((o: any): TriageEntry => ({
+      index: o.index,
+      type: o.type,
+      severity: o.severity,
+      keep: !o.excluded,
+      strategy: o.integrationStrategy || 'auto',
+      claimTargeted: o.claimTargeted || '',
+      objectionText: o.objection || '',
+      initialResponse: o.initialResponse || '',
+      original: {
+        claimTargeted: o.claimTargeted || '',
+        objectionText: o.objection || '',
+        initialResponse: o.initialResponse || '',
+      },
+    })));
+  }, []);
+
   const pollJobStatus = useCallback(async (jobId: number) => {
     try {
       const response = await fetch(`/api/pipeline/status/${jobId}`);
@@ -108,27 +190,23 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
         setJobData(data.job);
         setObjections(data.objections || []);
         
-        if (data.job.status === 'complete' || data.job.status === 'completed_with_warnings' || data.job.status === 'failed') {
+        if (data.job.awaitingTriage) {
+          stopPolling();
+          await loadTriage(jobId);
+          toast({ title: 'Objections Ready', description: 'Review the objections, then continue the pipeline' });
+        } else if (data.job.status === 'complete' || data.job.status === 'completed_with_warnings' || data.job.status === 'failed') {
           setIsRunning(false);
-          if (pollInterval) {
-            clearInterval(pollInterval);
-            setPollInterval(null);
-          }
+          stopPolling();
           
           const outputsResponse = await fetch(`/api/pipeline/outputs/${jobId}`);
           const outputsData = await outputsResponse.json();
           
           if (outputsData.success) {
-            setOutputs({
-              reconstruction: outputsData.reconstruction,
-              objections: outputsData.objections,
-              responses: outputsData.responses,
-              bulletproof: outputsData.bulletproof,
-            });
+            setOutputs(outputsData.stageOutputs || []);
           }
           
           if (data.job.status === 'complete') {
-            toast({ title: 'Pipeline Complete', description: 'All 4 stages finished successfully' });
+            toast({ title: 'Pipeline Complete', description: `All ${data.job.totalStages} stages finished successfully` });
           } else if (data.job.status === 'completed_with_warnings') {
             toast({ title: 'Pipeline Complete', description: 'Finished with some HC warnings', variant: 'default' });
           } else {
@@ -139,7 +217,12 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
     } catch (error: any) {
       console.error('Poll error:', error);
     }
-  }, [pollInterval, toast]);
+  }, [stopPolling, loadTriage, toast]);
+
+  const startPolling = useCallback((jobId: number) => {
+    stopPolling();
+    pollRef.current = setInterval(() => pollJobStatus(jobId), 3000);
+  }, [stopPolling, pollJobStatus]);
 
   const startPipeline = async () => {
     if (!inputText.trim()) {
@@ -156,7 +239,8 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
     setIsRunning(true);
     setJobData(null);
     setObjections([]);
-    setOutputs({ reconstruction: null, objections: null, responses: null, bulletproof: null });
+    setTriage(null);
+    setOutputs([]);
     
     try {
       const createResponse = await fetch('/api/pipeline/create', {
@@ -164,7 +248,8 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           text: inputText,
-          customInstructions: customInstructions || undefined
+          customInstructions: customInstructions || undefined,
+          pauseForTriage
         })
       });
       
@@ -186,8 +271,7 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
         throw new Error(runData.message);
       }
       
-      const interval = setInterval(() => pollJobStatus(createData.jobId), 3000);
-      setPollInterval(interval);
+      startPolling(createData.jobId);
       
       toast({ title: 'Pipeline Started', description: `Job ${createData.jobId} is now running` });
       
@@ -197,60 +281,69 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
     }
   };
 
-  useEffect(() => {
-    return () => {
-      if (pollInterval) {
-        clearInterval(pollInterval);
-      }
-    };
-  }, [pollInterval]);
+  useEffect(() => stopPolling, [stopPolling]);
 
-  const getStageStatus = (stageNum: number): 'pending' | 'running' | 'complete' | 'error' => {
-    if (!jobData) return 'pending';
-    
-    if (jobData.status === 'failed' && jobData.currentStage === stageNum) {
-      return 'error';
-    }
-    
-    if (stageNum < (jobData.currentStage || 1)) {
-      return 'complete';
+  const updateTriage = (index: number, changes: Partial<TriageEntry>) => {
+    setTriage(prev => prev && prev.map(t => t.index === index ? { ...t, ...changes } : t));
+  };
+
+  const submitTriage = async () => {
+    if (!triage || !currentJobId) return;
+    if (!triage.some(t => t.keep)) {
+      toast({ title: 'Error', description: 'Keep at least one objection', variant: 'destructive' });
+      return;
     }
-    
-    if (stageNum === jobData.currentStage && jobData.stageStatus === 'running') {
-      return 'running';
+
+    // Only changed fields are sent; untouched objections keep their generated text
+    const decisions = triage.map(t => ({
+      index: t.index,
+      excluded: !t.keep,
+      integrationStrategy: t.strategy === 'auto' ? null : t.strategy,
+      ...(t.claimTargeted !== t.original.claimTargeted && { claimTargeted: t.claimTargeted }),
+      ...(t.objectionText !== t.original.objectionText && { objectionText: t.objectionText }),
+      ...(t.initialResponse !== t.original.initialResponse && { initialResponse: t.initialResponse }),
+    }));
+
+    setIsSubmittingTriage(true);
+    try {
+      const response = await fetch(`/api/pipeline/triage/${currentJobId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decisions })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.message);
+      }
+
+      setTriage(null);
+      startPolling(currentJobId);
+      toast({ title: 'Pipeline Resumed', description: data.message });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSubmittingTriage(false);
     }
-    
-    return 'pending';
   };
 
-  const getStageWordCount = (stageNum: number): number | null => {
-    if (!jobData) return null;
-    switch (stageNum) {
-      case 1: return jobData.wordCounts.reconstruction;
-      case 2: return jobData.wordCounts.objections;
-      case 3: return jobData.wordCounts.responses;
-      case 4: return jobData.wordCounts.bulletproof;
-      default: return null;
+  const stages = jobData?.stages?.length ? jobData.stages : DEFAULT_STAGE_RUNS;
+  const totalStages = stages.length;
+
+  const getStageStatus = (stage: StageRun): 'pending' | 'running' | 'complete' | 'error' => {
+    switch (stage.status) {
+      case 'complete': return 'complete';
+      case 'running': return 'running';
+      case 'failed': return 'error';
+      default: return 'pending';
     }
   };
 
-  const getStageDuration = (stageNum: number): string | null => {
-    if (!jobData) return null;
-    
-    let start: string | null = null;
-    let end: string | null = null;
-    
-    switch (stageNum) {
-      case 1: start = jobData.timing.stage1Start; end = jobData.timing.stage1End; break;
-      case 2: start = jobData.timing.stage2Start; end = jobData.timing.stage2End; break;
-      case 3: start = jobData.timing.stage3Start; end = jobData.timing.stage3End; break;
-      case 4: start = jobData.timing.stage4Start; end = jobData.timing.stage4End; break;
-    }
-    
-    if (!start) return null;
+  const getStageDuration = (stage: StageRun): string | null => {
+    if (!stage.start) return null;
     
-    const startDate = new Date(start);
-    const endDate = end ? new Date(end) : new Date();
+    const startDate = new Date(stage.start);
+    const endDate = stage.end ? new Date(stage.end) : new Date();
     const durationMs = endDate.getTime() - startDate.getTime();
     const durationSec = Math.round(durationMs / 1000);
     
@@ -258,12 +351,14 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
     return `${Math.floor(durationSec / 60)}m ${durationSec % 60}s`;
   };
 
+  // A running stage counts as half done
   const overallProgress = !jobData ? 0 : (
     (jobData.status === 'complete' || jobData.status === 'completed_with_warnings') ? 100 :
-    ((jobData.currentStage || 1) - 1) * 25 + 
-    (jobData.stageStatus === 'running' ? 12 : 0)
+    Math.round(stages.reduce((done, stage) => done + (stage.status === 'complete' ? 1 : stage.status === 'running' ? 0.5 : 0), 0) / totalStages * 100)
   );
 
+  const stageLabel = (output: StageOutput) => stages.find(stage => stage.index === output.index)?.label || output.name;
+
   return (
     <div className="space-y-4">
       <Card>
@@ -319,16 +414,37 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
             </CollapsibleContent>
           </Collapsible>
           
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="pause-for-triage">Review objections before bullet-proofing</Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                Pauses after Stage 2 so you can drop, edit and choose how each objection is integrated
+              </p>
+            </div>
+            <Switch
+              id="pause-for-triage"
+              checked={pauseForTriage}
+              onCheckedChange={setPauseForTriage}
+              disabled={isRunning}
+              data-testid="toggle-pause-for-triage"
+            />
+          </div>
+          
           <Button
             data-testid="button-start-pipeline"
             onClick={startPipeline}
             disabled={isRunning || countWords(inputText) < 100}
             className="w-full"
           >
-            {isRunning ? (
+            {jobData?.awaitingTriage && triage ? (
+              <>
+                <Pause className="w-4 h-4 mr-2" />
+                Waiting for objection review
+              </>
+            ) : isRunning ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Processing Stage {jobData?.currentStage || 1} of 4...
+                Processing Stage {jobData?.currentStage || 1} of {totalStages}...
               </>
             ) : (
               <>
@@ -351,22 +467,25 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
           <CardContent className="space-y-4">
             <Progress value={overallProgress} className="h-2" />
             
-            <div className="grid grid-cols-4 gap-2">
-              {PIPELINE_STAGES.map((stage) => {
-                const status = getStageStatus(stage.number);
-                const wordCount = getStageWordCount(stage.number);
-                const duration = getStageDuration(stage.number);
+            <div
+              className="grid gap-2"
+              style={{ gridTemplateColumns: `repeat(${Math.min(totalStages, 6)}, minmax(0, 1fr))` }}
+            >
+              {stages.map((stage) => {
+                const status = getStageStatus(stage);
+                const duration = getStageDuration(stage);
+                const StageIcon = STAGE_ICONS[stage.skeletonType] || FileText;
                 
                 return (
                   <div
-                    key={stage.number}
+                    key={stage.index}
                     className={`p-3 rounded-md border text-center transition-colors ${
                       status === 'complete' ? 'bg-green-500/10 border-green-500/30' :
                       status === 'running' ? 'bg-blue-500/10 border-blue-500/30' :
                       status === 'error' ? 'bg-red-500/10 border-red-500/30' :
                       'bg-muted/50 border-border'
                     }`}
-                    data-testid={`stage-${stage.number}`}
+                    data-testid={`stage-${stage.index}`}
                   >
                     <div className="flex items-center justify-center mb-1">
                       {status === 'complete' ? (
@@ -376,12 +495,12 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
                       ) : status === 'error' ? (
                         <AlertCircle className="w-5 h-5 text-red-500" />
                       ) : (
-                        <stage.icon className="w-5 h-5 text-muted-foreground" />
+                        <StageIcon className="w-5 h-5 text-muted-foreground" />
                       )}
                     </div>
-                    <div className="text-xs font-medium">{stage.name}</div>
-                    {wordCount && (
-                      <div className="text-xs text-muted-foreground mt-1">{wordCount.toLocaleString()} words</div>
+                    <div className="text-xs font-medium">{stage.label}</div>
+                    {stage.words && (
+                      <div className="text-xs text-muted-foreground mt-1">{stage.words.toLocaleString()} words</div>
                     )}
                     {duration && (
                       <div className="text-xs text-muted-foreground">{duration}</div>
@@ -409,6 +528,105 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
         </Card>
       )}
 
+      {triage && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <ListChecks className="w-4 h-4" />
+              Objection Review ({triage.filter(t => t.keep).length} of {triage.length} kept)
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Drop irrelevant objections, correct any that misread the text, and choose how each should be integrated
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {triage.map((t) => (
+              <div
+                key={t.index}
+                className={`p-3 rounded-md border space-y-2 ${t.keep ? '' : 'opacity-50'}`}
+                data-testid={`triage-objection-${t.index}`}
+              >
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={t.keep}
+                    onCheckedChange={(keep) => updateTriage(t.index, { keep })}
+                    data-testid={`toggle-keep-${t.index}`}
+                  />
+                  <span className="font-medium text-sm">{t.index}.</span>
+                  <Badge variant="outline" className="text-[10px]">{t.type?.toUpperCase()}</Badge>
+                  <Badge variant="outline" className="text-[10px]">{t.severity?.toUpperCase()}</Badge>
+                  <span className="text-sm text-muted-foreground truncate flex-1">{t.claimTargeted}</span>
+                  <Select
+                    value={t.strategy}
+                    onValueChange={(value) => updateTriage(t.index, { strategy: value as TriageEntry['strategy'] })}
+                    disabled={!t.keep}
+                  >
+                    <SelectTrigger className="w-36 h-8" data-testid={`select-strategy-${t.index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto</SelectItem>
+                      {PIPELINE_INTEGRATION_STRATEGIES.map((strategy) => (
+                        <SelectItem key={strategy} value={strategy} title={STRATEGY_DESCRIPTIONS[strategy]}>
+                          {strategy.charAt(0).toUpperCase() + strategy.slice(1)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => toggleSection(`triage-${t.index}`)}
+                    disabled={!t.keep}
+                    data-testid={`button-edit-objection-${t.index}`}
+                  >
+                    {expandedSections[`triage-${t.index}`] ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </Button>
+                </div>
+                {t.keep && expandedSections[`triage-${t.index}`] && (
+                  <div className="space-y-2 pl-12">
+                    <Label className="text-xs">Claim Targeted</Label>
+                    <Textarea
+                      value={t.claimTargeted}
+                      onChange={(e) => updateTriage(t.index, { claimTargeted: e.target.value })}
+                      className="min-h-[40px]"
+                      data-testid={`input-claim-${t.index}`}
+                    />
+                    <Label className="text-xs">Objection</Label>
+                    <Textarea
+                      value={t.objectionText}
+                      onChange={(e) => updateTriage(t.index, { objectionText: e.target.value })}
+                      className="min-h-[80px]"
+                      data-testid={`input-objection-${t.index}`}
+                    />
+                    <Label className="text-xs">Response</Label>
+                    <Textarea
+                      value={t.initialResponse}
+                      onChange={(e) => updateTriage(t.index, { initialResponse: e.target.value })}
+                      className="min-h-[80px]"
+                      data-testid={`input-response-${t.index}`}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              onClick={submitTriage}
+              disabled={isSubmittingTriage || !triage.some(t => t.keep)}
+              className="w-full"
+              data-testid="button-submit-triage"
+            >
+              {isSubmittingTriage ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4 mr-2" />
+              )}
+              Continue with {triage.filter(t => t.keep).length} Objections
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {objections.length > 0 && (
         <Card>
           <CardHeader className="pb-2">
@@ -420,12 +638,14 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
                 <div
                   key={obj.index}
                   className={`p-2 rounded text-center text-xs border ${
+                    obj.excluded ? 'opacity-40 line-through bg-muted/50 border-border' :
+                    obj.integrationStatus === 'contradicted' ? 'bg-red-500/10 border-red-500/30' :
                     obj.integrated ? 'bg-green-500/10 border-green-500/30' :
                     obj.hasEnhancedResponse ? 'bg-blue-500/10 border-blue-500/30' :
                     obj.hasResponse ? 'bg-yellow-500/10 border-yellow-500/30' :
                     'bg-muted/50 border-border'
                   }`}
-                  title={`${obj.type} - ${obj.severity}: ${obj.claimTargeted?.substring(0, 100)}...`}
+                  title={`${obj.type} - ${obj.severity}${obj.excluded ? ' (excluded)' : obj.integrationStrategy ? ` (${obj.integrationStrategy})` : ''}: ${obj.claimTargeted?.substring(0, 100)}...`}
                   data-testid={`objection-${obj.index}`}
                 >
                   <div className="font-medium">{obj.index}</div>
@@ -448,152 +668,61 @@ export function PipelineUI({ onClose }: PipelineUIProps) {
               <span className="flex items-center gap-1">
                 <span className="w-3 h-3 rounded bg-green-500/10 border-green-500/30 border" /> Integrated
               </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded bg-red-500/10 border-red-500/30 border" /> Contradicted
+              </span>
             </div>
           </CardContent>
         </Card>
       )}
 
-      {(outputs.reconstruction || outputs.objections || outputs.responses || outputs.bulletproof) && (
+      {outputs.some(o => o.output) && (
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-base">Outputs</CardTitle>
           </CardHeader>
           <CardContent className="space-y-2">
-            {outputs.reconstruction && (
-              <Collapsible open={expandedSections['reconstruction']}>
-                <CollapsibleTrigger asChild>
-                  <div 
-                    className="flex items-center justify-between p-3 rounded-md bg-muted/50 cursor-pointer hover-elevate"
-                    onClick={() => toggleSection('reconstruction')}
-                    data-testid="output-reconstruction-header"
-                  >
-                    <div className="flex items-center gap-2">
-                      <FileText className="w-4 h-4" />
-                      <span className="font-medium">Stage 1: Reconstruction</span>
-                      <Badge variant="secondary">{countWords(outputs.reconstruction).toLocaleString()} words</Badge>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => { e.stopPropagation(); copyToClipboard(outputs.reconstruction!, 'Reconstruction'); }}
-                        data-testid="button-copy-reconstruction"
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                      {expandedSections['reconstruction'] ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            {outputs.filter(o => o.output).map((o) => {
+              const OutputIcon = STAGE_ICONS[o.skeletonType] || FileText;
+              const label = stageLabel(o);
+              // The last stage holds the finished text
+              const isFinal = o.index === totalStages;
+              return (
+                <Collapsible key={o.index} open={expandedSections[o.name]}>
+                  <CollapsibleTrigger asChild>
+                    <div 
+                      className={`flex items-center justify-between p-3 rounded-md cursor-pointer hover-elevate ${
+                        isFinal ? 'bg-green-500/10 border border-green-500/30' : 'bg-muted/50'
+                      }`}
+                      onClick={() => toggleSection(o.name)}
+                      data-testid={`output-${o.name}-header`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <OutputIcon className={`w-4 h-4 ${isFinal ? 'text-green-600' : ''}`} />
+                        <span className="font-medium">Stage {o.index}: {label}</span>
+                        <Badge variant="secondary">{countWords(o.output!).toLocaleString()} words</Badge>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => { e.stopPropagation(); copyToClipboard(o.output!, label); }}
+                          data-testid={`button-copy-${o.name}`}
+                        >
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        {expandedSections[o.name] ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      </div>
                     </div>
-                  </div>
-                </CollapsibleTrigger>
-                <CollapsibleContent>
-                  <div className="mt-2 p-3 rounded-md bg-muted/30 max-h-[300px] overflow-auto text-sm whitespace-pre-wrap">
-                    {outputs.reconstruction}
-                  </div>
-                </CollapsibleContent>
-              </Collapsible>
-            )}
-
-            {outputs.objections && (
-              <Collapsible open={expandedSections['objections']}>
-                <CollapsibleTrigger asChild>
-                  <div 
-                    className="flex items-center justify-between p-3 rounded-md bg-muted/50 cursor-pointer hover-elevate"
-                    onClick={() => toggleSection('objections')}
-                    data-testid="output-objections-header"
-                  >
-                    <div className="flex items-center gap-2">
-                      <Target className="w-4 h-4" />
-                      <span className="font-medium">Stage 2: Objections</span>
-                      <Badge variant="secondary">{countWords(outputs.objections).toLocaleString()} words</Badge>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <div className={`mt-2 p-3 rounded-md bg-muted/30 ${isFinal ? 'max-h-[400px]' : 'max-h-[300px]'} overflow-auto text-sm whitespace-pre-wrap`}>
+                      {o.output}
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => { e.stopPropagation(); copyToClipboard(outputs.objections!, 'Objections'); }}
-                        data-testid="button-copy-objections"
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                      {expandedSections['objections'] ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-                    </div>
-                  </div>
-                </CollapsibleTrigger>
-                <CollapsibleContent>
-                  <div className="mt-2 p-3 rounded-md bg-muted/30 max-h-[300px] overflow-auto text-sm whitespace-pre-wrap">
-                    {outputs.objections}
-                  </div>
-                </CollapsibleContent>
-              </Collapsible>
-            )}
-
-            {outputs.responses && (
-              <Collapsible open={expandedSections['responses']}>
-                <CollapsibleTrigger asChild>
-                  <div 
-                    className="flex items-center justify-between p-3 rounded-md bg-muted/50 cursor-pointer hover-elevate"
-                    onClick={() => toggleSection('responses')}
-                    data-testid="output-responses-header"
-                  >
-                    <div className="flex items-center gap-2">
-                      <MessageSquare className="w-4 h-4" />
-                      <span className="font-medium">Stage 3: Enhanced Responses</span>
-                      <Badge variant="secondary">{countWords(outputs.responses).toLocaleString()} words</Badge>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => { e.stopPropagation(); copyToClipboard(outputs.responses!, 'Enhanced Responses'); }}
-                        data-testid="button-copy-responses"
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                      {expandedSections['responses'] ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-                    </div>
-                  </div>
-                </CollapsibleTrigger>
-                <CollapsibleContent>
-                  <div className="mt-2 p-3 rounded-md bg-muted/30 max-h-[300px] overflow-auto text-sm whitespace-pre-wrap">
-                    {outputs.responses}
-                  </div>
-                </CollapsibleContent>
-              </Collapsible>
-            )}
-
-            {outputs.bulletproof && (
-              <Collapsible open={expandedSections['bulletproof']}>
-                <CollapsibleTrigger asChild>
-                  <div 
-                    className="flex items-center justify-between p-3 rounded-md bg-green-500/10 border border-green-500/30 cursor-pointer hover-elevate"
-                    onClick={() => toggleSection('bulletproof')}
-                    data-testid="output-bulletproof-header"
-                  >
-                    <div className="flex items-center gap-2">
-                      <Shield className="w-4 h-4 text-green-600" />
-                      <span className="font-medium">Stage 4: Bullet-proof Version</span>
-                      <Badge variant="secondary">{countWords(outputs.bulletproof).toLocaleString()} words</Badge>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => { e.stopPropagation(); copyToClipboard(outputs.bulletproof!, 'Bullet-proof Version'); }}
-                        data-testid="button-copy-bulletproof"
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
-                      {expandedSections['bulletproof'] ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-                    </div>
-                  </div>
-                </CollapsibleTrigger>
-                <CollapsibleContent>
-                  <div className="mt-2 p-3 rounded-md bg-muted/30 max-h-[400px] overflow-auto text-sm whitespace-pre-wrap">
-                    {outputs.bulletproof}
-                  </div>
-                </CollapsibleContent>
-              </Collapsible>
-            )}
+                  </CollapsibleContent>
+                </Collapsible>
+              );
+            })}
           </CardContent>
         </Card>
       )}
@@ -42,7 +42,7 @@ const SimpleWebSearch: React.FC = () => {
       if (data.success && data.results) {
         setSearchResults(data.results);
       } else {
-        console.error('Search failed:', data.error);
+        console.error('Search failed:', data.message);
       }
     } catch (error) {
       console.error('Search error:', error);
@@ -68,7 +68,7 @@ const SimpleWebSearch: React.FC = () => {
         setSelectedContent(data.content);
         setShowRewriteForm(true);
       } else {
-        console.error('Content fetch failed:', data.error);
+        console.error('Content fetch failed:', data.message);
       }
     } catch (error) {
       console.error('Content fetch error:', error);
@@ -99,7 +99,7 @@ const SimpleWebSearch: React.FC = () => {
       if (data.success && data.rewrittenText) {
         setRewrittenText(data.rewrittenText);
       } else {
-        console.error('Rewrite failed:', data.error);
+        console.error('Rewrite failed:', data.message);
       }
     } catch (error) {
       console.error('Rewrite error:', error);
@@ -5,27 +5,28 @@ import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Copy, Download, X, Loader2, CheckCircle2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { DeliveredJobEvent, JobEventType } from "@shared/schema";
 
-interface StreamChunk {
-  type: 'section_complete' | 'progress' | 'outline' | 'complete';
-  sectionTitle?: string;
-  chunkText?: string;
-  sectionIndex?: number;
-  totalChunks?: number;
-  progress?: number;
-  stage?: string;
-  wordCount?: number;
-  totalWordCount?: number;
-}
+// Job events plus the socket's subscription acknowledgement and errors
+type StreamMessage =
+  | DeliveredJobEvent
+  | { type: 'subscribed'; id?: undefined; truncated?: boolean }
+  | { type: 'error'; id?: undefined; message?: string };
+
+const JOB_EVENT_TYPES: JobEventType[] = ['started', 'progress', 'outline', 'section', 'text', 'warning', 'complete', 'failed', 'aborted'];
 
 interface StreamingOutputModalProps {
   isOpen: boolean;
   onClose: () => void;
   onComplete?: (finalText: string) => void;
   startNew?: boolean;
+  // Generation stream to follow; set by the page that started the request
+  streamId?: string | null;
 }
 
-export function StreamingOutputModal({ isOpen, onClose, onComplete, startNew = false }: StreamingOutputModalProps) {
+const RECONNECT_DELAY_MS = 2000;
+
+export function StreamingOutputModal({ isOpen, onClose, onComplete, startNew = false, streamId = null }: StreamingOutputModalProps) {
   const [content, setContent] = useState<string>('');
   const [progress, setProgress] = useState(0);
   const [currentSection, setCurrentSection] = useState<string>('');
@@ -39,6 +40,9 @@ export function StreamingOutputModal({ isOpen, onClose, onComplete, startNew = f
   const contentRef = useRef<string>('');
   const hasStartedRef = useRef(false);
   const wordCountRef = useRef(0);
+  const lastSeqRef = useRef(0);
+  const streamIdRef = useRef<string | null>(null);
+  const isCompleteRef = useRef(false);
   const { toast } = useToast();
 
   const scrollToBottom = useCallback(() => {
@@ -51,6 +55,8 @@ export function StreamingOutputModal({ isOpen, onClose, onComplete, startNew = f
     setContent('');
     contentRef.current = '';
     wordCountRef.current = 0;
+    lastSeqRef.current = 0;
+    isCompleteRef.current = false;
     setProgress(0);
     setCurrentSection('Connecting...');
     setSectionsCompleted(0);
@@ -67,96 +73,200 @@ export function StreamingOutputModal({ isOpen, onClose, onComplete, startNew = f
       clearContent();
       hasStartedRef.current = true;
     }
+    if (streamId !== streamIdRef.current) {
+      // Sequence numbers restart with every generation stream
+      streamIdRef.current = streamId;
+      clearContent();
+    }
     
+    if (!streamId) {
+      setCurrentSection('No generation in progress');
+      return;
+    }
     setCurrentSection('Connecting...');
 
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws/cc-stream`;
-    
-    console.log('[StreamingModal] Connecting to WebSocket:', wsUrl);
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
+    let closedByUs = false;
+    let socketOpened = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let source: EventSource | null = null;
 
-    ws.onopen = () => {
-      console.log('[StreamingModal] WebSocket connected');
-      setCurrentSection('Waiting for generation to start...');
-    };
+    const handleMessage = (data: StreamMessage) => {
+      // Replays after a reconnect can overlap what was already shown
+      if (data.id !== undefined) {
+        if (data.id <= lastSeqRef.current) return;
+        lastSeqRef.current = data.id;
+      }
+      console.log('[StreamingModal] Received:', data.type);
 
-    ws.onmessage = (event) => {
-      try {
-        const data: StreamChunk = JSON.parse(event.data);
-        console.log('[StreamingModal] Received:', data.type);
-
-        switch (data.type) {
-          case 'outline':
-            setCurrentSection('Outline generated, starting sections...');
-            if (data.totalChunks) {
-              setTotalSections(data.totalChunks);
-            }
-            break;
-
-          case 'section_complete':
-            if (data.chunkText) {
-              setContent(prev => {
-                const newContent = prev ? prev + '\n\n' + data.chunkText : data.chunkText || '';
-                contentRef.current = newContent;
-                return newContent;
-              });
-            }
-            if (data.sectionTitle) {
-              setCurrentSection(`Completed: ${data.sectionTitle}`);
-            }
-            if (data.sectionIndex !== undefined) {
-              setSectionsCompleted(data.sectionIndex + 1);
-            }
-            if (data.totalChunks) {
-              setTotalSections(data.totalChunks);
-            }
-            if (data.progress !== undefined) {
-              setProgress(data.progress);
-            }
-            if (data.totalWordCount !== undefined) {
-              wordCountRef.current = data.totalWordCount;
-              setWordCount(data.totalWordCount);
-            }
-            setTimeout(scrollToBottom, 100);
-            break;
-
-          case 'complete':
-            setIsComplete(true);
-            setProgress(100);
-            setCurrentSection('Generation complete!');
-            if (data.totalWordCount !== undefined) {
-              wordCountRef.current = data.totalWordCount;
-              setWordCount(data.totalWordCount);
-            }
+      switch (data.type) {
+        case 'subscribed':
+          if (data.truncated) {
             toast({
-              title: "Generation Complete",
-              description: `${data.totalWordCount?.toLocaleString() || wordCountRef.current.toLocaleString()} words generated successfully.`,
+              title: "Some output was missed",
+              description: "Part of the stream expired while disconnected; the final result will still be complete.",
+              variant: "destructive",
             });
-            break;
-        }
-      } catch (err) {
-        console.error('[StreamingModal] Parse error:', err);
+          }
+          break;
+
+        case 'started':
+          setCurrentSection('Generation started...');
+          if (data.totalSections) {
+            setTotalSections(data.totalSections);
+          }
+          break;
+
+        case 'outline':
+          setCurrentSection('Outline generated, starting sections...');
+          if (data.totalSections) {
+            setTotalSections(data.totalSections);
+          }
+          break;
+
+        case 'section':
+          if (data.text) {
+            setContent(prev => {
+              const newContent = prev ? prev + '\n\n' + data.text : data.text;
+              contentRef.current = newContent;
+              return newContent;
+            });
+          }
+          setCurrentSection(data.title ? `Completed: ${data.title}` : `Completed section ${data.index + 1}`);
+          setSectionsCompleted(data.index + 1);
+          if (data.total) {
+            setTotalSections(data.total);
+          }
+          if (data.progress !== undefined) {
+            setProgress(data.progress);
+          }
+          if (data.totalWords !== undefined) {
+            wordCountRef.current = data.totalWords;
+            setWordCount(data.totalWords);
+          }
+          setTimeout(scrollToBottom, 100);
+          break;
+
+        case 'progress':
+          if (data.message) {
+            setCurrentSection(data.message);
+          }
+          if (data.progress !== undefined) {
+            setProgress(data.progress);
+          }
+          break;
+
+        case 'warning':
+          setCurrentSection(data.message);
+          break;
+
+        case 'complete':
+          isCompleteRef.current = true;
+          setIsComplete(true);
+          setProgress(100);
+          setCurrentSection('Generation complete!');
+          if (data.totalWords !== undefined) {
+            wordCountRef.current = data.totalWords;
+            setWordCount(data.totalWords);
+          }
+          toast({
+            title: "Generation Complete",
+            description: `${data.totalWords?.toLocaleString() || wordCountRef.current.toLocaleString()} words generated successfully.`,
+          });
+          break;
+
+        case 'failed':
+        case 'aborted':
+          isCompleteRef.current = true;
+          setCurrentSection(`Generation ${data.type}: ${data.message || 'unknown error'}`);
+          break;
+
+        case 'error':
+          console.error('[StreamingModal] Server error:', data.message);
+          break;
       }
     };
 
-    ws.onerror = (error) => {
-      console.error('[StreamingModal] WebSocket error:', error);
-      setCurrentSection('Connection error - check console');
+    // Server-Sent Events for when the socket can't be opened at all (proxies
+    // that block WebSockets). EventSource reconnects by itself and sends the
+    // last event id it saw.
+    const followWithEventSource = () => {
+      console.log('[StreamingModal] WebSocket unavailable, falling back to Server-Sent Events');
+      source = new EventSource(`/api/jobs/${encodeURIComponent(streamId)}/events?lastEventId=${lastSeqRef.current}`);
+      const onEvent = (event: MessageEvent) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (err) {
+          console.error('[StreamingModal] Parse error:', err);
+        }
+        if (isCompleteRef.current) {
+          source?.close();
+        }
+      };
+      JOB_EVENT_TYPES.forEach(type => source!.addEventListener(type, onEvent));
+      source.onopen = () => {
+        if (!isCompleteRef.current) {
+          setCurrentSection('Waiting for generation to start...');
+        }
+      };
     };
 
-    ws.onclose = () => {
-      console.log('[StreamingModal] WebSocket closed');
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const wsUrl = `${protocol}//${window.location.host}/ws/cc-stream`;
+
+    const connect = () => {
+      console.log('[StreamingModal] Connecting to WebSocket:', wsUrl);
+      const ws = new WebSocket(wsUrl);
+      wsRef.current = ws;
+
+      ws.onopen = () => {
+        console.log('[StreamingModal] WebSocket connected');
+        socketOpened = true;
+        // Resubscribing with the last id seen replays whatever was missed
+        ws.send(JSON.stringify({ type: 'subscribe_events', jobId: streamId, lastEventId: lastSeqRef.current }));
+        if (!isCompleteRef.current) {
+          setCurrentSection('Waiting for generation to start...');
+        }
+      };
+
+      ws.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (err) {
+          console.error('[StreamingModal] Parse error:', err);
+        }
+      };
+
+      ws.onerror = (error) => {
+        console.error('[StreamingModal] WebSocket error:', error);
+      };
+
+      ws.onclose = () => {
+        console.log('[StreamingModal] WebSocket closed');
+        if (closedByUs || isCompleteRef.current) return;
+        if (!socketOpened) {
+          followWithEventSource();
+          return;
+        }
+        setCurrentSection('Connection lost, reconnecting...');
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
     };
 
+    connect();
+
     return () => {
-      if (ws.readyState === WebSocket.OPEN) {
+      closedByUs = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      source?.close();
+      const ws = wsRef.current;
+      if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
         ws.close();
       }
       wsRef.current = null;
     };
-  }, [isOpen, toast, scrollToBottom, startNew, clearContent]);
+  }, [isOpen, toast, scrollToBottom, startNew, clearContent, streamId]);
 
   useEffect(() => {
     if (!startNew) {
@@ -0,0 +1,408 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Gauge, Home, Loader2, Play, Save, AlertTriangle } from 'lucide-react';
+import type {
+  CalibrationSet,
+  CalibrationSample,
+  CalibrationRun,
+  CalibrationResult,
+  CalibrationScorer,
+} from '@shared/schema';
+
+interface CalibrationSetSummary extends CalibrationSet {
+  sampleCount: number;
+  latestRun: CalibrationRun | null;
+}
+
+interface CalibrationRunDetail {
+  run: CalibrationRun;
+  results: Array<CalibrationResult & { sampleName: string }>;
+}
+
+interface DriftPoint {
+  runId: number;
+  setVersion: number | null;
+  scorer: string;
+  provider: string;
+  model: string | null;
+  completedAt: string | null;
+  meanAbsoluteError: number | null;
+  meanSignedError: number | null;
+  maeThreshold: number;
+  alert: boolean;
+}
+
+const SCORER_LABELS: Record<CalibrationScorer, string> = {
+  score_prompt: 'Scoring prompt',
+  evaluate_intelligence: 'Intelligence evaluation',
+  local_metrics: 'Local metrics',
+};
+
+const formatError = (value: number | null | undefined) => value == null ? '—' : value.toFixed(1);
+
+async function getJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    const detail = data.details?.errors?.map((e: any) => `${e.path?.join('.')}: ${e.message}`).join('; ');
+    throw new Error(detail ? `${data.message}: ${detail}` : data.message || 'Request failed');
+  }
+  return data;
+}
+
+export function CalibrationPage() {
+  const [sets, setSets] = useState<CalibrationSetSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [samplesJson, setSamplesJson] = useState('');
+  const [maeThreshold, setMaeThreshold] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [scorer, setScorer] = useState<CalibrationScorer>('score_prompt');
+  const [provider, setProvider] = useState('zhi1');
+  const [model, setModel] = useState('');
+  const [starting, setStarting] = useState(false);
+  const [run, setRun] = useState<CalibrationRunDetail | null>(null);
+  const [drift, setDrift] = useState<DriftPoint[]>([]);
+  const [alerts, setAlerts] = useState<CalibrationRun[]>([]);
+  const { toast } = useToast();
+
+  const selected = sets.find(s => s.id === selectedId) || null;
+
+  const loadSets = useCallback(async () => {
+    try {
+      const data = await getJson<{ sets: CalibrationSetSummary[] }>('/api/calibration/sets');
+      setSets(data.sets);
+      setSelectedId(current => current ?? data.sets[0]?.id ?? null);
+      const alertData = await getJson<{ alerts: CalibrationRun[] }>('/api/calibration/alerts');
+      setAlerts(alertData.alerts);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadSets();
+  }, [loadSets]);
+
+  // Load the selected set's samples into the editor and its drift history into the chart
+  useEffect(() => {
+    if (!selected) return;
+    getJson<{ set: CalibrationSet & { samples: CalibrationSample[] } }>(`/api/calibration/sets/${selected.id}`)
+      .then(data => {
+        setSamplesJson(JSON.stringify(
+          data.set.samples.map(({ name, text, expectedScore, reason }) => ({ name, text, expectedScore, reason })),
+          null,
+          2,
+        ));
+        setMaeThreshold(String(data.set.maeThreshold));
+      })
+      .catch(error => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+
+    const params = new URLSearchParams({ name: selected.name, scorer });
+    if (scorer === 'score_prompt') params.set('provider', provider);
+    getJson<{ runs: DriftPoint[] }>(`/api/calibration/drift?${params}`)
+      .then(data => setDrift(data.runs))
+      .catch(() => setDrift([]));
+  }, [selected?.id, selected?.name, scorer, provider, run?.run.status, toast]);
+
+  // Poll the active run until the worker finishes it
+  useEffect(() => {
+    if (!run || run.run.status === 'completed' || run.run.status === 'failed') return;
+    const timer = setTimeout(async () => {
+      try {
+        setRun(await getJson<CalibrationRunDetail>(`/api/calibration/runs/${run.run.id}`));
+      } catch (error: any) {
+        console.error('Error polling calibration run:', error);
+      }
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [run]);
+
+  useEffect(() => {
+    if (run?.run.status === 'completed') loadSets();
+  }, [run?.run.status, loadSets]);
+
+  const saveVersion = async () => {
+    if (!selected) return;
+    setSaving(true);
+    try {
+      let samples;
+      try {
+        samples = JSON.parse(samplesJson);
+      } catch {
+        throw new Error('Samples must be a JSON array of { name, text, expectedScore, reason }');
+      }
+      const data = await getJson<{ set: CalibrationSet }>('/api/calibration/sets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: selected.name,
+          description: selected.description,
+          maeThreshold: maeThreshold ? Number(maeThreshold) : undefined,
+          samples,
+        }),
+      });
+      toast({ title: 'Saved', description: `${data.set.name} v${data.set.version}` });
+      setSelectedId(data.set.id);
+      await loadSets();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startRun = async () => {
+    if (!selected) return;
+    setStarting(true);
+    try {
+      const data = await getJson<{ run: CalibrationRun }>(`/api/calibration/sets/${selected.id}/runs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scorer,
+          provider: scorer === 'score_prompt' ? provider : undefined,
+          model: scorer === 'score_prompt' && model.trim() ? model.trim() : undefined,
+        }),
+      });
+      setRun({ run: data.run, results: [] });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const chartData = drift.map(point => ({
+    label: `#${point.runId} v${point.setVersion ?? '?'}`,
+    mae: point.meanAbsoluteError,
+    bias: point.meanSignedError,
+  }));
+  const threshold = drift.length > 0 ? drift[drift.length - 1].maeThreshold : selected?.maeThreshold;
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-7xl">
+      <div className="flex items-center gap-3 mb-6">
+        <Link href="/">
+          <Button variant="ghost" size="sm" className="mr-2" data-testid="button-home">
+            <Home className="w-4 h-4 mr-1" />
+            Home
+          </Button>
+        </Link>
+        <Gauge className="w-8 h-8 text-primary" />
+        <h1 className="text-3xl font-bold" data-testid="text-calibration-title">Calibration</h1>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle>Calibration Set</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={selectedId ? String(selectedId) : undefined} onValueChange={v => setSelectedId(Number(v))}>
+              <SelectTrigger data-testid="select-calibration-set">
+                <SelectValue placeholder="Select a set" />
+              </SelectTrigger>
+              <SelectContent>
+                {sets.map(set => (
+                  <SelectItem key={set.id} value={String(set.id)}>
+                    {set.name} v{set.version} ({set.sampleCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="space-y-2">
+              <Label>Scorer</Label>
+              <Select value={scorer} onValueChange={v => setScorer(v as CalibrationScorer)}>
+                <SelectTrigger data-testid="select-calibration-scorer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCORER_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {scorer === 'score_prompt' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>Provider</Label>
+                  <Select value={provider} onValueChange={setProvider}>
+                    <SelectTrigger data-testid="select-calibration-provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="zhi1">ZHI 1</SelectItem>
+                      <SelectItem value="zhi2">ZHI 2</SelectItem>
+                      <SelectItem value="zhi3">ZHI 3</SelectItem>
+                      <SelectItem value="zhi4">ZHI 4</SelectItem>
+                      <SelectItem value="zhi5">ZHI 5</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Model</Label>
+                  <Input
+                    value={model}
+                    onChange={e => setModel(e.target.value)}
+                    placeholder="Provider default"
+                    data-testid="input-calibration-model"
+                  />
+                </div>
+              </div>
+            )}
+
+            <Button onClick={startRun} disabled={!selected || starting} className="w-full" data-testid="button-run-calibration">
+              {starting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run Calibration
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Samples</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={samplesJson}
+              onChange={e => setSamplesJson(e.target.value)}
+              className="min-h-[260px] font-mono text-xs"
+              data-testid="input-calibration-samples"
+            />
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label>MAE alert threshold</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={maeThreshold}
+                  onChange={e => setMaeThreshold(e.target.value)}
+                  className="w-32"
+                  data-testid="input-calibration-threshold"
+                />
+              </div>
+              <Button onClick={saveVersion} disabled={!selected || saving} variant="outline" data-testid="button-save-calibration">
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save as New Version
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {run && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Run #{run.run.id}
+              <Badge variant={run.run.status === 'failed' ? 'destructive' : 'secondary'}>{run.run.status}</Badge>
+              {run.run.alert && <Badge variant="destructive">MAE above threshold</Badge>}
+              {(run.run.status === 'queued' || run.run.status === 'running') && <Loader2 className="w-4 h-4 animate-spin" />}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              {run.run.provider}{run.run.model ? ` / ${run.run.model}` : ''} · MAE {formatError(run.run.meanAbsoluteError)} ·
+              bias {formatError(run.run.meanSignedError)} · max {formatError(run.run.maxAbsoluteError)} ·
+              {' '}{run.run.scoredCount}/{run.run.sampleCount} scored
+              {run.run.errorMessage ? ` · ${run.run.errorMessage}` : ''}
+            </p>
+            <Table data-testid="table-calibration-results">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sample</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Actual</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {run.results.map(result => (
+                  <TableRow key={result.id}>
+                    <TableCell>{result.sampleName}</TableCell>
+                    <TableCell className="text-right">{result.expectedScore}</TableCell>
+                    <TableCell className="text-right">{result.actualScore ?? '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {result.errorMessage ? <span className="text-destructive">{result.errorMessage}</span> : formatError(result.difference)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Drift</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {chartData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No completed runs for this set with the selected scorer and provider.</p>
+            ) : (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" fontSize={12} />
+                    <YAxis fontSize={12} />
+                    <Tooltip />
+                    {threshold != null && <ReferenceLine y={threshold} stroke="#dc2626" strokeDasharray="4 4" label="threshold" />}
+                    <Line type="monotone" dataKey="mae" name="MAE" stroke="#2563eb" strokeWidth={2} />
+                    <Line type="monotone" dataKey="bias" name="Mean signed error" stroke="#9333ea" strokeWidth={1} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Alerts
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {alerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No runs have exceeded their threshold.</p>
+            ) : alerts.map(alert => (
+              <div key={alert.id} className="text-sm border rounded-md p-2" data-testid={`alert-calibration-${alert.id}`}>
+                Run #{alert.id}: MAE {formatError(alert.meanAbsoluteError)} &gt; {alert.maeThreshold}
+                <div className="text-muted-foreground">
+                  {alert.scorer} · {alert.provider}{alert.model ? ` / ${alert.model}` : ''}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default CalibrationPage;
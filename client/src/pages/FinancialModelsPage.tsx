@@ -0,0 +1,342 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Calculator,
+  Download,
+  Loader2,
+  Home,
+  Play,
+  AlertCircle
+} from 'lucide-react';
+
+type ValuationModel = 'dcf' | 'lbo';
+type ValueFormat = 'money' | 'percent' | 'multiple';
+
+interface ScenarioResult {
+  name: 'downside' | 'base' | 'upside';
+  assumptions: Record<string, number>;
+  outputs: Record<string, number | null>;
+}
+
+interface SensitivityGrid {
+  id: string;
+  title: string;
+  metric: string;
+  metricFormat: ValueFormat;
+  rowLabel: string;
+  rowFormat: ValueFormat;
+  rowValues: number[];
+  columnLabel: string;
+  columnFormat: ValueFormat;
+  columnValues: number[];
+  cells: (number | null)[][];
+  baseRow: number;
+  baseColumn: number;
+}
+
+interface ValuationResult {
+  model: ValuationModel;
+  companyName: string;
+  defaultedFields: string[];
+  scenarios: ScenarioResult[];
+  formats: Record<string, ValueFormat>;
+  sensitivities: SensitivityGrid[];
+  warnings: string[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  revenueGrowth: 'Revenue growth',
+  ebitdaMargin: 'EBITDA margin',
+  targetEBITDAMargin: 'Target EBITDA margin',
+  wacc: 'WACC',
+  terminalGrowthRate: 'Terminal growth',
+  terminalMultiple: 'Terminal multiple',
+  exitMultiple: 'Exit multiple',
+  seniorDebtRate: 'Senior debt rate',
+  enterpriseValue: 'Enterprise value',
+  perpetuityGrowthEV: 'EV (perpetuity growth)',
+  exitMultipleEV: 'EV (exit multiple)',
+  sumOfPresentValues: 'PV of cash flows',
+  irr: 'IRR',
+  moic: 'MOIC',
+  sponsorEquity: 'Sponsor equity',
+  exitEquityValue: 'Exit equity value',
+};
+
+function labelFor(field: string): string {
+  return FIELD_LABELS[field] || field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+}
+
+function formatValue(value: number | null | undefined, format: ValueFormat | undefined): string {
+  if (value === null || value === undefined || !isFinite(value)) return '—';
+  switch (format) {
+    case 'money':
+      return `$${value.toLocaleString(undefined, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}M`;
+    case 'percent':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'multiple':
+      return `${value.toFixed(1)}x`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+export function FinancialModelsPage() {
+  const [model, setModel] = useState<ValuationModel>('dcf');
+  const [text, setText] = useState('');
+  const [result, setResult] = useState<ValuationResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const runValuation = async () => {
+    if (!text.trim()) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/financial-models/${model}/valuation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Valuation failed');
+      }
+      setResult(data);
+    } catch (error: any) {
+      console.error('Error running valuation:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to run valuation',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadWorkbook = async () => {
+    if (!text.trim()) return;
+    setDownloading(true);
+    try {
+      const response = await fetch(`/api/financial-models/${model}/workbook`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Workbook generation failed');
+      }
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${model}-model.xlsx`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Downloaded',
+        description: `Saved as ${filename}`,
+      });
+    } catch (error: any) {
+      console.error('Error downloading workbook:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download workbook',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const changeModel = (value: string) => {
+    setModel(value as ValuationModel);
+    setResult(null);
+  };
+
+  const scenarioFields = (key: 'assumptions' | 'outputs') =>
+    result ? Object.keys(result.scenarios.find(s => s.name === 'base')?.[key] || {}) : [];
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="flex items-center gap-3 mb-6">
+        <Link href="/">
+          <Button variant="ghost" size="sm" className="mr-2" data-testid="button-home">
+            <Home className="w-4 h-4 mr-1" />
+            Home
+          </Button>
+        </Link>
+        <Calculator className="w-8 h-8 text-primary" />
+        <h1 className="text-3xl font-bold" data-testid="text-financial-models-title">Financial Models</h1>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Deal Description</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={model} onValueChange={changeModel}>
+            <TabsList>
+              <TabsTrigger value="dcf" data-testid="tab-model-dcf">DCF</TabsTrigger>
+              <TabsTrigger value="lbo" data-testid="tab-model-lbo">LBO</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={model === 'dcf'
+              ? 'e.g. Acme Corp has revenue of $500M growing 8% a year, a 20% EBITDA margin, WACC of 9% and terminal growth of 2.5%...'
+              : 'e.g. Sponsor acquires Acme at 10x EBITDA of $100M with 5x leverage at 8%, exiting in year 5 at 11x...'}
+            className="min-h-[140px]"
+            data-testid="input-deal-description"
+          />
+          <div className="flex gap-2">
+            <Button onClick={runValuation} disabled={loading || !text.trim()} data-testid="button-run-valuation">
+              {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run Valuation
+            </Button>
+            <Button
+              variant="outline"
+              onClick={downloadWorkbook}
+              disabled={downloading || !text.trim()}
+              data-testid="button-download-workbook"
+            >
+              {downloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Download .xlsx
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <div className="space-y-6">
+          {(result.defaultedFields.length > 0 || result.warnings.length > 0) && (
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                {result.defaultedFields.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Defaulted (not found in the description):</span>
+                    {result.defaultedFields.map(field => (
+                      <Badge key={field} variant="secondary" data-testid={`badge-defaulted-${field}`}>
+                        {labelFor(field)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {result.warnings.map((warning, i) => (
+                  <div key={i} className="flex items-start gap-2 text-sm text-amber-600" data-testid={`text-warning-${i}`}>
+                    <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{result.companyName}: Scenarios</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table data-testid="table-scenarios">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    {result.scenarios.map(s => (
+                      <TableHead key={s.name} className="text-right capitalize">{s.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(['assumptions', 'outputs'] as const).map(key => scenarioFields(key).map((field, i) => (
+                    <TableRow key={`${key}-${field}`} className={key === 'outputs' && i === 0 ? 'border-t-2' : undefined}>
+                      <TableCell className={key === 'outputs' ? 'font-medium' : 'text-muted-foreground'}>
+                        {labelFor(field)}
+                      </TableCell>
+                      {result.scenarios.map(s => (
+                        <TableCell
+                          key={s.name}
+                          className={`text-right font-mono ${key === 'outputs' ? 'font-medium' : ''}`}
+                          data-testid={`cell-scenario-${s.name}-${field}`}
+                        >
+                          {formatValue(s[key][field], result.formats[field])}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  )))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {result.sensitivities.map(grid => (
+            <Card key={grid.id}>
+              <CardHeader>
+                <CardTitle>{grid.title}</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {labelFor(grid.metric)}: {grid.rowLabel} (rows) × {grid.columnLabel} (columns)
+                </p>
+              </CardHeader>
+              <CardContent>
+                <Table data-testid={`table-sensitivity-${grid.id}`}>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{grid.rowLabel} \ {grid.columnLabel}</TableHead>
+                      {grid.columnValues.map((column, c) => (
+                        <TableHead key={c} className={`text-right ${c === grid.baseColumn ? 'text-foreground' : ''}`}>
+                          {formatValue(column, grid.columnFormat)}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {grid.cells.map((row, r) => (
+                      <TableRow key={r}>
+                        <TableCell className={r === grid.baseRow ? 'font-medium' : 'text-muted-foreground'}>
+                          {formatValue(grid.rowValues[r], grid.rowFormat)}
+                        </TableCell>
+                        {row.map((cell, c) => (
+                          <TableCell
+                            key={c}
+                            className={`text-right font-mono ${r === grid.baseRow && c === grid.baseColumn ? 'bg-primary/10 font-bold' : ''}`}
+                            data-testid={`cell-${grid.id}-${r}-${c}`}
+                          >
+                            {formatValue(cell, grid.metricFormat)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FinancialModelsPage;
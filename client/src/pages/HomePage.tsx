@@ -34,6 +34,7 @@ import { useToast } from "@/hooks/use-toast";
 import CopyButton from "@/components/CopyButton";
 import SendToButton from "@/components/SendToButton";
 import { MathRenderer } from "@/components/MathRenderer";
+import type { ObjectionRecord } from "@shared/schema";
 
 // Utility function to strip markdown formatting from AI outputs
 const stripMarkdown = (text: string): string => {
@@ -202,9 +203,11 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
   // Streaming Output Modal State (for real-time expansion preview)
   const [streamingModalOpen, setStreamingModalOpen] = useState(false);
   const [streamingStartNew, setStreamingStartNew] = useState(false);
+  const [generationStreamId, setGenerationStreamId] = useState<string | null>(null);
   
   // Objections Function State (standalone)
   const [objectionsOutput, setObjectionsOutput] = useState("");
+  const [objectionRecords, setObjectionRecords] = useState<ObjectionRecord[] | null>(null); // Structured objections behind objectionsOutput
   const [objectionsLoading, setObjectionsLoading] = useState(false);
   const [objectionsProgress, setObjectionsProgress] = useState<string>(""); // Progress message for large docs
   const [objectionsCustomInstructions, setObjectionsCustomInstructions] = useState("");
@@ -1181,12 +1184,15 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     // Detect if this is an expansion request for streaming (check both original and interpreted instructions)
     const isExpansionRequest = hasExpansionInstructions(effectiveInstructions);
     const isInstructionsOnly = effectiveText.trim().length === 0;
+    // Chunks are only delivered to this user's sockets subscribed to this id
+    const streamId = isExpansionRequest ? `stream-${crypto.randomUUID()}` : null;
     
     // For instructions-only mode, show appropriate message
     if (isInstructionsOnly) {
       setValidatorProgress("Generating content from instructions...");
     } else if (isExpansionRequest) {
       // Open streaming modal for real-time preview - signal new generation
+      setGenerationStreamId(streamId);
       setStreamingStartNew(true);
       setStreamingModalOpen(true);
       setValidatorProgress("Streaming output in real-time...");
@@ -1200,8 +1206,8 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
 
     try {
       // Add stream=true query param for expansion requests
-      const endpoint = isExpansionRequest 
-        ? '/api/text-model-validator?stream=true'
+      const endpoint = streamId
+        ? `/api/text-model-validator?stream=true&streamId=${streamId}`
         : '/api/text-model-validator';
       
       const response = await fetch(endpoint, {
@@ -1260,6 +1266,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     setValidatorBatchResults([]);
     setValidatorSelectedModes([]);
     setObjectionsOutput("");
+    setObjectionRecords(null);
     setObjectionsInputText("");
     setObjectionsCustomInstructions("");
     setFullSuiteObjectionProofOutput("");
@@ -1582,6 +1589,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
 
     setObjectionsLoading(true);
     setObjectionsOutput("");
+    setObjectionRecords(null);
     
     // Calculate word count to show appropriate progress message
     const wordCount = objectionsInputText.split(/\s+/).filter(w => w.length > 0).length;
@@ -1615,6 +1623,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       const data = await response.json();
       if (data.success && data.output) {
         setObjectionsOutput(stripMarkdown(data.output));
+        setObjectionRecords(data.objections || null);
         const methodDesc = data.method === 'outline-first' ? ' (outline-first analysis)' : '';
         toast({
           title: "Objections Generated!",
@@ -1707,6 +1716,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
     // Clear previous outputs
     setValidatorBatchResults([]);
     setObjectionsOutput("");
+    setObjectionRecords(null);
     setFullSuiteObjectionProofOutput("");
     setFullSuiteReconstructionOutput("");
     // Close other popups but OPEN the unified Full Suite popup immediately
@@ -1818,6 +1828,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
       }
 
       setObjectionsOutput(stripMarkdown(objectionsData.output));
+      setObjectionRecords(objectionsData.objections || null);
       // Also set the objections input text so it can be used in objection-proof
       setObjectionsInputText(reconstructionOutput);
       console.log("[FULL SUITE] Stage 2 complete: Objections generated");
@@ -1835,6 +1846,7 @@ DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK
         body: JSON.stringify({
           originalText: reconstructionOutput,
           objectionsOutput: objectionsData.output,
+          objections: objectionsData.objections,
           customInstructions: effectiveInstructions || "",  // Use interpreted instructions
           finalVersionOnly: true,
         }),
@@ -5822,6 +5834,7 @@ Generated on: ${new Date().toLocaleString()}`;
                           body: JSON.stringify({
                             originalText: objectionsInputText,
                             objectionsOutput: objectionsOutput,
+                            objections: objectionRecords,
                             customInstructions: combinedInstructions,
                           }),
                         });
@@ -8597,6 +8610,7 @@ Generated on: ${new Date().toLocaleString()}`;
       <StreamingOutputModal
         isOpen={streamingModalOpen}
         startNew={streamingStartNew}
+        streamId={generationStreamId}
         onClose={() => {
           setStreamingModalOpen(false);
           setStreamingStartNew(false);
@@ -0,0 +1,529 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FlaskConical,
+  Download,
+  Loader2,
+  Home,
+  Play,
+  CheckCircle,
+  AlertCircle,
+  RefreshCw
+} from 'lucide-react';
+
+type ProblemType = 'classification' | 'clustering' | 'dimensionality_reduction';
+
+interface MLModelParameters {
+  problemType: ProblemType;
+  modelType: string;
+  autoMode: boolean;
+  dataSource: string;
+  targetVariable?: string;
+  featureVariables: string[];
+  classLabels?: string[];
+  nClusters?: number | 'auto';
+  nComponents?: number | 'auto';
+  purpose?: 'visualization' | 'preprocessing';
+  testSize: number;
+  randomState: number;
+  cvFolds: number;
+  scaleFeatures: boolean;
+  handleImbalance: boolean;
+  hyperparameterTuning: 'none' | 'grid' | 'random';
+  tuningIterations: number;
+  sampleSize: number;
+  customInstructions?: string;
+}
+
+interface PythonValidation {
+  valid: boolean;
+  syntaxChecked: boolean;
+  syntaxError: { line: number; column: number; message: string } | null;
+  imports: string[];
+  disallowedImports: { module: string; line: number }[];
+  disallowedCalls: { name: string; line: number }[];
+  warnings: string[];
+}
+
+interface MLExperiment {
+  parameters: MLModelParameters;
+  code: string;
+  validation: PythonValidation;
+  warnings: string[];
+}
+
+const PROBLEM_TYPES: { value: ProblemType; label: string }[] = [
+  { value: 'classification', label: 'Classification' },
+  { value: 'clustering', label: 'Clustering' },
+  { value: 'dimensionality_reduction', label: 'Dimensionality reduction' },
+];
+
+const MODEL_TYPES: Record<ProblemType, { value: string; label: string }[]> = {
+  classification: [
+    { value: 'auto', label: 'Compare all models' },
+    { value: 'random_forest', label: 'Random forest' },
+    { value: 'xgboost', label: 'XGBoost' },
+    { value: 'svm', label: 'Support vector machine' },
+    { value: 'mlp', label: 'Neural network (MLP)' },
+    { value: 'gradient_boosting', label: 'Gradient boosting' },
+    { value: 'knn', label: 'k-nearest neighbors' },
+    { value: 'naive_bayes', label: 'Naive Bayes' },
+    { value: 'logistic_regression', label: 'Logistic regression' },
+  ],
+  clustering: [
+    { value: 'auto', label: 'Auto (k-means)' },
+    { value: 'kmeans', label: 'k-means' },
+    { value: 'dbscan', label: 'DBSCAN' },
+    { value: 'hierarchical', label: 'Hierarchical' },
+    { value: 'gmm', label: 'Gaussian mixture' },
+    { value: 'mean_shift', label: 'Mean shift' },
+  ],
+  dimensionality_reduction: [
+    { value: 'auto', label: 'Auto (PCA)' },
+    { value: 'pca', label: 'PCA' },
+    { value: 'tsne', label: 't-SNE' },
+    { value: 'umap', label: 'UMAP' },
+    { value: 'lda', label: 'LDA' },
+  ],
+};
+
+const REGENERATE_DELAY_MS = 400;
+
+// Text inputs keep a draft while typing and commit on blur, so a half-typed
+// list or number does not trigger a regeneration
+function DraftInput({ id, value, onCommit, invalid, placeholder }: {
+  id: string;
+  value: string;
+  onCommit: (value: string) => void;
+  invalid?: boolean;
+  placeholder?: string;
+}) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <Input
+      id={id}
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onCommit(draft)}
+      onKeyDown={(e) => e.key === 'Enter' && draft !== value && onCommit(draft)}
+      className={invalid ? 'border-destructive' : undefined}
+      data-testid={`input-${id}`}
+    />
+  );
+}
+
+function toList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function toNumber(text: string): number | string {
+  const number = Number(text);
+  return text.trim() !== '' && isFinite(number) ? number : text;
+}
+
+function toCount(text: string): number | 'auto' | string {
+  return text.trim().toLowerCase() === 'auto' ? 'auto' : toNumber(text);
+}
+
+export function MLExperimentsPage() {
+  const [description, setDescription] = useState('');
+  const [provider, setProvider] = useState('zhi1');
+  const [parameters, setParameters] = useState<MLModelParameters | null>(null);
+  const [experiment, setExperiment] = useState<MLExperiment | null>(null);
+  const [invalidFields, setInvalidFields] = useState<string[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+  const [downloading, setDownloading] = useState<'py' | 'ipynb' | null>(null);
+  const { toast } = useToast();
+  // Parameters as last returned by the server; edits differ from these
+  const generatedFrom = useRef<MLModelParameters | null>(null);
+
+  const parseDescription = async () => {
+    if (!description.trim()) return;
+    setParsing(true);
+    try {
+      const response = await fetch('/api/ml-experiments/parse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ description, provider }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Parsing failed');
+      }
+      generatedFrom.current = data.parameters;
+      setParameters(data.parameters);
+      setExperiment(data);
+      setInvalidFields([]);
+    } catch (error: any) {
+      console.error('Error parsing ML description:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to parse the problem description',
+        variant: 'destructive',
+      });
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  // Regenerate the script whenever the edited parameters settle
+  useEffect(() => {
+    if (!parameters || parameters === generatedFrom.current) return;
+    const timer = setTimeout(async () => {
+      setRegenerating(true);
+      try {
+        const response = await fetch('/api/ml-experiments/generate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ parameters }),
+        });
+        const data = await response.json();
+        if (response.status === 400 && data.invalidFields) {
+          setInvalidFields(data.invalidFields);
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(data.message || 'Regeneration failed');
+        }
+        generatedFrom.current = parameters;
+        setExperiment(data);
+        setInvalidFields([]);
+      } catch (error: any) {
+        console.error('Error regenerating ML code:', error);
+        toast({
+          title: 'Error',
+          description: error.message || 'Failed to regenerate code',
+          variant: 'destructive',
+        });
+      } finally {
+        setRegenerating(false);
+      }
+    }, REGENERATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [parameters]);
+
+  const update = (changes: Record<string, unknown>) => {
+    setParameters(current => current && ({ ...current, ...changes } as MLModelParameters));
+  };
+
+  const changeProblemType = (problemType: string) => {
+    update({ problemType, modelType: 'auto', autoMode: true });
+  };
+
+  const changeModelType = (modelType: string) => {
+    update({ modelType, autoMode: modelType === 'auto' });
+  };
+
+  const download = async (format: 'py' | 'ipynb') => {
+    if (!experiment) return;
+    setDownloading(format);
+    try {
+      const response = await fetch('/api/ml-experiments/download', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ parameters: experiment.parameters, format }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Download failed');
+      }
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `ml_experiment.${format}`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Downloaded',
+        description: `Saved as ${filename}`,
+      });
+    } catch (error: any) {
+      console.error('Error downloading ML code:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download code',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const isInvalid = (field: string) => invalidFields.includes(field);
+  const validation = experiment?.validation;
+  const stale = invalidFields.length > 0 || regenerating || (parameters !== null && parameters !== generatedFrom.current);
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="flex items-center gap-3 mb-6">
+        <Link href="/">
+          <Button variant="ghost" size="sm" className="mr-2" data-testid="button-home">
+            <Home className="w-4 h-4 mr-1" />
+            Home
+          </Button>
+        </Link>
+        <FlaskConical className="w-8 h-8 text-primary" />
+        <h1 className="text-3xl font-bold" data-testid="text-ml-experiments-title">ML Experiments</h1>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Problem Description</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. Predict whether a customer will churn from tenure, monthly charges and support calls; the churn class is rare, compare a few models..."
+            className="min-h-[120px]"
+            data-testid="input-ml-description"
+          />
+          <div className="flex gap-2">
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger className="w-40" data-testid="select-ml-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="zhi1">ZHI 1</SelectItem>
+                <SelectItem value="zhi2">ZHI 2</SelectItem>
+                <SelectItem value="zhi3">ZHI 3</SelectItem>
+                <SelectItem value="zhi4">ZHI 4</SelectItem>
+                <SelectItem value="zhi5">ZHI 5</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={parseDescription} disabled={parsing || !description.trim()} data-testid="button-parse-ml">
+              {parsing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Generate Experiment
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {parameters && experiment && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                Parameters
+                {regenerating && <RefreshCw className="w-4 h-4 animate-spin text-muted-foreground" />}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label>Problem type</Label>
+                <Select value={parameters.problemType} onValueChange={changeProblemType}>
+                  <SelectTrigger data-testid="select-problem-type"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PROBLEM_TYPES.map(p => <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Model</Label>
+                <Select value={parameters.modelType} onValueChange={changeModelType}>
+                  <SelectTrigger data-testid="select-model-type"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {MODEL_TYPES[parameters.problemType].map(m => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="features">Feature columns (comma-separated)</Label>
+                <DraftInput id="features" value={parameters.featureVariables.join(', ')} invalid={isInvalid('featureVariables')}
+                  placeholder="feature_1, feature_2, ..." onCommit={v => update({ featureVariables: toList(v) })} />
+              </div>
+
+              {parameters.problemType === 'classification' && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="target">Target column</Label>
+                    <DraftInput id="target" value={parameters.targetVariable || ''} invalid={isInvalid('targetVariable')}
+                      placeholder="target" onCommit={v => update({ targetVariable: v.trim() || undefined })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="classes">Class labels (comma-separated)</Label>
+                    <DraftInput id="classes" value={(parameters.classLabels || []).join(', ')} invalid={isInvalid('classLabels')}
+                      placeholder="class_0, class_1" onCommit={v => update({ classLabels: toList(v).length ? toList(v) : undefined })} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="test-size">Test size</Label>
+                      <DraftInput id="test-size" value={String(parameters.testSize)} invalid={isInvalid('testSize')}
+                        onCommit={v => update({ testSize: toNumber(v) })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="cv-folds">CV folds</Label>
+                      <DraftInput id="cv-folds" value={String(parameters.cvFolds)} invalid={isInvalid('cvFolds')}
+                        onCommit={v => update({ cvFolds: toNumber(v) })} />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Hyperparameter tuning</Label>
+                    <Select value={parameters.hyperparameterTuning} onValueChange={v => update({ hyperparameterTuning: v })}>
+                      <SelectTrigger data-testid="select-tuning"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="grid">Grid search</SelectItem>
+                        <SelectItem value="random">Random search</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {parameters.hyperparameterTuning === 'random' && (
+                    <div className="space-y-1">
+                      <Label htmlFor="iterations">Tuning iterations</Label>
+                      <DraftInput id="iterations" value={String(parameters.tuningIterations)} invalid={isInvalid('tuningIterations')}
+                        onCommit={v => update({ tuningIterations: toNumber(v) })} />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="imbalance">Handle class imbalance</Label>
+                    <Switch id="imbalance" checked={parameters.handleImbalance}
+                      onCheckedChange={v => update({ handleImbalance: v })} data-testid="switch-imbalance" />
+                  </div>
+                </>
+              )}
+
+              {parameters.problemType === 'clustering' && (
+                <div className="space-y-1">
+                  <Label htmlFor="clusters">Clusters (number or "auto")</Label>
+                  <DraftInput id="clusters" value={String(parameters.nClusters ?? 'auto')} invalid={isInvalid('nClusters')}
+                    onCommit={v => update({ nClusters: toCount(v) })} />
+                </div>
+              )}
+
+              {parameters.problemType === 'dimensionality_reduction' && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="components">Components (number or "auto")</Label>
+                    <DraftInput id="components" value={String(parameters.nComponents ?? 'auto')} invalid={isInvalid('nComponents')}
+                      onCommit={v => update({ nComponents: toCount(v) })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Purpose</Label>
+                    <Select value={parameters.purpose || 'visualization'} onValueChange={v => update({ purpose: v })}>
+                      <SelectTrigger data-testid="select-purpose"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="visualization">Visualization</SelectItem>
+                        <SelectItem value="preprocessing">Preprocessing</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="samples">Sample size</Label>
+                  <DraftInput id="samples" value={String(parameters.sampleSize)} invalid={isInvalid('sampleSize')}
+                    onCommit={v => update({ sampleSize: toNumber(v) })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="seed">Random state</Label>
+                  <DraftInput id="seed" value={String(parameters.randomState)} invalid={isInvalid('randomState')}
+                    onCommit={v => update({ randomState: toNumber(v) })} />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="scale">Scale features</Label>
+                <Switch id="scale" checked={parameters.scaleFeatures}
+                  onCheckedChange={v => update({ scaleFeatures: v })} data-testid="switch-scale" />
+              </div>
+
+              {invalidFields.length > 0 && (
+                <div className="flex items-start gap-2 text-sm text-destructive" data-testid="text-invalid-fields">
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                  Fix the highlighted fields to regenerate: {invalidFields.join(', ')}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <CardTitle className="flex items-center gap-2">
+                  Generated Code
+                  {validation?.valid ? (
+                    <Badge variant="secondary" className="gap-1" data-testid="badge-validation">
+                      <CheckCircle className="w-3 h-3 text-green-600" />
+                      {validation.syntaxChecked ? 'Syntax and imports checked' : 'Imports checked'}
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive" className="gap-1" data-testid="badge-validation">
+                      <AlertCircle className="w-3 h-3" />
+                      Failed validation
+                    </Badge>
+                  )}
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => download('py')}
+                    disabled={!validation?.valid || stale || downloading !== null} data-testid="button-download-py">
+                    {downloading === 'py' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                    .py
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => download('ipynb')}
+                    disabled={!validation?.valid || stale || downloading !== null} data-testid="button-download-ipynb">
+                    {downloading === 'ipynb' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+                    .ipynb
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {validation && (
+                <div className="flex flex-wrap gap-1">
+                  {validation.imports.map(module => (
+                    <Badge key={module} variant="outline" className="font-mono text-xs">{module}</Badge>
+                  ))}
+                </div>
+              )}
+              {validation?.syntaxError && (
+                <p className="text-sm text-destructive" data-testid="text-syntax-error">
+                  Syntax error at line {validation.syntaxError.line}: {validation.syntaxError.message}
+                </p>
+              )}
+              {validation?.disallowedImports.map((item, i) => (
+                <p key={`import-${i}`} className="text-sm text-destructive">Import not allowed at line {item.line}: {item.module}</p>
+              ))}
+              {validation?.disallowedCalls.map((item, i) => (
+                <p key={`call-${i}`} className="text-sm text-destructive">Call not allowed at line {item.line}: {item.name}()</p>
+              ))}
+              {[...experiment.warnings, ...(validation?.warnings || [])].map((warning, i) => (
+                <div key={i} className="flex items-start gap-2 text-sm text-amber-600" data-testid={`text-ml-warning-${i}`}>
+                  <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                  {warning}
+                </div>
+              ))}
+              <ScrollArea className="h-[600px] rounded-md border bg-muted/30">
+                <pre className="p-4 text-xs font-mono whitespace-pre" data-testid="text-ml-code">{experiment.code}</pre>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MLExperimentsPage;
@@ -168,7 +168,7 @@ const WebSearchPage: React.FC = () => {
       } else {
         toast({
           title: 'Content Fetch Failed',
-          description: data.error || 'Failed to retrieve content from the URL',
+          description: data.message || 'Failed to retrieve content from the URL',
           variant: 'destructive',
         });
       }
@@ -282,7 +282,7 @@ Your task is to create a comprehensive synthesis of the provided content accordi
         if (data.success && data.rewrittenText) {
           setRewrittenContent(data.rewrittenText);
         } else {
-          throw new Error(data.error || 'Failed to rewrite content');
+          throw new Error(data.message || 'Failed to rewrite content');
         }
       }
       
@@ -1,33 +1,39 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import fetch from 'node-fetch';
+import { completeChat, isProviderConfigured } from '../services/llmProviders';
+
+const DIRECT_SYSTEM_PROMPT = "You are a helpful assistant responding to user instructions. Provide direct, thorough and accurate responses.";
+
+async function directRequest(
+  provider: string,
+  keyName: string,
+  model: string,
+  temperature: number | undefined,
+  instructions: string
+) {
+  if (!isProviderConfigured(provider) && !process.env.LLM_PROVIDER_OVERRIDE) {
+    throw new Error(`${keyName} is required but not provided`);
+  }
+
+  return completeChat(provider, {
+    model,
+    system: DIRECT_SYSTEM_PROMPT,
+    messages: [{ role: "user", content: instructions }],
+    temperature,
+    maxTokens: 4000,
+  });
+}
 
 /**
  * Direct request to OpenAI without any intermediary processing
  */
 export async function directOpenAIRequest(instructions: string): Promise<any> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is required but not provided");
-  }
-
   console.log("Sending direct request to OpenAI");
   
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-      messages: [
-        { role: "system", content: "You are a helpful assistant responding to user instructions. Provide direct, thorough and accurate responses." },
-        { role: "user", content: instructions }
-      ],
-      temperature: 0.3,
-      max_tokens: 4000,
-    });
-    
+    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+    const response = await directRequest('openai', 'OPENAI_API_KEY', "gpt-4o", 0.3, instructions);
     return {
-      content: response.choices[0].message.content,
-      model: "gpt-4o",
+      content: response.text,
+      model: response.model,
       provider: "OpenAI"
     };
   } catch (error) {
@@ -40,33 +46,16 @@ export async function directOpenAIRequest(instructions: string): Promise<any> {
  * Direct request to Anthropic Claude without any intermediary processing
  */
 export async function directClaudeRequest(instructions: string): Promise<any> {
-  if (!process.env.ANTHROPIC_API_KEY) {
-    throw new Error("ANTHROPIC_API_KEY is required but not provided");
-  }
-
   console.log("Sending direct request to Claude");
   
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219", // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-      system: "You are a helpful assistant responding to user instructions. Provide direct, thorough and accurate responses.",
-      messages: [
-        { role: "user", content: instructions }
-      ],
-      max_tokens: 4000,
-    });
-    
-    if (response.content && response.content[0] && 'text' in response.content[0]) {
-      return {
-        content: response.content[0].text,
-        model: "claude-3-7-sonnet-20250219",
-        provider: "Anthropic (Claude)"
-      };
-    } else {
-      throw new Error("Unexpected response format from Anthropic API");
-    }
+    // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+    const response = await directRequest('anthropic', 'ANTHROPIC_API_KEY', "claude-3-7-sonnet-20250219", undefined, instructions);
+    return {
+      content: response.text,
+      model: response.model,
+      provider: "Anthropic (Claude)"
+    };
   } catch (error) {
     console.error("Error in direct Claude request:", error);
     throw error;
@@ -77,46 +66,16 @@ export async function directClaudeRequest(instructions: string): Promise<any> {
  * Direct request to Perplexity without any intermediary processing
  */
 export async function directPerplexityRequest(instructions: string): Promise<any> {
-  if (!process.env.PERPLEXITY_API_KEY) {
-    throw new Error("PERPLEXITY_API_KEY is required but not provided");
-  }
-
   console.log("Sending direct request to Perplexity");
   
   try {
-    const response = await fetch('https://api.perplexity.ai/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: "sonar",
-        messages: [
-          { role: "system", content: "You are a helpful assistant responding to user instructions. Provide direct, thorough and accurate responses." },
-          { role: "user", content: instructions }
-        ],
-        temperature: 0.4,
-        max_tokens: 4000,
-      })
-    });
-    
-    const data = await response.json() as any;
-    
-    if (!response.ok) {
-      throw new Error(data?.error?.message || "Perplexity API error");
-    }
-    
-    if (data && data.choices && data.choices[0] && data.choices[0].message) {
-      return {
-        content: data.choices[0].message.content,
-        model: "sonar",
-        provider: "Perplexity",
-        citations: data.citations || []
-      };
-    } else {
-      throw new Error("Unexpected response format from Perplexity API");
-    }
+    const response = await directRequest('perplexity', 'PERPLEXITY_API_KEY', "sonar", 0.4, instructions);
+    return {
+      content: response.text,
+      model: response.model,
+      provider: "Perplexity",
+      citations: response.citations || []
+    };
   } catch (error) {
     console.error("Error in direct Perplexity request:", error);
     throw error;
@@ -127,45 +86,15 @@ export async function directPerplexityRequest(instructions: string): Promise<any
  * Direct request to DeepSeek without any intermediary processing
  */
 export async function directDeepSeekRequest(instructions: string): Promise<any> {
-  if (!process.env.DEEPSEEK_API_KEY) {
-    throw new Error("DEEPSEEK_API_KEY is required but not provided");
-  }
-
   console.log("Sending direct request to DeepSeek");
   
   try {
-    const response = await fetch('https://api.deepseek.com/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          { role: "system", content: "You are a helpful assistant responding to user instructions. Provide direct, thorough and accurate responses." },
-          { role: "user", content: instructions }
-        ],
-        temperature: 0.3,
-        max_tokens: 4000,
-      })
-    });
-    
-    const data = await response.json() as any;
-    
-    if (!response.ok) {
-      throw new Error(data?.error?.message || "DeepSeek API error");
-    }
-    
-    if (data && data.choices && data.choices[0] && data.choices[0].message) {
-      return {
-        content: data.choices[0].message.content,
-        model: "deepseek-chat",
-        provider: "DeepSeek"
-      };
-    } else {
-      throw new Error("Unexpected response format from DeepSeek API");
-    }
+    const response = await directRequest('deepseek', 'DEEPSEEK_API_KEY', "deepseek-chat", 0.3, instructions);
+    return {
+      content: response.text,
+      model: response.model,
+      provider: "DeepSeek"
+    };
   } catch (error) {
     console.error("Error in direct DeepSeek request:", error);
     throw error;
@@ -1,26 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
+import { IncomingMessage, ServerResponse } from "http";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, insertUserSchema, LoginData } from "@shared/schema";
-import { z } from "zod";
-
-const loginSchema = z.object({
-  username: z.string().min(1, "Username is required"),
-  password: z.string().min(1, "Password is required")
-});
-
-const registerSchema = insertUserSchema.pick({
-  username: true,
-  password: true,
-  email: true
-}).extend({
-  username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters")
-});
+import { User as SelectUser, LoginData, USER_ROLES, type UserRole } from "@shared/schema";
+import { getEffectivePermissions } from "./lib/rbac";
+import { loginRequestSchema, registerRequestSchema } from "@shared/routeSchemas";
+import { sendError } from "./lib/httpErrors";
 
 declare global {
   namespace Express {
@@ -43,7 +32,86 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// AUTO-LOGIN / KIOSK MODE
+// AUTH_MODE=auto-login signs visitors without a session in as
+// AUTO_LOGIN_USERNAME; they can still log in as someone else. AUTH_MODE=kiosk
+// pins every request to that user and disables login, logout and registration.
+// The user is created on first use with AUTO_LOGIN_ROLE (default admin) and,
+// unless AUTO_LOGIN_UNLIMITED=false, an unlimited credit plan.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type AuthMode = "standard" | "auto-login" | "kiosk";
+
+export function getAuthMode(): AuthMode {
+  const mode = (process.env.AUTH_MODE || "standard").trim().toLowerCase();
+  if (mode === "auto-login" || mode === "kiosk") return mode;
+  if (mode !== "standard") {
+    console.warn(`[Auth] Unknown AUTH_MODE "${mode}", using standard`);
+  }
+  return "standard";
+}
+
+let autoLoginUserId: Promise<number> | null = null;
+
+async function provisionAutoLoginUser(): Promise<number> {
+  const username = (process.env.AUTO_LOGIN_USERNAME || "owner").trim().toLowerCase();
+  const configuredRole = (process.env.AUTO_LOGIN_ROLE || "admin").trim().toLowerCase();
+  const role: UserRole = (USER_ROLES as readonly string[]).includes(configuredRole) ? configuredRole as UserRole : "admin";
+  const unlimitedCredits = process.env.AUTO_LOGIN_UNLIMITED !== "false";
+
+  let user = await storage.getUserByUsername(username);
+  if (!user) {
+    // Random password: the account is only reachable through auto-login
+    user = await storage.createUser({
+      username,
+      password: await hashPassword(randomBytes(24).toString("hex")),
+    });
+    console.log(`[Auth] Created auto-login user "${username}"`);
+  }
+  await storage.updateUserAccess(user.id, { role, unlimitedCredits });
+  console.log(`[Auth] ${getAuthMode()} mode: signing visitors in as "${username}" (${role}${unlimitedCredits ? ", unlimited credits" : ""})`);
+  return user.id;
+}
+
+async function getAutoLoginUser(): Promise<SelectUser | undefined> {
+  if (!autoLoginUserId) {
+    autoLoginUserId = provisionAutoLoginUser().catch(error => {
+      autoLoginUserId = null;
+      throw error;
+    });
+  }
+  // Reloaded per request so role and credit changes apply immediately
+  return storage.getUser(await autoLoginUserId);
+}
+
+let sessionMiddleware: RequestHandler | null = null;
+
+// WebSocket upgrades bypass the express stack, so they read the same session
+// cookie here; auto-login and kiosk modes resolve to the shared account
+export async function authenticateUpgrade(req: IncomingMessage): Promise<SelectUser | undefined> {
+  const authMode = getAuthMode();
+  if (authMode === "kiosk") {
+    return getAutoLoginUser();
+  }
+  if (!sessionMiddleware) {
+    throw new Error("authenticateUpgrade called before setupAuth");
+  }
+
+  const middleware = sessionMiddleware;
+  await new Promise<void>((resolve, reject) => {
+    middleware(req as any, new ServerResponse(req) as any, (err?: any) => err ? reject(err) : resolve());
+  });
+  const userId: number | undefined = (req as any).session?.passport?.user;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user && authMode === "auto-login") {
+    return getAutoLoginUser();
+  }
+  return user;
+}
+
 export function setupAuth(app: Express) {
+  const authMode = getAuthMode();
   const isProduction = process.env.NODE_ENV === "production";
   
   const sessionSettings: session.SessionOptions = {
@@ -60,30 +128,42 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
+  if (authMode !== "standard") {
+    const kiosk = authMode === "kiosk";
+    app.use(async (req, res, next) => {
+      // /api/v1 authenticates with API tokens only
+      if (!req.path.startsWith("/api") || req.path.startsWith("/api/v1/")) return next();
+      try {
+        if (req.isAuthenticated() && (!kiosk || req.user?.id === (await autoLoginUserId))) {
+          return next();
+        }
+        const user = await getAutoLoginUser();
+        if (!user) return next();
+        // Kiosk requests are signed in per request without creating sessions
+        req.login(user, { session: !kiosk }, (err) => next(err));
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  const rejectInKiosk = (_req: any, res: any, next: any) => {
+    if (authMode === "kiosk") {
+      return sendError(res, 403, "Accounts are disabled in kiosk mode");
+    }
+    next();
+  };
+
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const normalizedUsername = (username || "").trim().toLowerCase();
         
-        // Special case: JMK can log in with any password (DEVELOPMENT ONLY)
-        if (normalizedUsername === "jmk") {
-          let user = await storage.getUserByUsername(normalizedUsername);
-          if (!user) {
-            // Create the special user if they don't exist
-            user = await storage.createUser({
-              username: normalizedUsername,
-              password: await hashPassword("dev123"),
-              email: "jmk@neurotext.io"
-            });
-          }
-          return done(null, user);
-        }
-
-        // Regular authentication for all other users
         const user = await storage.getUserByUsername(normalizedUsername);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
@@ -102,15 +182,12 @@ export function setupAuth(app: Express) {
     done(null, user);
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", rejectInKiosk, async (req, res, next) => {
     try {
       // Validate request body
-      const validationResult = registerSchema.safeParse(req.body);
+      const validationResult = registerRequestSchema.safeParse(req.body);
       if (!validationResult.success) {
-        return res.status(400).json({ 
-          message: "Validation failed", 
-          errors: validationResult.error.errors 
-        });
+        return sendError(res, 400, "Validation failed", { errors: validationResult.error.errors });
       }
 
       const { password, email } = validationResult.data;
@@ -118,7 +195,7 @@ export function setupAuth(app: Express) {
 
       const existingUser = await storage.getUserByUsername(normalizedUsername);
       if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
+        return sendError(res, 400, "Username already exists");
       }
 
       const user = await storage.createUser({
@@ -136,54 +213,19 @@ export function setupAuth(app: Express) {
     }
   });
 
-  // Special endpoint removed for security - admin bypass now only in /api/login with env protection
-
-  app.post("/api/login", async (req, res, next) => {
+  app.post("/api/login", rejectInKiosk, async (req, res, next) => {
     const normalizedUsername = String(req.body.username || "").trim().toLowerCase();
     req.body.username = normalizedUsername;
     
-    // Special case for JMK - bypass passport entirely (auto-login user)
-    if (normalizedUsername === "jmk") {
-      try {
-        let user = await storage.getUserByUsername(normalizedUsername);
-        if (!user) {
-          console.log("[Auth] Creating JMK user...");
-          user = await storage.createUser({
-            username: normalizedUsername,
-            password: await hashPassword("dev123"),
-            email: "jmk@neurotext.io"
-          });
-          console.log("[Auth] JMK user created successfully");
-        }
-        
-        req.login(user, (err) => {
-          if (err) {
-            console.error("[Auth] JMK login session error:", err);
-            return res.status(500).json({ message: "Session error: " + err.message });
-          }
-          console.log("[Auth] JMK logged in successfully");
-          res.status(200).json(user);
-        });
-        return; // Exit early for JMK
-      } catch (error: any) {
-        console.error("[Auth] JMK login error:", error);
-        return res.status(500).json({ message: "Login error: " + (error.message || "Unknown error") });
-      }
-    } else {
-      // Regular validation for other users
-      const validationResult = loginSchema.safeParse(req.body);
-      if (!validationResult.success) {
-        return res.status(400).json({ 
-          message: "Validation failed", 
-          errors: validationResult.error.errors 
-        });
-      }
+    const validationResult = loginRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return sendError(res, 400, "Validation failed", { errors: validationResult.error.errors });
     }
 
     passport.authenticate("local", (err: any, user: any) => {
       if (err) return next(err);
       if (!user) {
-        return res.status(401).json({ message: "Invalid username or password" });
+        return sendError(res, 401, "Invalid username or password");
       }
       req.login(user, (err) => {
         if (err) return next(err);
@@ -192,7 +234,7 @@ export function setupAuth(app: Express) {
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  app.post("/api/logout", rejectInKiosk, (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
@@ -200,7 +242,7 @@ export function setupAuth(app: Express) {
   });
 
   app.get("/api/user", (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    if (!req.isAuthenticated()) return sendError(res, 401, "Not authenticated");
+    res.json({ ...req.user, effectivePermissions: getEffectivePermissions(req.user), authMode });
   });
 }
\ No newline at end of file
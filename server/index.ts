@@ -1,4 +1,4 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express, { type Request } from "express";
 import { createServer } from "http";
 
 import { setupVite, serveStatic, log } from "./vite";
@@ -6,9 +6,20 @@ import { registerRoutes } from "./routes";
 import { validateEnvironmentOrExit } from "./utils/envValidation";
 import { setupWebSocketServer, cleanupOldJobs } from "./services/ccStreamingService";
 import { testDbConnection } from "./services/dbHelper";
+import { reconcilePendingTransactions } from "./services/stripeWebhookService";
+import { isStripeConfigured } from "./lib/stripe-config";
+import { requestIds, errorHandler } from "./lib/httpErrors";
+import { startJobWorker, isEmbeddedWorkerEnabled } from "./services/jobWorker";
 
 const app = express();
-app.use(express.json({ limit: '50mb' }));
+app.use(requestIds());
+app.use(express.json({
+  limit: '50mb',
+  // Stripe signs the exact bytes it sent, so the webhook verifies against the raw body
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 
 // Headers for iframe embedding (Wix compatibility)
@@ -19,7 +30,8 @@ app.use((req, res, next) => {
   // Set CORS headers to allow embedding
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Request-Id');
+  res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id');
   
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
@@ -74,24 +86,8 @@ app.use((req, res, next) => {
   
   await registerRoutes(app);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    // Create a properly formatted error response that the frontend can handle
-    res.status(200).json({
-      error: true,
-      errorMessage: message,
-      formattedReport: `**Analysis Error**\n\nWe encountered an issue with the AI service: ${message}\n\nPlease try again or select a different AI provider.`,
-      provider: "AI Service (Error)",
-      overallScore: 0,
-      surface: { grammar: 0, structure: 0, jargonUsage: 0, surfaceFluency: 0 },
-      deep: { conceptualDepth: 0, inferentialContinuity: 0, semanticCompression: 0, logicalLaddering: 0, originality: 0 }
-    });
-    
-    // Log the error but don't throw it to prevent crashing the server
-    console.error("Server error:", err);
-  });
+  // Uniform { success: false, message, requestId } for errors that reach Express
+  app.use(errorHandler());
 
   // Create HTTP server
   const server = createServer(app);
@@ -105,6 +101,18 @@ app.use((req, res, next) => {
     cleanupOldJobs().catch(err => console.error('[CC-WS] Cleanup failed:', err));
   }, 60 * 60 * 1000);
 
+  // Re-check pending credit purchases whose webhook never arrived (every 15 minutes)
+  if (isStripeConfigured) {
+    setInterval(() => {
+      reconcilePendingTransactions().catch(err => console.error('[Stripe] Reconciliation failed:', err));
+    }, 15 * 60 * 1000);
+  }
+
+  // Run queued long jobs in this process unless a separate worker (server/worker.ts) handles them
+  if (isEmbeddedWorkerEnabled()) {
+    startJobWorker();
+  }
+
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
@@ -0,0 +1,89 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "../storage";
+import type { ApiToken, ApiTokenScope, V1Error } from "@shared/schema";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PERSONAL API TOKENS
+// Scripts authenticate to /api/v1 with "Authorization: Bearer ntk_...".
+// Tokens are looked up by SHA-256 hash (they are random, so no salt or slow
+// hash is needed), carry a list of scopes, and can expire or be revoked.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const TOKEN_PREFIX = "ntk_";
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Don't write last_used_at on every request from a busy script
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+declare global {
+  namespace Express {
+    interface Locals {
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken(): { token: string; tokenPrefix: string; tokenHash: string } {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH), tokenHash: hashApiToken(token) };
+}
+
+// Token as listed to its owner: never includes the hash
+export function describeApiToken(token: ApiToken) {
+  const { tokenHash, ...rest } = token;
+  return { ...rest, active: !token.revokedAt && (!token.expiresAt || token.expiresAt > new Date()) };
+}
+
+export function sendV1Error(res: Response, status: number, error: V1Error) {
+  return res.status(status).json({ error: { ...error, requestId: res.req.requestId } });
+}
+
+export function apiTokenAuth(): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization || "";
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    if (!match || !match[1].startsWith(TOKEN_PREFIX)) {
+      return sendV1Error(res, 401, { code: "unauthorized", message: "Send a personal API token as 'Authorization: Bearer ntk_...'" });
+    }
+
+    try {
+      const token = await storage.getApiTokenByHash(hashApiToken(match[1]));
+      if (!token || token.revokedAt) {
+        return sendV1Error(res, 401, { code: "unauthorized", message: "API token is invalid or revoked" });
+      }
+      if (token.expiresAt && token.expiresAt <= new Date()) {
+        return sendV1Error(res, 401, { code: "unauthorized", message: "API token has expired" });
+      }
+
+      const user = await storage.getUser(token.userId);
+      if (!user) {
+        return sendV1Error(res, 401, { code: "unauthorized", message: "API token owner no longer exists" });
+      }
+
+      if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+        storage.touchApiToken(token.id, req.ip).catch(err => console.error("[API Tokens] Failed to record use:", err.message));
+      }
+
+      res.locals.apiToken = token;
+      // Token requests never create or modify a session
+      req.login(user, { session: false }, (err) => next(err));
+    } catch (error: any) {
+      console.error("[API Tokens] Authentication error:", error);
+      sendV1Error(res, 500, { code: "internal_error", message: "Authentication failed" });
+    }
+  };
+}
+
+export function requireScope(scope: ApiTokenScope): RequestHandler {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    if (!res.locals.apiToken?.scopes.includes(scope)) {
+      return sendV1Error(res, 403, { code: "forbidden", message: `API token lacks the '${scope}' scope` });
+    }
+    next();
+  };
+}
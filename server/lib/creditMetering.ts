@@ -0,0 +1,418 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { and, eq, sql } from "drizzle-orm";
+import { creditTransactions, llmCalls, userCredits } from "@shared/schema";
+import { db } from "../db";
+import { storage } from "../storage";
+import { CREDIT_PACKAGES, isStripeConfigured, hasUnlimitedCredits, calculateWordCount } from "./stripe-config";
+import { runWithLLMContext } from "../services/llmContext";
+import { sendError } from "./httpErrors";
+import { sendV1Error } from "./apiTokens";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CREDIT METERING
+// Every LLM-consuming route is listed in METERED_ROUTES. Before the handler
+// runs, the middleware estimates the request's cost in word credits and
+// reserves it from the user's balance for the chosen provider. The handler
+// then runs inside an LLM context carrying the reservation id, so every
+// logLLMCall row is billed to it. When the work ends the reservation is
+// settled against the logged tokens (unused credits are returned; usage past
+// the reservation is recorded but not charged, so the ledger always matches
+// the balance), or refunded in full if the request failed.
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface MeteredRoute {
+  method: "GET" | "POST";
+  path: string; // Express-style, e.g. /api/pipeline/run/:jobId
+  feature: string;
+  defaultProvider: string;
+  // The handler always calls defaultProvider, whatever provider the request names
+  fixedProvider?: boolean;
+  // Expected words processed (prompts + outputs) per input word
+  multiplier: number;
+  // For routes whose input is not in the request body. Route params are passed
+  // separately: the middleware runs before Express has matched the route.
+  inputWords?: (req: Request, params: Record<string, string>) => Promise<number>;
+}
+
+interface CreditMeter {
+  transactionId: number;
+  userId: number;
+  provider: string;
+  reserved: number;
+  metadata: Record<string, any>;
+  // Set by holdCredits(): the handler settles when its background work ends
+  held: boolean;
+  closed: boolean;
+}
+
+export interface CreditHold {
+  // The reservation's ledger entry; a queued job settles it by id (see settleCreditTransaction)
+  transactionId: number | null;
+  settle(): Promise<void>;
+  refund(reason?: string): Promise<void>;
+}
+
+// Smallest reservation for any metered request: covers prompt scaffolding
+const MIN_RESERVATION = 500;
+const WORDS_PER_TOKEN = 0.75;
+
+const ZHI_PROVIDERS: Record<string, string> = {
+  zhi1: "openai",
+  zhi2: "anthropic",
+  zhi3: "deepseek",
+  zhi4: "perplexity",
+  zhi5: "grok"
+};
+
+async function pipelineJobWords(_req: Request, params: Record<string, string>): Promise<number> {
+  const jobId = parseInt(params.jobId);
+  if (isNaN(jobId)) return 0;
+  const { pipelineJobs } = await import("@shared/schema");
+  const [job] = await db.select({ words: pipelineJobs.originalWordCount })
+    .from(pipelineJobs)
+    .where(eq(pipelineJobs.id, jobId));
+  return job?.words || 0;
+}
+
+async function calibrationSetWords(_req: Request, params: Record<string, string>): Promise<number> {
+  const setId = parseInt(params.id);
+  if (isNaN(setId)) return 0;
+  const { calibrationSetWordCount } = await import("../services/calibration");
+  return calibrationSetWordCount(setId);
+}
+
+const METERED_ROUTES: MeteredRoute[] = [
+  { method: "POST", path: "/api/quick-analysis", feature: "quick_analysis", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/quick-compare", feature: "quick_compare", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/intelligent-rewrite", feature: "intelligent_rewrite", defaultProvider: "zhi1", multiplier: 4 },
+  { method: "POST", path: "/api/cognitive-evaluate", feature: "cognitive_evaluate", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/stream-comprehensive", feature: "comprehensive_analysis", defaultProvider: "zhi1", multiplier: 5 },
+  { method: "POST", path: "/api/analyze", feature: "analysis", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/compare", feature: "comparison", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/intelligence-compare", feature: "intelligence_compare", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/get-enhancement-suggestions", feature: "enhancement_suggestions", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/translate", feature: "translation", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/direct-model-request", feature: "direct_model_request", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/chat-with-memory", feature: "chat", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/semantic-analysis", feature: "semantic_analysis", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/reconstruction/start", feature: "reconstruction", defaultProvider: "zhi2", fixedProvider: true, multiplier: 6 },
+  { method: "POST", path: "/api/case-assessment", feature: "case_assessment", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/fiction-assessment", feature: "fiction_assessment", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/cognitive-quick", feature: "cognitive_quick", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/fiction-compare", feature: "fiction_compare", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/originality-evaluate", feature: "originality_evaluate", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/cogency-evaluate", feature: "cogency_evaluate", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/overall-quality-evaluate", feature: "overall_quality_evaluate", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/stream-analysis", feature: "stream_analysis", defaultProvider: "zhi1", multiplier: 5 },
+  { method: "POST", path: "/api/re-rewrite", feature: "re_rewrite", defaultProvider: "zhi1", multiplier: 4 },
+  { method: "POST", path: "/api/evaluate-ai", feature: "evaluate_ai", defaultProvider: "zhi1", fixedProvider: true, multiplier: 2 },
+  { method: "POST", path: "/api/analyze-text", feature: "analyze_text", defaultProvider: "zhi1", fixedProvider: true, multiplier: 2 },
+  { method: "POST", path: "/api/rewrite", feature: "rewrite", defaultProvider: "zhi2", multiplier: 4 },
+  { method: "POST", path: "/api/re-rewrite/:jobId", feature: "re_rewrite", defaultProvider: "zhi2", multiplier: 4 },
+  { method: "POST", path: "/api/gpt-bypass-humanizer", feature: "humanizer", defaultProvider: "zhi2", multiplier: 4 },
+  { method: "POST", path: "/api/reconstruction/stream", feature: "reconstruction_stream", defaultProvider: "zhi2", fixedProvider: true, multiplier: 6 },
+  { method: "POST", path: "/api/hcc", feature: "hcc", defaultProvider: "zhi2", fixedProvider: true, multiplier: 6 },
+  { method: "POST", path: "/api/text-model-validator", feature: "text_model_validator", defaultProvider: "zhi1", multiplier: 4 },
+  { method: "POST", path: "/api/text-model-validator/batch", feature: "text_model_validator_batch", defaultProvider: "zhi1", multiplier: 8 },
+  { method: "POST", path: "/api/text-model-validator/objections", feature: "objections", defaultProvider: "zhi1", multiplier: 4 },
+  { method: "POST", path: "/api/objection-proof-rewrite", feature: "objection_proof_rewrite", defaultProvider: "zhi1", multiplier: 5 },
+  { method: "POST", path: "/api/refine-output", feature: "refine_output", defaultProvider: "zhi1", multiplier: 3 },
+  { method: "POST", path: "/api/coherence-meter", feature: "coherence_meter", defaultProvider: "zhi2", fixedProvider: true, multiplier: 3 },
+  { method: "POST", path: "/api/content-analysis", feature: "content_analysis", defaultProvider: "zhi2", fixedProvider: true, multiplier: 2 },
+  { method: "POST", path: "/api/coherence-global", feature: "coherence_global", defaultProvider: "zhi2", fixedProvider: true, multiplier: 4 },
+  { method: "POST", path: "/api/coherence-outline-guided", feature: "coherence_outline_guided", defaultProvider: "zhi2", fixedProvider: true, multiplier: 4 },
+  { method: "POST", path: "/api/coherence-sequential", feature: "coherence_sequential", defaultProvider: "zhi1", multiplier: 4 },
+  { method: "POST", path: "/api/pipeline/start", feature: "pipeline", defaultProvider: "zhi2", fixedProvider: true, multiplier: 12 },
+  { method: "POST", path: "/api/pipeline/run/:jobId", feature: "pipeline", defaultProvider: "zhi2", fixedProvider: true, multiplier: 12, inputWords: pipelineJobWords },
+  // Stages after objection triage (responses and bullet-proof)
+  { method: "POST", path: "/api/pipeline/triage/:jobId", feature: "pipeline", defaultProvider: "zhi2", fixedProvider: true, multiplier: 6, inputWords: pipelineJobWords },
+  // Stages left after a failure or a pause; billed like a full run, then settled on what was used
+  { method: "POST", path: "/api/pipeline/resume/:jobId", feature: "pipeline", defaultProvider: "zhi2", fixedProvider: true, multiplier: 12, inputWords: pipelineJobWords },
+  { method: "POST", path: "/api/generate-strict-outline", feature: "strict_outline", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/generate-full-document", feature: "full_document", defaultProvider: "zhi1", multiplier: 6 },
+  { method: "POST", path: "/api/ml-experiments/parse", feature: "ml_experiment_parse", defaultProvider: "zhi1", multiplier: 2 },
+  { method: "POST", path: "/api/calibration/sets/:id/runs", feature: "calibration_run", defaultProvider: "zhi1", multiplier: 3, inputWords: calibrationSetWords },
+  // Public API (token-authenticated, see routes/v1.ts)
+  { method: "POST", path: "/api/v1/reconstructions", feature: "reconstruction", defaultProvider: "zhi2", fixedProvider: true, multiplier: 6 },
+  { method: "POST", path: "/api/v1/coherence", feature: "coherence_meter", defaultProvider: "zhi2", fixedProvider: true, multiplier: 3 },
+  { method: "POST", path: "/api/v1/pipelines", feature: "pipeline", defaultProvider: "zhi2", fixedProvider: true, multiplier: 12 },
+  { method: "POST", path: "/api/v1/translations", feature: "translation", defaultProvider: "zhi1", multiplier: 2 }
+];
+
+const routeMatchers = METERED_ROUTES.map(route => ({
+  route,
+  paramNames: Array.from(route.path.matchAll(/:([A-Za-z]+)/g), m => m[1]),
+  pattern: new RegExp("^" + route.path.replace(/:[A-Za-z]+/g, "([^/]+)") + "/?$")
+}));
+
+// CREDIT_METERING=on|off; by default credits are enforced whenever they can be bought
+export function isCreditMeteringEnabled(): boolean {
+  const setting = process.env.CREDIT_METERING?.trim().toLowerCase();
+  if (setting === "off") return false;
+  if (setting === "on") return true;
+  return isStripeConfigured;
+}
+
+function findMeteredRoute(req: Request): { route: MeteredRoute; params: Record<string, string> } | undefined {
+  for (const matcher of routeMatchers) {
+    if (matcher.route.method !== req.method) continue;
+    const match = matcher.pattern.exec(req.path);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    matcher.paramNames.forEach((name, i) => { params[name] = decodeURIComponent(match[i + 1]); });
+    return { route: matcher.route, params };
+  }
+  return undefined;
+}
+
+// The provider whose credits pay for the request. Analysis routes take their
+// provider as zhi1-zhi5 or a provider name; one without a credit package
+// (grok, local, mock or an unknown name) is billed as the route's default.
+function resolveCreditProvider(req: Request, route: MeteredRoute): string {
+  const fallback = ZHI_PROVIDERS[route.defaultProvider] || route.defaultProvider;
+  if (route.fixedProvider) return fallback;
+  const requested = String(req.body?.provider || req.body?.llmProvider || "").trim().toLowerCase();
+  const provider = ZHI_PROVIDERS[requested] || requested;
+  return provider in CREDIT_PACKAGES ? provider : fallback;
+}
+
+function countRequestWords(body: any): number {
+  if (!body) return 0;
+  if (typeof body === "string") return calculateWordCount(body);
+  if (Array.isArray(body)) return body.reduce((sum, item) => sum + countRequestWords(item), 0);
+  if (typeof body === "object") {
+    return Object.values(body).reduce<number>((sum, value) => sum + countRequestWords(value), 0);
+  }
+  return 0;
+}
+
+// Moves a reservation out of `reserved` and returns `credit` to the balance in
+// one transaction. Returns false, changing nothing, if another settle or refund
+// got there first.
+async function closeReservation(
+  meter: CreditMeter,
+  updates: Partial<typeof creditTransactions.$inferInsert>,
+  credit: number
+): Promise<boolean> {
+  return await db.transaction(async (tx) => {
+    const [closed] = await tx.update(creditTransactions)
+      .set(updates)
+      .where(and(eq(creditTransactions.id, meter.transactionId), eq(creditTransactions.status, "reserved")))
+      .returning({ id: creditTransactions.id });
+    if (!closed) return false;
+
+    if (credit > 0) {
+      await tx.update(userCredits)
+        .set({ credits: sql`${userCredits.credits} + ${credit}`, lastUpdated: new Date() })
+        .where(and(eq(userCredits.userId, meter.userId), eq(userCredits.provider, meter.provider)));
+    }
+    return true;
+  });
+}
+
+async function settleMeter(meter: CreditMeter): Promise<void> {
+  if (meter.closed) return;
+  meter.closed = true;
+
+  try {
+    const [usage] = await db.select({
+      calls: sql<number>`count(*)::int`,
+      tokens: sql<number>`coalesce(sum(coalesce(${llmCalls.inputTokens}, 0) + coalesce(${llmCalls.outputTokens}, 0)), 0)::int`
+    })
+      .from(llmCalls)
+      .where(eq(llmCalls.creditTransactionId, meter.transactionId));
+
+    // Without logged token counts the estimate is the best measure of the work done
+    const used = usage.tokens > 0 ? Math.ceil(usage.tokens * WORDS_PER_TOKEN) : meter.reserved;
+    // The reservation is all that was taken from the balance, so it is the most
+    // that can be charged; charging more would need credits the user may not have
+    const actual = Math.min(used, meter.reserved);
+    const difference = meter.reserved - actual;
+
+    const settled = await closeReservation(meter, {
+      credits: actual,
+      status: "completed",
+      metadata: {
+        ...meter.metadata,
+        actualCredits: actual,
+        ...(used > actual ? { uncoveredCredits: used - actual } : {}),
+        llmCalls: usage.calls,
+        tokens: usage.tokens,
+        settledAt: new Date().toISOString()
+      }
+    }, difference);
+    if (!settled) {
+      console.log(`[Credits] Usage ${meter.transactionId} was already settled or refunded`);
+      return;
+    }
+    console.log(`[Credits] Settled usage ${meter.transactionId}: reserved ${meter.reserved}, charged ${actual} ${meter.provider} credits (${usage.calls} LLM calls)`);
+  } catch (error: any) {
+    console.error(`[Credits] FAILED to settle usage ${meter.transactionId}:`, error.message);
+  }
+}
+
+async function refundMeter(meter: CreditMeter, reason: string): Promise<void> {
+  if (meter.closed) return;
+  meter.closed = true;
+
+  try {
+    const refunded = await closeReservation(meter, {
+      status: "refunded",
+      metadata: { ...meter.metadata, refundReason: reason, settledAt: new Date().toISOString() }
+    }, meter.reserved);
+    if (!refunded) {
+      console.log(`[Credits] Usage ${meter.transactionId} was already settled or refunded`);
+      return;
+    }
+    console.log(`[Credits] Refunded usage ${meter.transactionId}: ${meter.reserved} ${meter.provider} credits (${reason})`);
+  } catch (error: any) {
+    console.error(`[Credits] FAILED to refund usage ${meter.transactionId}:`, error.message);
+  }
+}
+
+// /api/v1 responses use the { error: { code, message } } envelope
+function isPublicApi(req: Request): boolean {
+  return req.path.startsWith("/api/v1/");
+}
+
+export function creditMetering(): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const matched = findMeteredRoute(req);
+    if (!matched || !isCreditMeteringEnabled()) {
+      return next();
+    }
+    const { route, params } = matched;
+
+    if (!req.isAuthenticated() || !req.user) {
+      return sendError(res, 401, "Authentication required: this feature uses credits");
+    }
+    if (hasUnlimitedCredits(req.user)) {
+      return next();
+    }
+
+    const provider = resolveCreditProvider(req, route);
+
+    const userId = req.user.id;
+    let reservedAmount = 0;
+    try {
+      const inputWords = route.inputWords ? await route.inputWords(req, params) : countRequestWords(req.body);
+      const estimate = Math.max(MIN_RESERVATION, Math.ceil(inputWords * route.multiplier));
+
+      const reserved = await storage.reserveCredits(userId, provider, estimate);
+      if (!reserved) {
+        const balance = (await storage.getUserCredits(userId, provider))?.credits ?? 0;
+        const message = `Insufficient ${provider} credits: this request needs about ${estimate.toLocaleString()}, your balance is ${balance.toLocaleString()}`;
+        if (isPublicApi(req)) {
+          return sendV1Error(res, 402, { code: "insufficient_credits", message, details: { provider, required: estimate, balance } });
+        }
+        return sendError(res, 402, message, { provider, required: estimate, balance });
+      }
+      reservedAmount = estimate;
+
+      const metadata = { feature: route.feature, route: `${req.method} ${req.path}`, inputWords, estimatedCredits: estimate };
+      const transaction = await storage.createCreditTransaction({
+        userId,
+        provider,
+        amount: 0,
+        credits: estimate,
+        transactionType: "usage",
+        status: "reserved",
+        metadata
+      });
+
+      const meter: CreditMeter = {
+        transactionId: transaction.id,
+        userId,
+        provider,
+        reserved: estimate,
+        metadata,
+        held: false,
+        closed: false
+      };
+      res.locals.creditMeter = meter;
+
+      res.on("close", () => {
+        if (meter.held) return;
+        // A client that disconnects mid-stream still pays for what was generated
+        if (!res.writableFinished || res.statusCode < 400) {
+          settleMeter(meter);
+        } else {
+          refundMeter(meter, `HTTP ${res.statusCode}`);
+        }
+      });
+
+      runWithLLMContext({ mode: "record", userId, creditTransactionId: transaction.id }, async () => next());
+    } catch (error: any) {
+      console.error("[Credits] Metering failed:", error);
+      if (reservedAmount > 0) {
+        await storage.adjustCredits(userId, provider, reservedAmount).catch(() => {});
+      }
+      if (!res.headersSent) {
+        const message = `Credit metering failed: ${error.message}`;
+        if (isPublicApi(req)) {
+          sendV1Error(res, 500, { code: "internal_error", message });
+        } else {
+          sendError(res, 500, message);
+        }
+      }
+    }
+  };
+}
+
+// For handlers that respond before their work finishes (pipeline, reconstruction):
+// the reservation stays open until the background job calls settle() or refund()
+export function holdCredits(res: Response): CreditHold {
+  const meter = res.locals.creditMeter as CreditMeter | undefined;
+  if (!meter) {
+    return { transactionId: null, settle: async () => {}, refund: async () => {} };
+  }
+  meter.held = true;
+  return {
+    transactionId: meter.transactionId,
+    settle: () => settleMeter(meter),
+    refund: (reason = "job failed") => refundMeter(meter, reason)
+  };
+}
+
+// For reservations handed to the job queue: the worker that finishes the job
+// may be another process, so the meter is rebuilt from the ledger entry. The
+// entry only leaves `reserved` through closeReservation's conditional update,
+// so a second settle or refund of the same entry changes nothing.
+async function meterFromTransaction(transactionId: number): Promise<CreditMeter | undefined> {
+  const transaction = await storage.getCreditTransaction(transactionId);
+  if (!transaction || transaction.transactionType !== "usage" || transaction.status !== "reserved") {
+    return undefined;
+  }
+  return {
+    transactionId,
+    userId: transaction.userId,
+    provider: transaction.provider,
+    reserved: transaction.credits,
+    metadata: (transaction.metadata as Record<string, any>) || {},
+    held: true,
+    closed: false
+  };
+}
+
+export async function settleCreditTransaction(transactionId: number): Promise<void> {
+  const meter = await meterFromTransaction(transactionId);
+  if (meter) await settleMeter(meter);
+}
+
+export async function refundCreditTransaction(transactionId: number, reason = "job failed"): Promise<void> {
+  const meter = await meterFromTransaction(transactionId);
+  if (meter) await refundMeter(meter, reason);
+}
+
+// Signed effect of a ledger entry on the balance it belongs to
+export function ledgerDelta(entry: { transactionType: string; status: string; credits: number }): number {
+  if (entry.transactionType === "purchase") {
+    return entry.status === "completed" ? entry.credits : 0;
+  }
+  if (entry.transactionType === "grant") {
+    // Admin grants are stored signed: negative credits revoke
+    return entry.credits;
+  }
+  if (entry.status === "refunded" || entry.status === "failed") return 0;
+  return -entry.credits;
+}
@@ -0,0 +1,111 @@
+import type { Express, Request, Response, NextFunction, RequestHandler, ErrorRequestHandler } from "express";
+import { randomUUID } from "crypto";
+import { sendV1Error } from "./apiTokens";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ERROR ENVELOPE & REQUEST IDS
+// Every request gets an id (the caller's X-Request-Id if it sent a sane one),
+// echoed in the X-Request-Id response header. Error responses from the session
+// API all have the shape { success: false, message, requestId, ...details };
+// /api/v1 keeps its { error: { code, message, requestId } } envelope.
+// ═══════════════════════════════════════════════════════════════════════════
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId: string;
+    }
+  }
+}
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{8,100}$/;
+
+export function requestIds(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.get("X-Request-Id");
+    req.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    res.setHeader("X-Request-Id", req.requestId);
+    next();
+  };
+}
+
+function errorBody(req: Request, message: string, details?: Record<string, unknown>) {
+  return { success: false, message, requestId: req.requestId, ...details };
+}
+
+export function sendError(res: Response, status: number, message: string, details?: Record<string, unknown>) {
+  const req = res.req;
+  if (status >= 500) {
+    console.error(`[HTTP] ${status} ${req.method} ${req.path} (${req.requestId}): ${message}`);
+  }
+  return res.status(status).json(errorBody(req, message, details));
+}
+
+// Last middleware: errors passed to next() or thrown synchronously by a handler
+export function errorHandler(): ErrorRequestHandler {
+  return (err: any, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      console.error(`[HTTP] Error after response started for ${req.method} ${req.path} (${req.requestId}):`, err);
+      return next(err);
+    }
+
+    const status = err.status || err.statusCode || 500;
+    if (status >= 500) {
+      console.error(`[HTTP] Unhandled error for ${req.method} ${req.path} (${req.requestId}):`, err);
+    }
+    const message = err.message || "Internal Server Error";
+
+    if (req.path.startsWith("/api/v1/")) {
+      const code = status === 400 ? "invalid_request" : status === 404 ? "not_found" : "internal_error";
+      return sendV1Error(res, status, { code, message });
+    }
+    res.status(status).json(errorBody(req, message));
+  };
+}
+
+// ─── Duplicate route detection ─────────────────────────────────────────────
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+}
+
+function registeredRoutes(app: Express): RegisteredRoute[] {
+  const routes: RegisteredRoute[] = [];
+  for (const layer of (app as any)._router?.stack ?? []) {
+    if (!layer.route) continue;
+    const paths: unknown[] = Array.isArray(layer.route.path) ? layer.route.path : [layer.route.path];
+    for (const path of paths) {
+      if (typeof path !== "string") continue;
+      for (const method of Object.keys(layer.route.methods)) {
+        routes.push({ method: method === "_all" ? "ALL" : method.toUpperCase(), path });
+      }
+    }
+  }
+  return routes;
+}
+
+// /api/jobs/:documentId and /api/jobs/:jobId match the same requests
+function routeKey(route: RegisteredRoute): string {
+  return `${route.method} ${route.path.replace(/:[A-Za-z_]+/g, ":").replace(/\/$/, "")}`;
+}
+
+export function findDuplicateRoutes(app: Express): string[][] {
+  const byKey = new Map<string, string[]>();
+  for (const route of registeredRoutes(app)) {
+    const key = routeKey(route);
+    byKey.set(key, [...(byKey.get(key) ?? []), `${route.method} ${route.path}`]);
+  }
+  return Array.from(byKey.values()).filter(routes => routes.length > 1);
+}
+
+// Called once all routes are registered: a second handler for the same
+// method and path would never run, so refuse to start rather than hide it
+export function assertNoDuplicateRoutes(app: Express) {
+  const duplicates = findDuplicateRoutes(app);
+  if (duplicates.length > 0) {
+    const list = duplicates.map(routes => routes.join(" / ")).join("; ");
+    throw new Error(`Duplicate route registrations (only the first handler runs): ${list}`);
+  }
+  console.log(`[ROUTES] ${registeredRoutes(app).length} routes registered, no duplicates`);
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { ROUTE_SCHEMAS, errorResponseSchema, type RouteSchema } from "@shared/routeSchemas";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPENAPI DOCUMENT
+// Built once from ROUTE_SCHEMAS and served at /api/openapi.json so clients can
+// be generated from it. zod schemas are converted to JSON Schema (2020-12, as
+// used by OpenAPI 3.1) by toJsonSchema below, which covers the zod types the
+// route schemas use; anything else becomes an unconstrained schema.
+// ═══════════════════════════════════════════════════════════════════════════
+
+type JsonSchema = Record<string, any>;
+
+const v1ErrorSchema = z.object({
+  error: z.object({
+    code: z.enum(["invalid_request", "unauthorized", "forbidden", "not_found", "insufficient_credits", "internal_error"]),
+    message: z.string(),
+    details: z.unknown().optional(),
+    requestId: z.string(),
+  }),
+});
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function nullable(json: JsonSchema): JsonSchema {
+  if (typeof json.type === "string") return { ...json, type: [json.type, "null"] };
+  return { anyOf: [json, { type: "null" }] };
+}
+
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  return withDescription(schema, convert(schema));
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchema = { type: "string" };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        if (check.kind === "min") json.minLength = check.value;
+        else if (check.kind === "max") json.maxLength = check.value;
+        else if (check.kind === "email") json.format = "email";
+        else if (check.kind === "url") json.format = "uri";
+        else if (check.kind === "datetime") json.format = "date-time";
+        else if (check.kind === "regex") json.pattern = check.regex.source;
+      }
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const json: JsonSchema = { type: "number" };
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        if (check.kind === "int") json.type = "integer";
+        else if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        else if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values) };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: "array", items: toJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<any>).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape) as [string, z.ZodTypeAny][]) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      const json: JsonSchema = { type: "object", properties };
+      if (required.length > 0) json.required = required;
+      if (def.unknownKeys === "strict") json.additionalProperties = false;
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: toJsonSchema(def.valueType) };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: z.ZodTypeAny) => toJsonSchema(option)) };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return nullable(toJsonSchema(def.innerType));
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      // Refinements and transforms can't be expressed; document the input shape
+      return toJsonSchema(def.schema);
+    default:
+      // any, unknown, lazy (drizzle-zod JSON columns) and anything exotic
+      return {};
+  }
+}
+
+// ─── Document ──────────────────────────────────────────────────────────────
+
+const SECURITY: Record<NonNullable<RouteSchema["auth"]>, string> = {
+  session: "session",
+  token: "apiToken",
+  "stripe-signature": "stripeSignature",
+};
+
+// /api/pipeline/status/:jobId -> /api/pipeline/status/{jobId}
+function openApiPath(path: string): string {
+  return path.replace(/:([A-Za-z]+)/g, "{$1}");
+}
+
+// POST /api/pipeline/status/:jobId -> postPipelineStatusByJobId
+function operationId(route: RouteSchema): string {
+  const words = route.path
+    .replace(/^\/api\//, "")
+    .split(/[\/.-]/)
+    .filter(Boolean)
+    .map(part => part.startsWith(":") ? "By" + part.slice(1, 2).toUpperCase() + part.slice(2) : part);
+  return route.method.toLowerCase() + words.map(w => w[0].toUpperCase() + w.slice(1)).join("");
+}
+
+function parameters(route: RouteSchema): JsonSchema[] {
+  const result: JsonSchema[] = [];
+  for (const [location, schema] of [["path", route.params], ["query", route.query]] as const) {
+    if (!schema) continue;
+    for (const [name, value] of Object.entries(schema.shape) as [string, z.ZodTypeAny][]) {
+      result.push({ name, in: location, required: location === "path" || !value.isOptional(), schema: toJsonSchema(value) });
+    }
+  }
+  return result;
+}
+
+function requestBody(route: RouteSchema): JsonSchema | undefined {
+  if (route.multipart) {
+    const fields = route.multipart.fields ? toJsonSchema(route.multipart.fields) : { type: "object", properties: {} };
+    fields.properties = { [route.multipart.fileField]: { type: "string", contentMediaType: "application/octet-stream" }, ...fields.properties };
+    return { required: true, content: { "multipart/form-data": { schema: fields } } };
+  }
+  if (route.body) {
+    return { required: true, content: { "application/json": { schema: toJsonSchema(route.body) } } };
+  }
+  return undefined;
+}
+
+function responses(route: RouteSchema): JsonSchema {
+  const isPublicApi = route.path.startsWith("/api/v1/");
+  const errorRef = { $ref: isPublicApi ? "#/components/schemas/V1Error" : "#/components/schemas/Error" };
+  const success = route.responseType
+    ? { description: "Success", content: { [route.responseType]: { schema: route.responseType.startsWith("text/") ? { type: "string" } : { type: "string", format: "binary" } } } }
+    : { description: "Success", content: { "application/json": { schema: route.response ? toJsonSchema(route.response) : {} } } };
+
+  const error = (description: string) => ({ description, content: { "application/json": { schema: errorRef } } });
+
+  const result: JsonSchema = { [String(route.successStatus || 200)]: success };
+  if (route.params || route.query || route.body) {
+    result["400"] = error("Invalid request");
+  }
+  if (route.auth === "session" || route.auth === "token") {
+    result["401"] = error("Not authenticated");
+  }
+  result.default = error("Error");
+  return result;
+}
+
+let cachedDocument: JsonSchema | null = null;
+
+export function buildOpenApiDocument(): JsonSchema {
+  if (cachedDocument) return cachedDocument;
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of ROUTE_SCHEMAS) {
+    const operation: JsonSchema = {
+      operationId: operationId(route),
+      summary: route.summary,
+      tags: [route.tag],
+    };
+    const params = parameters(route);
+    if (params.length > 0) operation.parameters = params;
+    const body = requestBody(route);
+    if (body) operation.requestBody = body;
+    operation.responses = responses(route);
+    if (route.auth) operation.security = [{ [SECURITY[route.auth]]: [] }];
+
+    const path = openApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation };
+  }
+
+  cachedDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: "NEUROTEXT API",
+      version: "1.0.0",
+      description: "Session-authenticated application API and the token-authenticated public API under /api/v1.",
+    },
+    paths,
+    components: {
+      schemas: {
+        Error: toJsonSchema(errorResponseSchema),
+        V1Error: toJsonSchema(v1ErrorSchema),
+      },
+      securitySchemes: {
+        session: { type: "apiKey", in: "cookie", name: "connect.sid" },
+        apiToken: { type: "http", scheme: "bearer", description: "Personal API token (ntk_...)" },
+        stripeSignature: { type: "apiKey", in: "header", name: "Stripe-Signature" },
+      },
+    },
+  };
+  return cachedDocument;
+}
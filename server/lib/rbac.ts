@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { ROLE_PERMISSIONS, USER_ROLES, type Permission, type User, type UserRole } from "@shared/schema";
+import { sendError } from "./httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROLE-BASED ACCESS CONTROL
+// A user's effective permissions are those of their role plus any extra
+// permissions stored on the user row.
+// ═══════════════════════════════════════════════════════════════════════════
+
+type AccessSubject = Pick<User, "role" | "permissions"> | undefined | null;
+
+function roleOf(user: AccessSubject): UserRole {
+  return user && (USER_ROLES as readonly string[]).includes(user.role) ? user.role as UserRole : "customer";
+}
+
+export function getEffectivePermissions(user: AccessSubject): Permission[] {
+  if (!user) return [];
+  const granted = new Set<Permission>(ROLE_PERMISSIONS[roleOf(user)]);
+  for (const permission of user.permissions || []) {
+    granted.add(permission);
+  }
+  return Array.from(granted);
+}
+
+export function hasPermission(user: AccessSubject, permission: Permission): boolean {
+  return getEffectivePermissions(user).includes(permission);
+}
+
+// A job is visible to its owner and to anyone allowed to read all jobs
+export function canAccessJob(user: (AccessSubject & { id: number }) | undefined | null, ownerId: number | null | undefined): boolean {
+  if (!user) return false;
+  return (ownerId != null && ownerId === user.id) || hasPermission(user, "jobs:read_all");
+}
+
+export function isAdmin(user: AccessSubject): boolean {
+  return !!user && roleOf(user) === "admin";
+}
+
+export function requireAuth(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return sendError(res, 401, "Authentication required");
+    }
+    next();
+  };
+}
+
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return sendError(res, 401, "Authentication required");
+    }
+    if (!roles.includes(roleOf(req.user))) {
+      return sendError(res, 403, `Requires role: ${roles.join(" or ")}`);
+    }
+    next();
+  };
+}
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return sendError(res, 401, "Authentication required");
+    }
+    if (!hasPermission(req.user, permission)) {
+      return sendError(res, 403, `Missing permission: ${permission}`);
+    }
+    next();
+  };
+}
@@ -0,0 +1,69 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { ZodError, ZodTypeAny } from "zod";
+import { ROUTE_SCHEMAS, type RouteSchema } from "@shared/routeSchemas";
+import { sendV1Error } from "./apiTokens";
+import { sendError } from "./httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REQUEST VALIDATION
+// Checks path params, query and JSON body of every request that matches an
+// entry in ROUTE_SCHEMAS before the route handler (and credit metering) runs.
+// Invalid requests get a 400 with one entry per problem; /api/v1 uses its
+// { error } envelope. The parsed values are not written back: handlers keep
+// reading req.body as before, so defaults stay where they are.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const routeMatchers = ROUTE_SCHEMAS.map(route => ({
+  route,
+  paramNames: Array.from(route.path.matchAll(/:([A-Za-z]+)/g), m => m[1]),
+  pattern: new RegExp("^" + route.path.replace(/:[A-Za-z]+/g, "([^/]+)") + "/?$")
+}));
+
+// First match wins, as in Express
+function findRouteSchema(req: Request): { route: RouteSchema; params: Record<string, string> } | undefined {
+  for (const matcher of routeMatchers) {
+    if (matcher.route.method !== req.method) continue;
+    const match = matcher.pattern.exec(req.path);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    matcher.paramNames.forEach((name, i) => { params[name] = decodeURIComponent(match[i + 1]); });
+    return { route: matcher.route, params };
+  }
+  return undefined;
+}
+
+function collectIssues(location: string, schema: ZodTypeAny | undefined, value: unknown, issues: { path: string; message: string }[]) {
+  if (!schema) return;
+  const result = schema.safeParse(value);
+  if (result.success) return;
+  for (const issue of (result.error as ZodError).issues) {
+    issues.push({ path: [location, ...issue.path].join("."), message: issue.message });
+  }
+}
+
+export function validateRequests(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const matched = findRouteSchema(req);
+    if (!matched) {
+      return next();
+    }
+    const { route, params } = matched;
+
+    const issues: { path: string; message: string }[] = [];
+    collectIssues("params", route.params, params, issues);
+    collectIssues("query", route.query, req.query, issues);
+    // Multipart bodies are parsed by multer inside the route
+    if (!route.multipart) {
+      collectIssues("body", route.body, req.body ?? {}, issues);
+    }
+    if (issues.length === 0) {
+      return next();
+    }
+
+    console.warn(`[VALIDATION] ${req.method} ${req.path} rejected: ${issues.map(i => `${i.path} ${i.message}`).join("; ")}`);
+    if (req.path.startsWith("/api/v1/")) {
+      return sendV1Error(res, 400, { code: "invalid_request", message: "Request failed validation", details: issues });
+    }
+    sendError(res, 400, "Invalid request", { errors: issues });
+  };
+}
@@ -44,10 +44,9 @@ export const CREDIT_PACKAGES = {
 export type Provider = keyof typeof CREDIT_PACKAGES;
 export type PriceTier = keyof typeof CREDIT_PACKAGES.openai;
 
-// Helper to check if user has unlimited credits (JMK user)
-export function hasUnlimitedCredits(username: string | undefined): boolean {
-  if (!username) return false;
-  return username.toLowerCase() === "jmk" || username.toLowerCase() === "jmkuczynski";
+// Unlimited plans are granted per user by an admin (or by the auto-login config)
+export function hasUnlimitedCredits(user: { unlimitedCredits?: boolean | null } | undefined): boolean {
+  return !!user?.unlimitedCredits;
 }
 
 // Calculate word count for credit deduction
@@ -0,0 +1,122 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { requirePermission, hasPermission, getEffectivePermissions } from "../lib/rbac";
+import { updateUserAccessSchema, grantCreditsSchema, type User } from "@shared/schema";
+import { sendError } from "../lib/httpErrors";
+
+// Never send password hashes to the admin UI
+function publicUser(user: User) {
+  const { password, ...rest } = user;
+  return { ...rest, effectivePermissions: getEffectivePermissions(user) };
+}
+
+function parseUserId(req: Request): number | null {
+  const id = parseInt(req.params.id);
+  return Number.isFinite(id) ? id : null;
+}
+
+export function registerAdminRoutes(app: Express) {
+  // List users with their roles and credit balances
+  app.get("/api/admin/users", requirePermission("users:manage"), async (_req: Request, res: Response) => {
+    try {
+      const users = await storage.listUsers();
+      const withCredits = await Promise.all(users.map(async (user) => {
+        const balances: Record<string, number> = {};
+        for (const credit of await storage.getAllUserCredits(user.id)) {
+          balances[credit.provider] = credit.credits;
+        }
+        return { ...publicUser(user), balances };
+      }));
+      res.json({ success: true, users: withCredits });
+    } catch (error: any) {
+      console.error("[Admin] List users error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Change role, extra permissions and/or unlimited plan
+  app.patch("/api/admin/users/:id", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const userId = parseUserId(req);
+      if (userId === null) {
+        return sendError(res, 400, "Invalid user id");
+      }
+
+      const validation = updateUserAccessSchema.safeParse(req.body);
+      if (!validation.success) {
+        return sendError(res, 400, "Invalid request", { errors: validation.error.errors });
+      }
+
+      // Granting unlimited plans is a credit operation, not a user-management one
+      if (validation.data.unlimitedCredits !== undefined && !hasPermission(req.user, "credits:grant")) {
+        return sendError(res, 403, "Missing permission: credits:grant");
+      }
+      if (userId === req.user!.id && validation.data.role && validation.data.role !== "admin" && req.user!.role === "admin") {
+        return sendError(res, 400, "Admins cannot demote themselves");
+      }
+
+      const user = await storage.updateUserAccess(userId, validation.data);
+      if (!user) {
+        return sendError(res, 404, "User not found");
+      }
+
+      console.log(`[Admin] ${req.user!.username} updated access for ${user.username}:`, validation.data);
+      res.json({ success: true, user: publicUser(user) });
+    } catch (error: any) {
+      console.error("[Admin] Update user error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Grant (or, with negative credits, revoke) word credits for a provider
+  app.post("/api/admin/users/:id/credits", requirePermission("credits:grant"), async (req: Request, res: Response) => {
+    try {
+      const userId = parseUserId(req);
+      if (userId === null) {
+        return sendError(res, 400, "Invalid user id");
+      }
+
+      const validation = grantCreditsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return sendError(res, 400, "Invalid request", { errors: validation.error.errors });
+      }
+      const { provider, credits, note } = validation.data;
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return sendError(res, 404, "User not found");
+      }
+
+      if (!(await storage.getUserCredits(userId, provider))) {
+        await storage.initializeUserCredits(userId, provider);
+      }
+      const balance = await storage.adjustCredits(userId, provider, credits);
+      const transaction = await storage.createCreditTransaction({
+        userId,
+        provider,
+        amount: 0,
+        credits,
+        transactionType: "grant",
+        status: "completed",
+        metadata: { grantedBy: req.user!.id, grantedByUsername: req.user!.username, note },
+      });
+
+      console.log(`[Admin] ${req.user!.username} granted ${credits} ${provider} credits to ${user.username}`);
+      res.json({ success: true, balance: balance?.credits ?? 0, transaction });
+    } catch (error: any) {
+      console.error("[Admin] Grant credits error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Queue jobs whose retries are exhausted, newest first
+  app.get("/api/admin/jobs/dead", requirePermission("jobs:read_all"), async (_req: Request, res: Response) => {
+    try {
+      const { listDeadJobs } = await import("../services/jobQueue");
+      res.json({ success: true, jobs: await listDeadJobs() });
+    } catch (error: any) {
+      console.error("[Admin] List dead jobs error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
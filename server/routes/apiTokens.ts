@@ -0,0 +1,66 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { requireAuth } from "../lib/rbac";
+import { generateApiToken, describeApiToken } from "../lib/apiTokens";
+import { createApiTokenSchema } from "@shared/schema";
+import { sendError } from "../lib/httpErrors";
+
+// Token management uses the browser session: a token cannot mint or revoke tokens
+export function registerApiTokenRoutes(app: Express) {
+  app.get("/api/tokens", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const tokens = await storage.listApiTokens(req.user!.id);
+      res.json({ success: true, tokens: tokens.map(describeApiToken) });
+    } catch (error: any) {
+      console.error("[API Tokens] List error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.post("/api/tokens", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const validation = createApiTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        return sendError(res, 400, "Invalid request", { errors: validation.error.errors });
+      }
+      const { name, scopes, expiresInDays } = validation.data;
+
+      const { token, tokenPrefix, tokenHash } = generateApiToken();
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        tokenPrefix,
+        tokenHash,
+        scopes,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+      });
+
+      console.log(`[API Tokens] ${req.user!.username} created token ${created.id} (${scopes.join(", ")})`);
+      // The plaintext token is only ever returned here
+      res.status(201).json({ success: true, token, details: describeApiToken(created) });
+    } catch (error: any) {
+      console.error("[API Tokens] Create error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.delete("/api/tokens/:id", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return sendError(res, 400, "Invalid token id");
+      }
+
+      const revoked = await storage.revokeApiToken(req.user!.id, id);
+      if (!revoked) {
+        return sendError(res, 404, "Token not found or already revoked");
+      }
+
+      console.log(`[API Tokens] ${req.user!.username} revoked token ${id}`);
+      res.json({ success: true, details: describeApiToken(revoked) });
+    } catch (error: any) {
+      console.error("[API Tokens] Revoke error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
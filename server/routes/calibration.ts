@@ -0,0 +1,163 @@
+import type { Express, Request, Response } from "express";
+import { calibrationSetInputSchema, calibrationRunInputSchema } from "@shared/schema";
+import { requirePermission } from "../lib/rbac";
+import { holdCredits } from "../lib/creditMetering";
+import { sendError } from "../lib/httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CALIBRATION ROUTES
+// Versioned calibration sets, runs against a chosen scorer/provider/model
+// (queued on the job worker and metered), per-run results, the drift history
+// of a set across runs, and runs whose error exceeded the set's threshold.
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+export function registerCalibrationRoutes(app: Express) {
+  app.get("/api/calibration/sets", requirePermission("calibration:manage"), async (_req: Request, res: Response) => {
+    try {
+      const { listCalibrationSets } = await import('../services/calibration');
+      res.json({ success: true, sets: await listCalibrationSets() });
+    } catch (error: any) {
+      console.error("[CALIBRATION] List sets failed:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.get("/api/calibration/sets/:id", requirePermission("calibration:manage"), async (req: Request, res: Response) => {
+    try {
+      const setId = parseId(req.params.id);
+      if (setId === null) {
+        return sendError(res, 400, "Invalid calibration set id");
+      }
+
+      const { getCalibrationSet, listCalibrationSetVersions } = await import('../services/calibration');
+      const set = await getCalibrationSet(setId);
+      if (!set) {
+        return sendError(res, 404, "Calibration set not found");
+      }
+      res.json({ success: true, set, versions: await listCalibrationSetVersions(set.name) });
+    } catch (error: any) {
+      console.error("[CALIBRATION] Get set failed:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Saving under an existing name creates its next version; earlier versions and their runs are kept
+  app.post("/api/calibration/sets", requirePermission("calibration:manage"), async (req: Request, res: Response) => {
+    try {
+      const validation = calibrationSetInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return sendError(res, 400, "Invalid calibration set", { errors: validation.error.errors });
+      }
+
+      const { createCalibrationSet, isCalibrationVersionConflict } = await import('../services/calibration');
+      try {
+        const set = await createCalibrationSet(validation.data, req.user!.id);
+        res.json({ success: true, set });
+      } catch (error: any) {
+        if (isCalibrationVersionConflict(error)) {
+          return sendError(res, 409, `Another version of "${validation.data.name}" was saved at the same time; save again`);
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      console.error("[CALIBRATION] Save set failed:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.post("/api/calibration/sets/:id/runs", requirePermission("calibration:manage"), async (req: Request, res: Response) => {
+    try {
+      const setId = parseId(req.params.id);
+      if (setId === null) {
+        return sendError(res, 400, "Invalid calibration set id");
+      }
+      const validation = calibrationRunInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return sendError(res, 400, "Invalid calibration run", { errors: validation.error.errors });
+      }
+
+      const { getCalibrationSet, createCalibrationRun } = await import('../services/calibration');
+      const { enqueueJob, enqueueRequestJob } = await import('../services/jobQueue');
+      if (!await getCalibrationSet(setId)) {
+        return sendError(res, 404, "Calibration set not found");
+      }
+
+      let run;
+      try {
+        run = await createCalibrationRun(setId, validation.data, req.user!.id);
+      } catch (error: any) {
+        return sendError(res, 400, error.message);
+      }
+
+      // The job worker scores the samples; the credit reservation is settled when it ends
+      if (run.scorer === 'local_metrics') {
+        await holdCredits(res).refund("local_metrics scorer makes no provider calls");
+        await enqueueJob({ jobType: 'calibration', targetId: run.id, userId: req.user!.id });
+      } else {
+        await enqueueRequestJob(res, { jobType: 'calibration', targetId: run.id, userId: req.user!.id });
+      }
+      res.json({ success: true, run });
+    } catch (error: any) {
+      console.error("[CALIBRATION] Start run failed:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.get("/api/calibration/runs/:id", requirePermission("calibration:manage"), async (req: Request, res: Response) => {
+    try {
+      const runId = parseId(req.params.id);
+      if (runId === null) {
+        return sendError(res, 400, "Invalid calibration run id");
+      }
+
+      const { getCalibrationRun } = await import('../services/calibration');
+      const run = await getCalibrationRun(runId);
+      if (!run) {
+        return sendError(res, 404, "Calibration run not found");
+      }
+      res.json({ success: true, ...run });
+    } catch (error: any) {
+      console.error("[CALIBRATION] Get run failed:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.get("/api/calibration/drift", requirePermission("calibration:manage"), async (req: Request, res: Response) => {
+    try {
+      const name = typeof req.query.name === 'string' ? req.query.name : '';
+      if (!name) {
+        return sendError(res, 400, "Calibration set name is required");
+      }
+
+      const { getCalibrationDrift } = await import('../services/calibration');
+      const filter = {
+        scorer: typeof req.query.scorer === 'string' ? req.query.scorer : undefined,
+        provider: typeof req.query.provider === 'string' ? req.query.provider : undefined,
+        model: typeof req.query.model === 'string' ? req.query.model : undefined,
+      };
+      const drift = await getCalibrationDrift(name, filter);
+      if (!drift) {
+        return sendError(res, 404, "Calibration set not found");
+      }
+      res.json({ success: true, ...drift });
+    } catch (error: any) {
+      console.error("[CALIBRATION] Drift failed:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.get("/api/calibration/alerts", requirePermission("calibration:manage"), async (_req: Request, res: Response) => {
+    try {
+      const { listCalibrationAlerts } = await import('../services/calibration');
+      res.json({ success: true, alerts: await listCalibrationAlerts() });
+    } catch (error: any) {
+      console.error("[CALIBRATION] List alerts failed:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
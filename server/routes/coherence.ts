@@ -0,0 +1,604 @@
+import type { Express, Request, Response } from "express";
+import { COHERENCE_MODE_TYPES, type CoherenceModeType } from "@shared/schema";
+import type { CoherenceAggressiveness } from "../services/coherenceModes";
+import { sendError } from "../lib/httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COHERENCE METER ROUTES
+// Single-pass, global (cross-chunk), outline-guided and sequential coherence
+// analysis and rewriting.
+// ═══════════════════════════════════════════════════════════════════════════
+
+function isCoherenceType(value: unknown): value is CoherenceModeType {
+  return typeof value === "string" && (COHERENCE_MODE_TYPES as readonly string[]).includes(value);
+}
+
+// Helper function to split text into sections
+function splitIntoSections(text: string, targetWords: number = 400): Array<{text: string, wordCount: number}> {
+  const paragraphs = text.split(/\n\n+/);
+  const sections: Array<{text: string, wordCount: number}> = [];
+  let currentSection: string[] = [];
+  let currentWordCount = 0;
+
+  for (const paragraph of paragraphs) {
+    const paraWords = paragraph.trim().split(/\s+/).length;
+    
+    if (currentWordCount + paraWords > targetWords && currentSection.length > 0) {
+      sections.push({
+        text: currentSection.join('\n\n'),
+        wordCount: currentWordCount
+      });
+      currentSection = [];
+      currentWordCount = 0;
+    }
+    
+    currentSection.push(paragraph);
+    currentWordCount += paraWords;
+  }
+
+  if (currentSection.length > 0) {
+    sections.push({
+      text: currentSection.join('\n\n'),
+      wordCount: currentWordCount
+    });
+  }
+
+  return sections;
+}
+
+export function registerCoherenceRoutes(app: Express) {
+  // Coherence Meter endpoint - Analyze and improve text coherence  
+  app.post("/api/coherence-meter", async (req: Request, res: Response) => {
+    try {
+      const { text, mode, aggressiveness = "moderate", coherenceType } = req.body;
+
+      if (!text || !mode) {
+        return sendError(res, 400, "Text and mode are required");
+      }
+
+      const validModes = ["analyze", "rewrite", "rewrite-max", "reconstruct", "math-coherence", "math-cogency", "math-max-coherence", "math-maximize-truth"];
+      if (!validModes.includes(mode)) {
+        return sendError(res, 400, `Mode must be one of: ${validModes.join(", ")}`);
+      }
+      if (coherenceType && coherenceType !== "auto-detect" && !isCoherenceType(coherenceType)) {
+        return sendError(res, 400, `coherenceType must be auto-detect or one of: ${COHERENCE_MODE_TYPES.join(", ")}`);
+      }
+
+      console.log(`Coherence Meter - Mode: ${mode}, Type: ${coherenceType || 'default'}, Aggressiveness: ${aggressiveness}, Text length: ${text.length}`);
+
+      const { 
+        analyzeCoherence, 
+        rewriteForCoherence, 
+        reconstructToMaxCoherence,
+        analyzeMathProofValidity, 
+        analyzeMathCoherence,
+        rewriteMathMaxCoherence,
+        rewriteMathMaximizeTruth
+      } = await import('../services/coherenceMeter');
+      const { getCoherenceMode, detectCoherenceMode } = await import('../services/coherenceModes');
+
+      // MATH COHERENCE - structural coherence only, NOT truth
+      if (mode === "math-coherence") {
+        const result = await analyzeMathCoherence(text);
+        
+        res.json({
+          success: true,
+          isMathCoherence: true,
+          analysis: result.analysis,
+          score: result.score,
+          assessment: result.assessment,
+          subscores: result.subscores
+        });
+      }
+      // MATH COGENCY - checks if theorem is TRUE and proof is valid  
+      else if (mode === "math-cogency") {
+        const result = await analyzeMathProofValidity(text);
+        
+        res.json({
+          success: true,
+          isMathCogency: true,
+          analysis: result.analysis,
+          score: result.score,
+          verdict: result.verdict,
+          subscores: result.subscores,
+          flaws: result.flaws,
+          counterexamples: result.counterexamples
+        });
+      }
+      // MATH MAX COHERENCE - improve structural coherence only, preserve theorem
+      else if (mode === "math-max-coherence") {
+        const result = await rewriteMathMaxCoherence(text, aggressiveness as "conservative" | "moderate" | "aggressive");
+        
+        res.json({
+          success: true,
+          isMathMaxCoherence: true,
+          rewrite: result.rewrittenProof,
+          changes: result.changes,
+          coherenceScore: result.coherenceScore
+        });
+      }
+      // MATH MAXIMIZE TRUTH - correct proofs or find adjacent truths
+      else if (mode === "math-maximize-truth") {
+        const result = await rewriteMathMaximizeTruth(text);
+        
+        res.json({
+          success: true,
+          isMathMaximizeTruth: true,
+          correctedProof: result.correctedProof,
+          theoremStatus: result.theoremStatus,
+          originalTheorem: result.originalTheorem,
+          correctedTheorem: result.correctedTheorem,
+          proofStrategy: result.proofStrategy,
+          keyCorrections: result.keyCorrections,
+          validityScore: result.validityScore
+        });
+      }
+      // RECONSTRUCT TO MAX COHERENCE - adds thematically-adjacent material if needed
+      else if (mode === "reconstruct") {
+        const result = await reconstructToMaxCoherence(text, coherenceType);
+        
+        res.json({
+          success: true,
+          isReconstruction: true,
+          rewrite: result.reconstructedText,
+          changes: result.changes,
+          wasReconstructed: result.wasReconstructed,
+          adjacentMaterialAdded: result.adjacentMaterialAdded,
+          originalLimitationsIdentified: result.originalLimitationsIdentified
+        });
+      }
+      // Without a coherence type, analysis and rewriting use the general internal-coherence prompts
+      else if (!coherenceType) {
+        if (mode === "analyze") {
+          const result = await analyzeCoherence(text);
+          
+          res.json({
+            success: true,
+            analysis: result.analysis,
+            score: result.score,
+            assessment: result.assessment,
+            subscores: result.subscores
+          });
+        } else {
+          // REWRITE TO MAX - aggressive rewrite aiming for 9-10/10
+          const result = await rewriteForCoherence(text, mode === "rewrite-max" ? "aggressive" : aggressiveness as CoherenceAggressiveness);
+          
+          res.json({
+            success: true,
+            rewrite: result.rewrittenText,
+            changes: result.changes,
+            isMaxRewrite: mode === "rewrite-max" || undefined
+          });
+        }
+      }
+      // Every coherence type analyzes and rewrites through its registry definition
+      else {
+        const appliedCoherenceType = coherenceType === "auto-detect" ? await detectCoherenceMode(text) : coherenceType as CoherenceModeType;
+        if (coherenceType === "auto-detect") {
+          console.log(`Auto-detected coherence type for ${mode}: ${appliedCoherenceType}`);
+        }
+        const definition = getCoherenceMode(appliedCoherenceType);
+        const autoDetection = {
+          coherenceType: appliedCoherenceType,
+          detectedCoherenceType: coherenceType === "auto-detect" ? appliedCoherenceType : undefined,
+          wasAutoDetected: coherenceType === "auto-detect"
+        };
+
+        if (mode === "analyze") {
+          const result = await definition.analyze(text);
+          
+          res.json({
+            success: true,
+            analysis: result.analysis,
+            score: result.score,
+            assessment: result.assessment,
+            subscores: result.subscores,
+            ...result.details,
+            ...autoDetection
+          });
+        } else {
+          const result = await definition.rewrite(text, mode === "rewrite-max" ? "aggressive" : aggressiveness as CoherenceAggressiveness);
+          
+          res.json({
+            success: true,
+            rewrite: result.rewrittenText,
+            changes: result.changes,
+            isMaxRewrite: mode === "rewrite-max" || undefined,
+            ...result.details,
+            ...autoDetection
+          });
+        }
+      }
+    } catch (error: any) {
+      console.error("Coherence Meter error:", error);
+      sendError(res, 500, error.message || "Coherence analysis/rewrite failed");
+    }
+  });
+
+  // Global Coherence Analysis - Uses GCO for cross-chunk coherence preservation
+  app.post("/api/coherence-global", async (req: Request, res: Response) => {
+    try {
+      const { 
+        text, 
+        coherenceType, 
+        mode, 
+        aggressiveness = "moderate",
+        documentId,
+        resumeFromChunk,
+        globalState,
+        existingChunks 
+      } = req.body;
+
+      if (!text || !coherenceType || !mode) {
+        return sendError(res, 400, "Text, coherenceType, and mode are required");
+      }
+      
+      // Log resume attempt
+      if (documentId && resumeFromChunk !== undefined) {
+        console.log(`[Resume] Resuming job ${documentId} from chunk ${resumeFromChunk}, existing chunks: ${existingChunks}`);
+      }
+
+      const wordCount = text.trim().split(/\s+/).length;
+      console.log(`Global Coherence - Type: ${coherenceType}, Mode: ${mode}, Words: ${wordCount}`);
+
+      const { 
+        analyzeGlobalCoherence, 
+        rewriteWithGlobalCoherence,
+        extractGlobalContextObject 
+      } = await import('../services/coherenceMeter');
+
+      // Determine the coherence mode to use
+      if (coherenceType !== "auto-detect" && !isCoherenceType(coherenceType)) {
+        return sendError(res, 400, `coherenceType must be auto-detect or one of: ${COHERENCE_MODE_TYPES.join(", ")}`);
+      }
+      const { detectCoherenceMode } = await import('../services/coherenceModes');
+      const appliedCoherenceType = coherenceType === "auto-detect" ? await detectCoherenceMode(text) : coherenceType;
+      if (coherenceType === "auto-detect") {
+        console.log(`Auto-detected coherence type for global analysis: ${appliedCoherenceType}`);
+      }
+
+      if (mode === "analyze") {
+        const result = await analyzeGlobalCoherence(text, appliedCoherenceType);
+        
+        res.json({
+          success: true,
+          isGlobalCoherence: true,
+          globalContextObject: result.globalContextObject,
+          chunkResults: result.chunkResults,
+          analysis: result.aggregatedAnalysis,
+          score: result.overallScore,
+          assessment: result.overallAssessment,
+          detectedCoherenceType: coherenceType === "auto-detect" ? appliedCoherenceType : undefined,
+          wasAutoDetected: coherenceType === "auto-detect"
+        });
+      } else if (mode === "rewrite") {
+        // Pass resume options if provided
+        const resumeOptions = documentId && resumeFromChunk !== undefined ? {
+          documentId,
+          resumeFromChunk,
+          globalState,
+          existingChunks
+        } : undefined;
+        
+        const result = await rewriteWithGlobalCoherence(
+          text, 
+          appliedCoherenceType, 
+          aggressiveness as "conservative" | "moderate" | "aggressive",
+          resumeOptions
+        );
+        
+        res.json({
+          success: true,
+          isGlobalCoherence: true,
+          rewrite: result.rewrittenText,
+          globalContextObject: result.gco,
+          changes: result.changes,
+          detectedCoherenceType: coherenceType === "auto-detect" ? appliedCoherenceType : undefined,
+          wasAutoDetected: coherenceType === "auto-detect"
+        });
+      } else {
+        return sendError(res, 400, "Mode must be 'analyze' or 'rewrite'");
+      }
+    } catch (error: any) {
+      console.error("Global Coherence error:", error);
+      sendError(res, 500, error.message || "Global coherence analysis failed");
+    }
+  });
+
+  // Outline-Guided Coherence Processing - Two-Stage approach for long texts
+  app.post("/api/coherence-outline-guided", async (req: Request, res: Response) => {
+    try {
+      const { text, coherenceType, mode, aggressiveness = "moderate", onProgress } = req.body;
+
+      if (!text || !coherenceType || !mode) {
+        return sendError(res, 400, "Text, coherenceType, and mode are required");
+      }
+
+      console.log(`Outline-Guided Coherence - Type: ${coherenceType}, Mode: ${mode}, Text length: ${text.length}`);
+
+      const { completeChat } = await import('../services/llmProviders');
+
+      const { getCoherenceMode } = await import('../services/coherenceModes');
+      const coherenceDefinition = isCoherenceType(coherenceType)
+        ? getCoherenceMode(coherenceType).definition
+        : "System analyzes the text and determines which type(s) of coherence it's attempting to achieve.";
+
+      // ========== STAGE 1: GENERATE AND FIX OUTLINE ==========
+      console.log("STAGE 1: Generating document outline...");
+      
+      const outlinePrompt = `You are creating a structural outline of a document for coherence analysis.
+
+Generate a comprehensive outline under 450 words that captures:
+
+1. MAIN THESIS OR CENTRAL ARGUMENT
+   What is the document's primary claim or purpose?
+
+2. SECTION STRUCTURE
+   What are the major sections and what does each section argue/explain?
+
+3. KEY CONCEPTS AND DEFINITIONS
+   What important terms are used and how are they defined?
+
+4. LOGICAL FLOW
+   How does the argument progress from premises to conclusion?
+
+5. CONCLUSIONS
+   What are the final claims or implications?
+
+Format as a clear hierarchical outline that captures the document's argumentative and conceptual structure.
+
+DOCUMENT:
+${text}
+
+OUTLINE:`;
+
+      const outlineMessage = await completeChat('anthropic', {
+        model: "claude-3-7-sonnet-20250219",
+        maxTokens: 2000,
+        temperature: 0.7,
+        system: "You are a document analyst who creates precise structural outlines.",
+        messages: [{ role: "user", content: outlinePrompt }]
+      });
+
+      const outline = outlineMessage.text;
+      console.log("Outline generated, length:", outline.length);
+
+      // Analyze outline coherence
+      console.log("STAGE 1: Analyzing outline coherence...");
+      
+      const outlineAnalysisPrompt = `Analyze this document outline for ${coherenceType} coherence.
+
+COHERENCE TYPE: ${coherenceType}
+DEFINITION: ${coherenceDefinition}
+
+OUTLINE TO ANALYZE:
+${outline}
+
+Provide a score (1-10) and brief assessment. Format: SCORE: X/10
+
+ANALYSIS:`;
+
+      const analysisMessage = await completeChat('anthropic', {
+        model: "claude-3-7-sonnet-20250219",
+        maxTokens: 1000,
+        temperature: 0.5,
+        system: "You are a coherence analyzer.",
+        messages: [{ role: "user", content: outlineAnalysisPrompt }]
+      });
+
+      const outlineAnalysis = analysisMessage.text;
+      const scoreMatch = outlineAnalysis.match(/SCORE:\s*(\d+)\/10/i);
+      const outlineScore = scoreMatch ? parseInt(scoreMatch[1]) : 7;
+
+      console.log(`Outline score: ${outlineScore}/10`);
+
+      // Fix outline if score < 8
+      let coherentOutline = outline;
+      if (outlineScore < 8) {
+        console.log("STAGE 1: Outline score too low, rewriting for coherence...");
+        
+        const outlineRewritePrompt = `Rewrite this document outline to maximize ${coherenceType} coherence.
+
+COHERENCE TYPE: ${coherenceType}
+DEFINITION: ${coherenceDefinition}
+
+ORIGINAL OUTLINE:
+${outline}
+
+CURRENT ISSUES:
+${outlineAnalysis}
+
+Rewrite the outline to fix these coherence issues. Maintain the same general content but restructure for maximum coherence. Keep under 450 words.
+
+REWRITTEN OUTLINE:`;
+
+        const rewriteMessage = await completeChat('anthropic', {
+          model: "claude-3-7-sonnet-20250219",
+          maxTokens: 2000,
+          temperature: 0.7,
+          system: "You are a document restructuring expert.",
+          messages: [{ role: "user", content: outlineRewritePrompt }]
+        });
+
+        coherentOutline = rewriteMessage.text || outline;
+        console.log("Outline rewritten for coherence");
+      }
+
+      // ========== STAGE 2: PROCESS SECTIONS WITH OUTLINE CONTEXT ==========
+      console.log("STAGE 2: Splitting document into sections...");
+
+      // Split text into sections (~400 words each)
+      const sections = splitIntoSections(text, 400);
+      console.log(`Document split into ${sections.length} sections`);
+
+      if (mode === "analyze") {
+        // Analyze each section with outline context
+        let combinedAnalysis = `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+OUTLINE-GUIDED COHERENCE ANALYSIS
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+Original Length: ${text.split(/\s+/).length} words
+Sections: ${sections.length}
+Coherence Type: ${coherenceType}
+Processing Mode: Outline-Guided (Two-Stage)
+
+DOCUMENT OUTLINE:
+${coherentOutline}
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+SECTION-BY-SECTION ANALYSIS
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+        for (let i = 0; i < sections.length; i++) {
+          console.log(`STAGE 2: Analyzing section ${i + 1}/${sections.length}...`);
+          
+          const sectionAnalysisPrompt = `Analyze this section for ${coherenceType} coherence in context of the overall document.
+
+DOCUMENT OUTLINE (for context):
+${coherentOutline}
+
+SECTION ${i + 1} of ${sections.length}:
+${sections[i].text}
+
+Analyze how well this section maintains ${coherenceType} coherence both internally and in relation to the document outline.
+
+Provide: Score (1-10), issues found, and how it fits the overall structure.`;
+
+          const sectionMessage = await completeChat('anthropic', {
+            model: "claude-3-7-sonnet-20250219",
+            maxTokens: 1500,
+            temperature: 0.5,
+            system: `You are analyzing section coherence in context of a larger document structure.`,
+            messages: [{ role: "user", content: sectionAnalysisPrompt }]
+          });
+
+          const sectionAnalysis = sectionMessage.text;
+          combinedAnalysis += `\n━━━━ SECTION ${i + 1} ━━━━\n${sectionAnalysis}\n`;
+        }
+
+        res.json({
+          success: true,
+          analysis: combinedAnalysis,
+          outline: coherentOutline
+        });
+
+      } else {
+        // Rewrite each section with outline context
+        let combinedRewrite = '';
+
+        for (let i = 0; i < sections.length; i++) {
+          console.log(`STAGE 2: Rewriting section ${i + 1}/${sections.length}...`);
+          
+          let aggressivenessInstructions = "";
+          if (aggressiveness === "conservative") {
+            aggressivenessInstructions = "Make minimal changes. Preserve original structure and wording as much as possible. Only fix critical coherence issues.";
+          } else if (aggressiveness === "moderate") {
+            aggressivenessInstructions = "Fix major coherence issues and add necessary context. Moderate restructuring allowed if needed.";
+          } else {
+            aggressivenessInstructions = "Maximize coherence score (target 9-10/10). Extensive restructuring, expansion, and context addition encouraged.";
+          }
+
+          const sectionRewritePrompt = `Rewrite this section to maximize ${coherenceType} coherence while maintaining consistency with the overall document structure.
+
+DOCUMENT OUTLINE (maintain consistency with this):
+${coherentOutline}
+
+POSITION IN DOCUMENT:
+- Section ${i + 1} of ${sections.length}
+
+COHERENCE TYPE: ${coherenceType}
+DEFINITION: ${coherenceDefinition}
+
+AGGRESSIVENESS: ${aggressiveness}
+${aggressivenessInstructions}
+
+SECTION TO REWRITE:
+${sections[i].text}
+
+Provide ONLY the rewritten section. Do not include any explanations, descriptions, or commentary about the changes - just the rewritten text itself.`;
+
+          const rewriteMessage = await completeChat('anthropic', {
+            model: "claude-3-7-sonnet-20250219",
+            maxTokens: 3000,
+            temperature: 0.7,
+            system: `You are rewriting sections for maximum coherence while maintaining document-level consistency. Output ONLY the rewritten text with no explanations.`,
+            messages: [{ role: "user", content: sectionRewritePrompt }]
+          });
+
+          const output = rewriteMessage.text;
+          
+          // Use the output directly as the rewrite (no parsing needed)
+          combinedRewrite += `${output.trim()}\n\n`;
+        }
+
+        res.json({
+          success: true,
+          rewrite: combinedRewrite.trim()
+        });
+      }
+
+    } catch (error: any) {
+      console.error("Outline-Guided Coherence error:", error);
+      sendError(res, 500, error.message || "Outline-guided processing failed");
+    }
+  });
+
+  // Database-backed Sequential Coherence Processing
+  app.post("/api/coherence-sequential", async (req: Request, res: Response) => {
+    try {
+      const { text, mode, provider = "openai" } = req.body;
+
+      if (!text) {
+        return sendError(res, 400, "Text is required");
+      }
+      if (mode && !isCoherenceType(mode)) {
+        return sendError(res, 400, `Mode must be one of: ${COHERENCE_MODE_TYPES.join(", ")}`);
+      }
+
+      const wordCount = text.trim().split(/\s+/).length;
+      console.log(`Sequential Coherence - Mode: ${mode || 'auto-detect'}, Provider: ${provider}, Words: ${wordCount}`);
+
+      const { processDocumentSequentially } = await import('../services/coherenceProcessor');
+
+      const result = await processDocumentSequentially(text, mode, provider);
+
+      res.json({
+        success: true,
+        documentId: result.documentId,
+        mode: result.mode,
+        overallStatus: result.overallStatus,
+        chunks: result.chunks,
+        finalState: result.finalState,
+        summary: result.summary
+      });
+    } catch (error: any) {
+      console.error("Sequential Coherence error:", error);
+      sendError(res, 500, error.message || "Sequential coherence processing failed");
+    }
+  });
+
+  // Get coherence document status
+  app.get("/api/coherence-sequential/:documentId/:mode", async (req: Request, res: Response) => {
+    try {
+      const { documentId, mode } = req.params;
+      if (!isCoherenceType(mode)) {
+        return sendError(res, 400, `Mode must be one of: ${COHERENCE_MODE_TYPES.join(", ")}`);
+      }
+
+      const { getDocumentStatus } = await import('../services/coherenceProcessor');
+
+      const status = await getDocumentStatus(documentId, mode);
+
+      res.json({
+        success: true,
+        documentId,
+        mode,
+        state: status.state,
+        chunks: status.chunks
+      });
+    } catch (error: any) {
+      console.error("Get coherence status error:", error);
+      sendError(res, 500, error.message || "Failed to get coherence status");
+    }
+  });
+}
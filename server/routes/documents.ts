@@ -0,0 +1,215 @@
+import type { Express, Request, Response } from "express";
+import multer from "multer";
+import { extractTextFromFile } from "../api/documentParser";
+import { sendSimpleEmail } from "../api/simpleEmailService";
+import { upload as speechUpload, processSpeechToText } from "../api/simpleSpeechToText";
+import { sendError } from "../lib/httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DOCUMENT ROUTES
+// Text extraction from uploads, speech to text, translation, web search and
+// URL fetching, and sharing results by email.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Configure multer for file uploads
+const upload = multer({ 
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
+});
+
+export function registerDocumentRoutes(app: Express) {
+  // Extract text from uploaded document
+  app.post("/api/extract-text", upload.single("file"), async (req: Request, res: Response) => {
+    try {
+      if (!req.file && !req.body.content) {
+        return sendError(res, 400, "No file or content provided");
+      }
+      
+      // Direct content input
+      if (req.body.content) {
+        return res.json({
+          content: req.body.content,
+          filename: req.body.filename || "direct-input.txt",
+          mimeType: "text/plain",
+          metadata: {}
+        });
+      }
+      
+      // Process uploaded file
+      const result = await extractTextFromFile(req.file!);
+      return res.json(result);
+    } catch (error: any) {
+      console.error("Error extracting text:", error);
+      return sendError(res, 500, error.message || "Failed to extract text from document");
+    }
+  });
+
+  // Share analysis via email
+  app.post("/api/share-via-email", async (req: Request, res: Response) => {
+    try {
+      const { 
+        recipientEmail, 
+        senderEmail, 
+        senderName,
+        subject, 
+        documentType, 
+        analysisA,
+        analysisB, 
+        comparison,
+        rewrittenAnalysis
+      } = req.body;
+      
+      if (!recipientEmail || !subject || !analysisA) {
+        return sendError(res, 400, "Recipient email, subject, and analysis are required");
+      }
+      
+      // Import the email service
+      const { sendAnalysisEmail } = await import('../services/emailService');
+      
+      // Send email with the analysis
+      console.log(`SENDING EMAIL TO ${recipientEmail}`);
+      const result = await sendAnalysisEmail({
+        recipientEmail,
+        senderEmail,
+        senderName,
+        subject,
+        documentType,
+        analysisA,
+        analysisB,
+        comparison,
+        rewrittenAnalysis
+      });
+      
+      return res.json(result);
+    } catch (error: any) {
+      console.error("Error sending email:", error);
+      return sendError(res, 500, error.message || "Failed to send email");
+    }
+  });
+
+  // Google search
+  app.post("/api/search-google", async (req: Request, res: Response) => {
+    try {
+      const { query, numResults = 5 } = req.body;
+      
+      if (!query) {
+        return sendError(res, 400, "Search query is required");
+      }
+      
+      // Import the Google search service
+      const { searchGoogle } = await import('../api/googleSearch');
+      
+      // Search using Google Custom Search API
+      console.log(`SEARCHING GOOGLE FOR: ${query}`);
+      const results = await searchGoogle(query, numResults);
+      return res.json(results);
+    } catch (error: any) {
+      console.error("Error searching Google:", error);
+      return sendError(res, 500, error.message || "Failed to search Google");
+    }
+  });
+
+  // Fetch content from URL
+  app.post("/api/fetch-url-content", async (req: Request, res: Response) => {
+    try {
+      const { url } = req.body;
+      
+      if (!url) {
+        return sendError(res, 400, "URL is required");
+      }
+      
+      // Import the URL content fetcher
+      const { fetchUrlContent } = await import('../api/googleSearch');
+      
+      // Fetch content from the URL
+      console.log(`FETCHING CONTENT FROM: ${url}`);
+      const content = await fetchUrlContent(url);
+      
+      if (!content) {
+        return res.json({ 
+          url, 
+          success: false, 
+          content: "Could not extract content from this URL" 
+        });
+      }
+      
+      return res.json({ url, success: true, content });
+    } catch (error: any) {
+      console.error("Error fetching URL content:", error);
+      return sendError(res, 500, error.message || "Failed to fetch URL content", { url: req.body.url });
+    }
+  });
+
+  // Translate document
+  app.post("/api/translate", async (req: Request, res: Response) => {
+    try {
+      const { text, options, provider = "openai" } = req.body;
+      
+      if (!text) {
+        return sendError(res, 400, "Text is required");
+      }
+      
+      if (!options || !options.targetLanguage) {
+        return sendError(res, 400, "Target language is required");
+      }
+      
+      // Import the translation service
+      const { translateDocument } = await import('../services/translationService');
+      
+      // Translate the document
+      console.log(`TRANSLATING TO ${options.targetLanguage.toUpperCase()} WITH ${provider.toUpperCase()}`);
+      const result = await translateDocument(text, options, provider);
+      return res.json(result);
+    } catch (error: any) {
+      console.error("Error translating document:", error);
+      return sendError(res, 500, error.message || "Failed to translate document");
+    }
+  });
+
+  // Send simple email
+  app.post("/api/share-simple-email", async (req: Request, res: Response) => {
+    try {
+      const { recipientEmail, senderEmail, senderName, subject, content } = req.body;
+      
+      if (!recipientEmail || !subject || !content) {
+        return sendError(res, 400, "Recipient email, subject, and content are required");
+      }
+      
+      // Send the email
+      console.log(`SENDING SIMPLE EMAIL TO ${recipientEmail}`);
+      const result = await sendSimpleEmail({
+        recipientEmail,
+        senderEmail,
+        senderName,
+        subject,
+        content
+      });
+      
+      return res.json(result);
+    } catch (error: any) {
+      console.error("Error sending simple email:", error);
+      return sendError(res, 500, error.message || "Failed to send email");
+    }
+  });
+
+  // Direct model request
+  // Speech-to-text conversion endpoint
+  app.post("/api/speech-to-text", speechUpload.single("audio"), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return sendError(res, 400, "No audio file provided");
+      }
+      
+      console.log("PROCESSING SPEECH TO TEXT");
+      const text = await processSpeechToText(req);
+      
+      return res.json({
+        success: true,
+        text: text
+      });
+    } catch (error: any) {
+      console.error("Error processing speech to text:", error);
+      return sendError(res, 500, error.message || "Failed to process speech to text");
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import type { Express, Request, Response } from "express";
+import { sendError } from "../lib/httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FINANCIAL MODEL ROUTES
+// LBO, M&A, DCF and IPO models built from a natural-language deal
+// description, DCF/LBO scenarios and sensitivity grids, and .xlsx downloads
+// of the DCF, LBO and three-statement models.
+// Parsing and math are deterministic, so these are not metered.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function registerFinancialModelRoutes(app: Express) {
+  app.post("/api/financial-models/:model", async (req: Request, res: Response) => {
+    try {
+      const { FINANCIAL_MODEL_TYPES, buildFinancialModel } = await import('../services/financialModels');
+      const model = req.params.model as typeof FINANCIAL_MODEL_TYPES[number];
+      if (!FINANCIAL_MODEL_TYPES.includes(model)) {
+        return sendError(res, 404, `Unknown financial model: ${req.params.model}`);
+      }
+
+      const { text } = req.body;
+      if (!text || !text.trim()) {
+        return sendError(res, 400, "Deal description is required");
+      }
+
+      const result = buildFinancialModel(model, text);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("[FIN-MODEL] Model build failed:", error);
+      sendError(res, 500, error.message || "Failed to build financial model");
+    }
+  });
+
+  // Base/upside/downside scenarios and two-way sensitivity grids
+  app.post("/api/financial-models/:model/valuation", async (req: Request, res: Response) => {
+    try {
+      const { VALUATION_MODEL_TYPES, runValuation } = await import('../services/valuationEngine');
+      const model = req.params.model as typeof VALUATION_MODEL_TYPES[number];
+      if (!VALUATION_MODEL_TYPES.includes(model)) {
+        return sendError(res, 404, `No valuation for financial model: ${req.params.model}`);
+      }
+
+      const { text, scenarios } = req.body;
+      if (!text || !text.trim()) {
+        return sendError(res, 400, "Deal description is required");
+      }
+
+      const result = runValuation(model, text, { scenarios: scenarios || undefined });
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("[VALUATION] Valuation failed:", error);
+      sendError(res, 500, error.message || "Failed to run valuation");
+    }
+  });
+
+  // Excel download: parsed (or default) values, optionally overridden field by
+  // field, laid out as a workbook of live formulas
+  app.post("/api/financial-models/:model/workbook", async (req: Request, res: Response) => {
+    try {
+      const { WORKBOOK_MODEL_TYPES, resolveWorkbookValues, generateFinancialWorkbook, workbookFilename } = await import('../services/financialWorkbook');
+      const model = req.params.model as typeof WORKBOOK_MODEL_TYPES[number];
+      if (!WORKBOOK_MODEL_TYPES.includes(model)) {
+        return sendError(res, 404, `No workbook for financial model: ${req.params.model}`);
+      }
+
+      const { text, values: overrides } = req.body;
+      const { values, invalidFields } = resolveWorkbookValues(model, text, overrides || {});
+      if (invalidFields.length > 0) {
+        return sendError(res, 400, `Invalid model values: ${invalidFields.join(", ")}`, { invalidFields });
+      }
+
+      const workbook = await generateFinancialWorkbook(model, values);
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${workbookFilename(model, values)}"`);
+      res.send(workbook);
+    } catch (error: any) {
+      console.error("[FIN-WORKBOOK] Workbook generation failed:", error);
+      sendError(res, 500, error.message || "Failed to generate workbook");
+    }
+  });
+}
@@ -0,0 +1,293 @@
+import type { Express, Request, Response } from "express";
+import { sendError } from "../lib/httpErrors";
+import { completeChat, type ChatMessage } from "../services/llmProviders";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GENERATION ROUTES
+// Direct model requests, chat with conversation memory, and outline-first
+// long-form document generation.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Model and sampling per provider for chat with conversation memory
+const CHAT_MODELS: Record<string, { model: string; temperature?: number; maxTokens?: number }> = {
+  openai: { model: 'gpt-4o', temperature: 0.7, maxTokens: 4000 },
+  anthropic: { model: 'claude-3-7-sonnet-20250219', maxTokens: 4000 },
+  deepseek: { model: 'deepseek-chat', temperature: 0.7 },
+  grok: { model: 'grok-3', temperature: 0.7 }
+};
+
+// Outline and document generation models for the generator endpoints
+const GENERATOR_MODELS: Record<string, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  deepseek: 'deepseek-chat',
+  openai: 'gpt-4o'
+};
+
+export function registerGenerationRoutes(app: Express) {
+  app.post("/api/direct-model-request", async (req: Request, res: Response) => {
+    try {
+      const { instruction, provider = "openai" } = req.body;
+      
+      if (!instruction) {
+        return sendError(res, 400, "Instruction is required");
+      }
+      
+      // Import the direct model request service
+      const { 
+        directOpenAIRequest, 
+        directClaudeRequest, 
+        directPerplexityRequest,
+        directDeepSeekRequest,
+        directMultiModelRequest
+      } = await import('../api/directModelRequest');
+      
+      let result;
+      
+      // Make the request to the specified provider
+      if (provider === "all") {
+        console.log(`DIRECT MULTI-MODEL REQUEST`);
+        result = await directMultiModelRequest(instruction);
+      } else {
+        console.log(`DIRECT ${provider.toUpperCase()} MODEL REQUEST`);
+        
+        switch (provider.toLowerCase()) {
+          case 'anthropic':
+            result = await directClaudeRequest(instruction);
+            break;
+          case 'perplexity':
+            result = await directPerplexityRequest(instruction);
+            break;
+          case 'deepseek':
+            result = await directDeepSeekRequest(instruction);
+            break;
+          case 'openai':
+          default:
+            result = await directOpenAIRequest(instruction);
+            break;
+        }
+      }
+      
+      return res.json(result);
+    } catch (error: any) {
+      console.error("Error making direct model request:", error);
+      return sendError(res, 500, error.message || "Failed to make direct model request");
+    }
+  });
+
+  app.post("/api/chat-with-memory", async (req: Request, res: Response) => {
+    try {
+      const { 
+        message, 
+        conversationHistory = [], 
+        currentDocument, 
+        analysisResults, 
+        provider = "zhi1",
+        useExternalKnowledge = false 
+      } = req.body;
+      
+      if (!message) {
+        return sendError(res, 400, "Message is required");
+      }
+
+      console.log(`Chat with memory - ${provider}, history: ${conversationHistory.length} messages, external knowledge: ${useExternalKnowledge}`);
+
+      // Query Zhi database if enabled
+      let externalKnowledge = null;
+      let zhiDataType = 'none';
+      if (useExternalKnowledge) {
+        const { queryZhiKnowledgeBase } = await import('../services/zhiApi');
+        const zhiResult = await queryZhiKnowledgeBase(message, 5);
+        if (zhiResult) {
+          externalKnowledge = zhiResult.content;
+          zhiDataType = zhiResult.type; // 'quotes' or 'excerpts'
+        }
+      }
+
+      // Build system message with context
+      let systemMessage = "You are an intelligent AI assistant with expertise in philosophy, cognitive science, and academic writing. Provide thoughtful, accurate, and well-sourced responses.";
+      
+      if (externalKnowledge) {
+        if (zhiDataType === 'quotes') {
+          systemMessage += `\n\nEXTERNAL KNOWLEDGE - VERBATIM QUOTES FROM ZHI DATABASE:
+The following are ACTUAL VERBATIM QUOTES from John-Michael Kuczynski's published works.
+You may present these as direct quotations with proper attribution.
+Use them to provide specific, cited evidence when responding to the user's question.
+
+QUOTES:
+${externalKnowledge}`;
+        } else {
+          systemMessage += `\n\nEXTERNAL KNOWLEDGE - SUMMARIES FROM ZHI DATABASE:
+The following are AI-GENERATED EXCERPTS/SUMMARIES from John-Michael Kuczynski's works, NOT verbatim quotes.
+DO NOT put these in quotation marks or present them as direct quotes.
+Instead, use them as context to inform your response, stating "According to Kuczynski's work on [topic]..." or similar phrasing.
+If the user asks for quotes, explain that only summaries are currently available from the database.
+
+EXCERPTS:
+${externalKnowledge}`;
+        }
+      }
+      
+      if (currentDocument) {
+        systemMessage += `\n\nCURRENT DOCUMENT CONTEXT:\n${currentDocument}`;
+      }
+      
+      if (analysisResults) {
+        systemMessage += `\n\nANALYSIS RESULTS CONTEXT:\n${JSON.stringify(analysisResults, null, 2)}`;
+      }
+
+      // Map provider to actual LLM
+      const providerMap: Record<string, string> = {
+        'zhi1': 'openai',
+        'zhi2': 'anthropic',
+        'zhi3': 'deepseek',
+        'zhi4': 'grok'
+      };
+      const actualProvider = providerMap[provider] || provider;
+
+      // Build messages array with conversation history
+      const messages: ChatMessage[] = conversationHistory.map((msg: any) => ({
+        role: msg.role,
+        content: msg.content
+      }));
+      
+      // Add current message
+      messages.push({
+        role: 'user',
+        content: message
+      });
+
+      // Make LLM request with conversation history
+      let content;
+      const chatModel = CHAT_MODELS[actualProvider];
+      
+      if (chatModel) {
+        const response = await completeChat(actualProvider, {
+          model: chatModel.model,
+          system: systemMessage,
+          messages,
+          temperature: chatModel.temperature,
+          maxTokens: chatModel.maxTokens
+        });
+        content = response.text || "No response";
+      }
+
+      return res.json({ content });
+      
+    } catch (error: any) {
+      console.error("Error in chat with memory:", error);
+      return sendError(res, 500, error.message || "Failed to process chat message");
+    }
+  });
+
+  // Test Strict Outline Generator API
+  app.post("/api/generate-strict-outline", async (req: Request, res: Response) => {
+    try {
+      const { prompt, inputText, provider = "openai" } = req.body;
+      
+      if (!prompt) {
+        return sendError(res, 400, "Prompt is required");
+      }
+      
+      console.log(`[Outline Generator] Starting outline generation with ${provider}...`);
+      
+      const systemPrompt = `You are a strict outline generator. Analyze the task and input text to create a detailed, hierarchical outline.
+
+TASK: ${prompt}
+
+${inputText ? `SOURCE TEXT TO ANALYZE:\n${inputText.substring(0, 50000)}` : ''}
+
+Generate a strict outline with:
+1. Main sections (I, II, III, etc.)
+2. Subsections (A, B, C)
+3. Key points (1, 2, 3)
+4. Claims to address
+5. Structural requirements
+6. Key terms and definitions
+
+Output a well-structured outline that can guide document generation.`;
+
+      let output = "";
+      
+      const generator = GENERATOR_MODELS[provider] ? provider : 'openai';
+      const response = await completeChat(generator, {
+        model: GENERATOR_MODELS[generator],
+        system: systemPrompt,
+        messages: [{ role: "user", content: "Generate the strict outline now." }],
+        temperature: 0.3,
+        maxTokens: 4000
+      });
+      output = response.text;
+      
+      console.log("[Outline Generator] Outline generated successfully");
+      
+      res.json({ success: true, output });
+      
+    } catch (error: any) {
+      console.error("[Outline Generator] Error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Full Document Generator API
+  app.post("/api/generate-full-document", async (req: Request, res: Response) => {
+    try {
+      const { prompt, inputText, provider = "openai" } = req.body;
+      
+      if (!prompt) {
+        return sendError(res, 400, "Prompt is required");
+      }
+      
+      console.log(`[Document Generator] Starting full document generation with ${provider}...`);
+      
+      const outlinePrompt = `Analyze this task and create a detailed structural outline. Task: ${prompt}\n\n${inputText ? `Source text: ${inputText.substring(0, 30000)}` : ''}`;
+      
+      const documentSystemPrompt = (outline: string) => `You are a professional document writer. Generate a complete, coherent document based on:
+
+TASK: ${prompt}
+
+OUTLINE:
+${outline}
+
+${inputText ? `SOURCE MATERIAL:\n${inputText.substring(0, 40000)}` : ''}
+
+Write a complete, well-structured document. Ensure:
+- Coherent flow between sections
+- All key points are addressed
+- Professional tone and clarity
+- Proper paragraph structure`;
+
+      let outline = "";
+      let output = "";
+      
+      const generator = GENERATOR_MODELS[provider] ? provider : 'openai';
+      
+      // Generate outline
+      const outlineRes = await completeChat(generator, {
+        model: GENERATOR_MODELS[generator],
+        system: outlinePrompt,
+        messages: [{ role: "user", content: "Create a structured outline for the document." }],
+        temperature: 0.3,
+        maxTokens: 2000
+      });
+      outline = outlineRes.text;
+      
+      // Generate full document
+      const docRes = await completeChat(generator, {
+        model: GENERATOR_MODELS[generator],
+        system: documentSystemPrompt(outline),
+        messages: [{ role: "user", content: "Generate the complete document now." }],
+        temperature: 0.4,
+        maxTokens: 8000
+      });
+      output = docRes.text;
+      
+      console.log("[Document Generator] Document generated successfully");
+      
+      res.json({ success: true, output });
+      
+    } catch (error: any) {
+      console.error("[Document Generator] Error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
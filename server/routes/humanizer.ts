@@ -0,0 +1,562 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import multer from "multer";
+import { fileProcessorService } from "../services/fileProcessor";
+import { textChunkerService } from "../services/textChunker";
+import { gptZeroService } from "../services/gptZero";
+import { aiProviderService } from "../services/aiProviders";
+import { type RewriteRequest, type RewriteResponse } from "@shared/schema";
+import { requirePermission } from "../lib/rbac";
+import { sendError } from "../lib/httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GPT BYPASS HUMANIZER ROUTES
+// Style-transfer rewriting with presets and writing samples, chunking, file
+// upload and GPTZero scoring. Rewrite jobs are listed under /api/rewrite-jobs.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Configure multer for GPT Bypass file uploads
+const gptBypassUpload = multer({
+  dest: 'uploads/',
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  },
+});
+
+// Helper function to clean markup from AI responses
+function cleanMarkup(text: string): string {
+  return text
+    // Remove markdown bold/italic markers
+    .replace(/\*{1,3}([^*]+)\*{1,3}/g, '$1')
+    // Remove markdown headers
+    .replace(/^#{1,6}\s+/gm, '')
+    // Remove inline code backticks
+    .replace(/`([^`]+)`/g, '$1')
+    // Remove code block markers
+    .replace(/```[\s\S]*?```/g, (match) => {
+      return match.replace(/```[a-z]*\n?/gi, '').replace(/```/g, '');
+    })
+    // Remove other common markdown symbols
+    .replace(/~~([^~]+)~~/g, '$1') // strikethrough
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // links
+    .replace(/>\s+/gm, '') // blockquotes
+    // Remove excessive whitespace and clean up
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function registerHumanizerRoutes(app: Express) {
+  // Re-rewrite endpoint for recursive humanization
+  app.post("/api/re-rewrite", async (req: Request, res: Response) => {
+    try {
+      const { text, styleText, provider = 'zhi2', customInstructions, stylePresets } = req.body;
+
+      if (!text || !styleText) {
+        return sendError(res, 400, "Text to re-rewrite and style sample are both required");
+      }
+
+      console.log(`Starting re-rewrite with ${provider}...`);
+      
+      const { performReRewrite } = await import('../services/gptBypassHumanizer');
+      
+      const result = await performReRewrite(text, styleText, provider, customInstructions, stylePresets);
+      
+      res.json({
+        success: true,
+        result: result
+      });
+      
+    } catch (error: any) {
+      console.error("Re-rewrite error:", error);
+      sendError(res, 500, error.message || "Re-rewrite failed");
+    }
+  });
+
+  // Get style presets
+  app.get("/api/style-presets", async (_req: Request, res: Response) => {
+    try {
+      const { STYLE_PRESETS } = await import('../services/gptBypassHumanizer');
+      res.json({ presets: STYLE_PRESETS });
+    } catch (error: any) {
+      console.error("Error getting style presets:", error);
+      sendError(res, 500, "Failed to load style presets");
+    }
+  });
+
+  // Chunk text endpoint
+  app.post("/api/chunk-text", async (req: Request, res: Response) => {
+    try {
+      const { text, maxWords = 500 } = req.body;
+
+      if (!text || typeof text !== 'string') {
+        return sendError(res, 400, "Text is required and must be a string");
+      }
+
+      const { chunkText } = await import('../services/gptBypassHumanizer');
+      const chunks = chunkText(text, maxWords);
+      
+      res.json({
+        success: true,
+        chunks: chunks
+      });
+      
+    } catch (error: any) {
+      console.error("Text chunking error:", error);
+      sendError(res, 500, error.message || "Text chunking failed");
+    }
+  });
+
+  // Evaluate text with GPTZero
+  app.post("/api/evaluate-ai", async (req: Request, res: Response) => {
+    try {
+      const { text } = req.body;
+
+      if (!text || typeof text !== 'string') {
+        return sendError(res, 400, "Text is required and must be a string");
+      }
+
+      const { evaluateWithGPTZero } = await import('../services/gptBypassHumanizer');
+      const score = await evaluateWithGPTZero(text);
+      
+      res.json({
+        success: true,
+        humanPercentage: score
+      });
+      
+    } catch (error: any) {
+      console.error("AI evaluation error:", error);
+      sendError(res, 500, error.message || "AI evaluation failed");
+    }
+  });
+
+  // File upload endpoint for GPT Bypass
+  app.post("/api/upload", gptBypassUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return sendError(res, 400, "No file uploaded");
+      }
+
+      await fileProcessorService.validateFile(req.file);
+      const processedFile = await fileProcessorService.processFile(req.file.path, req.file.originalname);
+      
+      // Analyze with GPTZero
+      const gptZeroResult = await gptZeroService.analyzeText(processedFile.content);
+      
+      // Create document record
+      const document = await storage.createDocument({
+        filename: processedFile.filename,
+        content: processedFile.content,
+        wordCount: processedFile.wordCount,
+        // aiScore: gptZeroResult.aiScore, // This field may not exist in current schema
+      });
+
+      // Generate chunks if text is long enough
+      const chunks = processedFile.wordCount > 500 
+        ? textChunkerService.chunkText(processedFile.content)
+        : [];
+
+      // Analyze chunks if they exist
+      if (chunks.length > 0) {
+        const chunkTexts = chunks.map(chunk => chunk.content);
+        const chunkResults = await gptZeroService.analyzeBatch(chunkTexts);
+        
+        chunks.forEach((chunk, index) => {
+          chunk.aiScore = chunkResults[index].aiScore;
+        });
+      }
+
+      res.json({
+        document,
+        chunks,
+        aiScore: gptZeroResult.aiScore,
+        needsChunking: processedFile.wordCount > 500,
+      });
+    } catch (error: any) {
+      console.error('File upload error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Text analysis endpoint (for direct text input)
+  app.post("/api/analyze-text", async (req, res) => {
+    try {
+      const { text } = req.body;
+      
+      if (!text || typeof text !== 'string') {
+        return sendError(res, 400, "Text is required");
+      }
+
+      const gptZeroResult = await gptZeroService.analyzeText(text);
+      const wordCount = text.trim().split(/\s+/).length;
+      
+      // Generate chunks if text is long enough
+      const chunks = wordCount > 500 ? textChunkerService.chunkText(text) : [];
+      
+      // Analyze chunks if they exist
+      if (chunks.length > 0) {
+        const chunkTexts = chunks.map(chunk => chunk.content);
+        const chunkResults = await gptZeroService.analyzeBatch(chunkTexts);
+        
+        chunks.forEach((chunk, index) => {
+          chunk.aiScore = chunkResults[index].aiScore;
+        });
+      }
+
+      res.json({
+        aiScore: gptZeroResult.aiScore,
+        wordCount,
+        chunks,
+        needsChunking: wordCount > 500,
+      });
+    } catch (error: any) {
+      console.error('Text analysis error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Quick AI detection endpoint for TextStats component
+  app.post("/api/detect-ai", async (req, res) => {
+    try {
+      const { text } = req.body;
+      
+      if (!text || typeof text !== 'string') {
+        return sendError(res, 400, "Text is required");
+      }
+      
+      if (text.trim().length < 50) {
+        return sendError(res, 400, "Text must be at least 50 characters for AI detection");
+      }
+
+      const gptZeroResult = await gptZeroService.analyzeText(text);
+      
+      res.json({
+        aiScore: gptZeroResult.aiScore,
+        humanScore: 100 - gptZeroResult.aiScore,
+        isAI: gptZeroResult.isAI,
+        confidence: gptZeroResult.confidence,
+      });
+    } catch (error: any) {
+      console.error('AI detection error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Main rewrite endpoint - GPT Bypass Humanizer
+  app.post("/api/rewrite", async (req, res) => {
+    try {
+      const rewriteRequest: RewriteRequest = req.body;
+      
+      // Validate request
+      if (!rewriteRequest.inputText || !rewriteRequest.provider) {
+        return sendError(res, 400, "Input text and provider are required");
+      }
+
+      // Analyze input text
+      const inputAnalysis = await gptZeroService.analyzeText(rewriteRequest.inputText);
+      
+      // Create rewrite job
+      const rewriteJob = await storage.createRewriteJob({
+        inputText: rewriteRequest.inputText,
+        styleText: rewriteRequest.styleText,
+        contentMixText: rewriteRequest.contentMixText,
+        customInstructions: rewriteRequest.customInstructions,
+        selectedPresets: rewriteRequest.selectedPresets,
+        provider: rewriteRequest.provider,
+        chunks: [],
+        selectedChunkIds: rewriteRequest.selectedChunkIds,
+        mixingMode: rewriteRequest.mixingMode,
+        inputAiScore: inputAnalysis.aiScore,
+        status: "processing",
+      });
+
+      try {
+        // Perform rewrite
+        const rewrittenText = await aiProviderService.rewrite(rewriteRequest.provider, {
+          inputText: rewriteRequest.inputText,
+          styleText: rewriteRequest.styleText,
+          contentMixText: rewriteRequest.contentMixText,
+          customInstructions: rewriteRequest.customInstructions,
+          selectedPresets: rewriteRequest.selectedPresets,
+          mixingMode: rewriteRequest.mixingMode,
+        });
+
+        // Analyze output text
+        const outputAnalysis = await gptZeroService.analyzeText(rewrittenText);
+
+        // Clean markup from rewritten text
+        const cleanedRewrittenText = cleanMarkup(rewrittenText);
+
+        // Update job with results
+        await storage.updateRewriteJob(rewriteJob.id, {
+          outputText: cleanedRewrittenText,
+          outputAiScore: outputAnalysis.aiScore,
+          status: "completed",
+        });
+
+        const response: RewriteResponse = {
+          rewrittenText: cleanedRewrittenText,
+          inputAiScore: inputAnalysis.aiScore,
+          outputAiScore: outputAnalysis.aiScore,
+          jobId: rewriteJob.id.toString(),
+        };
+
+        res.json(response);
+      } catch (error) {
+        // Update job with error status
+        await storage.updateRewriteJob(rewriteJob.id, {
+          status: "failed",
+        });
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Rewrite error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Re-rewrite endpoint
+  app.post("/api/re-rewrite/:jobId", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const { customInstructions, selectedPresets, provider } = req.body;
+      
+      const originalJob = await storage.getRewriteJob(parseInt(jobId));
+      if (!originalJob || !originalJob.outputText) {
+        return sendError(res, 404, "Original job not found or incomplete");
+      }
+
+      // Create new rewrite job using the previous output as input
+      const rewriteJob = await storage.createRewriteJob({
+        inputText: originalJob.outputText,
+        styleText: originalJob.styleText,
+        contentMixText: originalJob.contentMixText,
+        customInstructions: customInstructions || originalJob.customInstructions,
+        selectedPresets: selectedPresets || originalJob.selectedPresets,
+        provider: provider || originalJob.provider,
+        chunks: [],
+        selectedChunkIds: [],
+        mixingMode: originalJob.mixingMode,
+        inputAiScore: originalJob.outputAiScore,
+        status: "processing",
+      });
+
+      try {
+        // Perform re-rewrite
+        const rewrittenText = await aiProviderService.rewrite(provider || originalJob.provider, {
+          inputText: originalJob.outputText,
+          styleText: originalJob.styleText || undefined,
+          contentMixText: originalJob.contentMixText || undefined,
+          customInstructions: customInstructions || originalJob.customInstructions,
+          selectedPresets: selectedPresets || originalJob.selectedPresets,
+          mixingMode: originalJob.mixingMode || undefined,
+        });
+
+        // Analyze new output
+        const outputAnalysis = await gptZeroService.analyzeText(rewrittenText);
+
+        // Clean markup from output
+        const cleanedRewrittenText = cleanMarkup(rewrittenText);
+
+        // Update job with results
+        await storage.updateRewriteJob(rewriteJob.id, {
+          outputText: cleanedRewrittenText,
+          outputAiScore: outputAnalysis.aiScore,
+          status: "completed",
+        });
+
+        const response: RewriteResponse = {
+          rewrittenText: cleanedRewrittenText,
+          inputAiScore: originalJob.outputAiScore || 0,
+          outputAiScore: outputAnalysis.aiScore,
+          jobId: rewriteJob.id.toString(),
+        };
+
+        res.json(response);
+      } catch (error) {
+        await storage.updateRewriteJob(rewriteJob.id, { status: "failed" });
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('Re-rewrite error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Get rewrite job status
+  app.get("/api/rewrite-jobs/:jobId", async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const job = await storage.getRewriteJob(parseInt(jobId));
+      
+      if (!job) {
+        return sendError(res, 404, "Job not found");
+      }
+
+      res.json(job);
+    } catch (error: any) {
+      console.error('Get job error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // List recent jobs
+  app.get("/api/rewrite-jobs", requirePermission("jobs:read_all"), async (req, res) => {
+    try {
+      const jobs = await storage.listRewriteJobs();
+      res.json(jobs);
+    } catch (error: any) {
+      console.error('List jobs error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Main GPT Bypass Humanizer endpoint expected by frontend
+  app.post("/api/gpt-bypass-humanizer", async (req, res) => {
+    try {
+      const { boxA, boxB, provider = 'zhi2', customInstructions, stylePresets, selectedChunkIds, chunks } = req.body;
+      
+      // Validate request
+      if (!boxA) {
+        return sendError(res, 400, "Box A (text to humanize) is required");
+      }
+      
+      if (!boxB) {
+        return sendError(res, 400, "Box B (human style sample) is required");
+      }
+
+      // Analyze input text
+      const inputAnalysis = await gptZeroService.analyzeText(boxA);
+      
+      // Create rewrite job
+      const rewriteJob = await storage.createRewriteJob({
+        inputText: boxA,
+        styleText: boxB,
+        contentMixText: "", // Not used in this interface
+        customInstructions,
+        selectedPresets: stylePresets,
+        provider,
+        chunks: chunks || [],
+        selectedChunkIds: selectedChunkIds || [],
+        mixingMode: "style",
+        inputAiScore: inputAnalysis.aiScore,
+        status: "processing",
+      });
+
+      try {
+        // Perform humanization
+        const humanizedText = await aiProviderService.rewrite(provider, {
+          inputText: boxA,
+          styleText: boxB,
+          customInstructions,
+          selectedPresets: stylePresets,
+          mixingMode: "style",
+        });
+
+        // Analyze output text
+        const outputAnalysis = await gptZeroService.analyzeText(humanizedText);
+
+        // Clean markup from output
+        const cleanedHumanizedText = cleanMarkup(humanizedText);
+
+        // Update job with results
+        await storage.updateRewriteJob(rewriteJob.id, {
+          outputText: cleanedHumanizedText,
+          outputAiScore: outputAnalysis.aiScore,
+          status: "completed",
+        });
+
+        res.json({
+          success: true,
+          result: {
+            humanizedText: cleanedHumanizedText,
+            originalScore: inputAnalysis.aiScore,
+            humanizedScore: outputAnalysis.aiScore,
+            jobId: rewriteJob.id,
+          },
+        });
+      } catch (error) {
+        // Update job with error status
+        await storage.updateRewriteJob(rewriteJob.id, {
+          status: "failed",
+        });
+        throw error;
+      }
+    } catch (error: any) {
+      console.error('GPT Bypass Humanizer error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Writing samples endpoint - CATEGORIZED
+  app.get("/api/writing-samples", async (req, res) => {
+    try {
+      const samples = {
+        "CONTENT-NEUTRAL": {
+          "Formal and Functional Relationships": `There are two broad types of relationships: formal and functional.
+Formal relationships hold between descriptions. A description is any statement that can be true or false.
+Example of a formal relationship: The description that a shape is a square cannot be true unless the description that it has four equal sides is true. Therefore, a shape's being a square depends on its having four equal sides.
+
+Functional relationships hold between events or conditions. (An event is anything that happens in time.)
+Example of a functional relationship: A plant cannot grow without water. Therefore, a plant's growth depends on its receiving water.
+
+The first type is structural, i.e., it holds between statements about features.
+The second is operational, i.e., it holds between things in the world as they act or change.
+
+Descriptions as objects of consideration
+The objects of evaluation are descriptions. Something is not evaluated unless it is described, and it is not described unless it can be stated. One can notice non-descriptions — sounds, objects, movements — but in the relevant sense one evaluates descriptions of them.
+
+Relationships not known through direct observation
+Some relationships are known, not through direct observation, but through reasoning. Such relationships are structural, as opposed to observational. Examples of structural relationships are:
+
+If A, then A or B.
+
+All tools require some form of use.
+
+Nothing can be both moving and perfectly still.
+
+There are no rules without conditions.
+
+1 obviously expresses a relationship; 2–4 do so less obviously, as their meanings are:
+
+2*. A tool's being functional depends on its being usable.
+3*. An object's being both moving and still depends on contradictory conditions, which cannot occur together.
+4*. The existence of rules depends on the existence of conditions to which they apply.
+
+Structural truth and structural understanding
+Structural understanding is always understanding of relationships. Observational understanding can be either direct or indirect; the same is true of structural understanding.`,
+
+          "Alternative Account of Explanatory Efficiency": `A continuation of the earlier case will make it clear what this means and why it matters. Why doesn't the outcome change under the given conditions? Because, says the standard account, the key factor remained in place. But, the skeptic will counter, perhaps we can discard that account; perhaps there's an alternative that fits the observations equally well. But, I would respond, even granting for argument's sake that such an alternative exists, it doesn't follow that it avoids more gaps than the one it replaces. It doesn't follow that it is comparable from a trade-off standpoint to the original—that it reduces as many issues as the old view while introducing no more new ones. In fact, the opposite often holds. Consider the alternative mentioned earlier. The cost of that account—meaning what new puzzles it creates—is vastly greater than its value—meaning what old puzzles it removes. It would be difficult to devise an account inconsistent with the conventional one that, while still matching the relevant evidence, is equally efficient in explanatory terms. You can test this for yourself. If there is reason to think even one such account exists, it is not because it has ever been produced. That reason, if it exists, must be purely theoretical. And for reasons soon to be made clear, no such purely theoretical reason can justify accepting it.`
+        },
+        
+        "EPISTEMOLOGY": {
+          "Rational Belief and Underlying Structure": `When would it become rational to believe that, next time, you're more likely than not to roll this as opposed to that number—that, for example, you're especially likely to roll a 27? This belief becomes rational when, and only when, you have reason to believe that a 27-roll is favored by the structures involved in the game. And that belief, in its turn, is rational if you know that circumstances at all like the following obtain: *The dice are magnetically attracted to the 27-slot. *On any given occasion, you have an unconscious intention to roll a 27 (even though you have no conscious intention of doing this), and you're such a talented dice-thrower that, if you can roll a 27 if it is your (subconscious) intention to do so. *The 27-slot is much bigger than any of the other slots. In fact, it takes up so much space on the roulette wheel that the remaining spaces are too small for the ball to fit into them. You are rational to believe that you'll continue to roll 27s to the extent that your having thus far rolled multiple 27s in a row gives you reason to believe there to be some underlying structure favoring that outcome.`,
+
+          "Hume, Induction, and the Logic of Explanation": `We haven't yet refuted Hume's argument—we've only taken the first step towards doing so. Hume could defend his view against what we've said thus by far by saying the following: Suppose that, to explain why all phi's thus far known are psi's, you posit some underlying structure or law that disposes phi's to be psi's. Unless you think that nature is uniform, you have no right to expect that connection to continue to hold. But if, in order to deal with this, you suppose that nature is uniform, then you're caught in the vicious circle that I described. HR is correct. One is indeed caught in a vicious circle if, in order to show the legitimacy of inductive inference, one assumes UP; and the reason is that, just as Hume says, UP can be known, if at all, only on inductive grounds.`,
+
+          "Explanatory Goodness vs. Correctness": `For an explanation to be good isn't for it to be correct. Sometimes the right explanations are bad ones. A story will make this clear. I'm on a bus. The bus driver is smiling. A mystery! 'What on Earth does he have to smile about?' I ask myself. His job is so boring, and his life must therefore be such a horror.' But then I remember that, just a minute ago, a disembarking passenger gave him fifty $100 bills as a tip. So I have my explanation: 'he just came into a lot of money.' But here is the very different explanation tendered by my seatmate Gus, who, in addition to being unintelligent, is also completely insane. 'The bus-driver is a CIA assassin. This morning he killed somebody who, by coincidence, had the name Benjamin Franklin. Benjamin Franklin (the statesman, not the murder victim) is on the $100 bill. So when the bus driver saw those bills, he immediately thought of that morning's murder. The murder was a particularly enjoyable one; the bus driver is remembering the fun he had, and that's why he's smiling.'`,
+
+          "Knowledge vs. Awareness": `Knowledge is conceptually articulated awareness. In order for me to know that my shoes are uncomfortably tight, I need to have the concepts shoe, tight, discomfort, etc. I do not need to have these concepts—or, arguably, any concepts—to be aware of the uncomfortable tightness in my shoes. My knowledge of that truth is a conceptualization of my awareness of that state of affairs. Equivalently, there are two kinds of awareness: propositional and objectual. My visual perception of the dog in front of me is a case of objectual awareness, as is my awareness of the tightness of my shoes. My knowledge that there is a dog in front of me is a case of proposition-awareness, as is my knowledge that my shoes are uncomfortably tight.`
+        },
+
+        "PARADOXES": {
+          "The Loser Paradox": `People who are the bottom of a hierarchy are far less likely to spurn that hierarchy than they are to use it against people who are trying to climb the ranks of that hierarchy. The person who never graduates from college may in some contexts claim that a college degree is worthless, but he is unlikely to act accordingly. When he comes across someone without a college degree who is trying to make something of himself, he is likely to pounce on that person, claiming he is an uncredentialed fraud. Explanation: Losers want others to share their coffin, and if that involves hyper-valuing the very people or institutions that put them in that coffin, then so be it.`,
+
+          "The Sour Secretary Paradox": `The more useless a given employee is to the organization that employs her, the more unstintingly she will toe that organization's line. This is a corollary of the loser paradox.`,
+
+          "The Indie Writer's Paradox": `People don't give good reviews to writers who do not already have positive reviews. Analysis: This is a veridical paradox, in the sense that it describes an actual vicious circle and does not represent a logical blunder. An independent writer is by definition one who does not have a marketing apparatus behind him, and such a writer depends on uncoerced positive reviews. But people are extremely reluctant to give good reviews to writers who are not popular already or who do not have the weight of some institution behind them.`,
+
+          "Paradox of Connectedness": `Communications technology is supposed to connect us but separates us into self-contained, non-interacting units. Solution: Communications technology is not supposed to connect us emotionally. On the contrary, it is supposed to connect us in such a way that we can transact without having to bond emotionally. And that is what it does. It connects us logically while disconnecting us emotionally.`,
+
+          "Arrow's Information Paradox": `If you don't know what it is, you don't buy it. Therefore, you don't buy information unless you know what it is. But if you know what it is, you don't need to buy it. But information is bought. Solution: The obvious solution is that information can be described without being disclosed. I can tell you that I have the so and so's phone number without giving you that number, and the circumstances may give you reason to believe me.`,
+
+          "Buridan's Ass": `An ass that has to choose between food and water and is exactly as hungry as it is thirsty cannot make a choice and will therefore be paralyzed by indecision. But such an ass would in fact be able to make a decision. Explanation: This isn't exactly a paradox. There is nothing absurd in the supposition that a creature in such a situation might simply 'halt', and we don't know that actual biological creatures would not in fact halt in such a situation, since it seldom if ever happens that a creature is confronted with options that are exactly equally appealing.`
+        }
+      };
+      
+      res.json({ samples });
+    } catch (error: any) {
+      console.error('Writing samples error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
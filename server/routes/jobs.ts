@@ -0,0 +1,153 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { requirePermission } from "../lib/rbac";
+import { sendError } from "../lib/httpErrors";
+import { TERMINAL_JOB_EVENTS, type DeliveredJobEvent } from "@shared/schema";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB HISTORY ROUTES
+// Coherence and reconstruction jobs recorded by the HCC services, including
+// resuming an interrupted coherence job, and the live event stream of any
+// running job as Server-Sent Events.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function registerJobRoutes(app: Express) {
+  // Job History API endpoints
+  app.get("/api/jobs", requirePermission("jobs:read_all"), async (req: Request, res: Response) => {
+    try {
+      const jobs = await storage.getAllJobs();
+      res.json({ jobs });
+    } catch (error: any) {
+      console.error("Error fetching jobs:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.get("/api/jobs/:documentId", async (req: Request, res: Response) => {
+    try {
+      const { documentId } = req.params;
+      
+      // Handle reconstruction jobs
+      if (documentId.startsWith('reconstruction-')) {
+        const id = parseInt(documentId.replace('reconstruction-', ''));
+        const project = await storage.getReconstructionProject(id);
+        if (!project) return sendError(res, 404, "Job not found");
+        return res.json({ document: project, chunks: [], type: 'reconstruction' });
+      }
+      
+      // Handle coherence jobs
+      const jobData = await storage.getJobWithChunks(documentId);
+      if (!jobData) return sendError(res, 404, "Job not found");
+      res.json({ ...jobData, type: 'coherence' });
+    } catch (error: any) {
+      console.error("Error fetching job:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Same events as /ws/cc-stream, for clients behind proxies that block
+  // WebSockets. EventSource resends the last id it saw as Last-Event-ID when it
+  // reconnects; a finished job with nothing left to send answers 204, which
+  // stops EventSource from reconnecting.
+  app.get("/api/jobs/:id/events", async (req: Request, res: Response) => {
+    if (!req.user) {
+      return sendError(res, 401, "Not authenticated");
+    }
+    const { isValidJobId, subscribeJobEvents } = await import('../services/jobEvents');
+    const jobId = req.params.id;
+    if (!isValidJobId(jobId)) {
+      return sendError(res, 400, "Invalid job id");
+    }
+    const lastEventId = Number(req.get("Last-Event-ID") ?? req.query.lastEventId) || 0;
+
+    let closed = false;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    const finish = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+      res.end();
+    };
+    const send = (event: DeliveredJobEvent) => {
+      if (closed) return;
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      (res as any).flush?.();
+      if (TERMINAL_JOB_EVENTS.includes(event.type)) finish();
+    };
+
+    const subscription = subscribeJobEvents(req.user.id, jobId, lastEventId, send);
+    if (subscription.finished && subscription.missed.length === 0) {
+      subscription.unsubscribe();
+      return res.status(204).end();
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    res.write("retry: 3000\n\n");
+    if (subscription.truncated) {
+      res.write(": some earlier events are no longer buffered\n\n");
+    }
+    heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+    req.on("close", finish);
+    subscription.missed.forEach(send);
+  });
+
+  app.post("/api/jobs/:documentId/resume", async (req: Request, res: Response) => {
+    try {
+      const { documentId } = req.params;
+      
+      // Get existing job data
+      const jobData = await storage.getJobWithChunks(documentId);
+      if (!jobData) {
+        return sendError(res, 404, "Job not found");
+      }
+      
+      const { document, chunks } = jobData;
+      const lastChunkIndex = chunks.length > 0 ? Math.max(...chunks.map(c => c.chunkIndex)) : -1;
+      const globalState = document.globalState;
+      
+      // Reconstruct original text from chunks (sort by chunkIndex and join)
+      const sortedChunks = [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex);
+      const originalText = sortedChunks
+        .map(c => c.chunkText || '')
+        .filter(t => t.length > 0)
+        .join('\n\n');
+      
+      // Also check for stitched document in globalState
+      const stitchedDocument = (globalState as any)?.stitchedDocument || '';
+      
+      console.log(`[Resume] Resuming job ${documentId} from chunk ${lastChunkIndex + 1}, originalText length: ${originalText.length}`);
+      
+      // Include saved chunks in globalState for use by rewrite function
+      const enhancedGlobalState = {
+        ...globalState,
+        savedChunks: sortedChunks.map(c => ({
+          chunkIndex: c.chunkIndex,
+          chunkText: c.chunkText,
+        })),
+        gco: (globalState as any)?.gco,
+        gcs: (globalState as any)?.gcs,
+      };
+      
+      res.json({
+        success: true,
+        documentId,
+        resumeFromChunk: lastChunkIndex + 1,
+        existingChunks: chunks.length,
+        globalState: enhancedGlobalState, // Now includes savedChunks
+        coherenceMode: document.coherenceMode,
+        originalText: originalText, // Include reconstructed original text
+        stitchedDocument: stitchedDocument, // Include stitched output if available
+        message: `Ready to resume from chunk ${lastChunkIndex + 1}.`
+      });
+    } catch (error: any) {
+      console.error("Error resuming job:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
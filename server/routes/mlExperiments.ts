@@ -0,0 +1,77 @@
+import type { Express, Request, Response } from "express";
+import { sendError } from "../lib/httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ML EXPERIMENT ROUTES
+// Parse an ML problem description into editable parameters (LLM, metered),
+// regenerate the scikit-learn script from edited parameters, and download it
+// as a .py script or .ipynb notebook once it passes static validation.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function registerMLExperimentRoutes(app: Express) {
+  app.post("/api/ml-experiments/parse", async (req: Request, res: Response) => {
+    try {
+      const { description, customInstructions, provider } = req.body;
+      if (!description || !description.trim()) {
+        return sendError(res, 400, "Problem description is required");
+      }
+
+      const { parseMLExperiment } = await import('../services/mlExperiments');
+      const experiment = await parseMLExperiment(description, customInstructions || "", provider || "zhi1");
+      res.json({ success: true, ...experiment });
+    } catch (error: any) {
+      console.error("[ML-EXPERIMENT] Parse failed:", error);
+      sendError(res, 500, error.message || "Failed to parse ML problem description");
+    }
+  });
+
+  // Regeneration after an edit: deterministic, no LLM call
+  app.post("/api/ml-experiments/generate", async (req: Request, res: Response) => {
+    try {
+      const { validateMLParameters, buildMLExperiment } = await import('../services/mlExperiments');
+      const { parameters, invalidFields } = validateMLParameters(req.body.parameters || {});
+      if (invalidFields.length > 0) {
+        return sendError(res, 400, `Invalid ML parameters: ${invalidFields.join(", ")}`, { invalidFields });
+      }
+
+      const experiment = await buildMLExperiment(parameters);
+      res.json({ success: true, ...experiment });
+    } catch (error: any) {
+      console.error("[ML-EXPERIMENT] Generation failed:", error);
+      sendError(res, 500, error.message || "Failed to generate ML code");
+    }
+  });
+
+  app.post("/api/ml-experiments/download", async (req: Request, res: Response) => {
+    try {
+      const { ML_OUTPUT_FORMATS, validateMLParameters, buildMLExperiment, buildNotebook, experimentFilename } = await import('../services/mlExperiments');
+      const format = (req.body.format || "py") as typeof ML_OUTPUT_FORMATS[number];
+      if (!ML_OUTPUT_FORMATS.includes(format)) {
+        return sendError(res, 400, `Unknown format: ${req.body.format}`);
+      }
+
+      const { parameters, invalidFields } = validateMLParameters(req.body.parameters || {});
+      if (invalidFields.length > 0) {
+        return sendError(res, 400, `Invalid ML parameters: ${invalidFields.join(", ")}`, { invalidFields });
+      }
+
+      const { code, validation } = await buildMLExperiment(parameters);
+      if (!validation.valid) {
+        return sendError(res, 422, "Generated code failed validation", { validation });
+      }
+
+      const filename = experimentFilename(parameters, format);
+      if (format === "ipynb") {
+        res.setHeader('Content-Type', 'application/x-ipynb+json');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        return res.send(buildNotebook(code, parameters));
+      }
+      res.setHeader('Content-Type', 'text/x-python; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(code);
+    } catch (error: any) {
+      console.error("[ML-EXPERIMENT] Download failed:", error);
+      sendError(res, 500, error.message || "Failed to export ML code");
+    }
+  });
+}
@@ -1,38 +1,41 @@
 import type { Express, Request, Response } from "express";
 import { stripe, isStripeConfigured, CREDIT_PACKAGES, type Provider, type PriceTier, hasUnlimitedCredits } from "../lib/stripe-config";
 import { storage } from "../storage";
-import { z } from "zod";
-
-const checkoutSchema = z.object({
-  provider: z.enum(["openai", "anthropic", "perplexity", "deepseek"]),
-  amount: z.union([z.literal(5), z.literal(10), z.literal(25), z.literal(50), z.literal(100)]),
-});
+import { ledgerDelta } from "../lib/creditMetering";
+import { processStripeEvent } from "../services/stripeWebhookService";
+import type Stripe from "stripe";
+import { checkoutRequestSchema } from "@shared/routeSchemas";
+import { sendError } from "../lib/httpErrors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed JSON body, captured by express.json for webhook signature checks
+      rawBody?: Buffer;
+    }
+  }
+}
 
 export function registerPaymentRoutes(app: Express) {
   // Create Stripe Checkout Session
   app.post("/api/payments/checkout", async (req: Request, res: Response) => {
     try {
       if (!isStripeConfigured || !stripe) {
-        return res.status(503).json({ message: "Payment system not configured" });
+        return sendError(res, 503, "Payment system not configured");
       }
 
       if (!req.isAuthenticated() || !req.user) {
-        return res.status(401).json({ message: "Authentication required" });
+        return sendError(res, 401, "Authentication required");
       }
 
-      // Check if user has unlimited credits (JMK)
-      if (hasUnlimitedCredits(req.user.username)) {
-        return res.status(400).json({ 
-          message: "You have unlimited credits and don't need to purchase more" 
-        });
+      // Users on an unlimited plan never need to purchase
+      if (hasUnlimitedCredits(req.user)) {
+        return sendError(res, 400, "You have unlimited credits and don't need to purchase more");
       }
 
-      const validation = checkoutSchema.safeParse(req.body);
+      const validation = checkoutRequestSchema.safeParse(req.body);
       if (!validation.success) {
-        return res.status(400).json({ 
-          message: "Invalid request", 
-          errors: validation.error.errors 
-        });
+        return sendError(res, 400, "Invalid request", { errors: validation.error.errors });
       }
 
       const { provider, amount } = validation.data;
@@ -75,6 +78,10 @@ export function registerPaymentRoutes(app: Express) {
           credits: String(packageInfo.credits),
           transactionId: String(transaction.id),
         },
+        // Lets payment_intent.payment_failed events find the pending transaction
+        payment_intent_data: {
+          metadata: { transactionId: String(transaction.id) },
+        },
       });
 
       // Update transaction with Stripe session ID
@@ -83,72 +90,45 @@ export function registerPaymentRoutes(app: Express) {
       res.json({ sessionId: session.id, url: session.url });
     } catch (error: any) {
       console.error("Checkout error:", error);
-      res.status(500).json({ message: "Error creating checkout session", error: error.message });
+      sendError(res, 500, `Error creating checkout session: ${error.message}`);
     }
   });
 
   // Stripe Webhook Handler
+  // Events are verified against the raw request body and applied idempotently;
+  // a non-2xx response makes Stripe redeliver the event later.
   app.post("/api/payments/webhook", async (req: Request, res: Response) => {
-    if (!isStripeConfigured || !stripe) {
-      return res.status(503).send("Payment system not configured");
+    if (!stripe || !process.env.STRIPE_WEBHOOK_SECRET) {
+      console.error("Webhook received but Stripe or STRIPE_WEBHOOK_SECRET is not configured");
+      return sendError(res, 500, "Webhook not configured");
     }
 
     const sig = req.headers["stripe-signature"];
     
-    if (!sig) {
-      return res.status(400).send("No signature");
+    if (!sig || !req.rawBody) {
+      return sendError(res, 400, "No signature");
     }
 
-    let event: any;
+    let event: Stripe.Event;
 
     try {
       event = stripe.webhooks.constructEvent(
-        req.body,
+        req.rawBody,
         sig,
-        process.env.STRIPE_WEBHOOK_SECRET!
+        process.env.STRIPE_WEBHOOK_SECRET
       );
     } catch (err: any) {
       console.error("Webhook signature verification failed:", err.message);
-      return res.status(400).send(`Webhook Error: ${err.message}`);
+      return sendError(res, 400, `Webhook Error: ${err.message}`);
     }
 
-    // Handle the checkout.session.completed event
-    if (event.type === "checkout.session.completed") {
-      const session = event.data.object;
-      
-      try {
-        const userId = parseInt(session.metadata.userId);
-        const provider = session.metadata.provider;
-        const credits = parseInt(session.metadata.credits);
-        const transactionId = parseInt(session.metadata.transactionId);
-
-        // Get current credits or initialize
-        let userCredits = await storage.getUserCredits(userId, provider);
-        if (!userCredits) {
-          userCredits = await storage.initializeUserCredits(userId, provider);
-        }
-
-        // Add purchased credits
-        await storage.updateUserCredits(
-          userId,
-          provider,
-          userCredits.credits + credits
-        );
-
-        // Update transaction status
-        await storage.updateCreditTransactionStatus(
-          transactionId,
-          "completed",
-          session.payment_intent as string
-        );
-
-        console.log(`✅ Credits added: ${credits} ${provider} credits for user ${userId}`);
-      } catch (error) {
-        console.error("Error processing webhook:", error);
-      }
+    try {
+      const outcome = await processStripeEvent(event);
+      res.json({ received: true, outcome });
+    } catch (error: any) {
+      console.error(`Error processing webhook ${event.id} (${event.type}):`, error);
+      sendError(res, 500, error.message, { received: false });
     }
-
-    res.json({ received: true });
   });
 
   // Get user credit balances
@@ -166,7 +146,7 @@ export function registerPaymentRoutes(app: Express) {
       }
 
       // Check for unlimited credits
-      if (hasUnlimitedCredits(req.user.username)) {
+      if (hasUnlimitedCredits(req.user)) {
         return res.json({
           openai: Infinity,
           anthropic: Infinity,
@@ -195,7 +175,45 @@ export function registerPaymentRoutes(app: Express) {
       res.json(balance);
     } catch (error: any) {
       console.error("Error fetching balance:", error);
-      res.status(500).json({ message: "Error fetching credit balance" });
+      sendError(res, 500, "Error fetching credit balance");
+    }
+  });
+
+  // Credit ledger: purchases and metered usage, newest first
+  app.get("/api/credits/ledger", async (req: Request, res: Response) => {
+    try {
+      if (!req.isAuthenticated() || !req.user) {
+        return sendError(res, 401, "Authentication required");
+      }
+
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 100, 1), 500);
+      const transactions = await storage.getCreditTransactions(req.user.id, limit);
+      const balances = await storage.getAllUserCredits(req.user.id);
+
+      res.json({
+        unlimited: hasUnlimitedCredits(req.user),
+        balances: Object.fromEntries(balances.map(b => [b.provider, b.credits])),
+        entries: transactions.map(t => {
+          const metadata = (t.metadata || {}) as Record<string, any>;
+          return {
+            id: t.id,
+            createdAt: t.createdAt,
+            provider: t.provider,
+            type: t.transactionType,
+            status: t.status,
+            credits: t.credits,
+            delta: ledgerDelta(t),
+            feature: metadata.feature,
+            estimatedCredits: metadata.estimatedCredits,
+            llmCalls: metadata.llmCalls,
+            amountCents: t.amount,
+            metadata
+          };
+        })
+      });
+    } catch (error: any) {
+      console.error("Error fetching credit ledger:", error);
+      sendError(res, 500, "Error fetching credit ledger");
     }
   });
 }
@@ -0,0 +1,488 @@
+import type { Express, Request, Response } from "express";
+import { requireAuth, hasPermission, canAccessJob } from "../lib/rbac";
+import { sendError } from "../lib/httpErrors";
+import type { PipelineStageDefinition } from "@shared/schema";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FULL PIPELINE CROSS-CHUNK COHERENCE (FPCC) ROUTES
+// Default: Reconstruction → Objections → Responses → Bullet-proof.
+// `stages` in the request body replaces it with a PipelineStageDefinition[].
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function registerPipelineRoutes(app: Express) {
+  // Start a new pipeline job (synchronous: waits for job creation before responding)
+  app.post("/api/pipeline/start", async (req: Request, res: Response) => {
+    try {
+      const { text, customInstructions, targetAudience, objective, stages: stagesParam, pauseForTriage } = req.body;
+
+      if (!text) {
+        return sendError(res, 400, "Text is required");
+      }
+
+      const wordCount = text.trim().split(/\s+/).filter((w: string) => w).length;
+      if (wordCount < 100) {
+        return sendError(res, 400, "Text must be at least 100 words");
+      }
+
+      const { pipelineJobs, DEFAULT_PIPELINE_STAGES } = await import('@shared/schema');
+      const { db } = await import('../db');
+      const { validatePipelineStages } = await import('../services/pipelineOrchestrator');
+      const { enqueueRequestJob } = await import('../services/jobQueue');
+
+      const stages = stagesParam || DEFAULT_PIPELINE_STAGES;
+      const stageErrors = validatePipelineStages(stages);
+      if (stageErrors.length > 0) {
+        return sendError(res, 400, "Invalid pipeline stages", { errors: stageErrors });
+      }
+
+      const userId = req.isAuthenticated() && req.user ? req.user.id : undefined;
+
+      // Create job first to get the ID
+      const [job] = await db.insert(pipelineJobs).values({
+        userId,
+        originalText: text,
+        originalWordCount: wordCount,
+        customInstructions,
+        targetAudience,
+        objective,
+        stageDefinitions: stages,
+        totalStages: stages.length,
+        pauseForTriage: !!pauseForTriage,
+        status: 'queued',
+        currentStage: 1,
+        stageStatus: 'pending'
+      }).returning();
+
+      // The job worker runs it; the credit reservation is settled when it ends
+      await enqueueRequestJob(res, { jobType: 'pipeline', targetId: job.id, userId });
+
+      res.json({
+        success: true,
+        message: "Pipeline started. Use the job ID to poll for status.",
+        jobId: job.id,
+        wordCount,
+        started: true
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] Start error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Start pipeline with immediate job ID return
+  app.post("/api/pipeline/create", async (req: Request, res: Response) => {
+    try {
+      const { text, customInstructions, targetAudience, objective, stages: stagesParam, pauseForTriage } = req.body;
+
+      if (!text) {
+        return sendError(res, 400, "Text is required");
+      }
+
+      const wordCount = text.trim().split(/\s+/).filter((w: string) => w).length;
+      if (wordCount < 100) {
+        return sendError(res, 400, "Text must be at least 100 words");
+      }
+
+      const { pipelineJobs, DEFAULT_PIPELINE_STAGES } = await import('@shared/schema');
+      const { db } = await import('../db');
+      const { validatePipelineStages } = await import('../services/pipelineOrchestrator');
+
+      const stages = stagesParam || DEFAULT_PIPELINE_STAGES;
+      const stageErrors = validatePipelineStages(stages);
+      if (stageErrors.length > 0) {
+        return sendError(res, 400, "Invalid pipeline stages", { errors: stageErrors });
+      }
+
+      const userId = req.isAuthenticated() && req.user ? req.user.id : undefined;
+
+      const [job] = await db.insert(pipelineJobs).values({
+        userId,
+        originalText: text,
+        originalWordCount: wordCount,
+        customInstructions,
+        targetAudience,
+        objective,
+        stageDefinitions: stages,
+        totalStages: stages.length,
+        pauseForTriage: !!pauseForTriage,
+        status: 'pending',
+        currentStage: 1,
+        stageStatus: 'pending'
+      }).returning();
+
+      res.json({
+        success: true,
+        jobId: job.id,
+        wordCount,
+        message: "Pipeline job created. Call /api/pipeline/run/:jobId to start processing."
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] Create error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Run a created pipeline job
+  app.post("/api/pipeline/run/:jobId", async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+
+      const { pipelineJobs } = await import('@shared/schema');
+      const { db } = await import('../db');
+      const { eq, and } = await import('drizzle-orm');
+
+      const [job] = await db.select().from(pipelineJobs).where(eq(pipelineJobs.id, jobId));
+
+      if (!job) {
+        return sendError(res, 404, "Job not found");
+      }
+
+      if (job.status !== 'pending') {
+        return sendError(res, 400, `Job is already ${job.status}`);
+      }
+
+      const { enqueueRequestJob } = await import('../services/jobQueue');
+
+      // Claim the job before enqueueing so a repeated request cannot queue it twice
+      const [claimed] = await db.update(pipelineJobs)
+        .set({ status: 'queued', updatedAt: new Date() })
+        .where(and(eq(pipelineJobs.id, jobId), eq(pipelineJobs.status, 'pending')))
+        .returning({ id: pipelineJobs.id });
+      if (!claimed) {
+        return sendError(res, 409, "Job was started by another request");
+      }
+
+      await enqueueRequestJob(res, { jobType: 'pipeline', targetId: jobId, userId: job.userId });
+
+      res.json({
+        success: true,
+        jobId,
+        message: "Pipeline job queued. Poll /api/pipeline/status/:jobId for progress."
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] Run error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Get pipeline job status
+  app.get("/api/pipeline/status/:jobId", async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+
+      const { getPipelineStatus, getPipelineObjections, getPipelineStageRuns } = await import('../services/pipelineOrchestrator');
+
+      const job = await getPipelineStatus(jobId);
+
+      if (!job) {
+        return sendError(res, 404, "Job not found");
+      }
+
+      const { getQueueEntry } = await import('../services/jobQueue');
+
+      const { DEFAULT_PIPELINE_STAGES } = await import('@shared/schema');
+
+      const objections = await getPipelineObjections(jobId);
+      const stageRuns = await getPipelineStageRuns(jobId);
+      const queueEntry = await getQueueEntry('pipeline', jobId);
+      // Every stage of the job's composition, including those not yet run
+      const definitions = (job.stageDefinitions as PipelineStageDefinition[] | null) || DEFAULT_PIPELINE_STAGES;
+
+      res.json({
+        success: true,
+        job: {
+          id: job.id,
+          status: job.status,
+          currentStage: job.currentStage,
+          stageStatus: job.stageStatus,
+          wordCounts: {
+            original: job.originalWordCount,
+            reconstruction: job.reconstructionWords,
+            objections: job.objectionsWords,
+            responses: job.responsesWords,
+            bulletproof: job.bulletproofWords
+          },
+          totalStages: job.totalStages,
+          stages: definitions.map((definition, i) => {
+            const run = stageRuns.find(r => r.stageIndex === i + 1);
+            return {
+              index: i + 1,
+              name: definition.name,
+              label: definition.label || definition.name,
+              skeletonType: definition.skeletonType,
+              status: run?.status || 'pending',
+              words: run?.outputWords ?? null,
+              start: run?.startTime ?? null,
+              end: run?.endTime ?? null,
+              errorMessage: run?.errorMessage ?? null
+            };
+          }),
+          timing: {
+            hcCheck: job.hcCheckTime
+          },
+          hcResults: job.hcCheckResults,
+          hcViolations: job.hcViolations,
+          pauseForTriage: job.pauseForTriage,
+          awaitingTriage: job.status === 'paused' && job.stageStatus === 'awaiting_triage',
+          errorMessage: job.errorMessage,
+          queue: queueEntry && {
+            status: queueEntry.status,
+            attempts: queueEntry.attempts,
+            maxAttempts: queueEntry.maxAttempts,
+            nextAttemptAt: queueEntry.status === 'queued' ? queueEntry.runAfter : null,
+            lastError: queueEntry.lastError
+          }
+        },
+        objections: objections.map(o => ({
+          index: o.objectionIndex,
+          type: o.objectionType,
+          severity: o.severity,
+          claimTargeted: o.claimTargeted,
+          hasResponse: !!o.initialResponse,
+          hasEnhancedResponse: !!o.enhancedResponse,
+          integrated: o.integrationVerified,
+          integrationStatus: o.integrationStatus,
+          excluded: o.excluded,
+          integrationStrategy: o.integrationStrategy
+        }))
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] Status error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Get pipeline outputs
+  app.get("/api/pipeline/outputs/:jobId", async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+
+      const { getPipelineStatus, getPipelineObjections, getPipelineStageRuns } = await import('../services/pipelineOrchestrator');
+      const { buildIntegrationReport } = await import('../services/integrationVerifier');
+
+      const job = await getPipelineStatus(jobId);
+
+      if (!job) {
+        return sendError(res, 404, "Job not found");
+      }
+
+      const objections = await getPipelineObjections(jobId);
+      const stageRuns = await getPipelineStageRuns(jobId);
+
+      res.json({
+        success: true,
+        stageOutputs: stageRuns.map(run => ({
+          index: run.stageIndex,
+          name: run.stageName,
+          skeletonType: run.skeletonType,
+          output: run.output
+        })),
+        reconstruction: job.reconstructionOutput,
+        objections: job.objectionsOutput,
+        responses: job.responsesOutput,
+        bulletproof: job.bulletproofOutput,
+        objectionsDetail: objections.map(o => ({
+          index: o.objectionIndex,
+          claimTargeted: o.claimTargeted,
+          claimLocation: o.claimLocation,
+          type: o.objectionType,
+          severity: o.severity,
+          objection: o.objectionText,
+          initialResponse: o.initialResponse,
+          enhancedResponse: o.enhancedResponse,
+          integratedIn: o.integratedInSection,
+          integrationStrategy: o.integrationStrategy,
+          integrationStatus: o.integrationStatus,
+          excluded: o.excluded,
+          userEdited: o.userEdited
+        })),
+        // Per-objection traceability into the bullet-proof text, once it exists
+        integrationReport: job.bulletproofOutput ? buildIntegrationReport(objections) : null,
+        hcCheck: job.hcCheckResults,
+        skeleton1: job.skeleton1,
+        skeleton2: job.skeleton2,
+        skeleton3: job.skeleton3,
+        skeleton4: job.skeleton4
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] Outputs error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Resume a paused/failed pipeline: it is queued again and continues after its last completed stage.
+  // A job waiting for objection triage continues through /triage instead.
+  app.post("/api/pipeline/resume/:jobId", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+
+      const { pipelineJobs } = await import('@shared/schema');
+      const { db } = await import('../db');
+      const { eq, and, or, ne, isNull, inArray } = await import('drizzle-orm');
+      const { enqueueRequestJob } = await import('../services/jobQueue');
+
+      const [job] = await db.select().from(pipelineJobs).where(eq(pipelineJobs.id, jobId));
+      // Someone else's job is reported as missing rather than forbidden
+      if (!job || !canAccessJob(req.user, job.userId)) {
+        return sendError(res, 404, "Job not found");
+      }
+      if (job.status === 'complete' || job.status === 'completed_with_warnings') {
+        return res.json({ success: true, message: "Pipeline already complete" });
+      }
+      if (job.stageStatus === 'awaiting_triage') {
+        return sendError(res, 409, "Job is waiting for objection triage; continue it through /api/pipeline/triage/:jobId");
+      }
+
+      const [claimed] = await db.update(pipelineJobs)
+        .set({ status: 'queued', updatedAt: new Date() })
+        .where(and(
+          eq(pipelineJobs.id, jobId),
+          inArray(pipelineJobs.status, ['failed', 'paused']),
+          or(isNull(pipelineJobs.stageStatus), ne(pipelineJobs.stageStatus, 'awaiting_triage'))
+        ))
+        .returning({ id: pipelineJobs.id });
+      if (!claimed) {
+        return sendError(res, 409, `Job is ${job.status}; only failed or paused jobs can be resumed`);
+      }
+
+      // The remaining stages are metered like a run: the reservation is settled when the job ends
+      await enqueueRequestJob(res, { jobType: 'pipeline', targetId: jobId, userId: job.userId });
+
+      res.json({
+        success: true,
+        message: "Pipeline resumed"
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] Resume error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // Apply objection triage to a job paused after its objections stage, then queue the remaining stages
+  app.post("/api/pipeline/triage/:jobId", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+
+      const { pipelineJobs, pipelineTriageSchema } = await import('@shared/schema');
+      const validation = pipelineTriageSchema.safeParse(req.body);
+      if (!validation.success) {
+        return sendError(res, 400, "Invalid triage", { errors: validation.error.errors });
+      }
+      const { decisions } = validation.data;
+
+      const { db } = await import('../db');
+      const { eq } = await import('drizzle-orm');
+      const { getPipelineObjections, applyObjectionTriage } = await import('../services/pipelineOrchestrator');
+      const { enqueueRequestJob } = await import('../services/jobQueue');
+
+      const [job] = await db.select().from(pipelineJobs).where(eq(pipelineJobs.id, jobId));
+      // Someone else's job is reported as missing rather than forbidden
+      if (!job || !canAccessJob(req.user, job.userId)) {
+        return sendError(res, 404, "Job not found");
+      }
+      if (job.status !== 'paused' || job.stageStatus !== 'awaiting_triage') {
+        return sendError(res, 409, "Job is not waiting for objection triage");
+      }
+
+      const objections = await getPipelineObjections(jobId);
+      const unknown = decisions.filter(d => !objections.some(o => o.objectionIndex === d.index)).map(d => d.index);
+      if (unknown.length > 0) {
+        return sendError(res, 400, `Unknown objections: ${unknown.join(', ')}`);
+      }
+      const kept = objections.filter(o => !(decisions.find(d => d.index === o.objectionIndex)?.excluded ?? o.excluded));
+      if (kept.length === 0) {
+        return sendError(res, 400, "At least one objection must be kept");
+      }
+
+      // Queues the job in the same transaction; false when another request got there first
+      if (!await applyObjectionTriage(jobId, decisions)) {
+        return sendError(res, 409, "Job was resumed by another request");
+      }
+
+      // The remaining stages are metered like a run: the reservation is settled when the job ends
+      await enqueueRequestJob(res, { jobType: 'pipeline', targetId: jobId, userId: job.userId });
+
+      res.json({
+        success: true,
+        message: `Triage applied; continuing with ${kept.length} of ${objections.length} objections`,
+        kept: kept.length
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] Triage error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // ─── LLM replay ──────────────────────────────────────────────────────────
+  // Re-run a recorded job against its logged LLM responses (no provider calls)
+  // and report whether each output matches the original run
+  app.post("/api/replay/:jobType/:jobId", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const { REPLAY_JOB_TYPES, getReplaySourceOwner, replayPipelineJob, replayReconstructionProject, replayHccDocument } = await import('../services/llmReplay');
+
+      const jobType = REPLAY_JOB_TYPES.find(type => type === req.params.jobType);
+      if (!jobType) {
+        return sendError(res, 400, `Unknown replay job type: ${req.params.jobType}`);
+      }
+      // Someone else's job is reported as missing rather than forbidden
+      const ownerId = isNaN(jobId) ? undefined : await getReplaySourceOwner(jobType, jobId);
+      if (ownerId === undefined || !canAccessJob(req.user, ownerId)) {
+        return sendError(res, 404, "Job not found");
+      }
+
+      let outcome;
+      switch (jobType) {
+        case 'pipeline': outcome = await replayPipelineJob(jobId); break;
+        case 'reconstruction': outcome = await replayReconstructionProject(jobId); break;
+        case 'hcc': outcome = await replayHccDocument(jobId); break;
+      }
+
+      res.json({ success: outcome.success, outcome });
+
+    } catch (error: any) {
+      console.error("[Replay API] Error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // List pipeline jobs: the current user's, or everyone's for jobs:read_all
+  app.get("/api/pipeline/list", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const { pipelineJobs } = await import('@shared/schema');
+      const { db } = await import('../db');
+      const { eq, desc } = await import('drizzle-orm');
+
+      const allUsers = req.query.scope === 'all' && hasPermission(req.user, 'jobs:read_all');
+      const query = db.select({
+        id: pipelineJobs.id,
+        userId: pipelineJobs.userId,
+        status: pipelineJobs.status,
+        currentStage: pipelineJobs.currentStage,
+        originalWordCount: pipelineJobs.originalWordCount,
+        createdAt: pipelineJobs.createdAt
+      })
+      .from(pipelineJobs);
+
+      const jobs = await (allUsers ? query : query.where(eq(pipelineJobs.userId, req.user!.id)))
+        .orderBy(desc(pipelineJobs.createdAt))
+        .limit(allUsers ? 50 : 20);
+
+      res.json({
+        success: true,
+        jobs
+      });
+
+    } catch (error: any) {
+      console.error("[Pipeline API] List error:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
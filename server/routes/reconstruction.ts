@@ -0,0 +1,250 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "../storage";
+import { createSession, followReconstructionSession, abortSession, getPartialOutput } from "../services/dbEnforcedReconstruction";
+import { enqueueRequestJob } from "../services/jobQueue";
+import { holdCredits } from "../lib/creditMetering";
+import { requireAuth, canAccessJob } from "../lib/rbac";
+import { sendError } from "../lib/httpErrors";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECONSTRUCTION ROUTES
+// Background reconstruction projects, the DB-enforced SSE reconstruction
+// stream for long documents, and queued HCC reconstruction of book-length
+// documents.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function registerReconstructionRoutes(app: Express) {
+  // Conservative Reconstruction endpoint - creates project and triggers processing
+  app.post("/api/reconstruction/start", async (req: Request, res: Response) => {
+    try {
+      const { text, title, targetWordCount, customInstructions } = req.body;
+      
+      if (!text || typeof text !== 'string' || text.trim().length === 0) {
+        return sendError(res, 400, "Text content is required for reconstruction");
+      }
+      
+      const userId = (req.user as any)?.id;
+      const project = await storage.createReconstructionProject({
+        userId,
+        title: title || "Untitled Reconstruction",
+        originalText: text,
+        targetWordCount: targetWordCount || 500,
+        customInstructions,
+        status: "processing"
+      });
+      
+      console.log(`[Reconstruction] Created project ${project.id}: "${project.title}" (${text.split(/\s+/).length} words)`);
+      
+      // Trigger async reconstruction processing; LLM calls are recorded against the project for replay
+      const { runWithLLMContext } = await import('../services/llmContext');
+      const credits = holdCredits(res);
+      runWithLLMContext({ mode: 'record', jobId: project.id, jobType: 'reconstruction_project', userId }, async () => {
+        try {
+          const { crossChunkReconstruct } = await import('../services/crossChunkCoherence');
+          
+          const result = await crossChunkReconstruct(
+            text,
+            customInstructions || `Expand to approximately ${targetWordCount} words while preserving the original argument structure.`,
+            'anthropic'
+          );
+          
+          // Update project with results
+          await storage.updateReconstructionProject(project.id, {
+            reconstructedText: result.reconstructedText,
+            status: 'completed'
+          });
+          
+          console.log(`[Reconstruction] Completed project ${project.id}: ${result.reconstructedText.split(/\s+/).length} words`);
+          await credits.settle();
+        } catch (error: any) {
+          console.error(`[Reconstruction] Failed project ${project.id}:`, error.message);
+          await storage.updateReconstructionProject(project.id, {
+            status: 'failed'
+          });
+          await credits.refund(error.message);
+        }
+      });
+      
+      res.json(project);
+    } catch (error: any) {
+      console.error("Error starting reconstruction:", error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.get("/api/reconstruction/:id", async (req: Request, res: Response) => {
+    try {
+      const project = await storage.getReconstructionProject(parseInt(req.params.id));
+      if (!project) return sendError(res, 404, "Project not found");
+      res.json(project);
+    } catch (error: any) {
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.post("/api/reconstruction/:id/update", async (req: Request, res: Response) => {
+    try {
+      const project = await storage.updateReconstructionProject(parseInt(req.params.id), req.body);
+      res.json(project);
+    } catch (error: any) {
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // SSE Streaming Reconstruction endpoint for long documents (>= 1000 words)
+  app.post("/api/reconstruction/stream", async (req: Request, res: Response) => {
+    try {
+      const { text, customInstructions, audienceParameters, rigorLevel } = req.body;
+      
+      if (!text) {
+        return sendError(res, 400, "Text is required");
+      }
+      
+      const wordCount = text.trim().split(/\s+/).length;
+      if (wordCount < 1000) {
+        return sendError(res, 400, `Document too short for streaming (${wordCount} words). Use standard endpoint for documents < 1000 words.`);
+      }
+      
+      console.log(`[SSE] Starting streaming reconstruction for ${wordCount} word document`);
+      
+      // The job worker runs the session; this response only follows its progress
+      // in the database, so a dropped connection or a restart does not lose the work
+      const userId = req.isAuthenticated() && req.user ? req.user.id : undefined;
+      const sessionId = await createSession(text, customInstructions, audienceParameters, rigorLevel, userId);
+      await enqueueRequestJob(res, { jobType: 'reconstruction', targetId: sessionId, userId });
+      
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+      
+      const sendEvent = (event: string, data: any) => {
+        res.write(`event: ${event}\n`);
+        res.write(`data: ${JSON.stringify(data)}\n\n`);
+      };
+      
+      let disconnected = false;
+      res.on('close', () => { disconnected = true; });
+      
+      try {
+        const result = await followReconstructionSession(
+          sessionId,
+          (progress) => {
+            sendEvent('progress', progress);
+          },
+          () => disconnected
+        );
+        
+        if (!result) {
+          console.log(`[SSE] Client left session ${sessionId}; the worker carries on`);
+          return;
+        }
+        
+        if (result.wasAborted) {
+          sendEvent('aborted', {
+            sessionId: result.sessionId,
+            partialOutput: result.reconstructedText,
+            chunksProcessed: result.chunksProcessed
+          });
+        } else {
+          sendEvent('complete', {
+            success: true,
+            sessionId: result.sessionId,
+            output: result.reconstructedText,
+            wordCount: result.wordCount,
+            chunksProcessed: result.chunksProcessed,
+            stitchResult: result.stitchResult
+          });
+        }
+      } catch (error: any) {
+        sendEvent('error', { message: error.message });
+      }
+      
+      res.end();
+      
+    } catch (error: any) {
+      console.error('[SSE] Stream error:', error);
+      if (!res.headersSent) {
+        sendError(res, 500, error.message);
+      } else {
+        res.write(`event: error\ndata: ${JSON.stringify({ message: error.message })}\n\n`);
+        res.end();
+      }
+    }
+  });
+
+  // Abort streaming reconstruction session
+  app.post("/api/reconstruction/abort/:sessionId", async (req: Request, res: Response) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        return sendError(res, 400, "Invalid session ID");
+      }
+      
+      await abortSession(sessionId);
+      const partialOutput = await getPartialOutput(sessionId);
+      
+      res.json({
+        success: true,
+        sessionId,
+        partialOutput,
+        wordCount: partialOutput.trim().split(/\s+/).length
+      });
+    } catch (error: any) {
+      console.error('[Abort] Error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  // HCC (hierarchical) reconstruction: the document is stored and the job
+  // worker processes it part by part and chapter by chapter
+  app.post("/api/hcc", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const { text, customInstructions } = req.body;
+      const { createHccDocument, countWords, MAX_HCC_WORDS } = await import('../services/hccService');
+      
+      const wordCount = countWords(text);
+      if (wordCount > MAX_HCC_WORDS) {
+        return sendError(res, 400, `Document exceeds ${MAX_HCC_WORDS} word limit (got ${wordCount})`);
+      }
+      
+      const userId = req.user!.id;
+      const created = await createHccDocument(text, customInstructions || null, userId);
+      if (!created.documentId) {
+        return sendError(res, 500, created.error || "Failed to store the document");
+      }
+      await enqueueRequestJob(res, { jobType: 'hcc', targetId: created.documentId, userId });
+      console.log(`[HCC] Queued document ${created.documentId} (${wordCount} words)`);
+      
+      res.status(202).json({ success: true, documentId: created.documentId, status: 'queued', wordCount });
+    } catch (error: any) {
+      console.error('[HCC] Queue error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+
+  app.get("/api/hcc/:documentId", requireAuth(), async (req: Request, res: Response) => {
+    try {
+      const documentId = parseInt(req.params.documentId);
+      const { getHccDocument } = await import('../services/hccService');
+      const doc = await getHccDocument(documentId);
+      if (!doc || !canAccessJob(req.user, doc.userId)) {
+        return sendError(res, 404, "Document not found");
+      }
+      
+      res.json({
+        success: true,
+        documentId: doc.id,
+        status: doc.status,
+        wordCount: doc.wordCount,
+        targetMinWords: doc.targetMinWords,
+        targetMaxWords: doc.targetMaxWords,
+        output: doc.finalOutput
+      });
+    } catch (error: any) {
+      console.error('[HCC] Status error:', error);
+      sendError(res, 500, error.message);
+    }
+  });
+}
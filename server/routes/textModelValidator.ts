@@ -0,0 +1,1616 @@
+import type { Express, Request, Response } from "express";
+import { sendError } from "../lib/httpErrors";
+import { completeChat } from "../services/llmProviders";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TEXT MODEL VALIDATOR ROUTES
+// Reconstruction, isomorphism and math-model modes, objections and
+// objection-proof rewrites, and output refinement.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ZHI provider labels → registry provider and model for the validator modes
+const VALIDATOR_PROVIDERS: Record<string, { name: string; model: string }> = {
+  zhi1: { name: 'openai', model: 'gpt-4o' },
+  zhi2: { name: 'anthropic', model: 'claude-3-7-sonnet-20250219' },
+  zhi3: { name: 'deepseek', model: 'deepseek-chat' },
+  zhi4: { name: 'perplexity', model: 'sonar-pro' },
+  zhi5: { name: 'grok', model: 'grok-3' }
+};
+
+export function registerTextModelValidatorRoutes(app: Express) {
+  // Text Model Validator endpoint
+  // NEUROTEXT REQUIREMENT: Allow instructions-only mode
+  app.post("/api/text-model-validator", async (req: Request, res: Response) => {
+    try {
+      const { text, mode, targetDomain, fidelityLevel, mathFramework, constraintType, rigorLevel, customInstructions, truthMapping, mathTruthMapping, literalTruth, llmProvider, instructionsOnly } = req.body;
+
+      // NEUROTEXT: Allow instructions-only mode - text OR customInstructions is sufficient
+      const hasText = text && text.trim().length > 0;
+      const hasInstructions = customInstructions && customInstructions.trim().length > 0;
+      
+      if (!mode) {
+        return sendError(res, 400, "Mode is required");
+      }
+      
+      if (!hasText && !hasInstructions) {
+        return sendError(res, 400, "Text or instructions are required");
+      }
+      
+      // Use effective text - if no text but has instructions, use instructions as text for processing
+      const effectiveText = hasText ? text : customInstructions;
+      
+      // NEUROTEXT CORE RULE: AUTO-EXPAND when no instructions provided
+      // Count input words to determine expansion behavior
+      const inputWordCount = effectiveText.trim().split(/\s+/).length;
+      
+      // AUTO-GENERATE INSTRUCTIONS when user provides text but no instructions
+      let effectiveInstructions = customInstructions || '';
+      if (hasText && !hasInstructions) {
+        // User provided text but no instructions → AUTO-EXPAND
+        if (inputWordCount < 1000) {
+          // Small input → expand to 5000 words
+          effectiveInstructions = "EXPAND TO 5000 WORDS. Write the maximally good, maximally coherent scholarly version of this text. Add real information, real arguments, real evidence. NO PUFFERY. NO HEDGING. NO FILLER. Every word must carry meaning.";
+          console.log(`[AUTO-EXPAND] Small input (${inputWordCount} words) → auto-expanding to 5000 words`);
+        } else {
+          // Large input → improve and expand by 1.5x
+          const targetWords = Math.ceil(inputWordCount * 1.5);
+          effectiveInstructions = `EXPAND TO ${targetWords} WORDS. Improve this text maximally. Increase length by 1.5x with ACTUAL INFORMATION, real arguments, real evidence, real examples. NO PUFFERY. NO HEDGING. NO FILLER. Every added word must carry substantive meaning.`;
+          console.log(`[AUTO-EXPAND] Large input (${inputWordCount} words) → auto-expanding to ${targetWords} words (1.5x)`);
+        }
+      }
+
+      console.log(`Text Model Validator - Mode: ${mode}, Target Domain: ${targetDomain || 'not specified'}`);
+
+      // Build the prompt based on the mode
+      let systemPrompt = "";
+      let userPrompt = "";
+
+      if (mode === "reconstruction") {
+        // PROTOCOL: User instructions are ALWAYS obeyed. No thresholds. No "simple mode".
+        // Check if user has expansion instructions FIRST - this takes priority over position-list detection
+        // because expansion instructions enable streaming which is critical for large outputs
+        const { hasExpansionInstructions, universalExpand, parseExpansionInstructions, streamChunkToJobEvent } = await import('../services/universalExpansion');
+        const { openJobEvents, publishJobEvent, isValidStreamId } = await import('../services/jobEvents');
+        
+        // Check for streaming mode: chunks become job events for streamId, readable
+        // by the caller over /ws/cc-stream or /api/jobs/:streamId/events
+        const streamId = isValidStreamId(req.query.streamId) ? req.query.streamId : undefined;
+        const streamUserId = req.user?.id;
+        const streamMode = req.query.stream === 'true' && !!streamId && streamUserId !== undefined;
+        
+        if (effectiveInstructions && hasExpansionInstructions(effectiveInstructions)) {
+          const parsedInstructions = parseExpansionInstructions(effectiveInstructions);
+          console.log(`[Universal Expansion] User requested expansion to ${parsedInstructions.targetWordCount} words`);
+          console.log(`[Universal Expansion] Input: ${inputWordCount} words, following user instructions exactly`);
+          console.log(`[Universal Expansion] Stream mode: ${streamMode ? 'ENABLED' : 'disabled'}`);
+          
+          try {
+            const aggressiveness = (fidelityLevel === 'conservative') ? 'conservative' : 'aggressive';
+            
+            // Create onChunk callback for streaming if enabled
+            if (streamMode) {
+              openJobEvents(streamUserId!, streamId!);
+              publishJobEvent(streamUserId!, streamId!, { type: 'started', targetWords: parsedInstructions.targetWordCount ?? undefined });
+            }
+            const onChunk = streamMode ? (chunk: any) => {
+              console.log(`[Stream] Broadcasting: ${chunk.type} - ${chunk.message || chunk.sectionTitle || 'progress'}`);
+              publishJobEvent(streamUserId!, streamId!, streamChunkToJobEvent(chunk));
+            } : undefined;
+            
+            const result = await universalExpand({
+              text: effectiveText,
+              customInstructions: effectiveInstructions,
+              aggressiveness,
+              onChunk
+            });
+            
+            // Log diagnostics to console only - output is clean essay text
+            console.log(`[Universal Expansion] Complete: ${result.inputWordCount} → ${result.outputWordCount} words`);
+            console.log(`[Universal Expansion] Mode: Universal Expansion, Aggressiveness: ${aggressiveness}`);
+            console.log(`[Universal Expansion] Sections: ${result.sectionsGenerated}, Time: ${Math.round(result.processingTimeMs / 1000)}s`);
+            
+            return res.json({
+              success: true,
+              output: result.expandedText,
+              mode: mode,
+              inputWordCount: result.inputWordCount,
+              outputWordCount: result.outputWordCount,
+              reconstructionMethod: 'universal-expansion',
+              sectionsGenerated: result.sectionsGenerated,
+              processingTimeMs: result.processingTimeMs
+            });
+          } catch (ueError: any) {
+            console.error('[Universal Expansion] Error:', ueError);
+            if (streamMode) {
+              publishJobEvent(streamUserId!, streamId!, { type: 'failed', message: ueError.message });
+            }
+            return sendError(res, 500, `Universal expansion failed: ${ueError.message}`);
+          }
+        }
+        
+        // Check if this is a position list (pipe-delimited format) - checked AFTER expansion instructions
+        // so that expansion instructions take priority for streaming support
+        const { isPositionList, processPositionList } = await import('../services/positionListReconstruction');
+        if (isPositionList(effectiveText)) {
+          console.log(`[Position-List] Detected structured position list input`);
+          try {
+            const result = await processPositionList(effectiveText, effectiveInstructions);
+            
+            if (!result.success) {
+              return sendError(res, 500, result.error || 'Position list processing failed');
+            }
+            
+            return res.json({
+              success: true,
+              output: result.output,
+              mode: mode,
+              reconstructionMethod: 'position-list',
+              positionsProcessed: result.positionsProcessed,
+              positionsSelected: result.positionsSelected,
+              totalPositions: result.totalPositions
+            });
+          } catch (plError: any) {
+            console.error('[Position-List] Error:', plError);
+            return sendError(res, 500, `Position list processing failed: ${plError.message}`);
+          }
+        }
+        
+        // Import the utility functions to determine the best method
+        const { shouldUseOutlineFirst, getRecommendedMethod } = await import('../services/outlineFirstReconstruction');
+        const recommendedMethod = getRecommendedMethod(inputWordCount);
+        console.log(`[Reconstruction] Document: ${inputWordCount} words, recommended method: ${recommendedMethod}`);
+        
+        // For medium-length documents (1200-25000 words), use Outline-First Reconstruction
+        // This extracts a strict outline first, then reconstructs section-by-section
+        // for global coherence (solving the "Frankenstein problem")
+        // For very long documents (>25000 words), use cross-chunk approach instead
+        if (shouldUseOutlineFirst(inputWordCount)) {
+          console.log(`[Outline-First] Processing medium document: ${inputWordCount} words`);
+          try {
+            const { outlineFirstReconstruct } = await import('../services/outlineFirstReconstruction');
+            
+            const aggressiveness = (fidelityLevel === 'conservative') ? 'conservative' : 'aggressive';
+            
+            const result = await outlineFirstReconstruct(
+              effectiveText,
+              effectiveInstructions,
+              aggressiveness
+            );
+            
+            // Log diagnostics to console only - output is clean essay text
+            console.log(`[Outline-First] Complete: ${result.processingStats.inputWords} → ${result.processingStats.outputWords} words`);
+            console.log(`[Outline-First] Mode: Outline-First, Aggressiveness: ${aggressiveness}`);
+            console.log(`[Outline-First] Sections: ${result.processingStats.sectionsProcessed}, Time: ${Math.round(result.processingStats.timeMs / 1000)}s`);
+            console.log(`[Outline-First] Outline thesis: ${result.outline.thesis}`);
+            
+            return res.json({
+              success: true,
+              output: result.reconstructedText,
+              mode: mode,
+              inputWordCount: result.processingStats.inputWords,
+              outputWordCount: result.processingStats.outputWords,
+              outline: result.outline,
+              sectionsProcessed: result.processingStats.sectionsProcessed,
+              processingTimeMs: result.processingStats.timeMs
+            });
+          } catch (ofError: any) {
+            console.error('[Outline-First] Error:', ofError);
+            return sendError(res, 500, `Outline-first reconstruction failed: ${ofError.message}`);
+          }
+        }
+        
+        // For very long documents (>25000 words), use cross-chunk reconstruction
+        // This processes documents in chunks with global skeleton constraints
+        if (inputWordCount > 25000) {
+          console.log(`[Cross-Chunk] Processing very long document: ${inputWordCount} words`);
+          try {
+            const { crossChunkReconstruct } = await import('../services/crossChunkCoherence');
+            
+            // crossChunkReconstruct(effectiveText, audienceParameters, rigorLevel, customInstructions, contentAnalysis)
+            const result = await crossChunkReconstruct(
+              effectiveText,
+              undefined, // audienceParameters
+              fidelityLevel || 'aggressive', // rigorLevel  
+              effectiveInstructions,
+              undefined // contentAnalysis
+            );
+            
+            // Log diagnostics to console only - output is clean essay text
+            console.log(`[Cross-Chunk] Complete: ${result.chunksProcessed || 0} chunks processed`);
+            console.log(`[Cross-Chunk] Mode: Cross-Chunk, Document length: ${inputWordCount} words`);
+            
+            return res.json({
+              success: true,
+              output: result.reconstructedText,
+              mode: mode,
+              inputWordCount: inputWordCount,
+              reconstructionMethod: 'cross-chunk',
+              chunksProcessed: result.chunksProcessed
+            });
+          } catch (ccError: any) {
+            console.error('[Cross-Chunk] Error:', ccError);
+            return sendError(res, 500, `Cross-chunk reconstruction failed: ${ccError.message}`);
+          }
+        }
+        
+        // NEUROTEXT CRITICAL: If user provides instructions (explicit or auto-generated), FOLLOW THEM EXACTLY
+        // Instructions OVERRIDE default reconstruction behavior completely
+        if (effectiveInstructions && effectiveInstructions.trim().length > 0) {
+          systemPrompt = `You are an intelligent text transformer. You MUST follow the user's instructions EXACTLY.
+
+YOUR ONLY JOB: Do EXACTLY what the user instructs. Their instructions are your PRIMARY directive.
+
+If they say "turn into a one-man play" - produce a one-man play.
+If they say "expand to 5000 words" - produce 5000 words.
+If they say "write as a poem" - produce a poem.
+If they say "make into a legal document" - produce a legal document.
+
+CORE RULES:
+- NEVER use puffery or filler text
+- NEVER hedge or qualify unnecessarily  
+- Every word must carry substantive meaning
+- Add REAL information, arguments, and evidence
+- Follow the user's format exactly
+
+DO NOT:
+- Add outlines or academic structure unless instructed
+- Produce academic format unless instructed
+- Add diagnosis or key terms unless instructed
+- Override the user's format with your own preferences
+- Use hedging language like "may", "might", "perhaps", "arguably"
+- Add filler or decorative language
+
+CRITICAL: The user's instruction is LAW. Follow it exactly.
+CRITICAL: NO markdown formatting (no # headers, no ** bold **, no * italics *). Use plain text only.`;
+
+          userPrompt = `USER INSTRUCTION: ${effectiveInstructions}
+
+INPUT TEXT TO TRANSFORM:
+${effectiveText}
+
+${targetDomain ? `Domain context: ${targetDomain}` : ''}
+
+EXECUTE THE USER'S INSTRUCTION EXACTLY. Produce output in the format they requested.`;
+
+          // Skip the default reconstruction prompts
+        } else if (fidelityLevel === 'conservative') {
+          systemPrompt = `You are a RECONSTRUCTOR. You diagnose what's wrong with an argument, create a structured outline, and then fix THAT SPECIFIC THING.
+
+FIRST: DIAGNOSE the problem. The text has ONE of these issues:
+
+A. VAGUE CLAIM → Make it clear and specific
+B. WEAK ARGUMENT → Make it strong (add the missing logical step or evidence)
+C. FALSE CLAIM → Find the closest TRUE claim and defend that instead
+D. GOOD BUT OBSCURE/IMPLICIT → Make the reasoning clear and explicit
+E. NEEDS EMPIRICAL SUPPORT → Provide the empirical argument (data, examples, studies)
+F. ELLIPTICAL (skips steps) → Fill in the missing steps
+
+SECOND: Create a structured OUTLINE showing:
+- Core thesis being defended
+- Key points and their logical flow
+- Key terms that need precision
+- Global constraints on interpretation
+
+THIRD: Fix the diagnosed problem. Do ONLY that. Don't redecorate.
+
+WHAT "FIX" MEANS:
+- If vague: state exactly what is meant
+- If weak: add the missing premise or evidence that makes it strong
+- If false: identify the closest true version and argue for that
+- If implicit: spell out what was left unsaid
+- If needs empirical support: provide specific data/examples
+- If elliptical: insert the skipped logical steps
+
+DO NOT:
+- Add fancy vocabulary
+- Expand for the sake of length
+- Add hedging or qualifications
+- Rewrite what already works
+- Sound "more academic"
+
+The output should read like what the author WOULD have written if they were clearer thinkers—same voice, same intent, but with the reasoning fixed.
+
+CRITICAL: NO markdown formatting (no # headers, no ** bold **, no * italics *). Use plain text only.`;
+
+          userPrompt = `RECONSTRUCT THIS TEXT
+
+${effectiveText}
+
+${targetDomain ? `Domain context: ${targetDomain}` : ''}
+${customInstructions ? `\nUser instructions: ${customInstructions}` : ''}
+
+STEP 1 - DIAGNOSE (state this briefly):
+What type of problem does this text have?
+- Vague claim?
+- Weak argument?
+- False claim (needs true substitute)?
+- Good but obscure/implicit?
+- Needs empirical support?
+- Elliptical (skips steps)?
+
+STEP 2 - OUTLINE (required for transparency):
+Create a structured outline showing:
+- THESIS: The core claim being defended
+- KEY POINTS: Main arguments and their logical flow
+- KEY TERMS: Important concepts that need precision
+- CONSTRAINTS: Global interpretive constraints
+
+STEP 3 - DOCUMENT REWRITE:
+Fix the diagnosed problem. Output the improved version.
+
+FORMAT:
+DIAGNOSIS: [1-2 sentences identifying the problem type]
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+OUTLINE
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+THESIS: [Core claim]
+KEY POINTS:
+1. [First key point]
+2. [Second key point]
+...
+KEY TERMS: [term1, term2, ...]
+CONSTRAINTS: [Any global interpretive constraints]
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+DOCUMENT REWRITE
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+[The fixed text - same voice as original, but with reasoning repaired]`;
+
+        } else {
+          // AGGRESSIVE MODE - maximum intervention
+          systemPrompt = `You are an AGGRESSIVE RECONSTRUCTOR. You diagnose ALL problems, create a structured outline, and fix everything.
+
+FOR EACH CLAIM OR ARGUMENT IN THE TEXT:
+
+1. VAGUE? → Make it specific and clear
+2. WEAK? → Strengthen with missing logic or evidence  
+3. FALSE? → Replace with the closest true claim
+4. IMPLICIT? → Make explicit
+5. NEEDS DATA? → Add empirical support (real examples, real numbers)
+6. ELLIPTICAL? → Fill in skipped steps
+
+You may need to apply multiple fixes to different parts.
+
+BEFORE REWRITING: Create a structured OUTLINE showing:
+- Core thesis being defended
+- All key points and their logical flow
+- Key terms that need precision
+- Global constraints on interpretation
+
+PROVIDE REAL EVIDENCE:
+- Name specific studies, people, companies, events
+- Use actual numbers and dates
+- If you don't know the real data, say "needs citation" rather than making it up
+
+OUTPUT: First the outline, then the fully reconstructed text. Same voice as original but with all reasoning problems fixed.
+
+Do NOT add academic bloat or decorative language.
+
+CRITICAL: NO markdown formatting (no # headers, no ** bold **, no * italics *). Use plain text only.`;
+        
+          userPrompt = `AGGRESSIVELY RECONSTRUCT THIS TEXT
+
+${effectiveText}
+
+${targetDomain ? `Domain: ${targetDomain}` : ''}
+${customInstructions ? `\nUser instructions: ${customInstructions}` : ''}
+
+Fix every problem you find:
+- Vague claims → specific claims
+- Weak arguments → strong arguments
+- False claims → closest true claims
+- Implicit reasoning → explicit reasoning
+- Missing evidence → real empirical support
+- Elliptical steps → filled-in steps
+
+FORMAT (required for transparency):
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+OUTLINE
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+THESIS: [Core claim being defended]
+KEY POINTS:
+1. [First key point]
+2. [Second key point]
+...
+KEY TERMS: [term1, term2, ...]
+CONSTRAINTS: [Any global interpretive constraints]
+
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+DOCUMENT REWRITE
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+[The fully reconstructed text - same voice as original, but with all reasoning problems fixed]`;
+        }
+
+      } else if (mode === "isomorphism") {
+        systemPrompt = `You are an expert at finding isomorphic structures across domains. You can preserve exact relational structure while systematically swapping domain vocabulary, revealing the non-uniqueness of interpretation.
+
+CRITICAL OUTPUT RULES:
+- NO markdown headers (# or ##)
+- NO markdown formatting
+- Use plain text with clear section labels
+- Natural paragraph formatting only`;
+        
+        userPrompt = `ISOMORPHISM MODE
+
+Text to map:
+${effectiveText}
+
+${targetDomain ? `Target domain: ${targetDomain}` : ''}
+${constraintType ? `Constraint type: ${constraintType}` : ''}
+${customInstructions ? `\nCustom Instructions: ${customInstructions}` : ''}
+
+Task: Preserve the exact relational structure of this text while systematically swapping domain vocabulary. Show that the same pattern exists in ${targetDomain || 'another domain'}.
+
+Provide:
+1. Relation Graph: Map the key dependencies, contradictions, and mutual supports in the original
+2. Isomorphic Version: The same structure expressed in the target domain
+3. Mapping Table: Explicit mappings showing [original term] → [target domain equivalent]
+${constraintType === 'true-statements' ? '4. Truth Verification: Verify that the mapped statements are actually true in the target domain' : ''}
+
+CRITICAL: NO markdown formatting (no # headers, no ** bold **, no * italics *). Use plain text labels like "1. Relation Graph" not "## 1. Relation Graph". Output clean, natural prose.`;
+
+      } else if (mode === "mathmodel") {
+        systemPrompt = `You are an expert logician and model theorist. Your task is to build ACTUAL first-order models - not vague "formalizations" or prose summaries.
+
+A MODEL consists of:
+1. A DOMAIN D (a non-empty set of objects)
+2. An INTERPRETATION function that assigns:
+   - Each constant symbol to an element of D
+   - Each n-ary predicate symbol to a set of n-tuples from D
+   - Each n-ary function symbol to a function from D^n to D
+
+Your job is to EXTRACT the implicit ontology and logical structure from natural language text, formalize it as axioms, and then BUILD an explicit model that satisfies those axioms.
+
+CRITICAL CONSTRAINTS:
+- NO hand-wavy "formalizations" - every symbol must have an explicit interpretation
+- NO trivial one-element domains unless the text genuinely requires it
+- Domain elements should be drawn from the TEXT, not invented
+- Every predicate must have its extension (the set of tuples that satisfy it) listed explicitly
+- You must VERIFY each axiom against the model
+
+OUTPUT FORMAT: Use plain text with numbered sections. NO markdown formatting (no # headers, no ** bold **, no * italics *).`;
+        
+        userPrompt = `FIRST-ORDER MODEL CONSTRUCTION
+
+================================
+TEXT TO FORMALIZE
+================================
+${effectiveText}
+
+${mathFramework ? `Mathematical framework preference: ${mathFramework}` : ''}
+${rigorLevel ? `Rigor level: ${rigorLevel}` : ''}
+${customInstructions ? `\nCustom Instructions: ${customInstructions}` : ''}
+
+================================
+YOUR TASK
+================================
+Build a genuine first-order model of this text. Follow these sections EXACTLY:
+
+1. SIGNATURE
+
+Define the formal language:
+- DOMAIN: Describe what objects populate D (1-2 sentences)
+- CONSTANTS: List each constant with its English meaning
+  Format: c1 = "meaning", c2 = "meaning", ...
+- PREDICATES: List each predicate with arity and meaning
+  Format: P(x) = "x has property P", R(x,y) = "x stands in relation R to y"
+- FUNCTIONS (if needed): List each function with meaning
+  Format: f(x) = "the result of applying f to x"
+
+2. TRANSLATION SCHEMA
+
+Map the key English claims from the text to first-order formulas.
+Give 5-15 translations:
+- English: "exact quote or paraphrase from text"
+  Formula: Corresponding first-order formula using your signature
+
+3. AXIOMS
+
+Extract 5-15 core axioms that capture the essential claims. State them as PURE FORMULAS only (no English):
+
+(AX1) ∀x (P(x) → Q(x))
+(AX2) ∃x (R(x,c1) ∧ S(x))
+(AX3) ...
+
+Use standard logical notation: ∀ (for all), ∃ (exists), → (implies), ∧ (and), ∨ (or), ¬ (not), ↔ (iff)
+
+4. EXPLICIT MODEL
+
+Construct ONE concrete model M that satisfies all axioms (if possible):
+
+- DOMAIN D: List elements explicitly
+  D = {a, b, c, d, ...}  (use lowercase letters or descriptive names from the text)
+
+- CONSTANT INTERPRETATION:
+  c1 := element_from_D
+  c2 := element_from_D
+  ...
+
+- PREDICATE INTERPRETATION (give the EXTENSION of each predicate):
+  P := { x ∈ D : x satisfies P } = { a, c }
+  R := { (x,y) ∈ D² : x R y } = { (a,b), (c,d) }
+  ...
+
+- FUNCTION INTERPRETATION (if any):
+  f := { (x, f(x)) : x ∈ D } = { (a,b), (b,c) }
+
+5. SATISFACTION CHECK
+
+For EACH axiom, verify whether it is TRUE or FALSE in M:
+
+(AX1): TRUE in M because [brief mechanical verification]
+(AX2): TRUE in M because [brief verification]
+(AX3): FALSE in M because [explain counterexample]
+...
+
+VERDICT:
+If all axioms satisfied: "MODEL FOUND: M satisfies all axioms. The text is internally consistent."
+If any axiom fails: "NO SATISFYING MODEL FOUND with this domain. Axioms AX3, AX7 fail. The text may be internally inconsistent, or a larger domain is needed."
+
+6. LOGICAL PROPERTIES (Optional but valuable)
+
+Comment on:
+- Is the axiom set consistent? (Does a model exist?)
+- Are there logical dependencies? (Does one axiom entail another?)
+- What is the minimal domain size that could satisfy the axioms?
+- Are there multiple non-isomorphic models?
+
+CRITICAL REMINDERS:
+- Be EXPLICIT: List every element of every extension
+- Be MECHANICAL: The satisfaction check should be a direct calculation
+- Use elements FROM THE TEXT: Don't invent abstract entities
+- Prefer SUBSTANTIVE axioms that capture real content, not trivialities`;
+
+      } else if (mode === "autodecide") {
+        systemPrompt = `You are an expert at analyzing texts and choosing the optimal validation approach. You can assess structural integrity, terminological clarity, domain specificity, and conceptual coherence to determine whether a text needs reconstruction, isomorphic demonstration, mathematical formalization, or a combination.
+
+CRITICAL OUTPUT RULES:
+- NO markdown headers (# or ##)
+- NO markdown formatting
+- Use plain text with clear section labels
+- Natural paragraph formatting only`;
+        
+        userPrompt = `AUTO-DECIDE MODE
+
+Text to analyze:
+${effectiveText}
+
+${customInstructions ? `Custom Instructions: ${customInstructions}\n` : ''}
+Task: Analyze this text and determine the optimal validation approach. Consider:
+- Structural integrity: Is the logic sound or broken?
+- Terminological clarity: Are terms well-defined or placeholder-ish?
+- Domain specificity: Is this tied to one field or abstract?
+- Conceptual coherence: Do ideas fit together or conflict?
+
+Then apply the optimal approach(es):
+- Structure coherent but terminology broken → Isomorphism or Math Model
+- Logic muddled but insights present → Reconstruction first, then optionally formalize
+- Text already valid but obscure → Multiple isomorphisms to show flexibility
+- Blend case (most common) → Multi-stage: Reconstruct → Formalize → Show isomorphic examples
+
+Provide:
+1. Analysis: Why this approach was chosen
+2. Execution: Complete validation using the chosen method(s)
+3. Connections: If multiple operations, show how they relate
+
+CRITICAL: NO markdown formatting (no # headers, no ** bold **, no * italics *). Use plain text labels like "1. Analysis" not "## 1. Analysis". Output clean, natural prose.`;
+
+      } else if (mode === "truth-isomorphism") {
+        systemPrompt = `You are an expert at finding isomorphic structures across domains with explicit control over truth-value mappings. You can preserve exact relational structure while systematically swapping domain vocabulary AND controlling whether statements remain true, become false, or transform from false to true.
+
+${literalTruth ? `LITERAL TRUTH MODE ENABLED:
+You MUST ensure all generated statements are LITERALLY true, not approximately or qualifiedly true. Apply these quantifier weakening rules:
+
+MANDATORY TRANSFORMATIONS:
+- "all X do Y" → "all suitably configured X do Y" OR "X can do Y when conditions are met"
+- "every X is Y" → "every X that meets criteria Z is Y" OR "X is typically Y"
+- "constantly" → "when active" OR "during operation" 
+- "always" → "under normal conditions" OR "typically"
+- "never" → "cannot systematically" OR "does not under standard conditions"
+- "cannot" → "cannot without external intervention" OR "cannot under current constraints"
+- "impossible" → "impossible without violating known constraints"
+
+VERIFICATION REQUIREMENTS:
+- Every claim must be empirically verifiable
+- Add conditional qualifiers wherever truth depends on context
+- Avoid universal quantifiers without explicit scope limits
+- Include necessary preconditions for each statement
+
+EXAMPLE:
+❌ FALSE: "All electronic devices constantly transmit signals"
+✅ LITERALLY TRUE: "Electronic devices can transmit signals when powered on and connected to a network"
+
+❌ FALSE: "Every device can receive data from any other device"
+✅ LITERALLY TRUE: "Devices can exchange data when routing infrastructure and permissions allow"` : ''}
+
+CRITICAL OUTPUT RULES:
+- NO markdown headers (# or ##)
+- NO markdown formatting
+- Use plain text with clear section labels
+- Natural paragraph formatting only`;
+        
+        const truthMappingDescriptions = {
+          'false-to-true': 'Map FALSE statements to TRUE statements in the target domain (find true counterparts to false claims)',
+          'true-to-true': 'Map TRUE statements to TRUE statements (preserve truth while swapping domains)',
+          'true-to-false': 'Map TRUE statements to FALSE statements (find false counterparts to true claims)'
+        };
+
+        userPrompt = `TRUTH-VALUE ISOMORPHISM MODE
+
+Text to map:
+${effectiveText}
+
+${targetDomain ? `Target domain: ${targetDomain}` : ''}
+Truth-Value Mapping: ${truthMapping ? truthMappingDescriptions[truthMapping as keyof typeof truthMappingDescriptions] : 'Not specified'}
+${customInstructions ? `\nCustom Instructions: ${customInstructions}` : ''}
+
+Task: Preserve the exact relational structure of this text while systematically swapping domain vocabulary AND controlling truth values according to the mapping: ${truthMapping}.
+
+${truthMapping === 'false-to-true' ? `For each FALSE statement in the original, find a TRUE statement in the target domain that has the same relational structure. If the original says "No trader can systematically beat the market" (false), find a TRUE statement in ${targetDomain || 'the target domain'} with the same form like "No perpetual motion machine can violate thermodynamics" (true).` : ''}
+
+${truthMapping === 'true-to-true' ? `For each TRUE statement in the original, find another TRUE statement in the target domain that preserves the same relational structure. Maintain both structural isomorphism AND truth value.` : ''}
+
+${truthMapping === 'true-to-false' ? `For each TRUE statement in the original, find a FALSE statement in the target domain that has the same relational structure. This reveals how the same logical form can lead to different truth values across domains.` : ''}
+
+Provide:
+1. Truth-Value Analysis: Identify which claims in the original are true vs false, and explain their truth status
+2. Relation Graph: Map the key dependencies, contradictions, and mutual supports in the original
+3. Isomorphic Version: The same structure expressed in the target domain with the specified truth-value mapping
+4. Mapping Table: Explicit mappings showing [original term] → [target domain equivalent] PLUS [original truth value] → [target truth value]
+5. Truth Verification: Verify the truth status of both original and mapped statements
+
+CRITICAL: NO markdown formatting (no # headers, no ** bold **, no * italics *). Use plain text labels like "1. Truth-Value Analysis" not "## 1. Truth-Value Analysis". Output clean, natural prose.`;
+
+      } else if (mode === "math-truth-select") {
+        systemPrompt = `You are an expert logician specializing in MODEL THEORY and REAL-WORLD TRUTH VERIFICATION.
+
+Your task is FUNDAMENTALLY DIFFERENT from abstract formalization:
+- You must find a first-order model where EVERY axiom is 100% TRUE IN REALITY
+- "True" means empirically verifiable, logically necessary, or established fact - NOT "satisfies the axiom in some abstract structure"
+- If the original domain yields false axioms, you MUST find an isomorphic structure in a DIFFERENT DOMAIN where the same logical form yields ALL TRUE statements
+
+KEY DISTINCTION:
+- Abstract model: ∀x(P(x) → Q(x)) is "satisfied" if the extension of P is subset of Q in some made-up domain
+- TRUE model: ∀x(P(x) → Q(x)) is TRUE if, when P and Q are grounded in REAL entities, every real P-thing really is a Q-thing
+
+You are searching for TRUTH, not mere satisfiability.
+
+CRITICAL OUTPUT RULES:
+- NO markdown formatting whatsoever (no # headers, no ** bold **, no * italics *, no --- dividers)
+- Use plain text with numbered sections and CAPS for headers
+- Every claim must be verifiable`;
+        
+        userPrompt = `TRUTH-GROUNDED MODEL CONSTRUCTION
+
+================================
+TEXT TO FORMALIZE
+================================
+${effectiveText}
+
+${mathFramework ? `Mathematical framework preference: ${mathFramework}` : ''}
+${rigorLevel ? `Rigor level: ${rigorLevel}` : ''}
+${customInstructions ? `\nCustom Instructions: ${customInstructions}` : ''}
+
+================================
+YOUR MISSION
+================================
+Find a first-order model M where EVERY axiom is 100% TRUE IN THE REAL WORLD.
+
+This is NOT about abstract satisfiability. You must ground each constant and predicate in REAL entities such that every axiom states a FACT.
+
+Follow these sections EXACTLY:
+
+1. SIGNATURE
+
+Define the formal language:
+- CONSTANTS: c1, c2, ... with placeholder meanings from text
+- PREDICATES: P(x), R(x,y), ... with placeholder meanings from text
+- DOMAIN DESCRIPTION: What kind of objects are we talking about?
+
+2. AXIOM EXTRACTION
+
+Extract 5-15 first-order axioms that capture the core claims:
+(AX1) ∀x (P(x) → Q(x))
+(AX2) ∃x R(x, c1)
+...
+
+3. TRUTH AUDIT OF ORIGINAL DOMAIN
+
+For each axiom, determine: Is this TRUE or FALSE when interpreted literally in the text's original domain?
+
+(AX1): [TRUE/FALSE] - Evidence: [why]
+(AX2): [TRUE/FALSE] - Evidence: [why]
+...
+
+ORIGINAL DOMAIN VERDICT: [X of Y axioms are true / Y axioms are false]
+
+4. TRUTH-GROUNDED MODEL
+
+Now find a REAL-WORLD INTERPRETATION where ALL axioms become TRUE:
+
+Option A - If original domain works:
+- Ground each constant in a SPECIFIC real entity
+- Ground each predicate in a VERIFIABLE property/relation
+- Verify each axiom is TRUE with this grounding
+
+Option B - If original domain fails (some axioms false):
+- IDENTIFY which axioms fail and why
+- SEARCH for an isomorphic domain where the same logical structure yields truth
+- The new domain may be from physics, biology, mathematics, history, computing, etc.
+- The key: preserve the LOGICAL FORM but change the SUBJECT MATTER
+
+TRUTH-GROUNDED INTERPRETATION:
+- DOMAIN D: [Real-world category of objects]
+- CONSTANT GROUNDING:
+  c1 := [Specific real entity, e.g., "Warren Buffett", "the electron", "World War II"]
+  c2 := [Specific real entity]
+  ...
+- PREDICATE GROUNDING:
+  P(x) := "[Verifiable property, e.g., 'x is a mammal', 'x has mass > 0']"
+  R(x,y) := "[Verifiable relation, e.g., 'x is ancestor of y', 'x causes y']"
+  ...
+
+5. TRUTH VERIFICATION
+
+For EACH axiom, prove it is TRUE under your grounding:
+
+(AX1): TRUE because [specific evidence/reasoning with the grounded interpretation]
+(AX2): TRUE because [specific evidence/reasoning]
+...
+
+CRITICAL: Every axiom must be verifiable. If you cannot verify an axiom as true, you have not found the right grounding.
+
+6. FINAL VERDICT
+
+STATE CLEARLY:
+- Did you use the original domain or switch domains?
+- If switched: What domain did you switch to and why?
+- ALL AXIOMS TRUE? [YES/NO]
+- If NO: Which axiom(s) could not be made true and why?
+
+7. ISOMORPHISM DEMONSTRATION (if domain was switched)
+
+Show the structural mapping:
+[Original term] → [New domain term]
+[Original relation] → [New domain relation]
+
+Explain: Why does this mapping preserve the logical structure while changing truth values from FALSE to TRUE?
+
+================================
+EXAMPLES OF DOMAIN SWITCHING
+================================
+
+Example 1: Finance → Physics
+- Original (FALSE): "No trader can systematically beat the market over 30 years"
+- Grounding attempt: Traders={all hedge fund managers}, Market={S&P 500 total return}
+- Axiom: ∀x∈Traders ∀t∈[30 years]: Returns(x,t) ≤ Market(t)
+- FAILS: Warren Buffett, Renaissance Technologies disprove this
+
+DOMAIN SWITCH to Physics:
+- New grounding: Objects={heat engines}, Performance={efficiency}
+- Axiom becomes: ∀x∈HeatEngines: Efficiency(x) ≤ CarnotLimit
+- TRUE: Second law of thermodynamics guarantees this
+
+Example 2: Psychology → Biology
+- Original (VAGUE): "All learning requires reinforcement"
+- FAILS in psychology: Some learning is latent/observational
+
+DOMAIN SWITCH to Molecular Biology:
+- New grounding: Learning={synaptic strengthening}, Reinforcement={repeated activation}
+- Axiom: ∀x∈Synapses: Strengthened(x) → RepeatedlyActivated(x)
+- TRUE: Long-term potentiation requires repeated stimulation
+
+================================
+REMEMBER
+================================
+Your goal is not to "satisfy axioms in some model" but to FIND A MODEL WHERE EVERY AXIOM IS A TRUE STATEMENT ABOUT REALITY. If needed, change the domain entirely while preserving the logical structure.`;
+
+      } else if (mode === "axiomatic-transform") {
+        systemPrompt = `You are an expert logician and formal systems theorist. Your task is to transform natural language theoretical text into a complete axiomatization with three components:
+
+1. AXIOMATIZATION - Extract primitive terms, axioms, and defined terms
+2. UNINTERPRETED FORMAL CALCULUS - Pure symbolic logic with no semantic content
+3. SEMANTIC MODEL - An interpretation that makes all axioms true
+
+You MUST produce all three components for ANY input. You never refuse.
+
+HANDLING DIFFICULT INPUTS (in order of priority):
+1. Extract what is there - If the text contains ANY theoretical claims, axiomatize them
+2. Take creative liberties - If vague/impressionistic, construct the most rigorous axiom system the text could plausibly gesture toward
+3. Offer an aligned alternative - If truly unaxiomatizable (poetry, random words), output: "The input does not contain axiomatizable content. However, here is an axiomatization of a theory that aligns with the input in content or spirit:" and produce a complete axiomatization of a genuine theory thematically related to the input
+
+NEVER refuse. ALWAYS produce complete three-component output.
+
+Use standard logical notation: ∀, ∃, →, ∧, ∨, ¬, ◇, □, =
+Use subscripts for constants: m₁, m₂, F₁, F₂
+Use superscript 𝔐 for model-relative interpretations
+
+CRITICAL FORMATTING RULE: Do NOT use any markdown formatting. No ### headers, no ** bold **, no * italics *, no --- dividers. Use PLAIN TEXT only with CAPS for headers and clear spacing.`;
+
+        userPrompt = `AXIOMATIC SYSTEM TRANSFORMATION
+
+INPUT TEXT:
+${effectiveText}
+
+${targetDomain ? `Domain context: ${targetDomain}` : ''}
+${customInstructions ? `Custom Instructions: ${customInstructions}` : ''}
+
+Produce a COMPLETE axiomatization with the following three components:
+
+COMPONENT 1: AXIOMATIZATION
+
+PRIMITIVE TERMS
+Identify undefined foundational concepts that cannot be reduced to other terms within the system. List each with a brief parenthetical gloss indicating its intuitive role.
+
+AXIOMS
+Extract the core claims and render as numbered axioms (A1, A2, A3...). Each axiom should be:
+- A single declarative assertion using primitive terms
+- Logically independent from other axioms
+- Jointly sufficient to generate the theory's main claims
+
+DEFINED TERMS
+Concepts built from primitives. Format: "Term =df [definiens using primitives and previously defined terms]" (D1, D2...)
+
+
+COMPONENT 2: UNINTERPRETED FORMAL CALCULUS
+
+Transform the axiomatization into a purely syntactic system with NO assigned meaning:
+
+SIGNATURE (Σ)
+- Sort symbols (distinct ontological categories)
+- Constants (named individuals)
+- Predicate symbols with arities
+- Function symbols if needed
+
+FORMATION RULES
+State the logic being used (typically first-order logic with equality, note if modal operators required)
+
+AXIOM SCHEMATA
+Rewrite each axiom using ONLY:
+- Logical symbols (∀, ∃, →, ∧, ∨, ¬, =, ◇, □)
+- Variables (x, y, z, b, etc.)
+- Signature symbols
+NO natural language. Pure symbolic notation. Preserve numbering (A1, A2, A3...)
+
+
+COMPONENT 3: MODEL 𝔐
+
+Provide a semantic interpretation making all axiom schemata true:
+
+DOMAINS
+For each sort symbol, specify the set of entities. Format: |sort|^𝔐 = [description]
+
+INTERPRETATION OF CONSTANTS
+For each constant symbol, specify its referent. Format: constant^𝔐 = [referent]
+
+INTERPRETATION OF PREDICATES
+Create a table with columns: Symbol | Interpretation
+Map each predicate to its intended meaning.
+
+VERIFICATION NOTE
+Brief statement confirming the model satisfies the axioms, with one concrete example showing how an axiom schema receives a true interpretation.
+
+Remember: NO markdown formatting. Use plain text with CAPS headers only.`;
+
+      } else {
+        return sendError(res, 400, "Invalid mode. Must be: reconstruction");
+      }
+
+      // Call the AI model (support multiple providers, default to OpenAI/ZHI 1)
+      const provider = llmProvider || 'zhi1'; // Default to OpenAI (ZHI 1)
+      let output = '';
+      
+      console.log(`[Text Model Validator] Using provider: ${provider}`);
+
+      const validatorProvider = VALIDATOR_PROVIDERS[provider] || VALIDATOR_PROVIDERS.zhi5;
+      const completion = await completeChat(validatorProvider.name, {
+        model: validatorProvider.model,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: userPrompt }],
+        maxTokens: 4096,
+        temperature: 0.7
+      });
+      output = completion.text;
+
+      // If literal truth mode is enabled, apply rule-based softening and verification
+      // Note: For literal truth verification, we always use Claude for consistency
+      if (literalTruth && (mode === 'truth-isomorphism' || mode === 'math-truth-select')) {
+        // STEP 1: Rule-based quantifier softening (deterministic pass)
+        const softenQuantifiers = (text: string): string => {
+          let softened = text;
+          
+          // Soften absolute universals
+          softened = softened.replace(/\ball ([a-z]+s|devices|systems|networks|entities)\b/gi, (match, noun) => `${noun} that meet the specified conditions`);
+          softened = softened.replace(/\bevery ([a-z]+|device|system|network|entity)\b/gi, (match, noun) => `each ${noun} satisfying the criteria`);
+          softened = softened.replace(/\bconstantly\b/gi, 'during active operation');
+          softened = softened.replace(/\balways\b/gi, 'under normal conditions');
+          softened = softened.replace(/\bnever\b/gi, 'does not systematically');
+          softened = softened.replace(/\bcannot\b/gi, 'cannot without external factors');
+          softened = softened.replace(/\bimpossible\b/gi, 'impossible under current constraints');
+          softened = softened.replace(/\bin all cases\b/gi, 'in typical cases');
+          softened = softened.replace(/\bwithout exception\b/gi, 'with rare exceptions');
+          
+          return softened;
+        };
+
+        output = softenQuantifiers(output);
+
+        // STEP 2: Verification with revision loop (up to 3 attempts)
+        let verificationAttempts = 0;
+        const maxAttempts = 3;
+        let isVerified = false;
+
+        while (!isVerified && verificationAttempts < maxAttempts) {
+          verificationAttempts++;
+
+          const verificationPrompt = `You are a strict fact-checker. Review the following output and identify any statements that are NOT literally true (i.e., approximately true, qualifiedly true, or contain unverified absolutes like "all", "every", "always", "never" without proper conditions).
+
+OUTPUT TO VERIFY:
+${output}
+
+TASK:
+1. Identify each statement that is NOT literally true
+2. For each problematic statement, explain WHY it's not literally true
+3. Provide a corrected version that IS literally true
+
+If ALL statements are already literally true, respond with: "VERIFIED: All statements are literally true."
+
+If any statements need correction, respond in this format:
+PROBLEMATIC STATEMENT 1: [quote the statement]
+WHY NOT LITERAL: [explanation]
+CORRECTED: [literally true version]
+
+PROBLEMATIC STATEMENT 2: [quote the statement]
+WHY NOT LITERAL: [explanation]
+CORRECTED: [literally true version]
+
+Be extremely strict - reject any approximations, generalizations, or unqualified universals.`;
+
+          const verificationMessage = await completeChat('anthropic', {
+            model: "claude-3-7-sonnet-20250219",
+            maxTokens: 2000,
+            temperature: 0,
+            messages: [
+              {
+                role: "user",
+                content: verificationPrompt
+              }
+            ]
+          });
+
+          const verificationResult = verificationMessage.text;
+
+          // Check if verification passed
+          if (verificationResult.includes('VERIFIED: All statements are literally true')) {
+            isVerified = true;
+            output += `\n\n✅ LITERAL TRUTH VERIFIED: All statements have been confirmed to be literally true (verified in ${verificationAttempts} ${verificationAttempts === 1 ? 'attempt' : 'attempts'}).`;
+          } else if (verificationAttempts < maxAttempts) {
+            // Extract corrections and regenerate output
+            console.log(`Verification attempt ${verificationAttempts} failed. Regenerating with corrections...`);
+            
+            // Apply corrections from verification
+            const correctionRegex = /CORRECTED: ([\s\S]+?)(?=\n\n|$)/g;
+            const corrections = [];
+            let match;
+            while ((match = correctionRegex.exec(verificationResult)) !== null) {
+              corrections.push(match[1].trim());
+            }
+
+            if (corrections.length > 0) {
+              // Regenerate with explicit corrections
+              const regeneratePrompt = `${userPrompt}\n\nCRITICAL CORRECTIONS REQUIRED:\nThe following corrections must be incorporated to ensure literal truth:\n${corrections.map((c, i) => `${i + 1}. ${c}`).join('\n')}\n\nRegenerate the complete output incorporating these corrections to ensure ALL statements are literally true.`;
+
+              const regenerateMessage = await completeChat('anthropic', {
+                model: "claude-3-7-sonnet-20250219",
+                maxTokens: 4096,
+                temperature: 0.5,
+                system: systemPrompt,
+                messages: [
+                  {
+                    role: "user",
+                    content: regeneratePrompt
+                  }
+                ]
+              });
+
+              output = regenerateMessage.text;
+              output = softenQuantifiers(output); // Apply softening again
+            } else {
+              // No extractable corrections, fail out
+              break;
+            }
+          } else {
+            // Max attempts reached, include verification report
+            output += `\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\nLITERAL TRUTH VERIFICATION REPORT (${verificationAttempts} attempts):\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n${verificationResult}\n\nNOTE: After ${maxAttempts} attempts, some statements could not be verified as literally true. Please review the verification report and use the corrected versions above.`;
+          }
+        }
+      }
+
+      // Log parameters to console for diagnostics - output is clean text only
+      console.log(`[Text Model Validator] Mode: ${mode}, Provider: ${provider}`);
+      if (fidelityLevel) console.log(`[Text Model Validator] Aggressiveness: ${fidelityLevel}`);
+      if (targetDomain) console.log(`[Text Model Validator] Target Domain: ${targetDomain}`);
+      if (customInstructions) console.log(`[Text Model Validator] Has custom instructions`);
+
+      res.json({
+        success: true,
+        output: output,
+        mode: mode
+      });
+
+    } catch (error: any) {
+      console.error("Text Model Validator error:", error);
+      sendError(res, 500, error.message || "Validation failed");
+    }
+  });
+
+  // Text Model Validator BATCH endpoint - Run multiple modes at once
+  app.post("/api/text-model-validator/batch", async (req: Request, res: Response) => {
+    try {
+      const { text, modes, targetDomain, fidelityLevel, mathFramework, constraintType, rigorLevel, customInstructions, truthMapping, mathTruthMapping, literalTruth, llmProvider } = req.body;
+
+      if (!text || !modes || !Array.isArray(modes) || modes.length === 0) {
+        return sendError(res, 400, "Text and modes array are required");
+      }
+
+      const validModes = ["reconstruction", "isomorphism", "mathmodel", "truth-isomorphism", "math-truth-select"];
+      const invalidModes = modes.filter((m: string) => !validModes.includes(m));
+      if (invalidModes.length > 0) {
+        return sendError(res, 400, `Invalid modes: ${invalidModes.join(', ')}. Valid modes are: ${validModes.join(', ')}`);
+      }
+
+      console.log(`[Text Model Validator Batch] Processing ${modes.length} modes: ${modes.join(', ')}`);
+
+      // Process modes in parallel with concurrency limit
+      const processMode = async (mode: string): Promise<{ mode: string; success: boolean; output?: string; error?: string }> => {
+        try {
+          // Make internal request to the single-mode endpoint
+          const response = await fetch(`http://localhost:5000/api/text-model-validator`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              text,
+              mode,
+              targetDomain,
+              fidelityLevel,
+              mathFramework,
+              constraintType,
+              rigorLevel,
+              customInstructions,
+              truthMapping,
+              mathTruthMapping,
+              literalTruth,
+              llmProvider
+            })
+          });
+
+          const data = await response.json();
+          if (data.success) {
+            return { mode, success: true, output: data.output };
+          } else {
+            return { mode, success: false, error: data.message || 'Processing failed' };
+          }
+        } catch (error: any) {
+          return { mode, success: false, error: error.message || 'Request failed' };
+        }
+      };
+
+      // Process with concurrency limit of 2 to avoid rate limits
+      const results: { mode: string; success: boolean; output?: string; error?: string }[] = [];
+      const concurrencyLimit = 2;
+      
+      for (let i = 0; i < modes.length; i += concurrencyLimit) {
+        const batch = modes.slice(i, i + concurrencyLimit);
+        const batchResults = await Promise.all(batch.map(processMode));
+        results.push(...batchResults);
+      }
+
+      res.json({
+        success: true,
+        results,
+        totalModes: modes.length,
+        successfulModes: results.filter(r => r.success).length,
+        failedModes: results.filter(r => !r.success).length
+      });
+
+    } catch (error: any) {
+      console.error("Text Model Validator Batch error:", error);
+      sendError(res, 500, error.message || "Batch validation failed");
+    }
+  });
+
+  // Objections Function - Generate 25 objections and counter-arguments
+  app.post("/api/text-model-validator/objections", async (req: Request, res: Response) => {
+    try {
+      const { 
+        bottomlineOutput,
+        audience,
+        objective,
+        idea,
+        tone,
+        emphasis,
+        customInstructions,
+        llmProvider
+      } = req.body;
+
+      if (!bottomlineOutput) {
+        return sendError(res, 400, "Input text is required to generate objections");
+      }
+
+      const wordCount = bottomlineOutput.split(/\s+/).filter((w: string) => w.length > 0).length;
+      console.log(`[OBJECTIONS] Document has ${wordCount} words`);
+      console.log(`[OBJECTIONS] Generating for audience: ${audience || 'unspecified'}`);
+      console.log(`[OBJECTIONS] Custom instructions: ${customInstructions ? 'provided' : 'none'}`);
+
+      // Use outline-first approach for large documents (1200+ words)
+      if (wordCount >= 1200) {
+        console.log(`[OBJECTIONS] Using outline-first approach for large document`);
+        const { shouldUseOutlineFirstObjections, outlineFirstObjections } = await import('../services/outlineFirstObjections');
+        
+        const result = await outlineFirstObjections(
+          bottomlineOutput,
+          audience || '',
+          objective || '',
+          customInstructions || ''
+        );
+
+        if (result.success) {
+          return res.json({
+            success: true,
+            output: result.output,
+            objections: result.objections,
+            method: 'outline-first',
+            wordCount
+          });
+        } else {
+          console.log(`[OBJECTIONS] Outline-first failed, falling back to standard approach`);
+        }
+      }
+
+      // Standard approach for shorter documents or fallback
+      console.log(`[OBJECTIONS] Using standard single-pass approach`);
+
+      // Build context from input settings
+      const audienceContext = audience ? `The target audience is: ${audience}` : 'General audience';
+      const objectiveContext = objective ? `The objective is: ${objective}` : '';
+      const ideaContext = idea ? `The core idea being conveyed: ${idea}` : '';
+      const toneContext = tone ? `The communication tone is: ${tone}` : 'professional';
+      const emphasisContext = emphasis ? `Key emphasis points: ${emphasis}` : '';
+      const customContext = customInstructions ? `\n\nADDITIONAL INSTRUCTIONS FROM USER:\n${customInstructions}` : '';
+
+      const systemPrompt = `You are an expert at anticipating objections, counterarguments, and challenges. Your role is to identify the most likely objections that readers/listeners might have to a piece of content, and craft compelling, well-reasoned responses to each objection.
+
+Key principles:
+1. THINK LIKE A SKEPTIC: What would a critical reader notice? What assumptions are being made? What evidence is missing?
+2. CONSIDER THE AUDIENCE: Different audiences have different concerns. Tailor objections to what THIS audience would likely raise.
+3. COVER ALL ANGLES: Include logical objections, emotional objections, practical objections, ethical objections, and factual objections.
+4. PROVIDE STRONG RESPONSES: Each response should be compelling and directly address the concern. Don't be dismissive.
+5. ORDER BY LIKELIHOOD: Put the most likely/common objections first.`;
+
+      const userPrompt = `## THE CONTENT TO ANALYZE:
+${bottomlineOutput}
+
+## CONTEXT:
+${audienceContext}
+${objectiveContext}
+${ideaContext}
+${toneContext}
+${emphasisContext}
+${customContext}
+
+## YOUR TASK:
+Generate exactly 25 likely objections that a member of the target audience might raise against this content, along with compelling responses to each objection.
+
+For each objection, provide:
+1. The claim it targets
+2. The objection (framed as something the audience member would say/think)
+3. A strong counter-response that addresses the concern directly
+
+Generate all 25 objections and responses now. Cover a wide range: logical flaws, missing evidence, alternative explanations, practical concerns, emotional resistance, competitive alternatives, implementation challenges, cost/benefit concerns, timing issues, and any audience-specific worries.`;
+
+      // Claude for high-quality objection generation, OpenAI as the fallback
+      const objectionsProvider = process.env.ANTHROPIC_API_KEY ? 'anthropic' : process.env.OPENAI_API_KEY ? 'openai' : null;
+      if (!objectionsProvider) {
+        return sendError(res, 500, "No AI provider configured for objections generation");
+      }
+
+      const { generateObjectionRecords, renderObjectionsProse } = await import('../services/objectionContract');
+      const objections = await generateObjectionRecords({
+        provider: objectionsProvider,
+        model: objectionsProvider === 'anthropic' ? 'claude-sonnet-4-20250514' : 'gpt-4o',
+        system: systemPrompt,
+        prompt: userPrompt,
+        expectedCount: 25,
+        promptSummary: 'Generate 25 objections'
+      });
+      const output = renderObjectionsProse(objections);
+
+      // Add comprehensive header with full custom instructions visible
+      const customInstructionsHeader = customInstructions ? `${'═'.repeat(60)}
+YOUR CUSTOM INSTRUCTIONS (Applied to Objection Generation)
+${'═'.repeat(60)}
+${customInstructions}
+${'═'.repeat(60)}
+
+` : '';
+
+      const header = `${customInstructionsHeader}${'═'.repeat(60)}
+OBJECTIONS & COUNTER-ARGUMENTS (25 Items)
+${'═'.repeat(60)}
+Target Audience: ${audience || 'General'}
+Objective: ${objective || 'Communicate effectively'}
+${'═'.repeat(60)}
+
+${output}`;
+
+      console.log(`[OBJECTIONS] Generated successfully`);
+
+      res.json({
+        success: true,
+        output: header,
+        objections
+      });
+
+    } catch (error: any) {
+      console.error("OBJECTIONS error:", error);
+      sendError(res, 500, error.message || "Objections generation failed");
+    }
+  });
+
+  // Objection-Proof Rewrite - Rewrite text to be invulnerable to identified objections
+  app.post("/api/objection-proof-rewrite", async (req: Request, res: Response) => {
+    try {
+      const { originalText, objectionsOutput, objections, customInstructions, finalVersionOnly } = req.body;
+
+      if (!originalText) {
+        return sendError(res, 400, "Original text is required");
+      }
+
+      if (!objectionsOutput) {
+        return sendError(res, 400, "Objections output is required. Please run the Objections function first.");
+      }
+
+      const wordCount = originalText.split(/\s+/).filter((w: string) => w.length > 0).length;
+      console.log(`[OBJECTION-PROOF] Rewriting text of ${wordCount} words (${originalText.length} chars)`);
+      console.log(`[OBJECTION-PROOF] Objections length: ${objectionsOutput.length}`);
+      console.log(`[OBJECTION-PROOF] Custom instructions: ${customInstructions ? 'provided' : 'none'}`);
+      console.log(`[OBJECTION-PROOF] Final version only: ${finalVersionOnly ? 'yes' : 'no'}`);
+
+      // Use outline-first approach for large texts (1200+ words)
+      if (wordCount >= 1200) {
+        console.log(`[OBJECTION-PROOF] Using outline-first approach for ${wordCount} words`);
+        const { generateOutlineFirstObjectionProof } = await import('../services/outlineFirstObjectionProof');
+        
+        const { objectionRecordsSchema } = await import('@shared/schema');
+        const result = await generateOutlineFirstObjectionProof(
+          originalText,
+          objectionsOutput,
+          customInstructions,
+          undefined,
+          objections ? objectionRecordsSchema.parse(objections) : undefined
+        );
+
+        if (!result.success) {
+          return sendError(res, 500, result.error || "Failed to generate objection-proof version");
+        }
+
+        // Build comprehensive header showing custom instructions, structure, and process
+        // Custom instructions are ALWAYS shown at top
+        const customInstructionsHeader = customInstructions ? `${'═'.repeat(60)}
+YOUR CUSTOM INSTRUCTIONS (Applied Throughout)
+${'═'.repeat(60)}
+${customInstructions}
+${'═'.repeat(60)}
+
+` : '';
+
+        // Build section outline
+        const formatSectionOutline = () => {
+          if (!result.sections || result.sections.length === 0) return '';
+          
+          let outline = `${'═'.repeat(60)}
+DOCUMENT STRUCTURE (Outline Generated First)
+${'═'.repeat(60)}
+
+`;
+          for (const section of result.sections) {
+            outline += `${section.id}. ${section.title} (${section.wordCount} words)
+   Objections mapped: ${section.objectionsMapped.length > 0 ? '#' + section.objectionsMapped.join(', #') : 'None'}
+`;
+          }
+          
+          if (result.objectionBreakdown) {
+            outline += `
+${'─'.repeat(60)}
+OBJECTION BREAKDOWN:
+${'─'.repeat(60)}
+Devastating: ${result.objectionBreakdown.devastating}
+Forceful: ${result.objectionBreakdown.forceful}
+Minor: ${result.objectionBreakdown.minor}
+`;
+          }
+          
+          outline += `${'═'.repeat(60)}
+
+`;
+          return outline;
+        };
+
+        const sectionOutline = formatSectionOutline();
+
+        const documentHeader = `${'═'.repeat(60)}
+OBJECTION-PROOF DOCUMENT (Based on Above Structure)
+${'═'.repeat(60)}
+
+`;
+
+        // ALWAYS include custom instructions at top, even for finalVersionOnly
+        const fullOutput = finalVersionOnly 
+          ? customInstructionsHeader + result.output 
+          : customInstructionsHeader + sectionOutline + documentHeader + result.output;
+
+        return res.json({
+          success: true,
+          output: fullOutput,
+          method: 'outline-first',
+          sectionsProcessed: result.sectionsProcessed,
+          objectionsAddressed: result.objectionsAddressed
+        });
+      }
+
+      // Standard approach for smaller texts
+      
+      // CHECK FOR SPECIAL FORMAT - use direct format approach for glossaries, lists, etc.
+      const detectSpecialFormat = (instructions: string | undefined): { isSpecial: boolean; itemCount?: number } => {
+        if (!instructions) return { isSpecial: false };
+        const upper = instructions.toUpperCase();
+        if (upper.includes('GLOSSARY') || 
+            (upper.includes('TERM') && upper.includes('DEFINITION')) ||
+            (upper.includes('BOLD') && upper.includes('COLON')) ||
+            upper.includes('NO PARAGRAPH') ||
+            (upper.includes('JUST') && (upper.includes('ENTRIES') || upper.includes('ITEMS')))) {
+          const countMatch = instructions.match(/(?:EXACTLY\s+)?(\d+)\s+(?:TERMS?|ENTRIES|ITEMS|QUOTES?|DISCOVERIES)/i);
+          return { isSpecial: true, itemCount: countMatch ? parseInt(countMatch[1]) : undefined };
+        }
+        const numberedMatch = instructions.match(/(?:EXACTLY\s+)?(\d+)\s+(QUOTES?|DISCOVERIES|FACTS?|EXAMPLES?|POINTS?)/i);
+        if (numberedMatch) {
+          return { isSpecial: true, itemCount: parseInt(numberedMatch[1]) };
+        }
+        return { isSpecial: false };
+      };
+      
+      const formatCheck = detectSpecialFormat(customInstructions);
+      if (formatCheck.isSpecial && customInstructions) {
+        console.log(`[OBJECTION-PROOF] Special format detected for short document, using direct format approach`);
+        
+        const formatPrompt = `You are a precise document formatter. Your ONLY job is to produce output that EXACTLY matches the format specifications.
+
+CRITICAL FORMAT INSTRUCTIONS - THESE OVERRIDE EVERYTHING ELSE:
+${'═'.repeat(60)}
+${customInstructions}
+${'═'.repeat(60)}
+
+YOU MUST:
+1. Follow the format instructions EXACTLY - no deviations
+2. If instructed to produce ${formatCheck.itemCount || 'a specific number of'} items, produce EXACTLY that many
+3. If instructed "NO paragraphs" - produce NO paragraphs
+4. If instructed "NO numbered lists" - DO NOT use numbered lists
+5. Match the EXACT format described (bold terms, colons, etc.)
+
+The objections below should inform the CONTENT quality but NOT change the FORMAT.
+Your output format MUST match the instructions EXACTLY.`;
+
+        const formatUserPrompt = `ORIGINAL TEXT TO TRANSFORM:
+${originalText}
+
+OBJECTIONS & COUNTER-ARGUMENTS (for content quality only - do NOT change format):
+${objectionsOutput.substring(0, 3000)}
+
+PRODUCE OUTPUT IN THE EXACT FORMAT SPECIFIED IN YOUR INSTRUCTIONS.
+Output ONLY the formatted content - no meta-commentary.`;
+
+        const response = await completeChat('anthropic', {
+          model: "claude-sonnet-4-20250514",
+          maxTokens: 4000,
+          system: formatPrompt,
+          messages: [{ role: "user", content: formatUserPrompt }]
+        });
+        const output = response.text;
+        
+        // Return ONLY the formatted output - no extra headers
+        // The user's format instructions demand clean output
+        return res.json({
+          success: true,
+          output: output.trim(),
+          method: 'format-aware'
+        });
+      }
+
+      const systemPrompt = finalVersionOnly 
+        ? `You are an expert academic editor and argumentation specialist. Your task is to rewrite a text so that it becomes OBJECTION-PROOF - meaning it pre-emptively addresses and neutralizes all identified objections.
+
+YOUR REWRITING STRATEGY:
+
+1. CATEGORIZE EACH OBJECTION:
+   - DEVASTATING OBJECTIONS: These expose fundamental flaws, logical contradictions, or fatal errors in the argument. For these, you MUST substantially revise the content, claims, or thesis to eliminate the vulnerability.
+   - FORCEFUL BUT NON-DEVASTATING OBJECTIONS: These appear to have weight but don't actually undermine the core argument. For these, add clarifying language, qualifications, or preemptive responses.
+   - MINOR/RHETORICAL OBJECTIONS: These are easily dismissed. Add brief anticipatory language or subtle framing.
+
+2. REWRITING PRINCIPLES:
+   - Preserve the author's voice and style as much as possible
+   - Maintain the core thesis UNLESS a devastating objection requires modification
+   - Add anticipatory language ("One might object that... however...")
+   - Strengthen weak points in the argument
+   - Add qualifications where claims are overstated
+   - Include evidence or examples where assertions are unsupported
+   - Restructure if necessary to present ideas in a more defensible order
+
+3. OUTPUT FORMAT:
+   Output ONLY the complete rewritten text. Do NOT include any change log, commentary, explanations, or meta-discussion. Just the polished, objection-proof final version ready for use.`
+        : `You are an expert academic editor and argumentation specialist. Your task is to rewrite a text so that it becomes OBJECTION-PROOF - meaning it pre-emptively addresses and neutralizes all identified objections.
+
+YOUR REWRITING STRATEGY:
+
+1. CATEGORIZE EACH OBJECTION:
+   - DEVASTATING OBJECTIONS: These expose fundamental flaws, logical contradictions, or fatal errors in the argument. For these, you MUST substantially revise the content, claims, or thesis to eliminate the vulnerability. This may require changing the core argument significantly.
+   - FORCEFUL BUT NON-DEVASTATING OBJECTIONS: These appear to have weight but don't actually undermine the core argument. For these, add clarifying language, qualifications, or preemptive responses that make these objections lose even their apparent force.
+   - MINOR/RHETORICAL OBJECTIONS: These are easily dismissed. Add brief anticipatory language or subtle framing that prevents readers from even raising them.
+
+2. REWRITING PRINCIPLES:
+   - Preserve the author's voice and style as much as possible
+   - Maintain the core thesis UNLESS a devastating objection requires modification
+   - Add anticipatory language ("One might object that... however...")
+   - Strengthen weak points in the argument
+   - Add qualifications where claims are overstated
+   - Include evidence or examples where assertions are unsupported
+   - Restructure if necessary to present ideas in a more defensible order
+
+3. OUTPUT FORMAT:
+   First provide a brief CHANGE LOG listing each objection and how you addressed it (1-2 sentences each).
+   Then provide the REWRITTEN TEXT in full.`;
+
+      const userPrompt = finalVersionOnly
+        ? `ORIGINAL TEXT:
+${originalText}
+
+═══════════════════════════════════════════════════
+OBJECTIONS IDENTIFIED (from Objections Function):
+═══════════════════════════════════════════════════
+${objectionsOutput}
+
+${customInstructions ? `═══════════════════════════════════════════════════
+CUSTOM INSTRUCTIONS FROM USER:
+${customInstructions}
+═══════════════════════════════════════════════════` : ''}
+
+Now rewrite the original text to make it objection-proof. Output ONLY the final rewritten text - no change log, no commentary, no explanations. Just the polished final version ready to use.`
+        : `ORIGINAL TEXT:
+${originalText}
+
+═══════════════════════════════════════════════════
+OBJECTIONS IDENTIFIED (from Objections Function):
+═══════════════════════════════════════════════════
+${objectionsOutput}
+
+${customInstructions ? `═══════════════════════════════════════════════════
+CUSTOM INSTRUCTIONS FROM USER:
+${customInstructions}
+═══════════════════════════════════════════════════` : ''}
+
+Now rewrite the original text to make it objection-proof. Remember:
+- For DEVASTATING objections: Substantially change content/claims to eliminate the vulnerability
+- For FORCEFUL objections: Add language that removes even the appearance of force
+- For MINOR objections: Add subtle preemptive framing
+
+Provide:
+1. A CHANGE LOG showing how each major objection was addressed
+2. The complete REWRITTEN TEXT`;
+
+      // Use Anthropic Claude for the rewriting (best for nuanced writing tasks), OpenAI as the fallback
+      const rewriteProvider = process.env.ANTHROPIC_API_KEY ? 'anthropic' : process.env.OPENAI_API_KEY ? 'openai' : null;
+      if (!rewriteProvider) {
+        return sendError(res, 500, "No AI provider configured for objection-proof rewriting");
+      }
+
+      const response = await completeChat(rewriteProvider, {
+        model: rewriteProvider === 'anthropic' ? "claude-sonnet-4-20250514" : "gpt-4o",
+        maxTokens: 8000,
+        system: systemPrompt,
+        messages: [{ role: "user", content: userPrompt }]
+      });
+      const output = response.text;
+
+      // Add header only if not finalVersionOnly
+      const finalOutput = finalVersionOnly 
+        ? output  // Just the clean text, no header
+        : `═══════════════════════════════════════════════════
+OBJECTION-PROOF VERSION
+═══════════════════════════════════════════════════
+Generated by analyzing and pre-empting identified objections
+═══════════════════════════════════════════════════
+
+${output}`;
+
+      console.log(`[OBJECTION-PROOF] Generated successfully`);
+
+      res.json({
+        success: true,
+        output: finalOutput
+      });
+
+    } catch (error: any) {
+      console.error("OBJECTION-PROOF error:", error);
+      sendError(res, 500, error.message || "Objection-proof rewriting failed");
+    }
+  });
+
+  // Refine Output - Adjust word count and/or apply custom instructions
+  app.post("/api/refine-output", async (req: Request, res: Response) => {
+    try {
+      const { text, targetWordCount, customInstructions } = req.body;
+
+      if (!text) {
+        return sendError(res, 400, "Text is required");
+      }
+
+      if (!targetWordCount && !customInstructions) {
+        return sendError(res, 400, "Either target word count or custom instructions are required");
+      }
+
+      const currentWordCount = text.trim().split(/\s+/).length;
+      console.log(`[REFINE] Current word count: ${currentWordCount}, Target: ${targetWordCount || 'N/A'}`);
+      console.log(`[REFINE] Custom instructions: ${customInstructions ? 'provided' : 'none'}`);
+
+      let instructions = [];
+      if (targetWordCount) {
+        const diff = targetWordCount - currentWordCount;
+        if (diff < 0) {
+          instructions.push(`Reduce the text to approximately ${targetWordCount} words (currently ${currentWordCount} words, need to cut ~${Math.abs(diff)} words). Remove redundancies, tighten prose, and eliminate unnecessary elaboration while preserving all key ideas and arguments.`);
+        } else if (diff > 0) {
+          instructions.push(`Expand the text to approximately ${targetWordCount} words (currently ${currentWordCount} words, need to add ~${diff} words). Add relevant examples, elaboration, or supporting details while maintaining coherence and not padding with filler.`);
+        }
+      }
+      if (customInstructions) {
+        instructions.push(`Additional requirements: ${customInstructions}`);
+      }
+
+      const systemPrompt = `You are an expert editor. Your task is to refine and adjust the provided text according to specific instructions while maintaining its core meaning, argument structure, and quality. Output ONLY the refined text - no commentary, explanations, or meta-discussion.`;
+
+      const userPrompt = `TEXT TO REFINE:
+${text}
+
+INSTRUCTIONS:
+${instructions.join('\n\n')}
+
+Provide the refined text only. No commentary or explanation.`;
+
+      const rewriteProvider = process.env.ANTHROPIC_API_KEY ? 'anthropic' : process.env.OPENAI_API_KEY ? 'openai' : null;
+      if (!rewriteProvider) {
+        return sendError(res, 500, "No AI provider configured");
+      }
+
+      const response = await completeChat(rewriteProvider, {
+        model: rewriteProvider === 'anthropic' ? "claude-sonnet-4-20250514" : "gpt-4o",
+        maxTokens: 8000,
+        system: systemPrompt,
+        messages: [{ role: "user", content: userPrompt }]
+      });
+      const output = response.text;
+
+      const newWordCount = output.trim().split(/\s+/).length;
+      console.log(`[REFINE] Output word count: ${newWordCount}`);
+
+      res.json({
+        success: true,
+        output: output,
+        wordCount: newWordCount
+      });
+
+    } catch (error: any) {
+      console.error("REFINE error:", error);
+      sendError(res, 500, error.message || "Refinement failed");
+    }
+  });
+}
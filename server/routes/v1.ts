@@ -0,0 +1,255 @@
+import type { Express, Request, Response } from "express";
+import type { z, ZodTypeAny } from "zod";
+import { storage } from "../storage";
+import { requireScope, sendV1Error } from "../lib/apiTokens";
+import { holdCredits } from "../lib/creditMetering";
+import {
+  v1ReconstructionRequestSchema,
+  v1CoherenceRequestSchema,
+  v1PipelineRequestSchema,
+  v1TranslationRequestSchema,
+  DEFAULT_PIPELINE_STAGES,
+  type V1Job
+} from "@shared/schema";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PUBLIC API v1
+// Authenticated by personal API tokens (apiTokenAuth is mounted on /api/v1 in
+// routes.ts). Bodies are validated with the v1 schemas from shared/schema.ts;
+// responses are { data } or { error: { code, message, details? } }.
+// Long-running work (reconstruction, pipeline) returns 202 with a job to poll.
+// ═══════════════════════════════════════════════════════════════════════════
+
+function parseBody<S extends ZodTypeAny>(schema: S, req: Request, res: Response): z.output<S> | null {
+  const result = schema.safeParse(req.body);
+  if (!result.success) {
+    sendV1Error(res, 400, { code: "invalid_request", message: "Request body failed validation", details: result.error.errors });
+    return null;
+  }
+  return result.data;
+}
+
+function parseId(req: Request, res: Response): number | null {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    sendV1Error(res, 400, { code: "invalid_request", message: "Invalid id" });
+    return null;
+  }
+  return id;
+}
+
+function internalError(res: Response, context: string, error: any) {
+  console.error(`[API v1] ${context} error:`, error);
+  if (!res.headersSent) {
+    sendV1Error(res, 500, { code: "internal_error", message: error.message || "Internal error" });
+  }
+}
+
+function reconstructionJob(project: any): V1Job {
+  return {
+    id: project.id,
+    type: "reconstruction",
+    status: project.status,
+    createdAt: project.createdAt,
+    result: project.status === "completed" ? { title: project.title, reconstructedText: project.reconstructedText } : null,
+    error: project.status === "failed" ? "Reconstruction failed" : null
+  };
+}
+
+export function registerV1Routes(app: Express) {
+  // ─── Reconstruction ──────────────────────────────────────────────────────
+  app.post("/api/v1/reconstructions", requireScope("reconstruction"), async (req: Request, res: Response) => {
+    const body = parseBody(v1ReconstructionRequestSchema, req, res);
+    if (!body) return;
+
+    try {
+      const userId = req.user!.id;
+      const project = await storage.createReconstructionProject({
+        userId,
+        title: body.title || "Untitled Reconstruction",
+        originalText: body.text,
+        targetWordCount: body.targetWordCount,
+        customInstructions: body.customInstructions,
+        status: "processing"
+      });
+
+      const { runWithLLMContext } = await import('../services/llmContext');
+      const credits = holdCredits(res);
+      runWithLLMContext({ mode: 'record', jobId: project.id, jobType: 'reconstruction_project', userId }, async () => {
+        try {
+          const { crossChunkReconstruct } = await import('../services/crossChunkCoherence');
+          const result = await crossChunkReconstruct(
+            body.text,
+            body.customInstructions || `Expand to approximately ${body.targetWordCount} words while preserving the original argument structure.`,
+            'anthropic'
+          );
+          await storage.updateReconstructionProject(project.id, {
+            reconstructedText: result.reconstructedText,
+            status: 'completed'
+          });
+          await credits.settle();
+        } catch (error: any) {
+          console.error(`[API v1] Reconstruction ${project.id} failed:`, error.message);
+          await storage.updateReconstructionProject(project.id, { status: 'failed' });
+          await credits.refund(error.message);
+        }
+      });
+
+      res.status(202).json({ data: reconstructionJob(project) });
+    } catch (error: any) {
+      internalError(res, "Reconstruction start", error);
+    }
+  });
+
+  app.get("/api/v1/reconstructions/:id", requireScope("reconstruction"), async (req: Request, res: Response) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    try {
+      const project = await storage.getReconstructionProject(id);
+      if (!project || project.userId !== req.user!.id) {
+        return sendV1Error(res, 404, { code: "not_found", message: "Reconstruction not found" });
+      }
+      res.json({ data: reconstructionJob(project) });
+    } catch (error: any) {
+      internalError(res, "Reconstruction status", error);
+    }
+  });
+
+  // ─── Coherence meter ─────────────────────────────────────────────────────
+  app.post("/api/v1/coherence", requireScope("coherence"), async (req: Request, res: Response) => {
+    const body = parseBody(v1CoherenceRequestSchema, req, res);
+    if (!body) return;
+
+    try {
+      const meter = await import('../services/coherenceMeter');
+      const { getCoherenceMode } = await import('../services/coherenceModes');
+      const definition = getCoherenceMode(body.coherenceType);
+
+      let data: Record<string, unknown>;
+      if (body.mode === "analyze") {
+        const result = await definition.analyze(body.text);
+        data = { score: result.score, assessment: result.assessment, analysis: result.analysis, subscores: result.subscores, ...result.details };
+      } else if (body.mode === "reconstruct") {
+        const result = await meter.reconstructToMaxCoherence(body.text, body.coherenceType);
+        data = {
+          text: result.reconstructedText,
+          changes: result.changes,
+          wasReconstructed: result.wasReconstructed,
+          adjacentMaterialAdded: result.adjacentMaterialAdded
+        };
+      } else {
+        const aggressiveness = body.mode === "rewrite-max" ? "aggressive" : body.aggressiveness;
+        const result = await definition.rewrite(body.text, aggressiveness);
+        data = { text: result.rewrittenText, changes: result.changes, ...result.details };
+      }
+
+      res.json({ data: { mode: body.mode, coherenceType: body.coherenceType, ...data } });
+    } catch (error: any) {
+      internalError(res, "Coherence", error);
+    }
+  });
+
+  // ─── Full pipeline ───────────────────────────────────────────────────────
+  app.post("/api/v1/pipelines", requireScope("pipeline"), async (req: Request, res: Response) => {
+    const body = parseBody(v1PipelineRequestSchema, req, res);
+    if (!body) return;
+
+    try {
+      const { pipelineJobs } = await import('@shared/schema');
+      const { db } = await import('../db');
+      const { validatePipelineStages } = await import('../services/pipelineOrchestrator');
+      const { enqueueRequestJob } = await import('../services/jobQueue');
+
+      const stages = body.stages || DEFAULT_PIPELINE_STAGES;
+      const stageErrors = validatePipelineStages(stages);
+      if (stageErrors.length > 0) {
+        return sendV1Error(res, 400, { code: "invalid_request", message: "Invalid pipeline stages", details: stageErrors });
+      }
+
+      const userId = req.user!.id;
+      const wordCount = body.text.split(/\s+/).filter(w => w).length;
+      const [job] = await db.insert(pipelineJobs).values({
+        userId,
+        originalText: body.text,
+        originalWordCount: wordCount,
+        customInstructions: body.customInstructions,
+        targetAudience: body.targetAudience,
+        objective: body.objective,
+        stageDefinitions: stages,
+        totalStages: stages.length,
+        status: 'queued',
+        currentStage: 1,
+        stageStatus: 'pending'
+      }).returning();
+
+      await enqueueRequestJob(res, { jobType: 'pipeline', targetId: job.id, userId });
+
+      res.status(202).json({
+        data: { id: job.id, type: "pipeline", status: job.status || "queued", createdAt: job.createdAt, result: null, error: null } satisfies V1Job
+      });
+    } catch (error: any) {
+      internalError(res, "Pipeline start", error);
+    }
+  });
+
+  app.get("/api/v1/pipelines/:id", requireScope("pipeline"), async (req: Request, res: Response) => {
+    const id = parseId(req, res);
+    if (id === null) return;
+
+    try {
+      const { getPipelineStatus, getPipelineStageRuns } = await import('../services/pipelineOrchestrator');
+      const job = await getPipelineStatus(id);
+      if (!job || job.userId !== req.user!.id) {
+        return sendV1Error(res, 404, { code: "not_found", message: "Pipeline job not found" });
+      }
+
+      const stageRuns = await getPipelineStageRuns(id);
+      const stages = stageRuns.map(run => ({
+        index: run.stageIndex,
+        name: run.stageName,
+        status: run.status,
+        words: run.outputWords,
+        output: job.status === "completed" ? run.output : undefined
+      }));
+
+      const data: V1Job & { currentStage: number | null; totalStages: number | null; stages: typeof stages } = {
+        id: job.id,
+        type: "pipeline",
+        status: job.status || "pending",
+        createdAt: job.createdAt,
+        result: job.status === "completed" ? { final: stageRuns[stageRuns.length - 1]?.output ?? null, hcCheck: job.hcCheckResults } : null,
+        error: job.errorMessage,
+        currentStage: job.currentStage,
+        totalStages: job.totalStages,
+        stages
+      };
+      res.json({ data });
+    } catch (error: any) {
+      internalError(res, "Pipeline status", error);
+    }
+  });
+
+  // ─── Translation ─────────────────────────────────────────────────────────
+  app.post("/api/v1/translations", requireScope("translation"), async (req: Request, res: Response) => {
+    const body = parseBody(v1TranslationRequestSchema, req, res);
+    if (!body) return;
+
+    try {
+      const { translateDocument } = await import('../services/translationService');
+      const result = await translateDocument(
+        body.text,
+        { targetLanguage: body.targetLanguage, sourceLanguage: body.sourceLanguage, preserveFormatting: body.preserveFormatting },
+        body.provider
+      );
+      res.json({ data: { ...result, provider: body.provider } });
+    } catch (error: any) {
+      internalError(res, "Translation", error);
+    }
+  });
+
+  // Anything else under /api/v1 gets an envelope instead of the SPA fallback
+  app.all("/api/v1/*", (req: Request, res: Response) => {
+    sendV1Error(res, 404, { code: "not_found", message: `No such endpoint: ${req.method} ${req.path}` });
+  });
+}
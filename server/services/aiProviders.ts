@@ -1,5 +1,4 @@
-import OpenAI from "openai";
-import Anthropic from '@anthropic-ai/sdk';
+import { completePrompt, isProviderConfigured, getConfiguredProviders } from './llmProviders';
 
 /*
 <important_code_snippet_instructions>
@@ -13,29 +12,6 @@ const DEFAULT_OPENAI_MODEL = "gpt-4o";
 const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-20250514";
 // </important_do_not_delete>
 
-let openai: OpenAI | null = null;
-let anthropic: Anthropic | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openai;
-}
-
-function getAnthropic(): Anthropic {
-  if (!anthropic) {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY is not configured');
-    }
-    anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  }
-  return anthropic;
-}
-
 const PRESET_TEXT: Record<string,string> = {
   // Advanced Techniques
   "Mixed cadence + clause sprawl": "Alternate short and long sentences; allow some long sentences to wander with extra clauses.",
@@ -149,26 +125,6 @@ export interface RewriteParams {
   mixingMode?: 'style' | 'content' | 'both';
 }
 
-// Provider priority order for failover (most preferred first)
-const PROVIDER_PRIORITY = ['openai', 'anthropic', 'deepseek', 'grok'] as const;
-
-// Check if a provider is configured (has API key)
-function isProviderConfigured(provider: string): boolean {
-  switch (provider) {
-    case 'openai': return !!process.env.OPENAI_API_KEY;
-    case 'anthropic': return !!process.env.ANTHROPIC_API_KEY;
-    case 'deepseek': return !!process.env.DEEPSEEK_API_KEY;
-    case 'grok': return !!process.env.GROK_API_KEY;
-    case 'perplexity': return !!process.env.PERPLEXITY_API_KEY;
-    default: return false;
-  }
-}
-
-// Get configured providers in priority order
-function getConfiguredProviders(): string[] {
-  return PROVIDER_PRIORITY.filter(p => isProviderConfigured(p));
-}
-
 export class AIProviderService {
   // Automatic failover: tries providers in sequence until one succeeds
   async rewriteWithFailover(params: RewriteParams, preferredProvider?: string): Promise<string> {
@@ -213,149 +169,38 @@ export class AIProviderService {
       case 'deepseek': return await this.rewriteWithDeepSeek(params);
       case 'grok': return await this.rewriteWithGrok(params);
       case 'perplexity': return await this.rewriteWithPerplexity(params);
+      case 'local': return await this.rewriteWithLocal(params);
       default: throw new Error(`Unknown provider: ${provider}`);
     }
   }
 
   async rewriteWithOpenAI(params: RewriteParams): Promise<string> {
-    console.log("🔥 CALLING OPENAI API - Input length:", params.inputText?.length || 0);
-    const prompt = buildRewritePrompt({
-      inputText: params.inputText,
-      styleText: params.styleText,
-      contentMixText: params.contentMixText,
-      selectedPresets: params.selectedPresets,
-      customInstructions: params.customInstructions,
-    });
-    console.log("🔥 User prompt length:", prompt.length);
-    
-    try {
-      console.log("🔥 About to make OpenAI API call...");
-      const response = await getOpenAI().chat.completions.create({
-        model: DEFAULT_OPENAI_MODEL,
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 4000,
-      });
-
-      console.log("🔥 OpenAI response received, length:", response.choices[0].message.content?.length || 0);
-      return this.cleanMarkup(response.choices[0].message.content || "");
-    } catch (error: any) {
-      console.error("🔥 OpenAI API ERROR:", error);
-      throw new Error(`OpenAI API error: ${error.message}`);
-    }
+    return this.rewriteVia('openai', DEFAULT_OPENAI_MODEL, params);
   }
 
   async rewriteWithAnthropic(params: RewriteParams): Promise<string> {
-    console.log("🔥 CALLING ANTHROPIC API - Input length:", params.inputText?.length || 0);
-    const prompt = buildRewritePrompt({
-      inputText: params.inputText,
-      styleText: params.styleText,
-      contentMixText: params.contentMixText,
-      selectedPresets: params.selectedPresets,
-      customInstructions: params.customInstructions,
-    });
-    console.log("🔥 User prompt length:", prompt.length);
-    
-    try {
-      console.log("🔥 About to make Anthropic API call...");
-      const response = await getAnthropic().messages.create({
-        model: DEFAULT_ANTHROPIC_MODEL,
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 4000,
-        temperature: 0.7,
-      });
-
-      const textBlock = response.content[0];
-      const text = textBlock.type === 'text' ? textBlock.text : '';
-      console.log("🔥 Anthropic response received, length:", text?.length || 0);
-      return this.cleanMarkup(text || "");
-    } catch (error: any) {
-      console.error("🔥 ANTHROPIC API ERROR:", error);
-      throw new Error(`Anthropic API error: ${error.message}`);
-    }
+    return this.rewriteVia('anthropic', DEFAULT_ANTHROPIC_MODEL, params);
   }
 
   async rewriteWithPerplexity(params: RewriteParams): Promise<string> {
-    const prompt = buildRewritePrompt({
-      inputText: params.inputText,
-      styleText: params.styleText,
-      contentMixText: params.contentMixText,
-      selectedPresets: params.selectedPresets,
-      customInstructions: params.customInstructions,
-    });
-    
-    try {
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: "llama-3.1-sonar-small-128k-online",
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-          stream: false,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Perplexity API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
-    } catch (error: any) {
-      throw new Error(`Perplexity API error: ${error.message}`);
-    }
+    return this.rewriteVia('perplexity', "llama-3.1-sonar-small-128k-online", params);
   }
 
   async rewriteWithDeepSeek(params: RewriteParams): Promise<string> {
-    const prompt = buildRewritePrompt({
-      inputText: params.inputText,
-      styleText: params.styleText,
-      contentMixText: params.contentMixText,
-      selectedPresets: params.selectedPresets,
-      customInstructions: params.customInstructions,
-    });
-    
-    try {
-      const response = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-          stream: false,
-        }),
-      });
+    return this.rewriteVia('deepseek', "deepseek-chat", params);
+  }
 
-      if (!response.ok) {
-        throw new Error(`DeepSeek API error: ${response.statusText}`);
-      }
+  async rewriteWithGrok(params: RewriteParams): Promise<string> {
+    return this.rewriteVia('grok', "grok-3-latest", params);
+  }
 
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
-    } catch (error: any) {
-      throw new Error(`DeepSeek API error: ${error.message}`);
-    }
+  async rewriteWithLocal(params: RewriteParams): Promise<string> {
+    return this.rewriteVia('local', undefined, params);
   }
 
-  async rewriteWithGrok(params: RewriteParams): Promise<string> {
+  // Shared body for every provider; the registry owns the client
+  private async rewriteVia(provider: string, model: string | undefined, params: RewriteParams): Promise<string> {
+    console.log(`🔥 CALLING ${provider.toUpperCase()} API - Input length:`, params.inputText?.length || 0);
     const prompt = buildRewritePrompt({
       inputText: params.inputText,
       styleText: params.styleText,
@@ -363,33 +208,19 @@ export class AIProviderService {
       selectedPresets: params.selectedPresets,
       customInstructions: params.customInstructions,
     });
-    
+    console.log("🔥 User prompt length:", prompt.length);
+
     try {
-      const response = await fetch('https://api.x.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: "grok-3-latest",
-          messages: [
-            { role: "user", content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-          stream: false,
-        }),
+      const response = await completePrompt(provider, prompt, {
+        model,
+        temperature: 0.7,
+        maxTokens: 4000,
       });
-
-      if (!response.ok) {
-        throw new Error(`Grok API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return this.cleanMarkup(data.choices[0].message.content || "");
+      console.log(`🔥 ${provider} response received, length:`, response.text.length);
+      return this.cleanMarkup(response.text);
     } catch (error: any) {
-      throw new Error(`Grok API error: ${error.message}`);
+      console.error(`🔥 ${provider.toUpperCase()} API ERROR:`, error);
+      throw new Error(`${provider} API error: ${error.message}`);
     }
   }
 
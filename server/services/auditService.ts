@@ -11,6 +11,8 @@ import {
   InsertLengthEnforcementLog,
   InsertJobHistory
 } from '@shared/schema';
+import type { ChatResponse } from './llmProviders';
+import { getLLMContext } from './llmContext';
 
 export async function logAuditEvent(event: InsertAuditEvent): Promise<number> {
   try {
@@ -26,8 +28,8 @@ export async function logLLMCall(params: {
   userId?: number;
   jobId?: number;
   jobType?: string;
-  modelName: string;
-  provider: string;
+  modelName?: string;
+  provider?: string;
   promptSummary?: string;
   promptFull?: string;
   responseSummary?: string;
@@ -37,8 +39,24 @@ export async function logLLMCall(params: {
   latencyMs?: number;
   status?: string;
   errorMessage?: string;
+  // Full exchange from the provider registry; recorded for replay
+  exchange?: ChatResponse;
 }): Promise<number> {
   try {
+    const context = getLLMContext();
+    const exchange = params.exchange;
+    params = {
+      ...params,
+      userId: params.userId ?? context?.userId,
+      jobId: params.jobId ?? context?.jobId,
+      jobType: params.jobType ?? context?.jobType,
+      modelName: params.modelName ?? exchange?.model ?? 'unknown',
+      provider: params.provider ?? exchange?.provider ?? 'unknown',
+      inputTokens: params.inputTokens ?? exchange?.inputTokens,
+      outputTokens: params.outputTokens ?? exchange?.outputTokens,
+      latencyMs: params.latencyMs ?? exchange?.latencyMs
+    };
+
     const auditEventId = await logAuditEvent({
       userId: params.userId,
       jobId: params.jobId,
@@ -58,9 +76,10 @@ export async function logLLMCall(params: {
       userId: params.userId,
       jobId: params.jobId,
       jobType: params.jobType,
+      creditTransactionId: context?.creditTransactionId,
       auditEventId: auditEventId > 0 ? auditEventId : undefined,
-      modelName: params.modelName,
-      provider: params.provider,
+      modelName: params.modelName!,
+      provider: params.provider!,
       inputTokens: params.inputTokens,
       outputTokens: params.outputTokens,
       promptSummary: params.promptSummary,
@@ -69,7 +88,19 @@ export async function logLLMCall(params: {
       responseFull: params.responseFull,
       latencyMs: params.latencyMs,
       status: params.status || 'success',
-      errorMessage: params.errorMessage
+      errorMessage: params.errorMessage,
+      promptHash: exchange?.promptHash,
+      requestBody: exchange?.request,
+      responseBody: exchange ? {
+        text: exchange.text,
+        provider: exchange.provider,
+        model: exchange.model,
+        inputTokens: exchange.inputTokens,
+        outputTokens: exchange.outputTokens,
+        finishReason: exchange.finishReason,
+        citations: exchange.citations
+      } : undefined,
+      replayed: exchange?.replayed ?? false
     }).returning({ id: llmCalls.id });
 
     console.log(`[AUDIT] LLM call logged: ${params.provider}/${params.modelName} (id: ${result.id})`);
@@ -1,205 +1,535 @@
-import fs from 'fs';
-import path from 'path';
-import { evaluateIntelligence } from './openai';
+import { createHash } from 'crypto';
+import { eq, and, asc, desc, inArray, isNull, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  calibrationSets,
+  calibrationSamples,
+  calibrationRuns,
+  calibrationResults,
+  DEFAULT_CALIBRATION_MAE_THRESHOLD,
+  type CalibrationSet,
+  type CalibrationSample,
+  type CalibrationRun,
+  type CalibrationScorer,
+  type CalibrationSetInput,
+  type CalibrationRunInput,
+} from '@shared/schema';
+import { mapZhiToProvider } from '../utils/providerMapping';
+import { logAuditEvent, logLLMCall, summarizeText } from './auditService';
 
-interface CalibrationSample {
-  name: string;
-  filePath: string;
-  expectedScore: number;
-  reason: string;
-  sampleText: string; // Sample text for testing
-}
+// ═══════════════════════════════════════════════════════════════════════════
+// CALIBRATION SUITES
+// Versioned calibration sets in the database, scored by a chosen scorer,
+// provider and model. Runs execute on the job worker (job type "calibration")
+// one sample at a time, so an interrupted run resumes where it stopped. When a
+// run's mean absolute error exceeds the set's threshold it is flagged and a
+// calibration_alert audit event is written.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_CALIBRATION_SET_NAME = "intelligence-calibration-pack";
 
-// Define calibration samples with expected scores based on the final calibration pack
-const calibrationSamples: CalibrationSample[] = [
+// The original calibration pack; seeds version 1 of the default set
+const DEFAULT_CALIBRATION_SAMPLES: CalibrationSetInput['samples'] = [
   {
     name: "Sample 8: Pragmatism Paper Excerpt (Blueprint-Grade)",
-    filePath: "",
     expectedScore: 95, // 94-96 in calibration examples
     reason: "Blueprint-level compression and reframing of pragmatism. Deep recursive structure and high originality.",
-    sampleText: "Pragmatism has tremendous value—as a description, not of truth per se, but of our knowledge of it—and, more precisely, of our acquisition of that knowledge. [...] Truth per se is discovered, not made. But knowledge is indeed made."
+    text: "Pragmatism has tremendous value—as a description, not of truth per se, but of our knowledge of it—and, more precisely, of our acquisition of that knowledge. [...] Truth per se is discovered, not made. But knowledge is indeed made."
   },
   {
     name: "Sample 7: The Will to Project (Blueprint-Grade)",
-    filePath: "",
     expectedScore: 94,
     reason: "Major compression of psychological and metaphysical concepts into a recursive explanatory model. Demonstrates blueprint-grade cognitive structure.",
-    sampleText: "A projected being is ipso facto supernatural. A hallucinated Mr. Spock—in other words, a Mr. Spock who is a case of pure projection—can walk on water, fly like a bird, and walk through walls. A Spock who is projected onto an actual person—a Max-Spock, in other words—is more limited but is still supernatural."
+    text: "A projected being is ipso facto supernatural. A hallucinated Mr. Spock—in other words, a Mr. Spock who is a case of pure projection—can walk on water, fly like a bird, and walk through walls. A Spock who is projected onto an actual person—a Max-Spock, in other words—is more limited but is still supernatural."
   },
   {
     name: "Sample 5: CTM Critique (Blueprint-Grade)",
-    filePath: "",
     expectedScore: 94,
     reason: "Deep structural critique of CTM based on linguistic precision. Major compression and original reframing.",
-    sampleText: "Words like 'form' and 'formal' are ambiguous, as they can refer to form in either the syntactic or the morphological sense. CTM fails on each disambiguation, and the arguments for CTM immediately cease to be compelling once we register that ambiguity."
+    text: "Words like 'form' and 'formal' are ambiguous, as they can refer to form in either the syntactic or the morphological sense. CTM fails on each disambiguation, and the arguments for CTM immediately cease to be compelling once we register that ambiguity."
   },
   {
     name: "Sample 6: Revised Dianetics Book Review (Blueprint-Grade)",
-    filePath: "",
     expectedScore: 92,
     reason: "Shows independent sociological framing. Strong semantic compression and inferential continuity.",
-    sampleText: "In Urban's view, practically everything about the Church is ambiguous. It is ambiguous whether it benefits its own members. It is also ambiguous what it is exactly. In some respects, it is a religion; in others, a corporation. However, Urban contends, it ultimately isn't exactly either; each of those identities was forced on it."
+    text: "In Urban's view, practically everything about the Church is ambiguous. It is ambiguous whether it benefits its own members. It is also ambiguous what it is exactly. In some respects, it is a religion; in others, a corporation. However, Urban contends, it ultimately isn't exactly either; each of those identities was forced on it."
   },
   {
     name: "Sample 4: Ninety Paradoxes (Blueprint-Grade)",
-    filePath: "", 
     expectedScore: 90,
     reason: "Original pattern recognition compressed into a sharp conceptual tool. High inferential compression across examples.",
-    sampleText: "The more useless a given employee is to the organization that employs her, the more unstintingly she will toe that organization's line. This is a corollary of the loser paradox."
+    text: "The more useless a given employee is to the organization that employs her, the more unstintingly she will toe that organization's line. This is a corollary of the loser paradox."
   },
   {
     name: "Sample 3: Market Efficiency Meta-Critique (Strong Analysis)",
-    filePath: "",
     expectedScore: 78,
     reason: "Shows solid compression and reframing (meta-predictions destabilizing efficiency), but not full blueprint-grade recursion or density.",
-    sampleText: "In economic theory, market efficiency is often idealized as the natural outcome of rational actors optimizing their resources. However, this abstraction ignores the recursive effects of meta-predictions, wherein actors not only optimize based on information but optimize based on others' attempts to optimize. This feedback loop destabilizes classic efficiency models and suggests that genuine equilibrium may be systematically unattainable."
+    text: "In economic theory, market efficiency is often idealized as the natural outcome of rational actors optimizing their resources. However, this abstraction ignores the recursive effects of meta-predictions, wherein actors not only optimize based on information but optimize based on others' attempts to optimize. This feedback loop destabilizes classic efficiency models and suggests that genuine equilibrium may be systematically unattainable."
   },
   {
     name: "Sample 2: Free Will Bias Paragraph (Moderate Analysis)",
-    filePath: "",
     expectedScore: 55,
     reason: "Basic inferential step is made (action vs. will), but compression is low and structure is relatively flat. Moderate but not blueprint-level thinking.",
-    sampleText: "Free will is often said to mean acting without external compulsion. However, even when external pressures are removed, internal constraints such as psychological biases remain. Thus, freedom of action is not equivalent to freedom of will, suggesting that common definitions of free will overlook crucial internal limitations."
+    text: "Free will is often said to mean acting without external compulsion. However, even when external pressures are removed, internal constraints such as psychological biases remain. Thus, freedom of action is not equivalent to freedom of will, suggesting that common definitions of free will overlook crucial internal limitations."
   },
   {
     name: "Sample 1: AI-Generated Paragraph (Low Structure)",
-    filePath: "",
     expectedScore: 40,
     reason: "Random surface fluency without any conceptual compression or inferential continuity. No meaningful claims or structure.",
-    sampleText: "Life is like really strange because like sometimes you just don't know what's happening and sometimes it's good and sometimes it's bad but it's just like that's how it is you know and we just kind of go along with it even though it's crazy and confusing."
+    text: "Life is like really strange because like sometimes you just don't know what's happening and sometimes it's good and sometimes it's bad but it's just like that's how it is you know and we just kind of go along with it even though it's crazy and confusing."
   }
 ];
 
+// Scoring prompt for the score_prompt scorer. Its hash is stored on each run,
+// so editing it starts a new series in the drift history.
+const SCORING_PROMPT = `You are scoring a writing sample for the intelligence it demonstrates, on a 0-100 scale.
+
+Score on cognitive substance, not polish:
+- semantic compression: how much meaning per word
+- inferential continuity: each claim follows from or builds on the previous ones
+- definitional clarity: sharp distinctions and operational definitions
+- originality: new framing rather than restated orthodoxy
+
+Bands:
+- 90-98: blueprint-grade; original conceptual framework, dense and recursive
+- 80-89: advanced critique; strong reasoning without a new framework
+- 60-79: surface polish; competent but conventional
+- 40-59: fluent but shallow; little inference or compression
+- below 40: noise; no claims or structure
+
+Do not reward academic tone, jargon or length. Short texts can score high.
+
+Respond with JSON only: {"score": <integer 0-100>, "rationale": "<one or two sentences>"}`;
+
+const SCORING_PROMPT_HASH = createHash('sha256').update(SCORING_PROMPT).digest('hex').slice(0, 12);
+
+export interface CalibrationSetWithSamples extends CalibrationSet {
+  samples: CalibrationSample[];
+}
+
+export interface CalibrationSetSummary extends CalibrationSet {
+  sampleCount: number;
+  latestRun: CalibrationRun | null;
+}
+
+interface SampleScore {
+  score: number;
+  model?: string;
+  details?: Record<string, any>;
+}
+
+// ============ SETS ============
+
 /**
- * Test the intelligence evaluation on the calibration samples
+ * Saves a calibration set as the next version of its name (version 1 for a new name).
+ * Two saves of the same name at once compute the same version; the unique
+ * (name, version) index rejects the second, see isCalibrationVersionConflict.
  */
-export async function testCalibrationSamples(): Promise<{
-  results: Array<{
-    sample: string;
-    expectedScore: number;
-    actualScore: number;
-    difference: number;
-    evaluation: any;
-  }>;
-  summary: {
-    averageDifference: number;
-    adjustments: Record<string, number>;
-  };
-}> {
-  console.log("Starting calibration tests...");
-  const results = [];
-  let totalDifference = 0;
+export async function createCalibrationSet(input: CalibrationSetInput, userId?: number): Promise<CalibrationSetWithSamples> {
+  return await db.transaction(async (tx) => {
+    const [previous] = await tx.select()
+      .from(calibrationSets)
+      .where(eq(calibrationSets.name, input.name))
+      .orderBy(desc(calibrationSets.version))
+      .limit(1);
+
+    const [set] = await tx.insert(calibrationSets).values({
+      name: input.name,
+      version: previous ? previous.version + 1 : 1,
+      description: input.description ?? previous?.description ?? null,
+      previousVersionId: previous?.id ?? null,
+      maeThreshold: input.maeThreshold ?? previous?.maeThreshold ?? DEFAULT_CALIBRATION_MAE_THRESHOLD,
+      createdBy: userId ?? null,
+    }).returning();
+
+    const samples = await tx.insert(calibrationSamples).values(input.samples.map((sample, index) => ({
+      setId: set.id,
+      position: index + 1,
+      name: sample.name,
+      text: sample.text,
+      expectedScore: sample.expectedScore,
+      reason: sample.reason ?? null,
+    }))).returning();
+
+    console.log(`[CALIBRATION] Saved set "${set.name}" v${set.version} with ${samples.length} samples`);
+    return { ...set, samples };
+  });
+}
+
+export function isCalibrationVersionConflict(error: any): boolean {
+  return error?.code === '23505' && error?.constraint === 'calibration_sets_name_version_idx';
+}
+
+// The original calibration pack becomes the first set when none exist yet
+export async function ensureDefaultCalibrationSet(): Promise<void> {
+  const [existing] = await db.select({ id: calibrationSets.id }).from(calibrationSets).limit(1);
+  if (existing) return;
+  try {
+    await createCalibrationSet({
+      name: DEFAULT_CALIBRATION_SET_NAME,
+      description: "Final calibration pack: blueprint-grade 90-98, advanced critique 80-89, surface polish 60-79, fluent but shallow 40-59, noise below 40.",
+      samples: DEFAULT_CALIBRATION_SAMPLES,
+    });
+  } catch (error: any) {
+    // Another request seeded it first
+    if (!isCalibrationVersionConflict(error)) throw error;
+  }
+}
+
+/**
+ * Latest version of every set, with its sample count and most recent run
+ */
+export async function listCalibrationSets(): Promise<CalibrationSetSummary[]> {
+  await ensureDefaultCalibrationSet();
+  const sets = await db.select().from(calibrationSets).orderBy(asc(calibrationSets.name), desc(calibrationSets.version));
+  const latest = sets.filter((set, i) => i === 0 || sets[i - 1].name !== set.name);
+  if (latest.length === 0) return [];
+
+  const ids = latest.map(s => s.id);
+  const counts = await db.select({ setId: calibrationSamples.setId, count: sql<number>`count(*)::int` })
+    .from(calibrationSamples)
+    .where(inArray(calibrationSamples.setId, ids))
+    .groupBy(calibrationSamples.setId);
+  const runs = await db.select().from(calibrationRuns)
+    .where(inArray(calibrationRuns.setId, ids))
+    .orderBy(desc(calibrationRuns.createdAt));
+
+  return latest.map(set => ({
+    ...set,
+    sampleCount: counts.find(c => c.setId === set.id)?.count || 0,
+    latestRun: runs.find(r => r.setId === set.id) || null,
+  }));
+}
+
+export async function getCalibrationSet(setId: number): Promise<CalibrationSetWithSamples | null> {
+  const [set] = await db.select().from(calibrationSets).where(eq(calibrationSets.id, setId));
+  if (!set) return null;
+  const samples = await db.select().from(calibrationSamples)
+    .where(eq(calibrationSamples.setId, setId))
+    .orderBy(asc(calibrationSamples.position));
+  return { ...set, samples };
+}
+
+export async function listCalibrationSetVersions(name: string): Promise<CalibrationSet[]> {
+  return await db.select().from(calibrationSets)
+    .where(eq(calibrationSets.name, name))
+    .orderBy(desc(calibrationSets.version));
+}
+
+// Words the run will send to the scorer; used to reserve credits for it
+export async function calibrationSetWordCount(setId: number): Promise<number> {
+  const [row] = await db.select({
+    words: sql<number>`coalesce(sum(array_length(regexp_split_to_array(trim(${calibrationSamples.text}), '\\s+'), 1)), 0)::int`
+  })
+    .from(calibrationSamples)
+    .where(eq(calibrationSamples.setId, setId));
+  return row?.words || 0;
+}
+
+// ============ RUNS ============
+
+/**
+ * Creates a queued run of a set. The provider is fixed for scorers that cannot
+ * choose one; for score_prompt it accepts zhi1-zhi5 or a provider name.
+ */
+export async function createCalibrationRun(setId: number, input: CalibrationRunInput, userId?: number): Promise<CalibrationRun> {
+  const set = await getCalibrationSet(setId);
+  if (!set) {
+    throw new Error(`Calibration set ${setId} not found`);
+  }
+
+  let provider: string;
+  let model: string | null = input.model ?? null;
+  let promptHash: string | null = null;
+  if (input.scorer === 'evaluate_intelligence') {
+    provider = 'openai';
+    model = 'gpt-4o';
+  } else if (input.scorer === 'local_metrics') {
+    provider = 'local_metrics';
+    model = null;
+  } else {
+    const { getProvider } = await import('./llmProviders');
+    provider = getProvider(mapZhiToProvider(input.provider || 'zhi1')).name;
+    promptHash = SCORING_PROMPT_HASH;
+  }
+
+  const [run] = await db.insert(calibrationRuns).values({
+    setId,
+    scorer: input.scorer,
+    provider,
+    model,
+    promptHash,
+    status: 'queued',
+    sampleCount: set.samples.length,
+    maeThreshold: set.maeThreshold,
+    userId: userId ?? null,
+  }).returning();
+  return run;
+}
 
-  // Test each calibration sample
-  for (const sample of calibrationSamples) {
+function parseScore(text: string): number {
+  let value: number | undefined;
+  try {
+    const parsed = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    value = Number(parsed.score);
+  } catch {
+    const match = text.match(/"?score"?\s*[:=]\s*(\d+(?:\.\d+)?)/i);
+    value = match ? Number(match[1]) : undefined;
+  }
+  if (value === undefined || !isFinite(value)) {
+    throw new Error(`No score in response: ${summarizeText(text, 100)}`);
+  }
+  return Math.max(0, Math.min(100, value));
+}
+
+async function scoreSample(run: CalibrationRun, text: string): Promise<SampleScore> {
+  switch (run.scorer as CalibrationScorer) {
+    case 'evaluate_intelligence': {
+      const { evaluateIntelligence } = await import('./openai');
+      const evaluation = await evaluateIntelligence(text);
+      return {
+        score: evaluation.overallScore,
+        model: 'gpt-4o',
+        details: { surfaceScore: evaluation.surfaceScore, deepScore: evaluation.deepScore, deep: evaluation.deep },
+      };
+    }
+    case 'local_metrics': {
+      const { computeLocalPreScore } = await import('./textMetrics');
+      const preScore = computeLocalPreScore(text);
+      return { score: preScore.overallScore, details: { deep: preScore.deep, reliable: preScore.reliable } };
+    }
+    case 'score_prompt': {
+      const { completeChat } = await import('./llmProviders');
+      const response = await completeChat(run.provider, {
+        system: SCORING_PROMPT,
+        messages: [{ role: 'user', content: `WRITING SAMPLE:\n\n${text}` }],
+        model: run.model ?? undefined,
+        temperature: 0,
+        maxTokens: 300,
+        jsonMode: true,
+      });
+      await logLLMCall({
+        promptSummary: summarizeText(text, 100),
+        responseSummary: summarizeText(response.text, 200),
+        exchange: response,
+      });
+      let rationale: string | undefined;
+      try { rationale = JSON.parse(response.text).rationale; } catch { /* score parsed leniently below */ }
+      return { score: parseScore(response.text), model: response.model, details: { rationale } };
+    }
+    default:
+      throw new Error(`Unknown calibration scorer: ${run.scorer}`);
+  }
+}
+
+/**
+ * Scores every sample of the run that has no score yet, then summarizes the
+ * run. Called by the job worker; safe to call again after an interruption.
+ * Stops before the next sample once signal is aborted (the worker lost the lease).
+ */
+export async function resumeCalibrationRun(runId: number, signal?: AbortSignal): Promise<CalibrationRun> {
+  const [run] = await db.select().from(calibrationRuns).where(eq(calibrationRuns.id, runId));
+  if (!run) {
+    throw new Error(`Calibration run ${runId} not found`);
+  }
+  if (run.status === 'completed' || run.status === 'failed') {
+    return run;
+  }
+
+  await db.update(calibrationRuns).set({ status: 'running' }).where(eq(calibrationRuns.id, runId));
+  const samples = await db.select().from(calibrationSamples)
+    .where(eq(calibrationSamples.setId, run.setId))
+    .orderBy(asc(calibrationSamples.position));
+  // Samples that failed on an earlier attempt are scored again
+  await db.delete(calibrationResults)
+    .where(and(eq(calibrationResults.runId, runId), isNull(calibrationResults.actualScore)));
+  const done = new Set((await db.select({ sampleId: calibrationResults.sampleId })
+    .from(calibrationResults)
+    .where(eq(calibrationResults.runId, runId))).map(r => r.sampleId));
+
+  console.log(`[CALIBRATION] Run ${runId}: ${run.scorer} ${run.provider}${run.model ? `/${run.model}` : ''}, ${samples.length - done.size} of ${samples.length} samples to score`);
+
+  // A worker that took over the run may score a sample this one is still on;
+  // the first result stored for a sample wins
+  for (const sample of samples) {
+    if (done.has(sample.id)) continue;
+    signal?.throwIfAborted();
+    const startTime = Date.now();
     try {
-      console.log(`Testing sample: ${sample.name}`);
-      
-      // Instead of trying to read files which is problematic in this environment,
-      // we'll use the sample text we've included directly in our sample objects
-      console.log(`Testing calibration for sample: ${sample.name}`);
-      
-      // Use the sample text we've included with each calibration sample
-      const content = sample.sampleText;
-      
-      // Evaluate intelligence using OpenAI
-      const evaluation = await evaluateIntelligence(content);
-      
-      // Calculate difference between expected and actual score
-      const difference = sample.expectedScore - evaluation.overallScore;
-      totalDifference += Math.abs(difference);
-      
-      // Add result
-      results.push({
-        sample: sample.name,
+      const result = await scoreSample(run, sample.text);
+      await db.insert(calibrationResults).values({
+        runId,
+        sampleId: sample.id,
         expectedScore: sample.expectedScore,
-        actualScore: evaluation.overallScore,
-        difference,
-        evaluation
-      });
+        actualScore: result.score,
+        difference: result.score - sample.expectedScore,
+        model: result.model ?? run.model,
+        latencyMs: Date.now() - startTime,
+        details: result.details ?? null,
+      }).onConflictDoNothing({ target: [calibrationResults.runId, calibrationResults.sampleId] });
+      console.log(`[CALIBRATION] Run ${runId}: "${sample.name}" expected ${sample.expectedScore}, scored ${result.score}`);
     } catch (error: any) {
-      console.error(`Error testing sample ${sample.name}:`, error);
-      results.push({
-        sample: sample.name,
+      if (signal?.aborted) throw error;
+      // A sample that cannot be scored is recorded and left out of the error statistics
+      console.error(`[CALIBRATION] Run ${runId}: "${sample.name}" failed:`, error.message);
+      await db.insert(calibrationResults).values({
+        runId,
+        sampleId: sample.id,
         expectedScore: sample.expectedScore,
-        actualScore: 0,
-        difference: -sample.expectedScore,
-        evaluation: { error: error.message || 'Unknown error' }
-      });
-      totalDifference += Math.abs(sample.expectedScore);
+        latencyMs: Date.now() - startTime,
+        errorMessage: error.message || String(error),
+      }).onConflictDoNothing({ target: [calibrationResults.runId, calibrationResults.sampleId] });
     }
   }
 
-  // Calculate average difference
-  const averageDifference = totalDifference / calibrationSamples.length;
-  
-  // Calculate adjustments based on results
-  const adjustments = calculateScoringAdjustments(results);
-  
-  return {
-    results,
-    summary: {
-      averageDifference,
-      adjustments
-    }
-  };
+  return await finishCalibrationRun(runId);
+}
+
+async function finishCalibrationRun(runId: number): Promise<CalibrationRun> {
+  const [run] = await db.select().from(calibrationRuns).where(eq(calibrationRuns.id, runId));
+  const results = await db.select().from(calibrationResults).where(eq(calibrationResults.runId, runId));
+  const differences = results.filter(r => r.difference !== null).map(r => r.difference as number);
+  const failedCount = results.length - differences.length;
+
+  if (differences.length === 0) {
+    const [failed] = await db.update(calibrationRuns).set({
+      status: 'failed',
+      scoredCount: 0,
+      failedCount,
+      errorMessage: results[0]?.errorMessage || 'No samples could be scored',
+      completedAt: new Date(),
+    }).where(eq(calibrationRuns.id, runId)).returning();
+    return failed;
+  }
+
+  const absolute = differences.map(Math.abs);
+  const meanAbsoluteError = absolute.reduce((a, b) => a + b, 0) / absolute.length;
+  const meanSignedError = differences.reduce((a, b) => a + b, 0) / differences.length;
+  const alert = meanAbsoluteError > run.maeThreshold;
+
+  const [completed] = await db.update(calibrationRuns).set({
+    status: 'completed',
+    scoredCount: differences.length,
+    failedCount,
+    meanAbsoluteError,
+    meanSignedError,
+    maxAbsoluteError: Math.max(...absolute),
+    alert,
+    completedAt: new Date(),
+  }).where(eq(calibrationRuns.id, runId)).returning();
+
+  console.log(`[CALIBRATION] Run ${runId} completed: MAE ${meanAbsoluteError.toFixed(2)} (threshold ${run.maeThreshold}), bias ${meanSignedError.toFixed(2)}`);
+  if (alert) {
+    console.warn(`[CALIBRATION] ALERT: run ${runId} MAE ${meanAbsoluteError.toFixed(2)} exceeds threshold ${run.maeThreshold}`);
+    await logAuditEvent({
+      userId: run.userId,
+      jobId: runId,
+      jobType: 'calibration_run',
+      eventType: 'calibration_alert',
+      eventData: {
+        setId: run.setId,
+        scorer: run.scorer,
+        provider: run.provider,
+        model: run.model,
+        promptHash: run.promptHash,
+        meanAbsoluteError,
+        meanSignedError,
+        maeThreshold: run.maeThreshold,
+      },
+    });
+  }
+  return completed;
+}
+
+export async function getCalibrationRun(runId: number) {
+  const [run] = await db.select().from(calibrationRuns).where(eq(calibrationRuns.id, runId));
+  if (!run) return null;
+  const results = await db.select({
+    result: calibrationResults,
+    sampleName: calibrationSamples.name,
+  })
+    .from(calibrationResults)
+    .innerJoin(calibrationSamples, eq(calibrationResults.sampleId, calibrationSamples.id))
+    .where(eq(calibrationResults.runId, runId))
+    .orderBy(asc(calibrationSamples.position));
+  return { run, results: results.map(r => ({ ...r.result, sampleName: r.sampleName })) };
+}
+
+export async function markCalibrationRunStatus(runId: number, status: 'queued' | 'failed', errorMessage: string): Promise<void> {
+  await db.update(calibrationRuns)
+    .set({ status, errorMessage, ...(status === 'failed' ? { completedAt: new Date() } : {}) })
+    .where(eq(calibrationRuns.id, runId));
+}
+
+// ============ DRIFT ============
+
+export interface CalibrationDriftFilter {
+  scorer?: string;
+  provider?: string;
+  model?: string;
 }
 
 /**
- * Adjust the scoring algorithm based on calibration results
- * @returns Adjustment factors for scoring algorithm
+ * Completed runs of every version of a set, oldest first, with per-sample
+ * scores keyed by sample name so a sample can be followed across versions
  */
-export function calculateScoringAdjustments(calibrationResults: any[]): {
-  surfaceWeight: number;
-  deepWeight: number;
-  lowScoreAdjustment: number;
-  highScoreAdjustment: number;
-} {
-  // Fixed weights based on calibration pack requirements - NO SMOOTHING TO 80 ALLOWED
-  // 100% weight for deep cognitive features
-  let surfaceWeight = 0.00; // 0% weight for surface features
-  let deepWeight = 1.00;    // 100% weight for deep features
-  let lowScoreAdjustment = 0.0;  // No adjustment for lower scores
-  let highScoreAdjustment = 0.0; // No adjustment for higher scores
-  
-  // Analyze specific calibration range mismatches
-  if (calibrationResults.length > 0) {
-    // Group samples by score ranges
-    const blueprintSamples = calibrationResults.filter(r => r.expectedScore >= 90);
-    const advancedCritiqueSamples = calibrationResults.filter(r => r.expectedScore >= 80 && r.expectedScore < 90);
-    const surfacePolishSamples = calibrationResults.filter(r => r.expectedScore >= 60 && r.expectedScore < 80);
-    const fluentShallowSamples = calibrationResults.filter(r => r.expectedScore >= 40 && r.expectedScore < 60);
-    const randomNoiseSamples = calibrationResults.filter(r => r.expectedScore < 40);
-    
-    // Calculate average scoring differences for each range
-    const calculateRangeDifference = (samples: any[]): number => {
-      if (samples.length === 0) return 0;
-      return samples.reduce((sum, r) => sum + r.difference, 0) / samples.length;
-    };
-    
-    const blueprintDiff = calculateRangeDifference(blueprintSamples);
-    const advancedCritiqueDiff = calculateRangeDifference(advancedCritiqueSamples);
-    const surfacePolishDiff = calculateRangeDifference(surfacePolishSamples);
-    const fluentShallowDiff = calculateRangeDifference(fluentShallowSamples);
-    const randomNoiseDiff = calculateRangeDifference(randomNoiseSamples);
-    
-    console.log(`Calibration differences: Blueprint=${blueprintDiff.toFixed(2)}, AdvancedCritique=${advancedCritiqueDiff.toFixed(2)}, SurfacePolish=${surfacePolishDiff.toFixed(2)}, FluentShallow=${fluentShallowDiff.toFixed(2)}, RandomNoise=${randomNoiseDiff.toFixed(2)}`);
-    
-    // Apply specific adjustments only if substantial differences remain after pattern matching
-    if (Math.abs(blueprintDiff) > 3) {
-      // Blueprint samples are critical to get right - adjust specifically for this range
-      // A small positive boost for blueprint-grade papers specifically
-      highScoreAdjustment = 0.02;
-      console.log(`Applied blueprint adjustment of ${highScoreAdjustment}`);
+export async function getCalibrationDrift(name: string, filter: CalibrationDriftFilter = {}) {
+  const versions = await listCalibrationSetVersions(name);
+  if (versions.length === 0) return null;
+
+  const conditions = [
+    inArray(calibrationRuns.setId, versions.map(v => v.id)),
+    eq(calibrationRuns.status, 'completed'),
+  ];
+  if (filter.scorer) conditions.push(eq(calibrationRuns.scorer, filter.scorer));
+  if (filter.provider) conditions.push(eq(calibrationRuns.provider, mapZhiToProvider(filter.provider)));
+  if (filter.model) conditions.push(eq(calibrationRuns.model, filter.model));
+
+  const runs = await db.select().from(calibrationRuns)
+    .where(and(...conditions))
+    .orderBy(asc(calibrationRuns.completedAt));
+  const results = runs.length === 0 ? [] : await db.select({
+    runId: calibrationResults.runId,
+    sampleName: calibrationSamples.name,
+    expectedScore: calibrationResults.expectedScore,
+    actualScore: calibrationResults.actualScore,
+  })
+    .from(calibrationResults)
+    .innerJoin(calibrationSamples, eq(calibrationResults.sampleId, calibrationSamples.id))
+    .where(inArray(calibrationResults.runId, runs.map(r => r.id)));
+
+  const versionOf = new Map(versions.map(v => [v.id, v.version]));
+  const samples: Record<string, Array<{ runId: number; expectedScore: number; actualScore: number | null }>> = {};
+  for (const run of runs) {
+    for (const result of results.filter(r => r.runId === run.id)) {
+      (samples[result.sampleName] ||= []).push({ runId: run.id, expectedScore: result.expectedScore, actualScore: result.actualScore });
     }
-    
-    // We don't adjust the core weights because the calibrated pattern detection is the primary method
   }
-  
+
   return {
-    surfaceWeight,   // Always 0% - no surface features influence the score
-    deepWeight,      // Always 100% - only deep cognitive features count
-    lowScoreAdjustment,
-    highScoreAdjustment
+    name,
+    latestVersion: versions[0],
+    runs: runs.map(run => ({
+      runId: run.id,
+      setVersion: versionOf.get(run.setId) ?? null,
+      scorer: run.scorer,
+      provider: run.provider,
+      model: run.model,
+      promptHash: run.promptHash,
+      completedAt: run.completedAt,
+      meanAbsoluteError: run.meanAbsoluteError,
+      meanSignedError: run.meanSignedError,
+      maxAbsoluteError: run.maxAbsoluteError,
+      maeThreshold: run.maeThreshold,
+      alert: run.alert,
+    })),
+    samples,
   };
-}
\ No newline at end of file
+}
+
+export async function listCalibrationAlerts(limit: number = 50): Promise<CalibrationRun[]> {
+  return await db.select().from(calibrationRuns)
+    .where(eq(calibrationRuns.alert, true))
+    .orderBy(desc(calibrationRuns.completedAt))
+    .limit(limit);
+}
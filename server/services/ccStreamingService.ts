@@ -1,5 +1,7 @@
 import { WebSocket, WebSocketServer } from 'ws';
-import { Server } from 'http';
+import { Server, IncomingMessage } from 'http';
+import { authenticateUpgrade } from '../auth';
+import { subscribeJobEvents, publishJobEvent, isValidJobId } from './jobEvents';
 import { db } from '../db';
 import { 
   reconstructionDocuments, 
@@ -7,7 +9,8 @@ import {
   InsertReconstructionDocument,
   InsertReconstructionChunk,
   GlobalSkeleton,
-  ChunkDelta
+  ChunkDelta,
+  JobEvent
 } from '@shared/schema';
 import { eq, and, asc, lt } from 'drizzle-orm';
 import { 
@@ -31,8 +34,9 @@ interface CCJob {
 }
 
 interface ClientMessage {
-  type: 'start_job' | 'abort_job' | 'resume_job' | 'get_status';
-  jobId?: number;
+  type: 'start_job' | 'abort_job' | 'resume_job' | 'get_status' | 'subscribe_events';
+  jobId?: number | string;
+  lastEventId?: number;
   text?: string;
   customInstructions?: string;
   audienceParameters?: string;
@@ -77,8 +81,17 @@ interface WarningMessage {
   shortfall: number;
 }
 
-const activeJobs = new Map<number, { aborted: boolean; startTime: number }>();
-const clientConnections = new Map<WebSocket, number | null>();
+const activeJobs = new Map<number, { aborted: boolean; startTime: number; userId: number }>();
+
+// Per socket: the session user, the CC job it follows and its job event subscription
+interface ClientState {
+  userId: number;
+  jobId: number | null;
+  eventSubscription: (() => void) | null;
+}
+
+const clientConnections = new Map<WebSocket, ClientState>();
+const upgradeUsers = new WeakMap<IncomingMessage, number>();
 
 // ============ DATABASE-ENFORCED COHERENCE HELPERS ============
 // Load prior chunk deltas from database to maintain coherence across chunks
@@ -167,40 +180,86 @@ function buildPriorDeltasSummary(priorDeltas: ChunkDelta[]): string {
   return summary;
 }
 
-// Global set for generation streaming clients (job-agnostic broadcast)
-export const generationClients = new Set<WebSocket>();
+// ============ JOB EVENTS ============
+// Sockets follow a job's events by sending subscribe_events with the job id
+// (a CC job id or a generation stream id) and the last event id they saw;
+// the channels in jobEvents.ts keep this per user and replay missed events.
+// CC job messages are also published there in the shared JobEvent shape so
+// /api/jobs/:id/events can follow them without a WebSocket.
 
-let wss: WebSocketServer | null = null;
+function subscribeEvents(ws: WebSocket, state: ClientState, jobId: string, lastEventId: number): void {
+  state.eventSubscription?.();
+  const subscription = subscribeJobEvents(state.userId, jobId, lastEventId, event => sendToClient(ws, event));
+  state.eventSubscription = subscription.unsubscribe;
 
-// Export function to broadcast chunk to all connected generation clients
-export function broadcastGenerationChunk(message: {
-  type: string;
-  sessionId?: number;
-  chunkIndex?: number;
-  sectionIndex?: number;
-  totalChunks?: number;
-  chunkText?: string;
-  sectionTitle?: string;
-  progress?: number;
-  stage?: string;
-  wordCount?: number;
-  totalWordCount?: number;
-}): void {
-  const payload = JSON.stringify(message);
-  generationClients.forEach((ws) => {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(payload);
-    }
+  sendToClient(ws, {
+    type: 'subscribed',
+    jobId,
+    replayed: subscription.missed.length,
+    truncated: subscription.truncated,
+    finished: subscription.finished
   });
+  subscription.missed.forEach(event => sendToClient(ws, event));
 }
 
+function toJobEvent(message: any): JobEvent | null {
+  switch (message.type) {
+    case 'progress':
+      return {
+        type: 'progress',
+        stage: message.phase,
+        message: message.message,
+        completed: message.completedChunks,
+        total: message.totalChunks,
+        words: message.wordsProcessed
+      };
+    case 'chunk_complete':
+      return {
+        type: 'section',
+        index: message.chunkIndex,
+        total: message.totalChunks,
+        text: message.chunkText,
+        words: message.actualWords,
+        totalWords: message.runningTotal
+      };
+    case 'warning':
+      return { type: 'warning', message: message.message };
+    case 'job_complete':
+      return { type: 'complete', message: message.shortfallMessage, totalWords: message.finalWordCount, output: message.finalOutput };
+    case 'job_failed':
+      return { type: 'failed', message: message.error };
+    case 'job_aborted':
+      return { type: 'aborted', message: `Aborted after ${message.completedChunks} of ${message.totalChunks} chunks` };
+    default:
+      return null;
+  }
+}
+
+let wss: WebSocketServer | null = null;
+
 export function setupWebSocketServer(server: Server): WebSocketServer {
-  wss = new WebSocketServer({ server, path: '/ws/cc-stream' });
+  wss = new WebSocketServer({
+    server,
+    path: '/ws/cc-stream',
+    // Sockets are bound to the session user; anonymous upgrades are refused
+    verifyClient: (info, done) => {
+      authenticateUpgrade(info.req)
+        .then(user => {
+          if (!user) return done(false, 401, 'Not authenticated');
+          upgradeUsers.set(info.req, user.id);
+          done(true);
+        })
+        .catch(error => {
+          console.error('[CC-WS] Upgrade authentication failed:', error);
+          done(false, 500, 'Authentication failed');
+        });
+    }
+  });
   
-  wss.on('connection', (ws: WebSocket) => {
-    console.log('[CC-WS] Client connected');
-    clientConnections.set(ws, null);
-    generationClients.add(ws); // Add to global generation clients for streaming
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    const userId = upgradeUsers.get(req)!;
+    console.log(`[CC-WS] Client connected (user ${userId})`);
+    clientConnections.set(ws, { userId, jobId: null, eventSubscription: null });
     
     ws.on('message', async (data: Buffer) => {
       try {
@@ -213,8 +272,8 @@ export function setupWebSocketServer(server: Server): WebSocketServer {
     
     ws.on('close', () => {
       console.log('[CC-WS] Client disconnected');
+      clientConnections.get(ws)?.eventSubscription?.();
       clientConnections.delete(ws);
-      generationClients.delete(ws); // Remove from generation clients
     });
     
     ws.on('error', (error) => {
@@ -237,21 +296,30 @@ function sendError(ws: WebSocket, error: string): void {
 }
 
 function broadcastToJob(jobId: number, message: any): void {
-  clientConnections.forEach((subscribedJobId, ws) => {
-    if (subscribedJobId === jobId && ws.readyState === WebSocket.OPEN) {
+  clientConnections.forEach((state, ws) => {
+    if (state.jobId === jobId && ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
   });
+
+  const owner = activeJobs.get(jobId)?.userId;
+  const event = toJobEvent(message);
+  if (owner !== undefined && event) {
+    publishJobEvent(owner, String(jobId), event);
+  }
 }
 
 async function handleClientMessage(ws: WebSocket, message: ClientMessage): Promise<void> {
+  const state = clientConnections.get(ws);
+  if (!state) return;
+
   switch (message.type) {
     case 'start_job':
       if (!message.text) {
         sendError(ws, 'Text is required to start a job');
         return;
       }
-      await startStreamingJob(ws, message.text, message.customInstructions, message.audienceParameters, message.rigorLevel);
+      await startStreamingJob(ws, state, message.text, message.customInstructions, message.audienceParameters, message.rigorLevel);
       break;
       
     case 'abort_job':
@@ -259,7 +327,7 @@ async function handleClientMessage(ws: WebSocket, message: ClientMessage): Promi
         sendError(ws, 'Job ID is required to abort');
         return;
       }
-      await abortJob(ws, message.jobId);
+      await abortJob(ws, state, Number(message.jobId));
       break;
       
     case 'resume_job':
@@ -267,23 +335,44 @@ async function handleClientMessage(ws: WebSocket, message: ClientMessage): Promi
         sendError(ws, 'Job ID is required to resume');
         return;
       }
-      await resumeJob(ws, message.jobId);
+      await resumeJob(ws, state, Number(message.jobId));
       break;
       
     case 'get_status':
       if (message.jobId) {
-        await getJobStatus(ws, message.jobId);
+        await getJobStatus(ws, state, Number(message.jobId));
       }
       break;
+
+    case 'subscribe_events': {
+      const jobId = String(message.jobId ?? '');
+      if (!isValidJobId(jobId)) {
+        sendError(ws, 'A valid jobId is required to subscribe');
+        return;
+      }
+      subscribeEvents(ws, state, jobId, Number(message.lastEventId) || 0);
+      break;
+    }
   }
 }
 
+// CC jobs are only visible to the user who started them
+async function loadOwnedJob(ws: WebSocket, state: ClientState, jobId: number) {
+  const [job] = await db.select().from(reconstructionDocuments)
+    .where(and(eq(reconstructionDocuments.id, jobId), eq(reconstructionDocuments.userId, state.userId)));
+  if (!job) {
+    sendError(ws, `Job ${jobId} not found`);
+  }
+  return job;
+}
+
 function countWords(text: string): number {
   return text.trim().split(/\s+/).filter(w => w.length > 0).length;
 }
 
 async function startStreamingJob(
   ws: WebSocket,
+  state: ClientState,
   text: string,
   customInstructions?: string,
   audienceParameters?: string,
@@ -315,6 +404,7 @@ async function startStreamingJob(
   try {
     console.log(`[DB] Inserting reconstructionDocuments, wordCount: ${wordCount}`);
     [job] = await db.insert(reconstructionDocuments).values({
+      userId: state.userId,
       originalText: text,
       wordCount,
       status: 'pending',
@@ -359,8 +449,9 @@ async function startStreamingJob(
     }
   }
   
-  clientConnections.set(ws, job.id);
-  activeJobs.set(job.id, { aborted: false, startTime: Date.now() });
+  state.jobId = job.id;
+  activeJobs.set(job.id, { aborted: false, startTime: Date.now(), userId: state.userId });
+  publishJobEvent(state.userId, String(job.id), { type: 'started', totalSections: chunks.length, targetWords: lengthConfig.targetMid });
   
   sendToClient(ws, {
     type: 'job_started',
@@ -869,7 +960,8 @@ async function handleAbort(jobId: number): Promise<void> {
   activeJobs.delete(jobId);
 }
 
-async function abortJob(ws: WebSocket, jobId: number): Promise<void> {
+async function abortJob(ws: WebSocket, state: ClientState, jobId: number): Promise<void> {
+  if (!await loadOwnedJob(ws, state, jobId)) return;
   const jobState = activeJobs.get(jobId);
   if (jobState) {
     jobState.aborted = true;
@@ -879,13 +971,9 @@ async function abortJob(ws: WebSocket, jobId: number): Promise<void> {
   }
 }
 
-async function resumeJob(ws: WebSocket, jobId: number): Promise<void> {
-  const [job] = await db.select().from(reconstructionDocuments).where(eq(reconstructionDocuments.id, jobId));
-  
-  if (!job) {
-    sendError(ws, `Job ${jobId} not found`);
-    return;
-  }
+async function resumeJob(ws: WebSocket, state: ClientState, jobId: number): Promise<void> {
+  const job = await loadOwnedJob(ws, state, jobId);
+  if (!job) return;
   
   if (job.status === 'complete') {
     sendToClient(ws, {
@@ -902,8 +990,9 @@ async function resumeJob(ws: WebSocket, jobId: number): Promise<void> {
     return;
   }
   
-  clientConnections.set(ws, jobId);
-  activeJobs.set(jobId, { aborted: false, startTime: Date.now() });
+  state.jobId = jobId;
+  activeJobs.set(jobId, { aborted: false, startTime: Date.now(), userId: state.userId });
+  publishJobEvent(state.userId, String(jobId), { type: 'started', message: `Resumed at chunk ${job.currentChunk}`, totalSections: job.numChunks ?? undefined });
   
   sendToClient(ws, {
     type: 'job_resumed',
@@ -916,13 +1005,9 @@ async function resumeJob(ws: WebSocket, jobId: number): Promise<void> {
   processJobAsync(jobId);
 }
 
-async function getJobStatus(ws: WebSocket, jobId: number): Promise<void> {
-  const [job] = await db.select().from(reconstructionDocuments).where(eq(reconstructionDocuments.id, jobId));
-  
-  if (!job) {
-    sendError(ws, `Job ${jobId} not found`);
-    return;
-  }
+async function getJobStatus(ws: WebSocket, state: ClientState, jobId: number): Promise<void> {
+  const job = await loadOwnedJob(ws, state, jobId);
+  if (!job) return;
   
   const chunks = await db.select()
     .from(reconstructionChunks)
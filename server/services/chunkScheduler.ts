@@ -0,0 +1,107 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// CHUNK SCHEDULER
+// Bounded-concurrency runner for chunks that only depend on a skeleton
+// extracted up front (pipeline objection/response batches, HCC chunks within
+// a chapter). Chunks that also read their predecessors' deltas run in waves:
+// each wave sees every delta from the waves before it. Provider pacing is left
+// to the rate limiter in completeChat, so workers never sleep between chunks.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_CHUNK_CONCURRENCY = 4;
+const MAX_CHUNK_CONCURRENCY = 16;
+
+export interface ChunkSchedulerStats {
+  limit: number;
+  inFlight: number;
+  completed: number;
+  total: number;
+}
+
+export interface ChunkSchedulerOptions {
+  concurrency?: number;
+  // Called whenever a chunk starts or finishes
+  onProgress?: (stats: ChunkSchedulerStats) => void;
+}
+
+// CHUNK_CONCURRENCY=1 restores strictly sequential processing
+export function getChunkConcurrency(): number {
+  const configured = parseInt(process.env.CHUNK_CONCURRENCY || '', 10);
+  if (!Number.isFinite(configured) || configured < 1) return DEFAULT_CHUNK_CONCURRENCY;
+  return Math.min(configured, MAX_CHUNK_CONCURRENCY);
+}
+
+// Runs worker over every item with at most `concurrency` in flight and returns
+// the results in item order. After the first failure no new chunks are started;
+// the error is rethrown once the chunks already running have settled.
+export async function runChunksWithConcurrency<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: ChunkSchedulerOptions = {}
+): Promise<R[]> {
+  const limit = Math.max(1, Math.min(options.concurrency ?? getChunkConcurrency(), items.length || 1));
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let inFlight = 0;
+  let completed = 0;
+  let failure: { error: unknown } | null = null;
+
+  const report = () => options.onProgress?.({ limit, inFlight, completed, total: items.length });
+
+  const lane = async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      inFlight++;
+      report();
+      try {
+        results[index] = await worker(items[index], index);
+        completed++;
+      } catch (error) {
+        failure = failure || { error };
+      } finally {
+        inFlight--;
+        report();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: limit }, lane));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+  return results;
+}
+
+// For chunks that read the deltas of earlier chunks: splits the items into
+// waves of `concurrency`, runs each wave in parallel, and only starts a wave
+// once the previous one has finished. worker receives the results of all
+// earlier waves so it can build its prior-context from them.
+export async function runChunksInWaves<T, R>(
+  items: T[],
+  worker: (item: T, index: number, priorResults: R[]) => Promise<R>,
+  options: ChunkSchedulerOptions = {}
+): Promise<R[]> {
+  const limit = Math.max(1, options.concurrency ?? getChunkConcurrency());
+  const results: R[] = [];
+
+  for (let waveStart = 0; waveStart < items.length; waveStart += limit) {
+    const prior = results.slice();
+    const wave = items.slice(waveStart, waveStart + limit);
+    const waveResults = await runChunksWithConcurrency(
+      wave,
+      (item, offset) => worker(item, waveStart + offset, prior),
+      {
+        concurrency: limit,
+        onProgress: options.onProgress && (stats => options.onProgress!({
+          limit,
+          inFlight: stats.inFlight,
+          completed: waveStart + stats.completed,
+          total: items.length
+        }))
+      }
+    );
+    results.push(...waveResults);
+  }
+
+  return results;
+}
@@ -0,0 +1,210 @@
+import type {
+  ChunkEvaluationResult,
+  LogicalConsistencyState,
+  MathematicalState,
+  ScientificExplanatoryState,
+} from "@shared/schema";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DETERMINISTIC COHERENCE CHECKS
+// Local checks over the formal parts of a coherence state: contradictions
+// between assertions and negations, circular proof dependencies, and causal
+// edges that dangle off undeclared nodes. Each check looks at the state after
+// a chunk's update is merged and reports only problems that the update
+// introduced, so a problem is reported once, at the chunk that caused it.
+// Pure: the same state and update always give the same violations.
+// ═══════════════════════════════════════════════════════════════════════════
+
+type Violation = ChunkEvaluationResult["violations"][number];
+
+const NEGATION_PREFIX = /^(?:¬|~|not\s+|it is not the case that\s+|it is false that\s+)/;
+
+/**
+ * Comparison key for a proposition, step or node: case, spacing, quotes and
+ * trailing punctuation do not distinguish two entries.
+ */
+export function normalizeEntry(value: string): string {
+  return String(value)
+    .toLowerCase()
+    .replace(/[“”"'‘’`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.;:!?,]+$/, "");
+}
+
+// Negations are stored either as the negated proposition or with an explicit "not"
+function negatedKey(negation: string): string {
+  return normalizeEntry(negation).replace(NEGATION_PREFIX, "").trim();
+}
+
+function keysOf(values: string[] | undefined, key: (value: string) => string = normalizeEntry): Set<string> {
+  return new Set((values || []).map(key));
+}
+
+/**
+ * Assertions that were also negated, and disjoint pairs with both members
+ * asserted.
+ */
+export function findContradictions(
+  state: LogicalConsistencyState,
+  update: Partial<LogicalConsistencyState>
+): Violation[] {
+  const violations: Violation[] = [];
+  const priorAssertions = keysOf(state.assertions);
+  const priorNegations = keysOf(state.negations, negatedKey);
+  const newAssertions = keysOf(update.assertions);
+  const newNegations = keysOf(update.negations, negatedKey);
+
+  const assertions = new Map<string, string>();
+  for (const assertion of [...state.assertions, ...(update.assertions || [])]) {
+    if (!assertions.has(normalizeEntry(assertion))) assertions.set(normalizeEntry(assertion), assertion);
+  }
+  const negations = new Map<string, string>();
+  for (const negation of [...state.negations, ...(update.negations || [])]) {
+    if (!negations.has(negatedKey(negation))) negations.set(negatedKey(negation), negation);
+  }
+
+  assertions.forEach((assertion, key) => {
+    if (!negations.has(key)) return;
+    const assertedNow = newAssertions.has(key) && !priorAssertions.has(key);
+    const negatedNow = newNegations.has(key) && !priorNegations.has(key);
+    if (!assertedNow && !negatedNow) return;
+    violations.push({
+      location: assertedNow ? `assertion: "${assertion}"` : `negation: "${negations.get(key)}"`,
+      type: "contradiction",
+      description: assertedNow && negatedNow
+        ? `"${assertion}" is both asserted and negated in the same passage`
+        : assertedNow
+          ? `Asserts "${assertion}" but this was previously negated`
+          : `Negates "${assertion}" but this was previously asserted`
+    });
+  });
+
+  const priorPairs = new Set(state.disjoint_pairs.map(pair => pairKey(pair)));
+  const seenPairs = new Set<string>();
+  for (const [a, b] of [...state.disjoint_pairs, ...(update.disjoint_pairs || [])]) {
+    const key = pairKey([a, b]);
+    if (seenPairs.has(key)) continue;
+    seenPairs.add(key);
+    const keyA = normalizeEntry(a);
+    const keyB = normalizeEntry(b);
+    if (!assertions.has(keyA) || !assertions.has(keyB)) continue;
+
+    const newA = newAssertions.has(keyA) && !priorAssertions.has(keyA);
+    const newB = newAssertions.has(keyB) && !priorAssertions.has(keyB);
+    if (!newA && !newB && priorPairs.has(key)) continue;
+    const [latest, earlier] = newB && !newA ? [b, a] : [a, b];
+    violations.push({
+      location: `assertion: "${assertions.get(normalizeEntry(latest))}"`,
+      type: "disjoint_violation",
+      description: newA && newB
+        ? `Asserts both "${a}" and "${b}", which are disjoint`
+        : `Asserts "${latest}" but "${earlier}" is also asserted, and they are disjoint`
+    });
+  }
+
+  return violations;
+}
+
+function pairKey([a, b]: [string, string]): string {
+  return [normalizeEntry(a), normalizeEntry(b)].sort().join("\u0000");
+}
+
+/**
+ * Groups of proof steps that depend on each other in a cycle, found as the
+ * strongly connected components of the dependency graph. Only cycles through
+ * a step whose dependencies the update declared are reported.
+ */
+export function findDependencyCycles(
+  state: MathematicalState,
+  update: Partial<MathematicalState>
+): Violation[] {
+  const labels = new Map<string, string>();
+  const edges = new Map<string, Set<string>>();
+  const label = (value: string) => {
+    const key = normalizeEntry(value);
+    if (!labels.has(key)) labels.set(key, value);
+    if (!edges.has(key)) edges.set(key, new Set());
+    return key;
+  };
+  for (const dependency of [...state.dependencies, ...(update.dependencies || [])]) {
+    const step = label(dependency.step);
+    for (const target of dependency.depends_on) {
+      edges.get(step)!.add(label(target));
+    }
+  }
+  const updatedSteps = new Set((update.dependencies || []).map(d => normalizeEntry(d.step)));
+
+  // Tarjan's algorithm; proof graphs are small enough for recursion
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (node: string) => {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+    edges.get(node)!.forEach(next => {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    });
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+  edges.forEach((_targets, node) => {
+    if (!index.has(node)) visit(node);
+  });
+
+  return components
+    .filter(component => component.length > 1 || edges.get(component[0])!.has(component[0]))
+    .filter(component => component.some(step => updatedSteps.has(step)))
+    .map(component => {
+      const steps = component.reverse().map(step => `"${labels.get(step)}"`);
+      return {
+        location: `steps: ${steps.join(", ")}`,
+        type: "circular_dependency",
+        description: component.length === 1
+          ? `Step ${steps[0]} depends on itself`
+          : `Steps ${steps.join(", ")} depend on each other in a cycle, so none of them is established`
+      };
+    });
+}
+
+/**
+ * Causal edges added by the update whose cause or effect is not a declared
+ * causal node.
+ */
+export function findDanglingCausalLinks(
+  state: ScientificExplanatoryState,
+  update: Partial<ScientificExplanatoryState>
+): Violation[] {
+  const nodes = keysOf([...state.causal_nodes, ...(update.causal_nodes || [])]);
+  const violations: Violation[] = [];
+  for (const edge of update.causal_edges || []) {
+    const missing = [edge.from, edge.to].filter(node => !nodes.has(normalizeEntry(node)));
+    if (missing.length === 0) continue;
+    violations.push({
+      location: `edge: "${edge.from}" -> "${edge.to}"`,
+      type: "dangling_node",
+      description: `Causal link names ${missing.map(node => `"${node}"`).join(" and ")}, which ${missing.length === 1 ? "is not a declared causal node" : "are not declared causal nodes"}`
+    });
+  }
+  return violations;
+}
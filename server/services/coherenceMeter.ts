@@ -1,5 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { completeChat } from './llmProviders';
 import { crossChunkReconstruct, CCReconstructionResult } from './crossChunkCoherence';
+import { isCoherenceMode } from './coherenceModes';
 
 // Threshold for using Cross-Chunk Coherence system (words)
 const CC_THRESHOLD_WORDS = 1200;
@@ -333,9 +334,6 @@ export interface GlobalCoherenceAnalysisResult {
   aggregatedAnalysis: string;
 }
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
 
 // Initialize Global Coherence State (GCS) based on mode
 export function initializeGCS(mode: string, gco: GlobalContextObject): GlobalCoherenceState {
@@ -1044,15 +1042,15 @@ ${fullText.substring(0, 8000)}
 
 Respond with ONLY valid JSON, no markdown formatting.`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 1024,
+    maxTokens: 1024,
     temperature: 0,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const output = message.content[0].type === 'text' ? message.content[0].text : '{}';
+  const output = message.text || '{}';
   
   try {
     const cleanJson = output.replace(/```json\n?|\n?```/g, '').trim();
@@ -1185,15 +1183,15 @@ SCORING FOR STATE CONTINUITY:
 
 Respond with ONLY valid JSON.`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 2048,
+    maxTokens: 2048,
     temperature: 0.2,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const output = message.content[0].type === 'text' ? message.content[0].text : '{}';
+  const output = message.text || '{}';
   
   try {
     const cleanJson = output.replace(/```json\n?|\n?```/g, '').trim();
@@ -1244,8 +1242,7 @@ export async function analyzeGlobalCoherence(
 ): Promise<GlobalCoherenceAnalysisResult> {
   
   // Validate coherence mode
-  const validModes = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical"];
-  const normalizedMode = validModes.includes(coherenceMode) ? coherenceMode : "logical-consistency";
+  const normalizedMode = isCoherenceMode(coherenceMode) ? coherenceMode : "logical-consistency";
   
   // Split into chunks (~400 words each for API context limits)
   const words = fullText.split(/\s+/);
@@ -1359,8 +1356,7 @@ export async function rewriteWithGlobalCoherence(
 ): Promise<{ rewrittenText: string; gco: GlobalContextObject; changes: string }> {
   
   // Validate coherence mode
-  const validModes = ["logical-consistency", "logical-cohesiveness", "scientific-explanatory", "thematic-psychological", "instructional", "motivational", "mathematical", "philosophical"];
-  const normalizedMode = validModes.includes(coherenceMode) ? coherenceMode : "logical-consistency";
+  const normalizedMode = isCoherenceMode(coherenceMode) ? coherenceMode : "logical-consistency";
   
   // Split into chunks (~400 words each for API context limits)
   const words = fullText.split(/\s+/);
@@ -1517,15 +1513,15 @@ STATE_UPDATE:
     // Use higher temperature for aggressive mode to allow more creative restructuring
     const rewriteTemperature = aggressiveness === "aggressive" ? 0.6 : aggressiveness === "moderate" ? 0.4 : 0.2;
     
-    const message = await anthropic.messages.create({
+    const message = await completeChat('anthropic', {
       model: "claude-3-7-sonnet-20250219",
-      max_tokens: 6000,
+      maxTokens: 6000,
       temperature: rewriteTemperature,
       system: systemPrompt,
       messages: [{ role: "user", content: userPrompt }]
     });
 
-    const output = message.content[0].type === 'text' ? message.content[0].text : chunks[i];
+    const output = message.text || chunks[i];
     
     // Parse rewritten text and changes
     const textMatch = output.match(/REWRITTEN_TEXT:\s*([\s\S]*?)(?=CHANGES:|$)/i);
@@ -1615,15 +1611,15 @@ CALIBRATION EXAMPLES:
 2. "Sense-perceptions are presentations not representations; regress arguments doom linguistic mediation theories" = Score 9.5 (Internal Logic: 10, Clarity: 10, Structural Unity: 9, Faux-Coherence: 10 - tight deduction, canonical philosophical terms, hierarchical)
 3. "This dissertation examines transcendental empiricism, discussing McDowell's minimal empiricism and Dreyfus's Myth of the Mental critique" = Score 2 (Internal Logic: 4, Clarity: 2, Structural Unity: 2, Faux-Coherence: 1 - buzzwords without grounding, sequential listing, vague jargon assuming meaning it lacks)`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 4096,
+    maxTokens: 4096,
     temperature: 0.3,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const output = message.content[0].type === 'text' ? message.content[0].text : '';
+  const output = message.text;
 
   const internalLogicMatch = output.match(/INTERNAL LOGIC SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
   const clarityMatch = output.match(/CLARITY SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
@@ -1745,15 +1741,15 @@ RECOMMENDATION:
 DETAILED ANALYSIS:
 [Full explanation of content quality assessment]`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 4096,
+    maxTokens: 4096,
     temperature: 0.3,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const output = message.content[0].type === 'text' ? message.content[0].text : '';
+  const output = message.text;
 
   // Parse the structured output
   const richnessMatch = output.match(/RICHNESS SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
@@ -1945,15 +1941,15 @@ VERDICT: [VALID if overall ≥ 8 and no fatal flaws / FLAWED if 4-7 or has repai
 DETAILED ANALYSIS:
 [Full mathematical critique with calculations shown]`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 6000,
+    maxTokens: 6000,
     temperature: 0.2,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const output = message.content[0].type === 'text' ? message.content[0].text : '';
+  const output = message.text;
 
   const claimTruthMatch = output.match(/CLAIM TRUTH SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
   const inferenceMatch = output.match(/INFERENCE VALIDITY SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
@@ -2052,15 +2048,15 @@ ${text}
 
 Output ONLY the rewritten text. No headers, no labels, no commentary, and NO MARKDOWN FORMATTING (no #, ##, *, **, -, etc.). Plain prose only.`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 8192,
+    maxTokens: 8192,
     temperature: temperature,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const rewrittenText = stripMarkdown(message.content[0].type === 'text' ? message.content[0].text : '');
+  const rewrittenText = stripMarkdown(message.text);
 
   const changesAnalysisPrompt = `Compare these two versions and explain what coherence changes were made (focus on internal consistency, clarity, structural improvements only):
 
@@ -2072,14 +2068,14 @@ ${rewrittenText}
 
 Provide concise bullet points of changes made to improve internal coherence.`;
 
-  const changesMessage = await anthropic.messages.create({
+  const changesMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 1024,
+    maxTokens: 1024,
     temperature: 0.3,
     messages: [{ role: "user", content: changesAnalysisPrompt }]
   });
 
-  const changes = changesMessage.content[0].type === 'text' ? changesMessage.content[0].text : '';
+  const changes = changesMessage.text;
 
   return {
     rewrittenText,
@@ -2188,14 +2184,14 @@ RULES:
 OUTPUT:
 Write ONLY the condensed text. Plain prose, no markdown, no commentary. The result must be more information-dense than the original.`;
 
-  const condenseMessage = await anthropic.messages.create({
+  const condenseMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 10000,
+    maxTokens: 10000,
     temperature: 0.3,
     messages: [{ role: "user", content: condensePrompt }]
   });
 
-  let condensedText = stripMarkdown(condenseMessage.content[0].type === 'text' ? condenseMessage.content[0].text : '');
+  let condensedText = stripMarkdown(condenseMessage.text);
   const outputWordCount = condensedText.trim().split(/\s+/).length;
 
   // VALIDATION: Ensure output is actually shorter
@@ -2208,14 +2204,14 @@ ${condensedText}
 
 Output ONLY the shortened text. No commentary.`;
 
-    const forceCutMessage = await anthropic.messages.create({
+    const forceCutMessage = await completeChat('anthropic', {
       model: "claude-3-7-sonnet-20250219",
-      max_tokens: 8000,
+      maxTokens: 8000,
       temperature: 0.2,
       messages: [{ role: "user", content: forceCutPrompt }]
     });
 
-    condensedText = stripMarkdown(forceCutMessage.content[0].type === 'text' ? forceCutMessage.content[0].text : '');
+    condensedText = stripMarkdown(forceCutMessage.text);
   }
 
   let finalWordCount = condensedText.trim().split(/\s+/).length;
@@ -2233,14 +2229,14 @@ Cut ${Math.ceil((finalWordCount - inputWordCount * 0.85) / 10) * 10} more words.
 
 Output ONLY the shortened text. No commentary. No explanation.`;
 
-    const forceCutMessage = await anthropic.messages.create({
+    const forceCutMessage = await completeChat('anthropic', {
       model: "claude-3-7-sonnet-20250219",
-      max_tokens: 8000,
+      maxTokens: 8000,
       temperature: 0.2,
       messages: [{ role: "user", content: forceCutPrompt }]
     });
 
-    condensedText = stripMarkdown(forceCutMessage.content[0].type === 'text' ? forceCutMessage.content[0].text : '');
+    condensedText = stripMarkdown(forceCutMessage.text);
     finalWordCount = condensedText.trim().split(/\s+/).length;
   }
   
@@ -2428,14 +2424,14 @@ Extract and clearly state:
 
 Be clear and concise.`;
 
-  const extractionMessage = await anthropic.messages.create({
+  const extractionMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 2500,
+    maxTokens: 2500,
     temperature: 0.3,
     messages: [{ role: "user", content: extractionPrompt }]
   });
 
-  const extractedPosition = extractionMessage.content[0].type === 'text' ? extractionMessage.content[0].text : '';
+  const extractedPosition = extractionMessage.text;
 
   // STAGE 2A: GENERATE FRESH, ORIGINAL EXAMPLES THAT ILLUSTRATE THE POSITION
   // Examples are CRITICAL - they must be novel, specific, and demonstrate why the position is correct
@@ -2497,14 +2493,14 @@ Do NOT simply restate the original text. Create NOVEL ILLUSTRATIONS that demonst
 
 Examples should be specific enough that a reader thinks "Oh, I see - this is EXACTLY what the position means."`;
 
-  const examplesMessage = await anthropic.messages.create({
+  const examplesMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 3000,
+    maxTokens: 3000,
     temperature: 0.7,
     messages: [{ role: "user", content: examplesPrompt }]
   });
 
-  const freshExamples = examplesMessage.content[0].type === 'text' ? examplesMessage.content[0].text : '';
+  const freshExamples = examplesMessage.text;
 
   // STAGE 2B: GENERATE FRESH SUBSTANTIVE CONTENT NOT IN THE ORIGINAL
   // This is the KEY to preventing bloating - explicitly ask for new information that DEVELOPS the position
@@ -2572,14 +2568,14 @@ CRITICAL REQUIREMENTS:
 
 Output as a structured list with clear headers for each section.`;
 
-  const freshContentMessage = await anthropic.messages.create({
+  const freshContentMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 3500,
+    maxTokens: 3500,
     temperature: 0.6,
     messages: [{ role: "user", content: freshContentPrompt }]
   });
 
-  const freshContent = freshContentMessage.content[0].type === 'text' ? freshContentMessage.content[0].text : '';
+  const freshContent = freshContentMessage.text;
 
   // STAGE 3: SYNTHESIZE INTO A COMPREHENSIVE PHILOSOPHICAL ESSAY
   // NOW combine the core position WITH the fresh substantive content AND examples
@@ -2685,14 +2681,14 @@ Do NOT list examples in isolation. WEAVE them into the argument so they DEMONSTR
 OUTPUT:
 Write ONLY the essay. Plain prose. No markdown, no headers, no meta-commentary. The examples should be SEAMLESSLY integrated into the prose, not extracted as separate sections.`;
 
-  const essayMessage = await anthropic.messages.create({
+  const essayMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 20000,
+    maxTokens: 20000,
     temperature: 0.5,
     messages: [{ role: "user", content: essayPrompt }]
   });
 
-  let essay = stripMarkdown(essayMessage.content[0].type === 'text' ? essayMessage.content[0].text : '');
+  let essay = stripMarkdown(essayMessage.text);
   let essayWordCount = essay.trim().split(/\s+/).length;
 
   // STAGE 4: VALIDATION - Ensure it's substantive, not just longer
@@ -2715,14 +2711,14 @@ Each addition should be SUBSTANTIVE - advancing the argument, not padding.
 
 OUTPUT: Write ONLY the expanded essay. Plain prose, no markdown.`;
 
-    const expandMessage = await anthropic.messages.create({
+    const expandMessage = await completeChat('anthropic', {
       model: "claude-3-7-sonnet-20250219",
-      max_tokens: 20000,
+      maxTokens: 20000,
       temperature: 0.5,
       messages: [{ role: "user", content: expandPrompt }]
     });
 
-    essay = stripMarkdown(expandMessage.content[0].type === 'text' ? expandMessage.content[0].text : '');
+    essay = stripMarkdown(expandMessage.text);
     essayWordCount = essay.trim().split(/\s+/).length;
   }
 
@@ -2854,15 +2850,15 @@ OVERALL ASSESSMENT: [PASS if both dimensions ≥8 / WEAK if either is 5-7 / FAIL
 SUMMARY:
 [Brief summary of the text's strengths and weaknesses in both dimensions]`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 6000,
+    maxTokens: 6000,
     temperature: 0.3,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const output = message.content[0].type === 'text' ? message.content[0].text : '';
+  const output = message.text;
 
   // Helper function to derive assessment from score
   const deriveAssessment = (score: number): "PASS" | "WEAK" | "FAIL" => {
@@ -3028,15 +3024,15 @@ CRITICAL: Do NOT use any markdown formatting in the rewritten text. No #, ##, *,
 
 REWRITTEN TEXT:`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 8192,
+    maxTokens: 8192,
     temperature: 0.5,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const fullOutput = message.content[0].type === 'text' ? message.content[0].text : '';
+  const fullOutput = message.text;
   
   // Parse the output to separate rewritten text from corrections
   const separatorMatch = fullOutput.match(/---CORRECTIONS---/i);
@@ -3082,14 +3078,14 @@ List the key scientific corrections made, focusing on:
 
 Provide concise bullet points.`;
 
-  const changesMessage = await anthropic.messages.create({
+  const changesMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 2048,
+    maxTokens: 2048,
     temperature: 0.3,
     messages: [{ role: "user", content: changesAnalysisPrompt }]
   });
 
-  const changes = changesMessage.content[0].type === 'text' ? changesMessage.content[0].text : '';
+  const changes = changesMessage.text;
 
   // Quick validation pass to estimate accuracy score
   const validationPrompt = `Rate the scientific accuracy of this text on a scale of 1-10, where 10 means every claim is supported by established science.
@@ -3099,14 +3095,14 @@ ${rewrittenText}
 
 Respond with ONLY a number from 1-10.`;
 
-  const validationMessage = await anthropic.messages.create({
+  const validationMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 10,
+    maxTokens: 10,
     temperature: 0,
     messages: [{ role: "user", content: validationPrompt }]
   });
 
-  const scoreText = validationMessage.content[0].type === 'text' ? validationMessage.content[0].text : '5';
+  const scoreText = validationMessage.text || '5';
   const scientificAccuracyScore = parseFloat(scoreText.match(/\d+(?:\.\d+)?/)?.[0] || '5');
 
   return {
@@ -3181,15 +3177,15 @@ ASSESSMENT: [PASS if ≥8 / WEAK if 5-7 / FAIL if ≤4]
 STRUCTURAL ANALYSIS:
 [Describe the structural strengths and weaknesses. Do NOT comment on mathematical correctness.]`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 3000,
+    maxTokens: 3000,
     temperature: 0.3,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const output = message.content[0].type === 'text' ? message.content[0].text : '';
+  const output = message.text;
 
   const logicalFlowMatch = output.match(/LOGICAL FLOW SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
   const notationalMatch = output.match(/NOTATIONAL CONSISTENCY SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
@@ -3275,15 +3271,15 @@ ${text}
 
 Output the structurally improved proof with NO commentary or headers - just the improved proof text. CRITICAL: Do NOT use any markdown formatting. No #, ##, *, **, -, or any markdown symbols. Plain prose only.`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 6000,
+    maxTokens: 6000,
     temperature: 0.5,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const rewrittenProof = stripMarkdown(message.content[0].type === 'text' ? message.content[0].text : '');
+  const rewrittenProof = stripMarkdown(message.text);
 
   // Analyze what structural changes were made
   const changesPrompt = `Compare these two versions of a proof and describe the STRUCTURAL changes made (not mathematical changes).
@@ -3298,14 +3294,14 @@ ${rewrittenProof}
 
 List the structural improvements in bullet points.`;
 
-  const changesMessage = await anthropic.messages.create({
+  const changesMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 1500,
+    maxTokens: 1500,
     temperature: 0.3,
     messages: [{ role: "user", content: changesPrompt }]
   });
 
-  const changes = changesMessage.content[0].type === 'text' ? changesMessage.content[0].text : '';
+  const changes = changesMessage.text;
 
   // Quick coherence score for the rewritten proof
   const scorePrompt = `Rate the structural coherence of this mathematical proof on a scale of 1-10.
@@ -3317,14 +3313,14 @@ ${rewrittenProof}
 
 Respond with ONLY a number from 1-10.`;
 
-  const scoreMessage = await anthropic.messages.create({
+  const scoreMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 10,
+    maxTokens: 10,
     temperature: 0,
     messages: [{ role: "user", content: scorePrompt }]
   });
 
-  const scoreText = scoreMessage.content[0].type === 'text' ? scoreMessage.content[0].text : '7';
+  const scoreText = scoreMessage.text || '7';
   const coherenceScore = parseFloat(scoreText.match(/\d+(?:\.\d+)?/)?.[0] || '7');
 
   return {
@@ -3429,25 +3425,16 @@ KEY CORRECTIONS:
 VALIDITY VERIFICATION:
 [Confirm your proof is valid by checking key steps]`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 10000,
+    maxTokens: 10000,
     temperature: 1, // Must be 1 when extended thinking is enabled
-    thinking: {
-      type: "enabled",
-      budget_tokens: 8000
-    },
+    thinkingBudget: 8000,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  let output = '';
-  for (const block of message.content) {
-    if (block.type === 'text') {
-      output = block.text;
-      break;
-    }
-  }
+  let output = message.text;
 
   // Enhanced parsing with multiple fallback patterns
   
@@ -3563,14 +3550,14 @@ Consider:
 
 Respond with ONLY a number from 1-10.`;
 
-  const validationMessage = await anthropic.messages.create({
+  const validationMessage = await completeChat('anthropic', {
     model: "claude-3-7-sonnet-20250219",
-    max_tokens: 10,
+    maxTokens: 10,
     temperature: 0,
     messages: [{ role: "user", content: validationPrompt }]
   });
 
-  const scoreText = validationMessage.content[0].type === 'text' ? validationMessage.content[0].text : '5';
+  const scoreText = validationMessage.text || '5';
   const parsedScore = parseFloat(scoreText.match(/\d+(?:\.\d+)?/)?.[0] || '');
   const validityScore = isNaN(parsedScore) ? 5 : Math.min(10, Math.max(1, parsedScore));
 
@@ -0,0 +1,652 @@
+import {
+  COHERENCE_MODE_TYPES,
+  type CoherenceModeType,
+  type CoherenceState,
+  type ChunkEvaluationResult,
+  type LogicalConsistencyState,
+  type LogicalCohesivenessState,
+  type ScientificExplanatoryState,
+  type ThematicPsychologicalState,
+  type InstructionalState,
+  type MotivationalState,
+  type MathematicalState,
+  type PhilosophicalState,
+} from "@shared/schema";
+import { completeChat } from "./llmProviders";
+import { findContradictions, findDanglingCausalLinks, findDependencyCycles } from "./coherenceChecks";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COHERENCE MODE REGISTRY
+// One definition per CoherenceModeType: the state it tracks across chunks and
+// how chunk updates merge into it, the deterministic violation checks on
+// those updates, the criteria for sequential chunk evaluation, and how the
+// mode analyzes and rewrites a text. Routes and the sequential processor
+// resolve modes here instead of keeping their own lists.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type CoherenceAggressiveness = "conservative" | "moderate" | "aggressive";
+export type CoherenceViolation = ChunkEvaluationResult["violations"][number];
+
+export interface ModeAnalysisResult {
+  score: number;
+  assessment: "PASS" | "WEAK" | "FAIL";
+  analysis: string;
+  subscores: Record<string, number>;
+  // Mode-specific response fields, merged into the route response
+  details?: Record<string, unknown>;
+}
+
+export interface ModeRewriteResult {
+  rewrittenText: string;
+  changes: string;
+  details?: Record<string, unknown>;
+}
+
+interface AnalysisDimension {
+  key: string;
+  label: string;
+  question: string;
+}
+
+// Methods (not function properties) so a definition for one state type is
+// assignable to the registry's CoherenceState-wide view
+export interface CoherenceModeDefinition<S extends CoherenceState = CoherenceState> {
+  mode: S["mode"];
+  label: string;
+  definition: string;
+  // PASS/FAIL criteria for evaluating one chunk against the running state
+  evaluationCriteria: string;
+  initialState(): S;
+  applyUpdate(state: S, update: Partial<S>): S;
+  checkViolations(state: S, update: Partial<S>): CoherenceViolation[];
+  analyze(text: string): Promise<ModeAnalysisResult>;
+  rewrite(text: string, aggressiveness: CoherenceAggressiveness): Promise<ModeRewriteResult>;
+}
+
+const MODEL = "claude-3-7-sonnet-20250219";
+
+const REWRITE_INTENSITY: Record<CoherenceAggressiveness, { system: string; guide: string; temperature: number }> = {
+  conservative: {
+    system: "You are a coherence editor. Make MINIMAL changes and preserve structure and wording.",
+    guide: "Fix only clear breaks in coherence. Keep sentences that already work unchanged.",
+    temperature: 0.3,
+  },
+  moderate: {
+    system: "You are a coherence improver. Fix every break in coherence and strengthen structure; you may expand moderately.",
+    guide: "Fix every break in coherence, rework passages that need it, and add the connections the text is missing.",
+    temperature: 0.5,
+  },
+  aggressive: {
+    system: "You are a MAXIMUM COHERENCE TRANSFORMER. Produce a 9-10/10 coherent text from any input, restructuring from scratch if needed.",
+    guide: "Restructure freely, add missing steps and connections, and rewrite or remove anything that does not serve the whole. Do not merely paraphrase.",
+    temperature: 0.7,
+  },
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function assessmentFor(score: number): "PASS" | "WEAK" | "FAIL" {
+  return score >= 8 ? "PASS" : score >= 5 ? "WEAK" : "FAIL";
+}
+
+// Analyzer driven by the mode's definition and scored dimensions
+function promptAnalyzer(label: string, definition: string, dimensions: AnalysisDimension[]) {
+  return async (text: string): Promise<ModeAnalysisResult> => {
+    const prompt = `Analyze this text for ${label.toUpperCase()} coherence only.
+
+DEFINITION: ${definition}
+
+Coherence is not truth: do not penalize false, unverified or specialist claims unless they break this kind of coherence.
+
+TEXT:
+${text}
+
+Provide the analysis in this EXACT format:
+
+${dimensions.map(d => `${d.label.toUpperCase()} SCORE: [X]/10
+[${d.question}]`).join("\n\n")}
+
+OVERALL COHERENCE SCORE: [X]/10
+[Average of the scores above, rounded to the nearest 0.5.]
+
+ASSESSMENT: [PASS if ≥8, WEAK if 5-7, FAIL if ≤4]
+
+DETAILED REPORT:
+[Quote the passages that hold the text together or break it, and say why.]`;
+
+    const response = await completeChat("anthropic", {
+      system: `You are a coherence analyzer specializing in ${label.toLowerCase()} coherence.`,
+      messages: [{ role: "user", content: prompt }],
+      model: MODEL,
+      temperature: 0.3,
+      maxTokens: 4096,
+    });
+    const output = response.text;
+
+    const subscores: Record<string, number> = {};
+    for (const d of dimensions) {
+      const match = output.match(new RegExp(`${escapeRegExp(d.label)} SCORE:\\s*(\\d+(?:\\.\\d+)?)\\/10`, "i"));
+      subscores[d.key] = match ? parseFloat(match[1]) : 5;
+    }
+    const overallMatch = output.match(/OVERALL COHERENCE SCORE:\s*(\d+(?:\.\d+)?)\/10/i);
+    const assessmentMatch = output.match(/ASSESSMENT:\s*(PASS|WEAK|FAIL)/i);
+    const score = overallMatch
+      ? parseFloat(overallMatch[1])
+      : Math.round(Object.values(subscores).reduce((a, b) => a + b, 0) / dimensions.length * 2) / 2;
+
+    return {
+      score,
+      assessment: assessmentMatch ? assessmentMatch[1].toUpperCase() as "PASS" | "WEAK" | "FAIL" : assessmentFor(score),
+      analysis: output,
+      subscores,
+    };
+  };
+}
+
+// Rewriter driven by the mode's definition and what it must fix
+function promptRewriter(label: string, definition: string, goals: string[]) {
+  return async (text: string, aggressiveness: CoherenceAggressiveness): Promise<ModeRewriteResult> => {
+    const intensity = REWRITE_INTENSITY[aggressiveness];
+    const prompt = `Rewrite this text to maximize ${label.toUpperCase()} coherence.
+
+DEFINITION: ${definition}
+
+WHAT TO FIX:
+${goals.map(g => `- ${g}`).join("\n")}
+
+RULES:
+- Keep the author's positions; coherence is not truth, so false or unverified claims may stay.
+- ${intensity.guide}
+
+ORIGINAL TEXT:
+${text}
+
+Output ONLY the rewritten text. No headers, no labels, no commentary, and no markdown formatting.`;
+
+    const rewriteResponse = await completeChat("anthropic", {
+      system: intensity.system,
+      messages: [{ role: "user", content: prompt }],
+      model: MODEL,
+      temperature: intensity.temperature,
+      maxTokens: 8192,
+    });
+    const rewrittenText = rewriteResponse.text.trim();
+
+    const changesResponse = await completeChat("anthropic", {
+      messages: [{
+        role: "user",
+        content: `Compare these two versions and list, as concise bullet points, the changes made to improve ${label.toLowerCase()} coherence:
+
+ORIGINAL:
+${text}
+
+REWRITTEN:
+${rewrittenText}`,
+      }],
+      model: MODEL,
+      temperature: 0.3,
+      maxTokens: 1024,
+    });
+
+    return { rewrittenText, changes: changesResponse.text };
+  };
+}
+
+// Merge new list items after the existing ones, skipping duplicates
+function appendUnique<T>(existing: T[], added: T[] | undefined): T[] {
+  return added !== undefined ? [...existing, ...added.filter(a => !existing.includes(a))] : existing;
+}
+
+// ─── Mode definitions ──────────────────────────────────────────────────────
+
+const LOGICAL_CONSISTENCY_DEFINITION = "Text contains no direct logical contradictions. Statements don't contradict each other.";
+
+const logicalConsistency: CoherenceModeDefinition<LogicalConsistencyState> = {
+  mode: "logical-consistency",
+  label: "Logical Consistency",
+  definition: LOGICAL_CONSISTENCY_DEFINITION,
+  evaluationCriteria: `- PASS: no contradiction with prior assertions
+- FAIL: asserts X when ¬X already asserted, or asserts both members of a disjoint pair`,
+  initialState: () => ({
+    mode: "logical-consistency",
+    assertions: [],
+    negations: [],
+    disjoint_pairs: []
+  }),
+  applyUpdate: (s, u) => ({
+    ...s,
+    assertions: appendUnique(s.assertions, u.assertions),
+    negations: appendUnique(s.negations, u.negations),
+    disjoint_pairs: u.disjoint_pairs !== undefined ? [...s.disjoint_pairs, ...u.disjoint_pairs] : s.disjoint_pairs
+  }),
+  checkViolations: (s, u) => findContradictions(s, u),
+  analyze: promptAnalyzer("Logical Consistency", LOGICAL_CONSISTENCY_DEFINITION, [
+    { key: "nonContradiction", label: "Non-Contradiction", question: "Does any statement contradict another, directly or by what it entails? 10 = none, 1 = central claims contradict." },
+    { key: "exclusivity", label: "Exclusivity", question: "Does the text ever affirm two alternatives it treats as mutually exclusive?" },
+    { key: "termStability", label: "Term Stability", question: "Do key terms keep one meaning, so that agreements and disagreements are real rather than verbal?" },
+    { key: "quantifierDiscipline", label: "Quantifier Discipline", question: "Are scope words (all, some, never, only) used consistently, without sliding between strong and weak versions of a claim?" },
+  ]),
+  rewrite: promptRewriter("Logical Consistency", LOGICAL_CONSISTENCY_DEFINITION, [
+    "Remove or resolve every pair of statements that contradict each other",
+    "Pick one side wherever the text affirms mutually exclusive alternatives",
+    "Give each key term a single meaning and hold it",
+    "Make quantifiers and qualifications consistent across repeated claims",
+  ]),
+};
+
+const LOGICAL_COHESIVENESS_DEFINITION = "Claims don't just avoid contradiction—they actively support each other in a directed way. Each statement builds on or follows from previous statements.";
+const COHESIVENESS_STAGES = ["setup", "development", "conclusion"];
+
+const logicalCohesiveness: CoherenceModeDefinition<LogicalCohesivenessState> = {
+  mode: "logical-cohesiveness",
+  label: "Logical Cohesiveness",
+  definition: LOGICAL_COHESIVENESS_DEFINITION,
+  evaluationCriteria: `- PASS: advances argument, discharges support obligations, maintains stage progression
+- FAIL: restates without advancing, skips required bridges, regresses stage`,
+  initialState: () => ({
+    mode: "logical-cohesiveness",
+    thesis: "",
+    support_queue: [],
+    current_stage: "setup",
+    bridge_required: ""
+  }),
+  applyUpdate: (s, u) => ({
+    ...s,
+    thesis: u.thesis || s.thesis,
+    support_queue: u.support_queue !== undefined
+      ? [...s.support_queue.filter(sq => !u.support_queue?.includes(sq)), ...u.support_queue.filter(sq => !s.support_queue.includes(sq))]
+      : s.support_queue,
+    current_stage: u.current_stage || s.current_stage,
+    bridge_required: u.bridge_required !== undefined ? u.bridge_required : s.bridge_required
+  }),
+  checkViolations: (s, u) => {
+    // Check stage regression
+    if (u.current_stage && COHESIVENESS_STAGES.indexOf(u.current_stage) < COHESIVENESS_STAGES.indexOf(s.current_stage)) {
+      return [{
+        location: `stage: ${s.current_stage} -> ${u.current_stage}`,
+        type: "stage_regression",
+        description: `Stage regressed from "${s.current_stage}" to "${u.current_stage}" without justification`
+      }];
+    }
+    return [];
+  },
+  analyze: promptAnalyzer("Logical Cohesiveness", LOGICAL_COHESIVENESS_DEFINITION, [
+    { key: "thesisClarity", label: "Thesis Clarity", question: "Is there a determinate thesis that the rest of the text serves?" },
+    { key: "support", label: "Support", question: "Does each claim support the thesis or an earlier claim, rather than merely sitting beside it?" },
+    { key: "bridging", label: "Bridging", question: "Are the inferential steps between claims stated, or does the reader have to supply them?" },
+    { key: "progression", label: "Progression", question: "Does the text move from setup through development to conclusion without restating or regressing?" },
+  ]),
+  rewrite: promptRewriter("Logical Cohesiveness", LOGICAL_COHESIVENESS_DEFINITION, [
+    "State the thesis early and make every section serve it",
+    "Turn lists of claims into chains where each claim supports the next or the thesis",
+    "Write out the missing bridges between claims",
+    "Cut restatements that do not advance the argument and keep the order setup, development, conclusion",
+  ]),
+};
+
+const scientificExplanatory: CoherenceModeDefinition<ScientificExplanatoryState> = {
+  mode: "scientific-explanatory",
+  label: "Scientific-Explanatory",
+  definition: "Explanations align with natural law and known mechanisms. The account could plausibly be true given how the world actually works.",
+  evaluationCriteria: `- PASS: extends causal graph, maintains level or bridges explicitly, keeps feedback loops active
+- FAIL: resets to slogan, drops mechanism, changes level without link`,
+  initialState: () => ({
+    mode: "scientific-explanatory",
+    causal_nodes: [],
+    causal_edges: [],
+    level: "",
+    active_feedback_loops: [],
+    mechanism_requirements: []
+  }),
+  applyUpdate: (s, u) => {
+    // Remove resolved loops (any loops marked for removal in update)
+    const resolvedLoopNames: string[] = (u as any).resolved_loops || [];
+    return {
+      ...s,
+      causal_nodes: appendUnique(s.causal_nodes, u.causal_nodes),
+      causal_edges: u.causal_edges !== undefined ? [...s.causal_edges, ...u.causal_edges] : s.causal_edges,
+      level: u.level || s.level,
+      active_feedback_loops: [
+        ...s.active_feedback_loops.filter(l => !resolvedLoopNames.includes(l.name)),
+        ...(u.active_feedback_loops || [])
+      ],
+      mechanism_requirements: appendUnique(s.mechanism_requirements, u.mechanism_requirements)
+    };
+  },
+  // Mechanism and level problems are judged by the chunk evaluation
+  checkViolations: (s, u) => findDanglingCausalLinks(s, u),
+  // Scientific accuracy is scored separately from logical consistency by a dedicated analyzer
+  analyze: async (text) => {
+    const { analyzeScientificExplanatoryCoherence } = await import("./coherenceMeter");
+    const result = await analyzeScientificExplanatoryCoherence(text);
+    return {
+      score: result.overallScore,
+      assessment: result.overallAssessment,
+      analysis: result.fullAnalysis,
+      subscores: {
+        logicalConsistency: result.logicalConsistency.score,
+        scientificAccuracy: result.scientificAccuracy.score
+      },
+      details: {
+        isScientificExplanatory: true,
+        logicalConsistency: result.logicalConsistency,
+        scientificAccuracy: result.scientificAccuracy
+      }
+    };
+  },
+  rewrite: async (text, aggressiveness) => {
+    const { rewriteScientificExplanatory } = await import("./coherenceMeter");
+    const result = await rewriteScientificExplanatory(text, aggressiveness);
+    return {
+      rewrittenText: result.rewrittenText,
+      changes: result.changes,
+      details: {
+        isScientificExplanatory: true,
+        correctionsApplied: result.correctionsApplied,
+        scientificAccuracyScore: result.scientificAccuracyScore
+      }
+    };
+  },
+};
+
+const THEMATIC_DEFINITION = "Mood, imagery, emotional trajectory, and psychological feel maintain consistency and flow naturally. The 'texture' of the writing holds together.";
+
+const thematicPsychological: CoherenceModeDefinition<ThematicPsychologicalState> = {
+  mode: "thematic-psychological",
+  label: "Thematic-Psychological",
+  definition: THEMATIC_DEFINITION,
+  evaluationCriteria: `- PASS: continues affect or signals transition
+- FAIL: abrupt mood break, unexplained tempo shift`,
+  initialState: () => ({
+    mode: "thematic-psychological",
+    dominant_affect: "",
+    tempo: "",
+    stance: ""
+  }),
+  applyUpdate: (s, u) => ({
+    ...s,
+    dominant_affect: u.dominant_affect || s.dominant_affect,
+    tempo: u.tempo || s.tempo,
+    stance: u.stance || s.stance
+  }),
+  // Whether a shift in affect or tempo was signalled is judged by the chunk evaluation
+  checkViolations: () => [],
+  analyze: promptAnalyzer("Thematic-Psychological", THEMATIC_DEFINITION, [
+    { key: "affectContinuity", label: "Affect Continuity", question: "Does the dominant mood hold, or change only where the text signals a transition?" },
+    { key: "imageryUnity", label: "Imagery Unity", question: "Do images and motifs belong to one world and recur with purpose?" },
+    { key: "tempoControl", label: "Tempo Control", question: "Does the pacing change only when the material calls for it?" },
+    { key: "stanceStability", label: "Stance Stability", question: "Does the narrating voice keep a stable attitude toward its subject?" },
+  ]),
+  rewrite: promptRewriter("Thematic-Psychological", THEMATIC_DEFINITION, [
+    "Smooth or signal every abrupt change of mood",
+    "Remove images that clash with the text's world and develop the recurring ones",
+    "Even out unexplained shifts of pace",
+    "Hold the narrating voice's stance steady",
+  ]),
+};
+
+const INSTRUCTIONAL_DEFINITION = "Sends a consistent, actionable message. The reader knows exactly what they are supposed to do. No contradictory directives.";
+
+const instructional: CoherenceModeDefinition<InstructionalState> = {
+  mode: "instructional",
+  label: "Instructional",
+  definition: INSTRUCTIONAL_DEFINITION,
+  evaluationCriteria: `- PASS: follows logical step order, respects prereqs
+- FAIL: assumes unestablished prereqs, skips steps, leaves loops open`,
+  initialState: () => ({
+    mode: "instructional",
+    goal: "",
+    steps_done: [],
+    prereqs: [],
+    open_loops: []
+  }),
+  applyUpdate: (s, u) => {
+    // prereqs in update means satisfied - remove them from pending
+    const satisfiedPrereqs: string[] = (u as any).prereqs_satisfied || [];
+    const closedLoops: string[] = (u as any).loops_closed || [];
+    return {
+      ...s,
+      goal: u.goal || s.goal,
+      steps_done: appendUnique(s.steps_done, u.steps_done),
+      prereqs: s.prereqs.filter(p => !satisfiedPrereqs.includes(p)),
+      open_loops: [
+        ...s.open_loops.filter(l => !closedLoops.includes(l)),
+        ...(u.open_loops || []).filter(l => !s.open_loops.includes(l))
+      ]
+    };
+  },
+  // Whether a step relies on a pending prerequisite is judged by the chunk evaluation
+  checkViolations: () => [],
+  analyze: promptAnalyzer("Instructional", INSTRUCTIONAL_DEFINITION, [
+    { key: "goalClarity", label: "Goal Clarity", question: "Does the reader know what the instructions will achieve?" },
+    { key: "stepOrder", label: "Step Order", question: "Are steps in an order that can actually be followed, with none missing?" },
+    { key: "prerequisites", label: "Prerequisites", question: "Is everything a step relies on established before that step?" },
+    { key: "directiveConsistency", label: "Directive Consistency", question: "Are there no conflicting directives, and is every started task finished?" },
+  ]),
+  rewrite: promptRewriter("Instructional", INSTRUCTIONAL_DEFINITION, [
+    "State the goal before the first step",
+    "Order the steps so each can be carried out when it is reached, and add missing ones",
+    "Introduce every prerequisite before the step that needs it",
+    "Resolve conflicting directives and close every task that is opened",
+  ]),
+};
+
+const MOTIVATIONAL_DEFINITION = "User knows how they are supposed to feel. Emotional direction is clear and maintained throughout. Inspires consistent psychological state.";
+
+const motivational: CoherenceModeDefinition<MotivationalState> = {
+  mode: "motivational",
+  label: "Motivational",
+  definition: MOTIVATIONAL_DEFINITION,
+  evaluationCriteria: `- PASS: maintains direction or escalates/de-escalates smoothly
+- FAIL: reverses direction, jumps >2 intensity levels`,
+  initialState: () => ({
+    mode: "motivational",
+    direction: "encourage",
+    intensity: 3,
+    target: ""
+  }),
+  applyUpdate: (s, u) => ({
+    ...s,
+    direction: u.direction || s.direction,
+    intensity: u.intensity !== undefined ? u.intensity : s.intensity,
+    target: u.target || s.target
+  }),
+  checkViolations: (s, u) => {
+    // Check intensity swing
+    if (u.intensity !== undefined && Math.abs(u.intensity - s.intensity) > 2) {
+      const swing = Math.abs(u.intensity - s.intensity);
+      return [{
+        location: `intensity: ${s.intensity} -> ${u.intensity}`,
+        type: "intensity_swing",
+        description: `Intensity changed by ${swing} levels (max allowed is 2 without transition)`
+      }];
+    }
+    return [];
+  },
+  analyze: promptAnalyzer("Motivational", MOTIVATIONAL_DEFINITION, [
+    { key: "direction", label: "Direction", question: "Is it clear whether the reader is being encouraged, warned, pressured or reassured?" },
+    { key: "consistency", label: "Consistency", question: "Does that direction hold, without reversals that undercut it?" },
+    { key: "intensityControl", label: "Intensity Control", question: "Does intensity build or ease gradually rather than jumping?" },
+    { key: "targetFocus", label: "Target Focus", question: "Does the text stay focused on one audience and one intended response?" },
+  ]),
+  rewrite: promptRewriter("Motivational", MOTIVATIONAL_DEFINITION, [
+    "Make the intended feeling unmistakable from the start",
+    "Remove passages that pull the reader in the opposite direction",
+    "Build or ease intensity in steps instead of jumps",
+    "Address one audience and one intended response throughout",
+  ]),
+};
+
+const MATHEMATICAL_DEFINITION = "Mathematical proofs are valid, derivations follow logically, formulas are correctly applied, and quantitative claims are properly supported.";
+
+const mathematical: CoherenceModeDefinition<MathematicalState> = {
+  mode: "mathematical",
+  label: "Mathematical",
+  definition: MATHEMATICAL_DEFINITION,
+  evaluationCriteria: `- PASS: uses only established lemmas, maintains proof method
+- FAIL: uses unproved results, circular reasoning`,
+  initialState: () => ({
+    mode: "mathematical",
+    givens: [],
+    proved: [],
+    goal: "",
+    proof_method: "",
+    dependencies: []
+  }),
+  applyUpdate: (s, u) => ({
+    ...s,
+    givens: appendUnique(s.givens, u.givens),
+    proved: appendUnique(s.proved, u.proved),
+    goal: u.goal || s.goal,
+    proof_method: u.proof_method || s.proof_method,
+    dependencies: u.dependencies !== undefined ? [...s.dependencies, ...u.dependencies] : s.dependencies
+  }),
+  checkViolations: (s, u) => {
+    const violations: CoherenceViolation[] = [];
+    // Check for use of unproved lemmas
+    for (const dep of u.dependencies || []) {
+      for (const d of dep.depends_on) {
+        if (!s.proved.includes(d) && !s.givens.includes(d)) {
+          violations.push({
+            location: `step: "${dep.step}"`,
+            type: "unproved_dependency",
+            description: `Step depends on "${d}" which is neither given nor proved`
+          });
+        }
+      }
+    }
+    return [...violations, ...findDependencyCycles(s, u)];
+  },
+  analyze: promptAnalyzer("Mathematical", MATHEMATICAL_DEFINITION, [
+    { key: "logicalFlow", label: "Logical Flow", question: "Does each step follow from the givens and earlier steps?" },
+    { key: "stepJustification", label: "Step Justification", question: "Is every step justified, with no use of results that were not established?" },
+    { key: "notationalConsistency", label: "Notational Consistency", question: "Are symbols defined before use and used with one meaning?" },
+    { key: "methodDiscipline", label: "Method Discipline", question: "Does the proof keep to its declared method (induction, contradiction, construction) without circularity?" },
+  ]),
+  rewrite: promptRewriter("Mathematical", MATHEMATICAL_DEFINITION, [
+    "Justify every step from the givens or earlier results, adding the missing ones",
+    "Define each symbol before it is used and keep its meaning fixed",
+    "Keep to one proof method and remove circular steps",
+    "Keep the mathematical notation the text already uses",
+  ]),
+};
+
+const PHILOSOPHICAL_DEFINITION = "Conceptual rigor is maintained throughout. Terms are used consistently, distinctions are preserved, and arguments avoid category mistakes.";
+
+const philosophical: CoherenceModeDefinition<PhilosophicalState> = {
+  mode: "philosophical",
+  label: "Philosophical",
+  definition: PHILOSOPHICAL_DEFINITION,
+  evaluationCriteria: `- PASS: concepts stable, distinctions maintained, dialectic progressed
+- FAIL: equivocation, collapsed distinction, unanswered objection`,
+  initialState: () => ({
+    mode: "philosophical",
+    core_concepts: {},
+    distinctions: [],
+    dialectic: { objections_raised: [], replies_pending: [] },
+    no_equivocation: []
+  }),
+  applyUpdate: (s, u) => {
+    // New objections go to both raised and pending
+    const newObjections: string[] = (u as any).new_objections || [];
+    const repliedObjections: string[] = (u as any).objections_replied || [];
+    return {
+      ...s,
+      core_concepts: u.core_concepts !== undefined ? { ...s.core_concepts, ...u.core_concepts } : s.core_concepts,
+      distinctions: appendUnique(s.distinctions, u.distinctions),
+      dialectic: {
+        objections_raised: [...s.dialectic.objections_raised, ...newObjections],
+        replies_pending: [
+          ...s.dialectic.replies_pending.filter(r => !repliedObjections.includes(r)),
+          ...newObjections
+        ]
+      },
+      no_equivocation: s.no_equivocation // Violations are logged, not added
+    };
+  },
+  checkViolations: (s, u) => {
+    const violations: CoherenceViolation[] = [];
+    // A concept given a different definition from the one already fixed
+    for (const [concept, meaning] of Object.entries(u.core_concepts || {})) {
+      const fixed = s.core_concepts[concept];
+      if (fixed && meaning && fixed.trim().toLowerCase() !== meaning.trim().toLowerCase()) {
+        violations.push({
+          location: `concept: "${concept}"`,
+          type: "equivocation",
+          description: `"${concept}" was defined as "${fixed}" but is now used as "${meaning}"`
+        });
+      }
+    }
+    return violations;
+  },
+  analyze: promptAnalyzer("Philosophical", PHILOSOPHICAL_DEFINITION, [
+    { key: "conceptualStability", label: "Conceptual Stability", question: "Are key concepts used with one meaning throughout, without equivocation?" },
+    { key: "distinctions", label: "Distinctions", question: "Are the distinctions the text draws kept, rather than collapsed later?" },
+    { key: "dialectic", label: "Dialectic", question: "Are the objections the text raises answered?" },
+    { key: "categoryDiscipline", label: "Category Discipline", question: "Does the text avoid category mistakes and attributing properties to things that cannot have them?" },
+  ]),
+  rewrite: promptRewriter("Philosophical", PHILOSOPHICAL_DEFINITION, [
+    "Fix one meaning for each key concept and remove equivocations",
+    "Keep every distinction the text draws and stop later passages from collapsing it",
+    "Answer each objection that is raised",
+    "Correct category mistakes",
+  ]),
+};
+
+export const COHERENCE_MODES: { [M in CoherenceModeType]: CoherenceModeDefinition<Extract<CoherenceState, { mode: M }>> } = {
+  "logical-consistency": logicalConsistency,
+  "logical-cohesiveness": logicalCohesiveness,
+  "scientific-explanatory": scientificExplanatory,
+  "thematic-psychological": thematicPsychological,
+  "instructional": instructional,
+  "motivational": motivational,
+  "mathematical": mathematical,
+  "philosophical": philosophical,
+};
+
+export function isCoherenceMode(value: unknown): value is CoherenceModeType {
+  return typeof value === "string" && (COHERENCE_MODE_TYPES as readonly string[]).includes(value);
+}
+
+export function getCoherenceMode(mode: CoherenceModeType): CoherenceModeDefinition {
+  const definition = COHERENCE_MODES[mode] as CoherenceModeDefinition | undefined;
+  if (!definition) {
+    throw new Error(`Unknown coherence mode: ${mode}`);
+  }
+  return definition;
+}
+
+/**
+ * Ask a model which coherence mode a text is aiming for. Falls back to
+ * `fallback` when the call fails or names no known mode.
+ */
+export async function detectCoherenceMode(
+  text: string,
+  provider: "openai" | "anthropic" = "anthropic",
+  fallback: CoherenceModeType = "logical-consistency"
+): Promise<CoherenceModeType> {
+  const prompt = `Analyze this text and determine which coherence type it is attempting to achieve. Choose the SINGLE BEST match from these options:
+
+${COHERENCE_MODE_TYPES.map(mode => `- ${mode}: ${COHERENCE_MODES[mode].definition}`).join("\n")}
+
+TEXT TO ANALYZE:
+${text.substring(0, 2000)}
+
+Respond with ONLY the coherence type (e.g., "logical-consistency" or "scientific-explanatory"). No explanation needed.`;
+
+  try {
+    const response = await completeChat(provider, {
+      messages: [{ role: "user", content: prompt }],
+      model: provider === "openai" ? "gpt-4o" : MODEL,
+      temperature: 0,
+      maxTokens: 50
+    });
+    const detected = response.text.trim().toLowerCase().replace(/[^a-z-]/g, "");
+    return isCoherenceMode(detected) ? detected : fallback;
+  } catch (error: any) {
+    console.error("[COHERENCE] Mode detection failed:", error.message);
+    return fallback;
+  }
+}
@@ -1,5 +1,4 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
+import { completePrompt } from "./llmProviders";
 import {
   generateDocumentId,
   createInitialState,
@@ -11,15 +10,13 @@ import {
   applyStateUpdate,
   checkViolations
 } from "./coherenceDatabase";
+import { getCoherenceMode, detectCoherenceMode } from "./coherenceModes";
 import type { 
   CoherenceState, 
   CoherenceModeType, 
   ChunkEvaluationResult 
 } from "@shared/schema";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-
 // Chunk text into segments of ~1000 words
 function chunkText(text: string, maxWords: number = 1000): string[] {
   const words = text.split(/\s+/);
@@ -55,7 +52,7 @@ TASK:
 4. Return updated state reflecting this chunk's contributions
 
 EVALUATION CRITERIA FOR ${mode.toUpperCase()}:
-${getEvaluationCriteria(mode)}
+${getCoherenceMode(mode).evaluationCriteria}
 
 OUTPUT FORMAT (respond with ONLY valid JSON, no markdown):
 {
@@ -73,89 +70,6 @@ IMPORTANT:
 - state_update should contain ONLY the changes/additions from this chunk`;
 }
 
-function getEvaluationCriteria(mode: CoherenceModeType): string {
-  switch (mode) {
-    case "logical-consistency":
-      return `- PASS: no contradiction with prior assertions
-- FAIL: asserts X when ¬X already asserted, or asserts both members of a disjoint pair`;
-    
-    case "logical-cohesiveness":
-      return `- PASS: advances argument, discharges support obligations, maintains stage progression
-- FAIL: restates without advancing, skips required bridges, regresses stage`;
-    
-    case "scientific-explanatory":
-      return `- PASS: extends causal graph, maintains level or bridges explicitly, keeps feedback loops active
-- FAIL: resets to slogan, drops mechanism, changes level without link`;
-    
-    case "thematic-psychological":
-      return `- PASS: continues affect or signals transition
-- FAIL: abrupt mood break, unexplained tempo shift`;
-    
-    case "instructional":
-      return `- PASS: follows logical step order, respects prereqs
-- FAIL: assumes unestablished prereqs, skips steps, leaves loops open`;
-    
-    case "motivational":
-      return `- PASS: maintains direction or escalates/de-escalates smoothly
-- FAIL: reverses direction, jumps >2 intensity levels`;
-    
-    case "mathematical":
-      return `- PASS: uses only established lemmas, maintains proof method
-- FAIL: uses unproved results, circular reasoning`;
-    
-    case "philosophical":
-      return `- PASS: concepts stable, distinctions maintained, dialectic progressed
-- FAIL: equivocation, collapsed distinction, unanswered objection`;
-    
-    default:
-      return "";
-  }
-}
-
-// Auto-detect coherence mode from first chunk
-async function autoDetectMode(firstChunk: string): Promise<CoherenceModeType> {
-  const prompt = `Analyze this text and determine its dominant coherence mode.
-
-TEXT:
-${firstChunk.substring(0, 2000)}
-
-Choose ONE mode from:
-- logical-consistency: Arguments with claims that could contradict
-- logical-cohesiveness: Structured arguments with thesis and support
-- scientific-explanatory: Causal explanations with mechanisms
-- thematic-psychological: Emotional/tonal narrative
-- instructional: Step-by-step instructions or procedures
-- motivational: Encouragement, warnings, or persuasion
-- mathematical: Mathematical proofs or formal derivations
-- philosophical: Conceptual analysis with distinctions
-
-Respond with ONLY the mode name (e.g., "logical-consistency"), no explanation.`;
-
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [{ role: "user", content: prompt }],
-      temperature: 0.1,
-      max_tokens: 50
-    });
-
-    const mode = response.choices[0]?.message?.content?.trim().toLowerCase() as CoherenceModeType;
-    const validModes: CoherenceModeType[] = [
-      "logical-consistency", "logical-cohesiveness", "scientific-explanatory",
-      "thematic-psychological", "instructional", "motivational",
-      "mathematical", "philosophical"
-    ];
-
-    if (validModes.includes(mode)) {
-      return mode;
-    }
-    return "logical-cohesiveness"; // Default fallback
-  } catch (error) {
-    console.error("Auto-detect mode error:", error);
-    return "logical-cohesiveness";
-  }
-}
-
 // Evaluate a single chunk using AI
 async function evaluateChunk(
   mode: CoherenceModeType,
@@ -168,25 +82,10 @@ async function evaluateChunk(
   const prompt = buildEvaluationPrompt(mode, currentState, chunkText, chunkIndex, totalChunks);
 
   try {
-    let responseText: string;
-
-    if (provider === "anthropic") {
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2000,
-        messages: [{ role: "user", content: prompt }]
-      });
-      responseText = response.content[0].type === "text" ? response.content[0].text : "";
-    } else {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2,
-        max_tokens: 2000,
-        response_format: { type: "json_object" }
-      });
-      responseText = response.choices[0]?.message?.content || "";
-    }
+    const response = await completePrompt(provider, prompt, provider === "anthropic"
+      ? { model: "claude-sonnet-4-20250514", maxTokens: 2000 }
+      : { model: "gpt-4o", temperature: 0.2, maxTokens: 2000, jsonMode: true });
+    const responseText = response.text;
 
     // Parse JSON response
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -235,25 +134,10 @@ Extract and populate the state fields based on what this chunk establishes.
 Respond with ONLY valid JSON matching the state template structure.`;
 
   try {
-    let responseText: string;
-
-    if (provider === "anthropic") {
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2000,
-        messages: [{ role: "user", content: prompt }]
-      });
-      responseText = response.content[0].type === "text" ? response.content[0].text : "";
-    } else {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2,
-        max_tokens: 2000,
-        response_format: { type: "json_object" }
-      });
-      responseText = response.choices[0]?.message?.content || "";
-    }
+    const response = await completePrompt(provider, prompt, provider === "anthropic"
+      ? { model: "claude-sonnet-4-20250514", maxTokens: 2000 }
+      : { model: "gpt-4o", temperature: 0.2, maxTokens: 2000, jsonMode: true });
+    const responseText = response.text;
 
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
@@ -280,6 +164,7 @@ export async function processDocumentSequentially(
     index: number;
     status: "preserved" | "weakened" | "broken";
     violations: { location: string; type: string; description: string }[];
+    deterministicViolations: { location: string; type: string; description: string }[];
     repairs: { location: string; suggestion: string }[];
   }[];
   finalState: CoherenceState;
@@ -291,7 +176,7 @@ export async function processDocumentSequentially(
   const chunks = chunkText(text, 1000);
   
   // Step 2: Auto-detect mode if not provided
-  const coherenceMode = mode || await autoDetectMode(chunks[0]);
+  const coherenceMode = mode || await detectCoherenceMode(chunks[0], provider, "logical-cohesiveness");
   
   // Step 3: Process chunk 0 - extract initial state
   const initialState = await extractInitialState(coherenceMode, chunks[0], provider);
@@ -299,19 +184,27 @@ export async function processDocumentSequentially(
   
   // Evaluate first chunk
   const firstEval = await evaluateChunk(coherenceMode, initialState, chunks[0], 0, chunks.length, provider);
+  const firstDeterministic = checkViolations(initialState, firstEval.state_update);
+  const firstStatus = firstDeterministic.length > 0 && firstEval.status === "preserved" ? "weakened" : firstEval.status;
   const firstStateAfter = applyStateUpdate(initialState, firstEval.state_update);
   await updateCoherenceState(documentId, coherenceMode, firstStateAfter);
-  await writeChunkEvaluation(documentId, coherenceMode, 0, chunks[0], firstEval, firstStateAfter);
+  await writeChunkEvaluation(documentId, coherenceMode, 0, chunks[0], {
+    ...firstEval,
+    deterministic_violations: firstDeterministic,
+    status: firstStatus
+  }, firstStateAfter);
 
   const chunkResults: {
     index: number;
     status: "preserved" | "weakened" | "broken";
     violations: { location: string; type: string; description: string }[];
+    deterministicViolations: { location: string; type: string; description: string }[];
     repairs: { location: string; suggestion: string }[];
   }[] = [{
     index: 0,
-    status: firstEval.status,
+    status: firstStatus,
     violations: firstEval.violations,
+    deterministicViolations: firstDeterministic,
     repairs: firstEval.repairs
   }];
 
@@ -326,13 +219,12 @@ export async function processDocumentSequentially(
     // Evaluate chunk against current state
     const evaluation = await evaluateChunk(coherenceMode, currentState, chunks[i], i, chunks.length, provider);
     
-    // Check for violations
-    const violations = checkViolations(currentState, evaluation.state_update);
-    const allViolations = [...evaluation.violations, ...violations];
+    // Local state checks run alongside the model's evaluation and are reported separately
+    const deterministicViolations = checkViolations(currentState, evaluation.state_update);
     
     // Update status based on violations
     let status = evaluation.status;
-    if (allViolations.length > 0 && status === "preserved") {
+    if ((evaluation.violations.length > 0 || deterministicViolations.length > 0) && status === "preserved") {
       status = "weakened";
     }
 
@@ -345,14 +237,15 @@ export async function processDocumentSequentially(
     // Write chunk evaluation
     await writeChunkEvaluation(documentId, coherenceMode, i, chunks[i], {
       ...evaluation,
-      violations: allViolations,
+      deterministic_violations: deterministicViolations,
       status
     }, newState);
 
     chunkResults.push({
       index: i,
       status,
-      violations: allViolations,
+      violations: evaluation.violations,
+      deterministicViolations,
       repairs: evaluation.repairs
     });
   }
@@ -391,7 +284,7 @@ export async function processDocumentSequentially(
 
 function generateSummary(
   mode: CoherenceModeType,
-  chunkResults: { index: number; status: string; violations: any[] }[],
+  chunkResults: { index: number; status: string; violations: any[]; deterministicViolations: any[] }[],
   finalState: CoherenceState,
   overallStatus: string
 ): string {
@@ -400,6 +293,7 @@ function generateSummary(
   const weakenedCount = chunkResults.filter(c => c.status === "weakened").length;
   const brokenCount = chunkResults.filter(c => c.status === "broken").length;
   const totalViolations = chunkResults.reduce((sum, c) => sum + c.violations.length, 0);
+  const totalDeterministic = chunkResults.reduce((sum, c) => sum + c.deterministicViolations.length, 0);
 
   let summary = `COHERENCE ANALYSIS SUMMARY (${mode})\n`;
   summary += `═══════════════════════════════════════\n\n`;
@@ -409,7 +303,8 @@ function generateSummary(
   summary += `  • Preserved: ${preservedCount} (${Math.round(preservedCount/totalChunks*100)}%)\n`;
   summary += `  • Weakened: ${weakenedCount} (${Math.round(weakenedCount/totalChunks*100)}%)\n`;
   summary += `  • Broken: ${brokenCount} (${Math.round(brokenCount/totalChunks*100)}%)\n`;
-  summary += `  • Total violations: ${totalViolations}\n\n`;
+  summary += `  • Total violations: ${totalViolations}\n`;
+  summary += `  • State check violations: ${totalDeterministic}\n\n`;
 
   if (totalViolations > 0) {
     summary += `Key Issues Found:\n`;
@@ -420,6 +315,15 @@ function generateSummary(
     }
   }
 
+  if (totalDeterministic > 0) {
+    summary += `${totalViolations > 0 ? "\n" : ""}State Check Failures:\n`;
+    for (const chunk of chunkResults) {
+      for (const v of chunk.deterministicViolations) {
+        summary += `  • [Chunk ${chunk.index + 1}] ${v.type}: ${v.description}\n`;
+      }
+    }
+  }
+
   return summary;
 }
 
@@ -429,7 +333,7 @@ export async function getDocumentStatus(
   mode: CoherenceModeType
 ): Promise<{
   state: CoherenceState | null;
-  chunks: { chunkIndex: number; status: string; violationCount: number }[];
+  chunks: { chunkIndex: number; status: string; violationCount: number; deterministicViolationCount: number }[];
 }> {
   const state = await readCoherenceState(documentId, mode);
   const chunkEvals = await readAllChunkEvaluations(documentId, mode);
@@ -439,7 +343,8 @@ export async function getDocumentStatus(
     chunks: chunkEvals.map(c => ({
       chunkIndex: c.chunkIndex,
       status: c.evaluationResult.status,
-      violationCount: c.evaluationResult.violations.length
+      violationCount: c.evaluationResult.violations.length,
+      deterministicViolationCount: c.evaluationResult.deterministic_violations?.length ?? 0
     }))
   };
 }
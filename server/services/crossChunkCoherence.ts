@@ -1,5 +1,3 @@
-import Anthropic from "@anthropic-ai/sdk";
-import OpenAI from "openai";
 import { 
   GlobalSkeleton, 
   ChunkDelta, 
@@ -11,36 +9,15 @@ import {
   ChapterInfo
 } from "@shared/schema";
 import { logLLMCall, summarizeText } from './auditService';
-
-let anthropic: Anthropic | null = null;
-let openai: OpenAI | null = null;
-
-function getAnthropic(): Anthropic {
-  if (!anthropic) {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY is not configured');
-    }
-    anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  }
-  return anthropic;
-}
-
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not configured');
-    }
-    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openai;
-}
+import { completePrompt } from './llmProviders';
+import { getLLMContext } from './llmContext';
+import { runChunksInWaves, getChunkConcurrency } from './chunkScheduler';
 
 const PRIMARY_MODEL = "claude-sonnet-4-5-20250929";
 const FALLBACK_MODEL = "gpt-4-turbo";
 
 const MAX_INPUT_WORDS = 100000; // Support up to 100k words
 const TARGET_CHUNK_SIZE = 800; // Larger chunks = fewer API calls = more coherent output
-const CHUNK_DELAY_MS = 2000;
 const MAX_CHUNK_RETRIES = 2;
 
 // Length mode types
@@ -529,6 +506,14 @@ You must significantly expand this chunk with substantive additions.
 const CLAUDE_MAX_OUTPUT_TOKENS = 64000; // Claude 3.5 Sonnet supports up to 64k output tokens
 const GPT_MAX_OUTPUT_TOKENS = 16384; // GPT-4 Turbo supports 16k output
 
+// Chunk calls are logged under the job they run for (a reconstruction project
+// or a streaming session), so replaying one never picks up the other's
+// recordings under the same id
+function chunkCallJobType(): string {
+  const jobType = getLLMContext()?.jobType;
+  return jobType ? `${jobType}_chunk` : 'cc_chunk_reconstruction';
+}
+
 async function callWithFallback(
   prompt: string,
   maxTokens: number,
@@ -541,30 +526,26 @@ async function callWithFallback(
   for (let attempt = 0; attempt <= MAX_TRUNCATION_RETRIES; attempt++) {
     try {
       const ccStartTime = Date.now();
-      const message = await getAnthropic().messages.create({
+      const message = await completePrompt('anthropic', prompt, {
         model: PRIMARY_MODEL,
-        max_tokens: Math.min(currentMaxTokens, CLAUDE_MAX_OUTPUT_TOKENS),
-        temperature,
-        messages: [{ role: "user", content: prompt }]
+        maxTokens: Math.min(currentMaxTokens, CLAUDE_MAX_OUTPUT_TOKENS),
+        temperature
       });
       
-      const text = message.content[0].type === 'text' ? message.content[0].text : '';
-      const stopReason = message.stop_reason;
+      const text = message.text;
+      const stopReason = message.finishReason;
       
       await logLLMCall({
-        jobType: 'cc_chunk_reconstruction',
-        modelName: PRIMARY_MODEL,
-        provider: 'anthropic',
+        jobType: chunkCallJobType(),
         promptSummary: summarizeText(prompt, 100),
         responseSummary: summarizeText(text, 200),
-        inputTokens: message.usage?.input_tokens,
-        outputTokens: message.usage?.output_tokens,
         latencyMs: Date.now() - ccStartTime,
-        status: stopReason === 'end_turn' ? 'success' : stopReason || 'unknown'
+        status: stopReason === 'stop' ? 'success' : stopReason || 'unknown',
+        exchange: message
       });
       
       // Check if truncated due to max_tokens
-      if (stopReason === 'max_tokens') {
+      if (stopReason === 'length') {
         if (retryOnTruncation && attempt < MAX_TRUNCATION_RETRIES) {
           // Double the token limit for next attempt (no hard cap below model max)
           const nextTokens = Math.min(currentMaxTokens * 2, CLAUDE_MAX_OUTPUT_TOKENS);
@@ -602,25 +583,21 @@ async function callWithFallback(
         console.log(`[CC] Claude model error (${status}), falling back to GPT-4 Turbo`);
         try {
           const fallbackStartTime = Date.now();
-          const completion = await getOpenAI().chat.completions.create({
+          const completion = await completePrompt('openai', prompt, {
             model: FALLBACK_MODEL,
-            max_tokens: Math.min(currentMaxTokens, GPT_MAX_OUTPUT_TOKENS),
-            temperature,
-            messages: [{ role: "user", content: prompt }]
+            maxTokens: Math.min(currentMaxTokens, GPT_MAX_OUTPUT_TOKENS),
+            temperature
           });
-          const text = completion.choices[0]?.message?.content || '';
-          const finishReason = completion.choices[0]?.finish_reason;
+          const text = completion.text;
+          const finishReason = completion.finishReason;
           
           await logLLMCall({
-            jobType: 'cc_chunk_reconstruction',
-            modelName: FALLBACK_MODEL,
-            provider: 'openai',
+            jobType: chunkCallJobType(),
             promptSummary: summarizeText(prompt, 100),
             responseSummary: summarizeText(text, 200),
-            inputTokens: completion.usage?.prompt_tokens,
-            outputTokens: completion.usage?.completion_tokens,
             latencyMs: Date.now() - fallbackStartTime,
-            status: finishReason === 'stop' ? 'success' : finishReason || 'unknown'
+            status: finishReason === 'stop' ? 'success' : finishReason || 'unknown',
+            exchange: completion
           });
           
           if (finishReason === 'length') {
@@ -1293,34 +1270,35 @@ export async function crossChunkReconstruct(
   const chunkBoundaries = smartChunk(text);
   console.log(`[CC] Created ${chunkBoundaries.length} chunks, per-chunk target ~${lengthConfig.chunkTargetWords} words`);
   
-  console.log("[CC] Pass 2: Constrained chunk reconstruction (sequential with delays)...");
-  const processedChunks: { text: string; delta: ChunkDelta }[] = [];
-  let totalOutputWords = 0;
-  
-  for (let i = 0; i < chunkBoundaries.length; i++) {
-    // Build prior deltas context from already-processed chunks (in-memory version)
-    const priorDeltas = processedChunks.map(pc => pc.delta);
-    const priorDeltasContext = buildInMemoryPriorContext(priorDeltas);
-    
-    const { outputText, delta } = await reconstructChunkConstrained(
-      chunkBoundaries[i].text,
-      i,
-      chunkBoundaries.length,
-      skeleton,
-      contentAnalysis,
-      undefined, // Let lengthConfig determine target
-      undefined, // onCheckpoint
-      lengthConfig,
-      priorDeltasContext // Pass accumulated coherence context
-    );
-    processedChunks.push({ text: outputText, delta });
-    totalOutputWords += countWords(outputText);
-    
-    if (i < chunkBoundaries.length - 1) {
-      console.log(`[CC] Waiting ${CHUNK_DELAY_MS}ms before next chunk...`);
-      await delay(CHUNK_DELAY_MS);
+  // Each chunk reads the deltas of the chunks before it, so chunks run in
+  // waves: parallel within a wave, with every earlier wave's deltas as context
+  const concurrency = getChunkConcurrency();
+  console.log(`[CC] Pass 2: Constrained chunk reconstruction (waves of ${concurrency})...`);
+  const processedChunks: { text: string; delta: ChunkDelta }[] = await runChunksInWaves(
+    chunkBoundaries,
+    async (boundary, i, priorChunks) => {
+      // Build prior deltas context from already-processed chunks (in-memory version)
+      const priorDeltasContext = buildInMemoryPriorContext(priorChunks.map(pc => pc.delta));
+      
+      const { outputText, delta } = await reconstructChunkConstrained(
+        boundary.text,
+        i,
+        chunkBoundaries.length,
+        skeleton,
+        contentAnalysis,
+        undefined, // Let lengthConfig determine target
+        undefined, // onCheckpoint
+        lengthConfig,
+        priorDeltasContext // Pass accumulated coherence context
+      );
+      return { text: outputText, delta };
+    },
+    {
+      concurrency,
+      onProgress: stats => console.log(`[CC] Chunks: ${stats.completed}/${stats.total} complete, ${stats.inFlight} in flight`)
     }
-  }
+  );
+  const totalOutputWords = processedChunks.reduce((sum, pc) => sum + countWords(pc.text), 0);
   
   console.log(`[CC] All chunks processed. Total output: ${totalOutputWords} words (target: ${lengthConfig.targetMin}-${lengthConfig.targetMax})`);
   
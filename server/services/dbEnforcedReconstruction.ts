@@ -1,4 +1,4 @@
-import Anthropic from "@anthropic-ai/sdk";
+import { completeChat } from "./llmProviders";
 import { db } from "../db";
 import { 
   reconstructionDocuments, 
@@ -9,14 +9,15 @@ import {
   type ChunkDelta,
   type StitchResult
 } from "@shared/schema";
-import { eq, and, lt, asc } from "drizzle-orm";
+import { eq, and, lt, asc, desc } from "drizzle-orm";
 import { safeDbInsert, safeDbUpdate, safeDbInsertRequired, safeDbUpdateRequired } from './dbHelper';
+import { getQueueEntry } from './jobQueue';
 
-const anthropic = new Anthropic();
 const PRIMARY_MODEL = "claude-sonnet-4-5-20250929";
 const CHUNK_SIZE_WORDS = 1000;
 const CHUNK_DELAY_MS = 15000;
 const WORD_THRESHOLD = 1000;
+const FOLLOW_POLL_MS = 3000;
 
 function countWords(text: string): number {
   return text.trim().split(/\s+/).filter(w => w.length > 0).length;
@@ -56,7 +57,8 @@ export async function createSession(
   text: string,
   customInstructions?: string,
   audienceParameters?: string,
-  rigorLevel?: string
+  rigorLevel?: string,
+  userId?: number
 ): Promise<number> {
   const wordCount = countWords(text);
   console.log(`[DB-CC] Creating session for ${wordCount} word document`);
@@ -64,6 +66,7 @@ export async function createSession(
   try {
     console.log(`[DB] Inserting reconstructionDocuments, wordCount: ${wordCount}`);
     const [session] = await db.insert(reconstructionDocuments).values({
+      userId,
       originalText: text,
       wordCount,
       status: 'pending',
@@ -114,14 +117,14 @@ Return as JSON only. No commentary outside the JSON:
   "targetConclusion": "..."
 }`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: PRIMARY_MODEL,
-    max_tokens: 4000,
+    maxTokens: 4000,
     temperature: 0.2,
     messages: [{ role: "user", content: skeletonPrompt }]
   });
   
-  const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
+  const responseText = message.text;
   
   let skeleton: GlobalSkeleton;
   try {
@@ -351,14 +354,14 @@ Return JSON only:
   }
 }`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: PRIMARY_MODEL,
-    max_tokens: 8000,
+    maxTokens: 8000,
     temperature: 0.5,
     messages: [{ role: "user", content: chunkPrompt }]
   });
   
-  const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
+  const responseText = message.text;
   
   let output = '';
   let delta: ChunkDelta = {
@@ -483,14 +486,14 @@ Return JSON only:
   "coherenceScore": "pass"
 }`;
 
-  const message = await anthropic.messages.create({
+  const message = await completeChat('anthropic', {
     model: PRIMARY_MODEL,
-    max_tokens: 4000,
+    maxTokens: 4000,
     temperature: 0.2,
     messages: [{ role: "user", content: stitchPrompt }]
   });
   
-  const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
+  const responseText = message.text;
   
   let stitchResult: StitchResult = {
     contradictions: [],
@@ -613,7 +616,7 @@ export async function resumeFromLastChunk(sessionId: number): Promise<number> {
       eq(reconstructionChunks.documentId, sessionId),
       eq(reconstructionChunks.status, 'completed')
     ))
-    .orderBy(asc(reconstructionChunks.chunkIndex))
+    .orderBy(desc(reconstructionChunks.chunkIndex))
     .limit(1);
   
   const resumeFrom = lastChunk ? lastChunk.chunkIndex + 1 : 0;
@@ -632,30 +635,67 @@ export async function runFullReconstruction(
   rigorLevel?: string,
   onProgress?: (progress: ProcessingProgress) => void
 ): Promise<DBEnforcedResult> {
-  const startTime = Date.now();
-  
   const wordCount = countWords(text);
   if (wordCount < WORD_THRESHOLD) {
     console.log(`[DB-CC] Document ${wordCount} words < ${WORD_THRESHOLD} threshold - use standard processing`);
     throw new Error(`Document too short for DB-enforced processing (${wordCount} < ${WORD_THRESHOLD})`);
   }
   
+  const sessionId = await createSession(text, customInstructions, audienceParameters, rigorLevel);
+  return runReconstructionSession(sessionId, onProgress);
+}
+
+// Runs a session to completion from whatever state the database holds: the
+// skeleton and chunk rows are reused if present, and chunk processing picks up
+// after the last completed chunk. Used for new sessions and by the job worker
+// to resume sessions interrupted by a restart.
+export async function runReconstructionSession(
+  sessionId: number,
+  onProgress?: (progress: ProcessingProgress) => void,
+  // Job worker runs: aborted when the worker loses the job's lease
+  signal?: AbortSignal
+): Promise<DBEnforcedResult> {
+  const startTime = Date.now();
+  
+  const [session] = await db.select().from(reconstructionDocuments).where(eq(reconstructionDocuments.id, sessionId));
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  
+  if (session.status === 'complete' && session.finalOutput) {
+    return {
+      success: true,
+      sessionId,
+      reconstructedText: session.finalOutput,
+      wordCount: countWords(session.finalOutput),
+      chunksProcessed: session.numChunks || 0
+    };
+  }
+  
   console.log(`[DB-CC] ========================================`);
   console.log(`[DB-CC] Starting DB-enforced reconstruction`);
-  console.log(`[DB-CC] Input: ${wordCount} words`);
+  console.log(`[DB-CC] Session: ${sessionId}, input: ${session.wordCount} words`);
   console.log(`[DB-CC] ========================================`);
   
-  const sessionId = await createSession(text, customInstructions, audienceParameters, rigorLevel);
-  
   try {
-    if (onProgress) {
-      onProgress({ sessionId, stage: 'skeleton', currentChunk: 0, totalChunks: 0, elapsedMs: Date.now() - startTime });
+    if (!session.globalSkeleton) {
+      if (onProgress) {
+        onProgress({ sessionId, stage: 'skeleton', currentChunk: 0, totalChunks: 0, elapsedMs: Date.now() - startTime });
+      }
+      await extractAndStoreSkeleton(sessionId);
+    }
+    
+    let totalChunks = session.numChunks || 0;
+    if (!totalChunks) {
+      // numChunks is written after the last chunk row, so rows without it are an interrupted chunking pass
+      await db.delete(reconstructionChunks).where(eq(reconstructionChunks.documentId, sessionId));
+      totalChunks = await chunkDocument(sessionId);
     }
     
-    await extractAndStoreSkeleton(sessionId);
-    const totalChunks = await chunkDocument(sessionId);
+    const firstChunk = await resumeFromLastChunk(sessionId);
     
-    for (let i = 0; i < totalChunks; i++) {
+    for (let i = firstChunk; i < totalChunks; i++) {
+      signal?.throwIfAborted();
       if (await checkAborted(sessionId)) {
         const partialOutput = await getPartialOutput(sessionId);
         return {
@@ -676,6 +716,7 @@ export async function runFullReconstruction(
       }
     }
     
+    signal?.throwIfAborted();
     if (onProgress) {
       onProgress({ sessionId, stage: 'stitching', currentChunk: totalChunks, totalChunks, elapsedMs: Date.now() - startTime });
     }
@@ -714,6 +755,10 @@ export async function runFullReconstruction(
         wasAborted: true
       };
     }
+    // The session now belongs to another worker; leave its status alone
+    if (signal?.aborted) {
+      throw error;
+    }
     
     await db.update(reconstructionDocuments)
       .set({
@@ -726,3 +771,105 @@ export async function runFullReconstruction(
     throw error;
   }
 }
+
+// For clients of a session that the job worker is running: reports progress
+// from the database (each completed chunk once, in order) until the session
+// completes or is aborted. Throws once the queue has given up on the job.
+// Returns null if isCancelled() turns true first.
+export async function followReconstructionSession(
+  sessionId: number,
+  onProgress: (progress: ProcessingProgress) => void,
+  isCancelled: () => boolean
+): Promise<DBEnforcedResult | null> {
+  let reportedChunks = 0;
+  let reportedStage: ProcessingProgress['stage'] | null = null;
+  
+  while (!isCancelled()) {
+    const [session] = await db.select().from(reconstructionDocuments).where(eq(reconstructionDocuments.id, sessionId));
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const totalChunks = session.numChunks || 0;
+    const elapsedMs = Date.now() - session.createdAt.getTime();
+    
+    if (!totalChunks) {
+      if (reportedStage !== 'skeleton') {
+        reportedStage = 'skeleton';
+        onProgress({ sessionId, stage: 'skeleton', currentChunk: 0, totalChunks: 0, elapsedMs });
+      }
+    } else {
+      const chunks = await db.select({ chunkIndex: reconstructionChunks.chunkIndex, output: reconstructionChunks.chunkOutputText })
+        .from(reconstructionChunks)
+        .where(and(
+          eq(reconstructionChunks.documentId, sessionId),
+          eq(reconstructionChunks.status, 'completed')
+        ))
+        .orderBy(asc(reconstructionChunks.chunkIndex));
+      
+      for (const chunk of chunks) {
+        if (chunk.chunkIndex !== reportedChunks) continue;
+        reportedChunks++;
+        reportedStage = 'chunking';
+        onProgress({
+          sessionId,
+          stage: 'chunking',
+          currentChunk: reportedChunks,
+          totalChunks,
+          chunkOutput: chunk.output || '',
+          elapsedMs,
+          estimatedRemainingMs: (totalChunks - reportedChunks) * (elapsedMs / reportedChunks)
+        });
+      }
+      
+      if (reportedChunks === totalChunks && reportedStage === 'chunking') {
+        reportedStage = 'stitching';
+        onProgress({ sessionId, stage: 'stitching', currentChunk: totalChunks, totalChunks, elapsedMs });
+      }
+    }
+    
+    if (session.status === 'complete') {
+      const finalOutput = session.finalOutput || '';
+      const [stitch] = await db.select().from(stitchResults)
+        .where(eq(stitchResults.documentId, sessionId))
+        .orderBy(desc(stitchResults.id))
+        .limit(1);
+      onProgress({ sessionId, stage: 'complete', currentChunk: totalChunks, totalChunks, elapsedMs });
+      return {
+        success: true,
+        sessionId,
+        reconstructedText: finalOutput,
+        wordCount: countWords(finalOutput),
+        stitchResult: stitch ? {
+          contradictions: (stitch.conflicts as StitchResult['contradictions']) || [],
+          terminologyDrift: (stitch.termDrift as StitchResult['terminologyDrift']) || [],
+          missingPremises: (stitch.missingPremises as StitchResult['missingPremises']) || [],
+          redundancies: (stitch.redundancies as StitchResult['redundancies']) || [],
+          repairPlan: (stitch.repairPlan as StitchResult['repairPlan']) || []
+        } : undefined,
+        chunksProcessed: totalChunks
+      };
+    }
+    
+    if (session.status === 'aborted') {
+      const partialOutput = await getPartialOutput(sessionId);
+      return {
+        success: false,
+        sessionId,
+        reconstructedText: partialOutput,
+        wordCount: countWords(partialOutput),
+        chunksProcessed: reportedChunks,
+        wasAborted: true
+      };
+    }
+    
+    // A failed attempt is retried by the queue; only a dead-lettered job is final
+    const entry = await getQueueEntry('reconstruction', sessionId);
+    if (entry?.status === 'dead') {
+      throw new Error(entry.lastError || session.errorMessage || 'Reconstruction failed');
+    }
+    
+    await delay(FOLLOW_POLL_MS);
+  }
+  
+  return null;
+}
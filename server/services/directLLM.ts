@@ -3,6 +3,8 @@
  * Implements user's 6-month developed evaluation protocol exactly as specified
  */
 
+import { completeChat } from './llmProviders';
+
 interface DirectAnalysisResult {
   formattedReport: string;
   provider: string;
@@ -133,71 +135,27 @@ Your response must prove you read this specific text through extensive quotation
 Give a final score out of 100.`;
 }
 
+// Per-provider models used by the 3-phase protocol
+const PROTOCOL_MODELS: Record<string, string> = {
+  openai: "gpt-4o",
+  anthropic: "claude-3-7-sonnet-20250219",
+  perplexity: "sonar",
+  deepseek: "deepseek-chat"
+};
+
 // Generic LLM caller
 async function callLLM(
   provider: 'openai' | 'anthropic' | 'perplexity' | 'deepseek',
-  messages: Array<{role: string, content: string}>
+  messages: Array<{role: 'user' | 'assistant', content: string}>
 ): Promise<string> {
   try {
-    if (provider === 'openai') {
-      const OpenAI = (await import('openai')).default;
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: messages as any,
-        temperature: 0.1
-      });
-      
-      return completion.choices[0]?.message?.content || '';
-    } else if (provider === 'anthropic') {
-      const Anthropic = (await import('@anthropic-ai/sdk')).default;
-      const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-      
-      const completion = await anthropic.messages.create({
-        model: "claude-3-7-sonnet-20250219",
-        max_tokens: 4000,
-        messages: messages as any,
-        temperature: 0.1
-      });
-      
-      return completion.content[0]?.type === 'text' ? completion.content[0].text : '';
-    } else if (provider === 'perplexity') {
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "sonar",
-          messages: messages,
-          temperature: 0.1
-        })
-      });
-      
-      const data = await response.json();
-      return data.choices[0]?.message?.content || '';
-    } else if (provider === 'deepseek') {
-      const response = await fetch('https://api.deepseek.com/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: messages,
-          temperature: 0.1,
-          max_tokens: 4000
-        })
-      });
-      
-      const data = await response.json();
-      return data.choices[0]?.message?.content || '';
-    }
-    
-    throw new Error(`Unsupported provider: ${provider}`);
+    const response = await completeChat(provider, {
+      model: PROTOCOL_MODELS[provider],
+      messages,
+      temperature: 0.1,
+      maxTokens: 4000
+    });
+    return response.text;
   } catch (error) {
     console.error(`Error calling ${provider}:`, error);
     throw error;
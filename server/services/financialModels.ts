@@ -0,0 +1,808 @@
+import {
+  parseLBOGuaranteed,
+  parseMAGuaranteed,
+  parseDCFGuaranteed,
+  parseIPOGuaranteed,
+  mergeLBOValues,
+  mergeMAValues,
+  LBO_DEFAULTS,
+  MA_DEFAULTS,
+  DCF_DEFAULTS,
+  IPO_DEFAULTS,
+  type LBOGuaranteedValues,
+  type MAGuaranteedValues,
+  type DCFGuaranteedValues,
+  type IPOGuaranteedValues,
+} from './guaranteedParser';
+import { parseLBOInput, parseMAInput } from './financialTextParser';
+import { detectCurrency } from './unifiedNumericParser';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FINANCIAL MODELS
+// Turns a natural-language deal description into a complete set of model
+// inputs (guaranteedParser, supplemented by financialTextParser for LBO and
+// M&A) and computes the model from them. Every result says which inputs were
+// not found in the text and fell back to *_DEFAULTS, so callers can tell an
+// extracted assumption from an assumed one. Deterministic: no LLM calls.
+// All money values are in $M, rates are decimals.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const FINANCIAL_MODEL_TYPES = ['lbo', 'ma', 'dcf', 'ipo'] as const;
+export type FinancialModelType = typeof FINANCIAL_MODEL_TYPES[number];
+
+export interface FinancialModelResult<V, O> {
+  model: FinancialModelType;
+  values: V;
+  // Input fields whose value is still the *_DEFAULTS value
+  defaultedFields: (keyof V)[];
+  outputs: O;
+  warnings: string[];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+  }
+  return a === b;
+}
+
+// A value equal to its default may still have been stated in the text; fields
+// the supplementary parser found are not reported as defaulted
+function findDefaultedFields<V extends object>(values: V, defaults: V, found: Partial<V> = {}): (keyof V)[] {
+  return (Object.keys(defaults) as (keyof V)[])
+    .filter(key => sameValue(values[key], defaults[key]) && found[key] === undefined);
+}
+
+function isDefault<V extends object>(values: V, defaults: V, key: keyof V): boolean {
+  return sameValue(values[key], defaults[key]);
+}
+
+// Per-year assumption arrays are shorter than long projections; the last value holds
+function valueForYear(values: number[], year: number): number {
+  return values[Math.min(year - 1, values.length - 1)] ?? 0;
+}
+
+const round = (value: number, digits: number = 2) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// EBITDA above revenue means one of the two was misread (a margin taken as an
+// amount, a billion taken as a million) or only one of them was stated
+function ebitdaAboveRevenueWarning(ebitda: number, revenue: number, assumed: string[]): string[] {
+  if (!(revenue > 0) || ebitda <= revenue) return [];
+  const note = assumed.length > 0 ? ` (${assumed.join(' and ')} not found in the text and assumed)` : '';
+  return [`EBITDA of $${round(ebitda)}M exceeds revenue of $${round(revenue)}M${note}; check both inputs`];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LBO
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface LBOYear {
+  year: number;
+  revenue: number;
+  ebitda: number;
+  ebitdaMargin: number;
+  interest: number;
+  taxes: number;
+  netIncome: number;
+  freeCashFlow: number;
+  debtRepaid: number;
+  seniorDebt: number;
+  subDebt: number;
+  revolver: number;
+  cash: number;
+}
+
+export interface LBOOutputs {
+  sourcesAndUses: {
+    purchasePrice: number;
+    transactionCosts: number;
+    financingFees: number;
+    totalUses: number;
+    seniorDebt: number;
+    subDebt: number;
+    managementRollover: number;
+    sponsorEquity: number;
+    totalSources: number;
+  };
+  projection: LBOYear[];
+  exit: {
+    year: number;
+    ebitda: number;
+    enterpriseValue: number;
+    exitCosts: number;
+    netDebt: number;
+    equityValue: number;
+    sponsorProceeds: number;
+  };
+  // Null when sponsor equity is not positive
+  returns: {
+    moic: number | null;
+    irr: number | null;
+  };
+}
+
+const LBO_FIELD_MAP: Record<string, keyof LBOGuaranteedValues> = {
+  companyName: 'companyName',
+  ltmRevenue: 'baseYearRevenue',
+  ltmEBITDA: 'ltmEBITDA',
+  revenueGrowth: 'revenueGrowthRate',
+  ebitdaMargin: 'baseEBITDAMargin',
+  purchasePrice: 'purchasePrice',
+  entryMultiple: 'entryMultiple',
+  seniorDebtMultiple: 'seniorDebtMultiple',
+  seniorDebtAmount: 'seniorDebtAmount',
+  seniorDebtRate: 'seniorDebtRate',
+  subDebtMultiple: 'subDebtMultiple',
+  subDebtAmount: 'subDebtAmount',
+  subDebtRate: 'subDebtRate',
+  transactionFees: 'transactionCostsExplicit',
+  financingFees: 'financingFeesExplicit',
+  holdPeriod: 'exitYear',
+  exitMultiple: 'exitMultiple',
+  capexPercent: 'capexPercent',
+  nwcPercent: 'nwcPercent',
+  taxRate: 'taxRate',
+  daPercent: 'daPercent',
+};
+
+// Supplementary values only replace defaulted ones, but the supplementary
+// parser misreads some phrasings (a "10x EBITDA" purchase as a $10M price), so
+// values that cannot be right for the deal are dropped before the merge
+function plausibleLBOSupplement(
+  supplementary: Partial<LBOGuaranteedValues>,
+  guaranteed: LBOGuaranteedValues
+): Partial<LBOGuaranteedValues> {
+  const result = { ...supplementary };
+  const ebitda = result.ltmEBITDA ?? guaranteed.ltmEBITDA;
+  const reject = (key: keyof LBOGuaranteedValues, reason: string) => {
+    console.warn(`[FIN-MODEL] Ignoring supplementary LBO ${key} ${result[key]}: ${reason}`);
+    delete result[key];
+  };
+
+  for (const key of ['seniorDebtRate', 'subDebtRate', 'revenueGrowthRate', 'baseEBITDAMargin', 'capexPercent', 'nwcPercent', 'taxRate', 'daPercent'] as const) {
+    const value = result[key];
+    if (value !== undefined && !(value >= 0 && value < 1)) reject(key, 'not a rate between 0% and 100%');
+  }
+  for (const key of ['entryMultiple', 'exitMultiple', 'seniorDebtMultiple', 'subDebtMultiple'] as const) {
+    const value = result[key];
+    if (value !== undefined && !(value >= 0 && value <= 50)) reject(key, 'not a plausible EBITDA multiple');
+  }
+  for (const key of ['ltmEBITDA', 'baseYearRevenue', 'purchasePrice', 'seniorDebtAmount', 'subDebtAmount'] as const) {
+    const value = result[key];
+    if (value !== undefined && !(value > 0)) reject(key, 'not a positive amount');
+  }
+  // No buyout is priced below 1x EBITDA; a price that small is a multiple read as an amount
+  if (result.purchasePrice !== undefined && ebitda > 0 && result.purchasePrice < ebitda) {
+    reject('purchasePrice', `below LTM EBITDA of ${ebitda}`);
+  }
+  return result;
+}
+
+// Re-derives the values that depend on others, since the supplementary
+// parser may have filled in an input the guaranteed parser defaulted. A field
+// counts as stated when it differs from its default or the supplementary
+// parser found it (a stated value can equal the default).
+function reconcileLBO(values: LBOGuaranteedValues, found: Partial<LBOGuaranteedValues> = {}): LBOGuaranteedValues {
+  const result = { ...values };
+  const defaulted = (key: keyof LBOGuaranteedValues) => isDefault(result, LBO_DEFAULTS, key) && found[key] === undefined;
+
+  // A stated entry multiple fixes the price, whatever amount was read alongside it
+  if (!defaulted('entryMultiple') && !defaulted('ltmEBITDA')) {
+    result.purchasePrice = result.ltmEBITDA * result.entryMultiple;
+  } else if (defaulted('purchasePrice') && !defaulted('ltmEBITDA')) {
+    result.purchasePrice = result.ltmEBITDA * result.entryMultiple;
+  } else if (defaulted('entryMultiple') && !defaulted('purchasePrice') && result.ltmEBITDA > 0) {
+    result.entryMultiple = result.purchasePrice / result.ltmEBITDA;
+  }
+  if (defaulted('seniorDebtAmount') && (!defaulted('seniorDebtMultiple') || !defaulted('ltmEBITDA'))) {
+    result.seniorDebtAmount = result.ltmEBITDA * result.seniorDebtMultiple;
+  }
+  if (defaulted('subDebtAmount') && (!defaulted('subDebtMultiple') || !defaulted('ltmEBITDA'))) {
+    result.subDebtAmount = result.ltmEBITDA * result.subDebtMultiple;
+  }
+  // Margin stated without revenue: back revenue out of EBITDA
+  if (defaulted('baseYearRevenue') && (!defaulted('ltmEBITDA') || !defaulted('baseEBITDAMargin')) && result.baseEBITDAMargin > 0) {
+    result.baseYearRevenue = result.ltmEBITDA / result.baseEBITDAMargin;
+  }
+
+  result.sponsorEquity = lboSponsorEquity(result);
+  return result;
+}
+
+// Sponsor equity is the plug: total uses less debt and rolled-over equity
+export function lboSponsorEquity(v: LBOGuaranteedValues): number {
+  const totalDebt = v.seniorDebtAmount + v.subDebtAmount;
+  const txCosts = v.transactionCostsExplicit ?? (v.purchasePrice * v.transactionCosts);
+  const finCosts = v.financingFeesExplicit ?? (totalDebt * v.financingFees);
+  return v.purchasePrice + txCosts + finCosts - totalDebt - v.managementRollover;
+}
+
+export function computeLBO(v: LBOGuaranteedValues): { outputs: LBOOutputs; warnings: string[] } {
+  const warnings: string[] = [];
+  const years = Math.max(1, Math.round(v.exitYear));
+  const transactionCosts = v.transactionCostsExplicit ?? v.purchasePrice * v.transactionCosts;
+  const financingFees = v.financingFeesExplicit ?? (v.seniorDebtAmount + v.subDebtAmount) * v.financingFees;
+  const totalUses = v.purchasePrice + transactionCosts + financingFees;
+
+  if (v.sponsorEquity <= 0) {
+    warnings.push('Debt covers the whole purchase price: sponsor equity is not positive, so returns are undefined');
+  }
+
+  // EBITDA margin ramps from the LTM margin by the stated expansion
+  const baseMargin = v.baseYearRevenue > 0 ? v.ltmEBITDA / v.baseYearRevenue : v.baseEBITDAMargin;
+  const marginExpansion = v.targetEBITDAMargin - v.baseEBITDAMargin;
+  const rampYears = Math.max(1, v.marginExpansionYears);
+
+  let revenue = v.baseYearRevenue;
+  let senior = v.seniorDebtAmount;
+  let sub = v.subDebtAmount;
+  let revolver = 0;
+  let cash = 0;
+  const projection: LBOYear[] = [];
+
+  for (let year = 1; year <= years; year++) {
+    const priorRevenue = revenue;
+    revenue = priorRevenue * (1 + v.revenueGrowthRate);
+    const margin = baseMargin + marginExpansion * Math.min(year / rampYears, 1);
+    const ebitda = revenue * margin;
+    const da = revenue * v.daPercent;
+    const capex = revenue * v.capexPercent;
+    const nwcChange = (revenue - priorRevenue) * v.nwcPercent;
+    const managementFee = v.sponsorEquity > 0 ? v.sponsorEquity * v.managementFeePercent : 0;
+
+    // Interest on opening balances; sub debt PIK accrues to principal
+    const cashInterest = senior * v.seniorDebtRate + sub * v.subDebtRate + revolver * v.revolverRate;
+    const pikInterest = sub * v.subDebtPIK;
+    const taxable = ebitda - da - cashInterest - pikInterest - managementFee;
+    const taxes = Math.max(0, taxable * v.taxRate);
+    const netIncome = taxable - taxes;
+    const freeCashFlow = ebitda - cashInterest - taxes - capex - nwcChange - managementFee;
+    sub += pikInterest;
+
+    let debtRepaid = 0;
+    if (freeCashFlow < 0) {
+      // Shortfalls come out of cash first, then the revolver
+      const fromCash = Math.min(cash, -freeCashFlow);
+      cash -= fromCash;
+      const draw = -freeCashFlow - fromCash;
+      revolver += draw;
+      if (revolver > v.revolverSize) {
+        warnings.push(`Year ${year}: cash shortfall exceeds the $${round(v.revolverSize, 1)}M revolver`);
+      }
+    } else {
+      let available = freeCashFlow;
+      const revolverRepaid = Math.min(revolver, available);
+      revolver -= revolverRepaid;
+      available -= revolverRepaid;
+      const sweep = Math.min(senior, available * v.cashFlowSweepPercent);
+      senior -= sweep;
+      available -= sweep;
+      cash += available;
+      debtRepaid = revolverRepaid + sweep;
+    }
+
+    projection.push({
+      year,
+      revenue: round(revenue),
+      ebitda: round(ebitda),
+      ebitdaMargin: round(margin, 4),
+      interest: round(cashInterest + pikInterest),
+      taxes: round(taxes),
+      netIncome: round(netIncome),
+      freeCashFlow: round(freeCashFlow),
+      debtRepaid: round(debtRepaid),
+      seniorDebt: round(senior),
+      subDebt: round(sub),
+      revolver: round(revolver),
+      cash: round(cash)
+    });
+  }
+
+  const exitEBITDA = projection[projection.length - 1].ebitda;
+  const enterpriseValue = exitEBITDA * v.exitMultiple;
+  const exitCosts = enterpriseValue * v.exitCosts;
+  const netDebt = senior + sub + revolver - cash;
+  const equityValue = Math.max(0, enterpriseValue - exitCosts - netDebt);
+  // Rolled-over management equity shares in the exit pro rata
+  const totalEquity = v.sponsorEquity + v.managementRollover;
+  const sponsorProceeds = totalEquity > 0 ? equityValue * Math.max(v.sponsorEquity, 0) / totalEquity : 0;
+  // Single entry and exit cash flow, so IRR is the annualized MOIC
+  const moic = v.sponsorEquity > 0 ? sponsorProceeds / v.sponsorEquity : null;
+  const irr = moic === null ? null : Math.pow(moic, 1 / years) - 1;
+
+  return {
+    outputs: {
+      sourcesAndUses: {
+        purchasePrice: round(v.purchasePrice),
+        transactionCosts: round(transactionCosts),
+        financingFees: round(financingFees),
+        totalUses: round(totalUses),
+        seniorDebt: round(v.seniorDebtAmount),
+        subDebt: round(v.subDebtAmount),
+        managementRollover: round(v.managementRollover),
+        sponsorEquity: round(v.sponsorEquity),
+        totalSources: round(v.seniorDebtAmount + v.subDebtAmount + v.managementRollover + v.sponsorEquity)
+      },
+      projection,
+      exit: {
+        year: years,
+        ebitda: round(exitEBITDA),
+        enterpriseValue: round(enterpriseValue),
+        exitCosts: round(exitCosts),
+        netDebt: round(netDebt),
+        equityValue: round(equityValue),
+        sponsorProceeds: round(sponsorProceeds)
+      },
+      returns: {
+        moic: moic === null ? null : round(moic, 2),
+        irr: irr === null ? null : round(irr, 4)
+      }
+    },
+    warnings
+  };
+}
+
+export function buildLBOModel(text: string): FinancialModelResult<LBOGuaranteedValues, LBOOutputs> {
+  const guaranteed = parseLBOGuaranteed(text);
+  const supplementary: Partial<LBOGuaranteedValues> = {};
+  for (const [key, value] of Object.entries(parseLBOInput(text))) {
+    const target = LBO_FIELD_MAP[key];
+    if (target && value !== undefined) (supplementary as any)[target] = value;
+  }
+  const found = plausibleLBOSupplement(supplementary, guaranteed);
+  const values = reconcileLBO(mergeLBOValues(guaranteed, found), found);
+  const defaultedFields = findDefaultedFields(values, LBO_DEFAULTS, found);
+  const { outputs, warnings } = computeLBO(values);
+
+  // Default debt is sized for the default $500M deal; against a stated price
+  // of about that size it leaves almost no equity and the returns explode
+  const totalDebt = values.seniorDebtAmount + values.subDebtAmount;
+  const debtAssumed = defaultedFields.includes('seniorDebtAmount') && defaultedFields.includes('subDebtAmount');
+  if (debtAssumed && values.purchasePrice > 0 && totalDebt >= values.purchasePrice * 0.9) {
+    warnings.push(`No debt was found in the text; the assumed $${round(totalDebt)}M of debt is ${Math.round(totalDebt / values.purchasePrice * 100)}% of the $${round(values.purchasePrice)}M price, so the returns are not meaningful`);
+  }
+  warnings.push(...ebitdaAboveRevenueWarning(values.ltmEBITDA, values.baseYearRevenue,
+    (['ltmEBITDA', 'baseYearRevenue'] as const).filter(key => defaultedFields.includes(key))));
+
+  const { moic, irr } = outputs.returns;
+  console.log(`[FIN-MODEL] LBO ${values.companyName}: ${moic === null || irr === null ? 'no sponsor equity' : `${moic}x MOIC, ${(irr * 100).toFixed(1)}% IRR`}`);
+  return { model: 'lbo', values, defaultedFields, outputs, warnings };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// M&A (ACCRETION / DILUTION)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface MAYear {
+  year: number;
+  acquirerNetIncome: number;
+  targetNetIncome: number;
+  synergies: number;
+  integrationCosts: number;
+  afterTaxInterest: number;
+  proFormaNetIncome: number;
+  standaloneEPS: number;
+  proFormaEPS: number;
+  accretionDilution: number;
+  accretive: boolean;
+}
+
+export interface MAOutputs {
+  consideration: {
+    purchasePrice: number;
+    cash: number;
+    stock: number;
+    newSharesIssued: number;
+    debtFinancing: number;
+    transactionFees: number;
+  };
+  proFormaShares: number;
+  years: MAYear[];
+  // Year-1 pre-tax synergies at which the deal neither adds to nor dilutes EPS
+  breakevenSynergies: number;
+}
+
+const MA_FIELD_MAP: Record<string, keyof MAGuaranteedValues> = {
+  acquirerName: 'acquirerName',
+  targetName: 'targetName',
+  acquirerRevenue: 'acquirerRevenue',
+  acquirerEBITDA: 'acquirerEBITDA',
+  acquirerSharesOutstanding: 'acquirerShares',
+  acquirerStockPrice: 'acquirerStockPrice',
+  acquirerExplicitEPS: 'acquirerEPS',
+  targetRevenue: 'targetRevenue',
+  targetEBITDA: 'targetEBITDA',
+  purchasePrice: 'purchasePrice',
+  entryMultiple: 'entryMultiple',
+  cashPercent: 'cashPercent',
+  stockPercent: 'stockPercent',
+  newDebtAmount: 'debtFinancing',
+  newDebtRate: 'debtRate',
+  costSynergies: 'costSynergies',
+  revenueSynergies: 'revenueSynergies',
+  integrationCost: 'synergyCostToAchieve',
+  forecastYears: 'projectionYears',
+  transactionFees: 'transactionFees',
+};
+
+function reconcileMA(values: MAGuaranteedValues): MAGuaranteedValues {
+  const result = { ...values };
+  const defaulted = (key: keyof MAGuaranteedValues) => isDefault(result, MA_DEFAULTS, key);
+
+  // An explicit EPS implies net income; otherwise EPS follows net income
+  if (defaulted('acquirerNetIncome') && !defaulted('acquirerEPS')) {
+    result.acquirerNetIncome = result.acquirerEPS * result.acquirerShares;
+  } else if (defaulted('acquirerEPS') && result.acquirerShares > 0) {
+    result.acquirerEPS = result.acquirerNetIncome / result.acquirerShares;
+  }
+  if (defaulted('targetNetIncome') && !defaulted('targetEPS')) {
+    result.targetNetIncome = result.targetEPS * result.targetShares;
+  }
+  return result;
+}
+
+export function computeMA(v: MAGuaranteedValues): { outputs: MAOutputs; warnings: string[] } {
+  const warnings: string[] = [];
+  const years = Math.max(1, Math.round(v.projectionYears));
+  const stockConsideration = v.purchasePrice * v.stockPercent;
+  const cashConsideration = v.purchasePrice * v.cashPercent;
+  if (Math.abs(v.cashPercent + v.stockPercent - 1) > 0.001) {
+    warnings.push(`Cash and stock mix adds up to ${round((v.cashPercent + v.stockPercent) * 100, 1)}%, not 100%`);
+  }
+  if (v.acquirerStockPrice <= 0 && stockConsideration > 0) {
+    warnings.push('Acquirer stock price is not positive; no shares can be issued for the stock consideration');
+  }
+  const newShares = v.acquirerStockPrice > 0 ? stockConsideration / v.acquirerStockPrice : 0;
+  const proFormaShares = v.acquirerShares + newShares;
+  const afterTaxInterest = v.debtFinancing * v.debtRate * (1 - v.taxRate);
+  // The MA_DEFAULTS fee is a fraction of the purchase price, parsed fees are $M
+  const transactionFees = isDefault(v, MA_DEFAULTS, 'transactionFees') ? v.purchasePrice * v.transactionFees : v.transactionFees;
+
+  const rows: MAYear[] = [];
+  for (let year = 1; year <= years; year++) {
+    const growth = Math.pow(1 + v.revenueGrowthRate, year);
+    const acquirerNetIncome = v.acquirerNetIncome * growth;
+    const targetNetIncome = v.targetNetIncome * growth;
+    const synergies = v.costSynergies * valueForYear(v.costPhaseIn, year)
+      + v.revenueSynergies * valueForYear(v.revenuePhaseIn, year) * v.revenueSynergyMargin;
+    // Integration costs are incurred in the first year
+    const integrationCosts = year === 1 ? v.synergyCostToAchieve : 0;
+    const proFormaNetIncome = acquirerNetIncome + targetNetIncome
+      + (synergies - integrationCosts) * (1 - v.taxRate) - afterTaxInterest;
+    const standaloneEPS = v.acquirerShares > 0 ? acquirerNetIncome / v.acquirerShares : 0;
+    const proFormaEPS = proFormaShares > 0 ? proFormaNetIncome / proFormaShares : 0;
+    const accretionDilution = standaloneEPS !== 0 ? proFormaEPS / standaloneEPS - 1 : 0;
+
+    rows.push({
+      year,
+      acquirerNetIncome: round(acquirerNetIncome),
+      targetNetIncome: round(targetNetIncome),
+      synergies: round(synergies),
+      integrationCosts: round(integrationCosts),
+      afterTaxInterest: round(afterTaxInterest),
+      proFormaNetIncome: round(proFormaNetIncome),
+      standaloneEPS: round(standaloneEPS, 3),
+      proFormaEPS: round(proFormaEPS, 3),
+      accretionDilution: round(accretionDilution, 4),
+      accretive: accretionDilution >= 0
+    });
+  }
+
+  const first = rows[0];
+  const requiredNetIncome = first.standaloneEPS * proFormaShares;
+  const withoutSynergies = v.acquirerNetIncome * (1 + v.revenueGrowthRate) + v.targetNetIncome * (1 + v.revenueGrowthRate)
+    - v.synergyCostToAchieve * (1 - v.taxRate) - afterTaxInterest;
+  const breakevenSynergies = v.taxRate < 1 ? Math.max(0, (requiredNetIncome - withoutSynergies) / (1 - v.taxRate)) : 0;
+
+  return {
+    outputs: {
+      consideration: {
+        purchasePrice: round(v.purchasePrice),
+        cash: round(cashConsideration),
+        stock: round(stockConsideration),
+        newSharesIssued: round(newShares, 3),
+        debtFinancing: round(v.debtFinancing),
+        transactionFees: round(transactionFees)
+      },
+      proFormaShares: round(proFormaShares, 3),
+      years: rows,
+      breakevenSynergies: round(breakevenSynergies)
+    },
+    warnings
+  };
+}
+
+export function buildMAModel(text: string): FinancialModelResult<MAGuaranteedValues, MAOutputs> {
+  const guaranteed = parseMAGuaranteed(text);
+  const supplementary: Partial<MAGuaranteedValues> = {};
+  for (const [key, value] of Object.entries(parseMAInput(text))) {
+    const target = MA_FIELD_MAP[key];
+    if (target && value !== undefined) (supplementary as any)[target] = value;
+  }
+  const values = reconcileMA(mergeMAValues(guaranteed, supplementary));
+  const { outputs, warnings } = computeMA(values);
+  const year1 = outputs.years[0];
+  console.log(`[FIN-MODEL] M&A ${values.acquirerName} / ${values.targetName}: year 1 ${(year1.accretionDilution * 100).toFixed(1)}% ${year1.accretive ? 'accretive' : 'dilutive'}`);
+  return { model: 'ma', values, defaultedFields: findDefaultedFields(values, MA_DEFAULTS, supplementary), outputs, warnings };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DCF
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DCFYear {
+  year: number;
+  revenue: number;
+  ebitda: number;
+  ebit: number;
+  taxes: number;
+  capex: number;
+  nwcChange: number;
+  unleveredFreeCashFlow: number;
+  discountFactor: number;
+  presentValue: number;
+}
+
+export interface DCFOutputs {
+  projection: DCFYear[];
+  sumOfPresentValues: number;
+  // Gordon growth terminal value; null when WACC does not exceed terminal growth
+  perpetuityGrowth: {
+    terminalValue: number;
+    presentValueOfTerminal: number;
+    enterpriseValue: number;
+    impliedExitMultiple: number;
+  } | null;
+  exitMultiple: {
+    terminalValue: number;
+    presentValueOfTerminal: number;
+    enterpriseValue: number;
+    impliedPerpetuityGrowth: number;
+  };
+  enterpriseValue: number;
+}
+
+export function computeDCF(v: DCFGuaranteedValues): { outputs: DCFOutputs; warnings: string[] } {
+  const warnings: string[] = [];
+  const years = Math.max(1, Math.round(v.projectionYears));
+  const baseMargin = v.baseRevenue > 0 ? v.baseEBITDA / v.baseRevenue : valueForYear(v.ebitdaMargins, 1);
+  // Constant mode holds today's margin; otherwise the per-year margins apply
+  const marginFor = (year: number) => v.constantAssumptions ? baseMargin : valueForYear(v.ebitdaMargins, year);
+
+  let revenue = v.baseRevenue;
+  const projection: DCFYear[] = [];
+  for (let year = 1; year <= years; year++) {
+    const priorRevenue = revenue;
+    revenue = priorRevenue * (1 + valueForYear(v.revenueGrowthRates, year));
+    const ebitda = revenue * marginFor(year);
+    const ebit = ebitda - revenue * v.daPercent;
+    const taxes = Math.max(0, ebit * v.taxRate);
+    const capex = revenue * v.capexPercent;
+    const nwcChange = (revenue - priorRevenue) * v.nwcPercent;
+    const unleveredFreeCashFlow = ebit - taxes + revenue * v.daPercent - capex - nwcChange;
+    const discountFactor = 1 / Math.pow(1 + v.wacc, year);
+
+    projection.push({
+      year,
+      revenue: round(revenue),
+      ebitda: round(ebitda),
+      ebit: round(ebit),
+      taxes: round(taxes),
+      capex: round(capex),
+      nwcChange: round(nwcChange),
+      unleveredFreeCashFlow: round(unleveredFreeCashFlow),
+      discountFactor: round(discountFactor, 4),
+      presentValue: round(unleveredFreeCashFlow * discountFactor)
+    });
+  }
+
+  const last = projection[projection.length - 1];
+  const finalDiscount = 1 / Math.pow(1 + v.wacc, years);
+  const sumOfPresentValues = projection.reduce((sum, row) => sum + row.unleveredFreeCashFlow / Math.pow(1 + v.wacc, row.year), 0);
+
+  let perpetuityGrowth: DCFOutputs['perpetuityGrowth'] = null;
+  if (v.wacc > v.terminalGrowthRate) {
+    const terminalValue = last.unleveredFreeCashFlow * (1 + v.terminalGrowthRate) / (v.wacc - v.terminalGrowthRate);
+    perpetuityGrowth = {
+      terminalValue: round(terminalValue),
+      presentValueOfTerminal: round(terminalValue * finalDiscount),
+      enterpriseValue: round(sumOfPresentValues + terminalValue * finalDiscount),
+      impliedExitMultiple: last.ebitda > 0 ? round(terminalValue / last.ebitda, 2) : 0
+    };
+  } else {
+    warnings.push('WACC does not exceed the terminal growth rate; the perpetuity growth method is undefined, so enterprise value uses the exit multiple');
+  }
+
+  const exitTerminal = last.ebitda * v.terminalMultiple;
+  // Growth rate at which the perpetuity method gives the same terminal value
+  const impliedGrowth = exitTerminal + last.unleveredFreeCashFlow !== 0
+    ? (exitTerminal * v.wacc - last.unleveredFreeCashFlow) / (exitTerminal + last.unleveredFreeCashFlow)
+    : 0;
+  const exitMultiple = {
+    terminalValue: round(exitTerminal),
+    presentValueOfTerminal: round(exitTerminal * finalDiscount),
+    enterpriseValue: round(sumOfPresentValues + exitTerminal * finalDiscount),
+    impliedPerpetuityGrowth: round(impliedGrowth, 4)
+  };
+
+  return {
+    outputs: {
+      projection,
+      sumOfPresentValues: round(sumOfPresentValues),
+      perpetuityGrowth,
+      exitMultiple,
+      enterpriseValue: perpetuityGrowth?.enterpriseValue ?? exitMultiple.enterpriseValue
+    },
+    warnings
+  };
+}
+
+// Base EBITDA and revenue fix today's margin; whichever one was defaulted is
+// derived from the other and the stated margins, as reconcileLBO does, so a
+// defaulted EBITDA never sets the margin
+function reconcileDCF(values: DCFGuaranteedValues): DCFGuaranteedValues {
+  const result = { ...values };
+  const defaulted = (key: keyof DCFGuaranteedValues) => isDefault(result, DCF_DEFAULTS, key);
+  const margin = valueForYear(result.ebitdaMargins, 1);
+
+  if (defaulted('baseEBITDA') && !defaulted('baseRevenue')) {
+    result.baseEBITDA = result.baseRevenue * margin;
+  } else if (defaulted('baseRevenue') && !defaulted('baseEBITDA') && margin > 0) {
+    result.baseRevenue = result.baseEBITDA / margin;
+  } else if (defaulted('baseEBITDA') && defaulted('baseRevenue') && !defaulted('ebitdaMargins')) {
+    result.baseEBITDA = result.baseRevenue * margin;
+  }
+  return result;
+}
+
+export function buildDCFModel(text: string): FinancialModelResult<DCFGuaranteedValues, DCFOutputs> {
+  const values = reconcileDCF(parseDCFGuaranteed(text));
+  const defaultedFields = findDefaultedFields(values, DCF_DEFAULTS);
+  const { outputs, warnings } = computeDCF(values);
+  warnings.push(...ebitdaAboveRevenueWarning(values.baseEBITDA, values.baseRevenue,
+    (['baseEBITDA', 'baseRevenue'] as const).filter(key => defaultedFields.includes(key))));
+  console.log(`[FIN-MODEL] DCF ${values.companyName}: enterprise value $${outputs.enterpriseValue}M`);
+  return { model: 'dcf', values, defaultedFields, outputs, warnings };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IPO
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface IPOOutputs {
+  // Fair value per share before the IPO discount
+  impliedValuePerShare: number;
+  offerPrice: number;
+  preMoneyAtOffer: number;
+  baseOfferingShares: number;
+  totalSharesSold: number;
+  grossProceeds: {
+    primary: number;
+    secondary: number;
+    greenshoe: number;
+    total: number;
+  };
+  underwritingFees: number;
+  // Primary and greenshoe proceeds go to the company, secondary to selling holders
+  netProceedsToCompany: number;
+  netProceedsToSellingShareholders: number;
+  postIPOShares: number;
+  postMoneyValuation: number;
+  dilution: number;
+  firstDayPrice: number;
+  firstDayMarketCap: number;
+  moneyLeftOnTable: number;
+  offerMultiples: {
+    evToRevenue: number;
+    evToEBITDA: number;
+    priceToEarnings: number;
+  };
+}
+
+export function computeIPO(v: IPOGuaranteedValues): { outputs: IPOOutputs; warnings: string[] } {
+  const warnings: string[] = [];
+  if (v.preIPOShares <= 0) {
+    warnings.push('Pre-IPO share count is not positive; per-share values are zero');
+  }
+  const impliedValuePerShare = v.preIPOShares > 0 ? v.preMoneyValuation / v.preIPOShares : 0;
+  const offerPrice = impliedValuePerShare * (1 - v.ipoDiscount);
+  const preMoneyAtOffer = offerPrice * v.preIPOShares;
+
+  const primary = offerPrice * v.newPrimaryShares;
+  const secondary = offerPrice * v.secondaryShares;
+  // The greenshoe is assumed fully exercised with newly issued shares
+  const greenshoe = offerPrice * v.greenshoeShares;
+  const total = primary + secondary + greenshoe;
+  const underwritingFees = total * v.underwritingFee;
+
+  const newShares = v.newPrimaryShares + v.greenshoeShares;
+  const postIPOShares = v.preIPOShares + newShares;
+  const postMoneyValuation = preMoneyAtOffer + primary + greenshoe;
+  const firstDayPrice = offerPrice * (1 + v.expectedPop);
+  const totalSharesSold = v.newPrimaryShares + v.secondaryShares + v.greenshoeShares;
+
+  return {
+    outputs: {
+      impliedValuePerShare: round(impliedValuePerShare),
+      offerPrice: round(offerPrice),
+      preMoneyAtOffer: round(preMoneyAtOffer),
+      baseOfferingShares: round(v.newPrimaryShares + v.secondaryShares, 3),
+      totalSharesSold: round(totalSharesSold, 3),
+      grossProceeds: {
+        primary: round(primary),
+        secondary: round(secondary),
+        greenshoe: round(greenshoe),
+        total: round(total)
+      },
+      underwritingFees: round(underwritingFees),
+      netProceedsToCompany: round((primary + greenshoe) * (1 - v.underwritingFee)),
+      netProceedsToSellingShareholders: round(secondary * (1 - v.underwritingFee)),
+      postIPOShares: round(postIPOShares, 3),
+      postMoneyValuation: round(postMoneyValuation),
+      dilution: postIPOShares > 0 ? round(newShares / postIPOShares, 4) : 0,
+      firstDayPrice: round(firstDayPrice),
+      firstDayMarketCap: round(firstDayPrice * postIPOShares),
+      moneyLeftOnTable: round((firstDayPrice - offerPrice) * totalSharesSold),
+      offerMultiples: {
+        evToRevenue: v.revenue > 0 ? round(postMoneyValuation / v.revenue, 2) : 0,
+        evToEBITDA: v.ebitda > 0 ? round(postMoneyValuation / v.ebitda, 2) : 0,
+        priceToEarnings: v.netIncome > 0 ? round(postMoneyValuation / v.netIncome, 2) : 0
+      }
+    },
+    warnings
+  };
+}
+
+// The valuation patterns also match "valued at 8× revenue", reading the
+// multiple as an $8M valuation. No IPO is priced below one year's revenue when
+// a revenue multiple is stated, so such a valuation is replaced by revenue ×
+// multiple, as is a defaulted one.
+function reconcileIPO(values: IPOGuaranteedValues): IPOGuaranteedValues {
+  const result = { ...values };
+  const defaulted = (key: keyof IPOGuaranteedValues) => isDefault(result, IPO_DEFAULTS, key);
+
+  if (!defaulted('revenue') && !defaulted('revenueMultiple') && result.revenue > 0) {
+    const fromMultiple = result.revenue * result.revenueMultiple;
+    if (defaulted('preMoneyValuation') || result.preMoneyValuation < result.revenue) {
+      if (!defaulted('preMoneyValuation')) {
+        console.warn(`[FIN-MODEL] Ignoring IPO valuation $${result.preMoneyValuation}M: below revenue of $${result.revenue}M`);
+      }
+      result.preMoneyValuation = fromMultiple;
+    }
+  }
+  return result;
+}
+
+export function buildIPOModel(text: string): FinancialModelResult<IPOGuaranteedValues, IPOOutputs> {
+  const values = reconcileIPO(parseIPOGuaranteed(text));
+  const defaultedFields = findDefaultedFields(values, IPO_DEFAULTS);
+  const { outputs, warnings } = computeIPO(values);
+  if (values.revenue > 0 && values.preMoneyValuation < values.revenue) {
+    warnings.push(`Pre-money valuation of $${round(values.preMoneyValuation)}M is below revenue of $${round(values.revenue)}M; check that the valuation was not read from a multiple`);
+  }
+  warnings.push(...ebitdaAboveRevenueWarning(values.ebitda, values.revenue,
+    (['ebitda', 'revenue'] as const).filter(key => defaultedFields.includes(key))));
+  console.log(`[FIN-MODEL] IPO ${values.companyName}: $${outputs.offerPrice} offer price, $${outputs.grossProceeds.total}M gross proceeds`);
+  return { model: 'ipo', values, defaultedFields, outputs, warnings };
+}
+
+export function buildFinancialModel(model: FinancialModelType, text: string) {
+  const result = (() => {
+    switch (model) {
+      case 'lbo': return buildLBOModel(text);
+      case 'ma': return buildMAModel(text);
+      case 'dcf': return buildDCFModel(text);
+      case 'ipo': return buildIPOModel(text);
+    }
+  })();
+
+  // The parsers read "€500m" like "$500m": amounts stay in the deal's currency
+  const currency = detectCurrency(text);
+  if (currency && currency !== 'USD') {
+    result.warnings.push(`Amounts are in ${currency} millions as stated; no currency conversion is applied`);
+  }
+  return result;
+}
@@ -0,0 +1,609 @@
+import ExcelJS from 'exceljs';
+import {
+  parseThreeStatementGuaranteed,
+  LBO_DEFAULTS,
+  DCF_DEFAULTS,
+  THREE_STATEMENT_DEFAULTS,
+  type LBOGuaranteedValues,
+  type DCFGuaranteedValues,
+  type ThreeStatementGuaranteedValues,
+} from './guaranteedParser';
+import { buildDCFModel, buildLBOModel } from './financialModels';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FINANCIAL MODEL WORKBOOKS
+// Writes DCF, LBO and three-statement models as .xlsx files. The Assumptions
+// tab holds the guaranteed-parser values as inputs (blue); every projection
+// and valuation cell is a formula over those inputs, so analysts can change
+// an assumption and the whole model recalculates. The number of projection
+// columns is fixed when the workbook is generated.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const WORKBOOK_MODEL_TYPES = ['dcf', 'lbo', 'three-statement'] as const;
+export type WorkbookModelType = typeof WORKBOOK_MODEL_TYPES[number];
+
+export type WorkbookValues = DCFGuaranteedValues | LBOGuaranteedValues | ThreeStatementGuaranteedValues;
+
+const MAX_PROJECTION_YEARS = 30;
+
+const MODEL_DEFAULTS: Record<WorkbookModelType, WorkbookValues> = {
+  'dcf': DCF_DEFAULTS,
+  'lbo': LBO_DEFAULTS,
+  'three-statement': THREE_STATEMENT_DEFAULTS,
+};
+
+// The field that sets how many projection columns the workbook gets
+const YEARS_FIELD: Record<WorkbookModelType, string> = {
+  'dcf': 'projectionYears',
+  'lbo': 'exitYear',
+  'three-statement': 'projectionYears',
+};
+
+const FORMATS = {
+  money: '#,##0.0;(#,##0.0);"–"',
+  percent: '0.0%',
+  multiple: '0.00"x"',
+  factor: '0.0000',
+  days: '0',
+  years: '0',
+  shares: '#,##0.0',
+  perShare: '0.00',
+  text: '@',
+};
+type CellFormat = keyof typeof FORMATS;
+
+const INPUT_FONT = { color: { argb: 'FF0000FF' } };
+
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SHEET LAYOUT
+// Every row is planned (assigned a sheet row) before any formula is written,
+// so formulas can refer to rows further down or on sheets written later.
+// ═══════════════════════════════════════════════════════════════════════════
+
+type CellValue = string | number | null;
+
+interface RowSpec {
+  key?: string;
+  label: string;
+  format?: CellFormat;
+  // Called per year column; a string is a formula, null leaves the cell empty
+  value?: (year: number) => CellValue;
+  bold?: boolean;
+}
+
+interface Grid {
+  sheet: string;
+  specs: RowSpec[];
+  rows: Map<string, number>;
+  headerRow: number;
+  // Year columns firstYear..lastYear; a block without years is a single column B
+  yearly: boolean;
+  firstYear: number;
+  lastYear: number;
+  endRow: number;
+}
+
+function planGrid(sheet: string, specs: RowSpec[], options: { startRow?: number; years?: [number, number] } = {}): Grid {
+  const headerRow = options.startRow ?? 1;
+  const [firstYear, lastYear] = options.years ?? [0, 0];
+  const rows = new Map<string, number>();
+  let row = options.years ? headerRow + 1 : headerRow;
+  for (const spec of specs) {
+    if (spec.key) rows.set(spec.key, row);
+    row++;
+  }
+  return { sheet, specs, rows, headerRow, yearly: !!options.years, firstYear, lastYear, endRow: row - 1 };
+}
+
+function yearColumn(grid: Grid, year: number): string {
+  return columnLetter(2 + year - grid.firstYear);
+}
+
+function rowOf(grid: Grid, key: string): number {
+  const row = grid.rows.get(key);
+  if (row === undefined) throw new Error(`Workbook row not planned: ${grid.sheet}/${key}`);
+  return row;
+}
+
+// A sheet-qualified reference to one cell of a grid row
+function at(grid: Grid, key: string, year: number = grid.firstYear): string {
+  return `'${grid.sheet}'!${yearColumn(grid, year)}${rowOf(grid, key)}`;
+}
+
+// One row across years
+function range(grid: Grid, key: string, from: number, to: number): string {
+  const row = rowOf(grid, key);
+  return `'${grid.sheet}'!${yearColumn(grid, from)}${row}:${yearColumn(grid, to)}${row}`;
+}
+
+// One year down a run of rows
+function rowRange(grid: Grid, fromKey: string, toKey: string, year: number = grid.firstYear): string {
+  const column = yearColumn(grid, year);
+  return `'${grid.sheet}'!${column}${rowOf(grid, fromKey)}:${column}${rowOf(grid, toKey)}`;
+}
+
+function yearRef(grid: Grid, year: number): string {
+  return `'${grid.sheet}'!${yearColumn(grid, year)}$${grid.headerRow}`;
+}
+
+function sheetFor(workbook: ExcelJS.Workbook, name: string): ExcelJS.Worksheet {
+  const sheet = workbook.getWorksheet(name) ?? workbook.addWorksheet(name);
+  sheet.getColumn(1).width = Math.max(sheet.getColumn(1).width ?? 0, 34);
+  return sheet;
+}
+
+function writeCell(cell: ExcelJS.Cell, value: CellValue, format?: CellFormat) {
+  if (value === null) return;
+  cell.value = typeof value === 'string' && format !== 'text' ? { formula: value } : value;
+  if (format) cell.numFmt = FORMATS[format];
+}
+
+function writeGrid(workbook: ExcelJS.Workbook, grid: Grid, headerLabel: string = '($M)') {
+  const sheet = sheetFor(workbook, grid.sheet);
+  if (grid.yearly) {
+    const header = sheet.getRow(grid.headerRow);
+    header.getCell(1).value = headerLabel;
+    for (let year = grid.firstYear; year <= grid.lastYear; year++) {
+      const cell = header.getCell(2 + year - grid.firstYear);
+      cell.value = year;
+      cell.numFmt = '"Year "0';
+      sheet.getColumn(2 + year - grid.firstYear).width = 12;
+    }
+    header.font = { bold: true };
+  } else {
+    sheet.getColumn(2).width = Math.max(sheet.getColumn(2).width ?? 0, 14);
+  }
+
+  let row = grid.yearly ? grid.headerRow + 1 : grid.headerRow;
+  for (const spec of grid.specs) {
+    const sheetRow = sheet.getRow(row);
+    sheetRow.getCell(1).value = spec.label;
+    if (spec.bold || !spec.value) sheetRow.getCell(1).font = { bold: true };
+    if (spec.value) {
+      for (let year = grid.firstYear; year <= grid.lastYear; year++) {
+        const cell = sheetRow.getCell(2 + year - grid.firstYear);
+        writeCell(cell, spec.value(year), spec.format);
+        if (spec.bold) cell.font = { bold: true };
+      }
+    }
+    row++;
+  }
+}
+
+interface InputSpec {
+  key: string;
+  label: string;
+  value: string | number | boolean | null;
+  format: CellFormat;
+}
+
+// Writes the scalar inputs to column B of the Assumptions tab and returns an
+// absolute reference per input key
+function writeInputs(workbook: ExcelJS.Workbook, inputs: InputSpec[]): Record<string, string> {
+  const sheet = sheetFor(workbook, 'Assumptions');
+  sheet.getColumn(2).width = 16;
+  sheet.getRow(1).getCell(1).value = 'Assumptions (inputs in blue; $M unless noted)';
+  sheet.getRow(1).font = { bold: true };
+  const refs: Record<string, string> = {};
+  inputs.forEach((input, i) => {
+    const row = i + 3;
+    sheet.getRow(row).getCell(1).value = input.label;
+    const cell = sheet.getRow(row).getCell(2);
+    // Blank inputs are intentional: the model falls back to another input
+    if (input.value !== null) {
+      cell.value = typeof input.value === 'boolean' ? (input.value ? 1 : 0) : input.value;
+    }
+    cell.numFmt = FORMATS[input.format];
+    cell.font = INPUT_FONT;
+    refs[input.key] = `Assumptions!$B$${row}`;
+  });
+  return refs;
+}
+
+// The per-year table goes below the scalar inputs (which start on row 3)
+function perYearStartRow(inputs: Record<string, string>): number {
+  return Object.keys(inputs).length + 4;
+}
+
+// Per-year inputs on the Assumptions tab; years past the end of an array carry
+// the previous year forward, as the model computations do
+function perYearInputs(label: string, key: string, values: number[], format: CellFormat): RowSpec {
+  return {
+    key,
+    label,
+    format,
+    value: (year) => year <= values.length ? values[year - 1] : null,
+  };
+}
+
+function writePerYearInputs(workbook: ExcelJS.Workbook, grid: Grid, sources: Record<string, number[]>) {
+  writeGrid(workbook, grid, 'Per-year inputs');
+  const sheet = sheetFor(workbook, grid.sheet);
+  for (const [key, values] of Object.entries(sources)) {
+    const row = rowOf(grid, key);
+    for (let year = grid.firstYear; year <= grid.lastYear; year++) {
+      const cell = sheet.getRow(row).getCell(2 + year - grid.firstYear);
+      if (year > values.length) {
+        cell.value = { formula: `${yearColumn(grid, year - 1)}${row}` };
+        cell.numFmt = FORMATS[grid.specs.find(spec => spec.key === key)?.format ?? 'percent'];
+      } else {
+        cell.font = INPUT_FONT;
+      }
+    }
+  }
+}
+
+function newWorkbook(): ExcelJS.Workbook {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'NEUROTEXT';
+  workbook.created = new Date();
+  // No cached results are written; Excel computes every formula on open
+  workbook.calcProperties.fullCalcOnLoad = true;
+  return workbook;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DCF
+// ═══════════════════════════════════════════════════════════════════════════
+
+function buildDCFWorkbook(v: DCFGuaranteedValues): ExcelJS.Workbook {
+  const workbook = newWorkbook();
+  const years = v.projectionYears;
+  const A = writeInputs(workbook, [
+    { key: 'companyName', label: 'Company', value: v.companyName, format: 'text' },
+    { key: 'baseRevenue', label: 'Base revenue', value: v.baseRevenue, format: 'money' },
+    { key: 'baseEBITDA', label: 'Base EBITDA', value: v.baseEBITDA, format: 'money' },
+    { key: 'daPercent', label: 'D&A (% of revenue)', value: v.daPercent, format: 'percent' },
+    { key: 'capexPercent', label: 'Capex (% of revenue)', value: v.capexPercent, format: 'percent' },
+    { key: 'nwcPercent', label: 'NWC (% of revenue change)', value: v.nwcPercent, format: 'percent' },
+    { key: 'taxRate', label: 'Tax rate', value: v.taxRate, format: 'percent' },
+    { key: 'wacc', label: 'WACC', value: v.wacc, format: 'percent' },
+    { key: 'terminalGrowthRate', label: 'Terminal growth rate', value: v.terminalGrowthRate, format: 'percent' },
+    { key: 'terminalMultiple', label: 'Terminal EBITDA multiple', value: v.terminalMultiple, format: 'multiple' },
+    { key: 'constantAssumptions', label: 'Hold base margin (1 = yes, 0 = per-year margins)', value: v.constantAssumptions, format: 'years' },
+  ]);
+
+  const inputs = planGrid('Assumptions', [
+    perYearInputs('Revenue growth', 'growth', v.revenueGrowthRates, 'percent'),
+    perYearInputs('EBITDA margin', 'margin', v.ebitdaMargins, 'percent'),
+  ], { startRow: perYearStartRow(A), years: [1, years] });
+
+  const dcf: Grid = planGrid('DCF', [
+    { key: 'revenue', label: 'Revenue', format: 'money', value: (y) => y === 0 ? `${A.baseRevenue}` : `${at(dcf, 'revenue', y - 1)}*(1+${at(dcf, 'growth', y)})` },
+    { key: 'growth', label: '  Growth', format: 'percent', value: (y) => y === 0 ? null : at(inputs, 'growth', y) },
+    { key: 'margin', label: '  EBITDA margin', format: 'percent', value: (y) => y === 0
+      ? `IF(${A.baseRevenue}=0,0,${A.baseEBITDA}/${A.baseRevenue})`
+      : `IF(${A.constantAssumptions}=1,${at(dcf, 'margin', 0)},${at(inputs, 'margin', y)})` },
+    { key: 'ebitda', label: 'EBITDA', format: 'money', value: (y) => y === 0 ? `${A.baseEBITDA}` : `${at(dcf, 'revenue', y)}*${at(dcf, 'margin', y)}` },
+    { key: 'da', label: 'D&A', format: 'money', value: (y) => y === 0 ? null : `${at(dcf, 'revenue', y)}*${A.daPercent}` },
+    { key: 'ebit', label: 'EBIT', format: 'money', value: (y) => y === 0 ? null : `${at(dcf, 'ebitda', y)}-${at(dcf, 'da', y)}` },
+    { key: 'taxes', label: 'Taxes', format: 'money', value: (y) => y === 0 ? null : `MAX(0,${at(dcf, 'ebit', y)}*${A.taxRate})` },
+    { key: 'capex', label: 'Capex', format: 'money', value: (y) => y === 0 ? null : `${at(dcf, 'revenue', y)}*${A.capexPercent}` },
+    { key: 'nwc', label: 'Change in NWC', format: 'money', value: (y) => y === 0 ? null : `(${at(dcf, 'revenue', y)}-${at(dcf, 'revenue', y - 1)})*${A.nwcPercent}` },
+    { key: 'fcf', label: 'Unlevered free cash flow', format: 'money', bold: true, value: (y) => y === 0 ? null
+      : `${at(dcf, 'ebit', y)}-${at(dcf, 'taxes', y)}+${at(dcf, 'da', y)}-${at(dcf, 'capex', y)}-${at(dcf, 'nwc', y)}` },
+    { key: 'discount', label: 'Discount factor', format: 'factor', value: (y) => y === 0 ? null : `1/(1+${A.wacc})^${yearRef(dcf, y)}` },
+    { key: 'pv', label: 'Present value of FCF', format: 'money', value: (y) => y === 0 ? null : `${at(dcf, 'fcf', y)}*${at(dcf, 'discount', y)}` },
+  ], { years: [0, years] });
+
+  const last = (key: string) => at(dcf, key, years);
+  const valuation: Grid = planGrid('DCF', [
+    { label: 'Valuation' },
+    { key: 'sumPv', label: 'Sum of PV of FCF', format: 'money', value: () => `SUM(${range(dcf, 'pv', 1, years)})` },
+    { label: 'Perpetuity growth method' },
+    { key: 'tvGrowth', label: 'Terminal value', format: 'money', value: () => `IF(${A.wacc}>${A.terminalGrowthRate},${last('fcf')}*(1+${A.terminalGrowthRate})/(${A.wacc}-${A.terminalGrowthRate}),NA())` },
+    { key: 'pvTvGrowth', label: 'PV of terminal value', format: 'money', value: () => `${at(valuation, 'tvGrowth')}*${last('discount')}` },
+    { key: 'evGrowth', label: 'Enterprise value', format: 'money', bold: true, value: () => `${at(valuation, 'sumPv')}+${at(valuation, 'pvTvGrowth')}` },
+    { key: 'impliedMultiple', label: 'Implied exit multiple', format: 'multiple', value: () => `IF(${last('ebitda')}>0,${at(valuation, 'tvGrowth')}/${last('ebitda')},0)` },
+    { label: 'Exit multiple method' },
+    { key: 'tvExit', label: 'Terminal value', format: 'money', value: () => `${last('ebitda')}*${A.terminalMultiple}` },
+    { key: 'pvTvExit', label: 'PV of terminal value', format: 'money', value: () => `${at(valuation, 'tvExit')}*${last('discount')}` },
+    { key: 'evExit', label: 'Enterprise value', format: 'money', bold: true, value: () => `${at(valuation, 'sumPv')}+${at(valuation, 'pvTvExit')}` },
+    { key: 'impliedGrowth', label: 'Implied perpetuity growth', format: 'percent', value: () =>
+      `IF(${at(valuation, 'tvExit')}+${last('fcf')}=0,0,(${at(valuation, 'tvExit')}*${A.wacc}-${last('fcf')})/(${at(valuation, 'tvExit')}+${last('fcf')}))` },
+    { label: '' },
+    { key: 'ev', label: 'Enterprise value (perpetuity, else exit multiple)', format: 'money', bold: true, value: () => `IFERROR(${at(valuation, 'evGrowth')},${at(valuation, 'evExit')})` },
+  ], { startRow: dcf.endRow + 2 });
+
+  writePerYearInputs(workbook, inputs, { growth: v.revenueGrowthRates, margin: v.ebitdaMargins });
+  writeGrid(workbook, dcf);
+  writeGrid(workbook, valuation);
+  return workbook;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LBO
+// ═══════════════════════════════════════════════════════════════════════════
+
+function buildLBOWorkbook(v: LBOGuaranteedValues): ExcelJS.Workbook {
+  const workbook = newWorkbook();
+  const years = v.exitYear;
+  // Purchase price and debt amounts are the inputs; multiples are shown as implied
+  const A = writeInputs(workbook, [
+    { key: 'companyName', label: 'Company', value: v.companyName, format: 'text' },
+    { key: 'transactionDate', label: 'Transaction date', value: v.transactionDate, format: 'text' },
+    { key: 'baseYearRevenue', label: 'LTM revenue', value: v.baseYearRevenue, format: 'money' },
+    { key: 'ltmEBITDA', label: 'LTM EBITDA', value: v.ltmEBITDA, format: 'money' },
+    { key: 'revenueGrowthRate', label: 'Revenue growth', value: v.revenueGrowthRate, format: 'percent' },
+    { key: 'baseEBITDAMargin', label: 'Base EBITDA margin', value: v.baseEBITDAMargin, format: 'percent' },
+    { key: 'targetEBITDAMargin', label: 'Target EBITDA margin', value: v.targetEBITDAMargin, format: 'percent' },
+    { key: 'marginExpansionYears', label: 'Margin expansion period (years)', value: v.marginExpansionYears, format: 'years' },
+    { key: 'daPercent', label: 'D&A (% of revenue)', value: v.daPercent, format: 'percent' },
+    { key: 'capexPercent', label: 'Capex (% of revenue)', value: v.capexPercent, format: 'percent' },
+    { key: 'nwcPercent', label: 'NWC (% of revenue change)', value: v.nwcPercent, format: 'percent' },
+    { key: 'taxRate', label: 'Tax rate', value: v.taxRate, format: 'percent' },
+    { key: 'purchasePrice', label: 'Purchase price', value: v.purchasePrice, format: 'money' },
+    { key: 'transactionCosts', label: 'Transaction costs (% of price)', value: v.transactionCosts, format: 'percent' },
+    { key: 'transactionCostsExplicit', label: 'Transaction costs ($M, blank = use %)', value: v.transactionCostsExplicit, format: 'money' },
+    { key: 'financingFees', label: 'Financing fees (% of debt)', value: v.financingFees, format: 'percent' },
+    { key: 'financingFeesExplicit', label: 'Financing fees ($M, blank = use %)', value: v.financingFeesExplicit, format: 'money' },
+    { key: 'managementRollover', label: 'Management rollover', value: v.managementRollover, format: 'money' },
+    { key: 'seniorDebtAmount', label: 'Senior debt', value: v.seniorDebtAmount, format: 'money' },
+    { key: 'seniorDebtRate', label: 'Senior debt rate', value: v.seniorDebtRate, format: 'percent' },
+    { key: 'subDebtAmount', label: 'Subordinated debt', value: v.subDebtAmount, format: 'money' },
+    { key: 'subDebtRate', label: 'Subordinated debt cash rate', value: v.subDebtRate, format: 'percent' },
+    { key: 'subDebtPIK', label: 'Subordinated debt PIK rate', value: v.subDebtPIK, format: 'percent' },
+    { key: 'revolverSize', label: 'Revolver commitment', value: v.revolverSize, format: 'money' },
+    { key: 'revolverRate', label: 'Revolver rate', value: v.revolverRate, format: 'percent' },
+    { key: 'cashFlowSweepPercent', label: 'Cash flow sweep to senior debt', value: v.cashFlowSweepPercent, format: 'percent' },
+    { key: 'exitMultiple', label: 'Exit EBITDA multiple', value: v.exitMultiple, format: 'multiple' },
+    { key: 'exitCosts', label: 'Exit costs (% of EV)', value: v.exitCosts, format: 'percent' },
+    { key: 'managementFeePercent', label: 'Management fee (% of sponsor equity)', value: v.managementFeePercent, format: 'percent' },
+  ]);
+
+  const su: Grid = planGrid('Sources & Uses', [
+    { label: 'Uses' },
+    { key: 'purchasePrice', label: 'Purchase price', format: 'money', value: () => A.purchasePrice },
+    { key: 'transactionCosts', label: 'Transaction costs', format: 'money', value: () =>
+      `IF(ISBLANK(${A.transactionCostsExplicit}),${A.purchasePrice}*${A.transactionCosts},${A.transactionCostsExplicit})` },
+    { key: 'financingFees', label: 'Financing fees', format: 'money', value: () =>
+      `IF(ISBLANK(${A.financingFeesExplicit}),(${A.seniorDebtAmount}+${A.subDebtAmount})*${A.financingFees},${A.financingFeesExplicit})` },
+    { key: 'totalUses', label: 'Total uses', format: 'money', bold: true, value: () => `SUM(${rowRange(su, 'purchasePrice', 'financingFees')})` },
+    { label: '' },
+    { label: 'Sources' },
+    { key: 'seniorDebt', label: 'Senior debt', format: 'money', value: () => A.seniorDebtAmount },
+    { key: 'subDebt', label: 'Subordinated debt', format: 'money', value: () => A.subDebtAmount },
+    { key: 'rollover', label: 'Management rollover', format: 'money', value: () => A.managementRollover },
+    { key: 'sponsorEquity', label: 'Sponsor equity (plug)', format: 'money', value: () =>
+      `${at(su, 'totalUses')}-${at(su, 'seniorDebt')}-${at(su, 'subDebt')}-${at(su, 'rollover')}` },
+    { key: 'totalSources', label: 'Total sources', format: 'money', bold: true, value: () => `SUM(${rowRange(su, 'seniorDebt', 'sponsorEquity')})` },
+    { label: '' },
+    { key: 'entryMultiple', label: 'Implied entry multiple', format: 'multiple', value: () => `IF(${A.ltmEBITDA}=0,0,${A.purchasePrice}/${A.ltmEBITDA})` },
+    { key: 'seniorLeverage', label: 'Senior debt / EBITDA', format: 'multiple', value: () => `IF(${A.ltmEBITDA}=0,0,${A.seniorDebtAmount}/${A.ltmEBITDA})` },
+    { key: 'totalLeverage', label: 'Total debt / EBITDA', format: 'multiple', value: () => `IF(${A.ltmEBITDA}=0,0,(${A.seniorDebtAmount}+${A.subDebtAmount})/${A.ltmEBITDA})` },
+  ]);
+  const equity = at(su, 'sponsorEquity');
+
+  const yearly = (formula: (y: number) => string) => (y: number) => y === 0 ? null : formula(y);
+  const lbo: Grid = planGrid('LBO', [
+    { key: 'revenue', label: 'Revenue', format: 'money', value: (y) => y === 0 ? A.baseYearRevenue : `${at(lbo, 'revenue', y - 1)}*(1+${A.revenueGrowthRate})` },
+    { key: 'margin', label: '  EBITDA margin', format: 'percent', value: (y) => y === 0
+      ? `IF(${A.baseYearRevenue}>0,${A.ltmEBITDA}/${A.baseYearRevenue},${A.baseEBITDAMargin})`
+      : `${at(lbo, 'margin', 0)}+(${A.targetEBITDAMargin}-${A.baseEBITDAMargin})*MIN(${yearRef(lbo, y)}/MAX(1,${A.marginExpansionYears}),1)` },
+    { key: 'ebitda', label: 'EBITDA', format: 'money', bold: true, value: (y) => y === 0 ? A.ltmEBITDA : `${at(lbo, 'revenue', y)}*${at(lbo, 'margin', y)}` },
+    { key: 'da', label: 'D&A', format: 'money', value: yearly(y => `${at(lbo, 'revenue', y)}*${A.daPercent}`) },
+    { key: 'capex', label: 'Capex', format: 'money', value: yearly(y => `${at(lbo, 'revenue', y)}*${A.capexPercent}`) },
+    { key: 'nwc', label: 'Change in NWC', format: 'money', value: yearly(y => `(${at(lbo, 'revenue', y)}-${at(lbo, 'revenue', y - 1)})*${A.nwcPercent}`) },
+    { key: 'mgmtFee', label: 'Management fee', format: 'money', value: yearly(() => `IF(${equity}>0,${equity}*${A.managementFeePercent},0)`) },
+    { key: 'cashInterest', label: 'Cash interest', format: 'money', value: yearly(y =>
+      `${at(lbo, 'seniorClose', y - 1)}*${A.seniorDebtRate}+${at(lbo, 'subClose', y - 1)}*${A.subDebtRate}+${at(lbo, 'revolverClose', y - 1)}*${A.revolverRate}`) },
+    { key: 'pik', label: 'PIK interest', format: 'money', value: yearly(y => `${at(lbo, 'subClose', y - 1)}*${A.subDebtPIK}`) },
+    { key: 'pretax', label: 'Pre-tax income', format: 'money', value: yearly(y =>
+      `${at(lbo, 'ebitda', y)}-${at(lbo, 'da', y)}-${at(lbo, 'cashInterest', y)}-${at(lbo, 'pik', y)}-${at(lbo, 'mgmtFee', y)}`) },
+    { key: 'taxes', label: 'Taxes', format: 'money', value: yearly(y => `MAX(0,${at(lbo, 'pretax', y)}*${A.taxRate})`) },
+    { key: 'netIncome', label: 'Net income', format: 'money', value: yearly(y => `${at(lbo, 'pretax', y)}-${at(lbo, 'taxes', y)}`) },
+    { key: 'fcf', label: 'Free cash flow', format: 'money', bold: true, value: yearly(y =>
+      `${at(lbo, 'ebitda', y)}-${at(lbo, 'cashInterest', y)}-${at(lbo, 'taxes', y)}-${at(lbo, 'capex', y)}-${at(lbo, 'nwc', y)}-${at(lbo, 'mgmtFee', y)}`) },
+    { label: 'Debt schedule' },
+    { key: 'cashUsed', label: 'Cash used for shortfall', format: 'money', value: yearly(y =>
+      `IF(${at(lbo, 'fcf', y)}<0,MIN(${at(lbo, 'cashClose', y - 1)},-${at(lbo, 'fcf', y)}),0)`) },
+    { key: 'revolverDraw', label: 'Revolver draw', format: 'money', value: yearly(y =>
+      `IF(${at(lbo, 'fcf', y)}<0,-${at(lbo, 'fcf', y)}-${at(lbo, 'cashUsed', y)},0)`) },
+    { key: 'revolverRepay', label: 'Revolver repayment', format: 'money', value: yearly(y =>
+      `IF(${at(lbo, 'fcf', y)}>0,MIN(${at(lbo, 'revolverClose', y - 1)},${at(lbo, 'fcf', y)}),0)`) },
+    { key: 'sweep', label: 'Senior debt sweep', format: 'money', value: yearly(y =>
+      `IF(${at(lbo, 'fcf', y)}>0,MIN(${at(lbo, 'seniorClose', y - 1)},(${at(lbo, 'fcf', y)}-${at(lbo, 'revolverRepay', y)})*${A.cashFlowSweepPercent}),0)`) },
+    { key: 'seniorClose', label: 'Senior debt (closing)', format: 'money', value: (y) => y === 0 ? A.seniorDebtAmount : `${at(lbo, 'seniorClose', y - 1)}-${at(lbo, 'sweep', y)}` },
+    { key: 'subClose', label: 'Subordinated debt (closing)', format: 'money', value: (y) => y === 0 ? A.subDebtAmount : `${at(lbo, 'subClose', y - 1)}+${at(lbo, 'pik', y)}` },
+    { key: 'revolverClose', label: 'Revolver (closing)', format: 'money', value: (y) => y === 0 ? 0
+      : `${at(lbo, 'revolverClose', y - 1)}+${at(lbo, 'revolverDraw', y)}-${at(lbo, 'revolverRepay', y)}` },
+    { key: 'cashClose', label: 'Cash (closing)', format: 'money', value: (y) => y === 0 ? 0
+      : `${at(lbo, 'cashClose', y - 1)}-${at(lbo, 'cashUsed', y)}+IF(${at(lbo, 'fcf', y)}>0,${at(lbo, 'fcf', y)}-${at(lbo, 'revolverRepay', y)}-${at(lbo, 'sweep', y)},0)` },
+    { label: '' },
+    { key: 'sponsorFlows', label: 'Sponsor cash flows', format: 'money', value: (y) => y === 0 ? `-${equity}` : y === years ? at(returns, 'proceeds') : 0 },
+  ], { years: [0, years] });
+
+  const last = (key: string) => at(lbo, key, years);
+  const returns: Grid = planGrid('LBO', [
+    { label: 'Exit and returns' },
+    { key: 'exitEBITDA', label: 'Exit EBITDA', format: 'money', value: () => last('ebitda') },
+    { key: 'ev', label: 'Enterprise value at exit', format: 'money', value: () => `${at(returns, 'exitEBITDA')}*${A.exitMultiple}` },
+    { key: 'exitCosts', label: 'Exit costs', format: 'money', value: () => `${at(returns, 'ev')}*${A.exitCosts}` },
+    { key: 'netDebt', label: 'Net debt at exit', format: 'money', value: () =>
+      `${last('seniorClose')}+${last('subClose')}+${last('revolverClose')}-${last('cashClose')}` },
+    { key: 'equityValue', label: 'Equity value at exit', format: 'money', value: () =>
+      `MAX(0,${at(returns, 'ev')}-${at(returns, 'exitCosts')}-${at(returns, 'netDebt')})` },
+    { key: 'proceeds', label: 'Sponsor proceeds', format: 'money', value: () =>
+      `IF(${equity}+${A.managementRollover}>0,${at(returns, 'equityValue')}*MAX(${equity},0)/(${equity}+${A.managementRollover}),0)` },
+    { key: 'moic', label: 'MOIC', format: 'multiple', bold: true, value: () => `IF(${equity}>0,${at(returns, 'proceeds')}/${equity},NA())` },
+    { key: 'irr', label: 'IRR', format: 'percent', bold: true, value: () => `IF(${equity}>0,IRR(${range(lbo, 'sponsorFlows', 0, years)}),NA())` },
+  ], { startRow: lbo.endRow + 2 });
+
+  writeGrid(workbook, su);
+  writeGrid(workbook, lbo);
+  writeGrid(workbook, returns);
+  return workbook;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// THREE-STATEMENT
+// Cash is the balancing item: it comes from the cash flow statement, and
+// equity rolls forward with net income, so the balance check stays at zero.
+// Working capital and PP&E follow their days assumptions; capex is whatever
+// keeps PP&E on target after D&A.
+// ═══════════════════════════════════════════════════════════════════════════
+
+function buildThreeStatementWorkbook(v: ThreeStatementGuaranteedValues): ExcelJS.Workbook {
+  const workbook = newWorkbook();
+  const years = v.projectionYears;
+  const A = writeInputs(workbook, [
+    { key: 'companyName', label: 'Company', value: v.companyName, format: 'text' },
+    { key: 'baseRevenue', label: 'Base revenue', value: v.baseRevenue, format: 'money' },
+    { key: 'grossMargin', label: 'Gross margin', value: v.grossMargin, format: 'percent' },
+    { key: 'sgaPercent', label: 'SG&A (% of revenue)', value: v.sgaPercent, format: 'percent' },
+    { key: 'rdPercent', label: 'R&D (% of revenue)', value: v.rdPercent, format: 'percent' },
+    { key: 'daPercent', label: 'D&A (% of revenue)', value: v.daPercent, format: 'percent' },
+    { key: 'interestRate', label: 'Interest rate on debt', value: v.interestRate, format: 'percent' },
+    { key: 'taxRate', label: 'Tax rate', value: v.taxRate, format: 'percent' },
+    { key: 'cashPercent', label: 'Opening cash (% of revenue)', value: v.cashPercent, format: 'percent' },
+    { key: 'arDays', label: 'Receivable days', value: v.arDays, format: 'days' },
+    { key: 'inventoryDays', label: 'Inventory days (of COGS)', value: v.inventoryDays, format: 'days' },
+    { key: 'ppeDays', label: 'PP&E (days of revenue)', value: v.ppeDays, format: 'days' },
+    { key: 'apDays', label: 'Payable days (of COGS)', value: v.apDays, format: 'days' },
+    { key: 'beginningDebt', label: 'Opening debt', value: v.beginningDebt, format: 'money' },
+    { key: 'debtPaydown', label: 'Annual debt repayment', value: v.debtPaydown, format: 'money' },
+    { key: 'sharesOutstanding', label: 'Shares outstanding (M)', value: v.sharesOutstanding, format: 'shares' },
+  ]);
+
+  const inputs = planGrid('Assumptions', [
+    perYearInputs('Revenue growth', 'growth', v.revenueGrowthRates, 'percent'),
+  ], { startRow: perYearStartRow(A), years: [1, years] });
+
+  const yearly = (formula: (y: number) => string) => (y: number) => y === 0 ? null : formula(y);
+  const days = (base: string, daysRef: string) => `${base}*${daysRef}/365`;
+
+  const is: Grid = planGrid('Income Statement', [
+    { key: 'revenue', label: 'Revenue', format: 'money', bold: true, value: (y) => y === 0 ? A.baseRevenue : `${at(is, 'revenue', y - 1)}*(1+${at(inputs, 'growth', y)})` },
+    { key: 'cogs', label: 'Cost of goods sold', format: 'money', value: (y) => `${at(is, 'revenue', y)}*(1-${A.grossMargin})` },
+    { key: 'grossProfit', label: 'Gross profit', format: 'money', value: (y) => `${at(is, 'revenue', y)}-${at(is, 'cogs', y)}` },
+    { key: 'sga', label: 'SG&A', format: 'money', value: (y) => `${at(is, 'revenue', y)}*${A.sgaPercent}` },
+    { key: 'rd', label: 'R&D', format: 'money', value: (y) => `${at(is, 'revenue', y)}*${A.rdPercent}` },
+    { key: 'ebitda', label: 'EBITDA', format: 'money', bold: true, value: (y) => `${at(is, 'grossProfit', y)}-${at(is, 'sga', y)}-${at(is, 'rd', y)}` },
+    { key: 'da', label: 'D&A', format: 'money', value: (y) => `${at(is, 'revenue', y)}*${A.daPercent}` },
+    { key: 'ebit', label: 'EBIT', format: 'money', value: (y) => `${at(is, 'ebitda', y)}-${at(is, 'da', y)}` },
+    { key: 'interest', label: 'Interest expense', format: 'money', value: yearly(y => `${at(bs, 'debt', y - 1)}*${A.interestRate}`) },
+    { key: 'ebt', label: 'Pre-tax income', format: 'money', value: yearly(y => `${at(is, 'ebit', y)}-${at(is, 'interest', y)}`) },
+    { key: 'taxes', label: 'Taxes', format: 'money', value: yearly(y => `MAX(0,${at(is, 'ebt', y)}*${A.taxRate})`) },
+    { key: 'netIncome', label: 'Net income', format: 'money', bold: true, value: yearly(y => `${at(is, 'ebt', y)}-${at(is, 'taxes', y)}`) },
+    { key: 'eps', label: 'EPS ($)', format: 'perShare', value: yearly(y => `IF(${A.sharesOutstanding}=0,0,${at(is, 'netIncome', y)}/${A.sharesOutstanding})`) },
+  ], { years: [0, years] });
+
+  const bs: Grid = planGrid('Balance Sheet', [
+    { key: 'cash', label: 'Cash', format: 'money', value: (y) => y === 0 ? `${at(is, 'revenue', 0)}*${A.cashPercent}` : at(cf, 'endingCash', y) },
+    { key: 'ar', label: 'Accounts receivable', format: 'money', value: (y) => days(at(is, 'revenue', y), A.arDays) },
+    { key: 'inventory', label: 'Inventory', format: 'money', value: (y) => days(at(is, 'cogs', y), A.inventoryDays) },
+    { key: 'ppe', label: 'PP&E', format: 'money', value: (y) => days(at(is, 'revenue', y), A.ppeDays) },
+    { key: 'totalAssets', label: 'Total assets', format: 'money', bold: true, value: (y) =>
+      `${at(bs, 'cash', y)}+${at(bs, 'ar', y)}+${at(bs, 'inventory', y)}+${at(bs, 'ppe', y)}` },
+    { label: '' },
+    { key: 'ap', label: 'Accounts payable', format: 'money', value: (y) => days(at(is, 'cogs', y), A.apDays) },
+    { key: 'debt', label: 'Debt', format: 'money', value: (y) => y === 0 ? A.beginningDebt : `MAX(0,${at(bs, 'debt', y - 1)}-${A.debtPaydown})` },
+    // Opening equity is whatever balances the opening balance sheet
+    { key: 'equity', label: 'Shareholders\' equity', format: 'money', value: (y) => y === 0
+      ? `${at(bs, 'totalAssets', 0)}-${at(bs, 'ap', 0)}-${at(bs, 'debt', 0)}`
+      : `${at(bs, 'equity', y - 1)}+${at(is, 'netIncome', y)}` },
+    { key: 'totalLiabilities', label: 'Total liabilities and equity', format: 'money', bold: true, value: (y) =>
+      `${at(bs, 'ap', y)}+${at(bs, 'debt', y)}+${at(bs, 'equity', y)}` },
+    { label: '' },
+    { key: 'check', label: 'Balance check (should be 0)', format: 'money', value: (y) => `ROUND(${at(bs, 'totalAssets', y)}-${at(bs, 'totalLiabilities', y)},6)` },
+  ], { years: [0, years] });
+
+  const cf: Grid = planGrid('Cash Flow', [
+    { key: 'netIncome', label: 'Net income', format: 'money', value: yearly(y => at(is, 'netIncome', y)) },
+    { key: 'da', label: 'D&A', format: 'money', value: yearly(y => at(is, 'da', y)) },
+    { key: 'ar', label: 'Change in receivables', format: 'money', value: yearly(y => `-(${at(bs, 'ar', y)}-${at(bs, 'ar', y - 1)})`) },
+    { key: 'inventory', label: 'Change in inventory', format: 'money', value: yearly(y => `-(${at(bs, 'inventory', y)}-${at(bs, 'inventory', y - 1)})`) },
+    { key: 'ap', label: 'Change in payables', format: 'money', value: yearly(y => `${at(bs, 'ap', y)}-${at(bs, 'ap', y - 1)}`) },
+    { key: 'operating', label: 'Cash from operations', format: 'money', bold: true, value: yearly(y => `SUM(${rowRange(cf, 'netIncome', 'ap', y)})`) },
+    { key: 'capex', label: 'Capex', format: 'money', value: yearly(y => `-(${at(bs, 'ppe', y)}-${at(bs, 'ppe', y - 1)}+${at(is, 'da', y)})`) },
+    { key: 'investing', label: 'Cash from investing', format: 'money', bold: true, value: yearly(y => at(cf, 'capex', y)) },
+    { key: 'debtRepayment', label: 'Debt repayment', format: 'money', value: yearly(y => `${at(bs, 'debt', y)}-${at(bs, 'debt', y - 1)}`) },
+    { key: 'financing', label: 'Cash from financing', format: 'money', bold: true, value: yearly(y => at(cf, 'debtRepayment', y)) },
+    { label: '' },
+    { key: 'netChange', label: 'Net change in cash', format: 'money', value: yearly(y => `${at(cf, 'operating', y)}+${at(cf, 'investing', y)}+${at(cf, 'financing', y)}`) },
+    { key: 'beginningCash', label: 'Beginning cash', format: 'money', value: yearly(y => at(bs, 'cash', y - 1)) },
+    { key: 'endingCash', label: 'Ending cash', format: 'money', bold: true, value: yearly(y => `${at(cf, 'beginningCash', y)}+${at(cf, 'netChange', y)}`) },
+  ], { years: [0, years] });
+
+  writePerYearInputs(workbook, inputs, { growth: v.revenueGrowthRates });
+  writeGrid(workbook, is);
+  writeGrid(workbook, bs);
+  writeGrid(workbook, cf);
+  return workbook;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALUES AND ENTRY POINT
+// ═══════════════════════════════════════════════════════════════════════════
+
+function isValidOverride(value: unknown, defaultValue: unknown): boolean {
+  if (Array.isArray(defaultValue)) {
+    return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'number' && Number.isFinite(item));
+  }
+  // Explicit-amount fields default to null ("not given")
+  if (defaultValue === null) {
+    return value === null || (typeof value === 'number' && Number.isFinite(value));
+  }
+  if (typeof defaultValue === 'number') {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+  return typeof value === typeof defaultValue;
+}
+
+export interface ResolvedWorkbookValues {
+  values: WorkbookValues;
+  // Override fields that are unknown for the model or have the wrong type
+  invalidFields: string[];
+}
+
+// Values parsed from the deal description (or the defaults without one), with
+// any explicitly supplied values laid over them
+export function resolveWorkbookValues(model: WorkbookModelType, text?: string | null, overrides: Record<string, unknown> = {}): ResolvedWorkbookValues {
+  const defaults = MODEL_DEFAULTS[model];
+  let values: WorkbookValues;
+  if (text && text.trim()) {
+    values = model === 'dcf' ? buildDCFModel(text).values
+      : model === 'lbo' ? buildLBOModel(text).values
+      : parseThreeStatementGuaranteed(text);
+  } else {
+    values = { ...defaults };
+  }
+
+  const invalidFields: string[] = [];
+  const result = { ...values } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in defaults) || !isValidOverride(value, (defaults as any)[key])) {
+      invalidFields.push(key);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  const years = result[YEARS_FIELD[model]];
+  if (typeof years !== 'number' || !Number.isInteger(years) || years < 1 || years > MAX_PROJECTION_YEARS) {
+    invalidFields.push(YEARS_FIELD[model]);
+  }
+  return { values: result as unknown as WorkbookValues, invalidFields };
+}
+
+export async function generateFinancialWorkbook(model: WorkbookModelType, values: WorkbookValues): Promise<Buffer> {
+  const workbook = model === 'dcf' ? buildDCFWorkbook(values as DCFGuaranteedValues)
+    : model === 'lbo' ? buildLBOWorkbook(values as LBOGuaranteedValues)
+    : buildThreeStatementWorkbook(values as ThreeStatementGuaranteedValues);
+  const buffer = Buffer.from(await workbook.xlsx.writeBuffer() as ArrayBuffer);
+  console.log(`[FIN-WORKBOOK] ${model} workbook for ${values.companyName}: ${workbook.worksheets.length} sheets, ${buffer.length} bytes`);
+  return buffer;
+}
+
+export function workbookFilename(model: WorkbookModelType, values: WorkbookValues): string {
+  const slug = values.companyName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'company';
+  return `${slug}-${model}.xlsx`;
+}
@@ -1045,8 +1045,8 @@ export function parseDCFGuaranteed(text: string): DCFGuaranteedValues {
   
   // ============ REVENUE ============
   const revenuePatterns = [
-    /revenue\s+(?:of\s+)?\$?([\d,.]+)\s*(?:m|mm|million)?/i,
-    /\$?([\d,.]+)\s*(?:m|mm|million)?\s+(?:in\s+)?revenue/i,
+    /revenue\s+(?:of\s+)?\$?([\d,.]+)\s*(?:mm|million|m|bn|billion|b)?/i,
+    /\$?([\d,.]+)\s*(?:mm|million|m|bn|billion|b)?\s+(?:in\s+)?revenue/i,
   ];
   const revenue = extractMoney(text, revenuePatterns);
   if (revenue !== null) {
@@ -1054,10 +1054,22 @@ export function parseDCFGuaranteed(text: string): DCFGuaranteedValues {
     console.log(`[GuaranteedParser] Revenue: $${revenue}M`);
   }
   
+  // ============ EBITDA MARGIN ============
+  // "EBITDA 22%" is a margin, not $22M of EBITDA
+  const ebitdaMarginPatterns = [
+    /ebitda\s+(?:margins?\s*)?(?:of\s+)?([\d.]+)\s*%/i,
+    /([\d.]+)\s*%\s+ebitda(?:\s+margin)?/i,
+  ];
+  const ebitdaMargin = extractPercent(text, ebitdaMarginPatterns);
+  if (ebitdaMargin !== null) {
+    result.ebitdaMargins = result.ebitdaMargins.map(() => ebitdaMargin);
+    console.log(`[GuaranteedParser] EBITDA margin: ${(ebitdaMargin * 100).toFixed(1)}%`);
+  }
+
   // ============ EBITDA ============
   const ebitdaPatterns = [
-    /ebitda\s+(?:of\s+)?\$?([\d,.]+)\s*(?:m|mm|million)?/i,
-    /\$?([\d,.]+)\s*(?:m|mm|million)?\s+ebitda/i,
+    /ebitda\s+(?:of\s+)?\$?([\d,.]+)(?![\d,.]*\s*%)\s*(?:mm|million|m|bn|billion|b)?/i,
+    /\$?([\d,.]+)(?![\d,.]*\s*%)\s*(?:mm|million|m|bn|billion|b)?\s+ebitda/i,
   ];
   const ebitda = extractMoney(text, ebitdaPatterns);
   if (ebitda !== null) {
@@ -1081,6 +1093,7 @@ export function parseDCFGuaranteed(text: string): DCFGuaranteedValues {
   const terminalGrowthPatterns = [
     /terminal\s+(?:growth|g)\s*(?:rate)?\s*(?:of\s+)?([\d.]+)\s*%/i,
     /(?:perpetuity|perpetual)\s+growth\s*(?:of\s+)?([\d.]+)\s*%/i,
+    /\btgr\s*(?:of\s+)?([\d.]+)\s*%/i,
   ];
   const terminalGrowth = extractPercent(text, terminalGrowthPatterns);
   if (terminalGrowth !== null) {
@@ -1117,8 +1130,8 @@ export function parseIPOGuaranteed(text: string): IPOGuaranteedValues {
   
   // ============ REVENUE ============
   const revenuePatterns = [
-    /revenue\s+(?:of\s+)?\$?([\d,.]+)\s*(?:m|mm|million)?/i,
-    /\$?([\d,.]+)\s*(?:m|mm|million)?\s+(?:in\s+)?revenue/i,
+    /revenue\s+(?:of\s+)?\$?([\d,.]+)\s*(?:mm|million|m|bn|billion|b)?/i,
+    /\$?([\d,.]+)\s*(?:mm|million|m|bn|billion|b)?\s+(?:in\s+)?revenue/i,
   ];
   const revenue = extractMoney(text, revenuePatterns);
   if (revenue !== null) {
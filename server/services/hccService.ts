@@ -1,5 +1,3 @@
-import Anthropic from "@anthropic-ai/sdk";
-import OpenAI from "openai";
 import { db } from "../db";
 import { 
   hccDocuments, hccParts, hccChapters, hccChunks,
@@ -9,9 +7,10 @@ import {
 } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { callAIWithFailover, cleanMarkdown } from "./aiFailover";
-
-const anthropic = new Anthropic();
-const openai = new OpenAI();
+import { completePrompt, ChatResponse } from "./llmProviders";
+import { logLLMCall, summarizeText } from "./auditService";
+import { ensureLLMContext, bindLLMJob } from "./llmContext";
+import { runChunksWithConcurrency } from "./chunkScheduler";
 
 const PRIMARY_MODEL = "claude-sonnet-4-5-20250929";
 const FALLBACK_MODEL = "gpt-4-turbo";
@@ -19,8 +18,7 @@ const FALLBACK_MODEL = "gpt-4-turbo";
 const VIRTUAL_PART_SIZE = 25000;
 const VIRTUAL_CHAPTER_SIZE = 5000;
 const TARGET_CHUNK_SIZE = 500;
-const MAX_HCC_WORDS = 100000;
-const CHUNK_DELAY_MS = 2000;
+export const MAX_HCC_WORDS = 100000;
 const MAX_CHUNK_RETRIES = 2;
 
 async function callWithFallback(
@@ -28,14 +26,24 @@ async function callWithFallback(
   maxTokens: number,
   temperature: number
 ): Promise<string> {
+  const record = async (response: ChatResponse) => {
+    await logLLMCall({
+      jobType: 'hcc_chunk',
+      promptSummary: summarizeText(prompt, 100),
+      responseSummary: summarizeText(response.text, 200),
+      status: response.finishReason === 'stop' ? 'success' : response.finishReason || 'unknown',
+      exchange: response
+    });
+    return response.text;
+  };
+
   try {
-    const message = await anthropic.messages.create({
+    const message = await completePrompt('anthropic', prompt, {
       model: PRIMARY_MODEL,
-      max_tokens: maxTokens,
-      temperature,
-      messages: [{ role: "user", content: prompt }]
+      maxTokens,
+      temperature
     });
-    return message.content[0].type === 'text' ? message.content[0].text : '';
+    return await record(message);
   } catch (error: any) {
     const status = error?.status || error?.response?.status;
     const isRetryable = status === 404 || status === 429 || status === 503 || status === 529;
@@ -43,13 +51,12 @@ async function callWithFallback(
     if (isRetryable) {
       console.log(`[HCC] Claude model error (${status}), falling back to GPT-4 Turbo`);
       try {
-        const completion = await openai.chat.completions.create({
+        const completion = await completePrompt('openai', prompt, {
           model: FALLBACK_MODEL,
-          max_tokens: maxTokens,
-          temperature,
-          messages: [{ role: "user", content: prompt }]
+          maxTokens,
+          temperature
         });
-        return completion.choices[0]?.message?.content || '';
+        return await record(completion);
       } catch (fallbackError: any) {
         console.error(`[HCC] Fallback to GPT-4 also failed:`, fallbackError?.message);
         throw fallbackError;
@@ -594,36 +601,43 @@ export async function processHccDocument(
   customInstructions: string | null,
   userId?: number
 ): Promise<{ success: boolean; output: string; documentId?: number; error?: string }> {
-  const startTime = Date.now();
+  return ensureLLMContext(() => runHccDocument(text, customInstructions, userId));
+}
+
+async function runHccDocument(
+  text: string,
+  customInstructions: string | null,
+  userId?: number
+): Promise<{ success: boolean; output: string; documentId?: number; error?: string }> {
+  const created = await createHccDocument(text, customInstructions, userId);
+  if (!created.documentId) {
+    return { success: false, output: '', error: created.error };
+  }
+  bindLLMJob(created.documentId, 'hcc_document');
+  return runStoredHccDocument(created.documentId);
+}
+
+// Stores the document with its detected structure and length targets; the
+// processing itself is done by runStoredHccDocument (directly, or by the job
+// worker for documents queued through POST /api/hcc)
+export async function createHccDocument(
+  text: string,
+  customInstructions: string | null,
+  userId?: number
+): Promise<{ documentId?: number; error?: string }> {
   const wordCount = countWords(text);
   
   if (wordCount > MAX_HCC_WORDS) {
-    return { success: false, output: '', error: `Document exceeds ${MAX_HCC_WORDS} word limit (got ${wordCount})` };
+    return { error: `Document exceeds ${MAX_HCC_WORDS} word limit (got ${wordCount})` };
   }
   
-  const parsedLength = parseTargetLength(customInstructions);
-  const lengthConfig = calculateLengthConfig(
-    wordCount,
-    parsedLength?.targetMin ?? null,
-    parsedLength?.targetMax ?? null,
-    customInstructions
-  );
-  
-  console.log(`[HCC] ═══════════════════════════════════════════════════════════════`);
-  console.log(`[HCC] Starting HCC Processing`);
-  console.log(`[HCC] Input: ${wordCount.toLocaleString()} words`);
-  console.log(`[HCC] Target: ${lengthConfig.targetMinWords.toLocaleString()}-${lengthConfig.targetMaxWords.toLocaleString()} words (mid: ${lengthConfig.targetMidWords.toLocaleString()})`);
-  console.log(`[HCC] Ratio: ${lengthConfig.lengthRatio.toFixed(3)} (${lengthConfig.lengthMode})`);
-  console.log(`[HCC] Custom Instructions: ${customInstructions ? customInstructions.slice(0, 100) + '...' : 'None'}`);
-  console.log(`[HCC] ═══════════════════════════════════════════════════════════════`);
-  
+  const lengthConfig = getLengthConfig(text, customInstructions);
   const structure = detectDocumentStructure(text);
   console.log(`[HCC] Detected structure: ${structure.parts.length} parts`);
   
-  let docResult: any;
   try {
     console.log(`[DB] Inserting hccDocuments, wordCount: ${wordCount}`);
-    [docResult] = await db.insert(hccDocuments).values({
+    const [docResult] = await db.insert(hccDocuments).values({
       userId,
       originalText: text,
       wordCount,
@@ -636,26 +650,94 @@ export async function processHccDocument(
       status: 'structure_detected'
     }).returning();
     console.log(`[DB] Successfully inserted hccDocuments, docId: ${docResult.id}`);
+    return { documentId: docResult.id };
   } catch (dbError: any) {
     console.error(`[DB] FAILED to insert hccDocuments:`, dbError.message);
-    return { success: false, output: '', error: `Database error: ${dbError.message}` };
+    return { error: `Database error: ${dbError.message}` };
   }
+}
+
+function getLengthConfig(text: string, customInstructions: string | null): LengthEnforcementConfig {
+  const parsedLength = parseTargetLength(customInstructions);
+  return calculateLengthConfig(
+    countWords(text),
+    parsedLength?.targetMin ?? null,
+    parsedLength?.targetMax ?? null,
+    customInstructions
+  );
+}
+
+export async function getHccDocument(documentId: number): Promise<HccDocument | undefined> {
+  const [doc] = await db.select().from(hccDocuments).where(eq(hccDocuments.id, documentId));
+  return doc;
+}
+
+// Resumes a stored document after an interruption (used by the job worker).
+// signal is aborted when the worker loses the job's lease.
+export async function resumeHccDocument(
+  documentId: number,
+  signal?: AbortSignal
+): Promise<{ success: boolean; output: string; documentId?: number; error?: string }> {
+  return ensureLLMContext(() => runStoredHccDocument(documentId, signal));
+}
+
+// Processes a stored document, reusing whatever an earlier attempt left behind:
+// the book skeleton, part and chapter rows, and the output of completed
+// chapters. A chapter that was interrupted is processed again from its start.
+async function runStoredHccDocument(
+  documentId: number,
+  signal?: AbortSignal
+): Promise<{ success: boolean; output: string; documentId?: number; error?: string }> {
+  const startTime = Date.now();
+  
+  const [doc] = await db.select().from(hccDocuments).where(eq(hccDocuments.id, documentId));
+  if (!doc) {
+    return { success: false, output: '', error: `HCC document ${documentId} not found` };
+  }
+  if (doc.status === 'complete' && doc.finalOutput) {
+    return { success: true, output: doc.finalOutput, documentId };
+  }
+  
+  const text = doc.originalText;
+  const customInstructions = doc.customInstructions;
+  const wordCount = doc.wordCount;
+  const lengthConfig = getLengthConfig(text, customInstructions);
+  const structure = doc.structureMap as DocumentStructure;
+  
+  console.log(`[HCC] ═══════════════════════════════════════════════════════════════`);
+  console.log(`[HCC] Starting HCC Processing (document ${documentId})`);
+  console.log(`[HCC] Input: ${wordCount.toLocaleString()} words`);
+  console.log(`[HCC] Target: ${lengthConfig.targetMinWords.toLocaleString()}-${lengthConfig.targetMaxWords.toLocaleString()} words (mid: ${lengthConfig.targetMidWords.toLocaleString()})`);
+  console.log(`[HCC] Ratio: ${lengthConfig.lengthRatio.toFixed(3)} (${lengthConfig.lengthMode})`);
+  console.log(`[HCC] Custom Instructions: ${customInstructions ? customInstructions.slice(0, 100) + '...' : 'None'}`);
+  console.log(`[HCC] ═══════════════════════════════════════════════════════════════`);
   
-  const documentId = docResult.id;
   
   try {
-    const bookSkeleton = await extractBookSkeleton(text);
-    try {
-      console.log(`[DB] Updating hccDocuments with skeleton, docId: ${documentId}`);
-      await db.update(hccDocuments)
-        .set({ bookSkeleton, status: 'skeletons_extracted' })
-        .where(eq(hccDocuments.id, documentId));
-      console.log(`[DB] Successfully updated hccDocuments with skeleton`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update hccDocuments with skeleton:`, dbError.message);
+    let bookSkeleton = doc.bookSkeleton as HccBookSkeleton | null;
+    if (!bookSkeleton) {
+      bookSkeleton = await extractBookSkeleton(text);
+      try {
+        console.log(`[DB] Updating hccDocuments with skeleton, docId: ${documentId}`);
+        await db.update(hccDocuments)
+          .set({ bookSkeleton, status: 'skeletons_extracted' })
+          .where(eq(hccDocuments.id, documentId));
+        console.log(`[DB] Successfully updated hccDocuments with skeleton`);
+      } catch (dbError: any) {
+        console.error(`[DB] FAILED to update hccDocuments with skeleton:`, dbError.message);
+      }
     }
     
-    const compressedBook = await compressSkeleton(bookSkeleton, 500);
+    const storedParts = await db.select().from(hccParts).where(eq(hccParts.documentId, documentId));
+    const storedChapters = await db.select().from(hccChapters).where(eq(hccChapters.documentId, documentId));
+    if (storedChapters.length > 0) {
+      console.log(`[HCC] Resuming: ${storedChapters.filter(ch => ch.status === 'completed').length} chapters already complete`);
+    }
+    
+    const storedCompression = storedParts
+      .map(p => (p.compressedBookSkeleton as { compressed?: string } | null)?.compressed)
+      .find(Boolean);
+    const compressedBook = storedCompression || await compressSkeleton(bookSkeleton, 500);
     
     let allChapterOutputs: string[] = [];
     
@@ -663,48 +745,61 @@ export async function processHccDocument(
       const part = structure.parts[p];
       const partText = getTextByWordRange(text, part.startIndex, part.endIndex);
       
-      let partResult: any;
-      try {
-        console.log(`[DB] Inserting hccParts, partIndex: ${p}`);
-        [partResult] = await db.insert(hccParts).values({
-          documentId,
-          partIndex: p,
-          partTitle: part.title,
-          originalText: partText,
-          wordCount: countWords(partText),
-          compressedBookSkeleton: { compressed: compressedBook },
-          status: 'processing'
-        }).returning();
-        console.log(`[DB] Successfully inserted hccParts, partId: ${partResult.id}`);
-      } catch (dbError: any) {
-        console.error(`[DB] FAILED to insert hccParts partIndex ${p}:`, dbError.message);
-        continue;
+      let partResult: any = storedParts.find(row => row.partIndex === p);
+      if (!partResult) {
+        try {
+          console.log(`[DB] Inserting hccParts, partIndex: ${p}`);
+          [partResult] = await db.insert(hccParts).values({
+            documentId,
+            partIndex: p,
+            partTitle: part.title,
+            originalText: partText,
+            wordCount: countWords(partText),
+            compressedBookSkeleton: { compressed: compressedBook },
+            status: 'processing'
+          }).returning();
+          console.log(`[DB] Successfully inserted hccParts, partId: ${partResult.id}`);
+        } catch (dbError: any) {
+          console.error(`[DB] FAILED to insert hccParts partIndex ${p}:`, dbError.message);
+          continue;
+        }
       }
       
       const partId = partResult.id;
       const compressedPart = compressedBook;
       
       for (let c = 0; c < part.chapters.length; c++) {
+        signal?.throwIfAborted();
         const chapter = part.chapters[c];
         const chapterText = getTextByWordRange(text, chapter.startIndex, chapter.endIndex);
         const chapterWords = countWords(chapterText);
         
-        let chapterResult: any;
+        let chapterResult: any = storedChapters.find(row => row.partId === partId && row.chapterIndex === c);
+        if (chapterResult?.status === 'completed' && chapterResult.chapterOutput) {
+          allChapterOutputs.push(chapterResult.chapterOutput);
+          continue;
+        }
         try {
-          console.log(`[DB] Inserting hccChapters, chapterIndex: ${c}`);
-          [chapterResult] = await db.insert(hccChapters).values({
-            partId,
-            documentId,
-            chapterIndex: c,
-            chapterTitle: chapter.title,
-            originalText: chapterText,
-            wordCount: chapterWords,
-            compressedPartSkeleton: { compressed: compressedPart },
-            status: 'processing'
-          }).returning();
-          console.log(`[DB] Successfully inserted hccChapters, chapterId: ${chapterResult.id}`);
+          if (chapterResult) {
+            // Chunks of the interrupted attempt; the chapter is stitched from a fresh set
+            console.log(`[DB] Deleting hccChunks of interrupted chapter, chapterId: ${chapterResult.id}`);
+            await db.delete(hccChunks).where(eq(hccChunks.chapterId, chapterResult.id));
+          } else {
+            console.log(`[DB] Inserting hccChapters, chapterIndex: ${c}`);
+            [chapterResult] = await db.insert(hccChapters).values({
+              partId,
+              documentId,
+              chapterIndex: c,
+              chapterTitle: chapter.title,
+              originalText: chapterText,
+              wordCount: chapterWords,
+              compressedPartSkeleton: { compressed: compressedPart },
+              status: 'processing'
+            }).returning();
+            console.log(`[DB] Successfully inserted hccChapters, chapterId: ${chapterResult.id}`);
+          }
         } catch (dbError: any) {
-          console.error(`[DB] FAILED to insert hccChapters chapterIndex ${c}:`, dbError.message);
+          console.error(`[DB] FAILED to prepare hccChapters chapterIndex ${c}:`, dbError.message);
           continue;
         }
         
@@ -713,10 +808,10 @@ export async function processHccDocument(
         const chapterSkeleton = `Master Thesis: ${bookSkeleton.masterThesis}\nContext: ${compressedPart}`;
         
         const chapterChunks = smartChunk(chapterText);
-        const processedChunks: { text: string; delta: any }[] = [];
         
-        for (let k = 0; k < chapterChunks.length; k++) {
-          const chunk = chapterChunks[k];
+        // Chunks within a chapter share the chapter skeleton and nothing else,
+        // so they are processed in parallel up to the configured concurrency
+        const chunkResults = await runChunksWithConcurrency(chapterChunks, async (chunk, k) => {
           const chunkTargetWords = Math.round(chunk.wordCount * lengthConfig.lengthRatio);
           
           let chunkRecord: any;
@@ -736,7 +831,7 @@ export async function processHccDocument(
             console.log(`[DB] Successfully inserted hccChunks, chunkId: ${chunkRecord.id}`);
           } catch (dbError: any) {
             console.error(`[DB] FAILED to insert hccChunks chunkIndex ${k}:`, dbError.message);
-            continue;
+            return null;
           }
           
           const checkpointCallback = async (chunkIdx: number, output: string) => {
@@ -762,13 +857,11 @@ export async function processHccDocument(
             checkpointCallback
           );
           
-          processedChunks.push({ text: result.processedText, delta: result.delta });
-          
-          if (k < chapterChunks.length - 1) {
-            console.log(`[HCC] Waiting ${CHUNK_DELAY_MS}ms before next chunk...`);
-            await delay(CHUNK_DELAY_MS);
-          }
-        }
+          return { text: result.processedText, delta: result.delta };
+        }, {
+          onProgress: stats => console.log(`[HCC] Chapter ${c}: ${stats.completed}/${stats.total} chunks complete, ${stats.inFlight}/${stats.limit} in flight`)
+        });
+        const processedChunks = chunkResults.filter((r): r is { text: string; delta: any } => r !== null);
         
         const stitchedChapter = await stitchChapter(chapterSkeleton, processedChunks);
         
@@ -801,6 +894,7 @@ export async function processHccDocument(
       }
     }
     
+    signal?.throwIfAborted();
     const finalOutput = allChapterOutputs.join('\n\n');
     const finalWordCount = countWords(finalOutput);
     const elapsedMs = Date.now() - startTime;
@@ -831,6 +925,10 @@ export async function processHccDocument(
   } catch (error: any) {
     const elapsedMs = Date.now() - startTime;
     console.log(`[HCC] Processing FAILED after ${(elapsedMs / 60000).toFixed(1)} minutes: ${error.message}`);
+    // The document now belongs to another worker; leave its status alone
+    if (signal?.aborted) {
+      throw error;
+    }
     
     try {
       console.log(`[DB] Updating hccDocuments to failed status, docId: ${documentId}`);
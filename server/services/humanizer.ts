@@ -1,4 +1,5 @@
 // GPT Bypass Humanizer - Rewrite text to match exact style patterns
+import { completeChat } from './llmProviders';
 
 // Map ZHI names to actual provider names
 function mapZhiToProvider(zhiName: string): string {
@@ -161,120 +162,54 @@ function parseHumanizerResponse(response: string): { rewrittenText: string; styl
 
 // OpenAI API call
 async function callOpenAI(prompt: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-      temperature: 0.7,
-    }),
+  const response = await completeChat('openai', {
+    model: 'gpt-4o',
+    messages: [{ role: 'user', content: prompt }],
+    maxTokens: 4000,
+    temperature: 0.7,
   });
-
-  if (!response.ok) {
-    throw new Error(`OpenAI API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
+  return response.text;
 }
 
 // Anthropic API call  
 async function callAnthropic(prompt: string): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': process.env.ANTHROPIC_API_KEY!,
-      'Content-Type': 'application/json',
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: 'claude-3-7-sonnet-20250219',
-      max_tokens: 4000,
-      messages: [{ role: 'user', content: prompt }]
-    }),
+  const response = await completeChat('anthropic', {
+    model: 'claude-3-7-sonnet-20250219',
+    maxTokens: 4000,
+    messages: [{ role: 'user', content: prompt }],
   });
-
-  if (!response.ok) {
-    throw new Error(`Anthropic API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.content[0].text;
+  return response.text;
 }
 
 // DeepSeek API call
 async function callDeepSeek(prompt: string): Promise<string> {
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.DEEPSEEK_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-chat',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-    }),
+  const response = await completeChat('deepseek', {
+    model: 'deepseek-chat',
+    messages: [{ role: 'user', content: prompt }],
+    maxTokens: 4000,
   });
-
-  if (!response.ok) {
-    throw new Error(`DeepSeek API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
+  return response.text;
 }
 
 // Perplexity API call
 async function callPerplexity(prompt: string): Promise<string> {
-  const response = await fetch('https://api.perplexity.ai/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.PERPLEXITY_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'llama-3.1-sonar-small-128k-online',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-    }),
+  const response = await completeChat('perplexity', {
+    model: 'llama-3.1-sonar-small-128k-online',
+    messages: [{ role: 'user', content: prompt }],
+    maxTokens: 4000,
   });
-
-  if (!response.ok) {
-    throw new Error(`Perplexity API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
+  return response.text;
 }
 
 // Grok API call
 async function callGrok(prompt: string): Promise<string> {
-  const response = await fetch('https://api.x.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.GROK_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'grok-3',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 4000,
-      temperature: 0.7,
-    }),
+  const response = await completeChat('grok', {
+    model: 'grok-3',
+    messages: [{ role: 'user', content: prompt }],
+    maxTokens: 4000,
+    temperature: 0.7,
   });
-
-  if (!response.ok) {
-    throw new Error(`Grok API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
+  return response.text;
 }
 
 // Text chunking for large inputs
@@ -0,0 +1,313 @@
+import {
+  integrationVerdictsSchema,
+  IntegrationSpan,
+  IntegrationStatus,
+  PipelineObjection,
+} from '@shared/schema';
+import { completeChat } from './llmProviders';
+import { logLLMCall, summarizeText } from './auditService';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INTEGRATION VERIFIER
+// Locates where each objection's response landed in the bullet-proof output
+// (section and quote span) by key-term overlap, then has a judge model decide
+// for every objection whether that passage integrates the response, misses
+// it, or contradicts it. Without a judge verdict the lexical match decides.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const KEY_TERMS = 20;
+const MAX_WINDOW_SENTENCES = 3;
+const MIN_COVERAGE = 0.3;
+const JUDGE_MODEL = 'claude-sonnet-4-20250514';
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'also', 'although', 'among', 'because', 'been', 'before',
+  'being', 'below', 'between', 'both', 'cannot', 'could', 'does', 'doing', 'down', 'during', 'each', 'either',
+  'even', 'every', 'from', 'further', 'have', 'having', 'here', 'however', 'into', 'itself', 'just', 'less',
+  'like', 'made', 'make', 'many', 'more', 'most', 'much', 'must', 'neither', 'only', 'other', 'over', 'same',
+  'should', 'since', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'those', 'through', 'thus', 'under', 'until', 'upon', 'very', 'were', 'what', 'when', 'where', 'whether',
+  'which', 'while', 'will', 'with', 'within', 'without', 'would', 'your', 'objection', 'response',
+]);
+
+export interface OutputSection {
+  index: number;
+  title: string;
+  start: number;
+  end: number;
+}
+
+export interface IntegrationVerification {
+  objectionIndex: number;
+  status: IntegrationStatus;
+  span: IntegrationSpan | null;
+  note: string;
+}
+
+export interface IntegrationTraceEntry {
+  objectionIndex: number;
+  objectionType: string | null;
+  severity: string | null;
+  claimTargeted: string | null;
+  strategy: string | null;
+  // 'unverified' for objections finished before verification existed
+  status: IntegrationStatus | 'unverified';
+  section: string | null;
+  span: IntegrationSpan | null;
+  note: string | null;
+}
+
+export interface IntegrationReport {
+  summary: Record<IntegrationStatus | 'unverified' | 'total', number>;
+  objections: IntegrationTraceEntry[];
+}
+
+interface Sentence {
+  start: number;
+  end: number;
+  terms: Set<string>;
+}
+
+function normalizeTerm(word: string): string {
+  const stripped = word.replace(/'s$/, '');
+  return stripped.length > 4 && stripped.endsWith('s') && !stripped.endsWith('ss') ? stripped.slice(0, -1) : stripped;
+}
+
+function contentTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z'-]+/g) || [])
+    .filter(w => w.length >= 4 && !STOPWORDS.has(w))
+    .map(normalizeTerm);
+}
+
+// The response's most frequent content terms, ties broken by first appearance
+function keyTerms(text: string): string[] {
+  const counts = new Map<string, number>();
+  for (const term of contentTerms(text)) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, KEY_TERMS)
+    .map(([term]) => term);
+}
+
+function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  const pattern = /[^.!?\n]+[.!?]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const trimmed = match[0].trim();
+    // Headings name sections; they are not passages
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const start = match.index + match[0].indexOf(trimmed);
+    sentences.push({ start, end: start + trimmed.length, terms: new Set(contentTerms(trimmed)) });
+  }
+  return sentences;
+}
+
+/**
+ * Split the output into sections at markdown headings, or into paragraphs
+ * when it has none. Indices are 1-based.
+ */
+export function splitOutputSections(text: string): OutputSection[] {
+  const headings = Array.from(text.matchAll(/^#{1,6}\s+(.+)$/gm));
+  if (headings.length > 0) {
+    const sections: OutputSection[] = [];
+    if (text.slice(0, headings[0].index).trim()) {
+      sections.push({ index: 1, title: 'Opening', start: 0, end: headings[0].index! });
+    }
+    headings.forEach((heading, i) => {
+      sections.push({
+        index: sections.length + 1,
+        title: heading[1].trim(),
+        start: heading.index!,
+        end: i + 1 < headings.length ? headings[i + 1].index! : text.length,
+      });
+    });
+    return sections;
+  }
+
+  const sections: OutputSection[] = [];
+  const pattern = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    sections.push({
+      index: sections.length + 1,
+      title: `Paragraph ${sections.length + 1}`,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return sections;
+}
+
+function sectionAt(sections: OutputSection[], offset: number): OutputSection | undefined {
+  return sections.find(s => offset >= s.start && offset < s.end) || sections[sections.length - 1];
+}
+
+/**
+ * Find the window of up to three consecutive sentences within one section
+ * that covers most of the response's key terms. Pure: the same inputs always
+ * give the same span.
+ */
+export function locateIntegration(output: string, response: string, sections: OutputSection[] = splitOutputSections(output)): IntegrationSpan | null {
+  const keys = keyTerms(response);
+  if (keys.length === 0) return null;
+  const sentences = splitSentences(output);
+  const sentenceSections = sentences.map(s => sectionAt(sections, s.start));
+
+  let best: { start: number; end: number; hits: number; size: number; section?: OutputSection } | null = null;
+  for (let i = 0; i < sentences.length; i++) {
+    const covered = new Set<string>();
+    for (let size = 1; size <= MAX_WINDOW_SENTENCES && i + size <= sentences.length; size++) {
+      if (sentenceSections[i + size - 1] !== sentenceSections[i]) break;
+      sentences[i + size - 1].terms.forEach(term => covered.add(term));
+      const hits = keys.filter(k => covered.has(k)).length;
+      // On equal coverage the shorter passage is the more precise location
+      if (!best || hits > best.hits || (hits === best.hits && size < best.size)) {
+        best = { start: sentences[i].start, end: sentences[i + size - 1].end, hits, size, section: sentenceSections[i] };
+      }
+    }
+  }
+  if (!best || best.hits === 0) return null;
+
+  return {
+    sectionIndex: best.section?.index ?? 0,
+    sectionTitle: best.section?.title ?? '',
+    start: best.start,
+    end: best.end,
+    quote: output.slice(best.start, best.end),
+    coverage: Math.round((best.hits / keys.length) * 1000) / 1000,
+  };
+}
+
+function responseOf(objection: PipelineObjection): string {
+  return objection.enhancedResponse || objection.initialResponse || '';
+}
+
+async function judgeIntegrations(
+  candidates: { objection: PipelineObjection; span: IntegrationSpan | null }[],
+  jobId?: number
+): Promise<Map<number, { status: IntegrationStatus; reason: string }> | null> {
+  const prompt = `For each objection below, a passage was located in the revised document where its response should have been integrated. Judge each one:
+- "integrated": the passage answers the objection in line with the intended response
+- "unintegrated": the passage does not answer the objection, or no passage was found
+- "contradicted": the passage asserts the opposite of the intended response, or concedes the objection the response rejects
+
+${candidates.map(({ objection, span }) => `OBJECTION ${objection.objectionIndex}: ${(objection.objectionText || '').substring(0, 400)}
+INTENDED RESPONSE: ${responseOf(objection).substring(0, 600)}
+PASSAGE: ${span ? span.quote.substring(0, 1200) : '(no matching passage found)'}
+`).join('\n')}
+Return ONLY a JSON object of this shape, with one verdict per objection:
+{"verdicts": [{"index": 1, "status": "integrated", "reason": "one sentence"}]}`;
+
+  try {
+    const response = await completeChat('anthropic', {
+      system: 'You check whether a revised document actually incorporates planned responses to objections. Judge only from the passages given.',
+      messages: [{ role: 'user', content: prompt }],
+      model: JUDGE_MODEL,
+      maxTokens: 4000,
+      jsonMode: true,
+    });
+
+    const text = response.text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let errorMessage: string | undefined;
+    let verdicts: Map<number, { status: IntegrationStatus; reason: string }> | null = null;
+    try {
+      const parsed = integrationVerdictsSchema.safeParse(JSON.parse(text));
+      if (!parsed.success) {
+        errorMessage = parsed.error.errors.slice(0, 3).map(e => `${e.path.join('.')}: ${e.message}`).join('; ');
+      } else {
+        verdicts = new Map(parsed.data.verdicts.map(v => [v.index, { status: v.status, reason: v.reason }]));
+        const missing = candidates.filter(c => !verdicts!.has(c.objection.objectionIndex));
+        if (missing.length > 0) {
+          errorMessage = `No verdict for objections ${missing.map(c => c.objection.objectionIndex).join(', ')}`;
+        }
+      }
+    } catch (error: any) {
+      errorMessage = `Response is not valid JSON: ${error.message}`;
+    }
+
+    await logLLMCall({
+      jobId,
+      jobType: 'pipeline_integration_check',
+      exchange: response,
+      promptSummary: `Verify integration of ${candidates.length} objections`,
+      promptFull: prompt,
+      responseSummary: summarizeText(response.text, 200),
+      responseFull: response.text,
+      status: errorMessage ? 'invalid' : 'success',
+      errorMessage,
+    });
+
+    if (errorMessage) {
+      console.warn(`[INTEGRATION] Judge response rejected: ${errorMessage}`);
+    }
+    // Partial verdicts are still used; objections without one fall back to the lexical match
+    return verdicts;
+  } catch (error: any) {
+    console.error(`[INTEGRATION] Judge call failed:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Verify that each objection's response appears in the bullet-proof output.
+ */
+export async function verifyIntegrations(
+  output: string,
+  objections: PipelineObjection[],
+  jobId?: number
+): Promise<IntegrationVerification[]> {
+  const sections = splitOutputSections(output);
+  const candidates = objections.map(objection => ({
+    objection,
+    span: locateIntegration(output, responseOf(objection), sections),
+  }));
+  if (candidates.length === 0) return [];
+
+  const verdicts = await judgeIntegrations(candidates, jobId);
+
+  return candidates.map(({ objection, span }) => {
+    const verdict = verdicts?.get(objection.objectionIndex);
+    if (verdict) {
+      return {
+        objectionIndex: objection.objectionIndex,
+        status: verdict.status,
+        span,
+        note: verdict.reason,
+      };
+    }
+    const matched = !!span && span.coverage >= MIN_COVERAGE;
+    return {
+      objectionIndex: objection.objectionIndex,
+      status: matched ? 'integrated' : 'unintegrated',
+      span,
+      note: span
+        ? `No judge verdict; ${Math.round(span.coverage * 100)}% of the response's key terms found in the passage`
+        : `No judge verdict; no passage shares the response's key terms`,
+    };
+  });
+}
+
+/**
+ * Per-objection traceability report from stored verification results.
+ * Excluded objections are left out.
+ */
+export function buildIntegrationReport(objections: PipelineObjection[]): IntegrationReport {
+  const entries = objections.filter(o => !o.excluded).map((o): IntegrationTraceEntry => ({
+    objectionIndex: o.objectionIndex,
+    objectionType: o.objectionType,
+    severity: o.severity,
+    claimTargeted: o.claimTargeted,
+    strategy: o.integrationStrategy,
+    status: (o.integrationStatus as IntegrationStatus | null) || 'unverified',
+    section: o.integratedInSection,
+    span: o.integrationSpan ?? null,
+    note: o.integrationNote,
+  }));
+
+  const summary = { total: entries.length, integrated: 0, unintegrated: 0, contradicted: 0, unverified: 0 };
+  for (const entry of entries) summary[entry.status]++;
+  return { summary, objections: entries };
+}
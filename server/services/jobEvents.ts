@@ -0,0 +1,163 @@
+import type { Response } from 'express';
+import { TERMINAL_JOB_EVENTS, type JobEvent, type DeliveredJobEvent } from '@shared/schema';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB EVENT CHANNELS
+// In-memory, per-user event log for each live job. Producers publish events
+// in the shared JobEvent vocabulary; the WebSocket server and the SSE route
+// subscribe. Events are numbered per job and buffered, so a subscriber that
+// reconnects with the last id it saw gets the rest replayed. A job id is
+// either a CC job id or a client-chosen stream id; channels are keyed by
+// owner as well, so one user can never read another user's job. Stream ids
+// carry their own prefix, so a stream never opens (and resets) a CC job's log.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const JOB_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const STREAM_ID_PREFIX = 'stream-';
+const BUFFER_LIMIT = 2000; // events kept per job for replay
+const RETENTION_MS = 30 * 60 * 1000; // idle channels without subscribers are dropped after this
+
+type JobEventListener = (event: DeliveredJobEvent) => void;
+
+interface JobChannel {
+  nextId: number;
+  buffer: DeliveredJobEvent[];
+  listeners: Set<JobEventListener>;
+  finished: boolean;
+  lastActivity: number;
+}
+
+export interface JobEventSubscription {
+  // Buffered events after the requested id, oldest first
+  missed: DeliveredJobEvent[];
+  // Some events after the requested id have already left the buffer
+  truncated: boolean;
+  finished: boolean;
+  unsubscribe: () => void;
+}
+
+const channels = new Map<string, JobChannel>();
+
+function channelKey(userId: number, jobId: string): string {
+  return `${userId}:${jobId}`;
+}
+
+function pruneChannels(): void {
+  const cutoff = Date.now() - RETENTION_MS;
+  channels.forEach((channel, key) => {
+    if (channel.listeners.size === 0 && channel.lastActivity < cutoff) {
+      channels.delete(key);
+    }
+  });
+}
+
+function getChannel(userId: number, jobId: string): JobChannel {
+  const key = channelKey(userId, jobId);
+  let channel = channels.get(key);
+  if (!channel) {
+    pruneChannels();
+    channel = { nextId: 1, buffer: [], listeners: new Set(), finished: false, lastActivity: Date.now() };
+    channels.set(key, channel);
+  }
+  return channel;
+}
+
+export function isValidJobId(jobId: unknown): jobId is string {
+  return typeof jobId === 'string' && JOB_ID_PATTERN.test(jobId);
+}
+
+// Ids that callers choose for their own streams: "stream-" followed by anything a job id allows
+export function isValidStreamId(streamId: unknown): streamId is string {
+  return isValidJobId(streamId) && streamId.startsWith(STREAM_ID_PREFIX) && streamId.length > STREAM_ID_PREFIX.length;
+}
+
+// Starts a job's log afresh; subscribers that are already waiting stay attached
+export function openJobEvents(userId: number, jobId: string): void {
+  const channel = getChannel(userId, jobId);
+  channel.nextId = 1;
+  channel.buffer = [];
+  channel.finished = false;
+  channel.lastActivity = Date.now();
+}
+
+export function publishJobEvent(userId: number, jobId: string, event: JobEvent): void {
+  const channel = getChannel(userId, jobId);
+  const delivered = { ...event, id: channel.nextId++, jobId, at: new Date().toISOString() } as DeliveredJobEvent;
+
+  channel.buffer.push(delivered);
+  if (channel.buffer.length > BUFFER_LIMIT) {
+    channel.buffer.shift();
+  }
+  channel.lastActivity = Date.now();
+  if (TERMINAL_JOB_EVENTS.includes(event.type)) {
+    channel.finished = true;
+  }
+
+  channel.listeners.forEach(listener => {
+    try {
+      listener(delivered);
+    } catch (error) {
+      console.error(`[JOB-EVENTS] Listener for job ${jobId} failed:`, error);
+    }
+  });
+}
+
+// Subscribing before the job publishes anything is fine: the client usually
+// connects first and then starts the request that produces the events
+export function subscribeJobEvents(userId: number, jobId: string, afterId: number, listener: JobEventListener): JobEventSubscription {
+  const channel = getChannel(userId, jobId);
+  const missed = channel.buffer.filter(event => event.id > afterId);
+  channel.listeners.add(listener);
+
+  return {
+    missed,
+    truncated: missed.length > 0 && missed[0].id > afterId + 1,
+    finished: channel.finished,
+    unsubscribe: () => {
+      channel.listeners.delete(listener);
+      channel.lastActivity = Date.now();
+    }
+  };
+}
+
+// ─── Text streams ──────────────────────────────────────────────────────────
+
+// For routes that stream plain text straight into the response: every write
+// is also published as a `text` event, and the end of the response as
+// `complete` unless fail() was called first
+export function teeResponseToJobEvents(res: Response, userId: number, jobId: string): { fail: (message: string) => void } {
+  if (!isValidStreamId(jobId)) {
+    throw new Error(`Invalid stream id: ${jobId}`);
+  }
+  openJobEvents(userId, jobId);
+  let ended = false;
+
+  const write = res.write.bind(res) as (...args: any[]) => boolean;
+  res.write = ((chunk: any, ...rest: any[]) => {
+    if (!ended && chunk) {
+      publishJobEvent(userId, jobId, { type: 'text', text: typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('utf8') });
+    }
+    return write(chunk, ...rest);
+  }) as Response['write'];
+
+  res.on('finish', () => {
+    if (!ended) {
+      ended = true;
+      publishJobEvent(userId, jobId, { type: 'complete' });
+    }
+  });
+  res.on('close', () => {
+    if (!ended) {
+      ended = true;
+      publishJobEvent(userId, jobId, { type: 'aborted', message: 'Client disconnected' });
+    }
+  });
+
+  return {
+    fail: (message: string) => {
+      if (ended) return;
+      ended = true;
+      publishJobEvent(userId, jobId, { type: 'failed', message });
+    }
+  };
+}
@@ -0,0 +1,162 @@
+import type { Response } from 'express';
+import { db } from '../db';
+import { jobQueue, type JobQueueEntry, type JobQueueType } from '@shared/schema';
+import { eq, and, or, lt, lte, asc, desc, inArray, sql } from 'drizzle-orm';
+import { holdCredits } from '../lib/creditMetering';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB QUEUE
+// Postgres-backed queue for long-running jobs. A worker claims the oldest due
+// row with FOR UPDATE SKIP LOCKED, so several workers can share one queue, and
+// holds it under a lease that its heartbeat keeps extending. Rows whose lease
+// has lapsed are claimable again: the job is resumed by another worker.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const LEASE_MS = 5 * 60 * 1000;
+export const HEARTBEAT_MS = 60 * 1000;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export interface EnqueueJobInput {
+  jobType: JobQueueType;
+  targetId: number;
+  userId?: number | null;
+  creditTransactionId?: number | null;
+  maxAttempts?: number;
+}
+
+export async function enqueueJob(input: EnqueueJobInput): Promise<JobQueueEntry> {
+  const [entry] = await db.insert(jobQueue).values({
+    jobType: input.jobType,
+    targetId: input.targetId,
+    userId: input.userId ?? null,
+    creditTransactionId: input.creditTransactionId ?? null,
+    ...(input.maxAttempts ? { maxAttempts: input.maxAttempts } : {}),
+    status: 'queued'
+  }).returning();
+  console.log(`[JOB-QUEUE] Enqueued ${entry.jobType} ${entry.targetId} as queue job ${entry.id}`);
+  return entry;
+}
+
+// For metered requests: the request's credit reservation moves to the queue
+// row and is settled (or refunded) by the worker when the job ends
+export async function enqueueRequestJob(res: Response, input: Omit<EnqueueJobInput, 'creditTransactionId'>): Promise<JobQueueEntry> {
+  const credits = holdCredits(res);
+  try {
+    return await enqueueJob({ ...input, creditTransactionId: credits.transactionId });
+  } catch (error: any) {
+    await credits.refund(`enqueue failed: ${error.message}`);
+    throw error;
+  }
+}
+
+// Claims the next due job: a queued row whose backoff has elapsed, or a running
+// row whose worker stopped heartbeating. Each claim counts as an attempt.
+export async function claimNextJob(workerId: string, jobTypes?: JobQueueType[]): Promise<JobQueueEntry | null> {
+  return await db.transaction(async (tx) => {
+    const now = new Date();
+    const due = or(
+      and(eq(jobQueue.status, 'queued'), lte(jobQueue.runAfter, now)),
+      and(eq(jobQueue.status, 'running'), lt(jobQueue.leaseExpiresAt, now))
+    );
+    const [next] = await tx.select({ id: jobQueue.id })
+      .from(jobQueue)
+      .where(jobTypes?.length ? and(due, inArray(jobQueue.jobType, jobTypes)) : due)
+      .orderBy(asc(jobQueue.runAfter), asc(jobQueue.id))
+      .limit(1)
+      .for('update', { skipLocked: true });
+    if (!next) return null;
+
+    const [claimed] = await tx.update(jobQueue)
+      .set({
+        status: 'running',
+        attempts: sql`${jobQueue.attempts} + 1`,
+        leaseOwner: workerId,
+        leaseExpiresAt: new Date(now.getTime() + LEASE_MS),
+        heartbeatAt: now,
+        updatedAt: now
+      })
+      .where(eq(jobQueue.id, next.id))
+      .returning();
+    return claimed;
+  });
+}
+
+// Extends the lease. Returns false if this worker no longer holds the job.
+export async function heartbeatJob(id: number, workerId: string): Promise<boolean> {
+  const now = new Date();
+  const renewed = await db.update(jobQueue)
+    .set({ heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + LEASE_MS), updatedAt: now })
+    .where(and(eq(jobQueue.id, id), eq(jobQueue.leaseOwner, workerId), eq(jobQueue.status, 'running')))
+    .returning({ id: jobQueue.id });
+  return renewed.length > 0;
+}
+
+// Returns false if this worker no longer holds the job, which is then left to its new owner
+export async function completeJob(id: number, workerId: string): Promise<boolean> {
+  const now = new Date();
+  const completed = await db.update(jobQueue)
+    .set({ status: 'completed', leaseOwner: null, leaseExpiresAt: null, completedAt: now, updatedAt: now })
+    .where(and(eq(jobQueue.id, id), eq(jobQueue.leaseOwner, workerId), eq(jobQueue.status, 'running')))
+    .returning({ id: jobQueue.id });
+  return completed.length > 0;
+}
+
+// Hands a job back without counting the attempt, for a worker that is shutting down
+export async function releaseJob(id: number, workerId: string): Promise<void> {
+  const now = new Date();
+  await db.update(jobQueue)
+    .set({
+      status: 'queued',
+      attempts: sql`greatest(${jobQueue.attempts} - 1, 0)`,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      runAfter: now,
+      updatedAt: now
+    })
+    .where(and(eq(jobQueue.id, id), eq(jobQueue.leaseOwner, workerId), eq(jobQueue.status, 'running')));
+}
+
+// Exponential backoff with jitter: 30s, 60s, 120s, ... capped at 30 minutes
+export function retryDelayMs(attempts: number): number {
+  const base = Math.min(RETRY_BASE_MS * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+// Schedules another attempt, or dead-letters the job once its attempts are used up.
+// 'lost' means this worker no longer holds the job and nothing was changed.
+export async function failJob(entry: JobQueueEntry, workerId: string, errorMessage: string): Promise<'retry' | 'dead' | 'lost'> {
+  const now = new Date();
+  const outcome = entry.attempts >= entry.maxAttempts ? 'dead' : 'retry';
+  const failed = await db.update(jobQueue)
+    .set({
+      status: outcome === 'dead' ? 'dead' : 'queued',
+      lastError: errorMessage,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      runAfter: outcome === 'dead' ? entry.runAfter : new Date(now.getTime() + retryDelayMs(entry.attempts)),
+      completedAt: outcome === 'dead' ? now : null,
+      updatedAt: now
+    })
+    .where(and(eq(jobQueue.id, entry.id), eq(jobQueue.leaseOwner, workerId), eq(jobQueue.status, 'running')))
+    .returning({ id: jobQueue.id });
+  return failed.length > 0 ? outcome : 'lost';
+}
+
+// The most recent queue row for a job, if it was ever enqueued
+export async function getQueueEntry(jobType: JobQueueType, targetId: number): Promise<JobQueueEntry | null> {
+  const [entry] = await db.select()
+    .from(jobQueue)
+    .where(and(eq(jobQueue.jobType, jobType), eq(jobQueue.targetId, targetId)))
+    .orderBy(desc(jobQueue.id))
+    .limit(1);
+  return entry || null;
+}
+
+export async function listDeadJobs(limit: number = 100): Promise<JobQueueEntry[]> {
+  return await db.select()
+    .from(jobQueue)
+    .where(eq(jobQueue.status, 'dead'))
+    .orderBy(desc(jobQueue.updatedAt))
+    .limit(limit);
+}
@@ -0,0 +1,239 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { pipelineJobs, reconstructionDocuments, hccDocuments, type JobQueueEntry, type JobQueueType } from '@shared/schema';
+import { claimNextJob, heartbeatJob, completeJob, failJob, releaseJob, HEARTBEAT_MS } from './jobQueue';
+import { runWithLLMContext } from './llmContext';
+import { settleCreditTransaction, refundCreditTransaction } from '../lib/creditMetering';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB WORKER
+// Claims jobs from job_queue and runs them outside any HTTP request. Every
+// handler resumes from the state in the database, so the same code path
+// starts a fresh job and continues one whose previous worker died. Runs
+// embedded in the web server by default, or standalone via server/worker.ts.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_POLL_MS = 5000;
+
+interface JobHandler {
+  // The LLM context job type that llm_calls rows are recorded under
+  llmJobType: string;
+  // signal is aborted once the worker loses the job's lease; the handler
+  // stops at its next checkpoint and leaves the job to its new owner
+  run(targetId: number, signal: AbortSignal): Promise<void>;
+  // Puts the job's own row back into a waiting state while a retry is pending,
+  // or into its final failed state once the job is dead-lettered
+  markRetrying(targetId: number, error: string): Promise<void>;
+  markDead(targetId: number, error: string): Promise<void>;
+}
+
+const HANDLERS: Record<JobQueueType, JobHandler> = {
+  pipeline: {
+    llmJobType: 'pipeline',
+    async run(targetId, signal) {
+      const { resumePipeline } = await import('./pipelineOrchestrator');
+      const result = await resumePipeline(targetId, undefined, signal);
+      if (!result.success) {
+        throw new Error(result.error || 'Pipeline failed');
+      }
+    },
+    async markRetrying(targetId, error) {
+      await db.update(pipelineJobs)
+        .set({ status: 'queued', errorMessage: error, updatedAt: new Date() })
+        .where(eq(pipelineJobs.id, targetId));
+    },
+    async markDead(targetId, error) {
+      await db.update(pipelineJobs)
+        .set({ status: 'failed', errorMessage: error, updatedAt: new Date() })
+        .where(eq(pipelineJobs.id, targetId));
+    }
+  },
+  reconstruction: {
+    llmJobType: 'reconstruction_document',
+    async run(targetId, signal) {
+      const { runReconstructionSession } = await import('./dbEnforcedReconstruction');
+      // An aborted session ends the job normally: the user keeps the partial output
+      await runReconstructionSession(targetId, undefined, signal);
+    },
+    async markRetrying(targetId, error) {
+      await db.update(reconstructionDocuments)
+        .set({ status: 'queued', errorMessage: error, updatedAt: new Date() })
+        .where(eq(reconstructionDocuments.id, targetId));
+    },
+    async markDead(targetId, error) {
+      await db.update(reconstructionDocuments)
+        .set({ status: 'failed', errorMessage: error, updatedAt: new Date() })
+        .where(eq(reconstructionDocuments.id, targetId));
+    }
+  },
+  hcc: {
+    llmJobType: 'hcc_document',
+    async run(targetId, signal) {
+      const { resumeHccDocument } = await import('./hccService');
+      const result = await resumeHccDocument(targetId, signal);
+      if (!result.success) {
+        throw new Error(result.error || 'HCC processing failed');
+      }
+    },
+    async markRetrying(targetId) {
+      await db.update(hccDocuments)
+        .set({ status: 'queued', updatedAt: new Date() })
+        .where(eq(hccDocuments.id, targetId));
+    },
+    async markDead(targetId) {
+      await db.update(hccDocuments)
+        .set({ status: 'failed', updatedAt: new Date() })
+        .where(eq(hccDocuments.id, targetId));
+    }
+  },
+  calibration: {
+    llmJobType: 'calibration_run',
+    async run(targetId, signal) {
+      const { resumeCalibrationRun } = await import('./calibration');
+      const run = await resumeCalibrationRun(targetId, signal);
+      if (run.status === 'failed') {
+        throw new Error(run.errorMessage || 'Calibration run failed');
+      }
+    },
+    async markRetrying(targetId, error) {
+      const { markCalibrationRunStatus } = await import('./calibration');
+      await markCalibrationRunStatus(targetId, 'queued', error);
+    },
+    async markDead(targetId, error) {
+      const { markCalibrationRunStatus } = await import('./calibration');
+      await markCalibrationRunStatus(targetId, 'failed', error);
+    }
+  }
+};
+
+export interface JobWorkerOptions {
+  // Jobs run side by side; each one is a long sequential LLM loop
+  concurrency?: number;
+  pollIntervalMs?: number;
+  jobTypes?: JobQueueType[];
+}
+
+export interface JobWorker {
+  id: string;
+  // Stops claiming jobs and hands the running ones back to the queue, so
+  // another worker resumes them right away; the process should exit after this
+  stop(): Promise<void>;
+}
+
+// JOB_WORKER=external leaves the queue to a separately started worker process
+export function isEmbeddedWorkerEnabled(): boolean {
+  return process.env.JOB_WORKER?.trim().toLowerCase() !== 'external';
+}
+
+async function runJob(entry: JobQueueEntry, workerId: string): Promise<void> {
+  const handler = HANDLERS[entry.jobType as JobQueueType];
+  const label = `${entry.jobType} ${entry.targetId} (queue job ${entry.id}, attempt ${entry.attempts}/${entry.maxAttempts})`;
+
+  // Another worker may claim the job once the lease lapses, so losing it stops this run
+  const lease = new AbortController();
+  const heartbeat = setInterval(() => {
+    heartbeatJob(entry.id, workerId)
+      .then(held => {
+        if (!held && !lease.signal.aborted) {
+          console.warn(`[JOB-WORKER] Lost the lease on ${label}, abandoning it`);
+          lease.abort(new Error('Lost the job lease'));
+        }
+      })
+      .catch(error => console.error(`[JOB-WORKER] Heartbeat failed for ${label}:`, error.message));
+  }, HEARTBEAT_MS);
+
+  try {
+    if (!handler) {
+      throw new Error(`Unknown job type: ${entry.jobType}`);
+    }
+    // A lease that lapsed after the last attempt was claimed once more; give up on it
+    if (entry.attempts > entry.maxAttempts) {
+      throw new Error(entry.lastError || 'Worker stopped responding on every attempt');
+    }
+
+    console.log(`[JOB-WORKER] Running ${label}`);
+    await runWithLLMContext({
+      mode: 'record',
+      jobId: entry.targetId,
+      jobType: handler.llmJobType,
+      userId: entry.userId ?? undefined,
+      creditTransactionId: entry.creditTransactionId ?? undefined,
+      signal: lease.signal
+    }, () => handler.run(entry.targetId, lease.signal));
+
+    // The job's new owner completes and settles it
+    if (!await completeJob(entry.id, workerId)) {
+      console.warn(`[JOB-WORKER] Finished ${label} after losing its lease, leaving it to the new owner`);
+      return;
+    }
+    if (entry.creditTransactionId) {
+      await settleCreditTransaction(entry.creditTransactionId);
+    }
+    console.log(`[JOB-WORKER] Completed ${label}`);
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const outcome = await failJob(entry, workerId, message);
+    if (outcome === 'lost') {
+      console.warn(`[JOB-WORKER] Abandoned ${label} after losing its lease: ${message}`);
+    } else if (outcome === 'dead') {
+      console.error(`[JOB-WORKER] Dead-lettered ${label}: ${message}`);
+      await handler?.markDead(entry.targetId, message);
+      if (entry.creditTransactionId) {
+        await refundCreditTransaction(entry.creditTransactionId, message);
+      }
+    } else {
+      console.warn(`[JOB-WORKER] ${label} failed, will retry: ${message}`);
+      await handler?.markRetrying(entry.targetId, message);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+export function startJobWorker(options: JobWorkerOptions = {}): JobWorker {
+  const id = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const concurrency = Math.max(1, options.concurrency ?? (parseInt(process.env.JOB_WORKER_CONCURRENCY || '') || 2));
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_MS;
+  const running = new Map<number, Promise<void>>();
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const poll = async () => {
+    timer = null;
+    try {
+      while (!stopped && running.size < concurrency) {
+        const entry = await claimNextJob(id, options.jobTypes);
+        if (!entry) break;
+        const job = runJob(entry, id)
+          .catch(error => console.error(`[JOB-WORKER] Queue job ${entry.id} crashed:`, error))
+          .finally(() => {
+            running.delete(entry.id);
+            if (!stopped && !timer) timer = setTimeout(poll, 0);
+          });
+        running.set(entry.id, job);
+      }
+    } catch (error: any) {
+      console.error('[JOB-WORKER] Polling failed:', error.message);
+    }
+    if (!stopped && !timer) {
+      timer = setTimeout(poll, pollIntervalMs);
+    }
+  };
+
+  console.log(`[JOB-WORKER] Worker ${id} started (concurrency ${concurrency})`);
+  timer = setTimeout(poll, 0);
+
+  return {
+    id,
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await Promise.all(Array.from(running.keys(), queueId =>
+        releaseJob(queueId, id).catch(error => console.error(`[JOB-WORKER] Failed to release queue job ${queueId}:`, error.message))
+      ));
+      console.log(`[JOB-WORKER] Worker ${id} stopped, released ${running.size} running jobs`);
+    }
+  };
+}
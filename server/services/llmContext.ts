@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LLM RUN CONTEXT
+// Carries the job a chain of LLM calls belongs to through async code, so the
+// provider registry and the audit log can attribute, record and replay calls
+// without every service threading a jobId through its signatures.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type LLMRunMode = 'record' | 'replay';
+
+export interface LLMRunContext {
+  mode: LLMRunMode;
+  jobId?: number;
+  jobType?: string;
+  userId?: number;
+  // Replay only: the job whose recorded llm_calls answer this run's requests
+  sourceJobId?: number;
+  // Replay only: llm_calls.job_type patterns (SQL LIKE) the source job logged under.
+  // Job ids are only unique per kind of job, so recordings match on both.
+  sourceJobTypes?: string[];
+  // Replay only: how many recordings of each prompt hash have been used so far
+  consumed: Map<string, number>;
+  // Metered requests: the credit reservation that llm_calls rows are billed to
+  creditTransactionId?: number;
+  // Job worker runs: aborted once the worker loses the job's lease, after
+  // which no further calls are made on the job's behalf
+  signal?: AbortSignal;
+}
+
+const storage = new AsyncLocalStorage<LLMRunContext>();
+
+export function getLLMContext(): LLMRunContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithLLMContext<T>(
+  context: Omit<LLMRunContext, 'consumed'>,
+  fn: () => Promise<T>
+): Promise<T> {
+  // A job started inside a metered request stays billed to that request
+  const creditTransactionId = context.creditTransactionId ?? storage.getStore()?.creditTransactionId;
+  return storage.run({ ...context, creditTransactionId, consumed: new Map() }, fn);
+}
+
+// Runs fn inside the current context, or a fresh recording context if none is active
+export function ensureLLMContext<T>(fn: () => Promise<T>): Promise<T> {
+  if (storage.getStore()) return fn();
+  return runWithLLMContext({ mode: 'record' }, fn);
+}
+
+// Attaches the job created partway through a run (e.g. an HCC document row) to the context
+export function bindLLMJob(jobId: number, jobType: string): void {
+  const context = storage.getStore();
+  if (context) {
+    context.jobId = jobId;
+    context.jobType = jobType;
+  }
+}
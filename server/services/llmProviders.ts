@@ -0,0 +1,365 @@
+import OpenAI from "openai";
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { readFileSync, existsSync } from 'fs';
+import { getLLMContext } from './llmContext';
+import { acquireProviderCapacity } from './llmRateLimiter';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LLM PROVIDER REGISTRY
+// Single place where provider clients are created. Every service routes its
+// chat calls through completeChat() so that the whole app can be pointed at a
+// local OpenAI-compatible server (llama.cpp, Ollama, vLLM) or the offline mock.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ProviderName = 'openai' | 'anthropic' | 'deepseek' | 'grok' | 'perplexity' | 'local' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  system?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  // Anthropic only: token budget for extended thinking; ignored by other providers
+  thinkingBudget?: number;
+}
+
+export interface ChatResponse {
+  text: string;
+  provider: ProviderName;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs: number;
+  citations?: string[];
+  // 'stop' for a complete answer, 'length' when the token limit cut it off
+  finishReason?: string;
+  promptHash: string;
+  request: ChatRequest;
+  // True when the response came from a recorded llm_calls row instead of a provider
+  replayed?: boolean;
+}
+
+export type ProviderChatResult = Omit<ChatResponse, 'latencyMs' | 'promptHash' | 'request' | 'replayed'>;
+
+export interface LLMProvider {
+  name: ProviderName;
+  defaultModel: string;
+  isConfigured(): boolean;
+  chat(request: ChatRequest): Promise<ProviderChatResult>;
+}
+
+// Provider priority order for failover (most preferred first)
+export const PROVIDER_PRIORITY: ProviderName[] = ['openai', 'anthropic', 'deepseek', 'grok', 'local'];
+
+const providers = new Map<ProviderName, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getProvider(name: string): LLMProvider {
+  const provider = providers.get(name as ProviderName);
+  if (!provider) {
+    throw new Error(`Unknown provider: ${name}`);
+  }
+  return provider;
+}
+
+// LLM_PROVIDER_OVERRIDE=local|mock sends every call to that provider regardless
+// of what the caller asked for, which is how the pipeline runs offline.
+export function resolveProviderName(requested: string): ProviderName {
+  const override = process.env.LLM_PROVIDER_OVERRIDE?.trim();
+  if (override) {
+    return getProvider(override).name;
+  }
+  return getProvider(requested).name;
+}
+
+export function isProviderConfigured(name: string): boolean {
+  const provider = providers.get(name as ProviderName);
+  return !!provider && provider.isConfigured();
+}
+
+// Get configured providers in priority order
+export function getConfiguredProviders(): ProviderName[] {
+  if (process.env.LLM_PROVIDER_OVERRIDE) {
+    return [resolveProviderName(process.env.LLM_PROVIDER_OVERRIDE)];
+  }
+  return PROVIDER_PRIORITY.filter(p => isProviderConfigured(p));
+}
+
+export function getDefaultModel(name: string): string {
+  return getProvider(resolveProviderName(name)).defaultModel;
+}
+
+export async function completeChat(providerName: string, request: ChatRequest): Promise<ChatResponse> {
+  const promptHash = hashChatRequest(request);
+  const startTime = Date.now();
+
+  // In replay mode the recorded response is authoritative; no provider is contacted
+  const context = getLLMContext();
+  context?.signal?.throwIfAborted();
+  if (context?.mode === 'replay') {
+    const { findRecordedResponse } = await import('./llmReplay');
+    const recorded = await findRecordedResponse(context, promptHash);
+    return { ...recorded, latencyMs: Date.now() - startTime, promptHash, request, replayed: true };
+  }
+
+  const provider = getProvider(resolveProviderName(providerName));
+  // A model id only means something to the provider it was written for
+  const model = provider.name === providerName ? request.model : undefined;
+
+  const inputEstimate = estimateInputTokens(request);
+  const reservation = await acquireProviderCapacity(provider.name, inputEstimate + (request.maxTokens || 1024));
+  try {
+    const result = await provider.chat({ ...request, model });
+    reservation.settle(result.inputTokens !== undefined || result.outputTokens !== undefined
+      ? (result.inputTokens || 0) + (result.outputTokens || 0)
+      : undefined);
+    return { ...result, latencyMs: Date.now() - startTime, promptHash, request };
+  } catch (error) {
+    reservation.settle(inputEstimate);
+    throw error;
+  }
+}
+
+// Rough count (4 characters per token) used to reserve rate-limit budget before a call
+function estimateInputTokens(request: ChatRequest): number {
+  const chars = (request.system || '').length + request.messages.reduce((n, m) => n + m.content.length, 0);
+  return Math.ceil(chars / 4);
+}
+
+// Convenience wrapper for the common single-prompt case
+export async function completePrompt(
+  providerName: string,
+  prompt: string,
+  options: Omit<ChatRequest, 'messages'> = {}
+): Promise<ChatResponse> {
+  return completeChat(providerName, { ...options, messages: [{ role: 'user', content: prompt }] });
+}
+
+// Identifies a request by what was asked, not by who answered it, so a prompt
+// recorded against one provider can be replayed or mocked under any other
+export function hashChatRequest(request: ChatRequest): string {
+  const payload = JSON.stringify({
+    system: request.system || '',
+    messages: request.messages.map(m => [m.role, m.content])
+  });
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPENAI-COMPATIBLE PROVIDERS (OpenAI, DeepSeek, Grok, Perplexity, local)
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toOpenAIMessages(request: ChatRequest): ChatMessage[] {
+  const messages = request.messages.filter(m => m.role !== 'system' || !request.system);
+  return request.system ? [{ role: 'system', content: request.system }, ...messages] : messages;
+}
+
+function createOpenAICompatibleProvider(config: {
+  name: ProviderName;
+  defaultModel: () => string;
+  apiKey: () => string | undefined;
+  baseURL: () => string | undefined;
+  requiresApiKey: boolean;
+}): LLMProvider {
+  let client: OpenAI | null = null;
+  let clientKey = '';
+
+  const getClient = (): OpenAI => {
+    const apiKey = config.apiKey();
+    const baseURL = config.baseURL();
+    const key = `${apiKey}|${baseURL}`;
+    if (!client || clientKey !== key) {
+      if (config.requiresApiKey && !apiKey) {
+        throw new Error(`${config.name.toUpperCase()} API key is not configured`);
+      }
+      client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL });
+      clientKey = key;
+    }
+    return client;
+  };
+
+  return {
+    name: config.name,
+    get defaultModel() {
+      return config.defaultModel();
+    },
+    isConfigured: () => config.requiresApiKey ? !!config.apiKey() : !!config.baseURL(),
+    async chat(request) {
+      const model = request.model || config.defaultModel();
+      const response = await getClient().chat.completions.create({
+        model,
+        messages: toOpenAIMessages(request),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      });
+      return {
+        text: response.choices[0]?.message?.content || '',
+        provider: config.name,
+        model,
+        inputTokens: response.usage?.prompt_tokens,
+        outputTokens: response.usage?.completion_tokens,
+        finishReason: response.choices[0]?.finish_reason,
+        // Perplexity returns its sources alongside the completion
+        citations: (response as any).citations
+      };
+    }
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ANTHROPIC
+// ═══════════════════════════════════════════════════════════════════════════
+
+function createAnthropicProvider(): LLMProvider {
+  let client: Anthropic | null = null;
+
+  const getClient = (): Anthropic => {
+    if (!client) {
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY is not configured');
+      }
+      client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return client;
+  };
+
+  return {
+    name: 'anthropic',
+    defaultModel: 'claude-sonnet-4-20250514',
+    isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+    async chat(request) {
+      const model = request.model || this.defaultModel;
+      const system = request.system
+        || request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+        || undefined;
+      const response = await getClient().messages.create({
+        model,
+        max_tokens: request.maxTokens || 4096,
+        temperature: request.temperature,
+        ...(request.thinkingBudget ? { thinking: { type: 'enabled' as const, budget_tokens: request.thinkingBudget } } : {}),
+        system,
+        messages: request.messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+      });
+      // With extended thinking the answer follows the thinking blocks
+      const textBlock = response.content.find(block => block.type === 'text');
+      return {
+        text: textBlock?.type === 'text' ? textBlock.text : '',
+        provider: 'anthropic',
+        model,
+        inputTokens: response.usage?.input_tokens,
+        outputTokens: response.usage?.output_tokens,
+        finishReason: response.stop_reason === 'end_turn' ? 'stop'
+          : response.stop_reason === 'max_tokens' ? 'length'
+          : response.stop_reason || undefined
+      };
+    }
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MOCK PROVIDER
+// Deterministic responses for offline runs and tests. Recorded responses are
+// looked up by request hash (see hashChatRequest), first from responses added
+// with recordMockResponse(), then from the JSON file at MOCK_LLM_RESPONSES_FILE
+// ({ "<hash>": "<response text>" }). Unrecorded requests get a stable
+// placeholder derived from the hash so repeated runs produce identical output.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const mockResponses = new Map<string, string>();
+let mockFileCache: { path: string; responses: Record<string, string> } | null = null;
+
+export function recordMockResponse(request: ChatRequest, text: string): string {
+  const hash = hashChatRequest(request);
+  mockResponses.set(hash, text);
+  return hash;
+}
+
+export function clearMockResponses(): void {
+  mockResponses.clear();
+  mockFileCache = null;
+}
+
+function loadMockFile(): Record<string, string> {
+  const path = process.env.MOCK_LLM_RESPONSES_FILE;
+  if (!path || !existsSync(path)) return {};
+  if (!mockFileCache || mockFileCache.path !== path) {
+    mockFileCache = { path, responses: JSON.parse(readFileSync(path, 'utf-8')) };
+  }
+  return mockFileCache.responses;
+}
+
+function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    defaultModel: 'mock-deterministic',
+    isConfigured: () => true,
+    async chat(request) {
+      const hash = hashChatRequest(request);
+      const recorded = mockResponses.get(hash) ?? loadMockFile()[hash];
+      const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+      const text = recorded ?? (request.jsonMode
+        ? JSON.stringify({ mock: true, hash: hash.substring(0, 16) })
+        : `[MOCK ${hash.substring(0, 16)}] ${lastUser.substring(0, 200)}`);
+      return {
+        text,
+        provider: 'mock',
+        model: request.model || 'mock-deterministic',
+        inputTokens: Math.ceil(request.messages.reduce((n, m) => n + m.content.length, 0) / 4),
+        outputTokens: Math.ceil(text.length / 4),
+        finishReason: 'stop'
+      };
+    }
+  };
+}
+
+registerProvider(createOpenAICompatibleProvider({
+  name: 'openai',
+  defaultModel: () => "gpt-4o",
+  apiKey: () => process.env.OPENAI_API_KEY,
+  baseURL: () => undefined,
+  requiresApiKey: true
+}));
+registerProvider(createAnthropicProvider());
+registerProvider(createOpenAICompatibleProvider({
+  name: 'deepseek',
+  defaultModel: () => "deepseek-chat",
+  apiKey: () => process.env.DEEPSEEK_API_KEY,
+  baseURL: () => 'https://api.deepseek.com',
+  requiresApiKey: true
+}));
+registerProvider(createOpenAICompatibleProvider({
+  name: 'grok',
+  defaultModel: () => "grok-3-latest",
+  apiKey: () => process.env.GROK_API_KEY,
+  baseURL: () => 'https://api.x.ai/v1',
+  requiresApiKey: true
+}));
+registerProvider(createOpenAICompatibleProvider({
+  name: 'perplexity',
+  defaultModel: () => "llama-3.1-sonar-small-128k-online",
+  apiKey: () => process.env.PERPLEXITY_API_KEY,
+  baseURL: () => 'https://api.perplexity.ai',
+  requiresApiKey: true
+}));
+// Local OpenAI-compatible server, e.g. LOCAL_LLM_BASE_URL=http://localhost:11434/v1
+registerProvider(createOpenAICompatibleProvider({
+  name: 'local',
+  defaultModel: () => process.env.LOCAL_LLM_MODEL || "llama3.1",
+  apiKey: () => process.env.LOCAL_LLM_API_KEY,
+  baseURL: () => process.env.LOCAL_LLM_BASE_URL,
+  requiresApiKey: false
+}));
+registerProvider(createMockProvider());
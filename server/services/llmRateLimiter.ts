@@ -0,0 +1,147 @@
+import type { ProviderName } from './llmProviders';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PER-PROVIDER RATE LIMITS
+// Sliding one-minute window of requests and tokens per provider. completeChat
+// reserves capacity before each call, so parallel chunk workers queue here
+// instead of tripping the provider's 429s. Budgets come from
+// LLM_RPM_<PROVIDER> / LLM_TPM_<PROVIDER> (0 disables a limit).
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ProviderBudget {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface CapacityReservation {
+  // Replaces the estimate with the tokens the call actually used
+  settle(actualTokens?: number): void;
+}
+
+const WINDOW_MS = 60_000;
+
+const DEFAULT_BUDGETS: Partial<Record<ProviderName, ProviderBudget>> = {
+  anthropic: { requestsPerMinute: 50, tokensPerMinute: 400_000 },
+  openai: { requestsPerMinute: 500, tokensPerMinute: 800_000 },
+  deepseek: { requestsPerMinute: 60, tokensPerMinute: 400_000 },
+  grok: { requestsPerMinute: 60, tokensPerMinute: 400_000 },
+  perplexity: { requestsPerMinute: 50, tokensPerMinute: 200_000 }
+};
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+interface ProviderWindow {
+  entries: WindowEntry[];
+  // Tail of the FIFO chain of callers waiting for capacity
+  queue: Promise<void>;
+  waiting: number;
+}
+
+const windows = new Map<ProviderName, ProviderWindow>();
+
+function readLimit(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = parseInt(raw, 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getProviderBudget(provider: ProviderName): ProviderBudget {
+  const defaults = DEFAULT_BUDGETS[provider] || { requestsPerMinute: 0, tokensPerMinute: 0 };
+  const key = provider.toUpperCase();
+  return {
+    requestsPerMinute: readLimit(`LLM_RPM_${key}`, defaults.requestsPerMinute),
+    tokensPerMinute: readLimit(`LLM_TPM_${key}`, defaults.tokensPerMinute)
+  };
+}
+
+function getWindow(provider: ProviderName): ProviderWindow {
+  let window = windows.get(provider);
+  if (!window) {
+    window = { entries: [], queue: Promise.resolve(), waiting: 0 };
+    windows.set(provider, window);
+  }
+  return window;
+}
+
+function prune(window: ProviderWindow, now: number): void {
+  while (window.entries.length > 0 && now - window.entries[0].time >= WINDOW_MS) {
+    window.entries.shift();
+  }
+}
+
+// Milliseconds until the request fits the budget, or 0 if it fits now.
+// A single request larger than the whole token budget is let through on an
+// empty window rather than blocking forever.
+function waitTime(window: ProviderWindow, budget: ProviderBudget, tokens: number, now: number): number {
+  prune(window, now);
+  if (window.entries.length === 0) return 0;
+
+  const usedTokens = window.entries.reduce((sum, e) => sum + e.tokens, 0);
+  const requestsOk = !budget.requestsPerMinute || window.entries.length < budget.requestsPerMinute;
+  const tokensOk = !budget.tokensPerMinute || usedTokens + tokens <= budget.tokensPerMinute;
+  if (requestsOk && tokensOk) return 0;
+
+  return Math.max(50, window.entries[0].time + WINDOW_MS - now);
+}
+
+export async function acquireProviderCapacity(
+  provider: ProviderName,
+  estimatedTokens: number
+): Promise<CapacityReservation> {
+  const budget = getProviderBudget(provider);
+  if (!budget.requestsPerMinute && !budget.tokensPerMinute) {
+    return { settle: () => {} };
+  }
+
+  const window = getWindow(provider);
+  let entry!: WindowEntry;
+
+  window.waiting++;
+  const turn = window.queue.then(async () => {
+    let wait = waitTime(window, budget, estimatedTokens, Date.now());
+    if (wait > 0) {
+      console.log(`[RateLimit] ${provider}: budget exhausted (${budget.requestsPerMinute} rpm / ${budget.tokensPerMinute} tpm), waiting ${wait}ms`);
+    }
+    while (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+      wait = waitTime(window, budget, estimatedTokens, Date.now());
+    }
+    entry = { time: Date.now(), tokens: estimatedTokens };
+    window.entries.push(entry);
+  });
+  window.queue = turn.catch(() => {});
+
+  try {
+    await turn;
+  } finally {
+    window.waiting--;
+  }
+
+  return {
+    settle(actualTokens?: number) {
+      if (actualTokens !== undefined && actualTokens >= 0) {
+        entry.tokens = actualTokens;
+      }
+    }
+  };
+}
+
+export function getRateLimiterStats(provider: ProviderName): {
+  budget: ProviderBudget;
+  requestsInWindow: number;
+  tokensInWindow: number;
+  waiting: number;
+} {
+  const window = getWindow(provider);
+  prune(window, Date.now());
+  return {
+    budget: getProviderBudget(provider),
+    requestsInWindow: window.entries.length,
+    tokensInWindow: window.entries.reduce((sum, e) => sum + e.tokens, 0),
+    waiting: window.waiting
+  };
+}
@@ -0,0 +1,186 @@
+import { db } from '../db';
+import {
+  llmCalls, pipelineJobs, reconstructionProjects, hccDocuments, PipelineStageDefinition
+} from '@shared/schema';
+import { eq, and, or, asc, like } from 'drizzle-orm';
+import type { ProviderChatResult, ProviderName } from './llmProviders';
+import { runWithLLMContext, getLLMContext, LLMRunContext } from './llmContext';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LLM RECORD / REPLAY
+// Every call logged through logLLMCall with an exchange stores its full request
+// and response under a prompt hash. A replay run re-executes a job with the
+// same inputs while completeChat answers each request from those recordings,
+// so pipeline and reconstruction regressions can be checked without a provider.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const REPLAY_JOB_TYPES = ['pipeline', 'reconstruction', 'hcc'] as const;
+export type ReplayJobType = typeof REPLAY_JOB_TYPES[number];
+
+// llm_calls.job_type values (SQL LIKE patterns) each kind of job logs its calls under
+const RECORDED_JOB_TYPES: Record<ReplayJobType, string[]> = {
+  pipeline: ['pipeline%'],
+  reconstruction: ['reconstruction_project%'],
+  hcc: ['hcc%'],
+};
+
+export interface ReplayOutcome {
+  sourceJobId: number;
+  replayJobId?: number;
+  success: boolean;
+  // Output name -> whether the replayed output is identical to the recorded run's
+  matches: Record<string, boolean>;
+  replayedCalls: number;
+  error?: string;
+}
+
+// Returns the next unused recording of this prompt. Identical prompts within a
+// job (retries, repeated sections) are served in the order they were recorded.
+export async function findRecordedResponse(context: LLMRunContext, promptHash: string): Promise<ProviderChatResult> {
+  const index = context.consumed.get(promptHash) ?? 0;
+  context.consumed.set(promptHash, index + 1);
+
+  const conditions = [eq(llmCalls.promptHash, promptHash), eq(llmCalls.replayed, false)];
+  if (context.sourceJobId !== undefined) {
+    conditions.push(eq(llmCalls.jobId, context.sourceJobId));
+  }
+  if (context.sourceJobTypes?.length) {
+    conditions.push(or(...context.sourceJobTypes.map(pattern => like(llmCalls.jobType, pattern)))!);
+  }
+
+  const [recorded] = await db.select()
+    .from(llmCalls)
+    .where(and(...conditions))
+    .orderBy(asc(llmCalls.id))
+    .limit(1)
+    .offset(index);
+
+  if (!recorded || !recorded.responseBody) {
+    throw new Error(
+      `[Replay] No recorded response #${index + 1} for prompt ${promptHash.substring(0, 12)}` +
+      (context.sourceJobId !== undefined ? ` in job ${context.sourceJobId}` : '') +
+      ' - the prompt differs from the recorded run'
+    );
+  }
+
+  const body = recorded.responseBody as {
+    text: string;
+    provider: ProviderName;
+    model: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    finishReason?: string;
+    citations?: string[];
+  };
+  return { ...body, text: body.text ?? '' };
+}
+
+function countReplayed(context: { consumed: Map<string, number> } | undefined): number {
+  if (!context) return 0;
+  let total = 0;
+  context.consumed.forEach(n => { total += n; });
+  return total;
+}
+
+// Runs fn in replay mode against the recordings of sourceJobId and reports how many calls it served
+async function replayRun<T>(
+  sourceJobType: ReplayJobType,
+  sourceJobId: number,
+  jobType: string,
+  fn: () => Promise<T>
+): Promise<{ result: T; replayedCalls: number }> {
+  let replayContext: LLMRunContext | undefined;
+  const sourceJobTypes = RECORDED_JOB_TYPES[sourceJobType];
+  const result = await runWithLLMContext({ mode: 'replay', sourceJobId, sourceJobTypes, jobType }, async () => {
+    replayContext = getLLMContext();
+    return fn();
+  });
+  return { result, replayedCalls: countReplayed(replayContext) };
+}
+
+// Owner of the job a replay would re-run: undefined when the job does not exist
+export async function getReplaySourceOwner(jobType: ReplayJobType, jobId: number): Promise<number | null | undefined> {
+  const table = jobType === 'pipeline' ? pipelineJobs : jobType === 'reconstruction' ? reconstructionProjects : hccDocuments;
+  const [source] = await db.select({ userId: table.userId }).from(table).where(eq(table.id, jobId));
+  return source ? source.userId : undefined;
+}
+
+export async function replayPipelineJob(sourceJobId: number): Promise<ReplayOutcome> {
+  const [source] = await db.select().from(pipelineJobs).where(eq(pipelineJobs.id, sourceJobId));
+  if (!source) {
+    throw new Error(`Pipeline job ${sourceJobId} not found`);
+  }
+
+  const { runFullPipeline } = await import('./pipelineOrchestrator');
+  const { result, replayedCalls } = await replayRun('pipeline', sourceJobId, 'pipeline_replay', () => runFullPipeline(
+    source.originalText,
+    {
+      customInstructions: source.customInstructions || undefined,
+      targetAudience: source.targetAudience || undefined,
+      objective: source.objective || undefined,
+      stages: (source.stageDefinitions as PipelineStageDefinition[] | null) || undefined
+    },
+    source.userId || undefined
+  ));
+
+  return {
+    sourceJobId,
+    replayJobId: result.jobId,
+    success: result.success,
+    matches: {
+      reconstruction: result.reconstruction === source.reconstructionOutput,
+      objections: result.objections === source.objectionsOutput,
+      responses: result.responses === source.responsesOutput,
+      bulletproof: result.bulletproof === source.bulletproofOutput
+    },
+    replayedCalls,
+    error: result.error
+  };
+}
+
+export async function replayReconstructionProject(sourceProjectId: number): Promise<ReplayOutcome> {
+  const [source] = await db.select().from(reconstructionProjects).where(eq(reconstructionProjects.id, sourceProjectId));
+  if (!source) {
+    throw new Error(`Reconstruction project ${sourceProjectId} not found`);
+  }
+
+  const { crossChunkReconstruct } = await import('./crossChunkCoherence');
+  try {
+    const { result, replayedCalls } = await replayRun('reconstruction', sourceProjectId, 'reconstruction_project', () => crossChunkReconstruct(
+      source.originalText,
+      source.customInstructions || `Expand to approximately ${source.targetWordCount} words while preserving the original argument structure.`,
+      'anthropic'
+    ));
+    return {
+      sourceJobId: sourceProjectId,
+      success: true,
+      matches: { reconstructedText: result.reconstructedText === source.reconstructedText },
+      replayedCalls
+    };
+  } catch (error: any) {
+    return { sourceJobId: sourceProjectId, success: false, matches: {}, replayedCalls: 0, error: error.message };
+  }
+}
+
+export async function replayHccDocument(sourceDocumentId: number): Promise<ReplayOutcome> {
+  const [source] = await db.select().from(hccDocuments).where(eq(hccDocuments.id, sourceDocumentId));
+  if (!source) {
+    throw new Error(`HCC document ${sourceDocumentId} not found`);
+  }
+
+  const { processHccDocument } = await import('./hccService');
+  const { result, replayedCalls } = await replayRun('hcc', sourceDocumentId, 'hcc_document', () => processHccDocument(
+    source.originalText,
+    source.customInstructions,
+    source.userId || undefined
+  ));
+
+  return {
+    sourceJobId: sourceDocumentId,
+    replayJobId: result.documentId,
+    success: result.success,
+    matches: { finalOutput: result.output === source.finalOutput },
+    replayedCalls,
+    error: result.error
+  };
+}
@@ -1,9 +1,4 @@
-import OpenAI from "openai";
-import Anthropic from '@anthropic-ai/sdk';
-
-// Initialize API clients
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+import { completeChat } from './llmProviders';
 
 // Define response types for different models
 interface ModelResponse {
@@ -40,7 +35,7 @@ export class LLMRouter {
     analysis: string;
   }> {
     try {
-      const response = await openai.chat.completions.create({
+      const response = await completeChat('openai', {
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
         messages: [
           {
@@ -70,10 +65,10 @@ export class LLMRouter {
             content: text
           }
         ],
-        response_format: { type: "json_object" }
+        jsonMode: true
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = JSON.parse(response.text || "{}");
       return {
         score: result.score || 5,
         analysis: result.analysis || "No analysis provided"
@@ -102,9 +97,9 @@ export class LLMRouter {
     }
     
     try {
-      const response = await anthropic.messages.create({
+      const response = await completeChat('anthropic', {
         model: "claude-3-7-sonnet-20250219", // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-        max_tokens: 1000,
+        maxTokens: 1000,
         system: `You are RECURSIVE (Reasoning Evaluation Circuit Utilizing Recursive Structure in Intellectual Verification Engine), specialized in analyzing the recursive scaffolding of arguments.
         
         FOCUS EXCLUSIVELY on:
@@ -138,9 +133,8 @@ export class LLMRouter {
       });
 
       // Parse the JSON from Claude's response
-      const responseContent = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : JSON.stringify({score: 5, analysis: "Unable to process content", layerCount: 1});
+      const responseContent = response.text
+        || JSON.stringify({score: 5, analysis: "Unable to process content", layerCount: 1});
         
       const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
       
@@ -170,7 +164,7 @@ export class LLMRouter {
     layerCount: number;
   }> {
     try {
-      const response = await openai.chat.completions.create({
+      const response = await completeChat('openai', {
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
         messages: [
           {
@@ -205,10 +199,10 @@ export class LLMRouter {
             content: text
           }
         ],
-        response_format: { type: "json_object" }
+        jsonMode: true
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = JSON.parse(response.text || "{}");
       return {
         score: result.score || 5,
         analysis: result.analysis || "No analysis provided",
@@ -232,7 +226,7 @@ export class LLMRouter {
     analysis: string;
   }> {
     try {
-      const response = await openai.chat.completions.create({
+      const response = await completeChat('openai', {
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
         messages: [
           {
@@ -262,10 +256,10 @@ export class LLMRouter {
             content: text
           }
         ],
-        response_format: { type: "json_object" }
+        jsonMode: true
       });
 
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = JSON.parse(response.text || "{}");
       return {
         score: result.score || 5,
         analysis: result.analysis || "No analysis provided"
@@ -369,9 +363,9 @@ export class LLMRouter {
       // STEP 1: Use Claude for structural rewriting (if available)
       if (this.options.useMultiModel) {
         try {
-          const claudeResponse = await anthropic.messages.create({
+          const claudeResponse = await completeChat('anthropic', {
             model: "claude-3-7-sonnet-20250219", // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-            max_tokens: Math.ceil(originalText.length * 1.2), // Allow for some expansion
+            maxTokens: Math.ceil(originalText.length * 1.2), // Allow for some expansion
             system: `You are a structural rewriter focused on RECURSIVE STRUCTURE improvement.
             
             MISSION: Restructure the following text to enhance its logical scaffolding, definitional clarity, and inferential continuity.
@@ -401,10 +395,8 @@ export class LLMRouter {
             ]
           });
           
-          // Extract text from Claude response safely
-          const firstContent = claudeResponse.content[0];
-          if (firstContent && 'type' in firstContent && firstContent.type === 'text' && 'text' in firstContent) {
-            structuralRewrite = firstContent.text;
+          if (claudeResponse.text) {
+            structuralRewrite = claudeResponse.text;
           }
         } catch (error) {
           console.warn("Claude structural rewrite failed, falling back to OpenAI:", error);
@@ -413,7 +405,7 @@ export class LLMRouter {
       }
       
       // STEP 2: Use GPT-4 for final compression and polishing
-      const gpt4Response = await openai.chat.completions.create({
+      const gpt4Response = await completeChat('openai', {
         model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
         messages: [
           {
@@ -451,7 +443,7 @@ export class LLMRouter {
         ]
       });
       
-      finalRewrite = gpt4Response.choices[0].message.content || originalText;
+      finalRewrite = gpt4Response.text || originalText;
       
       // Similarity check
       let similarityPercentage = this.calculateSimilarityPercentage(originalText, finalRewrite);
@@ -460,7 +452,7 @@ export class LLMRouter {
       if (similarityPercentage > 95) {
         console.log(`Initial rewrite too similar (${similarityPercentage}%). Making second attempt with stronger instruction.`);
         
-        const secondAttemptResponse = await openai.chat.completions.create({
+        const secondAttemptResponse = await completeChat('openai', {
           model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
           messages: [
             {
@@ -498,7 +490,7 @@ export class LLMRouter {
           ]
         });
         
-        finalRewrite = secondAttemptResponse.choices[0].message.content || finalRewrite;
+        finalRewrite = secondAttemptResponse.text || finalRewrite;
         similarityPercentage = this.calculateSimilarityPercentage(originalText, finalRewrite);
       }
       
@@ -565,7 +557,7 @@ export class LLMRouter {
           i > 0 ? 'Maintain the style and continuity from previous parts. ' : ''
         }`;
         
-        const chunkResponse = await openai.chat.completions.create({
+        const chunkResponse = await completeChat('openai', {
           model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
           messages: [
             {
@@ -605,7 +597,7 @@ export class LLMRouter {
           ]
         });
         
-        rewrittenChunks.push(chunkResponse.choices[0].message.content || chunk);
+        rewrittenChunks.push(chunkResponse.text || chunk);
       }
       
       // Combine chunks
@@ -0,0 +1,407 @@
+import { spawn } from 'child_process';
+import type { MLModelParameters } from './mlModelService';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ML EXPERIMENT GENERATOR
+// Wraps mlModelService: a natural-language ML problem is parsed into
+// MLModelParameters, the caller edits them, and the scikit-learn script is
+// regenerated from the edited values. Edited values are checked field by field
+// before they are spliced into Python source. The generated code is never run:
+// a separate interpreter parses it with the ast module to check the syntax,
+// the imports (against a whitelist) and calls to exec/eval-style builtins,
+// and only code that passes is handed out as a .py script or .ipynb notebook.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const ML_PROBLEM_TYPES = ['classification', 'clustering', 'dimensionality_reduction'] as const;
+
+export const ML_MODEL_TYPES: Record<MLModelParameters['problemType'], string[]> = {
+  classification: ['auto', 'random_forest', 'xgboost', 'svm', 'mlp', 'gradient_boosting', 'knn', 'naive_bayes', 'logistic_regression'],
+  clustering: ['auto', 'kmeans', 'dbscan', 'hierarchical', 'gmm', 'mean_shift'],
+  dimensionality_reduction: ['auto', 'pca', 'tsne', 'umap', 'lda']
+};
+
+export const ML_OUTPUT_FORMATS = ['py', 'ipynb'] as const;
+export type MLOutputFormat = typeof ML_OUTPUT_FORMATS[number];
+
+// Top-level modules the generator emits; anything else in the code is rejected
+export const ALLOWED_PYTHON_MODULES = [
+  'numpy', 'pandas', 'matplotlib', 'seaborn', 'sklearn', 'scipy',
+  'xgboost', 'imblearn', 'umap', 'joblib', 'json', 'warnings', 'datetime', 'math'
+];
+
+const DISALLOWED_CALLS = ['exec', 'eval', 'compile', '__import__', 'breakpoint', 'input'];
+
+export const ML_DEFAULT_PARAMETERS: MLModelParameters = {
+  problemType: 'classification',
+  modelType: 'auto',
+  autoMode: true,
+  dataSource: 'synthetic',
+  featureVariables: [],
+  purpose: 'visualization',
+  testSize: 0.2,
+  randomState: 42,
+  cvFolds: 5,
+  scaleFeatures: true,
+  handleImbalance: false,
+  hyperparameterTuning: 'random',
+  tuningIterations: 50,
+  sampleSize: 1000
+};
+
+// Column names end up inside Python string literals, so they are held to
+// identifier characters; class labels may also contain spaces, dots and hyphens
+const COLUMN_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const CLASS_LABEL = /^[A-Za-z0-9_][A-Za-z0-9_ .-]{0,63}$/;
+const MAX_FEATURES = 50;
+const MAX_CLASSES = 20;
+const MAX_TEXT = 2000;
+
+export interface PythonValidation {
+  valid: boolean;
+  // False when no Python interpreter was available: imports were then found
+  // by a line scan and the syntax was not checked
+  syntaxChecked: boolean;
+  syntaxError: { line: number; column: number; message: string } | null;
+  imports: string[];
+  disallowedImports: { module: string; line: number }[];
+  disallowedCalls: { name: string; line: number }[];
+  warnings: string[];
+}
+
+export interface MLExperiment {
+  parameters: MLModelParameters;
+  code: string;
+  validation: PythonValidation;
+  warnings: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARAMETERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isNumberIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+}
+
+function isStringList(value: unknown, pattern: RegExp, max: number): value is string[] {
+  return Array.isArray(value) && value.length <= max
+    && value.every(item => typeof item === 'string' && pattern.test(item))
+    && new Set(value).size === value.length;
+}
+
+const FIELD_CHECKS: { [K in keyof MLModelParameters]-?: (value: unknown, params: MLModelParameters) => boolean } = {
+  problemType: value => ML_PROBLEM_TYPES.includes(value as any),
+  modelType: (value, params) => typeof value === 'string' && (ML_MODEL_TYPES[params.problemType] || []).includes(value),
+  autoMode: value => typeof value === 'boolean',
+  dataSource: value => typeof value === 'string' && value.length <= MAX_TEXT,
+  targetVariable: value => value === undefined || (typeof value === 'string' && COLUMN_NAME.test(value)),
+  featureVariables: value => isStringList(value, COLUMN_NAME, MAX_FEATURES),
+  classLabels: value => value === undefined || (isStringList(value, CLASS_LABEL, MAX_CLASSES) && value.length >= 2),
+  nClusters: value => value === undefined || value === 'auto' || isInteger(value, 2, 50),
+  nComponents: value => value === undefined || value === 'auto' || isInteger(value, 1, 100),
+  purpose: value => value === undefined || value === 'visualization' || value === 'preprocessing',
+  testSize: value => isNumberIn(value, 0.05, 0.5),
+  randomState: value => isInteger(value, 0, 2 ** 32 - 1),
+  cvFolds: value => isInteger(value, 2, 20),
+  scaleFeatures: value => typeof value === 'boolean',
+  handleImbalance: value => typeof value === 'boolean',
+  hyperparameterTuning: value => value === 'none' || value === 'grid' || value === 'random',
+  tuningIterations: value => isInteger(value, 1, 500),
+  sampleSize: value => isInteger(value, 50, 1_000_000),
+  customInstructions: value => value === undefined || (typeof value === 'string' && value.length <= MAX_TEXT)
+};
+
+// Edited parameters from the client: every field is checked, none is coerced
+export function validateMLParameters(values: Record<string, unknown>): { parameters: MLModelParameters; invalidFields: string[] } {
+  const invalidFields: string[] = [];
+  const merged: Record<string, unknown> = { ...ML_DEFAULT_PARAMETERS };
+
+  for (const [field, value] of Object.entries(values || {})) {
+    if (!(field in FIELD_CHECKS)) {
+      invalidFields.push(field);
+      continue;
+    }
+    merged[field] = value === null ? undefined : value;
+  }
+
+  const parameters = merged as unknown as MLModelParameters;
+  for (const [field, check] of Object.entries(FIELD_CHECKS)) {
+    if (!check(merged[field], parameters) && !invalidFields.includes(field)) {
+      invalidFields.push(field);
+    }
+  }
+
+  if (invalidFields.length === 0 && parameters.modelType === 'auto') {
+    parameters.autoMode = true;
+  }
+  return { parameters, invalidFields };
+}
+
+function toColumnName(name: string): string {
+  const cleaned = name.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64);
+  if (!cleaned) return '';
+  return /^[0-9]/.test(cleaned) ? `f_${cleaned}`.slice(0, 64) : cleaned;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number, integer: boolean): number {
+  if (typeof value !== 'number' || !isFinite(value)) return fallback;
+  const bounded = Math.min(max, Math.max(min, value));
+  return integer ? Math.round(bounded) : bounded;
+}
+
+// LLM output: names are rewritten to snake_case, numbers clamped into range
+// and unknown enum values replaced by their defaults, so the parse always
+// yields parameters that validateMLParameters accepts
+export function normalizeMLParameters(parsed: MLModelParameters): { parameters: MLModelParameters; adjustedFields: string[] } {
+  const d = ML_DEFAULT_PARAMETERS;
+  const problemType = ML_PROBLEM_TYPES.includes(parsed.problemType) ? parsed.problemType : d.problemType;
+  const modelType = ML_MODEL_TYPES[problemType].includes(parsed.modelType) ? parsed.modelType : 'auto';
+  const unique = (names: string[]) => Array.from(new Set(names.filter(Boolean)));
+
+  const featureVariables = unique((parsed.featureVariables || []).map(name => toColumnName(String(name)))).slice(0, MAX_FEATURES);
+  const targetVariable = parsed.targetVariable ? toColumnName(String(parsed.targetVariable)) || undefined : undefined;
+  const classLabels = parsed.classLabels
+    ? unique(parsed.classLabels.map(label => String(label).trim().replace(/[^A-Za-z0-9_ .-]+/g, '_').replace(/^[ .-]+/, '').slice(0, 64))).slice(0, MAX_CLASSES)
+    : undefined;
+
+  const parameters: MLModelParameters = {
+    problemType,
+    modelType,
+    autoMode: modelType === 'auto' || parsed.autoMode === true,
+    dataSource: String(parsed.dataSource || d.dataSource).slice(0, MAX_TEXT),
+    targetVariable,
+    featureVariables,
+    classLabels: classLabels && classLabels.length >= 2 ? classLabels : undefined,
+    nClusters: parsed.nClusters === 'auto' || parsed.nClusters === undefined ? parsed.nClusters : clamp(parsed.nClusters, 2, 50, 4, true),
+    nComponents: parsed.nComponents === 'auto' || parsed.nComponents === undefined ? parsed.nComponents : clamp(parsed.nComponents, 1, 100, 2, true),
+    purpose: parsed.purpose === 'preprocessing' ? 'preprocessing' : 'visualization',
+    testSize: clamp(parsed.testSize, 0.05, 0.5, d.testSize, false),
+    randomState: clamp(parsed.randomState, 0, 2 ** 32 - 1, d.randomState, true),
+    cvFolds: clamp(parsed.cvFolds, 2, 20, d.cvFolds, true),
+    scaleFeatures: typeof parsed.scaleFeatures === 'boolean' ? parsed.scaleFeatures : d.scaleFeatures,
+    handleImbalance: typeof parsed.handleImbalance === 'boolean' ? parsed.handleImbalance : d.handleImbalance,
+    hyperparameterTuning: ['none', 'grid', 'random'].includes(parsed.hyperparameterTuning) ? parsed.hyperparameterTuning : d.hyperparameterTuning,
+    tuningIterations: clamp(parsed.tuningIterations, 1, 500, d.tuningIterations, true),
+    sampleSize: clamp(parsed.sampleSize, 50, 1_000_000, d.sampleSize, true),
+    customInstructions: parsed.customInstructions ? String(parsed.customInstructions).slice(0, MAX_TEXT) : undefined
+  };
+
+  const adjustedFields = (Object.keys(parameters) as (keyof MLModelParameters)[])
+    .filter(field => parsed[field] !== undefined && JSON.stringify(parameters[field]) !== JSON.stringify(parsed[field]));
+  return { parameters, adjustedFields };
+}
+
+// Combinations the script accepts but scikit-learn rejects at run time
+function parameterWarnings(params: MLModelParameters): string[] {
+  const warnings: string[] = [];
+  const featureCount = params.featureVariables.length || 5;
+
+  if (params.problemType === 'classification') {
+    const classes = (params.classLabels || ['class_0', 'class_1']).length;
+    const informative = Math.max(2, Math.floor(featureCount * 0.6));
+    if (classes * 2 > 2 ** informative) {
+      warnings.push(`${classes} classes need more features: make_classification will reject ${featureCount} features with ${informative} informative (add features or reduce classes)`);
+    }
+    if (!params.targetVariable) {
+      warnings.push('No target variable given; the script uses a column named "target"');
+    }
+  }
+  if (params.problemType === 'dimensionality_reduction' && params.modelType === 'lda'
+      && typeof params.nComponents === 'number' && params.nComponents > 2) {
+    warnings.push('LDA yields at most (classes - 1) = 2 components on the 3-class synthetic data');
+  }
+  if (params.dataSource && params.dataSource !== 'synthetic') {
+    warnings.push(`The script generates synthetic data; replace the data loading section to use ${params.dataSource}`);
+  }
+  return warnings;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STATIC VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Reads the source from stdin and only parses it: nothing is compiled or run
+const PYTHON_ANALYZER = `
+import ast, json, sys
+source = sys.stdin.read()
+result = {"syntaxError": None, "imports": [], "calls": []}
+try:
+    tree = ast.parse(source)
+except SyntaxError as e:
+    result["syntaxError"] = {"line": e.lineno or 0, "column": e.offset or 0, "message": e.msg}
+else:
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Import):
+            for alias in node.names:
+                result["imports"].append({"module": alias.name, "line": node.lineno})
+        elif isinstance(node, ast.ImportFrom):
+            result["imports"].append({"module": ("." * node.level) + (node.module or ""), "line": node.lineno})
+        elif isinstance(node, ast.Call) and isinstance(node.func, ast.Name):
+            result["calls"].append({"name": node.func.id, "line": node.lineno})
+print(json.dumps(result))
+`;
+
+const ANALYZER_TIMEOUT_MS = 10_000;
+
+interface AnalyzerOutput {
+  syntaxError: PythonValidation['syntaxError'];
+  imports: { module: string; line: number }[];
+  calls: { name: string; line: number }[];
+}
+
+// Resolves null when no interpreter could be started
+function runAnalyzer(code: string): Promise<AnalyzerOutput | null> {
+  return new Promise((resolve, reject) => {
+    // -I: isolated mode, ignoring PYTHON* env vars and the user site directory
+    const child = spawn('python3', ['-I', '-c', PYTHON_ANALYZER], { stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    const timer = setTimeout(() => child.kill('SIGKILL'), ANALYZER_TIMEOUT_MS);
+
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      if (error.code === 'ENOENT') return resolve(null);
+      reject(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      if (signal) return reject(new Error(`Python analyzer stopped by ${signal}`));
+      if (exitCode !== 0) return reject(new Error(`Python analyzer failed: ${stderr.trim().slice(0, 500)}`));
+      try {
+        resolve(JSON.parse(stdout));
+      } catch {
+        reject(new Error('Python analyzer returned malformed output'));
+      }
+    });
+    child.stdin.on('error', () => { /* reported through 'error' or 'close' */ });
+    child.stdin.end(code);
+  });
+}
+
+// Fallback without an interpreter: top-of-line import statements only
+function scanImports(code: string): AnalyzerOutput['imports'] {
+  const imports: AnalyzerOutput['imports'] = [];
+  code.split('\n').forEach((line, i) => {
+    const match = line.match(/^\s*(?:from\s+([.\w]+)\s+import\b|import\s+([\w.]+(?:\s*,\s*[\w.]+)*))/);
+    if (!match) return;
+    const modules = match[1] ? [match[1]] : match[2].split(',').map(m => m.trim());
+    modules.forEach(module => imports.push({ module, line: i + 1 }));
+  });
+  return imports;
+}
+
+export async function validatePythonCode(code: string): Promise<PythonValidation> {
+  const analysis = await runAnalyzer(code);
+  const warnings: string[] = [];
+  if (!analysis) {
+    console.warn('[ML-EXPERIMENT] No Python interpreter found; checking imports without a syntax check');
+    warnings.push('Python is not available on the server: imports were checked, syntax was not');
+  }
+
+  const imports = analysis ? analysis.imports : scanImports(code);
+  const calls = analysis ? analysis.calls : [];
+  const topLevel = (module: string) => (module.startsWith('.') ? module : module.split('.')[0]);
+
+  const disallowedImports = imports.filter(i => !ALLOWED_PYTHON_MODULES.includes(topLevel(i.module)));
+  const disallowedCalls = calls.filter(c => DISALLOWED_CALLS.includes(c.name));
+  const syntaxError = analysis?.syntaxError || null;
+
+  return {
+    valid: !syntaxError && disallowedImports.length === 0 && disallowedCalls.length === 0,
+    syntaxChecked: !!analysis,
+    syntaxError,
+    imports: Array.from(new Set(imports.map(i => topLevel(i.module)))).sort(),
+    disallowedImports,
+    disallowedCalls,
+    warnings
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GENERATION & EXPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function buildMLExperiment(parameters: MLModelParameters, extraWarnings: string[] = []): Promise<MLExperiment> {
+  const { generateMLPythonCode } = await import('./mlModelService');
+  const code = generateMLPythonCode(parameters);
+  const validation = await validatePythonCode(code);
+  if (!validation.valid) {
+    console.error(`[ML-EXPERIMENT] Generated ${parameters.problemType}/${parameters.modelType} code failed validation`,
+      validation.syntaxError, validation.disallowedImports, validation.disallowedCalls);
+  }
+  return {
+    parameters,
+    code,
+    validation,
+    warnings: [...extraWarnings, ...parameterWarnings(parameters)]
+  };
+}
+
+export async function parseMLExperiment(description: string, customInstructions: string, provider: string): Promise<MLExperiment> {
+  const { parseMLDescription } = await import('./mlModelService');
+  // parseMLDescription takes the "ZHI n" labels; routes take zhi1-zhi5
+  const zhi = provider.toLowerCase().match(/^zhi\s*([1-5])$/);
+  const parsed = await parseMLDescription(description, customInstructions, zhi ? `ZHI ${zhi[1]}` : provider);
+
+  const { parameters, adjustedFields } = normalizeMLParameters(parsed);
+  const warnings = adjustedFields.length > 0
+    ? [`Adjusted parsed values to valid ones: ${adjustedFields.join(', ')}`]
+    : [];
+  return buildMLExperiment(parameters, warnings);
+}
+
+const SECTION_BANNER = /^# ={10,}\n# (.+)\n# ={10,}\n/;
+
+// nbformat 4: the module docstring becomes the opening markdown cell and each
+// "# ====" section a markdown heading followed by its code
+export function buildNotebook(code: string, parameters: MLModelParameters): string {
+  const cells: any[] = [];
+  const markdown = (text: string) => ({ cell_type: 'markdown', metadata: {}, source: toSourceLines(text) });
+  const codeCell = (text: string) => ({ cell_type: 'code', metadata: {}, execution_count: null, outputs: [], source: toSourceLines(text) });
+
+  let rest = code;
+  const docstring = rest.match(/^"""\n([\s\S]*?)\n"""\n/);
+  if (docstring) {
+    const lines = docstring[1].split('\n').filter(line => line.trim());
+    cells.push(markdown(`# ${lines[0]}\n\n${lines.slice(1).join('  \n')}`));
+    rest = rest.slice(docstring[0].length);
+  }
+
+  const sections = rest.split(/\n(?=# ={10,}\n# .+\n# ={10,}\n)/);
+  for (const section of sections) {
+    const banner = section.match(SECTION_BANNER);
+    const body = (banner ? section.slice(banner[0].length) : section).trim();
+    if (banner) {
+      const title = banner[1].trim();
+      cells.push(markdown(`## ${title.charAt(0) + title.slice(1).toLowerCase()}`));
+    }
+    if (body) cells.push(codeCell(body));
+  }
+
+  return JSON.stringify({
+    cells,
+    metadata: {
+      kernelspec: { display_name: 'Python 3', language: 'python', name: 'python3' },
+      language_info: { name: 'python' },
+      experiment: { problemType: parameters.problemType, modelType: parameters.modelType }
+    },
+    nbformat: 4,
+    nbformat_minor: 4
+  }, null, 1);
+}
+
+function toSourceLines(text: string): string[] {
+  const lines = text.split('\n');
+  return lines.map((line, i) => (i < lines.length - 1 ? `${line}\n` : line));
+}
+
+export function experimentFilename(parameters: MLModelParameters, format: MLOutputFormat): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `ml_${parameters.problemType}_${parameters.modelType}_${date}.${format}`;
+}
@@ -1,8 +1,22 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
+import { completeChat, completePrompt } from "./llmProviders";
+
+function mapZhiToProvider(zhiName: string): 'openai' | 'anthropic' | 'deepseek' | 'perplexity' | 'grok' {
+  const mapping: Record<string, 'openai' | 'anthropic' | 'deepseek' | 'perplexity' | 'grok'> = {
+    'ZHI 1': 'openai',
+    'ZHI 2': 'anthropic',
+    'ZHI 3': 'deepseek',
+    'ZHI 4': 'perplexity'
+  };
+  return mapping[zhiName] || 'grok';
+}
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic();
+const ZHI_MODELS = {
+  openai: "gpt-4o",
+  anthropic: "claude-sonnet-4-20250514",
+  deepseek: "deepseek-chat",
+  perplexity: "llama-3.1-sonar-large-128k-online",
+  grok: "grok-3-latest"
+};
 
 export interface MLModelParameters {
   problemType: 'classification' | 'clustering' | 'dimensionality_reduction';
@@ -99,80 +113,20 @@ Return ONLY the JSON object, no additional text.`;
   let response: string = "";
 
   try {
-    if (provider === "ZHI 1") {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userMessage }
-        ],
-        temperature: 0.1
-      });
-      response = completion.choices[0]?.message?.content || "";
-    } else if (provider === "ZHI 2") {
-      const message = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2000,
-        messages: [
-          { role: "user", content: `${systemPrompt}\n\nUser request: ${userMessage}` }
-        ]
-      });
-      response = message.content[0].type === 'text' ? message.content[0].text : "";
-    } else if (provider === "ZHI 3") {
-      const deepseekResponse = await fetch("https://api.deepseek.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.DEEPSEEK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "deepseek-chat",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userMessage }
-          ],
-          temperature: 0.1
+    // ZHI 2 (Anthropic) takes the instructions in the user turn, the others as a system prompt
+    const actualProvider = mapZhiToProvider(provider);
+    const completion = actualProvider === 'anthropic'
+      ? await completePrompt('anthropic', `${systemPrompt}\n\nUser request: ${userMessage}`, {
+          model: ZHI_MODELS.anthropic,
+          maxTokens: 2000
         })
-      });
-      const deepseekData = await deepseekResponse.json();
-      response = deepseekData.choices?.[0]?.message?.content || "";
-    } else if (provider === "ZHI 4") {
-      const perplexityResponse = await fetch("https://api.perplexity.ai/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.PERPLEXITY_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "llama-3.1-sonar-large-128k-online",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userMessage }
-          ],
+      : await completeChat(actualProvider, {
+          model: ZHI_MODELS[actualProvider],
+          system: systemPrompt,
+          messages: [{ role: "user", content: userMessage }],
           temperature: 0.1
-        })
-      });
-      const perplexityData = await perplexityResponse.json();
-      response = perplexityData.choices?.[0]?.message?.content || "";
-    } else {
-      const grokResponse = await fetch("https://api.x.ai/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.GROK_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: "grok-3-latest",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userMessage }
-          ],
-          temperature: 0.1
-        })
-      });
-      const grokData = await grokResponse.json();
-      response = grokData.choices?.[0]?.message?.content || "";
-    }
+        });
+    response = completion.text;
 
     const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
@@ -0,0 +1,178 @@
+import {
+  objectionContractSchema,
+  OBJECTION_TYPES,
+  OBJECTION_SEVERITIES,
+  ObjectionRecord,
+} from '@shared/schema';
+import { completeChat, ChatMessage } from './llmProviders';
+import { logLLMCall, summarizeText } from './auditService';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OBJECTION CONTRACT
+// Objections are produced as JSON validated against objectionContractSchema.
+// A response that fails validation is sent back to the model with the
+// validation errors until it passes or the repair budget runs out; prose is
+// rendered from the validated records as a separate deterministic step.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface ObjectionGenerationOptions {
+  provider: string;
+  model?: string;
+  system?: string;
+  // Describes what to object to; the JSON format instructions are appended here
+  prompt: string;
+  // Exact number of objections required; omitted when converting existing text
+  expectedCount?: number;
+  maxTokens?: number;
+  jobId?: number;
+  jobType?: string;
+  promptSummary: string;
+}
+
+export interface ObjectionValidation {
+  objections: ObjectionRecord[];
+  errors: string[];
+}
+
+export function objectionFormatInstructions(expectedCount?: number): string {
+  const count = expectedCount !== undefined ? `exactly ${expectedCount} entries` : 'one entry per objection';
+  return `OUTPUT FORMAT:
+Return ONLY a JSON object of this exact shape, with ${count} in "objections":
+{
+  "objections": [
+    {
+      "claimTargeted": "exact quote or precise paraphrase of the claim objected to",
+      "claimLocation": "section/paragraph where the claim appears, or an empty string",
+      "objectionType": "one of: ${OBJECTION_TYPES.join(', ')}",
+      "objectionText": "the objection itself",
+      "severity": "one of: ${OBJECTION_SEVERITIES.join(', ')}",
+      "initialResponse": "the counter-argument"
+    }
+  ]
+}
+No markdown fences, no commentary before or after the JSON.`;
+}
+
+/**
+ * Validate a model response against the objection contract.
+ * Returns the records only when there are no errors.
+ */
+export function validateObjectionResponse(responseText: string, expectedCount?: number): ObjectionValidation {
+  const text = responseText.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error: any) {
+    return { objections: [], errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  // A bare array is the one shape drift accepted without a repair round
+  const candidate = Array.isArray(json) ? { objections: json } : json;
+  const parsed = objectionContractSchema.safeParse(candidate);
+  if (!parsed.success) {
+    return {
+      objections: [],
+      errors: parsed.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`),
+    };
+  }
+
+  const objections = parsed.data.objections;
+  if (expectedCount !== undefined && objections.length !== expectedCount) {
+    return { objections: [], errors: [`objections: expected exactly ${expectedCount} entries, got ${objections.length}`] };
+  }
+  if (objections.length === 0) {
+    return { objections: [], errors: ['objections: must contain at least one entry'] };
+  }
+  return { objections, errors: [] };
+}
+
+/**
+ * Generate objections against the contract, re-prompting with the validation
+ * errors when a response does not conform. Throws once repairs are exhausted.
+ */
+export async function generateObjectionRecords(options: ObjectionGenerationOptions): Promise<ObjectionRecord[]> {
+  const messages: ChatMessage[] = [
+    { role: 'user', content: `${options.prompt}\n\n${objectionFormatInstructions(options.expectedCount)}` },
+  ];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const response = await completeChat(options.provider, {
+      system: options.system,
+      messages,
+      model: options.model,
+      maxTokens: options.maxTokens ?? 8000,
+      jsonMode: true,
+    });
+    const validation = validateObjectionResponse(response.text, options.expectedCount);
+    errors = validation.errors;
+
+    await logLLMCall({
+      jobId: options.jobId,
+      jobType: options.jobType,
+      exchange: response,
+      promptSummary: attempt === 0 ? options.promptSummary : `${options.promptSummary} (repair ${attempt})`,
+      promptFull: messages[messages.length - 1].content,
+      responseSummary: summarizeText(response.text, 200),
+      responseFull: response.text,
+      status: errors.length === 0 ? 'success' : 'invalid',
+      errorMessage: errors.length === 0 ? undefined : errors.slice(0, 5).join('; '),
+    });
+
+    if (errors.length === 0) return validation.objections;
+
+    console.warn(`[OBJECTIONS] ${options.promptSummary}: response failed validation (attempt ${attempt + 1}): ${errors.slice(0, 3).join('; ')}`);
+    messages.push(
+      { role: 'assistant', content: response.text },
+      { role: 'user', content: `Your response did not match the required format:\n${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}\n\nReturn the corrected JSON object only, keeping the content of every objection.` },
+    );
+  }
+
+  throw new Error(`Objections failed validation after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${errors.slice(0, 3).join('; ')}`);
+}
+
+/**
+ * Convert free-form objections text (pasted or edited by a user) into contract
+ * records, so downstream steps never scrape markdown.
+ */
+export async function extractObjectionRecords(
+  objectionsText: string,
+  options: { provider?: string; model?: string; jobId?: number; jobType?: string } = {}
+): Promise<ObjectionRecord[]> {
+  return generateObjectionRecords({
+    provider: options.provider ?? 'anthropic',
+    model: options.model ?? (options.provider ? undefined : 'claude-sonnet-4-20250514'),
+    jobId: options.jobId,
+    jobType: options.jobType,
+    promptSummary: 'Convert objections text to records',
+    system: 'You convert lists of objections and responses into structured records. Keep each objection and response in its original wording; do not add, merge or drop objections.',
+    prompt: `Convert every objection in the text below into a record. Where the text gives no claim location, use an empty string. Where it labels severity differently, map devastating to fatal, forceful to serious and minor to minor; otherwise judge the severity yourself.
+
+OBJECTIONS TEXT:
+${objectionsText}`,
+  });
+}
+
+/**
+ * Render validated objections as markdown. Pure: the same records always give
+ * the same text.
+ */
+export function renderObjectionsProse(objections: ObjectionRecord[], startNumber: number = 1): string {
+  return objections.map((obj, i) => {
+    const location = obj.claimLocation ? ` (${obj.claimLocation})` : '';
+    return `## Objection ${startNumber + i} [${obj.objectionType.toUpperCase()}] - ${obj.severity.toUpperCase()}
+
+**Claim Targeted:** ${obj.claimTargeted}${location}
+
+**Objection:**
+${obj.objectionText}
+
+**Response:**
+${obj.initialResponse}
+
+---
+`;
+  }).join('\n');
+}
@@ -1,7 +1,4 @@
-import OpenAI from "openai";
-
-// Initialize the OpenAI client with API key from environment variable
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { completeChat } from "./llmProviders";
 
 // Types for semantic evaluation
 export interface SurfaceAnalysis {
@@ -29,6 +26,8 @@ export interface IntelligenceEvaluation {
   surfaceScore: number;
   deepScore: number;
   calibrationAdjusted?: boolean;
+  localMetrics?: TextMetrics;
+  localPreScore?: LocalPreScore;
 }
 
 // Scoring configuration for pure cognitive fingerprinting
@@ -44,6 +43,7 @@ const scoringConfig = {
 
 // Import our new multi-model LLM router
 import { llmRouter } from "./llmRouter";
+import { computeTextMetrics, computeLocalPreScore, type TextMetrics, type LocalPreScore } from "./textMetrics";
 
 /**
  * Evaluate writing sample for intelligence using multi-model evaluation
@@ -54,6 +54,11 @@ export async function evaluateIntelligence(
   text: string, 
   customConfig?: Partial<typeof scoringConfig>
 ): Promise<IntelligenceEvaluation> {
+  // Local deterministic pre-score: reported alongside the result and used
+  // in place of fixed defaults when a dimension evaluation call fails
+  const localMetrics = computeTextMetrics(text);
+  const localPreScore = computeLocalPreScore(localMetrics);
+
   // Use the new LLM router for comprehensive multi-model evaluation
   const multiModelEvaluation = await llmRouter.evaluateComprehensive(text);
   
@@ -61,7 +66,7 @@ export async function evaluateIntelligence(
   const semanticAnalysis = await generateSemanticAnalysis(text);
   
   // Then, get detailed evaluation of specific dimensions
-  const detailedEvaluation = await evaluateDimensions(text);
+  const detailedEvaluation = await evaluateDimensions(text, localPreScore);
   
   // Apply multi-model insights to traditional evaluation (critical integration)
   if (multiModelEvaluation) {
@@ -480,7 +485,9 @@ export async function evaluateIntelligence(
     deepScore,
     overallScore,
     analysis: semanticAnalysis,
-    calibrationAdjusted: !!customConfig || appliedSuperficialityRule
+    calibrationAdjusted: !!customConfig || appliedSuperficialityRule,
+    localMetrics,
+    localPreScore
   };
 }
 
@@ -563,14 +570,14 @@ async function generateSemanticAnalysis(text: string): Promise<string> {
     TEXT TO ANALYZE:
     ${text.substring(0, 8000)} ${text.length > 8000 ? '... [text truncated due to length]' : ''}`;
     
-    const response = await openai.chat.completions.create({
+    const response = await completeChat('openai', {
       model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
       messages: [{ role: "user", content: prompt }],
-      max_tokens: 500,
+      maxTokens: 500,
       temperature: 0.3, // Lower temperature for more consistent analysis
     });
     
-    return response.choices[0].message.content || "Analysis could not be generated";
+    return response.text || "Analysis could not be generated";
   } catch (error) {
     console.error("Error generating semantic analysis:", error);
     return "Error generating analysis. Please try again.";
@@ -578,9 +585,10 @@ async function generateSemanticAnalysis(text: string): Promise<string> {
 }
 
 /**
- * Evaluate specific dimensions of the text for intelligence assessment
+ * Evaluate specific dimensions of the text for intelligence assessment.
+ * The local pre-score stands in for any dimension the model fails to return.
  */
-async function evaluateDimensions(text: string): Promise<{
+async function evaluateDimensions(text: string, preScore: LocalPreScore): Promise<{
   surface: SurfaceAnalysis, 
   deep: DeepAnalysis
 }> {
@@ -620,7 +628,7 @@ async function evaluateDimensions(text: string): Promise<{
         
         // Use the same prompt as for regular analysis
         const sectionEval = await performDimensionEvaluation(sectionText, 
-          `Section ${i+1} of ${sections.length} - ${i === sections.length - 1 ? 'bookend section' : 'sequential section'}`);
+          `Section ${i+1} of ${sections.length} - ${i === sections.length - 1 ? 'bookend section' : 'sequential section'}`, preScore);
         sectionEvaluations.push(sectionEval);
       }
       
@@ -630,32 +638,15 @@ async function evaluateDimensions(text: string): Promise<{
       finalEvaluation = combineEvaluations(sectionEvaluations, text);
     } else {
       // For shorter documents, use standard evaluation
-      finalEvaluation = await performDimensionEvaluation(text);
+      finalEvaluation = await performDimensionEvaluation(text, "full text", preScore);
     }
     
     return finalEvaluation;
   } catch (error) {
     console.error("Error evaluating dimensions:", error);
     
-    // Default values as fallback
-    const defaultSurface: SurfaceAnalysis = {
-      grammar: 70,
-      structure: 70,
-      jargonUsage: 70,
-      surfaceFluency: 70
-    };
-    
-    const defaultDeep: DeepAnalysis = {
-      conceptualDepth: 50,
-      inferentialContinuity: 50,
-      claimNecessity: 50,
-      semanticCompression: 50,
-      logicalLaddering: 50,
-      depthFluency: 50,
-      originality: 50
-    };
-    
-    return { surface: defaultSurface, deep: defaultDeep };
+    // Local pre-score as fallback
+    return { surface: { ...preScore.surface }, deep: { ...preScore.deep } };
   }
 }
 
@@ -915,7 +906,8 @@ function combineEvaluations(evaluations: any[], documentText?: string): { surfac
  */
 async function performDimensionEvaluation(
   text: string, 
-  sectionInfo: string = "full text"
+  sectionInfo: string,
+  preScore: LocalPreScore
 ): Promise<{ surface: SurfaceAnalysis, deep: DeepAnalysis }> {
   try {
     const truncatedText = text.substring(0, 8000) + 
@@ -923,60 +915,29 @@ async function performDimensionEvaluation(
     
     const analysisPrompt = createAnalysisPrompt(truncatedText, sectionInfo);
     
-    const response = await openai.chat.completions.create({
+    const response = await completeChat('openai', {
       model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
       messages: [{ role: "user", content: analysisPrompt }],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
+      jsonMode: true,
+      maxTokens: 800,
       temperature: 0.2, // Lower temperature for more consistent scoring
     });
     
-    const content = response.choices[0].message.content || "{}";
+    const content = response.text || "{}";
     const results = JSON.parse(content);
     
-    // Default values
-    const defaultSurface: SurfaceAnalysis = {
-      grammar: 50,
-      structure: 50,
-      jargonUsage: 50,
-      surfaceFluency: 50
-    };
-    
-    const defaultDeep: DeepAnalysis = {
-      conceptualDepth: 50,
-      inferentialContinuity: 50,
-      claimNecessity: 50,
-      semanticCompression: 50,
-      logicalLaddering: 50,
-      depthFluency: 50,
-      originality: 50
-    };
-    
-    // Merge results with defaults
+    // Merge results with the local pre-score for any missing dimension
     return {
-      surface: { ...defaultSurface, ...results.surface },
-      deep: { ...defaultDeep, ...results.deep }
+      surface: { ...preScore.surface, ...results.surface },
+      deep: { ...preScore.deep, ...results.deep }
     };
   } catch (error) {
     console.error("Error evaluating dimensions:", error);
     
-    // Return default values if there's an error
+    // Return the local pre-score if there's an error
     return {
-      surface: {
-        grammar: 50,
-        structure: 50,
-        jargonUsage: 50,
-        surfaceFluency: 50
-      },
-      deep: {
-        conceptualDepth: 50,
-        inferentialContinuity: 50,
-        claimNecessity: 50,
-        semanticCompression: 50,
-        logicalLaddering: 50,
-        depthFluency: 50,
-        originality: 50
-      }
+      surface: { ...preScore.surface },
+      deep: { ...preScore.deep }
     };
   }
 }
@@ -1,4 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { completeChat } from './llmProviders';
+import type { ObjectionRecord } from '@shared/schema';
+import { extractObjectionRecords } from './objectionContract';
 
 interface DocumentSection {
   id: number;
@@ -185,8 +187,6 @@ async function formatPreservingRewrite(
   customInstructions: string | undefined,
   onProgress?: ProgressCallback
 ): Promise<ObjectionProofResult> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  
   onProgress?.('analyzing', 1, 3, 'Preserving numbered format from reconstruction...');
   
   const formatConstraints = inputFormat.hasQuotedClaims 
@@ -223,14 +223,14 @@ Output the improved document with EXACTLY ${inputFormat.itemCount} numbered item
   onProgress?.('rewriting', 2, 3, `Strengthening ${inputFormat.itemCount} items against objections...`);
 
   try {
-    const response = await anthropic.messages.create({
+    const response = await completeChat('anthropic', {
       model: "claude-sonnet-4-20250514",
-      max_tokens: 8000,
+      maxTokens: 8000,
       system: systemPrompt,
       messages: [{ role: "user", content: userPrompt }]
     });
 
-    const output = (response.content[0] as any).text;
+    const output = response.text;
     
     // Validate output format
     const outputFormat = detectInputNumberedFormat(output);
@@ -269,8 +269,6 @@ async function directFormatRewrite(
   customInstructions: string,
   onProgress?: ProgressCallback
 ): Promise<ObjectionProofResult> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  
   onProgress?.('analyzing', 1, 3, 'Analyzing format requirements...');
   
   const formatInfo = detectSpecialFormat(customInstructions);
@@ -310,14 +308,14 @@ PRODUCE OUTPUT IN THE EXACT FORMAT SPECIFIED IN YOUR INSTRUCTIONS.
 Output ONLY the formatted content - no meta-commentary.`;
 
   try {
-    const response = await anthropic.messages.create({
+    const response = await completeChat('anthropic', {
       model: "claude-sonnet-4-20250514",
-      max_tokens: 4000,
+      maxTokens: 4000,
       system: systemPrompt,
       messages: [{ role: "user", content: userPrompt }]
     });
 
-    const output = (response.content[0] as any).text;
+    const output = response.text;
     
     onProgress?.('finalizing', 3, 3, 'Format output generated');
     
@@ -351,91 +349,22 @@ export function countWords(text: string): number {
   return text.split(/\s+/).filter(w => w.length > 0).length;
 }
 
-function parseObjections(objectionsOutput: string): ParsedObjection[] {
-  const objections: ParsedObjection[] = [];
-  
-  const categoryPatterns = [
-    { pattern: /LOGICAL\s*(?:OBJECTIONS|AND\s*STRUCTURAL)/i, category: 'logical' },
-    { pattern: /EVIDENTIAL\s*(?:OBJECTIONS|AND\s*FACTUAL)/i, category: 'evidential' },
-    { pattern: /PRACTICAL\s*(?:OBJECTIONS|AND\s*IMPLEMENTATION)/i, category: 'practical' },
-    { pattern: /AUDIENCE[- ]SPECIFIC/i, category: 'audience' },
-    { pattern: /METHODOLOGICAL/i, category: 'methodological' }
-  ];
-  
-  let currentCategory = 'general';
-  const lines = objectionsOutput.split('\n');
-  let currentObjection: Partial<ParsedObjection> | null = null;
-  let inResponse = false;
-  let responseBuffer = '';
-  let objectionTextBuffer = '';
-  
-  for (const line of lines) {
-    for (const { pattern, category } of categoryPatterns) {
-      if (pattern.test(line)) {
-        currentCategory = category;
-        break;
-      }
-    }
-    
-    const objMatch = line.match(/^(?:\*\*)?OBJECTION\s*#?(\d+):?\*?\*?\s*(?:\[(DEVASTATING|FORCEFUL|MINOR)\])?\s*(.*)/i) ||
-                     line.match(/^(\d+)\.\s*\*?\*?(?:OBJECTION|Objection)?:?\*?\*?\s*(?:\[(DEVASTATING|FORCEFUL|MINOR)\])?\s*(.*)/i);
-    if (objMatch) {
-      if (currentObjection && currentObjection.number) {
-        if (objectionTextBuffer.trim()) {
-          currentObjection.objection = objectionTextBuffer.trim();
-        }
-        currentObjection.response = responseBuffer.trim();
-        objections.push(currentObjection as ParsedObjection);
-      }
-      
-      const severityFromMatch = objMatch[2] ? objMatch[2].toLowerCase() as 'devastating' | 'forceful' | 'minor' : 'forceful';
-      const objText = objMatch[3] || '';
-      
-      currentObjection = {
-        number: parseInt(objMatch[1]),
-        category: currentCategory,
-        severity: severityFromMatch,
-        objection: objText.trim(),
-        response: ''
-      };
-      objectionTextBuffer = objText.trim();
-      inResponse = false;
-      responseBuffer = '';
-      continue;
-    }
-    
-    const severityMatch = line.match(/\[?(DEVASTATING|FORCEFUL|MINOR)\]?/i);
-    if (severityMatch && currentObjection && !currentObjection.objection) {
-      currentObjection.severity = severityMatch[1].toLowerCase() as 'devastating' | 'forceful' | 'minor';
-    }
-    
-    if (/^\*?\*?(?:RESPONSE|Counter-?argument|Reply):?\*?\*?/i.test(line)) {
-      inResponse = true;
-      const afterColon = line.split(/:/)[1];
-      if (afterColon) responseBuffer += afterColon.trim() + ' ';
-      continue;
-    }
-    
-    if (line.trim() === '---' || line.trim() === '═══════════════════════════════════════════════════') {
-      continue;
-    }
-    
-    if (inResponse && currentObjection) {
-      responseBuffer += line.trim() + ' ';
-    } else if (currentObjection && !inResponse && line.trim() && !line.startsWith('═')) {
-      objectionTextBuffer += ' ' + line.trim();
-    }
-  }
-  
-  if (currentObjection && currentObjection.number) {
-    if (objectionTextBuffer.trim() && !currentObjection.objection) {
-      currentObjection.objection = objectionTextBuffer.trim();
-    }
-    currentObjection.response = responseBuffer.trim();
-    objections.push(currentObjection as ParsedObjection);
-  }
-  
-  return objections;
+// Rewrite emphasis is three-tier; moderate objections get the same treatment as serious ones
+const REWRITE_SEVERITY: Record<ObjectionRecord['severity'], ParsedObjection['severity']> = {
+  fatal: 'devastating',
+  serious: 'forceful',
+  moderate: 'forceful',
+  minor: 'minor'
+};
+
+function toParsedObjections(records: ObjectionRecord[]): ParsedObjection[] {
+  return records.map((record, i) => ({
+    number: i + 1,
+    category: record.objectionType,
+    severity: REWRITE_SEVERITY[record.severity],
+    objection: record.objectionText,
+    response: record.initialResponse
+  }));
 }
 
 function createDeterministicSections(text: string): DocumentSection[] {
@@ -565,8 +494,6 @@ async function mapObjectionsToSectionsContentAware(
   objections: ParsedObjection[],
   onProgress?: ProgressCallback
 ): Promise<DocumentSection[]> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  
   onProgress?.('mapping', 0, 1, 'Analyzing content to map objections...');
   
   if (sections.length === 1) {
@@ -619,9 +546,9 @@ Return a JSON object mapping objection numbers to section ID arrays:
 IMPORTANT: Every objection number must appear as a key with at least one section.`;
 
   try {
-    const response = await anthropic.messages.create({
+    const response = await completeChat('anthropic', {
       model: "claude-sonnet-4-20250514",
-      max_tokens: 2000,
+      maxTokens: 2000,
       system: systemPrompt,
       messages: [{
         role: "user",
@@ -629,7 +556,7 @@ IMPORTANT: Every objection number must appear as a key with at least one section
       }]
     });
 
-    const responseText = (response.content[0] as any).text;
+    const responseText = response.text;
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     
     if (!jsonMatch) throw new Error("No JSON found in response");
@@ -922,8 +849,6 @@ async function rewriteSection(
   retryCount: number = 0
 ): Promise<{ rewrittenContent: string; updatedState: CrossChunkState; error?: string }> {
   const MAX_RETRIES = 0;
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  
   onProgress?.('rewriting', sectionIndex, totalSections, `Rewriting section ${sectionIndex + 1}/${totalSections}${retryCount > 0 ? ` (retry ${retryCount})` : ''}`);
   
   const relevantObjections = objections.filter(o => section.relevantObjections.includes(o.number));
@@ -1000,14 +925,14 @@ Then: Exactly ${originalParaCount} paragraphs of bullet-proof prose
 Final line: SUMMARY: [10-15 word transition context]`;
 
   try {
-    const response = await anthropic.messages.create({
+    const response = await completeChat('anthropic', {
       model: "claude-sonnet-4-20250514",
-      max_tokens: 6000,
+      maxTokens: 6000,
       system: systemPrompt,
       messages: [{ role: "user", content: `REVISE this section to be bullet-proof. KEEP the exact header and exactly ${originalParaCount} paragraphs:\n\n${section.content}` }]
     });
 
-    const responseText = (response.content[0] as any).text;
+    const responseText = response.text;
     
     let rewrittenContent = responseText;
     let summary = '';
@@ -1070,7 +995,9 @@ export async function generateOutlineFirstObjectionProof(
   originalText: string,
   objectionsOutput: string,
   customInstructions?: string,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  // Contract records from the objections step; without them objectionsOutput is converted first
+  objectionRecords?: ObjectionRecord[]
 ): Promise<ObjectionProofResult> {
   const errors: string[] = [];
   
@@ -1097,18 +1024,8 @@ export async function generateOutlineFirstObjectionProof(
     
     onProgress?.('init', 0, 4, `Processing ${totalWords} word document...`);
     
-    const objections = parseObjections(objectionsOutput);
-    console.log(`[OBJECTION-PROOF] Parsed ${objections.length} objections`);
-    
-    if (objections.length === 0) {
-      return {
-        success: false,
-        output: '',
-        sectionsProcessed: 0,
-        objectionsAddressed: 0,
-        error: 'Could not parse objections. Ensure the objections are in the expected format (numbered list with categories).'
-      };
-    }
+    const objections = toParsedObjections(objectionRecords ?? await extractObjectionRecords(objectionsOutput));
+    console.log(`[OBJECTION-PROOF] ${objections.length} objections${objectionRecords ? '' : ' (converted from text)'}`);
     
     onProgress?.('structure', 1, 4, 'Creating document sections...');
     let sections = createDeterministicSections(originalText);
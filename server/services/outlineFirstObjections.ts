@@ -1,4 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { completeChat, isProviderConfigured } from './llmProviders';
+import type { ObjectionRecord } from '@shared/schema';
+import { generateObjectionRecords, renderObjectionsProse } from './objectionContract';
 
 interface ArgumentStructure {
   thesis: string;
@@ -15,17 +17,13 @@ interface ArgumentStructure {
 
 interface ObjectionBatch {
   category: string;
-  objections: Array<{
-    number: number;
-    objection: string;
-    response: string;
-    severity: 'devastating' | 'forceful' | 'minor';
-  }>;
+  objections: ObjectionRecord[];
 }
 
 interface OutlineFirstObjectionsResult {
   success: boolean;
   output: string;
+  objections?: ObjectionRecord[];
   structure?: ArgumentStructure;
   error?: string;
 }
@@ -46,8 +44,6 @@ async function extractArgumentStructure(
   audience: string,
   objective: string
 ): Promise<ArgumentStructure> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-  
   const truncatedText = text.length > 120000 
     ? text.substring(0, 60000) + "\n\n[...middle section omitted for analysis...]\n\n" + text.substring(text.length - 50000)
     : text;
@@ -89,14 +85,14 @@ Objective: ${objective || 'Persuade and inform'}
 
 Extract the argument structure as specified. Return ONLY valid JSON.`;
 
-  const response = await anthropic.messages.create({
+  const response = await completeChat('anthropic', {
     model: "claude-sonnet-4-20250514",
-    max_tokens: 4000,
+    maxTokens: 4000,
     system: systemPrompt,
     messages: [{ role: "user", content: userPrompt }]
   });
 
-  const responseText = (response.content[0] as any).text;
+  const responseText = response.text;
   
   try {
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -125,12 +121,9 @@ async function generateObjectionsForCategory(
   structure: ArgumentStructure,
   category: 'logical' | 'evidential' | 'practical' | 'audience' | 'methodological',
   targetCount: number,
-  startNumber: number,
   audience: string,
   customInstructions: string
 ): Promise<ObjectionBatch> {
-  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-
   const categoryPrompts: Record<string, string> = {
     logical: `Generate objections focused on LOGICAL FLAWS:
 - Internal contradictions
@@ -182,57 +175,26 @@ Their likely concerns: ${structure.audienceConsiderations.join('; ')}`,
 
 For each objection:
 1. Frame it as something a critical reader would actually say/think
-2. Provide a compelling counter-response
-3. Rate severity: "devastating" (fundamental flaw), "forceful" (appears strong but addressable), or "minor" (easily dismissed)
-
-Format as JSON array:
-[
-  {
-    "number": ${startNumber},
-    "objection": "The objection text",
-    "response": "The counter-response",
-    "severity": "devastating|forceful|minor"
-  }
-]`;
+2. Identify the claim it targets and where that claim appears
+3. Provide a compelling counter-response
+4. Rate severity: "fatal" (fundamental flaw), "serious" (strong but addressable), "moderate" (a real gap that is easily patched) or "minor" (easily dismissed)`;
 
   const userPrompt = `${categoryPrompts[category]}
 
 ${customInstructions ? `\nADDITIONAL FOCUS: ${customInstructions}` : ''}
 
-Generate exactly ${targetCount} objections (numbered ${startNumber} to ${startNumber + targetCount - 1}).
-Return ONLY the JSON array.`;
+Generate exactly ${targetCount} objections.`;
 
-  const response = await anthropic.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 4000,
+  const objections = await generateObjectionRecords({
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-20250514',
     system: systemPrompt,
-    messages: [{ role: "user", content: userPrompt }]
+    prompt: userPrompt,
+    expectedCount: targetCount,
+    maxTokens: 6000,
+    promptSummary: `Generate ${targetCount} ${category} objections`,
   });
-
-  const responseText = (response.content[0] as any).text;
-
-  try {
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const objections = JSON.parse(jsonMatch[0]);
-      return {
-        category,
-        objections: objections.map((obj: any, idx: number) => ({
-          number: startNumber + idx,
-          objection: obj.objection,
-          response: obj.response,
-          severity: obj.severity || 'forceful'
-        }))
-      };
-    }
-    throw new Error("No JSON array found");
-  } catch (parseError) {
-    console.error(`[OUTLINE-OBJECTIONS] Failed to parse ${category} objections:`, parseError);
-    return {
-      category,
-      objections: []
-    };
-  }
+  return { category, objections };
 }
 
 function formatObjectionsOutput(
@@ -243,13 +205,10 @@ function formatObjectionsOutput(
   customInstructions: string,
   wordCount: number
 ): string {
-  const allObjections = batches.flatMap(b => b.objections).sort((a, b) => a.number - b.number);
-  
-  const devastatingCount = allObjections.filter(o => o.severity === 'devastating').length;
-  const forcefulCount = allObjections.filter(o => o.severity === 'forceful').length;
-  const minorCount = allObjections.filter(o => o.severity === 'minor').length;
+  const allObjections = batches.flatMap(b => b.objections);
+  const severityCount = (severity: ObjectionRecord['severity']) => allObjections.filter(o => o.severity === severity).length;
 
-  let output = `═══════════════════════════════════════════════════
+  const output = `═══════════════════════════════════════════════════
 OBJECTIONS & COUNTER-ARGUMENTS (${allObjections.length} Items)
 ═══════════════════════════════════════════════════
 Target Audience: ${audience || 'General'}
@@ -264,28 +223,14 @@ Main Claims: ${structure.mainClaims.length}
 Key Assumptions: ${structure.assumptions.length}
 
 SEVERITY SUMMARY:
-- Devastating objections: ${devastatingCount}
-- Forceful objections: ${forcefulCount}
-- Minor objections: ${minorCount}
+- Fatal objections: ${severityCount('fatal')}
+- Serious objections: ${severityCount('serious')}
+- Moderate objections: ${severityCount('moderate')}
+- Minor objections: ${severityCount('minor')}
 
 ═══════════════════════════════════════════════════
 
-`;
-
-  for (const obj of allObjections) {
-    const severityLabel = obj.severity === 'devastating' ? '[DEVASTATING]' :
-                         obj.severity === 'forceful' ? '[FORCEFUL]' : '[MINOR]';
-    
-    output += `**OBJECTION #${obj.number}:** ${severityLabel}
-${obj.objection}
-
-**RESPONSE:**
-${obj.response}
-
----
-
-`;
-  }
+${renderObjectionsProse(allObjections)}`;
 
   return output.trim();
 }
@@ -299,7 +244,7 @@ export async function outlineFirstObjections(
   const wordCount = countWords(text);
   console.log(`[OUTLINE-OBJECTIONS] Processing document of ${wordCount} words`);
 
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!isProviderConfigured('anthropic') && !process.env.LLM_PROVIDER_OVERRIDE) {
     return {
       success: false,
       output: '',
@@ -332,7 +277,6 @@ export async function outlineFirstObjections(
         structure,
         config.category,
         config.count,
-        currentNumber,
         audience,
         customInstructions
       );
@@ -352,6 +296,7 @@ export async function outlineFirstObjections(
     return {
       success: true,
       output,
+      objections: batches.flatMap(b => b.objections),
       structure
     };
 
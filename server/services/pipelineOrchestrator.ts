@@ -1,26 +1,34 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { db } from '../db';
 import { 
   pipelineJobs, pipelineChunks, pipelineObjections,
   PipelineJob, PipelineChunk, PipelineObjection,
   PipelineSkeleton1, PipelineSkeleton2, PipelineSkeleton3, PipelineSkeleton4,
-  HCViolation, HCCheckResult, GlobalSkeleton
+  HCViolation, HCCheckResult, GlobalSkeleton,
+  pipelineStageRuns, PipelineStageRun, PipelineStageDefinition, PipelineSkeletonType,
+  DEFAULT_PIPELINE_STAGES, PIPELINE_ORIGINAL_INPUT, pipelineStagesSchema, ObjectionRecord,
+  ObjectionTriageDecision, PipelineIntegrationStrategy, IntegrationStatus, IntegrationSpan
 } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, asc, desc } from 'drizzle-orm';
 import { safeDbInsert, safeDbUpdate, safeDbInsertRequired, safeDbUpdateRequired } from './dbHelper';
 import { logLLMCall, logChunkProcessing, summarizeText } from './auditService';
-
-const anthropic = new Anthropic();
+import { completePrompt } from './llmProviders';
+import { runChunksWithConcurrency, getChunkConcurrency } from './chunkScheduler';
+import { generateObjectionRecords, renderObjectionsProse } from './objectionContract';
+import { verifyIntegrations } from './integrationVerifier';
 
 // ═══════════════════════════════════════════════════════════════════════════
-// PIPELINE ORCHESTRATOR - 4-Stage Cross-Chunk Coherence Pipeline
-// Stage 1: Reconstruction, Stage 2: Objections, Stage 3: Responses, Stage 4: Bullet-proof
+// PIPELINE ORCHESTRATOR - Multi-Stage Cross-Chunk Coherence Pipeline
+// Default stages: Reconstruction, Objections, Responses, Bullet-proof.
+// Jobs may compose their own sequence from PipelineStageDefinitions: the four
+// built-in stage types plus free-form 'text' stages driven by a prompt template.
 // ═══════════════════════════════════════════════════════════════════════════
 
 export interface PipelineParams {
   customInstructions?: string;
   targetAudience?: string;
   objective?: string;
+  // Stage sequence for this job; defaults to DEFAULT_PIPELINE_STAGES
+  stages?: PipelineStageDefinition[];
 }
 
 export interface PipelineProgress {
@@ -34,10 +42,18 @@ export interface PipelineProgress {
     chunksCompleted: number;
     totalChunks: number;
   };
+  // Parallel chunk processing within the current stage
+  concurrency: {
+    limit: number;
+    inFlight: number;
+  };
 }
 
 export type PipelineProgressCallback = (progress: PipelineProgress) => void;
 
+// Stage-level progress: chunk counts plus how many chunks are currently in flight
+type StageProgressCallback = (msg: string, completed: number, total: number, inFlight?: number) => void;
+
 // Word counting utility
 function countWords(text: string): number {
   return text.trim().split(/\s+/).filter(w => w).length;
@@ -47,12 +63,124 @@ function countWords(text: string): number {
 // MAIN ORCHESTRATOR
 // ═══════════════════════════════════════════════════════════════════════════
 
+interface StageOutcome {
+  definition: PipelineStageDefinition;
+  index: number;
+  output: string;
+  skeleton: any;
+}
+
+// Checks that a stage list can run: unique names, inputs that point backwards,
+// prompt templates only on text stages, and the earlier stages each built-in
+// handler draws its skeletons from.
+// Returns a list of problems; an empty list means the definitions are usable.
+export function validatePipelineStages(stages: PipelineStageDefinition[]): string[] {
+  const errors: string[] = [];
+  const parsed = pipelineStagesSchema.safeParse(stages);
+  if (!parsed.success) {
+    return parsed.error.errors.map(e => `${e.path.join('.') || 'stages'}: ${e.message}`);
+  }
+  
+  const seen = new Map<string, PipelineSkeletonType>();
+  stages.forEach((stage, i) => {
+    const label = `Stage ${i + 1} (${stage.name})`;
+    if (stage.name === PIPELINE_ORIGINAL_INPUT || seen.has(stage.name)) {
+      errors.push(`${label}: name must be unique and not "${PIPELINE_ORIGINAL_INPUT}"`);
+    }
+    for (const input of stage.inputs || []) {
+      if (input !== PIPELINE_ORIGINAL_INPUT && !seen.has(input)) {
+        errors.push(`${label}: input "${input}" is not an earlier stage`);
+      }
+    }
+    
+    // Built-in stages run their own prompts, so a template there would be silently ignored
+    if (stage.skeletonType !== 'text' && stage.promptTemplate?.trim()) {
+      errors.push(`${label}: promptTemplate is only used by text stages, not ${stage.skeletonType}`);
+    }
+    
+    const hasEarlier = (type: PipelineSkeletonType) => Array.from(seen.values()).includes(type);
+    switch (stage.skeletonType) {
+      case 'text':
+        if (!stage.promptTemplate?.trim()) {
+          errors.push(`${label}: text stages require a promptTemplate`);
+        }
+        break;
+      case 'objections':
+        if (!hasEarlier('reconstruction')) errors.push(`${label}: objections require an earlier reconstruction stage`);
+        if (hasEarlier('objections')) errors.push(`${label}: only one objections stage is allowed per pipeline`);
+        break;
+      case 'responses':
+        if (!hasEarlier('objections')) errors.push(`${label}: responses require an earlier objections stage`);
+        break;
+      case 'bulletproof':
+        if (!hasEarlier('responses')) errors.push(`${label}: bullet-proofing requires an earlier responses stage`);
+        break;
+    }
+    seen.set(stage.name, stage.skeletonType);
+  });
+  
+  return errors;
+}
+
+// Replaces {{input}}, {{input:<stage>}} and the job parameters in a text stage's template
+function renderStagePrompt(
+  template: string,
+  primaryInput: string,
+  readInput: (name: string) => string,
+  params: PipelineParams
+): string {
+  return template
+    .replace(/\{\{input:([a-z0-9_-]+)\}\}/gi, (_, name) => readInput(name))
+    .replace(/\{\{input\}\}/g, primaryInput)
+    .replace(/\{\{customInstructions\}\}/g, params.customInstructions || '')
+    .replace(/\{\{targetAudience\}\}/g, params.targetAudience || '')
+    .replace(/\{\{objective\}\}/g, params.objective || '');
+}
+
+async function runTextStage(
+  stage: PipelineStageDefinition,
+  prompt: string,
+  jobId: number,
+  onProgress: StageProgressCallback
+): Promise<string> {
+  onProgress(`Running ${stage.label || stage.name}...`, 0, 1);
+  
+  const startTime = Date.now();
+  const response = await completePrompt('anthropic', prompt, {
+    model: 'claude-sonnet-4-20250514',
+    maxTokens: stage.maxTokens || 8000
+  });
+  await logLLMCall({
+    jobId,
+    jobType: `pipeline_${stage.name}`,
+    modelName: response.model,
+    provider: response.provider,
+    exchange: response,
+    promptSummary: `Stage ${stage.name}`,
+    promptFull: prompt,
+    responseSummary: summarizeText(response.text, 200),
+    responseFull: response.text,
+    inputTokens: response.inputTokens,
+    outputTokens: response.outputTokens,
+    latencyMs: Date.now() - startTime,
+    status: 'success'
+  });
+  
+  onProgress(`${stage.label || stage.name} complete`, 1, 1);
+  return response.text;
+}
+
 export async function runFullPipeline(
   originalText: string,
   params: PipelineParams,
   userId?: number,
   onProgress?: PipelineProgressCallback,
-  existingJobId?: number
+  existingJobId?: number,
+  // Continue an interrupted run of existingJobId: stages already recorded as
+  // complete are reused instead of being run again
+  resume = false,
+  // Job worker runs: aborted when the worker loses the job's lease
+  signal?: AbortSignal
 ): Promise<{
   success: boolean;
   jobId: number;
@@ -60,7 +188,10 @@ export async function runFullPipeline(
   objections?: string;
   responses?: string;
   bulletproof?: string;
+  stageOutputs?: Record<string, string>;
   hcCheck?: HCCheckResult;
+  // Stopped after the objections stage to wait for the user's triage
+  paused?: boolean;
   error?: string;
 }> {
   const startTime = Date.now();
@@ -69,8 +200,58 @@ export async function runFullPipeline(
   console.log(`[Pipeline] Starting full pipeline with ${wordCount} words`);
   
   let jobId: number;
+  let stages: PipelineStageDefinition[] = params.stages || DEFAULT_PIPELINE_STAGES;
   
   // Use existing job if provided, otherwise create new one
+  if (existingJobId) {
+    // Stages chosen when the job was created apply unless the caller overrides them
+    if (!params.stages) {
+      const [existing] = await db.select({ stageDefinitions: pipelineJobs.stageDefinitions })
+        .from(pipelineJobs).where(eq(pipelineJobs.id, existingJobId));
+      if (existing?.stageDefinitions) {
+        stages = existing.stageDefinitions as PipelineStageDefinition[];
+      }
+    }
+  }
+  
+  const stageErrors = validatePipelineStages(stages);
+  if (stageErrors.length > 0) {
+    throw new Error(`Invalid pipeline stages: ${stageErrors.join('; ')}`);
+  }
+  const totalStages = stages.length;
+  
+  const completed = new Map<string, StageOutcome>();
+  if (existingJobId && resume) {
+    // Only the unbroken run of completed stages from the start is reused:
+    // every later stage reads the outputs of the ones before it
+    const runs = await getPipelineStageRuns(existingJobId);
+    for (let i = 0; i < stages.length; i++) {
+      const run = runs.find(r => r.stageIndex === i + 1 && r.stageName === stages[i].name && r.status === 'complete');
+      if (!run) break;
+      completed.set(stages[i].name, { definition: stages[i], index: i + 1, output: run.output || '', skeleton: run.skeleton });
+    }
+    
+    try {
+      console.log(`[DB] Closing interrupted pipelineStageRuns, jobId: ${existingJobId}`);
+      await db.update(pipelineStageRuns).set({
+        status: 'failed',
+        errorMessage: 'Interrupted',
+        endTime: new Date()
+      }).where(and(eq(pipelineStageRuns.jobId, existingJobId), eq(pipelineStageRuns.status, 'running')));
+      
+      // Objections are stored row by row, so an objections stage that runs again starts from an empty table
+      const completedObjections = Array.from(completed.values()).some(s => s.definition.skeletonType === 'objections');
+      if (!completedObjections && stages.slice(completed.size).some(s => s.skeletonType === 'objections')) {
+        await db.delete(pipelineObjections).where(eq(pipelineObjections.jobId, existingJobId));
+      }
+    } catch (dbError: any) {
+      console.error(`[DB] FAILED to prepare job ${existingJobId} for resume:`, dbError.message);
+      throw new Error(`Database update failed: ${dbError.message}`);
+    }
+    console.log(`[Pipeline] Resuming job ${existingJobId}: ${completed.size}/${totalStages} stages already complete`);
+  }
+  const firstStage = completed.size;
+  
   if (existingJobId) {
     jobId = existingJobId;
     // Update existing job to running status
@@ -78,8 +259,10 @@ export async function runFullPipeline(
       console.log(`[DB] Updating existing job ${existingJobId} to running status`);
       await db.update(pipelineJobs).set({
         status: 'running',
-        currentStage: 1,
+        currentStage: firstStage + 1,
         stageStatus: 'pending',
+        stageDefinitions: stages as any,
+        totalStages,
         updatedAt: new Date()
       }).where(eq(pipelineJobs.id, existingJobId));
       console.log(`[DB] Successfully updated job ${existingJobId}`);
@@ -99,6 +282,8 @@ export async function runFullPipeline(
         customInstructions: params.customInstructions,
         targetAudience: params.targetAudience,
         objective: params.objective,
+        stageDefinitions: stages as any,
+        totalStages,
         status: 'running',
         currentStage: 1,
         stageStatus: 'pending'
@@ -112,289 +297,279 @@ export async function runFullPipeline(
     console.log(`[Pipeline] Created new job ${jobId}`);
   }
   
-  const emitProgress = (stage: number, status: string, message: string, chunksCompleted = 0, totalChunks = 0) => {
+  const chunkConcurrency = getChunkConcurrency();
+  const emitProgress = (stage: number, status: string, message: string, chunksCompleted = 0, totalChunks = 0, inFlight = 0) => {
     if (onProgress) {
       onProgress({
         jobId,
         currentStage: stage,
         stageStatus: status,
         message,
-        progress: { stage, totalStages: 4, chunksCompleted, totalChunks }
+        progress: { stage, totalStages, chunksCompleted, totalChunks },
+        concurrency: { limit: chunkConcurrency, inFlight }
       });
     }
   };
   
+  let currentStageRunId: number | null = null;
+  
   try {
-    // ══════════════════════════════════════════════════════════════════
-    // STAGE 1: RECONSTRUCTION
-    // ══════════════════════════════════════════════════════════════════
-    console.log(`[Pipeline ${jobId}] Starting Stage 1: Reconstruction`);
-    emitProgress(1, 'running', 'Starting reconstruction...');
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 1 start, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        currentStage: 1,
-        stageStatus: 'running',
-        stage1StartTime: new Date()
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 1 start`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 1 start:`, dbError.message);
-    }
-    
-    const stage1Result = await runStage1Reconstruction(
-      originalText,
-      params,
-      jobId,
-      (msg, completed, total) => emitProgress(1, 'chunk_processing', msg, completed, total)
-    );
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 1 complete, jobId: ${jobId}, words: ${countWords(stage1Result.output)}`);
-      await db.update(pipelineJobs).set({
-        reconstructionOutput: stage1Result.output,
-        reconstructionWords: countWords(stage1Result.output),
-        skeleton1: stage1Result.skeleton as any,
-        stage1EndTime: new Date(),
-        stageStatus: 'complete'
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 1 complete`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 1 complete:`, dbError.message);
-    }
-    
-    console.log(`[Pipeline ${jobId}] Stage 1 complete: ${countWords(stage1Result.output)} words`);
-    
-    // ══════════════════════════════════════════════════════════════════
-    // STAGE 2: OBJECTIONS
-    // ══════════════════════════════════════════════════════════════════
-    console.log(`[Pipeline ${jobId}] Starting Stage 2: Objections`);
-    emitProgress(2, 'running', 'Starting objections generation...');
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 2 start, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        currentStage: 2,
-        stageStatus: 'running',
-        stage2StartTime: new Date()
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 2 start`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 2 start:`, dbError.message);
-    }
-    
-    const stage2Result = await runStage2Objections(
-      stage1Result.output,
-      stage1Result.skeleton,
-      params,
-      jobId,
-      (msg, completed, total) => emitProgress(2, 'chunk_processing', msg, completed, total)
-    );
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 2 complete, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        objectionsOutput: stage2Result.output,
-        objectionsWords: countWords(stage2Result.output),
-        skeleton2: stage2Result.skeleton as any,
-        stage2EndTime: new Date(),
-        stageStatus: 'complete'
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 2 complete`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 2 complete:`, dbError.message);
-    }
-    
-    // Store individual objections
-    for (const obj of stage2Result.objections) {
+    for (let i = firstStage; i < stages.length; i++) {
+      signal?.throwIfAborted();
+      const stage = stages[i];
+      const stageNumber = i + 1;
+      const stageLabel = stage.label || stage.name;
+      const inputs = stage.inputs?.length
+        ? stage.inputs
+        : [i === 0 ? PIPELINE_ORIGINAL_INPUT : stages[i - 1].name];
+      
+      const readInput = (name: string): string =>
+        name === PIPELINE_ORIGINAL_INPUT ? originalText : completed.get(name)?.output || '';
+      // The stage a built-in handler draws a skeleton from: a declared input of
+      // that type if there is one, otherwise the most recent stage of that type
+      const sourceOf = (type: PipelineSkeletonType): StageOutcome => {
+        const declared = inputs.map(name => completed.get(name)).find(s => s?.definition.skeletonType === type);
+        const latest = Array.from(completed.values()).reverse().find(s => s.definition.skeletonType === type);
+        return (declared || latest)!;
+      };
+      const primaryInput = readInput(inputs[0]);
+      const onStageProgress: StageProgressCallback = (msg, done, total, inFlight) =>
+        emitProgress(stageNumber, 'chunk_processing', msg, done, total, inFlight);
+      
+      console.log(`[Pipeline ${jobId}] Starting Stage ${stageNumber}/${totalStages}: ${stageLabel}`);
+      emitProgress(stageNumber, 'running', `Starting ${stageLabel}...`);
+      
       try {
-        console.log(`[DB] Inserting pipelineObjections, jobId: ${jobId}, index: ${obj.index}`);
-        await db.insert(pipelineObjections).values({
+        console.log(`[DB] Updating pipelineJobs stage ${stageNumber} start, jobId: ${jobId}`);
+        await db.update(pipelineJobs).set({
+          currentStage: stageNumber,
+          stageStatus: 'running'
+        }).where(eq(pipelineJobs.id, jobId));
+        const [run] = await db.insert(pipelineStageRuns).values({
           jobId,
-          objectionIndex: obj.index,
-          claimTargeted: obj.claimTargeted,
-          claimLocation: obj.claimLocation,
-          objectionType: obj.type,
-          objectionText: obj.objection,
-          initialResponse: obj.response,
-          severity: obj.severity
-        });
-        console.log(`[DB] Successfully inserted pipelineObjections index ${obj.index}`);
+          stageIndex: stageNumber,
+          stageName: stage.name,
+          skeletonType: stage.skeletonType,
+          status: 'running',
+          startTime: new Date()
+        }).returning();
+        currentStageRunId = run.id;
+        console.log(`[DB] Successfully recorded stage ${stageNumber} start`);
       } catch (dbError: any) {
-        console.error(`[DB] FAILED to insert pipelineObjections index ${obj.index}:`, dbError.message);
+        currentStageRunId = null;
+        console.error(`[DB] FAILED to record stage ${stageNumber} start:`, dbError.message);
       }
-    }
-    
-    console.log(`[Pipeline ${jobId}] Stage 2 complete: ${stage2Result.objections.length} objections`);
-    
-    // ══════════════════════════════════════════════════════════════════
-    // STAGE 3: ENHANCED RESPONSES
-    // ══════════════════════════════════════════════════════════════════
-    console.log(`[Pipeline ${jobId}] Starting Stage 3: Enhanced Responses`);
-    emitProgress(3, 'running', 'Enhancing responses...');
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 3 start, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        currentStage: 3,
-        stageStatus: 'running',
-        stage3StartTime: new Date()
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 3 start`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 3 start:`, dbError.message);
-    }
-    
-    const stage3Result = await runStage3Responses(
-      stage2Result.output,
-      stage1Result.skeleton,
-      stage2Result.skeleton,
-      jobId,
-      (msg, completed, total) => emitProgress(3, 'chunk_processing', msg, completed, total)
-    );
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 3 complete, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        responsesOutput: stage3Result.output,
-        responsesWords: countWords(stage3Result.output),
-        skeleton3: stage3Result.skeleton as any,
-        stage3EndTime: new Date(),
-        stageStatus: 'complete'
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 3 complete`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 3 complete:`, dbError.message);
-    }
-    
-    // Update objections with enhanced responses
-    for (const resp of stage3Result.responses) {
-      try {
-        console.log(`[DB] Updating pipelineObjections enhanced response, index: ${resp.index}`);
-        await db.update(pipelineObjections).set({
-          enhancedResponse: resp.enhancedResponse,
-          enhancementNotes: resp.enhancementNotes
-        }).where(
-          and(
-            eq(pipelineObjections.jobId, jobId),
-            eq(pipelineObjections.objectionIndex, resp.index)
-          )
-        );
-        console.log(`[DB] Successfully updated pipelineObjections enhanced response index ${resp.index}`);
-      } catch (dbError: any) {
-        console.error(`[DB] FAILED to update pipelineObjections enhanced response index ${resp.index}:`, dbError.message);
+      
+      let output: string;
+      let skeleton: any = null;
+      // Built-in stages also fill the job's legacy output/skeleton columns,
+      // which the status routes and the horizontal coherence check read
+      let legacyColumns: Partial<typeof pipelineJobs.$inferInsert> = {};
+      
+      switch (stage.skeletonType) {
+        case 'reconstruction': {
+          const result = await runStage1Reconstruction(primaryInput, params, jobId, onStageProgress);
+          output = result.output;
+          skeleton = result.skeleton;
+          legacyColumns = { reconstructionOutput: output, reconstructionWords: countWords(output), skeleton1: skeleton };
+          break;
+        }
+        case 'objections': {
+          const reconstruction = sourceOf('reconstruction');
+          const result = await runStage2Objections(primaryInput, reconstruction.skeleton, params, jobId, onStageProgress);
+          output = result.output;
+          skeleton = result.skeleton;
+          legacyColumns = { objectionsOutput: output, objectionsWords: countWords(output), skeleton2: skeleton };
+          
+          // Store individual objections
+          for (const obj of result.objections) {
+            try {
+              console.log(`[DB] Inserting pipelineObjections, jobId: ${jobId}, index: ${obj.index}`);
+              await db.insert(pipelineObjections).values({
+                jobId,
+                objectionIndex: obj.index,
+                claimTargeted: obj.claimTargeted,
+                claimLocation: obj.claimLocation,
+                objectionType: obj.objectionType,
+                objectionText: obj.objectionText,
+                initialResponse: obj.initialResponse,
+                severity: obj.severity
+              });
+              console.log(`[DB] Successfully inserted pipelineObjections index ${obj.index}`);
+            } catch (dbError: any) {
+              console.error(`[DB] FAILED to insert pipelineObjections index ${obj.index}:`, dbError.message);
+            }
+          }
+          console.log(`[Pipeline ${jobId}] ${stageLabel}: ${result.objections.length} objections`);
+          break;
+        }
+        case 'responses': {
+          const result = await runStage3Responses(
+            primaryInput,
+            sourceOf('reconstruction').skeleton,
+            sourceOf('objections').skeleton,
+            jobId,
+            onStageProgress
+          );
+          output = result.output;
+          skeleton = result.skeleton;
+          legacyColumns = { responsesOutput: output, responsesWords: countWords(output), skeleton3: skeleton };
+          
+          // Update objections with enhanced responses
+          for (const resp of result.responses) {
+            try {
+              console.log(`[DB] Updating pipelineObjections enhanced response, index: ${resp.index}`);
+              await db.update(pipelineObjections).set({
+                enhancedResponse: resp.enhancedResponse,
+                enhancementNotes: resp.enhancementNotes
+              }).where(
+                and(
+                  eq(pipelineObjections.jobId, jobId),
+                  eq(pipelineObjections.objectionIndex, resp.index)
+                )
+              );
+              console.log(`[DB] Successfully updated pipelineObjections enhanced response index ${resp.index}`);
+            } catch (dbError: any) {
+              console.error(`[DB] FAILED to update pipelineObjections enhanced response index ${resp.index}:`, dbError.message);
+            }
+          }
+          console.log(`[Pipeline ${jobId}] ${stageLabel}: ${result.responses.length} enhanced responses`);
+          break;
+        }
+        case 'bulletproof': {
+          const reconstruction = sourceOf('reconstruction');
+          const responses = sourceOf('responses');
+          const result = await runStage4Bulletproof(
+            reconstruction.output,
+            responses.output,
+            {
+              skeleton1: reconstruction.skeleton,
+              skeleton2: sourceOf('objections').skeleton,
+              skeleton3: responses.skeleton
+            },
+            jobId,
+            onStageProgress
+          );
+          output = result.output;
+          skeleton = result.skeleton;
+          legacyColumns = { bulletproofOutput: output, bulletproofWords: countWords(output), skeleton4: skeleton };
+          
+          // Update objection integration tracking with the verifier's findings
+          for (const integration of result.integrations) {
+            try {
+              console.log(`[DB] Updating pipelineObjections integration, index: ${integration.objectionIndex}`);
+              await db.update(pipelineObjections).set({
+                integratedInSection: integration.section,
+                integrationStrategy: integration.strategy,
+                integrationVerified: integration.status === 'integrated',
+                integrationStatus: integration.status,
+                integrationSpan: integration.span,
+                integrationNote: integration.note
+              }).where(
+                and(
+                  eq(pipelineObjections.jobId, jobId),
+                  eq(pipelineObjections.objectionIndex, integration.objectionIndex)
+                )
+              );
+              console.log(`[DB] Successfully updated pipelineObjections integration index ${integration.objectionIndex}`);
+            } catch (dbError: any) {
+              console.error(`[DB] FAILED to update pipelineObjections integration index ${integration.objectionIndex}:`, dbError.message);
+            }
+          }
+          break;
+        }
+        case 'text': {
+          const prompt = renderStagePrompt(stage.promptTemplate || '', primaryInput, readInput, params);
+          output = await runTextStage(stage, prompt, jobId, onStageProgress);
+          break;
+        }
+        default:
+          throw new Error(`Unknown stage type: ${(stage as PipelineStageDefinition).skeletonType}`);
       }
-    }
-    
-    console.log(`[Pipeline ${jobId}] Stage 3 complete: ${stage3Result.responses.length} enhanced responses`);
-    
-    // ══════════════════════════════════════════════════════════════════
-    // STAGE 4: BULLET-PROOF VERSION
-    // ══════════════════════════════════════════════════════════════════
-    console.log(`[Pipeline ${jobId}] Starting Stage 4: Bullet-proof Version`);
-    emitProgress(4, 'running', 'Creating bullet-proof version...');
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 4 start, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        currentStage: 4,
-        stageStatus: 'running',
-        stage4StartTime: new Date()
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 4 start`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 4 start:`, dbError.message);
-    }
-    
-    const stage4Result = await runStage4Bulletproof(
-      stage1Result.output,
-      stage3Result.output,
-      {
-        skeleton1: stage1Result.skeleton,
-        skeleton2: stage2Result.skeleton,
-        skeleton3: stage3Result.skeleton
-      },
-      jobId,
-      (msg, completed, total) => emitProgress(4, 'chunk_processing', msg, completed, total)
-    );
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs stage 4 complete, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        bulletproofOutput: stage4Result.output,
-        bulletproofWords: countWords(stage4Result.output),
-        skeleton4: stage4Result.skeleton as any,
-        stage4EndTime: new Date(),
-        stageStatus: 'complete'
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs stage 4 complete`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs stage 4 complete:`, dbError.message);
-    }
-    
-    // Update objection integration tracking
-    for (const integration of stage4Result.integrations) {
+      
+      completed.set(stage.name, { definition: stage, index: stageNumber, output, skeleton });
+      
       try {
-        console.log(`[DB] Updating pipelineObjections integration, index: ${integration.objectionIndex}`);
-        await db.update(pipelineObjections).set({
-          integratedInSection: integration.section,
-          integrationStrategy: integration.strategy,
-          integrationVerified: true
-        }).where(
-          and(
-            eq(pipelineObjections.jobId, jobId),
-            eq(pipelineObjections.objectionIndex, integration.objectionIndex)
-          )
-        );
-        console.log(`[DB] Successfully updated pipelineObjections integration index ${integration.objectionIndex}`);
+        console.log(`[DB] Updating pipelineJobs stage ${stageNumber} complete, jobId: ${jobId}, words: ${countWords(output)}`);
+        await db.update(pipelineJobs).set({
+          ...legacyColumns,
+          stageStatus: 'complete'
+        }).where(eq(pipelineJobs.id, jobId));
+        if (currentStageRunId !== null) {
+          await db.update(pipelineStageRuns).set({
+            output,
+            outputWords: countWords(output),
+            skeleton,
+            status: 'complete',
+            endTime: new Date()
+          }).where(eq(pipelineStageRuns.id, currentStageRunId));
+        }
+        currentStageRunId = null;
+        console.log(`[DB] Successfully recorded stage ${stageNumber} complete`);
       } catch (dbError: any) {
-        console.error(`[DB] FAILED to update pipelineObjections integration index ${integration.objectionIndex}:`, dbError.message);
+        console.error(`[DB] FAILED to record stage ${stageNumber} complete:`, dbError.message);
+      }
+      
+      console.log(`[Pipeline ${jobId}] Stage ${stageNumber} (${stageLabel}) complete: ${countWords(output)} words`);
+      
+      if (stage.skeletonType === 'objections' && i < stages.length - 1 && await awaitsTriage(jobId)) {
+        console.log(`[DB] Updating pipelineJobs to paused for objection triage, jobId: ${jobId}`);
+        await db.update(pipelineJobs).set({
+          status: 'paused',
+          stageStatus: 'awaiting_triage',
+          updatedAt: new Date()
+        }).where(eq(pipelineJobs.id, jobId));
+        console.log(`[Pipeline ${jobId}] Paused after ${stageLabel} for objection triage`);
+        emitProgress(stageNumber, 'awaiting_triage', 'Waiting for objection triage');
+        return { success: true, jobId, objections: output, paused: true };
       }
     }
     
-    console.log(`[Pipeline ${jobId}] Stage 4 complete: ${countWords(stage4Result.output)} words`);
-    
     // ══════════════════════════════════════════════════════════════════
     // HORIZONTAL COHERENCE CHECK
+    // Only meaningful once a bullet-proof version exists to check
     // ══════════════════════════════════════════════════════════════════
-    console.log(`[Pipeline ${jobId}] Running Horizontal Coherence Check`);
-    emitProgress(4, 'hc_check', 'Verifying horizontal coherence...');
+    let hcResult: HCCheckResult | undefined;
     
-    const hcResult = await runHorizontalCoherenceCheck(jobId);
-    
-    try {
-      console.log(`[DB] Updating pipelineJobs HC check results, jobId: ${jobId}`);
-      await db.update(pipelineJobs).set({
-        hcCheckResults: hcResult as any,
-        hcViolations: hcResult.violations as any,
-        hcCheckTime: new Date()
-      }).where(eq(pipelineJobs.id, jobId));
-      console.log(`[DB] Successfully updated pipelineJobs HC check results`);
-    } catch (dbError: any) {
-      console.error(`[DB] FAILED to update pipelineJobs HC check results:`, dbError.message);
-    }
-    
-    // If HC violations found, attempt repair
-    if (hcResult.violations.length > 0) {
-      console.log(`[Pipeline ${jobId}] HC violations found: ${hcResult.violations.length}`);
+    if (stages.some(s => s.skeletonType === 'bulletproof')) {
+      console.log(`[Pipeline ${jobId}] Running Horizontal Coherence Check`);
+      emitProgress(totalStages, 'hc_check', 'Verifying horizontal coherence...');
+      
+      hcResult = await runHorizontalCoherenceCheck(jobId);
       
-      const errorCount = hcResult.violations.filter(v => v.severity === 'error').length;
+      try {
+        console.log(`[DB] Updating pipelineJobs HC check results, jobId: ${jobId}`);
+        await db.update(pipelineJobs).set({
+          hcCheckResults: hcResult as any,
+          hcViolations: hcResult.violations as any,
+          hcCheckTime: new Date()
+        }).where(eq(pipelineJobs.id, jobId));
+        console.log(`[DB] Successfully updated pipelineJobs HC check results`);
+      } catch (dbError: any) {
+        console.error(`[DB] FAILED to update pipelineJobs HC check results:`, dbError.message);
+      }
       
-      if (errorCount > 0) {
-        // Attempt repair
-        const repairResult = await attemptHCRepair(jobId, hcResult);
+      // If HC violations found, attempt repair
+      if (hcResult.violations.length > 0) {
+        console.log(`[Pipeline ${jobId}] HC violations found: ${hcResult.violations.length}`);
         
-        if (!repairResult.success) {
-          try {
-            console.log(`[DB] Updating pipelineJobs status to completed_with_warnings, jobId: ${jobId}`);
-            await db.update(pipelineJobs).set({
-              status: 'completed_with_warnings',
-              updatedAt: new Date()
-            }).where(eq(pipelineJobs.id, jobId));
-            console.log(`[DB] Successfully updated pipelineJobs status`);
-          } catch (dbError: any) {
-            console.error(`[DB] FAILED to update pipelineJobs status:`, dbError.message);
+        const errorCount = hcResult.violations.filter(v => v.severity === 'error').length;
+        
+        if (errorCount > 0) {
+          // Attempt repair
+          const repairResult = await attemptHCRepair(jobId, hcResult);
+          
+          if (!repairResult.success) {
+            try {
+              console.log(`[DB] Updating pipelineJobs status to completed_with_warnings, jobId: ${jobId}`);
+              await db.update(pipelineJobs).set({
+                status: 'completed_with_warnings',
+                updatedAt: new Date()
+              }).where(eq(pipelineJobs.id, jobId));
+              console.log(`[DB] Successfully updated pipelineJobs status`);
+            } catch (dbError: any) {
+              console.error(`[DB] FAILED to update pipelineJobs status:`, dbError.message);
+            }
           }
         }
       }
@@ -403,7 +578,7 @@ export async function runFullPipeline(
     // ══════════════════════════════════════════════════════════════════
     // COMPLETE
     // ══════════════════════════════════════════════════════════════════
-    const finalStatus = hcResult.passed ? 'complete' : 'completed_with_warnings';
+    const finalStatus = !hcResult || hcResult.passed ? 'complete' : 'completed_with_warnings';
     
     try {
       console.log(`[DB] Updating pipelineJobs final status: ${finalStatus}, jobId: ${jobId}`);
@@ -419,19 +594,31 @@ export async function runFullPipeline(
     const totalTime = Date.now() - startTime;
     console.log(`[Pipeline ${jobId}] Complete in ${Math.round(totalTime / 1000)}s - Status: ${finalStatus}`);
     
-    emitProgress(4, 'complete', `Pipeline complete in ${Math.round(totalTime / 1000)}s`);
+    emitProgress(totalStages, 'complete', `Pipeline complete in ${Math.round(totalTime / 1000)}s`);
+    
+    const stageOutputs: Record<string, string> = {};
+    completed.forEach((outcome, name) => { stageOutputs[name] = outcome.output; });
+    const latestOutput = (type: PipelineSkeletonType) =>
+      Array.from(completed.values()).reverse().find(s => s.definition.skeletonType === type)?.output;
     
     return {
       success: true,
       jobId,
-      reconstruction: stage1Result.output,
-      objections: stage2Result.output,
-      responses: stage3Result.output,
-      bulletproof: stage4Result.output,
+      reconstruction: latestOutput('reconstruction'),
+      objections: latestOutput('objections'),
+      responses: latestOutput('responses'),
+      bulletproof: latestOutput('bulletproof'),
+      stageOutputs,
       hcCheck: hcResult
     };
     
   } catch (error: any) {
+    // The job now belongs to another worker, whose progress must not be overwritten
+    if (signal?.aborted) {
+      console.warn(`[Pipeline ${jobId}] Abandoned: ${error.message}`);
+      return { success: false, jobId, error: error.message };
+    }
+    
     console.error(`[Pipeline ${jobId}] Failed:`, error);
     
     try {
@@ -441,6 +628,13 @@ export async function runFullPipeline(
         errorMessage: error.message,
         updatedAt: new Date()
       }).where(eq(pipelineJobs.id, jobId));
+      if (currentStageRunId !== null) {
+        await db.update(pipelineStageRuns).set({
+          status: 'failed',
+          errorMessage: error.message,
+          endTime: new Date()
+        }).where(eq(pipelineStageRuns.id, currentStageRunId));
+      }
       console.log(`[DB] Successfully updated pipelineJobs to failed status`);
     } catch (dbError: any) {
       console.error(`[DB] FAILED to update pipelineJobs to failed status:`, dbError.message);
@@ -456,6 +650,113 @@ export async function runFullPipeline(
   }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// OBJECTION TRIAGE
+// Jobs created with pauseForTriage stop after their objections stage; the
+// user's decisions are written to pipeline_objections before the remaining
+// stages run, and those stages only see objections that were kept.
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function awaitsTriage(jobId: number): Promise<boolean> {
+  const [job] = await db.select({ pauseForTriage: pipelineJobs.pauseForTriage, triagedAt: pipelineJobs.triagedAt })
+    .from(pipelineJobs).where(eq(pipelineJobs.id, jobId));
+  return !!job?.pauseForTriage && !job.triagedAt;
+}
+
+async function getActiveObjections(jobId: number): Promise<PipelineObjection[]> {
+  return (await getPipelineObjections(jobId)).filter(o => !o.excluded);
+}
+
+// Applies the decisions, re-renders the objections stage from the kept
+// objections and queues the job, all in one transaction. Returns false when
+// the job is no longer waiting for triage (another request resumed it).
+export async function applyObjectionTriage(jobId: number, decisions: ObjectionTriageDecision[]): Promise<boolean> {
+  const applied = await db.transaction(async (tx) => {
+    // Locked so a concurrent resume or triage waits for this one to commit
+    const [job] = await tx.select({
+      status: pipelineJobs.status,
+      stageStatus: pipelineJobs.stageStatus,
+      stageDefinitions: pipelineJobs.stageDefinitions
+    }).from(pipelineJobs).where(eq(pipelineJobs.id, jobId)).for('update');
+    if (job?.status !== 'paused' || job.stageStatus !== 'awaiting_triage') {
+      return false;
+    }
+    
+    const objections = await tx.select().from(pipelineObjections)
+      .where(eq(pipelineObjections.jobId, jobId))
+      .orderBy(asc(pipelineObjections.objectionIndex));
+    const triaged = new Map<number, PipelineObjection>();
+    for (const decision of decisions) {
+      const objection = objections.find(o => o.objectionIndex === decision.index);
+      if (!objection) {
+        throw new Error(`Objection ${decision.index} does not exist`);
+      }
+      const edited = (['claimTargeted', 'objectionText', 'initialResponse', 'objectionType', 'severity'] as const)
+        .filter(field => decision[field] !== undefined && decision[field] !== objection[field]);
+      const [updated] = await tx.update(pipelineObjections).set({
+        excluded: decision.excluded ?? objection.excluded,
+        integrationStrategy: decision.integrationStrategy === undefined ? objection.integrationStrategy : decision.integrationStrategy,
+        ...Object.fromEntries(edited.map(field => [field, decision[field]])),
+        userEdited: objection.userEdited || edited.length > 0
+      }).where(eq(pipelineObjections.id, objection.id)).returning();
+      triaged.set(updated.id, updated);
+    }
+    
+    // The objections stage output and skeleton are what the remaining stages
+    // and the UI read, so they are rebuilt from the kept objections
+    const stages = (job.stageDefinitions as PipelineStageDefinition[] | null) || DEFAULT_PIPELINE_STAGES;
+    const stageIndex = stages.findIndex(s => s.skeletonType === 'objections') + 1;
+    const [run] = await tx.select().from(pipelineStageRuns)
+      .where(and(
+        eq(pipelineStageRuns.jobId, jobId),
+        eq(pipelineStageRuns.stageIndex, stageIndex),
+        eq(pipelineStageRuns.status, 'complete')
+      ))
+      .orderBy(desc(pipelineStageRuns.id))
+      .limit(1);
+    if (!run?.skeleton) {
+      throw new Error(`Job ${jobId} has no completed objections stage`);
+    }
+    const previous = run.skeleton as PipelineSkeleton2;
+    const kept = objections
+      .map(o => triaged.get(o.id) ?? o)
+      .filter(o => !o.excluded)
+      .map(toObjectionResult);
+    const { output, skeleton } = summarizeObjections(kept, previous.claimsToTarget, previous.inheritedCommitments);
+    
+    await tx.update(pipelineStageRuns).set({
+      output,
+      outputWords: countWords(output),
+      skeleton
+    }).where(eq(pipelineStageRuns.id, run.id));
+    await tx.update(pipelineJobs).set({
+      objectionsOutput: output,
+      objectionsWords: countWords(output),
+      skeleton2: skeleton,
+      status: 'queued',
+      triagedAt: new Date(),
+      updatedAt: new Date()
+    }).where(eq(pipelineJobs.id, jobId));
+    return true;
+  });
+  if (applied) {
+    console.log(`[Pipeline ${jobId}] Applied triage to ${decisions.length} objections`);
+  }
+  return applied;
+}
+
+function toObjectionResult(objection: PipelineObjection): ObjectionResult {
+  return {
+    index: objection.objectionIndex,
+    claimTargeted: objection.claimTargeted ?? '',
+    claimLocation: objection.claimLocation ?? '',
+    objectionType: objection.objectionType as ObjectionRecord['objectionType'],
+    objectionText: objection.objectionText ?? '',
+    severity: objection.severity as ObjectionRecord['severity'],
+    initialResponse: objection.initialResponse ?? ''
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // STAGE 1: RECONSTRUCTION (uses existing CC infrastructure)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -464,7 +765,7 @@ async function runStage1Reconstruction(
   text: string,
   params: PipelineParams,
   jobId: number,
-  onProgress: (msg: string, completed: number, total: number) => void
+  onProgress: StageProgressCallback
 ): Promise<{
   output: string;
   skeleton: PipelineSkeleton1;
@@ -489,30 +790,30 @@ Extract the following in JSON format:
 Return ONLY valid JSON, no other text.`;
 
   const startTime = Date.now();
-  const skeletonResponse = await anthropic.messages.create({
+  const skeletonResponse = await completePrompt('anthropic', skeletonPrompt, {
     model: 'claude-sonnet-4-20250514',
-    max_tokens: 4096,
-    messages: [{ role: 'user', content: skeletonPrompt }]
+    maxTokens: 4096
   });
-  const skeletonResponseText = skeletonResponse.content[0].type === 'text' ? skeletonResponse.content[0].text : '';
+  const skeletonResponseText = skeletonResponse.text;
   await logLLMCall({
     jobId,
     jobType: 'pipeline_stage1',
-    modelName: 'claude-sonnet-4-20250514',
-    provider: 'anthropic',
+    modelName: skeletonResponse.model,
+    provider: skeletonResponse.provider,
+    exchange: skeletonResponse,
     promptSummary: 'Extract document skeleton',
     promptFull: skeletonPrompt,
     responseSummary: summarizeText(skeletonResponseText, 200),
     responseFull: skeletonResponseText,
-    inputTokens: skeletonResponse.usage?.input_tokens,
-    outputTokens: skeletonResponse.usage?.output_tokens,
+    inputTokens: skeletonResponse.inputTokens,
+    outputTokens: skeletonResponse.outputTokens,
     latencyMs: Date.now() - startTime,
     status: 'success'
   });
   
   let skeleton: GlobalSkeleton;
   try {
-    const responseText = skeletonResponse.content[0].type === 'text' ? skeletonResponse.content[0].text : '';
+    const responseText = skeletonResponse.text;
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     skeleton = jsonMatch ? JSON.parse(jsonMatch[0]) : {
       thesis: '',
@@ -548,24 +849,24 @@ TASK: Rewrite this document as a rigorous analytical piece that:
 Output ONLY the reconstructed document, no commentary.`;
 
   const reconstructStartTime = Date.now();
-  const reconstructResponse = await anthropic.messages.create({
+  const reconstructResponse = await completePrompt('anthropic', reconstructPrompt, {
     model: 'claude-sonnet-4-20250514',
-    max_tokens: 16000,
-    messages: [{ role: 'user', content: reconstructPrompt }]
+    maxTokens: 16000
   });
   
-  const output = reconstructResponse.content[0].type === 'text' ? reconstructResponse.content[0].text : '';
+  const output = reconstructResponse.text;
   await logLLMCall({
     jobId,
     jobType: 'pipeline_stage1',
-    modelName: 'claude-sonnet-4-20250514',
-    provider: 'anthropic',
+    modelName: reconstructResponse.model,
+    provider: reconstructResponse.provider,
+    exchange: reconstructResponse,
     promptSummary: 'Reconstruct document',
     promptFull: reconstructPrompt,
     responseSummary: summarizeText(output, 200),
     responseFull: output,
-    inputTokens: reconstructResponse.usage?.input_tokens,
-    outputTokens: reconstructResponse.usage?.output_tokens,
+    inputTokens: reconstructResponse.inputTokens,
+    outputTokens: reconstructResponse.outputTokens,
     latencyMs: Date.now() - reconstructStartTime,
     status: 'success'
   });
@@ -586,14 +887,8 @@ Output ONLY the reconstructed document, no commentary.`;
 // STAGE 2: OBJECTIONS
 // ═══════════════════════════════════════════════════════════════════════════
 
-interface ObjectionResult {
+interface ObjectionResult extends ObjectionRecord {
   index: number;
-  claimTargeted: string;
-  claimLocation: string;
-  type: string;
-  objection: string;
-  response: string;
-  severity: string;
 }
 
 async function runStage2Objections(
@@ -601,7 +896,7 @@ async function runStage2Objections(
   skeleton1: PipelineSkeleton1,
   params: PipelineParams,
   jobId: number,
-  onProgress: (msg: string, completed: number, total: number) => void
+  onProgress: StageProgressCallback
 ): Promise<{
   output: string;
   skeleton: PipelineSkeleton2;
@@ -631,23 +926,23 @@ Return as JSON array:
 Return exactly 25 claims, ensuring variety across the document.`;
 
   const claimsStartTime = Date.now();
-  const claimsResponse = await anthropic.messages.create({
+  const claimsResponse = await completePrompt('anthropic', claimsPrompt, {
     model: 'claude-sonnet-4-20250514',
-    max_tokens: 8000,
-    messages: [{ role: 'user', content: claimsPrompt }]
+    maxTokens: 8000
   });
-  const claimsResponseText = claimsResponse.content[0].type === 'text' ? claimsResponse.content[0].text : '';
+  const claimsResponseText = claimsResponse.text;
   await logLLMCall({
     jobId,
     jobType: 'pipeline_stage2',
-    modelName: 'claude-sonnet-4-20250514',
-    provider: 'anthropic',
+    modelName: claimsResponse.model,
+    provider: claimsResponse.provider,
+    exchange: claimsResponse,
     promptSummary: 'Identify 25 claims to target',
     promptFull: claimsPrompt,
     responseSummary: summarizeText(claimsResponseText, 200),
     responseFull: claimsResponseText,
-    inputTokens: claimsResponse.usage?.input_tokens,
-    outputTokens: claimsResponse.usage?.output_tokens,
+    inputTokens: claimsResponse.inputTokens,
+    outputTokens: claimsResponse.outputTokens,
     latencyMs: Date.now() - claimsStartTime,
     status: 'success'
   });
@@ -666,17 +961,16 @@ Return exactly 25 claims, ensuring variety across the document.`;
   const allObjections: ObjectionResult[] = [];
   const totalChunks = 5;
   
-  for (let chunk = 0; chunk < totalChunks; chunk++) {
+  // Batches only depend on the Stage 1 skeleton, so they run in parallel
+  const batches = Array.from({ length: totalChunks }, (_, chunk) => chunk);
+  const batchObjections = await runChunksWithConcurrency(batches, async (chunk) => {
     const startIdx = chunk * 5;
     const endIdx = Math.min(startIdx + 5, 25);
     const chunkClaims = claimsToTarget.slice(startIdx, endIdx);
     
-    onProgress(`Generating objections ${startIdx + 1}-${endIdx}...`, chunk + 1, totalChunks + 1);
+    console.log(`[Stage 2] Generating objections ${startIdx + 1}-${endIdx}...`);
     
-    const objectionTypes = ['logical', 'empirical', 'conceptual', 'methodological', 'practical'];
-    const severities = ['fatal', 'serious', 'moderate', 'minor'];
-    
-    const objectionPrompt = `Generate objections and responses for these 5 claims from a philosophical document.
+    const objectionPrompt = `Generate objections and responses for these ${chunkClaims.length || 5} claims from a philosophical document.
 
 DOCUMENT SKELETON (commitments you must accurately represent):
 ${JSON.stringify(skeleton1.commitmentLedger, null, 2)}
@@ -684,70 +978,20 @@ ${JSON.stringify(skeleton1.commitmentLedger, null, 2)}
 TARGET CLAIMS FOR THIS CHUNK:
 ${JSON.stringify(chunkClaims, null, 2)}
 
-For each claim, generate:
-1. CLAIM_TARGETED: Exact quote or precise paraphrase from the document
-2. OBJECTION_TYPE: One of [${objectionTypes.join(', ')}]
-3. OBJECTION: The objection itself (150-300 words)
-4. RESPONSE: Counter-argument (150-300 words)
-5. SEVERITY: One of [${severities.join(', ')}]
-
-CONSTRAINT: Your objections must target what the document ACTUALLY says. Do not strawman.
+For each claim, generate one objection (150-300 words) and a counter-argument response (150-300 words).
 
-Return as JSON array:
-[
-  {
-    "claimIndex": 1,
-    "claimTargeted": "exact claim",
-    "claimLocation": "section",
-    "type": "logical",
-    "objection": "the objection text",
-    "response": "the response text",
-    "severity": "serious"
-  }
-]`;
+CONSTRAINT: Your objections must target what the document ACTUALLY says. Do not strawman.`;
 
-    const objStartTime = Date.now();
-    const objResponse = await anthropic.messages.create({
+    const chunkObjections = await generateObjectionRecords({
+      provider: 'anthropic',
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 8000,
-      messages: [{ role: 'user', content: objectionPrompt }]
-    });
-    const objResponseText = objResponse.content[0].type === 'text' ? objResponse.content[0].text : '';
-    await logLLMCall({
+      prompt: objectionPrompt,
+      expectedCount: chunkClaims.length || 5,
       jobId,
       jobType: 'pipeline_stage2',
-      modelName: 'claude-sonnet-4-20250514',
-      provider: 'anthropic',
       promptSummary: `Generate objections chunk ${chunk + 1}/5`,
-      promptFull: objectionPrompt,
-      responseSummary: summarizeText(objResponseText, 200),
-      responseFull: objResponseText,
-      inputTokens: objResponse.usage?.input_tokens,
-      outputTokens: objResponse.usage?.output_tokens,
-      latencyMs: Date.now() - objStartTime,
-      status: 'success'
     });
     
-    try {
-      const responseText = objResponseText;
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-      const chunkObjections = jsonMatch ? JSON.parse(jsonMatch[0]) : [];
-      
-      for (const obj of chunkObjections) {
-        allObjections.push({
-          index: allObjections.length + 1,
-          claimTargeted: obj.claimTargeted || obj.claim_targeted || '',
-          claimLocation: obj.claimLocation || obj.claim_location || '',
-          type: obj.type || 'logical',
-          objection: obj.objection || '',
-          response: obj.response || '',
-          severity: obj.severity || 'moderate'
-        });
-      }
-    } catch (e) {
-      console.error(`[Stage 2] Failed to parse chunk ${chunk}:`, e);
-    }
-    
     // Store chunk
     try {
       console.log(`[DB] Inserting pipelineChunks stage 2, chunk ${chunk}, jobId: ${jobId}`);
@@ -756,49 +1000,68 @@ Return as JSON array:
         stage: 2,
         chunkIndex: chunk,
         chunkInputText: JSON.stringify(chunkClaims),
-        chunkOutputText: objResponse.content[0].type === 'text' ? objResponse.content[0].text : '',
+        chunkOutputText: JSON.stringify(chunkObjections),
         status: 'completed'
       });
       console.log(`[DB] Successfully inserted pipelineChunks stage 2, chunk ${chunk}`);
     } catch (dbError: any) {
       console.error(`[DB] FAILED to insert pipelineChunks stage 2, chunk ${chunk}:`, dbError.message, dbError.stack);
     }
+    
+    return chunkObjections;
+  }, {
+    onProgress: stats => onProgress(
+      `Generating objections: ${stats.completed}/${stats.total} batches done, ${stats.inFlight} in flight`,
+      stats.completed + 1, totalChunks + 1, stats.inFlight
+    )
+  });
+  
+  // Number objections in batch order regardless of which batch finished first
+  for (const chunkObjections of batchObjections) {
+    for (const obj of chunkObjections) {
+      allObjections.push({ ...obj, index: allObjections.length + 1 });
+    }
   }
   
   onProgress('Formatting objections output...', totalChunks + 1, totalChunks + 1);
   
-  // Format output
-  let output = '# 25 OBJECTIONS WITH RESPONSES\n\n';
-  for (const obj of allObjections) {
-    output += `## Objection ${obj.index} [${obj.type.toUpperCase()}] - ${obj.severity.toUpperCase()}\n\n`;
-    output += `**Claim Targeted:** ${obj.claimTargeted}\n\n`;
-    output += `**Objection:**\n${obj.objection}\n\n`;
-    output += `**Response:**\n${obj.response}\n\n---\n\n`;
-  }
+  const { output, skeleton } = summarizeObjections(allObjections, claimsToTarget, skeleton1.commitmentLedger || []);
   
-  // Build skeleton
-  const skeleton2: PipelineSkeleton2 = {
+  return { output, skeleton, objections: allObjections };
+}
+
+// Stage 2 output and skeleton for a set of objections. Objections keep their
+// own numbers, so after triage the kept ones still match pipeline_objections.
+function summarizeObjections(
+  objections: ObjectionResult[],
+  claimsToTarget: PipelineSkeleton2['claimsToTarget'],
+  inheritedCommitments: PipelineSkeleton2['inheritedCommitments']
+): { output: string; skeleton: PipelineSkeleton2 } {
+  const prose = objections.map(o => renderObjectionsProse([o], o.index)).join('\n');
+  const output = `# ${objections.length} OBJECTIONS WITH RESPONSES\n\n${prose}`;
+  
+  const skeleton: PipelineSkeleton2 = {
     claimsToTarget,
     claimLocations: Object.fromEntries(claimsToTarget.map(c => [c.claimIndex, c.location])),
     objectionTypes: {
-      logical: allObjections.filter(o => o.type === 'logical').map(o => o.index),
-      empirical: allObjections.filter(o => o.type === 'empirical').map(o => o.index),
-      conceptual: allObjections.filter(o => o.type === 'conceptual').map(o => o.index),
-      methodological: allObjections.filter(o => o.type === 'methodological').map(o => o.index),
-      practical: allObjections.filter(o => o.type === 'practical').map(o => o.index)
+      logical: objections.filter(o => o.objectionType === 'logical').map(o => o.index),
+      empirical: objections.filter(o => o.objectionType === 'empirical').map(o => o.index),
+      conceptual: objections.filter(o => o.objectionType === 'conceptual').map(o => o.index),
+      methodological: objections.filter(o => o.objectionType === 'methodological').map(o => o.index),
+      practical: objections.filter(o => o.objectionType === 'practical').map(o => o.index)
     },
     severityDistribution: {
-      fatal: allObjections.filter(o => o.severity === 'fatal').map(o => o.index),
-      serious: allObjections.filter(o => o.severity === 'serious').map(o => o.index),
-      moderate: allObjections.filter(o => o.severity === 'moderate').map(o => o.index),
-      minor: allObjections.filter(o => o.severity === 'minor').map(o => o.index)
+      fatal: objections.filter(o => o.severity === 'fatal').map(o => o.index),
+      serious: objections.filter(o => o.severity === 'serious').map(o => o.index),
+      moderate: objections.filter(o => o.severity === 'moderate').map(o => o.index),
+      minor: objections.filter(o => o.severity === 'minor').map(o => o.index)
     },
-    inheritedCommitments: skeleton1.commitmentLedger || [],
-    objectionSummaries: allObjections.map(o => ({ index: o.index, summary: o.objection.substring(0, 100) })),
-    responseSummaries: allObjections.map(o => ({ index: o.index, summary: o.response.substring(0, 100) }))
+    inheritedCommitments,
+    objectionSummaries: objections.map(o => ({ index: o.index, summary: o.objectionText.substring(0, 100) })),
+    responseSummaries: objections.map(o => ({ index: o.index, summary: o.initialResponse.substring(0, 100) }))
   };
   
-  return { output, skeleton: skeleton2, objections: allObjections };
+  return { output, skeleton };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -816,25 +1079,25 @@ async function runStage3Responses(
   skeleton1: PipelineSkeleton1,
   skeleton2: PipelineSkeleton2,
   jobId: number,
-  onProgress: (msg: string, completed: number, total: number) => void
+  onProgress: StageProgressCallback
 ): Promise<{
   output: string;
   skeleton: PipelineSkeleton3;
   responses: EnhancedResponseResult[];
 }> {
-  // Get objections from database
-  const objections = await db.select().from(pipelineObjections)
-    .where(eq(pipelineObjections.jobId, jobId));
+  const objections = await getActiveObjections(jobId);
   
   const allResponses: EnhancedResponseResult[] = [];
-  const totalChunks = 5;
+  const totalChunks = Math.ceil(objections.length / 5);
   
-  for (let chunk = 0; chunk < totalChunks; chunk++) {
+  // Each batch enhances its own objections against the Stage 1 commitments only
+  const batches = Array.from({ length: totalChunks }, (_, chunk) => chunk);
+  const batchResponses = await runChunksWithConcurrency(batches, async (chunk) => {
     const startIdx = chunk * 5;
-    const endIdx = Math.min(startIdx + 5, 25);
+    const endIdx = Math.min(startIdx + 5, objections.length);
     const chunkObjections = objections.slice(startIdx, endIdx);
     
-    onProgress(`Enhancing responses ${startIdx + 1}-${endIdx}...`, chunk + 1, totalChunks);
+    console.log(`[Stage 3] Enhancing responses ${startIdx + 1}-${endIdx}...`);
     
     const enhancePrompt = `Enhance these responses to make them more compelling and thorough.
 
@@ -864,34 +1127,35 @@ Return as JSON array:
 ]`;
 
     const enhanceStartTime = Date.now();
-    const enhanceResponse = await anthropic.messages.create({
+    const enhanceResponse = await completePrompt('anthropic', enhancePrompt, {
       model: 'claude-sonnet-4-20250514',
-      max_tokens: 8000,
-      messages: [{ role: 'user', content: enhancePrompt }]
+      maxTokens: 8000
     });
-    const enhanceResponseText = enhanceResponse.content[0].type === 'text' ? enhanceResponse.content[0].text : '';
+    const enhanceResponseText = enhanceResponse.text;
     await logLLMCall({
       jobId,
       jobType: 'pipeline_stage3',
-      modelName: 'claude-sonnet-4-20250514',
-      provider: 'anthropic',
-      promptSummary: `Enhance responses chunk ${chunk + 1}/5`,
+      modelName: enhanceResponse.model,
+      provider: enhanceResponse.provider,
+      exchange: enhanceResponse,
+      promptSummary: `Enhance responses chunk ${chunk + 1}/${totalChunks}`,
       promptFull: enhancePrompt,
       responseSummary: summarizeText(enhanceResponseText, 200),
       responseFull: enhanceResponseText,
-      inputTokens: enhanceResponse.usage?.input_tokens,
-      outputTokens: enhanceResponse.usage?.output_tokens,
+      inputTokens: enhanceResponse.inputTokens,
+      outputTokens: enhanceResponse.outputTokens,
       latencyMs: Date.now() - enhanceStartTime,
       status: 'success'
     });
     
+    const chunkResponses: EnhancedResponseResult[] = [];
     try {
       const responseText = enhanceResponseText;
       const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-      const chunkResponses = jsonMatch ? JSON.parse(jsonMatch[0]) : [];
+      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : [];
       
-      for (const resp of chunkResponses) {
-        allResponses.push({
+      for (const resp of parsed) {
+        chunkResponses.push({
           index: resp.objectionIndex,
           enhancedResponse: resp.enhancedResponse,
           enhancementNotes: resp.enhancementNotes || ''
@@ -909,19 +1173,27 @@ Return as JSON array:
         stage: 3,
         chunkIndex: chunk,
         chunkInputText: JSON.stringify(chunkObjections.map(o => ({ index: o.objectionIndex, objection: o.objectionText }))),
-        chunkOutputText: enhanceResponse.content[0].type === 'text' ? enhanceResponse.content[0].text : '',
+        chunkOutputText: enhanceResponse.text,
         status: 'completed'
       });
       console.log(`[DB] Successfully inserted pipelineChunks stage 3, chunk ${chunk}`);
     } catch (dbError: any) {
       console.error(`[DB] FAILED to insert pipelineChunks stage 3, chunk ${chunk}:`, dbError.message, dbError.stack);
     }
-  }
+    
+    return chunkResponses;
+  }, {
+    onProgress: stats => onProgress(
+      `Enhancing responses: ${stats.completed}/${stats.total} batches done, ${stats.inFlight} in flight`,
+      stats.completed, totalChunks, stats.inFlight
+    )
+  });
+  allResponses.push(...batchResponses.flat());
   
   onProgress('Formatting enhanced responses...', totalChunks, totalChunks);
   
   // Format output
-  let output = '# 25 ENHANCED RESPONSES\n\n';
+  let output = `# ${allResponses.length} ENHANCED RESPONSES\n\n`;
   for (const resp of allResponses) {
     const obj = objections.find(o => o.objectionIndex === resp.index);
     output += `## Response to Objection ${resp.index}\n\n`;
@@ -931,9 +1203,10 @@ Return as JSON array:
   }
   
   // Build skeleton
+  // Summaries come from the stored rows so triage edits carry forward
   const skeleton3: PipelineSkeleton3 = {
-    objectionsToAddress: skeleton2.objectionSummaries,
-    initialResponses: skeleton2.responseSummaries,
+    objectionsToAddress: objections.map(o => ({ index: o.objectionIndex, summary: (o.objectionText || '').substring(0, 100) })),
+    initialResponses: objections.map(o => ({ index: o.objectionIndex, summary: (o.initialResponse || '').substring(0, 100) })),
     responseGaps: [],
     enhancementStrategy: allResponses.map(r => ({
       index: r.index,
@@ -959,8 +1232,11 @@ Return as JSON array:
 
 interface IntegrationResult {
   objectionIndex: number;
-  section: string;
-  strategy: string;
+  section: string | null;
+  strategy: PipelineIntegrationStrategy;
+  status: IntegrationStatus;
+  span: IntegrationSpan | null;
+  note: string;
 }
 
 async function runStage4Bulletproof(
@@ -972,7 +1248,7 @@ async function runStage4Bulletproof(
     skeleton3: PipelineSkeleton3;
   },
   jobId: number,
-  onProgress: (msg: string, completed: number, total: number) => void
+  onProgress: StageProgressCallback
 ): Promise<{
   output: string;
   skeleton: PipelineSkeleton4;
@@ -981,8 +1257,7 @@ async function runStage4Bulletproof(
   onProgress('Mapping integrations...', 0, 3);
   
   // Get enhanced responses
-  const objections = await db.select().from(pipelineObjections)
-    .where(eq(pipelineObjections.jobId, jobId));
+  const objections = await getActiveObjections(jobId);
   
   // Build integration map
   const integrationPrompt = `Create a bullet-proof version of this document by integrating responses to anticipated objections.
@@ -996,12 +1271,19 @@ ${JSON.stringify(skeletons.skeleton1.commitmentLedger, null, 2)}
 ENHANCED RESPONSES TO INTEGRATE:
 ${objections.map(o => `
 Objection ${o.objectionIndex} [${o.severity}]: ${o.objectionText?.substring(0, 100)}...
-Enhanced Response: ${o.enhancedResponse?.substring(0, 200)}...
+Enhanced Response: ${o.enhancedResponse?.substring(0, 200)}...${o.integrationStrategy ? `
+Integration: ${o.integrationStrategy}` : ''}
 `).join('\n')}
 
+INTEGRATION STRATEGIES (where an objection names one, use it):
+- preemptive: address the objection before the claim it targets is made
+- inline: answer it where the claim is made
+- footnote: answer it in a footnote attached to the claim
+- structural: reorganize the argument (e.g. a dedicated section) so the objection no longer applies
+
 TASK: Rewrite the document to:
 1. Anticipate and address objections BEFORE they arise (not defensively)
-2. Integrate all 25 enhanced responses naturally
+2. Integrate all ${objections.length} enhanced responses naturally
 3. Preserve ALL original commitments from the skeleton
 4. Maintain the original argument's flow and voice
 5. Be 110-130% of the original length
@@ -1013,45 +1295,61 @@ Output ONLY the rewritten document.`;
   onProgress('Generating bullet-proof version...', 1, 3);
   
   const bulletproofStartTime = Date.now();
-  const bulletproofResponse = await anthropic.messages.create({
+  const bulletproofResponse = await completePrompt('anthropic', integrationPrompt, {
     model: 'claude-sonnet-4-20250514',
-    max_tokens: 20000,
-    messages: [{ role: 'user', content: integrationPrompt }]
+    maxTokens: 20000
   });
   
-  const output = bulletproofResponse.content[0].type === 'text' ? bulletproofResponse.content[0].text : '';
+  const output = bulletproofResponse.text;
   await logLLMCall({
     jobId,
     jobType: 'pipeline_stage4',
-    modelName: 'claude-sonnet-4-20250514',
-    provider: 'anthropic',
+    modelName: bulletproofResponse.model,
+    provider: bulletproofResponse.provider,
+    exchange: bulletproofResponse,
     promptSummary: 'Generate bullet-proof version',
     promptFull: integrationPrompt,
     responseSummary: summarizeText(output, 200),
     responseFull: output,
-    inputTokens: bulletproofResponse.usage?.input_tokens,
-    outputTokens: bulletproofResponse.usage?.output_tokens,
+    inputTokens: bulletproofResponse.inputTokens,
+    outputTokens: bulletproofResponse.outputTokens,
     latencyMs: Date.now() - bulletproofStartTime,
     status: 'success'
   });
   
   onProgress('Verifying integrations...', 2, 3);
   
-  // Generate integration tracking
-  const integrations: IntegrationResult[] = objections.map((o, i) => ({
-    objectionIndex: o.objectionIndex || i + 1,
-    section: `Section ${Math.floor(i / 5) + 1}`,
-    strategy: 'inline'
+  // Locate each response in the output and judge whether it landed
+  const verifications = await verifyIntegrations(output, objections, jobId);
+  const integrations: IntegrationResult[] = verifications.map(v => ({
+    ...v,
+    section: v.status === 'integrated' && v.span ? `Section ${v.span.sectionIndex}: ${v.span.sectionTitle}` : null,
+    strategy: (objections.find(o => o.objectionIndex === v.objectionIndex)?.integrationStrategy as PipelineIntegrationStrategy | null) || 'inline'
   }));
+  const unverified = integrations.filter(i => i.status !== 'integrated');
+  if (unverified.length > 0) {
+    console.warn(`[Pipeline ${jobId}] Stage 4: objections not integrated: ${unverified.map(i => `${i.objectionIndex} (${i.status})`).join(', ')}`);
+  }
+  
+  const integrationMap: PipelineSkeleton4['integrationMap'] = [];
+  for (const integration of integrations) {
+    if (integration.status !== 'integrated' || !integration.span) continue;
+    const entry = integrationMap.find(m => m.sectionIndex === integration.span!.sectionIndex);
+    if (entry) {
+      entry.responseIndices.push(integration.objectionIndex);
+    } else {
+      integrationMap.push({ sectionIndex: integration.span.sectionIndex, responseIndices: [integration.objectionIndex] });
+    }
+  }
   
   // Build skeleton
   const skeleton4: PipelineSkeleton4 = {
     originalStructure: [],
-    integrationMap: [],
+    integrationMap: integrationMap.sort((a, b) => a.sectionIndex - b.sectionIndex),
     integrationStrategy: integrations.map(i => ({
       responseIndex: i.objectionIndex,
-      strategy: 'inline' as const,
-      targetSection: 1
+      strategy: i.strategy,
+      targetSection: i.span?.sectionIndex ?? 0
     })),
     concessionsToIncorporate: [],
     strengtheningAdditions: [],
@@ -1097,7 +1395,7 @@ Output ONLY the rewritten document.`;
 
 async function runHorizontalCoherenceCheck(jobId: number): Promise<HCCheckResult> {
   const [job] = await db.select().from(pipelineJobs).where(eq(pipelineJobs.id, jobId));
-  const objections = await db.select().from(pipelineObjections).where(eq(pipelineObjections.jobId, jobId));
+  const objections = await getActiveObjections(jobId);
   
   const violations: HCViolation[] = [];
   const bulletproofText = job.bulletproofOutput || '';
@@ -1121,7 +1419,14 @@ async function runHorizontalCoherenceCheck(jobId: number): Promise<HCCheckResult
   
   // HC CHECK 2: Objection Coverage
   for (const obj of objections) {
-    if (!obj.integrationVerified) {
+    if (obj.integrationStatus === 'contradicted') {
+      violations.push({
+        type: 'contradiction',
+        severity: 'error',
+        description: `Bullet-proof version contradicts the response to objection ${obj.objectionIndex}`,
+        details: { objectionIndex: obj.objectionIndex, location: obj.integrationSpan?.sectionTitle }
+      });
+    } else if (!obj.integrationVerified) {
       violations.push({
         type: 'objection_not_addressed',
         severity: 'warning',
@@ -1208,7 +1513,8 @@ async function attemptHCRepair(
 
 export async function resumePipeline(
   jobId: number,
-  onProgress?: PipelineProgressCallback
+  onProgress?: PipelineProgressCallback,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean;
   error?: string;
@@ -1225,9 +1531,20 @@ export async function resumePipeline(
   
   console.log(`[Pipeline ${jobId}] Resuming from stage ${job.currentStage}`);
   
-  // TODO: Implement resume logic based on currentStage
-  // For now, just return error
-  return { success: false, error: 'Resume not yet implemented' };
+  const result = await runFullPipeline(
+    job.originalText,
+    {
+      customInstructions: job.customInstructions || undefined,
+      targetAudience: job.targetAudience || undefined,
+      objective: job.objective || undefined
+    },
+    job.userId || undefined,
+    onProgress,
+    jobId,
+    true,
+    signal
+  );
+  return { success: result.success, error: result.error };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -1240,5 +1557,13 @@ export async function getPipelineStatus(jobId: number): Promise<PipelineJob | nu
 }
 
 export async function getPipelineObjections(jobId: number): Promise<PipelineObjection[]> {
-  return await db.select().from(pipelineObjections).where(eq(pipelineObjections.jobId, jobId));
+  return await db.select().from(pipelineObjections)
+    .where(eq(pipelineObjections.jobId, jobId))
+    .orderBy(asc(pipelineObjections.objectionIndex));
+}
+
+export async function getPipelineStageRuns(jobId: number): Promise<PipelineStageRun[]> {
+  return await db.select().from(pipelineStageRuns)
+    .where(eq(pipelineStageRuns.jobId, jobId))
+    .orderBy(asc(pipelineStageRuns.stageIndex), asc(pipelineStageRuns.id));
 }
@@ -0,0 +1,309 @@
+import type Stripe from "stripe";
+import { db } from "../db";
+import { creditTransactions, userCredits, stripeWebhookEvents, CreditTransaction } from "@shared/schema";
+import { eq, and, inArray, lt, sql } from "drizzle-orm";
+import { stripe } from "../lib/stripe-config";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STRIPE WEBHOOKS & RECONCILIATION
+// Each Stripe event is recorded in stripe_webhook_events before it is applied,
+// so redelivered events are acknowledged without being applied twice. Credit
+// changes are made in the same database transaction as the status change of
+// the purchase they belong to, and only from the states where they are valid
+// (a purchase is credited once; refunds reverse only what was not yet reversed).
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type StripeEventOutcome = 'processed' | 'ignored' | 'duplicate';
+
+export interface ReconciliationResult {
+  checked: number;
+  completed: number;
+  failed: number;
+  unchanged: number;
+}
+
+// Pending purchases older than this are re-checked against Stripe
+const RECONCILE_AFTER_MINUTES = parseInt(process.env.STRIPE_RECONCILE_AFTER_MINUTES || '30', 10);
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EVENT LOG
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Returns false when the event was already processed (or is being processed by another delivery)
+async function claimEvent(event: Stripe.Event): Promise<boolean> {
+  const [inserted] = await db.insert(stripeWebhookEvents).values({
+    eventId: event.id,
+    type: event.type,
+    status: 'processing',
+    payload: event as any
+  }).onConflictDoNothing({ target: stripeWebhookEvents.eventId }).returning();
+  if (inserted) return true;
+
+  // Only deliveries whose earlier attempt failed are retried
+  const [retry] = await db.update(stripeWebhookEvents)
+    .set({ status: 'processing', errorMessage: null, attempts: sql`${stripeWebhookEvents.attempts} + 1` })
+    .where(and(eq(stripeWebhookEvents.eventId, event.id), eq(stripeWebhookEvents.status, 'failed')))
+    .returning();
+  return !!retry;
+}
+
+async function finishEvent(eventId: string, status: 'processed' | 'ignored' | 'failed', errorMessage?: string): Promise<void> {
+  await db.update(stripeWebhookEvents)
+    .set({ status, errorMessage, processedAt: new Date() })
+    .where(eq(stripeWebhookEvents.eventId, eventId));
+}
+
+export async function processStripeEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
+  if (!(await claimEvent(event))) {
+    console.log(`[Stripe] Event ${event.id} (${event.type}) already handled, skipping`);
+    return 'duplicate';
+  }
+
+  try {
+    let applied: boolean;
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+        applied = await handleCheckoutPaid(event.data.object as Stripe.Checkout.Session);
+        break;
+      case 'charge.refunded':
+        applied = await handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
+      case 'payment_intent.payment_failed':
+        applied = await handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
+        break;
+      default:
+        applied = false;
+    }
+
+    const outcome = applied ? 'processed' : 'ignored';
+    await finishEvent(event.id, outcome);
+    console.log(`[Stripe] Event ${event.id} (${event.type}) ${outcome}`);
+    return outcome;
+  } catch (error: any) {
+    await finishEvent(event.id, 'failed', error.message).catch(() => {});
+    throw error;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EVENT HANDLERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function findPurchase(match: { transactionId?: string | null; sessionId?: string | null; paymentIntentId?: string | null }): Promise<CreditTransaction | undefined> {
+  const conditions = [];
+  if (match.transactionId && !isNaN(parseInt(match.transactionId))) {
+    conditions.push(eq(creditTransactions.id, parseInt(match.transactionId)));
+  } else if (match.sessionId) {
+    conditions.push(eq(creditTransactions.stripeSessionId, match.sessionId));
+  } else if (match.paymentIntentId) {
+    conditions.push(eq(creditTransactions.stripePaymentIntentId, match.paymentIntentId));
+  } else {
+    return undefined;
+  }
+
+  const [purchase] = await db.select().from(creditTransactions)
+    .where(and(eq(creditTransactions.transactionType, 'purchase'), ...conditions));
+  return purchase;
+}
+
+function paymentIntentId(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.id;
+}
+
+async function addCredits(tx: DbTransaction, userId: number, provider: string, delta: number): Promise<void> {
+  const [existing] = await tx.select().from(userCredits)
+    .where(and(eq(userCredits.userId, userId), eq(userCredits.provider, provider)));
+  if (!existing) {
+    await tx.insert(userCredits).values({ userId, provider, credits: Math.max(delta, 0) });
+    return;
+  }
+  await tx.update(userCredits)
+    .set({ credits: sql`GREATEST(${userCredits.credits} + ${delta}, 0)`, lastUpdated: new Date() })
+    .where(eq(userCredits.id, existing.id));
+}
+
+// Credits a purchase exactly once. Returns false if it was already completed.
+async function completePurchase(transactionId: number, paymentIntent: string | undefined, source: string): Promise<boolean> {
+  return await db.transaction(async (tx) => {
+    const [purchase] = await tx.update(creditTransactions)
+      .set({
+        status: 'completed',
+        ...(paymentIntent ? { stripePaymentIntentId: paymentIntent } : {})
+      })
+      .where(and(
+        eq(creditTransactions.id, transactionId),
+        eq(creditTransactions.transactionType, 'purchase'),
+        inArray(creditTransactions.status, ['pending', 'failed'])
+      ))
+      .returning();
+    if (!purchase) return false;
+
+    await addCredits(tx, purchase.userId, purchase.provider, purchase.credits);
+    console.log(`✅ Credits added: ${purchase.credits} ${purchase.provider} credits for user ${purchase.userId} (${source})`);
+    return true;
+  });
+}
+
+async function handleCheckoutPaid(session: Stripe.Checkout.Session): Promise<boolean> {
+  if (session.payment_status !== 'paid') {
+    // Delayed payment methods finish with checkout.session.async_payment_succeeded
+    console.log(`[Stripe] Checkout session ${session.id} completed but not yet paid (${session.payment_status})`);
+    return false;
+  }
+
+  const purchase = await findPurchase({ transactionId: session.metadata?.transactionId, sessionId: session.id });
+  if (!purchase) {
+    throw new Error(`No credit purchase found for checkout session ${session.id}`);
+  }
+  return completePurchase(purchase.id, paymentIntentId(session.payment_intent), 'webhook');
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<boolean> {
+  const intent = paymentIntentId(charge.payment_intent);
+  // The charge carries its payment intent's metadata, so a purchase is found
+  // even before completion has recorded the payment intent on it
+  const purchase = await findPurchase({ transactionId: charge.metadata?.transactionId, paymentIntentId: intent });
+  if (!purchase || !intent) {
+    console.log(`[Stripe] Refunded charge ${charge.id} does not belong to a credit purchase`);
+    return false;
+  }
+
+  return await db.transaction(async (tx) => {
+    // Lock the purchase so concurrent refund events for the same charge reverse sequentially
+    const [locked] = await tx.select().from(creditTransactions)
+      .where(eq(creditTransactions.id, purchase.id))
+      .for('update');
+    if (locked.status === 'pending' || locked.status === 'failed') {
+      // The refund overtook the checkout event. Failing the event makes Stripe
+      // redeliver it, by which time the purchase is credited and can be reversed.
+      throw new Error(`Purchase ${purchase.id} is not credited yet (${locked.status}); the refund is retried once it is`);
+    }
+    if (locked.status !== 'completed') {
+      console.log(`[Stripe] Purchase ${purchase.id} was never credited (${locked.status}); nothing to reverse`);
+      return false;
+    }
+
+    const previous = await tx.select().from(creditTransactions)
+      .where(and(
+        eq(creditTransactions.transactionType, 'reversal'),
+        eq(creditTransactions.stripePaymentIntentId, intent)
+      ));
+    const reversedCredits = previous.reduce((sum, r) => sum + r.credits, 0);
+    const reversedCents = previous.reduce((sum, r) => sum + r.amount, 0);
+
+    // Partial refunds reverse the same fraction of the purchased credits
+    const refundedFraction = charge.amount > 0 ? Math.min(charge.amount_refunded / charge.amount, 1) : 1;
+    const toReverse = Math.round(locked.credits * refundedFraction) - reversedCredits;
+    if (toReverse <= 0) return false;
+
+    const [balance] = await tx.select().from(userCredits)
+      .where(and(eq(userCredits.userId, locked.userId), eq(userCredits.provider, locked.provider)));
+    const recovered = Math.min(toReverse, balance?.credits ?? 0);
+
+    await addCredits(tx, locked.userId, locked.provider, -toReverse);
+    await tx.insert(creditTransactions).values({
+      userId: locked.userId,
+      provider: locked.provider,
+      amount: charge.amount_refunded - reversedCents,
+      credits: toReverse,
+      transactionType: 'reversal',
+      stripePaymentIntentId: intent,
+      status: 'completed',
+      metadata: {
+        purchaseTransactionId: locked.id,
+        chargeId: charge.id,
+        refundedFraction,
+        // Credits already spent when the refund arrived cannot be taken back
+        unrecoveredCredits: toReverse - recovered
+      }
+    });
+
+    console.log(`[Stripe] Reversed ${toReverse} ${locked.provider} credits for user ${locked.userId} (refund on purchase ${locked.id})`);
+    return true;
+  });
+}
+
+async function handlePaymentFailed(intent: Stripe.PaymentIntent): Promise<boolean> {
+  const purchase = await findPurchase({ transactionId: intent.metadata?.transactionId, paymentIntentId: intent.id });
+  if (!purchase) {
+    console.log(`[Stripe] Failed payment intent ${intent.id} does not belong to a credit purchase`);
+    return false;
+  }
+
+  const [failed] = await db.update(creditTransactions)
+    .set({
+      status: 'failed',
+      stripePaymentIntentId: intent.id,
+      metadata: {
+        ...((purchase.metadata as Record<string, any>) || {}),
+        failureReason: intent.last_payment_error?.message || 'payment failed'
+      }
+    })
+    .where(and(eq(creditTransactions.id, purchase.id), eq(creditTransactions.status, 'pending')))
+    .returning();
+  return !!failed;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECONCILIATION
+// Catches purchases whose webhook never arrived (or failed every retry)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function reconcilePendingTransactions(
+  olderThanMinutes: number = RECONCILE_AFTER_MINUTES
+): Promise<ReconciliationResult> {
+  const result: ReconciliationResult = { checked: 0, completed: 0, failed: 0, unchanged: 0 };
+  if (!stripe) return result;
+
+  const cutoff = new Date(Date.now() - olderThanMinutes * 60 * 1000);
+  const pending = await db.select().from(creditTransactions)
+    .where(and(
+      eq(creditTransactions.transactionType, 'purchase'),
+      eq(creditTransactions.status, 'pending'),
+      lt(creditTransactions.createdAt, cutoff)
+    ));
+
+  for (const purchase of pending) {
+    result.checked++;
+    try {
+      if (!purchase.stripeSessionId) {
+        // Checkout session creation failed after the transaction was recorded
+        await markFailed(purchase, 'no checkout session');
+        result.failed++;
+        continue;
+      }
+
+      const session = await stripe.checkout.sessions.retrieve(purchase.stripeSessionId);
+      if (session.payment_status === 'paid') {
+        const credited = await completePurchase(purchase.id, paymentIntentId(session.payment_intent), 'reconciliation');
+        result[credited ? 'completed' : 'unchanged']++;
+      } else if (session.status === 'expired') {
+        await markFailed(purchase, 'checkout session expired');
+        result.failed++;
+      } else {
+        result.unchanged++;
+      }
+    } catch (error: any) {
+      console.error(`[Stripe] Reconciliation failed for purchase ${purchase.id}:`, error.message);
+      result.unchanged++;
+    }
+  }
+
+  if (result.checked > 0) {
+    console.log(`[Stripe] Reconciled ${result.checked} pending purchases: ${result.completed} completed, ${result.failed} failed, ${result.unchanged} unchanged`);
+  }
+  return result;
+}
+
+async function markFailed(purchase: CreditTransaction, reason: string): Promise<void> {
+  await db.update(creditTransactions)
+    .set({
+      status: 'failed',
+      metadata: { ...((purchase.metadata as Record<string, any>) || {}), failureReason: reason }
+    })
+    .where(and(eq(creditTransactions.id, purchase.id), eq(creditTransactions.status, 'pending')));
+}
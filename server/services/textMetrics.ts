@@ -0,0 +1,290 @@
+import type { SurfaceAnalysis, DeepAnalysis } from './openai';
+import { wordFrequencyRank, WORD_FREQUENCY_LIST_SIZE } from './wordFrequency';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOCAL TEXT METRICS
+// Deterministic, provider-free measurements of a text: vocabulary diversity,
+// lexical rarity against the bundled frequency list, readability indices,
+// nominalization, hedging and argument-marker density. The same text always
+// yields the same numbers. computeLocalPreScore maps them onto the 0-100
+// dimensions that evaluateIntelligence scores, as a cheap first estimate.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface TextMetrics {
+  counts: {
+    characters: number;
+    words: number;
+    uniqueWords: number;
+    sentences: number;
+    paragraphs: number;
+    syllables: number;
+    complexWords: number; // 3+ syllables
+  };
+  averageSentenceLength: number; // words per sentence
+  averageWordLength: number; // letters per word
+  typeTokenRatio: number; // 0-1, unique words / words
+  movingAverageTypeTokenRatio: number; // 0-1, TTR averaged over 50-word windows (length-independent)
+  lexicalRarity: number | null; // 0-1, mean rarity of content words against the frequency list; null for too few content words
+  rareWordRatio: number; // 0-1, share of words outside the frequency list
+  readability: {
+    fleschReadingEase: number;
+    fleschKincaidGrade: number;
+    gunningFog: number;
+    colemanLiau: number;
+    automatedReadabilityIndex: number;
+    smog: number;
+  };
+  nominalizationRatio: number; // 0-1, share of words that are nominalizations
+  hedgingRatio: number; // 0-1, share of sentences containing a hedge
+  argumentMarkerDensity: number; // argument markers per 100 words
+  markers: {
+    hedges: Record<string, number>;
+    argument: Record<string, number>;
+  };
+}
+
+export interface LocalPreScore {
+  surface: SurfaceAnalysis;
+  deep: DeepAnalysis;
+  overallScore: number;
+  reliable: boolean; // false for texts too short for the metrics to mean much
+}
+
+const MATTR_WINDOW = 50;
+const MIN_RELIABLE_WORDS = 100;
+// Below this many content words one unlisted word ("Hello.") would decide the rarity alone
+const MIN_RARITY_WORDS = 10;
+
+const HEDGES = [
+  'may', 'might', 'could', 'perhaps', 'possibly', 'probably', 'presumably', 'arguably', 'apparently',
+  'seems', 'seem', 'seemed', 'appears', 'appear', 'appeared', 'suggests', 'suggest', 'likely', 'unlikely',
+  'somewhat', 'relatively', 'fairly', 'roughly', 'approximately', 'generally', 'typically', 'usually',
+  'to some extent', 'in some sense', 'sort of', 'kind of', 'more or less', 'tends to', 'tend to', 'it is possible',
+];
+
+const ARGUMENT_MARKERS = [
+  'therefore', 'thus', 'hence', 'consequently', 'accordingly', 'it follows that', 'so that', 'which means',
+  'because', 'since', 'given that', 'for this reason', 'as a result', 'implies', 'entails',
+  'however', 'but', 'although', 'though', 'whereas', 'nevertheless', 'nonetheless', 'yet', 'on the other hand',
+  'in contrast', 'conversely', 'instead', 'rather',
+  'if', 'unless', 'only if', 'provided that',
+  'first', 'second', 'third', 'finally', 'moreover', 'furthermore', 'in addition',
+  'for example', 'for instance', 'that is', 'namely', 'in other words', 'in particular',
+];
+
+const NOMINALIZATION_SUFFIX = /(?:tion|sion|ment|ness|ity|ance|ence|ancy|ency|ism|ization|isation)s?$/;
+
+// Common words that end like nominalizations but are not derived from verbs or adjectives
+const NOMINALIZATION_EXCEPTIONS = new Set([
+  'nation', 'station', 'ration', 'moment', 'comment', 'element', 'garment', 'segment', 'cement', 'ointment',
+  'city', 'pity', 'witness', 'business', 'science', 'sentence', 'silence', 'fence', 'evidence', 'audience',
+  'instance', 'distance', 'balance', 'chance', 'finance', 'residence', 'conscience', 'government', 'question',
+  'mention', 'lotion', 'potion', 'notion', 'vision', 'mission', 'session', 'pension', 'mansion', 'television',
+]);
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function round(value: number, places: number = 3): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z]+(?:['’][a-z]+)*/g) || []).map(w => w.replace(/['’]/g, "'"));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\b(?:Dr|Mr|Mrs|Ms|Prof|vs|etc|e\.g|i\.e|cf|al|Inc|Ltd|Co|St)\./gi, m => m.replace(/\./g, '·'))
+    .split(/(?<=[.!?])["')\]]*\s+|\n\s*\n/)
+    .map(s => s.trim())
+    .filter(s => /[a-z]/i.test(s));
+}
+
+function countParagraphs(text: string): number {
+  return text.split(/\n\s*\n/).filter(p => p.trim().length > 0).length;
+}
+
+/**
+ * Vowel-group syllable estimate with the usual English corrections (silent -e, -le, -ed)
+ */
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const trimmed = w
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  const groups = trimmed.match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+function countPhrases(text: string, phrases: string[]): Record<string, number> {
+  const lower = ` ${text.toLowerCase().replace(/[^a-z'\s]/g, ' ').replace(/\s+/g, ' ')} `;
+  const counts: Record<string, number> = {};
+  for (const phrase of phrases) {
+    let count = 0;
+    let index = lower.indexOf(` ${phrase} `);
+    while (index !== -1) {
+      count++;
+      index = lower.indexOf(` ${phrase} `, index + phrase.length + 1);
+    }
+    if (count > 0) counts[phrase] = count;
+  }
+  return counts;
+}
+
+function movingAverageTTR(words: string[]): number {
+  if (words.length === 0) return 0;
+  if (words.length <= MATTR_WINDOW) return new Set(words).size / words.length;
+
+  const window = new Map<string, number>();
+  for (let i = 0; i < MATTR_WINDOW; i++) window.set(words[i], (window.get(words[i]) || 0) + 1);
+  let total = window.size;
+  for (let i = MATTR_WINDOW; i < words.length; i++) {
+    const dropped = words[i - MATTR_WINDOW];
+    const remaining = (window.get(dropped) || 0) - 1;
+    if (remaining === 0) window.delete(dropped); else window.set(dropped, remaining);
+    window.set(words[i], (window.get(words[i]) || 0) + 1);
+    total += window.size;
+  }
+  return total / (words.length - MATTR_WINDOW + 1) / MATTR_WINDOW;
+}
+
+/**
+ * Rarity of one word: 0 for the most frequent words, rising with log rank to 0.5
+ * at the end of the list, 1 outside it
+ */
+function wordRarity(word: string): number {
+  const rank = wordFrequencyRank(word);
+  if (rank === null) return 1;
+  return 0.5 * Math.log(rank) / Math.log(WORD_FREQUENCY_LIST_SIZE + 1);
+}
+
+/**
+ * Compute the local metrics for a text. Pure and synchronous; no provider calls.
+ */
+export function computeTextMetrics(text: string): TextMetrics {
+  const source = text || '';
+  const words = tokenize(source);
+  const sentences = splitSentences(source);
+  const wordCount = words.length;
+  const sentenceCount = Math.max(1, sentences.length);
+  const letters = words.reduce((sum, w) => sum + w.replace(/'/g, '').length, 0);
+  const syllableCounts = words.map(countSyllables);
+  const syllables = syllableCounts.reduce((a, b) => a + b, 0);
+  const complexWords = syllableCounts.filter(s => s >= 3).length;
+
+  const contentWords = words.filter(w => w.length > 3);
+  const lexicalRarity = contentWords.length >= MIN_RARITY_WORDS
+    ? contentWords.reduce((sum, w) => sum + wordRarity(w), 0) / contentWords.length
+    : null;
+  const rareWords = words.filter(w => wordFrequencyRank(w) === null).length;
+
+  const nominalizations = words.filter(w =>
+    w.length >= 7 && NOMINALIZATION_SUFFIX.test(w) && !NOMINALIZATION_EXCEPTIONS.has(w.replace(/s$/, ''))
+  ).length;
+
+  const hedges = countPhrases(source, HEDGES);
+  const hedgedSentences = sentences.filter(s => Object.keys(countPhrases(s, HEDGES)).length > 0).length;
+  const argument = countPhrases(source, ARGUMENT_MARKERS);
+  const argumentCount = Object.values(argument).reduce((a, b) => a + b, 0);
+
+  const perWord = wordCount > 0 ? 1 / wordCount : 0;
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = syllables * perWord;
+  const lettersPer100 = letters * perWord * 100;
+  const sentencesPer100 = sentenceCount * perWord * 100;
+
+  return {
+    counts: {
+      characters: source.length,
+      words: wordCount,
+      uniqueWords: new Set(words).size,
+      sentences: sentences.length,
+      paragraphs: countParagraphs(source),
+      syllables,
+      complexWords,
+    },
+    averageSentenceLength: round(wordsPerSentence, 2),
+    averageWordLength: round(letters * perWord, 2),
+    typeTokenRatio: round(wordCount > 0 ? new Set(words).size / wordCount : 0),
+    movingAverageTypeTokenRatio: round(movingAverageTTR(words)),
+    lexicalRarity: lexicalRarity === null ? null : round(lexicalRarity),
+    rareWordRatio: round(rareWords * perWord),
+    readability: wordCount === 0
+      ? { fleschReadingEase: 0, fleschKincaidGrade: 0, gunningFog: 0, colemanLiau: 0, automatedReadabilityIndex: 0, smog: 0 }
+      : {
+        fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord, 1),
+        fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59, 1),
+        gunningFog: round(0.4 * (wordsPerSentence + 100 * complexWords * perWord), 1),
+        colemanLiau: round(0.0588 * lettersPer100 - 0.296 * sentencesPer100 - 15.8, 1),
+        automatedReadabilityIndex: round(4.71 * (letters * perWord) + 0.5 * wordsPerSentence - 21.43, 1),
+        smog: round(1.043 * Math.sqrt(complexWords * (30 / sentenceCount)) + 3.1291, 1),
+      },
+    nominalizationRatio: round(nominalizations * perWord),
+    hedgingRatio: round(sentences.length > 0 ? hedgedSentences / sentences.length : 0),
+    argumentMarkerDensity: round(argumentCount * perWord * 100, 2),
+    markers: { hedges, argument },
+  };
+}
+
+/**
+ * Map local metrics onto evaluateIntelligence's 0-100 dimensions.
+ * A deliberately conservative estimate (every dimension stays within 30-90):
+ * surface statistics cannot recognise blueprint-grade reasoning, only rule out
+ * the obviously thin, so the LLM evaluation remains the authority when it runs.
+ */
+export function computeLocalPreScore(input: string | TextMetrics): LocalPreScore {
+  const m = typeof input === 'string' ? computeTextMetrics(input) : input;
+  if (m.counts.words === 0) {
+    return {
+      surface: { grammar: 30, structure: 30, jargonUsage: 30, surfaceFluency: 30 },
+      deep: { conceptualDepth: 30, inferentialContinuity: 30, claimNecessity: 30, semanticCompression: 30, logicalLaddering: 30, depthFluency: 30, originality: 30 },
+      overallScore: 30,
+      reliable: false,
+    };
+  }
+
+  const diversity = clamp01((m.movingAverageTypeTokenRatio - 0.55) / 0.35);
+  // Unmeasured rarity counts as the midpoint of the scale
+  const rarity = m.lexicalRarity === null ? 0.5 : clamp01((m.lexicalRarity - 0.3) / 0.4);
+  const argument = clamp01(m.argumentMarkerDensity / 5);
+  const confidence = 1 - clamp01(m.hedgingRatio / 0.5);
+  const nominal = clamp01(m.nominalizationRatio / 0.06);
+  const overNominalized = clamp01((m.nominalizationRatio - 0.06) / 0.06);
+  const complexity = clamp01((m.readability.fleschKincaidGrade - 6) / 10);
+  const ease = clamp01(m.readability.fleschReadingEase / 70);
+  // 1 for 12-28 words per sentence, falling off towards fragments and run-ons
+  const sentenceBalance = m.averageSentenceLength < 12
+    ? clamp01((m.averageSentenceLength - 4) / 8)
+    : clamp01(1 - (m.averageSentenceLength - 28) / 20);
+  const paragraphing = m.counts.paragraphs > 1 ? clamp01(m.counts.sentences / m.counts.paragraphs / 8) : 0.5;
+
+  const scale = (value: number) => Math.round(30 + 60 * clamp01(value));
+
+  const deep: DeepAnalysis = {
+    conceptualDepth: scale(0.4 * rarity + 0.3 * nominal + 0.3 * complexity),
+    inferentialContinuity: scale(0.6 * argument + 0.2 * confidence + 0.2 * diversity),
+    claimNecessity: scale(0.5 * confidence + 0.3 * diversity + 0.2 * (1 - overNominalized)),
+    semanticCompression: scale(0.4 * diversity + 0.3 * rarity + 0.3 * confidence),
+    logicalLaddering: scale(0.7 * argument + 0.3 * sentenceBalance),
+    depthFluency: scale(0.5 * sentenceBalance + 0.3 * argument + 0.2 * confidence),
+    originality: scale(0.6 * rarity + 0.4 * diversity),
+  };
+  const surface: SurfaceAnalysis = {
+    grammar: scale(0.3 + 0.7 * sentenceBalance),
+    structure: scale(0.5 * paragraphing + 0.5 * sentenceBalance),
+    jargonUsage: scale(0.5 * nominal + 0.5 * rarity),
+    surfaceFluency: scale(0.6 * ease + 0.4 * sentenceBalance),
+  };
+
+  const deepValues = Object.values(deep);
+  return {
+    surface,
+    deep,
+    overallScore: Math.round(deepValues.reduce((a, b) => a + b, 0) / deepValues.length),
+    reliable: m.counts.words >= MIN_RELIABLE_WORDS,
+  };
+}
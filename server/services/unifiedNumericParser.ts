@@ -1,24 +1,31 @@
 /**
  * UNIFIED NUMERIC PARSER
- * 
+ *
  * Single function to extract numbers from any finance input format:
  * - Currency: "$1.25B", "$870m", "$900 million", "1.4bn", "750k"
+ * - Non-USD currency: "€500m", "£1.2bn", "EUR 300 million", "1.5bn yen" (tagged, not converted)
  * - Multiples: "8x", "6.5x EBITDA", "4.0 ×", "4x revenue"
  * - Percentages: "17%", "12.5 %", "fifteen percent"
- * - Ranges: "$28–$32", "28-32" (returns midpoint)
+ * - Ranges: "$28–$32", "28-32", "8–10x", "$1.2-1.5bn", "10 to 12%" (returns midpoint)
+ * - Negatives: "(15%)", "($25M)", "-3%"
  * - Shares: "4.5M shares", "90 million shares"
- * 
+ *
  * All outputs normalized to raw floats with type metadata.
  */
 
 export type ParsedValueType = 'currency' | 'multiple' | 'percent' | 'shares' | 'raw';
 export type ParsedValueUnit = 'EBITDA' | 'revenue' | 'EV' | 'shares' | null;
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'CHF' | 'CAD' | 'AUD' | 'CNY' | 'INR';
 
 export interface ParsedNumericValue {
   raw: number;
   type: ParsedValueType;
   unit: ParsedValueUnit;
   original: string;
+  // Set when the text named a currency ("$", "€", "EUR", "euros", ...)
+  currency?: CurrencyCode;
+  // Set for ranges; raw is the midpoint
+  range?: { low: number; high: number };
 }
 
 // Unit multipliers (convert to raw values, not millions)
@@ -45,26 +52,90 @@ const UNIT_MULTIPLIERS_MILLIONS: Record<string, number> = {
   'thousand': 0.001,
 };
 
+// Currency symbols and names, longest first so "US$" wins over "$"
+const CURRENCY_TOKENS: Array<[string, CurrencyCode]> = [
+  ['US$', 'USD'], ['CA$', 'CAD'], ['C$', 'CAD'], ['AU$', 'AUD'], ['A$', 'AUD'], ['CN¥', 'CNY'],
+  ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'],
+  ['USD', 'USD'], ['EUR', 'EUR'], ['GBP', 'GBP'], ['JPY', 'JPY'], ['CHF', 'CHF'], ['CAD', 'CAD'],
+  ['AUD', 'AUD'], ['CNY', 'CNY'], ['RMB', 'CNY'], ['INR', 'INR'],
+  ['dollars', 'USD'], ['dollar', 'USD'], ['euros', 'EUR'], ['euro', 'EUR'], ['sterling', 'GBP'], ['yen', 'JPY'],
+];
+
+const escapeRegex = (token: string) => token.replace(/[$.*+?^()|[\]\\{}]/g, '\\$&');
+const CURRENCY_SYMBOL_SOURCE = CURRENCY_TOKENS.filter(([t]) => !/^[A-Za-z]+$/.test(t)).map(([t]) => escapeRegex(t)).join('|');
+const CURRENCY_CODE_SOURCE = CURRENCY_TOKENS.filter(([t]) => /^[A-Z]{3}$/.test(t)).map(([t]) => t).join('|');
+const CURRENCY_WORD_SOURCE = CURRENCY_TOKENS.filter(([t]) => /^[a-z]+$/.test(t)).map(([t]) => t).join('|');
+
+function currencyCode(token: string): CurrencyCode | undefined {
+  const lower = token.toLowerCase();
+  return CURRENCY_TOKENS.find(([t]) => t.toLowerCase() === lower)?.[1];
+}
+
+/**
+ * Split a currency symbol/code off the front or back of a value:
+ * "€500m" → ("500m", EUR), "300 million EUR" → ("300 million", EUR)
+ */
+function splitCurrency(text: string): { body: string; currency?: CurrencyCode } {
+  let body = text;
+  let currency: CurrencyCode | undefined;
+
+  const prefix = body.match(new RegExp(`^(${CURRENCY_SYMBOL_SOURCE}|(?:${CURRENCY_CODE_SOURCE})(?![a-z]))\\s*`, 'i'));
+  if (prefix) {
+    currency = currencyCode(prefix[1]);
+    body = body.slice(prefix[0].length);
+  }
+  const suffix = body.match(new RegExp(`\\s*\\b(${CURRENCY_CODE_SOURCE}|${CURRENCY_WORD_SOURCE})$`, 'i'));
+  if (suffix) {
+    currency = currency || currencyCode(suffix[1]);
+    body = body.slice(0, body.length - suffix[0].length);
+  }
+  return { body, currency };
+}
+
 /**
  * Parse a single numeric value from text, returning structured metadata
  */
 export function parseNumericValue(text: string): ParsedNumericValue | null {
   if (!text || typeof text !== 'string') return null;
-  
+
   const trimmed = text.trim();
   if (!trimmed) return null;
 
-  // Try each parser in order of specificity
-  return parsePercentage(trimmed) 
-    || parseMultiple(trimmed) 
-    || parseCurrency(trimmed) 
-    || parseShares(trimmed)
-    || parseRange(trimmed)
-    || parseRawNumber(trimmed);
+  return parseNegative(trimmed)
+    || parseSingleValue(trimmed)
+    || parseRange(trimmed);
+}
+
+/**
+ * Try each single-value parser in order of specificity
+ */
+function parseSingleValue(text: string): ParsedNumericValue | null {
+  return parsePercentage(text)
+    || parseMultiple(text)
+    || parseCurrency(text)
+    || parseShares(text)
+    || parseRawNumber(text);
+}
+
+/**
+ * Parse negatives: "(15%)", "($25M)", "-3%", "−2.5x"
+ */
+function parseNegative(text: string): ParsedNumericValue | null {
+  const inner = text.match(/^\((.+)\)$/)?.[1] ?? text.match(/^[-−]\s*(.+)$/)?.[1];
+  if (inner === undefined) return null;
+
+  const parsed = parseSingleValue(inner.trim()) || parseRange(inner.trim());
+  if (!parsed) return null;
+  return {
+    ...parsed,
+    raw: -parsed.raw,
+    range: parsed.range && { low: -parsed.range.high, high: -parsed.range.low },
+    original: text
+  };
 }
 
 /**
- * Parse percentage: "17%", "12.5 %", "0.17"
+ * Parse percentage: "17%", "12.5 %", "0.5%"
  */
 function parsePercentage(text: string): ParsedNumericValue | null {
   // Pattern: number followed by % (with optional space)
@@ -73,7 +144,7 @@ function parsePercentage(text: string): ParsedNumericValue | null {
     const value = parseFloat(percentMatch[1].replace(/,/g, ''));
     if (!isNaN(value)) {
       return {
-        raw: value > 1 ? value / 100 : value, // Normalize to decimal
+        raw: value / 100, // Explicit %: always a percentage, so "0.5%" is 0.005
         type: 'percent',
         unit: null,
         original: text
@@ -87,7 +158,7 @@ function parsePercentage(text: string): ParsedNumericValue | null {
     const value = parseFloat(percentWordMatch[1].replace(/,/g, ''));
     if (!isNaN(value)) {
       return {
-        raw: value > 1 ? value / 100 : value,
+        raw: value / 100,
         type: 'percent',
         unit: null,
         original: text
@@ -146,12 +217,15 @@ function parseMultiple(text: string): ParsedNumericValue | null {
 }
 
 /**
- * Parse currency: "$1.25B", "$870m", "$900 million", "1.4bn", "750k"
- * Returns value in raw units (not millions)
+ * Parse currency: "$1.25B", "$870m", "$900 million", "1.4bn", "750k",
+ * "€500m", "EUR 300 million", "1.2bn dollars"
+ * Returns value in raw units (not millions), in the currency named (no FX conversion)
  */
 function parseCurrency(text: string): ParsedNumericValue | null {
-  // Pattern: optional $ + number + unit (B/M/K/billion/million/thousand)
-  const currencyMatch = text.match(/^\$?\s*([\d,.]+)\s*(b|bn|billion|m|mm|million|k|thousand)?$/i);
+  const { body, currency } = splitCurrency(text);
+
+  // Pattern: number + optional unit (B/M/K/billion/million/thousand)
+  const currencyMatch = body.match(/^([\d,.]+)\s*(b|bn|billion|m|mm|million|k|thousand)?$/i);
   if (currencyMatch) {
     let value = parseFloat(currencyMatch[1].replace(/,/g, ''));
     if (!isNaN(value)) {
@@ -163,29 +237,12 @@ function parseCurrency(text: string): ParsedNumericValue | null {
         raw: value,
         type: 'currency',
         unit: null,
-        original: text
+        original: text,
+        ...(currency ? { currency } : {})
       };
     }
   }
-  
-  // Pattern: "X dollars"
-  const dollarsMatch = text.match(/^\$?\s*([\d,.]+)\s*(b|bn|billion|m|mm|million|k|thousand)?\s*dollars?$/i);
-  if (dollarsMatch) {
-    let value = parseFloat(dollarsMatch[1].replace(/,/g, ''));
-    if (!isNaN(value)) {
-      const unit = dollarsMatch[2]?.toLowerCase();
-      if (unit && UNIT_MULTIPLIERS[unit]) {
-        value *= UNIT_MULTIPLIERS[unit];
-      }
-      return {
-        raw: value,
-        type: 'currency',
-        unit: null,
-        original: text
-      };
-    }
-  }
-  
+
   return null;
 }
 
@@ -213,24 +270,32 @@ function parseShares(text: string): ParsedNumericValue | null {
 }
 
 /**
- * Parse range: "$28–$32", "28-32" (returns midpoint)
+ * Parse range: "$28–$32", "28-32", "8–10x", "$1.2-1.5bn", "10 to 12%" (returns midpoint)
+ * A bare low end takes the high end's suffix: in "8–10x" both ends are multiples.
  */
 function parseRange(text: string): ParsedNumericValue | null {
-  // Pattern: number dash/en-dash number
-  const rangeMatch = text.match(/^\$?\s*([\d,.]+)\s*[-–—]\s*\$?\s*([\d,.]+)$/);
-  if (rangeMatch) {
-    const low = parseFloat(rangeMatch[1].replace(/,/g, ''));
-    const high = parseFloat(rangeMatch[2].replace(/,/g, ''));
-    if (!isNaN(low) && !isNaN(high)) {
-      return {
-        raw: (low + high) / 2,
-        type: 'currency',
-        unit: null,
-        original: text
-      };
-    }
+  const rangeMatch = text.match(/^(.+?)\s*(?:[–—]|-|\bto\b)\s*(.+)$/i);
+  if (!rangeMatch) return null;
+
+  let [, lowText, highText] = rangeMatch;
+  const highSuffix = highText.match(/[\d,.]+(.*)$/)?.[1] || '';
+  if (/^[^\d]*[\d,.]+$/.test(lowText)) {
+    lowText += highSuffix;
   }
-  return null;
+
+  const low = parseSingleValue(lowText.trim());
+  const high = parseSingleValue(highText.trim());
+  if (!low || !high || low.type !== high.type) return null;
+
+  const currency = high.currency || low.currency;
+  return {
+    raw: (low.raw + high.raw) / 2,
+    type: high.type,
+    unit: high.unit ?? low.unit,
+    original: text,
+    ...(currency ? { currency } : {}),
+    range: { low: Math.min(low.raw, high.raw), high: Math.max(low.raw, high.raw) }
+  };
 }
 
 /**
@@ -253,6 +318,101 @@ function parseRawNumber(text: string): ParsedNumericValue | null {
 }
 
 
+// ============ TEXT NORMALIZATION ============
+
+const NUMBER_SOURCE = String.raw`\d[\d,]*(?:\.\d+)?`;
+const SCALE_SOURCE = String.raw`(?:bn|b|billion|mm|m|million|k|thousand)(?![a-z])`;
+
+// One end of a range in running text: optional $, number, optional scale, optional %/x
+const RANGE_END_SOURCE = String.raw`(\$\s*)?(${NUMBER_SOURCE})(?:\s*(${SCALE_SOURCE}))?(?:\s*([%x×](?![a-z])))?`;
+const RANGE_IN_TEXT = new RegExp(`(?<![\\w.,$])${RANGE_END_SOURCE}\\s*(?:[–—]|-|\\s+to\\s+)\\s*${RANGE_END_SOURCE}`, 'gi');
+
+// A value in accounting parentheses; needs a $, scale, % or x so "(1)" list markers are left alone
+const PAREN_NEGATIVE_IN_TEXT = new RegExp(
+  `\\(\\s*((?:\\$\\s*${NUMBER_SOURCE}\\s*(?:${SCALE_SOURCE})?|${NUMBER_SOURCE}\\s*${SCALE_SOURCE}|${NUMBER_SOURCE}\\s*[%x×])\\s*)\\)`, 'gi');
+
+// Currency symbols/codes in running text, rewritten to "$"
+const CURRENCY_SYMBOL_IN_TEXT = new RegExp(`(?<![A-Za-z])(?:${CURRENCY_SYMBOL_SOURCE})\\s*(?=[\\d(.])`, 'g');
+const CURRENCY_CODE_PREFIX_IN_TEXT = new RegExp(`\\b(?:${CURRENCY_CODE_SOURCE})\\s*(?=\\d)`, 'g');
+const REDUNDANT_CURRENCY_SUFFIX_IN_TEXT = new RegExp(`(\\$\\s*${NUMBER_SOURCE}\\s*(?:${SCALE_SOURCE})?)\\s*\\b(?:${CURRENCY_CODE_SOURCE}|dollars?)\\b`, 'gi');
+const CURRENCY_SUFFIX_IN_TEXT = new RegExp(`(?<![\\d.,$])(${NUMBER_SOURCE}\\s*(?:${SCALE_SOURCE})?)\\s+(?:${CURRENCY_CODE_SOURCE}|euros?|yen|sterling)\\b`, 'g');
+const CURRENCY_IN_TEXT = new RegExp(
+  `(?<![A-Za-z])(${CURRENCY_SYMBOL_SOURCE})(?=\\s*[\\d(.])|\\b(${CURRENCY_CODE_SOURCE})\\b|\\b(${CURRENCY_WORD_SOURCE})\\b`, 'i');
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+/**
+ * Rewrite running text so the pattern-based extractors below can read it:
+ * - currency symbols and codes become "$" ("€500m" → "$500m", "300m EUR" → "$300m")
+ * - ranges with a unit become their midpoint ("8–10x" → "9x", "$1.2-1.5bn" → "$1.35bn")
+ * - accounting negatives get a minus sign ("(15%)" → "-15%")
+ * Plain-number ranges such as "2020-2024" are left alone.
+ */
+export function normalizeNumericText(text: string): string {
+  if (!text) return text;
+
+  let normalized = text
+    .replace(CURRENCY_SYMBOL_IN_TEXT, '$')
+    .replace(CURRENCY_CODE_PREFIX_IN_TEXT, '$')
+    .replace(REDUNDANT_CURRENCY_SUFFIX_IN_TEXT, '$1')
+    .replace(CURRENCY_SUFFIX_IN_TEXT, '$$$1');
+
+  normalized = normalized.replace(RANGE_IN_TEXT, (match, lowDollar, lowNumber, lowScale, lowSuffix, highDollar, highNumber, highScale, highSuffix) => {
+    const isMoney = !!(lowDollar || highDollar || lowScale || highScale);
+    const suffixes = [lowSuffix, highSuffix].filter(Boolean).map((s: string) => (s === '×' ? 'x' : s.toLowerCase()));
+    // Needs a unit somewhere, and both ends must be the same kind of value
+    if (!isMoney && suffixes.length === 0) return match;
+    if (new Set(suffixes).size > 1 || (isMoney && suffixes.length > 0)) return match;
+
+    const scale = (highScale || lowScale || '').toLowerCase();
+    const lowMultiplier = UNIT_MULTIPLIERS_MILLIONS[(lowScale || scale).toLowerCase()] ?? 1;
+    const highMultiplier = UNIT_MULTIPLIERS_MILLIONS[scale] ?? 1;
+    const low = parseFloat(lowNumber.replace(/,/g, '')) * lowMultiplier;
+    const high = parseFloat(highNumber.replace(/,/g, '')) * highMultiplier;
+    if (isNaN(low) || isNaN(high)) return match;
+
+    const midpoint = formatNumber((low + high) / 2 / highMultiplier);
+    const scaleText = highScale || lowScale || '';
+    return `${lowDollar || highDollar ? '$' : ''}${midpoint}${scaleText.length > 2 ? ' ' : ''}${scaleText}${suffixes[0] || ''}`;
+  });
+
+  // A range can end just before a currency code ("$1.2-1.5bn USD"), which is only redundant once collapsed
+  return normalized
+    .replace(REDUNDANT_CURRENCY_SUFFIX_IN_TEXT, '$1')
+    .replace(PAREN_NEGATIVE_IN_TEXT, (_match, value: string) => `-${value.trim()}`);
+}
+
+/**
+ * The first currency named in the text, if any: "$" → USD, "€"/"EUR"/"euros" → EUR, ...
+ */
+export function detectCurrency(text: string): CurrencyCode | null {
+  const match = text.match(CURRENCY_IN_TEXT);
+  if (!match) return null;
+  return currencyCode(match[1] || match[2] || match[3]) || null;
+}
+
+/**
+ * Where the captured number sits in the text
+ */
+function capturePosition(text: string, match: RegExpMatchArray): { start: number; end: number } {
+  const start = (match.index ?? 0) + Math.max(0, match[0].indexOf(match[1]));
+  return { start, end: start + match[1].length };
+}
+
+/**
+ * True when the captured number is written as a negative: "-5%", "−$25M" (after
+ * normalization, "(15%)" reads "-15%"). A hyphen joined to a word or digit, as in
+ * "year-5" or "2020-2024", is not a sign.
+ */
+function isNegated(text: string, match: RegExpMatchArray): boolean {
+  if (match[1].trim().startsWith('-')) return false; // the pattern captured the sign itself
+  const { start } = capturePosition(text, match);
+  return /(?:^|[^\w.,)])[-−]\s*\$?\s*$/.test(text.slice(0, start));
+}
+
+
 // ============ EXTRACTION FUNCTIONS FOR FINANCE MODELS ============
 
 /**
@@ -260,11 +420,13 @@ function parseRawNumber(text: string): ParsedNumericValue | null {
  * Returns raw value (in base units, e.g., actual dollars)
  */
 export function extractValue(text: string, patterns: RegExp[]): number | null {
+  const source = normalizeNumericText(text);
   for (const pattern of patterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match && match[1]) {
+      const negated = isNegated(source, match);
       const parsed = parseNumericValue(match[1]);
-      if (parsed) return parsed.raw;
+      if (parsed) return negated ? -parsed.raw : parsed.raw;
       
       // Fallback: direct parse with unit detection from full match
       let value = parseFloat(match[1].replace(/,/g, ''));
@@ -280,7 +442,7 @@ export function extractValue(text: string, patterns: RegExp[]): number | null {
         value *= 1_000;
       }
       
-      return value;
+      return negated ? -value : value;
     }
   }
   return null;
@@ -291,8 +453,9 @@ export function extractValue(text: string, patterns: RegExp[]): number | null {
  * This is the primary function for finance models that work in millions
  */
 export function extractMoney(text: string, patterns: RegExp[]): number | null {
+  const source = normalizeNumericText(text);
   for (const pattern of patterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match && match[1]) {
       let value = parseFloat(match[1].replace(/,/g, ''));
       if (isNaN(value)) continue;
@@ -308,7 +471,7 @@ export function extractMoney(text: string, patterns: RegExp[]): number | null {
         value /= 1000;
       }
       
-      return value;
+      return isNegated(source, match) ? -value : value;
     }
   }
   return null;
@@ -319,6 +482,7 @@ export function extractMoney(text: string, patterns: RegExp[]): number | null {
  * Returns value IN MILLIONS
  */
 export function extractMoneyAuto(text: string): number | null {
+  const source = normalizeNumericText(text);
   // Pattern for billions: $X.XXB, X.XXbn, X.XX billion
   const billionPatterns = [
     /\$?([\d,.]+)\s*[Bb](?:illion|n)?(?![a-z])/,
@@ -339,28 +503,28 @@ export function extractMoneyAuto(text: string): number | null {
 
   // Check billions first (highest priority)
   for (const pattern of billionPatterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match) {
       const value = parseFloat(match[1].replace(/,/g, ''));
-      if (!isNaN(value)) return value * 1000; // Convert to millions
+      if (!isNaN(value)) return (isNegated(source, match) ? -value : value) * 1000; // Convert to millions
     }
   }
 
   // Check millions
   for (const pattern of millionPatterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match) {
       const value = parseFloat(match[1].replace(/,/g, ''));
-      if (!isNaN(value)) return value; // Already in millions
+      if (!isNaN(value)) return isNegated(source, match) ? -value : value; // Already in millions
     }
   }
   
   // Check thousands
   for (const pattern of thousandPatterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match) {
       const value = parseFloat(match[1].replace(/,/g, ''));
-      if (!isNaN(value)) return value / 1000; // Convert to millions
+      if (!isNaN(value)) return (isNegated(source, match) ? -value : value) / 1000; // Convert to millions
     }
   }
 
@@ -372,15 +536,18 @@ export function extractMoneyAuto(text: string): number | null {
  * Returns decimal (e.g., 0.17 for 17%)
  */
 export function extractPercent(text: string, patterns: RegExp[]): number | null {
+  const source = normalizeNumericText(text);
   for (const pattern of patterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match && match[1]) {
       let value = parseFloat(match[1].replace(/,/g, ''));
       if (isNaN(value)) continue;
       
-      // Normalize: if > 1, assume it's a percentage and divide by 100
-      if (value > 1) value /= 100;
-      return value;
+      // Normalize: a % sign after the number always means a percentage;
+      // without one, values > 1 are assumed to be percentages
+      const { end } = capturePosition(source, match);
+      if (/^\s*(?:%|percent)/i.test(source.slice(end)) || value > 1) value /= 100;
+      return isNegated(source, match) ? -value : value;
     }
   }
   return null;
@@ -391,8 +558,9 @@ export function extractPercent(text: string, patterns: RegExp[]): number | null
  * Returns the numeric multiple and optional unit
  */
 export function extractMultiple(text: string, patterns: RegExp[]): { value: number; unit: ParsedValueUnit } | null {
+  const source = normalizeNumericText(text);
   for (const pattern of patterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match && match[1]) {
       const value = parseFloat(match[1].replace(/,/g, ''));
       if (!isNaN(value)) {
@@ -414,8 +582,9 @@ export function extractMultiple(text: string, patterns: RegExp[]): { value: numb
  * Extract a raw number from text (no unit conversion)
  */
 export function extractNumber(text: string, patterns: RegExp[]): number | null {
+  const source = normalizeNumericText(text);
   for (const pattern of patterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match && match[1]) {
       const value = parseFloat(match[1].replace(/,/g, ''));
       if (!isNaN(value)) return value;
@@ -429,8 +598,9 @@ export function extractNumber(text: string, patterns: RegExp[]): number | null {
  * Returns number of shares IN MILLIONS
  */
 export function extractShares(text: string, patterns: RegExp[]): number | null {
+  const source = normalizeNumericText(text);
   for (const pattern of patterns) {
-    const match = text.match(pattern);
+    const match = source.match(pattern);
     if (match && match[1]) {
       let value = parseFloat(match[1].replace(/,/g, ''));
       if (isNaN(value)) continue;
@@ -471,6 +641,7 @@ export function runUnifiedParserTests(): { passed: number; failed: number; resul
     { input: "9%", expected: 0.09, description: "9% → 0.09" },
     { input: "17%", expected: 0.17, description: "17% → 0.17" },
     { input: "12.5 %", expected: 0.125, description: "12.5 % → 0.125" },
+    { input: "0.5%", expected: 0.005, description: "0.5% → 0.005" },
     
     // Shares tests
     { input: "4.5M shares", expected: 4_500_000, description: "4.5M shares → 4,500,000" },
@@ -478,6 +649,19 @@ export function runUnifiedParserTests(): { passed: number; failed: number; resul
     
     // Range tests
     { input: "$28–$32", expected: 30, description: "$28–$32 → 30 (midpoint)" },
+    { input: "8–10x", expected: { raw: 9, type: 'multiple', unit: null }, description: "8–10x → {raw: 9, type: 'multiple'}" },
+    { input: "$1.2-1.5bn", expected: 1_350_000_000, description: "$1.2-1.5bn → 1,350,000,000 (midpoint)" },
+    { input: "10 to 12%", expected: 0.11, description: "10 to 12% → 0.11 (midpoint)" },
+    
+    // Negative tests
+    { input: "(15%)", expected: -0.15, description: "(15%) → -0.15" },
+    { input: "($25M)", expected: -25_000_000, description: "($25M) → -25,000,000" },
+    { input: "-3%", expected: -0.03, description: "-3% → -0.03" },
+    
+    // Non-USD currency tests
+    { input: "€500m", expected: 500_000_000, description: "€500m → 500,000,000" },
+    { input: "EUR 300 million", expected: 300_000_000, description: "EUR 300 million → 300,000,000" },
+    { input: "£1.2bn", expected: 1_200_000_000, description: "£1.2bn → 1,200,000,000" },
   ];
   
   let passed = 0;
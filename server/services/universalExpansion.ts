@@ -10,7 +10,7 @@
  * The app does what the user wants. Period.
  */
 
-import Anthropic from "@anthropic-ai/sdk";
+import { completeChat } from "./llmProviders";
 import { 
   logLLMCall, 
   logChunkProcessing, 
@@ -20,7 +20,7 @@ import {
   countWords 
 } from "./auditService";
 import { db } from "../db";
-import { coherenceChunks } from "@shared/schema";
+import { coherenceChunks, type JobEvent } from "@shared/schema";
 
 interface ExpansionRequest {
   text: string;
@@ -45,6 +45,29 @@ export interface StreamChunk {
   outline?: string;
 }
 
+// StreamChunk in the shared job event vocabulary (see jobEvents.ts)
+export function streamChunkToJobEvent(chunk: StreamChunk): JobEvent {
+  switch (chunk.type) {
+    case 'outline':
+      return { type: 'outline', message: chunk.message, totalSections: chunk.totalSections, outline: chunk.outline };
+    case 'section_complete':
+      return {
+        type: 'section',
+        index: chunk.sectionIndex ?? 0,
+        total: chunk.totalSections,
+        title: chunk.sectionTitle,
+        text: chunk.sectionContent || '',
+        words: chunk.wordCount,
+        totalWords: chunk.totalWordCount,
+        progress: chunk.progress
+      };
+    case 'complete':
+      return { type: 'complete', message: chunk.message, totalWords: chunk.totalWordCount };
+    default:
+      return { type: 'progress', stage: 'expansion', message: chunk.message, progress: chunk.progress, total: chunk.totalSections, words: chunk.totalWordCount };
+  }
+}
+
 interface ExpansionResult {
   expandedText: string;
   inputWordCount: number;
@@ -65,8 +88,6 @@ interface ParsedInstructions {
   philosophersToReference: string[];
 }
 
-const anthropic = new Anthropic();
-
 // Cache for parsed instructions to avoid double computation
 const parseCache = new Map<string, ParsedInstructions>();
 
@@ -493,22 +514,20 @@ Continue writing NOW (${wordsToRequest} more words):`;
 
     console.log(`[Section ${sectionName}] Attempt ${continuationAttempts + 1}: Requesting ${wordsToRequest} words (have ${currentWordCount}/${targetWordCount})`);
 
-    const response = await anthropic.messages.create({
+    const response = await completeChat('anthropic', {
       model: "claude-sonnet-4-20250514",
-      max_tokens: 8000, // Allow plenty of room
+      maxTokens: 8000, // Allow plenty of room
       messages: [{ role: "user", content: prompt }]
-    }, {
-      timeout: 600000 // 10 minute timeout
     });
 
-    const chunkContent = response.content[0].type === 'text' ? response.content[0].text : '';
+    const chunkContent = response.text;
     const chunkWordCount = chunkContent.trim().split(/\s+/).filter(w => w).length;
-    const stopReason = response.stop_reason;
+    const stopReason = response.finishReason;
     
-    console.log(`[Section ${sectionName}] Got ${chunkWordCount} words in chunk ${continuationAttempts + 1} (stop_reason: ${stopReason})`);
+    console.log(`[Section ${sectionName}] Got ${chunkWordCount} words in chunk ${continuationAttempts + 1} (finish reason: ${stopReason})`);
     
-    // If stopped due to max_tokens, we MUST continue even if we think we have enough
-    const wasTruncated = stopReason === 'max_tokens';
+    // If stopped at the token limit, we MUST continue even if we think we have enough
+    const wasTruncated = stopReason === 'length';
     if (wasTruncated) {
       console.log(`[Section ${sectionName}] Response was TRUNCATED - will continue generating`);
     }
@@ -670,13 +689,13 @@ Return a comprehensive outline that will ensure argumentative coherence across t
 
   console.log(`[Universal Expansion] Generating outline...`);
   
-  const outlineResponse = await anthropic.messages.create({
+  const outlineResponse = await completeChat('anthropic', {
     model: "claude-sonnet-4-20250514",
-    max_tokens: 4000,
+    maxTokens: 4000,
     messages: [{ role: "user", content: outlinePrompt }]
   });
   
-  const fullOutline = outlineResponse.content[0].type === 'text' ? outlineResponse.content[0].text : '';
+  const fullOutline = outlineResponse.text;
 
   // Log outline generation
   await logLLMCall({
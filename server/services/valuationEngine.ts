@@ -0,0 +1,329 @@
+import type { DCFGuaranteedValues, LBOGuaranteedValues } from './guaranteedParser';
+import {
+  buildDCFModel,
+  buildLBOModel,
+  computeDCF,
+  computeLBO,
+  lboSponsorEquity,
+} from './financialModels';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALUATION ENGINE
+// Scenario analysis and two-way sensitivity grids over the DCF and LBO models
+// in financialModels.ts. A scenario shifts a handful of assumptions from the
+// parsed base case; a grid re-runs the model for every pair of values of two
+// assumptions centred on the base case. Each cell is a full model run, so the
+// grids stay consistent with the single-case outputs.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const VALUATION_MODEL_TYPES = ['dcf', 'lbo'] as const;
+export type ValuationModelType = typeof VALUATION_MODEL_TYPES[number];
+
+export type ScenarioName = 'downside' | 'base' | 'upside';
+const SCENARIO_NAMES: ScenarioName[] = ['downside', 'base', 'upside'];
+
+// Shifts added to the base case; rates are in decimal points (0.01 = 1pp)
+export interface DCFScenarioShift {
+  revenueGrowth: number;
+  ebitdaMargin: number;
+  wacc: number;
+  terminalGrowthRate: number;
+  terminalMultiple: number;
+}
+
+export interface LBOScenarioShift {
+  revenueGrowth: number;
+  ebitdaMargin: number;
+  exitMultiple: number;
+  debtRate: number;
+}
+
+export const DEFAULT_DCF_SCENARIOS: Record<'upside' | 'downside', DCFScenarioShift> = {
+  upside: { revenueGrowth: 0.02, ebitdaMargin: 0.02, wacc: -0.01, terminalGrowthRate: 0.005, terminalMultiple: 1 },
+  downside: { revenueGrowth: -0.02, ebitdaMargin: -0.02, wacc: 0.01, terminalGrowthRate: -0.005, terminalMultiple: -1 },
+};
+
+export const DEFAULT_LBO_SCENARIOS: Record<'upside' | 'downside', LBOScenarioShift> = {
+  upside: { revenueGrowth: 0.02, ebitdaMargin: 0.02, exitMultiple: 1, debtRate: -0.005 },
+  downside: { revenueGrowth: -0.02, ebitdaMargin: -0.02, exitMultiple: -1, debtRate: 0.01 },
+};
+
+export interface ScenarioResult {
+  name: ScenarioName;
+  // Key assumptions as used in this scenario
+  assumptions: Record<string, number>;
+  outputs: Record<string, number | null>;
+}
+
+export interface SensitivityGrid {
+  id: string;
+  title: string;
+  metric: string;
+  metricFormat: ValueFormat;
+  rowLabel: string;
+  rowFormat: ValueFormat;
+  rowValues: number[];
+  columnLabel: string;
+  columnFormat: ValueFormat;
+  columnValues: number[];
+  // cells[row][column]; null where the model is undefined (e.g. WACC <= growth)
+  cells: (number | null)[][];
+  // Position of the base case in the grid
+  baseRow: number;
+  baseColumn: number;
+}
+
+export type ValueFormat = 'money' | 'percent' | 'multiple';
+
+export interface ValuationResult {
+  model: ValuationModelType;
+  companyName: string;
+  defaultedFields: string[];
+  scenarios: ScenarioResult[];
+  // Display formats for the scenario assumption and output keys
+  formats: Record<string, ValueFormat>;
+  sensitivities: SensitivityGrid[];
+  warnings: string[];
+}
+
+export interface ValuationOptions {
+  scenarios?: Partial<Record<'upside' | 'downside', Partial<DCFScenarioShift & LBOScenarioShift>>>;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+// Five steps centred on the base value, dropping steps that fall below the floor
+function steps(base: number, step: number, floor: number = -Infinity): { values: number[]; baseIndex: number } {
+  const values = [-2, -1, 0, 1, 2]
+    .map(offset => round(base + offset * step, 6))
+    .filter(value => value > floor);
+  return { values, baseIndex: values.indexOf(round(base, 6)) };
+}
+
+function sensitivityGrid(
+  meta: Omit<SensitivityGrid, 'rowValues' | 'columnValues' | 'cells' | 'baseRow' | 'baseColumn'>,
+  rows: { values: number[]; baseIndex: number },
+  columns: { values: number[]; baseIndex: number },
+  evaluate: (row: number, column: number) => number | null
+): SensitivityGrid {
+  return {
+    ...meta,
+    rowValues: rows.values,
+    columnValues: columns.values,
+    cells: rows.values.map(row => columns.values.map(column => evaluate(row, column))),
+    baseRow: rows.baseIndex,
+    baseColumn: columns.baseIndex
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DCF
+// ═══════════════════════════════════════════════════════════════════════════
+
+function applyDCFShift(v: DCFGuaranteedValues, shift: DCFScenarioShift): DCFGuaranteedValues {
+  // Constant mode holds the base margin, so a margin shift needs per-year margins
+  const baseMargin = v.baseRevenue > 0 ? v.baseEBITDA / v.baseRevenue : v.ebitdaMargins[0] ?? 0;
+  const margins = v.constantAssumptions
+    ? Array.from({ length: v.projectionYears }, () => baseMargin)
+    : v.ebitdaMargins;
+  return {
+    ...v,
+    revenueGrowthRates: v.revenueGrowthRates.map(rate => rate + shift.revenueGrowth),
+    ebitdaMargins: margins.map(margin => margin + shift.ebitdaMargin),
+    constantAssumptions: shift.ebitdaMargin === 0 ? v.constantAssumptions : false,
+    wacc: v.wacc + shift.wacc,
+    terminalGrowthRate: v.terminalGrowthRate + shift.terminalGrowthRate,
+    terminalMultiple: Math.max(0, v.terminalMultiple + shift.terminalMultiple)
+  };
+}
+
+function dcfScenario(name: ScenarioName, v: DCFGuaranteedValues): ScenarioResult {
+  const { outputs } = computeDCF(v);
+  return {
+    name,
+    assumptions: {
+      revenueGrowth: round(v.revenueGrowthRates[0] ?? 0, 4),
+      ebitdaMargin: round(v.constantAssumptions ? (v.baseRevenue > 0 ? v.baseEBITDA / v.baseRevenue : 0) : v.ebitdaMargins[0] ?? 0, 4),
+      wacc: round(v.wacc, 4),
+      terminalGrowthRate: round(v.terminalGrowthRate, 4),
+      terminalMultiple: round(v.terminalMultiple, 2)
+    },
+    outputs: {
+      enterpriseValue: outputs.enterpriseValue,
+      perpetuityGrowthEV: outputs.perpetuityGrowth?.enterpriseValue ?? null,
+      exitMultipleEV: outputs.exitMultiple.enterpriseValue,
+      sumOfPresentValues: outputs.sumOfPresentValues
+    }
+  };
+}
+
+const DCF_FORMATS: Record<string, ValueFormat> = {
+  revenueGrowth: 'percent',
+  ebitdaMargin: 'percent',
+  wacc: 'percent',
+  terminalGrowthRate: 'percent',
+  terminalMultiple: 'multiple',
+  enterpriseValue: 'money',
+  perpetuityGrowthEV: 'money',
+  exitMultipleEV: 'money',
+  sumOfPresentValues: 'money',
+};
+
+export function valueDCF(text: string, options: ValuationOptions = {}): ValuationResult {
+  const base = buildDCFModel(text);
+  const v = base.values;
+  const shifts = {
+    upside: { ...DEFAULT_DCF_SCENARIOS.upside, ...options.scenarios?.upside },
+    downside: { ...DEFAULT_DCF_SCENARIOS.downside, ...options.scenarios?.downside },
+  };
+  const scenarios = SCENARIO_NAMES.map(name =>
+    dcfScenario(name, name === 'base' ? v : applyDCFShift(v, shifts[name]))
+  );
+
+  const waccSteps = steps(v.wacc, 0.005, 0);
+  const sensitivities = [
+    sensitivityGrid(
+      { id: 'wacc-terminal-growth', title: 'Enterprise value: WACC × terminal growth (perpetuity method)', metric: 'enterpriseValue', metricFormat: 'money',
+        rowLabel: 'WACC', rowFormat: 'percent', columnLabel: 'Terminal growth', columnFormat: 'percent' },
+      waccSteps,
+      steps(v.terminalGrowthRate, 0.005),
+      (wacc, growth) => computeDCF({ ...v, wacc, terminalGrowthRate: growth }).outputs.perpetuityGrowth?.enterpriseValue ?? null
+    ),
+    sensitivityGrid(
+      { id: 'wacc-terminal-multiple', title: 'Enterprise value: WACC × terminal EBITDA multiple (exit multiple method)', metric: 'enterpriseValue', metricFormat: 'money',
+        rowLabel: 'WACC', rowFormat: 'percent', columnLabel: 'Terminal multiple', columnFormat: 'multiple' },
+      waccSteps,
+      steps(v.terminalMultiple, 1, 0),
+      (wacc, multiple) => computeDCF({ ...v, wacc, terminalMultiple: multiple }).outputs.exitMultiple.enterpriseValue
+    ),
+  ];
+
+  console.log(`[VALUATION] DCF ${v.companyName}: ${scenarios.map(s => `${s.name} $${s.outputs.enterpriseValue}M`).join(', ')}`);
+  return {
+    model: 'dcf',
+    companyName: v.companyName,
+    defaultedFields: base.defaultedFields as string[],
+    scenarios,
+    formats: DCF_FORMATS,
+    sensitivities,
+    warnings: base.warnings
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LBO
+// ═══════════════════════════════════════════════════════════════════════════
+
+function applyLBOShift(v: LBOGuaranteedValues, shift: LBOScenarioShift): LBOGuaranteedValues {
+  return {
+    ...v,
+    revenueGrowthRate: v.revenueGrowthRate + shift.revenueGrowth,
+    targetEBITDAMargin: v.targetEBITDAMargin + shift.ebitdaMargin,
+    exitMultiple: Math.max(0, v.exitMultiple + shift.exitMultiple),
+    seniorDebtRate: Math.max(0, v.seniorDebtRate + shift.debtRate),
+    subDebtRate: Math.max(0, v.subDebtRate + shift.debtRate)
+  };
+}
+
+// Entry at a different multiple changes the price and so the equity cheque
+function withEntryMultiple(v: LBOGuaranteedValues, entryMultiple: number): LBOGuaranteedValues {
+  const next = { ...v, entryMultiple, purchasePrice: v.ltmEBITDA * entryMultiple };
+  return { ...next, sponsorEquity: lboSponsorEquity(next) };
+}
+
+// Total leverage at a different multiple, keeping the senior/sub split
+function withLeverage(v: LBOGuaranteedValues, leverage: number): LBOGuaranteedValues {
+  const totalDebt = v.seniorDebtAmount + v.subDebtAmount;
+  const seniorShare = totalDebt > 0 ? v.seniorDebtAmount / totalDebt : 1;
+  const debt = v.ltmEBITDA * leverage;
+  const next = { ...v, seniorDebtAmount: debt * seniorShare, subDebtAmount: debt * (1 - seniorShare) };
+  return { ...next, sponsorEquity: lboSponsorEquity(next) };
+}
+
+function lboScenario(name: ScenarioName, v: LBOGuaranteedValues): ScenarioResult {
+  const { outputs } = computeLBO(v);
+  return {
+    name,
+    assumptions: {
+      revenueGrowth: round(v.revenueGrowthRate, 4),
+      targetEBITDAMargin: round(v.targetEBITDAMargin, 4),
+      exitMultiple: round(v.exitMultiple, 2),
+      seniorDebtRate: round(v.seniorDebtRate, 4)
+    },
+    outputs: {
+      irr: outputs.returns.irr,
+      moic: outputs.returns.moic,
+      sponsorEquity: outputs.sourcesAndUses.sponsorEquity,
+      exitEquityValue: outputs.exit.equityValue
+    }
+  };
+}
+
+const LBO_FORMATS: Record<string, ValueFormat> = {
+  revenueGrowth: 'percent',
+  targetEBITDAMargin: 'percent',
+  exitMultiple: 'multiple',
+  seniorDebtRate: 'percent',
+  irr: 'percent',
+  moic: 'multiple',
+  sponsorEquity: 'money',
+  exitEquityValue: 'money',
+};
+
+export function valueLBO(text: string, options: ValuationOptions = {}): ValuationResult {
+  const base = buildLBOModel(text);
+  const v = base.values;
+  const shifts = {
+    upside: { ...DEFAULT_LBO_SCENARIOS.upside, ...options.scenarios?.upside },
+    downside: { ...DEFAULT_LBO_SCENARIOS.downside, ...options.scenarios?.downside },
+  };
+  const scenarios = SCENARIO_NAMES.map(name =>
+    lboScenario(name, name === 'base' ? v : applyLBOShift(v, shifts[name]))
+  );
+
+  const entryMultiple = v.ltmEBITDA > 0 ? v.purchasePrice / v.ltmEBITDA : v.entryMultiple;
+  const leverage = v.ltmEBITDA > 0 ? (v.seniorDebtAmount + v.subDebtAmount) / v.ltmEBITDA : 0;
+  const exitSteps = steps(v.exitMultiple, 1, 0);
+  const irr = (values: LBOGuaranteedValues) => computeLBO(values).outputs.returns.irr;
+  const sensitivities = [
+    sensitivityGrid(
+      { id: 'entry-exit-irr', title: 'IRR: entry multiple × exit multiple', metric: 'irr', metricFormat: 'percent',
+        rowLabel: 'Entry multiple', rowFormat: 'multiple', columnLabel: 'Exit multiple', columnFormat: 'multiple' },
+      steps(entryMultiple, 0.5, 0),
+      exitSteps,
+      (entry, exit) => irr({ ...withEntryMultiple(v, entry), exitMultiple: exit })
+    ),
+    sensitivityGrid(
+      { id: 'entry-exit-moic', title: 'MOIC: entry multiple × exit multiple', metric: 'moic', metricFormat: 'multiple',
+        rowLabel: 'Entry multiple', rowFormat: 'multiple', columnLabel: 'Exit multiple', columnFormat: 'multiple' },
+      steps(entryMultiple, 0.5, 0),
+      exitSteps,
+      (entry, exit) => computeLBO({ ...withEntryMultiple(v, entry), exitMultiple: exit }).outputs.returns.moic
+    ),
+    sensitivityGrid(
+      { id: 'leverage-exit-irr', title: 'IRR: total leverage (debt / EBITDA) × exit multiple', metric: 'irr', metricFormat: 'percent',
+        rowLabel: 'Leverage', rowFormat: 'multiple', columnLabel: 'Exit multiple', columnFormat: 'multiple' },
+      steps(leverage, 0.5, -0.000001),
+      exitSteps,
+      (debt, exit) => irr({ ...withLeverage(v, debt), exitMultiple: exit })
+    ),
+  ];
+
+  console.log(`[VALUATION] LBO ${v.companyName}: ${scenarios.map(s => `${s.name} ${s.outputs.irr === null ? 'n/a' : `${(s.outputs.irr * 100).toFixed(1)}%`} IRR`).join(', ')}`);
+  return {
+    model: 'lbo',
+    companyName: v.companyName,
+    defaultedFields: base.defaultedFields as string[],
+    scenarios,
+    formats: LBO_FORMATS,
+    sensitivities,
+    warnings: base.warnings
+  };
+}
+
+export function runValuation(model: ValuationModelType, text: string, options: ValuationOptions = {}): ValuationResult {
+  return model === 'dcf' ? valueDCF(text, options) : valueLBO(text, options);
+}
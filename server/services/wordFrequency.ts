@@ -0,0 +1,122 @@
+// ═══════════════════════════════════════════════════════════════════════════
+// ENGLISH WORD FREQUENCY LIST
+// The ~1,000 most frequent English word forms, most frequent first, compiled
+// from general-corpus frequency lists. Bundled so lexical rarity can be scored
+// locally and repeatably; a word's rank is its position in this list.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const FREQUENCY_LIST = `
+the of and to a in is that for it as was with be by on not he i this are or his from at which but have an they
+you were her she there been one all we their has would when if so no will more can who what said out up about into
+them some could him than its only other time then do my also may these two new first any like over our after most
+made such me did where should even how those well many very much through before between same each just own because
+under being still while both back way us people years here must without against world now never life might another
+during great part day since used down year work three man however state last good old long see take
+know get make think come go say find give tell become show leave feel seem ask need keep let begin help turn start
+call try move live believe hold bring happen write provide sit stand lose pay meet include continue set learn change
+lead understand watch follow stop create speak read allow add spend grow open walk win offer remember love consider appear
+buy wait serve die send expect build stay fall cut reach kill remain suggest raise pass sell require report decide pull
+government company number group problem fact hand place case week point system program question home water room mother area
+money story month lot right study book eye job word business issue side kind head house service friend father power hour
+game line end member law car city community name president team minute idea kid body information school face others level
+office door health person art war history party result morning reason research girl guy moment air teacher force education
+foot boy age policy process music market sense nation plan college interest death experience effect use class control care
+field development role effort rate heart drug leader light voice wife police mind price decision son view
+relationship town road arm difference value building action model season society tax director position player record paper space
+ground form event official matter center couple site project activity star table court oil situation cost industry figure
+street image phone data picture practice piece land product doctor wall patient worker news test movie north support
+technology step baby computer type attention film tree source organization hair window evidence population truth letter
+thing nothing something everything anything someone everyone child children woman women men family student country
+public social national political american economic local general human international major military federal medical white
+small large big high little different young important few early able free real full special best better hard late sure
+clear whole strong possible recent likely certain true single simple private past common poor natural significant similar
+hot dead central happy serious ready left physical environmental financial blue democratic dark various entire close legal
+religious cold final main green nice huge popular traditional cultural wrong available personal black low short red
+least second third next several every enough less half either neither quite rather almost already
+always often sometimes usually ever perhaps really actually probably especially certainly simply clearly exactly
+finally generally nearly recently suddenly today together therefore thus although though whether
+unless until whereas indeed instead otherwise yet again once twice away far soon later ago above below behind
+across along among around beyond toward towards upon within throughout despite except near inside outside onto
+four five six seven eight nine ten hundred thousand million billion percent dollar dollars
+example order course term sort ways means things parts lots rest facts ideas
+questions answer answers reasons results cause effects changes points words
+levels forms types cases lines basis degree extent range rates roles
+account views theory theories concept concepts argument arguments claim claims positions principle principles
+approach approaches analysis method methods models structure structures function functions relation relations
+condition conditions processes practices pattern patterns feature features aspect aspects element elements
+factor factors nature quality amount size numbers total values measure measures standard standards
+meaning meanings knowledge belief beliefs reality language thought thoughts logic science
+minds bodies self experiences senses object objects subject subjects property properties
+events states actions behavior behaviour culture individual individuals
+persons anyone friends groups members
+countries cities areas places region
+jobs task tasks goal goals plans problems solution solutions issues needs
+interests benefit benefits costs risk risks chance opportunity opportunities advantage
+authority rights laws rule rules policies decisions choice choices option options
+studies reports papers books article articles stories
+tests experiment experiments observation observations outcome outcomes response responses growth increase
+decrease loss gain success failure similarity relationships connection connections link links
+systems network networks services programs projects products resource resources
+prices income taxes trade businesses companies firm firms bank banks economy
+governments nations parties election leaders officials
+disease treatment patients doctors hospital medicine birth ages
+times days weeks months hours minutes period periods century
+beginning future present date dates evening night seasons tomorrow yesterday
+goes went gone going comes came coming gets got getting makes making takes took taken taking
+sees saw seen seeing knows knew known knowing thinks thinking gives gave given giving
+finds found finding tells told telling says saying becomes became becoming shows showed shown
+seems seemed seeming leaves leaving feels felt feeling put puts putting mean meant
+keeps kept keeping lets begins began begun brings brought bringing holds held holding
+writes wrote written writing stands stood standing hear hears heard hearing run runs ran running
+uses using want wants wanted wanting look looks looked looking works worked working calls called
+tries tried trying asks asked asking needed turns turned turning moves moved moving
+lives lived living believes believed happens happened includes included including
+continues continued sets learns learned changed leads led understands
+understood follows followed creates created speaks spoke spoken reads allows allowed
+adds added spent grows grew grown opens opened remembered considers considered
+appears appeared expects expected builds built remains remained suggests suggested
+requires required reported decided provides provided produce produces produced develop
+develops developed describe describes described explain explains explained argue argues argued claimed
+involve involves involved depend depends depended determine determines determined represent represents represented
+refer refers referred relate relates related exist exists existed apply applies applied identify identifies identified
+define defines defined assume assumes assumed imply implies implied establish establishes established achieve achieved
+bad sad glad fine kids food games phones media online internet video videos parents
+fun easy fast slow cheap rich safe angry afraid tired sick busy lonely pretty ugly beautiful
+am yes ok okay oh hey please thanks thank mr mrs ms dr yeah maybe
+`;
+
+const RANKS = new Map<string, number>();
+for (const word of FREQUENCY_LIST.trim().split(/\s+/)) {
+  if (!RANKS.has(word)) RANKS.set(word, RANKS.size + 1);
+}
+
+/** Number of distinct words in the bundled list */
+export const WORD_FREQUENCY_LIST_SIZE = RANKS.size;
+
+/**
+ * Frequency rank of a word (1 = most frequent), or null if it is not in the list.
+ * Falls back to the stem for regular inflections ("arguments" → "argument", "claimed" → "claim").
+ */
+export function wordFrequencyRank(word: string): number | null {
+  const lower = word.toLowerCase();
+  const direct = RANKS.get(lower);
+  if (direct !== undefined) return direct;
+
+  const stems = [
+    lower.replace(/ies$/, 'y'),
+    lower.replace(/es$/, ''),
+    lower.replace(/s$/, ''),
+    lower.replace(/ied$/, 'y'),
+    lower.replace(/ed$/, ''),
+    lower.replace(/d$/, ''),
+    lower.replace(/ing$/, ''),
+    lower.replace(/ing$/, 'e'),
+    lower.replace(/ly$/, ''),
+  ];
+  for (const stem of stems) {
+    if (stem === lower || stem.length < 2) continue;
+    const rank = RANKS.get(stem);
+    if (rank !== undefined) return rank;
+  }
+  return null;
+}
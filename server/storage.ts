@@ -8,6 +8,7 @@ import {
   rewriteJobs,
   userCredits,
   creditTransactions,
+  apiTokens,
   type User, 
   type InsertUser, 
   type InsertDocument, 
@@ -19,10 +20,12 @@ import {
   type UserCredits,
   type InsertUserCredits,
   type CreditTransaction,
-  type InsertCreditTransaction
+  type InsertCreditTransaction,
+  type UpdateUserAccess,
+  type ApiToken
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, gte, desc, sql, isNull } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 
@@ -30,6 +33,8 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  listUsers(): Promise<User[]>;
+  updateUserAccess(id: number, access: UpdateUserAccess): Promise<User | undefined>;
   sessionStore: any;
   
   // Document operations
@@ -66,6 +71,17 @@ export interface IStorage {
   getCreditTransactionByStripeSession(sessionId: string): Promise<CreditTransaction | undefined>;
   updateCreditTransactionStatus(id: number, status: string, paymentIntentId?: string): Promise<CreditTransaction>;
   updateCreditTransactionSessionId(id: number, sessionId: string): Promise<CreditTransaction>;
+  reserveCredits(userId: number, provider: string, amount: number): Promise<UserCredits | undefined>;
+  adjustCredits(userId: number, provider: string, delta: number): Promise<UserCredits | undefined>;
+  updateCreditTransaction(id: number, updates: Partial<InsertCreditTransaction>): Promise<CreditTransaction>;
+  getCreditTransactions(userId: number, limit?: number): Promise<CreditTransaction[]>;
+
+  // Personal API tokens
+  createApiToken(token: typeof apiTokens.$inferInsert): Promise<ApiToken>;
+  listApiTokens(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined>;
+  touchApiToken(id: number, ip: string | undefined): Promise<void>;
 
   // Reconstruction operations
   createReconstructionProject(project: any): Promise<any>;
@@ -98,6 +114,19 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async listUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.id);
+  }
+
+  async updateUserAccess(id: number, access: UpdateUserAccess): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(access)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -300,6 +329,89 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Takes `amount` credits only if the balance covers it; undefined means insufficient credits
+  async reserveCredits(userId: number, provider: string, amount: number): Promise<UserCredits | undefined> {
+    const [updated] = await db
+      .update(userCredits)
+      .set({
+        credits: sql`${userCredits.credits} - ${amount}`,
+        lastUpdated: new Date()
+      })
+      .where(and(
+        eq(userCredits.userId, userId),
+        eq(userCredits.provider, provider),
+        gte(userCredits.credits, amount)
+      ))
+      .returning();
+    return updated;
+  }
+
+  // Adds delta (negative to charge) in a single statement; balances never go below zero
+  async adjustCredits(userId: number, provider: string, delta: number): Promise<UserCredits | undefined> {
+    const [updated] = await db
+      .update(userCredits)
+      .set({
+        credits: sql`GREATEST(${userCredits.credits} + ${delta}, 0)`,
+        lastUpdated: new Date()
+      })
+      .where(and(eq(userCredits.userId, userId), eq(userCredits.provider, provider)))
+      .returning();
+    return updated;
+  }
+
+  async updateCreditTransaction(id: number, updates: Partial<InsertCreditTransaction>): Promise<CreditTransaction> {
+    const [updated] = await db
+      .update(creditTransactions)
+      .set(updates)
+      .where(eq(creditTransactions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getCreditTransactions(userId: number, limit: number = 100): Promise<CreditTransaction[]> {
+    return await db
+      .select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.userId, userId))
+      .orderBy(desc(creditTransactions.createdAt), desc(creditTransactions.id))
+      .limit(limit);
+  }
+
+  // Personal API tokens
+  async createApiToken(token: typeof apiTokens.$inferInsert): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async listApiTokens(userId: number): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async revokeApiToken(userId: number, id: number): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning();
+    return token || undefined;
+  }
+
+  async touchApiToken(id: number, ip: string | undefined): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ip })
+      .where(eq(apiTokens.id, id));
+  }
+
   // Reconstruction operations
   async createReconstructionProject(project: any): Promise<any> {
     const { reconstructionProjects } = await import("@shared/schema");
@@ -0,0 +1,196 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  buildLBOModel,
+  buildDCFModel,
+  buildIPOModel,
+  type FinancialModelResult,
+} from './services/financialModels';
+
+// Runs the LBO, IPO and DCF prompts of the finance test corpus through the
+// models: golden values for prompts that were once misread, and plausibility
+// checks on every prompt (an implausible result must at least carry a warning).
+
+const CORPUS_FILE = path.join(
+  process.cwd(),
+  'attached_assets',
+  'Pasted-Here-are-50-clean-diverse-finance-model-test-inputs-for_1765112599248.txt'
+);
+
+// "25. IPO: FlexOptics. Revenue $90M, ..." → 25 → prompt
+function loadCorpus(): Map<number, string> {
+  const prompts = new Map<number, string>();
+  const text = readFileSync(CORPUS_FILE, 'utf8');
+  for (const match of Array.from(text.matchAll(/^(\d+)\.\s+(.+)$/gm))) {
+    prompts.set(parseInt(match[1], 10), match[2].trim());
+  }
+  return prompts;
+}
+
+const LBO_CASES = range(1, 10);
+const IPO_CASES = range(21, 30);
+const DCF_CASES = range(31, 40);
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) <= Math.max(1e-6, Math.abs(b) * 1e-6);
+
+type AnyResult = FinancialModelResult<any, any>;
+
+// ============ GOLDEN VALUES ============
+
+interface GoldenCase {
+  id: number;
+  build: (text: string) => AnyResult;
+  values?: Record<string, number>;
+  // Fields that were stated and so must not be reported as defaulted
+  stated?: string[];
+  warning?: RegExp;
+}
+
+const GOLDEN: GoldenCase[] = [
+  // LBO
+  { id: 1, build: buildLBOModel, values: { purchasePrice: 840, ltmEBITDA: 120, seniorDebtAmount: 480, subDebtAmount: 120 } },
+  { id: 3, build: buildLBOModel, values: { purchasePrice: 615, ltmEBITDA: 75 } },
+  { id: 4, build: buildLBOModel, values: { purchasePrice: 500 }, warning: /no debt was found/i },
+  { id: 9, build: buildLBOModel, values: { purchasePrice: 1400 } },
+
+  // IPO: "Valued at 8× revenue" is a multiple, not an $8M valuation
+  { id: 25, build: buildIPOModel, values: { revenue: 90, revenueMultiple: 8, preMoneyValuation: 720 }, stated: ['revenue', 'revenueMultiple', 'preMoneyValuation'] },
+  { id: 27, build: buildIPOModel, values: { ebitda: 60 } },
+
+  // DCF: "EBITDA 22%" is a margin; "$1.8B" is $1,800M
+  { id: 31, build: buildDCFModel, values: { baseRevenue: 320, baseEBITDA: 89.6, wacc: 0.09, terminalGrowthRate: 0.02 }, stated: ['baseRevenue', 'baseEBITDA', 'ebitdaMargins'] },
+  { id: 32, build: buildDCFModel, values: { baseRevenue: 1000, baseEBITDA: 120 } },
+  { id: 34, build: buildDCFModel, values: { baseRevenue: 600, baseEBITDA: 150 } },
+  { id: 37, build: buildDCFModel, values: { baseRevenue: 1800, baseEBITDA: 396 }, stated: ['baseRevenue', 'baseEBITDA', 'ebitdaMargins'] },
+  { id: 39, build: buildDCFModel, values: { baseRevenue: 900, baseEBITDA: 153 } },
+];
+
+function checkGolden(test: GoldenCase, prompt: string): string[] {
+  const result = test.build(prompt);
+  const failures: string[] = [];
+  for (const [key, expected] of Object.entries(test.values ?? {})) {
+    const actual = result.values[key];
+    if (typeof actual !== 'number' || !close(actual, expected)) {
+      failures.push(`${key} = ${actual}, expected ${expected}`);
+    }
+  }
+  for (const key of test.stated ?? []) {
+    if (result.defaultedFields.includes(key)) failures.push(`${key} reported as defaulted`);
+  }
+  if (test.warning && !result.warnings.some(w => test.warning!.test(w))) {
+    failures.push(`no warning matching ${test.warning} (warnings: ${JSON.stringify(result.warnings)})`);
+  }
+  return failures;
+}
+
+// ============ PLAUSIBILITY ============
+
+// Each check returns a problem, or null when the result is plausible or warns about itself
+interface PlausibilityCheck {
+  name: string;
+  cases: number[];
+  build: (text: string) => AnyResult;
+  check: (result: AnyResult) => string | null;
+}
+
+const warned = (result: AnyResult, pattern: RegExp) => result.warnings.some(w => pattern.test(w));
+
+const PLAUSIBILITY: PlausibilityCheck[] = [
+  {
+    name: 'LBO: MOIC below 15x, or a warning',
+    cases: LBO_CASES,
+    build: buildLBOModel,
+    check: result => {
+      const moic = result.outputs.returns.moic;
+      return moic === null || moic < 15 || result.warnings.length > 0 ? null : `${moic}x MOIC without a warning`;
+    }
+  },
+  {
+    name: 'IPO: pre-money at least one year of revenue, or a warning',
+    cases: IPO_CASES,
+    build: buildIPOModel,
+    check: result => {
+      const { preMoneyValuation, revenue } = result.values;
+      return preMoneyValuation >= revenue || warned(result, /valuation/i)
+        ? null
+        : `pre-money $${preMoneyValuation}M below revenue $${revenue}M`;
+    }
+  },
+  {
+    name: 'IPO: offer price of at least $1',
+    cases: IPO_CASES,
+    build: buildIPOModel,
+    check: result => result.outputs.offerPrice >= 1 ? null : `offer price $${result.outputs.offerPrice}`
+  },
+  {
+    name: 'IPO: EBITDA within revenue, or a warning',
+    cases: IPO_CASES,
+    build: buildIPOModel,
+    check: result => result.values.ebitda <= result.values.revenue || warned(result, /exceeds revenue/i)
+      ? null
+      : `EBITDA $${result.values.ebitda}M above revenue $${result.values.revenue}M`
+  },
+  {
+    name: 'DCF: EBITDA within revenue, or a warning',
+    cases: DCF_CASES,
+    build: buildDCFModel,
+    check: result => result.values.baseEBITDA <= result.values.baseRevenue || warned(result, /exceeds revenue/i)
+      ? null
+      : `EBITDA $${result.values.baseEBITDA}M above revenue $${result.values.baseRevenue}M`
+  },
+  {
+    name: 'DCF: base margin matches the first-year margin',
+    cases: DCF_CASES,
+    build: buildDCFModel,
+    check: result => {
+      const { baseEBITDA, baseRevenue, ebitdaMargins } = result.values;
+      const margin = baseEBITDA / baseRevenue;
+      return Math.abs(margin - ebitdaMargins[0]) < 1e-6 ? null : `base margin ${margin.toFixed(4)}, first-year margin ${ebitdaMargins[0]}`;
+    }
+  },
+];
+
+// ============ RUNNER ============
+
+function runTests() {
+  console.log("Financial models: finance test corpus\n");
+  console.log("=".repeat(70));
+  const prompts = loadCorpus();
+  let failed = 0;
+
+  let goldenFailed = 0;
+  for (const test of GOLDEN) {
+    const prompt = prompts.get(test.id);
+    const failures = prompt ? checkGolden(test, prompt) : [`prompt ${test.id} not found in the corpus`];
+    if (failures.length > 0) {
+      goldenFailed++;
+      console.log(`  ✗ #${test.id}: ${failures.join('; ')}`);
+    }
+  }
+  console.log(`\nGOLDEN VALUES: ${GOLDEN.length - goldenFailed}/${GOLDEN.length}`);
+  failed += goldenFailed;
+
+  console.log(`\nPLAUSIBILITY:`);
+  for (const check of PLAUSIBILITY) {
+    const failures: string[] = [];
+    for (const id of check.cases) {
+      const prompt = prompts.get(id);
+      const problem = prompt ? check.check(check.build(prompt)) : 'prompt not found in the corpus';
+      if (problem) failures.push(`#${id}: ${problem}`);
+    }
+    console.log(`${failures.length === 0 ? "✓ PASS" : "✗ FAIL"} - ${check.name}`);
+    failures.forEach(f => console.log(`    ${f}`));
+    if (failures.length > 0) failed++;
+  }
+
+  console.log("\n" + "=".repeat(70));
+  console.log(failed === 0 ? "All financial model tests passed" : `${failed} financial model test(s) failed`);
+  console.log("=".repeat(70));
+  if (failed > 0) process.exitCode = 1;
+}
+
+runTests();
@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { stripe } from './lib/stripe-config';
+import { storage } from './storage';
+
+// Replays the events in test/data/stripe-webhook-events.json against a running
+// server (npm run dev) with STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET set.
+// Usage: npx tsx server/test-stripe-webhook.ts <username>
+
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:5000/api/payments/webhook';
+const PROVIDER = 'anthropic';
+const AMOUNT = 500;
+const CREDITS = 106_840;
+
+function fillFixture(values: Record<string, string | number>): any[] {
+  let raw = readFileSync(path.join(process.cwd(), 'test/data/stripe-webhook-events.json'), 'utf-8');
+  for (const [key, value] of Object.entries(values)) {
+    // Numeric placeholders are quoted in the fixture so it stays valid JSON
+    raw = raw.split(`"{{${key}}}"`).join(JSON.stringify(value));
+  }
+  return JSON.parse(raw).events;
+}
+
+async function deliver(event: any): Promise<void> {
+  const payload = JSON.stringify(event);
+  const header = stripe!.webhooks.generateTestHeaderString({
+    payload,
+    secret: process.env.STRIPE_WEBHOOK_SECRET!
+  });
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': header },
+    body: payload
+  });
+  console.log(`${event.type.padEnd(32)} ${event.id.padEnd(36)} → ${response.status} ${await response.text()}`);
+}
+
+async function printBalance(userId: number, label: string) {
+  const credits = await storage.getUserCredits(userId, PROVIDER);
+  console.log(`  ${label}: ${credits?.credits ?? 0} ${PROVIDER} credits`);
+}
+
+async function testStripeWebhook() {
+  const username = process.argv[2];
+  if (!stripe || !process.env.STRIPE_WEBHOOK_SECRET || !username) {
+    console.error('Usage: npx tsx server/test-stripe-webhook.ts <username> (needs STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET)');
+    process.exit(1);
+  }
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    console.error(`No user named ${username}`);
+    process.exit(1);
+  }
+
+  const runId = Date.now();
+  const purchase = await storage.createCreditTransaction({
+    userId: user.id, provider: PROVIDER, amount: AMOUNT, credits: CREDITS,
+    transactionType: 'purchase', status: 'pending', metadata: { package: 'webhook-fixture' }
+  });
+  await storage.updateCreditTransactionSessionId(purchase.id, `cs_test_${runId}`);
+  const doomed = await storage.createCreditTransaction({
+    userId: user.id, provider: PROVIDER, amount: AMOUNT, credits: CREDITS,
+    transactionType: 'purchase', status: 'pending', metadata: { package: 'webhook-fixture' }
+  });
+
+  const events = fillFixture({
+    SESSION_ID: `cs_test_${runId}`,
+    TRANSACTION_ID: String(purchase.id),
+    PAYMENT_INTENT_ID: `pi_test_${runId}`,
+    FAILED_PAYMENT_INTENT_ID: `pi_test_failed_${runId}`,
+    FAILED_TRANSACTION_ID: String(doomed.id),
+    AMOUNT,
+    HALF_AMOUNT: AMOUNT / 2
+  }).map(event => ({ ...event, id: `${event.id}_${runId}` }));
+  const [completed, partialRefund, fullRefund, failed] = events;
+
+  console.log('Testing Stripe webhook handling\n');
+  await printBalance(user.id, 'Before');
+
+  console.log('\nCheckout completed, then redelivered (expect +' + CREDITS + ' once):');
+  await deliver(completed);
+  await deliver(completed);
+  await printBalance(user.id, 'After checkout');
+
+  console.log(`\nPartial refund, then full refund (expect -${CREDITS / 2} twice):`);
+  await deliver(partialRefund);
+  await printBalance(user.id, 'After partial refund');
+  await deliver(fullRefund);
+  await deliver(fullRefund);
+  await printBalance(user.id, 'After full refund');
+
+  console.log('\nPayment failed on a second pending purchase:');
+  await deliver(failed);
+
+  console.log('\nBad signature (expect 400):');
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': 't=1,v1=deadbeef' },
+    body: JSON.stringify(completed)
+  });
+  console.log(`  → ${response.status}`);
+
+  console.log('\nLedger:');
+  for (const entry of await storage.getCreditTransactions(user.id, 5)) {
+    console.log(`  #${entry.id} ${entry.transactionType.padEnd(9)} ${entry.status.padEnd(10)} ${entry.credits}`);
+  }
+  process.exit(0);
+}
+
+testStripeWebhook().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,403 @@
+import {
+  parseNumericValue,
+  normalizeNumericText,
+  detectCurrency,
+  extractMoney,
+  extractPercent,
+  extractNumber,
+  extractShares,
+  runUnifiedParserTests,
+  type ParsedNumericValue,
+  type CurrencyCode,
+} from './services/unifiedNumericParser';
+
+// Golden corpus: phrasing → expected parse. Money in raw units, rates as decimals.
+interface GoldenCase {
+  input: string;
+  raw: number | null;
+  type?: ParsedNumericValue['type'];
+  unit?: ParsedNumericValue['unit'];
+  currency?: CurrencyCode;
+  range?: [number, number];
+}
+
+const GOLDEN: GoldenCase[] = [
+  // Currency, USD
+  { input: "$1.2bn", raw: 1_200_000_000, type: 'currency', currency: 'USD' },
+  { input: "$1.2B", raw: 1_200_000_000, type: 'currency', currency: 'USD' },
+  { input: "$1.25 billion", raw: 1_250_000_000, type: 'currency', currency: 'USD' },
+  { input: "$870m", raw: 870_000_000, type: 'currency', currency: 'USD' },
+  { input: "$870M", raw: 870_000_000, type: 'currency', currency: 'USD' },
+  { input: "$870mm", raw: 870_000_000, type: 'currency', currency: 'USD' },
+  { input: "$900 million", raw: 900_000_000, type: 'currency', currency: 'USD' },
+  { input: "$ 45 million", raw: 45_000_000, type: 'currency', currency: 'USD' },
+  { input: "$1,250,000", raw: 1_250_000, type: 'currency', currency: 'USD' },
+  { input: "$2,500m", raw: 2_500_000_000, type: 'currency', currency: 'USD' },
+  { input: "1.4bn", raw: 1_400_000_000, type: 'currency' },
+  { input: "750k", raw: 750_000, type: 'currency' },
+  { input: "750 thousand", raw: 750_000, type: 'currency' },
+  { input: "12 million dollars", raw: 12_000_000, type: 'currency', currency: 'USD' },
+  { input: "US$300m", raw: 300_000_000, type: 'currency', currency: 'USD' },
+  { input: "USD 300m", raw: 300_000_000, type: 'currency', currency: 'USD' },
+  { input: "300m USD", raw: 300_000_000, type: 'currency', currency: 'USD' },
+
+  // Currency, non-USD
+  { input: "€500m", raw: 500_000_000, type: 'currency', currency: 'EUR' },
+  { input: "€ 1.1bn", raw: 1_100_000_000, type: 'currency', currency: 'EUR' },
+  { input: "EUR 300 million", raw: 300_000_000, type: 'currency', currency: 'EUR' },
+  { input: "300 million EUR", raw: 300_000_000, type: 'currency', currency: 'EUR' },
+  { input: "250m euros", raw: 250_000_000, type: 'currency', currency: 'EUR' },
+  { input: "£1.2bn", raw: 1_200_000_000, type: 'currency', currency: 'GBP' },
+  { input: "GBP 40m", raw: 40_000_000, type: 'currency', currency: 'GBP' },
+  { input: "¥10bn", raw: 10_000_000_000, type: 'currency', currency: 'JPY' },
+  { input: "1.5bn yen", raw: 1_500_000_000, type: 'currency', currency: 'JPY' },
+  { input: "CHF 75m", raw: 75_000_000, type: 'currency', currency: 'CHF' },
+  { input: "C$90m", raw: 90_000_000, type: 'currency', currency: 'CAD' },
+  { input: "A$2bn", raw: 2_000_000_000, type: 'currency', currency: 'AUD' },
+  { input: "RMB 800m", raw: 800_000_000, type: 'currency', currency: 'CNY' },
+  { input: "₹5,000m", raw: 5_000_000_000, type: 'currency', currency: 'INR' },
+
+  // Multiples
+  { input: "8x", raw: 8, type: 'multiple', unit: null },
+  { input: "12.5x EBITDA", raw: 12.5, type: 'multiple', unit: 'EBITDA' },
+  { input: "6.5x ebitda", raw: 6.5, type: 'multiple', unit: 'EBITDA' },
+  { input: "4.0 ×", raw: 4, type: 'multiple', unit: null },
+  { input: "4x revenue", raw: 4, type: 'multiple', unit: 'revenue' },
+  { input: "2.5X EV", raw: 2.5, type: 'multiple', unit: 'EV' },
+  { input: "9 times EBITDA", raw: 9, type: 'multiple', unit: 'EBITDA' },
+  { input: "3 times", raw: 3, type: 'multiple', unit: null },
+
+  // Percentages
+  { input: "17%", raw: 0.17, type: 'percent' },
+  { input: "12.5 %", raw: 0.125, type: 'percent' },
+  { input: "100%", raw: 1, type: 'percent' },
+  { input: "0.5%", raw: 0.005, type: 'percent' },
+  { input: "1%", raw: 0.01, type: 'percent' },
+  { input: "8 percent", raw: 0.08, type: 'percent' },
+  { input: "0.25 percent", raw: 0.0025, type: 'percent' },
+
+  // Shares
+  { input: "3 million shares", raw: 3_000_000, type: 'shares', unit: 'shares' },
+  { input: "4.5M shares", raw: 4_500_000, type: 'shares', unit: 'shares' },
+  { input: "90 million shares", raw: 90_000_000, type: 'shares', unit: 'shares' },
+  { input: "1.2bn shares", raw: 1_200_000_000, type: 'shares', unit: 'shares' },
+  { input: "500k shares", raw: 500_000, type: 'shares', unit: 'shares' },
+  { input: "1 share", raw: 1, type: 'shares', unit: 'shares' },
+  { input: "2,000,000 shares", raw: 2_000_000, type: 'shares', unit: 'shares' },
+
+  // Ranges (midpoint)
+  { input: "$28–$32", raw: 30, type: 'currency', currency: 'USD', range: [28, 32] },
+  { input: "28-32", raw: 30, range: [28, 32] },
+  { input: "8–10x", raw: 9, type: 'multiple', range: [8, 10] },
+  { input: "8x-10x", raw: 9, type: 'multiple', range: [8, 10] },
+  { input: "8 to 10x EBITDA", raw: 9, type: 'multiple', unit: 'EBITDA', range: [8, 10] },
+  { input: "$1.2-1.5bn", raw: 1_350_000_000, type: 'currency', currency: 'USD', range: [1_200_000_000, 1_500_000_000] },
+  { input: "$800m–$1.2bn", raw: 1_000_000_000, type: 'currency', currency: 'USD', range: [800_000_000, 1_200_000_000] },
+  { input: "€1.2–1.5bn", raw: 1_350_000_000, type: 'currency', currency: 'EUR', range: [1_200_000_000, 1_500_000_000] },
+  { input: "10-12%", raw: 0.11, type: 'percent', range: [0.10, 0.12] },
+  { input: "10 to 12%", raw: 0.11, type: 'percent', range: [0.10, 0.12] },
+  { input: "10%–12%", raw: 0.11, type: 'percent', range: [0.10, 0.12] },
+  { input: "2-3 million shares", raw: 2_500_000, type: 'shares', range: [2_000_000, 3_000_000] },
+
+  // Negatives
+  { input: "(15%)", raw: -0.15, type: 'percent' },
+  { input: "(2.5%)", raw: -0.025, type: 'percent' },
+  { input: "-3%", raw: -0.03, type: 'percent' },
+  { input: "−4%", raw: -0.04, type: 'percent' },
+  { input: "($25M)", raw: -25_000_000, type: 'currency', currency: 'USD' },
+  { input: "(€40m)", raw: -40_000_000, type: 'currency', currency: 'EUR' },
+  { input: "-$1.5bn", raw: -1_500_000_000, type: 'currency', currency: 'USD' },
+  { input: "(1,250)", raw: -1250 },
+  { input: "(5-10%)", raw: -0.075, type: 'percent', range: [-0.10, -0.05] },
+
+  // Not numbers
+  { input: "", raw: null },
+  { input: "EBITDA", raw: null },
+  { input: "n/a", raw: null },
+  { input: "$", raw: null },
+  { input: "x", raw: null },
+];
+
+// Running text: what the pattern-based extractors see after normalization
+const NORMALIZATION_GOLDEN: Array<{ input: string; expected: string }> = [
+  { input: "EBITDA of €120m", expected: "EBITDA of $120m" },
+  { input: "revenue of 300 million EUR", expected: "revenue of $300 million" },
+  { input: "a price of $500m USD", expected: "a price of $500m" },
+  { input: "entry at 8–10x EBITDA", expected: "entry at 9x EBITDA" },
+  { input: "margins of 20-25%", expected: "margins of 22.5%" },
+  { input: "valued at $1.2-1.5bn", expected: "valued at $1.35bn" },
+  { input: "2-3 million shares", expected: "2.5 million shares" },
+  { input: "growth of (5%) in year one", expected: "growth of -5% in year one" },
+  { input: "net loss of ($25M)", expected: "net loss of -$25M" },
+  { input: "from 2020-2024 revenue grew", expected: "from 2020-2024 revenue grew" },
+  { input: "a 5-year hold", expected: "a 5-year hold" },
+  { input: "(1) senior debt (2) mezzanine", expected: "(1) senior debt (2) mezzanine" },
+  { input: "exit in 5-7 years", expected: "exit in 5-7 years" },
+];
+
+const EXTRACTION_GOLDEN: Array<{ name: string; actual: () => number | null; expected: number }> = [
+  { name: "extractMoney: EBITDA of €120m", actual: () => extractMoney("EBITDA of €120m", [/ebitda\s+of\s+\$?([\d,.]+)/i]), expected: 120 },
+  { name: "extractMoney: price of £1.2bn", actual: () => extractMoney("price of £1.2bn", [/price\s+of\s+\$?([\d,.]+)\s*(?:bn|b|billion)?/i]), expected: 1200 },
+  { name: "extractMoney: valued at $1.2-1.5bn", actual: () => extractMoney("valued at $1.2-1.5bn", [/valued\s+at\s+\$?([\d,.]+)\s*(?:bn|b|billion)?/i]), expected: 1350 },
+  { name: "extractMoney: net loss of ($25M)", actual: () => extractMoney("net loss of ($25M)", [/loss\s+of\s+-?\$?([\d,.]+)/i]), expected: -25 },
+  { name: "extractPercent: revenue growth of (5%)", actual: () => extractPercent("revenue growth of (5%)", [/growth\s+of\s+-?([\d.]+)\s*%/i]), expected: -0.05 },
+  { name: "extractPercent: growth of -3%", actual: () => extractPercent("growth of -3%", [/growth\s+of\s+-?([\d.]+)\s*%/i]), expected: -0.03 },
+  { name: "extractPercent: fee of 0.5%", actual: () => extractPercent("a fee of 0.5%", [/fee\s+of\s+([\d.]+)/i]), expected: 0.005 },
+  { name: "extractPercent: margins of 20-25%", actual: () => extractPercent("margins of 20-25%", [/margins?\s+of\s+([\d.]+)\s*%/i]), expected: 0.225 },
+  { name: "extractPercent: 5-year rate of 6%", actual: () => extractPercent("5-year rate of 6%", [/rate\s+of\s+([\d.]+)/i]), expected: 0.06 },
+  { name: "extractNumber: entry at 8–10x", actual: () => extractNumber("entry at 8–10x EBITDA", [/entry\s+at\s+([\d.]+)\s*x/i]), expected: 9 },
+  { name: "extractShares: 2-3 million shares", actual: () => extractShares("2-3 million shares outstanding", [/([\d,.]+)\s*(?:million\s+)?shares/i]), expected: 2.5 },
+];
+
+const CURRENCY_GOLDEN: Array<{ input: string; expected: CurrencyCode | null }> = [
+  { input: "EBITDA of $100M", expected: 'USD' },
+  { input: "EBITDA of €100M", expected: 'EUR' },
+  { input: "all figures in GBP", expected: 'GBP' },
+  { input: "revenue of 2bn yen", expected: 'JPY' },
+  { input: "revenue of 100 at 8x", expected: null },
+];
+
+function close(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(1e-9, Math.abs(b) * 1e-9);
+}
+
+function checkGolden(test: GoldenCase): string | null {
+  const parsed = parseNumericValue(test.input);
+  if (test.raw === null) {
+    return parsed === null ? null : `expected null, got ${parsed.raw}`;
+  }
+  if (!parsed) return 'got null';
+  if (!close(parsed.raw, test.raw)) return `raw ${parsed.raw}, expected ${test.raw}`;
+  if (test.type && parsed.type !== test.type) return `type ${parsed.type}, expected ${test.type}`;
+  if (test.unit !== undefined && parsed.unit !== test.unit) return `unit ${parsed.unit}, expected ${test.unit}`;
+  if (test.currency && parsed.currency !== test.currency) return `currency ${parsed.currency}, expected ${test.currency}`;
+  if (test.range && (!parsed.range || !close(parsed.range.low, test.range[0]) || !close(parsed.range.high, test.range[1]))) {
+    return `range ${JSON.stringify(parsed.range)}, expected ${JSON.stringify(test.range)}`;
+  }
+  return null;
+}
+
+// ============ PROPERTY-BASED ROUND TRIPS ============
+
+// mulberry32: a seeded generator, so every failure is reproducible from the seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SEED = Number(process.env.PARSER_TEST_SEED) || 20241201;
+const ITERATIONS = 500;
+
+interface Generated {
+  text: string;
+  raw: number;
+  type: ParsedNumericValue['type'];
+  currency?: CurrencyCode;
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Amount with 0-2 decimals, sometimes written with thousands separators
+function amount(random: () => number, max: number): { value: number; text: string } {
+  const decimals = pick(random, [0, 1, 2]);
+  const value = Number((random() * max).toFixed(decimals));
+  const text = random() < 0.3 && value >= 1000
+    ? value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+    : value.toFixed(decimals);
+  return { value, text };
+}
+
+const SCALES: Array<[string, number]> = [
+  ['', 1], ['k', 1e3], ['K', 1e3], [' thousand', 1e3], ['m', 1e6], ['M', 1e6], ['mm', 1e6], [' million', 1e6],
+  ['bn', 1e9], ['B', 1e9], [' billion', 1e9],
+];
+const PREFIXES: Array<[string, CurrencyCode | undefined]> = [
+  ['', undefined], ['$', 'USD'], ['$ ', 'USD'], ['US$', 'USD'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'],
+  ['EUR ', 'EUR'], ['GBP ', 'GBP'], ['CHF ', 'CHF'], ['C$', 'CAD'],
+];
+const SUFFIXES: Array<[string, CurrencyCode]> = [[' EUR', 'EUR'], [' USD', 'USD'], [' euros', 'EUR'], [' dollars', 'USD']];
+
+const GENERATORS: Record<string, (random: () => number) => Generated> = {
+  money: random => {
+    const { value, text } = amount(random, 5000);
+    const [scale, multiplier] = pick(random, SCALES);
+    if (random() < 0.25) {
+      const [suffix, currency] = pick(random, SUFFIXES);
+      return { text: `${text}${scale}${suffix}`, raw: value * multiplier, type: 'currency', currency };
+    }
+    const [prefix, currency] = pick(random, PREFIXES);
+    return { text: `${prefix}${text}${scale}`, raw: value * multiplier, type: 'currency', currency };
+  },
+  percent: random => {
+    const { value, text } = amount(random, 100);
+    return { text: `${text}${pick(random, ['%', ' %', ' percent'])}`, raw: value / 100, type: 'percent' };
+  },
+  multiple: random => {
+    const { value, text } = amount(random, 40);
+    return { text: `${text}${pick(random, ['x', 'X', ' x', '×', 'x EBITDA', 'x revenue', ' times'])}`, raw: value, type: 'multiple' };
+  },
+  shares: random => {
+    const { value, text } = amount(random, 900);
+    const [scale, multiplier] = pick(random, SCALES.filter(([s]) => s !== '' && s !== 'B'));
+    return { text: `${text}${scale} shares`, raw: value * multiplier, type: 'shares' };
+  },
+};
+
+interface PropertyResult {
+  name: string;
+  failures: string[];
+}
+
+function property(name: string, check: (random: () => number) => string | null): PropertyResult {
+  const random = createRandom(SEED ^ name.length * 7919);
+  const failures: string[] = [];
+  for (let i = 0; i < ITERATIONS && failures.length < 5; i++) {
+    const failure = check(random);
+    if (failure) failures.push(failure);
+  }
+  return { name, failures };
+}
+
+function runProperties(): PropertyResult[] {
+  const results: PropertyResult[] = [];
+
+  for (const [kind, generate] of Object.entries(GENERATORS)) {
+    // format → parse gives back the value, type and currency
+    results.push(property(`${kind}: round trip`, random => {
+      const g = generate(random);
+      const parsed = parseNumericValue(g.text);
+      if (!parsed) return `"${g.text}" → null`;
+      if (!close(parsed.raw, g.raw)) return `"${g.text}" → ${parsed.raw}, expected ${g.raw}`;
+      if (parsed.type !== g.type) return `"${g.text}" → type ${parsed.type}, expected ${g.type}`;
+      if (g.currency && parsed.currency !== g.currency) return `"${g.text}" → currency ${parsed.currency}, expected ${g.currency}`;
+      return null;
+    }));
+
+    // "(x)" and "-x" are the negation of x
+    results.push(property(`${kind}: negation`, random => {
+      const g = generate(random);
+      const wrapped = random() < 0.5 ? `(${g.text})` : `-${g.text}`;
+      const parsed = parseNumericValue(wrapped);
+      if (!parsed) return `"${wrapped}" → null`;
+      return close(parsed.raw, -g.raw) ? null : `"${wrapped}" → ${parsed.raw}, expected ${-g.raw}`;
+    }));
+  }
+
+  // "a–b" parses to the midpoint, with its ends as the range
+  results.push(property('ranges: midpoint', random => {
+    const kind = pick(random, ['percent', 'multiple']);
+    const low = amount(random, 50).value;
+    const high = Number((low + random() * 10).toFixed(1));
+    const separator = pick(random, ['-', '–', '—', ' to ', ' - ']);
+    const [suffix, scale] = kind === 'percent' ? ['%', 0.01] : ['x', 1];
+    const text = `${low}${random() < 0.5 ? suffix : ''}${separator}${high}${suffix}`;
+    const parsed = parseNumericValue(text);
+    if (!parsed || !parsed.range) return `"${text}" → ${parsed ? 'no range' : 'null'}`;
+    if (!close(parsed.raw, (low + high) / 2 * scale)) return `"${text}" → ${parsed.raw}, expected ${(low + high) / 2 * scale}`;
+    if (!close(parsed.range.low, low * scale) || !close(parsed.range.high, high * scale)) {
+      return `"${text}" → range ${JSON.stringify(parsed.range)}`;
+    }
+    return null;
+  }));
+
+  // In running text, the extractors recover the value in $M, whatever the currency or sign
+  results.push(property('money in text: extractMoney', random => {
+    const { value, text } = amount(random, 900);
+    const [scale, millions] = pick(random, [['m', 1], [' million', 1], ['bn', 1000], [' billion', 1000]] as Array<[string, number]>);
+    const [prefix] = pick(random, PREFIXES.filter(([p]) => p !== ''));
+    const negative = random() < 0.3;
+    const written = `${prefix}${text}${scale}`;
+    const sentence = `The target has EBITDA of ${negative ? `(${written})` : written} this year.`;
+    const extracted = extractMoney(sentence, [/ebitda\s+of\s+-?\$?\s*([\d,.]+)\s*(?:bn|billion|m|million)?/i]);
+    const expected = (negative ? -1 : 1) * value * millions;
+    return extracted !== null && close(extracted, expected) ? null : `"${sentence}" → ${extracted}, expected ${expected}`;
+  }));
+
+  // Normalizing twice changes nothing more than normalizing once
+  results.push(property('normalizeNumericText: idempotent', random => {
+    const parts = Array.from({ length: 4 }, () => pick(random, Object.values(GENERATORS))(random).text);
+    const sentence = `Deal at ${parts[0]}, growth (${parts[1]}), and ${parts[2]}-${parts[3]} later.`;
+    const once = normalizeNumericText(sentence);
+    const twice = normalizeNumericText(once);
+    return once === twice ? null : `"${sentence}" → "${once}" → "${twice}"`;
+  }));
+
+  return results;
+}
+
+// ============ RUNNER ============
+
+function runTests() {
+  console.log("Unified numeric parser: golden corpus and property-based tests\n");
+  console.log("=".repeat(70));
+  let failed = 0;
+
+  const builtIn = runUnifiedParserTests();
+  console.log(`\nBUILT-IN CASES: ${builtIn.passed}/${builtIn.passed + builtIn.failed}`);
+  builtIn.results.filter(r => r.startsWith('✗')).forEach(r => console.log(`  ${r}`));
+  failed += builtIn.failed;
+
+  let goldenFailed = 0;
+  for (const test of GOLDEN) {
+    const failure = checkGolden(test);
+    if (failure) {
+      goldenFailed++;
+      console.log(`  ✗ parseNumericValue("${test.input}"): ${failure}`);
+    }
+  }
+  console.log(`\nGOLDEN PARSES: ${GOLDEN.length - goldenFailed}/${GOLDEN.length}`);
+  failed += goldenFailed;
+
+  let normalizationFailed = 0;
+  for (const test of NORMALIZATION_GOLDEN) {
+    const actual = normalizeNumericText(test.input);
+    if (actual !== test.expected) {
+      normalizationFailed++;
+      console.log(`  ✗ normalizeNumericText("${test.input}") → "${actual}", expected "${test.expected}"`);
+    }
+  }
+  console.log(`GOLDEN NORMALIZATION: ${NORMALIZATION_GOLDEN.length - normalizationFailed}/${NORMALIZATION_GOLDEN.length}`);
+  failed += normalizationFailed;
+
+  let extractionFailed = 0;
+  for (const test of EXTRACTION_GOLDEN) {
+    const actual = test.actual();
+    if (actual === null || !close(actual, test.expected)) {
+      extractionFailed++;
+      console.log(`  ✗ ${test.name} → ${actual}, expected ${test.expected}`);
+    }
+  }
+  for (const test of CURRENCY_GOLDEN) {
+    const actual = detectCurrency(test.input);
+    if (actual !== test.expected) {
+      extractionFailed++;
+      console.log(`  ✗ detectCurrency("${test.input}") → ${actual}, expected ${test.expected}`);
+    }
+  }
+  const extractionTotal = EXTRACTION_GOLDEN.length + CURRENCY_GOLDEN.length;
+  console.log(`GOLDEN EXTRACTION: ${extractionTotal - extractionFailed}/${extractionTotal}`);
+  failed += extractionFailed;
+
+  console.log(`\nPROPERTIES (seed ${SEED}, ${ITERATIONS} cases each):`);
+  for (const result of runProperties()) {
+    const status = result.failures.length === 0 ? "✓ PASS" : "✗ FAIL";
+    console.log(`${status} - ${result.name}`);
+    result.failures.forEach(f => console.log(`    ${f}`));
+    if (result.failures.length > 0) failed++;
+  }
+
+  console.log("\n" + "=".repeat(70));
+  console.log(failed === 0 ? "All parser tests passed" : `${failed} parser test(s) failed`);
+  console.log("=".repeat(70));
+  if (failed > 0) process.exitCode = 1;
+}
+
+runTests();
@@ -13,6 +13,11 @@ interface EnvConfig {
   DEEPSEEK_API_KEY?: string;
   PERPLEXITY_API_KEY?: string;
   
+  // Local OpenAI-compatible endpoint and offline provider override
+  LOCAL_LLM_BASE_URL?: string;
+  LOCAL_LLM_MODEL?: string;
+  LLM_PROVIDER_OVERRIDE?: string;
+  
   // OCR and Document Processing
   MATHPIX_APP_ID?: string;
   MATHPIX_APP_KEY?: string;
@@ -68,6 +73,8 @@ export function validateEnvironment(): ValidationResult {
   ];
   
   const configuredAIKeys = aiKeys.filter(key => process.env[key]);
+  if (process.env.LOCAL_LLM_BASE_URL) configuredAIKeys.push('LOCAL_LLM_BASE_URL');
+  if (process.env.LLM_PROVIDER_OVERRIDE) configuredAIKeys.push(`LLM_PROVIDER_OVERRIDE=${process.env.LLM_PROVIDER_OVERRIDE}`);
   
   if (configuredAIKeys.length === 0) {
     errors.push("At least one AI service API key is required: " + aiKeys.join(", "));
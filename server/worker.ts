@@ -0,0 +1,31 @@
+import { validateEnvironmentOrExit } from "./utils/envValidation";
+import { testDbConnection } from "./services/dbHelper";
+import { startJobWorker } from "./services/jobWorker";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STANDALONE JOB WORKER
+// Runs queued pipeline, reconstruction and HCC jobs in their own process, so
+// deploying or restarting the web server does not interrupt them. Start the
+// web server with JOB_WORKER=external to leave the queue to this process;
+// any number of workers can run side by side.
+// ═══════════════════════════════════════════════════════════════════════════
+
+(async () => {
+  validateEnvironmentOrExit();
+
+  const dbConnected = await testDbConnection();
+  if (!dbConnected) {
+    console.error('[WORKER] Database connection FAILED - exiting');
+    process.exit(1);
+  }
+
+  const worker = startJobWorker();
+
+  const shutdown = async (signal: string) => {
+    console.log(`[WORKER] ${signal} received, releasing running jobs`);
+    await worker.stop();
+    process.exit(0);
+  };
+  process.on('SIGTERM', () => { shutdown('SIGTERM'); });
+  process.on('SIGINT', () => { shutdown('SIGINT'); });
+})();
@@ -0,0 +1,374 @@
+import { z } from "zod";
+import {
+  insertUserSchema,
+  pipelineStagesSchema,
+  updateUserAccessSchema,
+  grantCreditsSchema,
+  calibrationSetInputSchema,
+  calibrationRunInputSchema,
+  objectionRecordsSchema,
+  pipelineTriageSchema,
+  createApiTokenSchema,
+  v1ReconstructionRequestSchema,
+  v1CoherenceRequestSchema,
+  v1PipelineRequestSchema,
+  v1TranslationRequestSchema,
+  API_TOKEN_SCOPES,
+  USER_ROLES,
+  COHERENCE_MODE_TYPES,
+} from "./schema";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE SCHEMAS
+// One entry per HTTP endpoint. server/lib/requestValidation.ts validates every
+// matching request against it before the handler runs (invalid payloads get a
+// uniform 400), and server/lib/openapi.ts turns the list into the OpenAPI 3.1
+// document served at /api/openapi.json. Request bodies are passthrough objects:
+// unknown fields are allowed so older clients keep working, but declared
+// fields must have the declared types.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface RouteSchema {
+  method: HttpMethod;
+  path: string; // Express-style, e.g. /api/pipeline/status/:jobId
+  summary: string;
+  tag: string;
+  auth?: "session" | "token" | "stripe-signature";
+  params?: z.ZodObject<any>;
+  query?: z.ZodObject<any>;
+  body?: z.ZodTypeAny;
+  // Multipart uploads are parsed by multer inside the route, so only documented
+  multipart?: { fileField: string; fields?: z.ZodObject<any> };
+  response?: z.ZodTypeAny;
+  successStatus?: 201 | 202;
+  // Non-JSON responses (streamed text, server-sent events, downloads)
+  responseType?: "text/plain" | "text/event-stream" | "text/x-python" | "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+}
+
+// ─── Building blocks ───────────────────────────────────────────────────────
+
+const body = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+const requiredText = (name: string) => z.string({ required_error: `${name} is required` }).min(1, `${name} is required`);
+const optionalString = z.string().nullish();
+// Some clients send numbers from form inputs as strings
+const numeric = z.union([z.number(), z.string().regex(/^\d+(\.\d+)?$/, "Expected a number")]);
+// zhi1-zhi5 or a provider name (openai, anthropic, deepseek, perplexity, grok, local, mock)
+const provider = z.string().min(1).describe("LLM provider: zhi1-zhi5 or a provider name");
+const evaluationType = z.enum(["intelligence", "originality", "cogency", "overall_quality"]);
+const coherenceMode = z.enum(COHERENCE_MODE_TYPES);
+const coherenceType = z.enum([...COHERENCE_MODE_TYPES, "auto-detect"]);
+const aggressiveness = z.enum(["conservative", "moderate", "aggressive"]);
+const idParam = (name: string) => z.object({ [name]: z.string().regex(/^\d+$/, `${name} must be an integer`) });
+// A CC job id or a client-chosen stream id (see server/services/jobEvents.ts)
+const jobId = z.string().regex(/^[A-Za-z0-9-]{1,64}$/, "Invalid job id");
+// Client-chosen ids live apart from CC job ids, so a stream cannot take over a job's events
+const streamId = z.string().regex(/^stream-[A-Za-z0-9-]{1,57}$/, "Stream ids must start with \"stream-\"");
+const streamedTo = z.object({ jobId: streamId.optional().describe("Also publish the output as events of this stream (/api/jobs/:id/events)") });
+
+// Every error response outside /api/v1 (see server/lib/httpErrors.ts); validation
+// failures add one entry per problem in `errors`
+export const errorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  requestId: z.string(),
+  errors: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+}).passthrough();
+
+// Most legacy routes return a JSON object whose shape depends on the provider
+const jsonObject = z.object({}).passthrough();
+const successResponse = z.object({ success: z.boolean(), message: z.string().optional() }).passthrough();
+const v1Envelope = (data: z.ZodTypeAny) => z.object({ data });
+const v1Job = z.object({
+  id: z.number().int(),
+  type: z.enum(["reconstruction", "pipeline"]),
+  status: z.string(),
+  createdAt: z.string(),
+  result: z.record(z.unknown()).nullable(),
+  error: z.string().nullable(),
+});
+
+const documentPair = {
+  documentA: z.union([z.string(), z.object({}).passthrough()]),
+  documentB: z.union([z.string(), z.object({}).passthrough()]),
+};
+
+const validatorOptions = {
+  targetDomain: optionalString,
+  fidelityLevel: optionalString,
+  mathFramework: optionalString,
+  constraintType: optionalString,
+  rigorLevel: optionalString,
+  customInstructions: optionalString,
+  truthMapping: optionalString,
+  mathTruthMapping: optionalString,
+  literalTruth: z.boolean().nullish(),
+  llmProvider: provider.nullish(),
+};
+
+// Added to the base case by a valuation scenario; rates in decimal points (0.01 = 1pp)
+const scenarioShift = z.object({
+  revenueGrowth: z.number(), ebitdaMargin: z.number(), wacc: z.number(), terminalGrowthRate: z.number(), terminalMultiple: z.number(), exitMultiple: z.number(), debtRate: z.number(),
+}).partial();
+
+const mlExperimentResponse = z.object({
+  success: z.boolean(),
+  parameters: jsonObject,
+  code: z.string(),
+  validation: z.object({
+    valid: z.boolean(),
+    syntaxChecked: z.boolean(),
+    syntaxError: z.object({ line: z.number(), column: z.number(), message: z.string() }).nullable(),
+    imports: z.array(z.string()),
+    disallowedImports: z.array(z.object({ module: z.string(), line: z.number() })),
+    disallowedCalls: z.array(z.object({ name: z.string(), line: z.number() })),
+    warnings: z.array(z.string()),
+  }),
+  warnings: z.array(z.string()),
+});
+
+const pipelineInput = body({
+  text: requiredText("Text").refine(t => t.trim().split(/\s+/).length >= 100, "Text must be at least 100 words"),
+  customInstructions: optionalString,
+  targetAudience: optionalString,
+  objective: optionalString,
+  stages: pipelineStagesSchema.nullish(),
+  pauseForTriage: z.boolean().nullish().describe("Pause after the objections stage until POST /api/pipeline/triage/:jobId"),
+});
+
+// ─── Shared request schemas (also used directly by their handlers) ─────────
+
+export const loginRequestSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const registerRequestSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+  email: true,
+}).extend({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const checkoutRequestSchema = z.object({
+  provider: z.enum(["openai", "anthropic", "perplexity", "deepseek"]),
+  amount: z.union([z.literal(5), z.literal(10), z.literal(25), z.literal(50), z.literal(100)]),
+});
+
+// ─── Routes ────────────────────────────────────────────────────────────────
+
+export const ROUTE_SCHEMAS: RouteSchema[] = [
+  // Auth
+  { method: "POST", path: "/api/register", tag: "Auth", summary: "Create an account and sign in", body: registerRequestSchema, response: jsonObject },
+  { method: "POST", path: "/api/login", tag: "Auth", summary: "Sign in with username and password", body: loginRequestSchema, response: jsonObject },
+  { method: "POST", path: "/api/logout", tag: "Auth", summary: "Sign out", auth: "session", responseType: "text/plain" },
+  { method: "GET", path: "/api/user", tag: "Auth", summary: "Current user with effective permissions", auth: "session", response: z.object({
+    id: z.number().int(), username: z.string(), email: z.string().nullable(), role: z.enum(USER_ROLES),
+    effectivePermissions: z.array(z.string()), unlimitedCredits: z.boolean(), authMode: z.string(),
+  }).passthrough() },
+
+  // Admin
+  { method: "GET", path: "/api/admin/users", tag: "Admin", summary: "List users with roles and balances", auth: "session", response: successResponse },
+  { method: "PATCH", path: "/api/admin/users/:id", tag: "Admin", summary: "Change a user's role, permissions or unlimited plan", auth: "session", params: idParam("id"), body: updateUserAccessSchema, response: successResponse },
+  { method: "POST", path: "/api/admin/users/:id/credits", tag: "Admin", summary: "Grant or revoke word credits", auth: "session", params: idParam("id"), body: grantCreditsSchema, response: successResponse },
+  { method: "GET", path: "/api/admin/jobs/dead", tag: "Admin", summary: "Dead-lettered queue jobs (retries exhausted)", auth: "session", response: successResponse },
+
+  // API tokens
+  { method: "GET", path: "/api/tokens", tag: "API tokens", summary: "List your API tokens", auth: "session", response: successResponse },
+  { method: "POST", path: "/api/tokens", tag: "API tokens", summary: "Create an API token (plaintext returned once)", auth: "session", body: createApiTokenSchema, response: z.object({
+    success: z.boolean(), token: z.string(), details: z.object({ id: z.number().int(), name: z.string(), tokenPrefix: z.string(), scopes: z.array(z.enum(API_TOKEN_SCOPES)) }).passthrough(),
+  }), successStatus: 201 },
+  { method: "DELETE", path: "/api/tokens/:id", tag: "API tokens", summary: "Revoke an API token", auth: "session", params: idParam("id"), response: successResponse },
+
+  // Payments & credits
+  { method: "POST", path: "/api/payments/checkout", tag: "Credits", summary: "Start a Stripe checkout for a credit package", auth: "session", body: checkoutRequestSchema, response: z.object({ sessionId: z.string(), url: z.string().nullable() }) },
+  { method: "POST", path: "/api/payments/webhook", tag: "Credits", summary: "Stripe webhook receiver", auth: "stripe-signature", response: jsonObject },
+  { method: "GET", path: "/api/credits/balance", tag: "Credits", summary: "Word credit balance per provider", response: jsonObject },
+  { method: "GET", path: "/api/credits/ledger", tag: "Credits", summary: "Purchases, usage and grants with their balance effect", auth: "session", query: z.object({ limit: numeric.optional() }), response: jsonObject },
+
+  // Public API v1 (token-authenticated)
+  { method: "POST", path: "/api/v1/reconstructions", tag: "Public API v1", summary: "Start a reconstruction job", auth: "token", body: v1ReconstructionRequestSchema, response: v1Envelope(v1Job), successStatus: 202 },
+  { method: "GET", path: "/api/v1/reconstructions/:id", tag: "Public API v1", summary: "Reconstruction job status and result", auth: "token", params: idParam("id"), response: v1Envelope(v1Job) },
+  { method: "POST", path: "/api/v1/coherence", tag: "Public API v1", summary: "Analyze or rewrite text for coherence", auth: "token", body: v1CoherenceRequestSchema, response: v1Envelope(jsonObject) },
+  { method: "POST", path: "/api/v1/pipelines", tag: "Public API v1", summary: "Start a full pipeline job", auth: "token", body: v1PipelineRequestSchema, response: v1Envelope(v1Job), successStatus: 202 },
+  { method: "GET", path: "/api/v1/pipelines/:id", tag: "Public API v1", summary: "Pipeline job status, stages and result", auth: "token", params: idParam("id"), response: v1Envelope(v1Job.passthrough()) },
+  { method: "POST", path: "/api/v1/translations", tag: "Public API v1", summary: "Translate text", auth: "token", body: v1TranslationRequestSchema, response: v1Envelope(jsonObject) },
+
+  // System
+  { method: "GET", path: "/api/check-api", tag: "System", summary: "Which provider API keys are configured", response: z.object({ status: z.string(), api_keys: z.record(z.enum(["configured", "missing"])) }) },
+  { method: "GET", path: "/api/openapi.json", tag: "System", summary: "This OpenAPI document", response: jsonObject },
+
+  // Analysis & evaluation
+  { method: "POST", path: "/api/quick-analysis", tag: "Analysis", summary: "Quick single-document evaluation", body: body({ text: requiredText("Text"), provider: provider.optional(), evaluationType: evaluationType.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/quick-compare", tag: "Analysis", summary: "Quick two-document comparison", body: body({ ...documentPair, provider: provider.optional(), evaluationType: evaluationType.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/cognitive-evaluate", tag: "Analysis", summary: "Cognitive evaluation of one document", body: body({ content: requiredText("Content"), provider: provider.optional(), evaluationType: evaluationType.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/stream-comprehensive", tag: "Analysis", summary: "Streamed comprehensive evaluation", query: streamedTo, body: body({ text: requiredText("Text"), provider: provider.optional() }), responseType: "text/plain" },
+  { method: "POST", path: "/api/analyze", tag: "Analysis", summary: "Full multi-provider analysis", body: body({ content: requiredText("Content"), provider: provider.optional(), requireProgress: z.boolean().optional() }), response: jsonObject },
+  { method: "POST", path: "/api/compare", tag: "Analysis", summary: "Compare two documents", body: body({ ...documentPair, provider: provider.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/intelligence-compare", tag: "Analysis", summary: "Compare the intelligence of two documents", body: body({ ...documentPair, provider: provider.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/get-enhancement-suggestions", tag: "Analysis", summary: "Suggestions for strengthening a text", body: body({ text: requiredText("Text"), provider: provider.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/semantic-analysis", tag: "Analysis", summary: "Semantic density analysis", body: body({ text: requiredText("Text") }), response: jsonObject },
+  { method: "POST", path: "/api/text-metrics", tag: "Analysis", summary: "Deterministic local text metrics and pre-score", body: body({ text: requiredText("Text") }), response: jsonObject },
+  { method: "POST", path: "/api/case-assessment", tag: "Analysis", summary: "Streamed case-making assessment", body: body({ text: requiredText("Text"), provider: provider.optional(), context: optionalString }), responseType: "text/plain" },
+  { method: "POST", path: "/api/fiction-assessment", tag: "Analysis", summary: "Fiction assessment", body: body({ text: requiredText("Text"), provider: provider.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/cognitive-quick", tag: "Analysis", summary: "Quick cognitive profile", body: body({ text: requiredText("Text"), provider: provider.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/fiction-compare", tag: "Analysis", summary: "Compare two works of fiction", body: body({ ...documentPair, provider }), response: jsonObject },
+  { method: "POST", path: "/api/originality-evaluate", tag: "Analysis", summary: "Originality evaluation", body: body({ content: requiredText("Content"), provider: provider.optional(), phase: optionalString }), response: jsonObject },
+  { method: "POST", path: "/api/cogency-evaluate", tag: "Analysis", summary: "Cogency evaluation", body: body({ content: requiredText("Content"), provider: provider.optional(), phase: optionalString }), response: jsonObject },
+  { method: "POST", path: "/api/overall-quality-evaluate", tag: "Analysis", summary: "Overall quality evaluation", body: body({ content: requiredText("Content"), provider: provider.optional(), phase: optionalString }), response: jsonObject },
+  { method: "POST", path: "/api/stream-analysis", tag: "Analysis", summary: "Streamed analysis", query: streamedTo, body: body({ text: requiredText("Text"), provider: provider.optional() }), responseType: "text/plain" },
+  { method: "POST", path: "/api/content-analysis", tag: "Analysis", summary: "Richness, substantiveness and salvageability", body: body({ text: requiredText("Text") }), response: successResponse },
+
+  // AI detection
+  { method: "POST", path: "/api/check-ai", tag: "AI detection", summary: "AI-generation check for a document", body: body({ content: requiredText("Content"), filename: optionalString, mimeType: optionalString }), response: jsonObject },
+  { method: "POST", path: "/api/evaluate-ai", tag: "AI detection", summary: "AI score for a text", body: body({ text: requiredText("Text") }), response: jsonObject },
+  { method: "POST", path: "/api/analyze-text", tag: "AI detection", summary: "GPTZero analysis of a text", body: body({ text: requiredText("Text") }), response: jsonObject },
+  { method: "POST", path: "/api/detect-ai", tag: "AI detection", summary: "AI detection (at least 50 characters)", body: body({ text: requiredText("Text").refine(t => t.trim().length >= 50, "Text must be at least 50 characters") }), response: jsonObject },
+
+  // Rewriting & humanizer
+  { method: "POST", path: "/api/intelligent-rewrite", tag: "Rewriting", summary: "Rewrite to maximize intelligence scores", body: body({ originalText: requiredText("Original text"), customInstructions: optionalString, provider: provider.optional(), useExternalKnowledge: z.boolean().optional() }), response: jsonObject },
+  { method: "POST", path: "/api/re-rewrite", tag: "Rewriting", summary: "Restyle a text after a style sample", body: body({ text: requiredText("Text"), styleText: requiredText("Style text"), provider: provider.optional(), customInstructions: optionalString, stylePresets: z.array(z.string()).nullish() }), response: jsonObject },
+  { method: "GET", path: "/api/style-presets", tag: "Rewriting", summary: "Available humanizer style presets", response: z.object({ presets: z.unknown() }) },
+  { method: "POST", path: "/api/chunk-text", tag: "Rewriting", summary: "Split text into chunks", body: body({ text: requiredText("Text"), maxWords: numeric.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/rewrite", tag: "Rewriting", summary: "Start a humanizer rewrite job", body: body({
+    inputText: requiredText("Input text"), provider, styleText: optionalString, contentMixText: optionalString, customInstructions: optionalString,
+    selectedPresets: z.array(z.string()).nullish(), selectedChunkIds: z.array(z.string()).nullish(), mixingMode: z.enum(["style", "content", "both"]).nullish(),
+  }), response: jsonObject },
+  { method: "POST", path: "/api/re-rewrite/:jobId", tag: "Rewriting", summary: "Rewrite the output of a previous rewrite job", params: idParam("jobId"), body: body({ customInstructions: optionalString, selectedPresets: z.array(z.string()).nullish(), provider: provider.nullish() }), response: jsonObject },
+  { method: "POST", path: "/api/gpt-bypass-humanizer", tag: "Rewriting", summary: "Humanize text after a style sample", body: body({
+    boxA: requiredText("Box A (text to humanize)"), boxB: requiredText("Box B (style sample)"), provider: provider.optional(), customInstructions: optionalString,
+    stylePresets: z.array(z.string()).nullish(), selectedChunkIds: z.array(z.string()).nullish(), chunks: z.array(z.unknown()).nullish(),
+  }), response: jsonObject },
+  { method: "GET", path: "/api/rewrite-jobs", tag: "Rewriting", summary: "Recent humanizer rewrite jobs (jobs:read_all)", auth: "session", response: z.array(jsonObject) },
+  { method: "GET", path: "/api/rewrite-jobs/:jobId", tag: "Rewriting", summary: "A humanizer rewrite job", params: idParam("jobId"), response: jsonObject },
+  { method: "GET", path: "/api/writing-samples", tag: "Rewriting", summary: "Built-in writing samples by category", response: jsonObject },
+  { method: "POST", path: "/api/refine-output", tag: "Rewriting", summary: "Refine an output to a word count or instructions", body: body({ text: requiredText("Text"), targetWordCount: numeric.nullish(), customInstructions: optionalString })
+    .refine(b => !!b.targetWordCount || !!b.customInstructions, { message: "Either targetWordCount or customInstructions is required", path: ["targetWordCount"] }), response: successResponse },
+
+  // Documents & utilities
+  { method: "POST", path: "/api/extract-text", tag: "Documents", summary: "Extract text from an upload or direct content", multipart: { fileField: "file", fields: z.object({ content: z.string().optional(), filename: z.string().optional() }) }, response: jsonObject },
+  { method: "POST", path: "/api/upload", tag: "Documents", summary: "Upload a document for the humanizer", multipart: { fileField: "file" }, response: jsonObject },
+  { method: "POST", path: "/api/speech-to-text", tag: "Documents", summary: "Transcribe an audio upload", multipart: { fileField: "audio" }, response: jsonObject },
+  { method: "POST", path: "/api/share-via-email", tag: "Documents", summary: "Email an analysis", body: body({
+    recipientEmail: z.string().email(), subject: requiredText("Subject"), analysisA: z.unknown().refine(v => !!v, "Analysis is required"),
+    senderEmail: optionalString, senderName: optionalString, documentType: optionalString, analysisB: z.unknown().optional(), comparison: z.unknown().optional(), rewrittenAnalysis: z.unknown().optional(),
+  }), response: jsonObject },
+  { method: "POST", path: "/api/share-simple-email", tag: "Documents", summary: "Email plain content", body: body({ recipientEmail: z.string().email(), subject: requiredText("Subject"), content: requiredText("Content"), senderEmail: optionalString, senderName: optionalString }), response: jsonObject },
+  { method: "POST", path: "/api/search-google", tag: "Documents", summary: "Web search", body: body({ query: requiredText("Query"), numResults: numeric.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/fetch-url-content", tag: "Documents", summary: "Fetch and extract a web page", body: body({ url: z.string().url() }), response: jsonObject },
+  { method: "POST", path: "/api/translate", tag: "Documents", summary: "Translate a document", body: body({
+    text: requiredText("Text"), provider: provider.optional(),
+    options: z.object({ targetLanguage: requiredText("Target language"), sourceLanguage: optionalString, preserveFormatting: z.boolean().nullish(), preserveIntelligence: z.boolean().nullish() }).passthrough(),
+  }), response: jsonObject },
+
+  // Chat
+  { method: "POST", path: "/api/direct-model-request", tag: "Chat", summary: "Send an instruction straight to a model", body: body({ instruction: requiredText("Instruction"), provider: provider.optional() }), response: jsonObject },
+  { method: "POST", path: "/api/chat-with-memory", tag: "Chat", summary: "Chat with conversation history and document context", body: body({
+    message: requiredText("Message"), conversationHistory: z.array(z.object({}).passthrough()).optional(), currentDocument: z.unknown().optional(),
+    analysisResults: z.unknown().optional(), provider: provider.optional(), useExternalKnowledge: z.boolean().optional(),
+  }), response: jsonObject },
+
+  // Reconstruction
+  { method: "POST", path: "/api/reconstruction/start", tag: "Reconstruction", summary: "Start a background reconstruction project", body: body({ text: requiredText("Text"), title: optionalString, targetWordCount: numeric.nullish(), customInstructions: optionalString }), response: jsonObject },
+  { method: "GET", path: "/api/reconstruction/:id", tag: "Reconstruction", summary: "Reconstruction project", params: idParam("id"), response: jsonObject },
+  { method: "POST", path: "/api/reconstruction/:id/update", tag: "Reconstruction", summary: "Update fields of a reconstruction project", params: idParam("id"), body: body({ title: z.string().optional(), reconstructedText: z.string().optional(), status: z.string().optional(), customInstructions: z.string().nullish() }), response: jsonObject },
+  { method: "POST", path: "/api/reconstruction/stream", tag: "Reconstruction", summary: "Streamed reconstruction for documents of 1000+ words", body: body({ text: requiredText("Text"), customInstructions: optionalString, audienceParameters: optionalString, rigorLevel: optionalString }), responseType: "text/event-stream" },
+  { method: "POST", path: "/api/reconstruction/abort/:sessionId", tag: "Reconstruction", summary: "Abort a streamed reconstruction", params: idParam("sessionId"), response: successResponse },
+  { method: "POST", path: "/api/hcc", tag: "Reconstruction", summary: "Queue a book-length document for HCC reconstruction", auth: "session", body: body({ text: requiredText("Text"), customInstructions: optionalString }), response: z.object({ success: z.boolean(), documentId: z.number().int(), status: z.string(), wordCount: z.number().int() }) },
+  { method: "GET", path: "/api/hcc/:documentId", tag: "Reconstruction", summary: "HCC document status, with the output once complete", auth: "session", params: idParam("documentId"), response: successResponse },
+
+  // Jobs
+  { method: "GET", path: "/api/jobs", tag: "Jobs", summary: "Job history of every user (jobs:read_all)", auth: "session", response: z.object({ jobs: z.array(jsonObject) }) },
+  { method: "GET", path: "/api/jobs/:documentId", tag: "Jobs", summary: "A job with its chunks", params: z.object({ documentId: z.string().min(1) }), response: jsonObject },
+  { method: "GET", path: "/api/jobs/:id/events", tag: "Jobs", summary: "Live job events as Server-Sent Events (resumable with Last-Event-ID)", auth: "session", params: z.object({ id: jobId }), query: z.object({ lastEventId: z.string().regex(/^\d+$/).optional().describe("Alternative to the Last-Event-ID header") }), responseType: "text/event-stream" },
+  { method: "POST", path: "/api/jobs/:documentId/resume", tag: "Jobs", summary: "Resume an interrupted coherence job", params: z.object({ documentId: z.string().min(1) }), response: jsonObject },
+
+  // Text model validator & objections
+  { method: "POST", path: "/api/text-model-validator", tag: "Text model validator", summary: "Reconstruction, isomorphism and math-model modes", query: z.object({
+    stream: z.enum(["true", "false"]).optional(),
+    streamId: streamId.optional().describe("Stream id to publish progress under (/ws/cc-stream or /api/jobs/:id/events)"),
+  }), body: body({
+    text: optionalString, mode: requiredText("Mode"), instructionsOnly: z.boolean().nullish(), ...validatorOptions,
+  }).refine(b => !!b.text?.trim() || !!b.customInstructions?.trim(), { message: "Text or instructions are required", path: ["text"] }), response: successResponse },
+  { method: "POST", path: "/api/text-model-validator/batch", tag: "Text model validator", summary: "Run several validator modes", body: body({
+    text: requiredText("Text"), modes: z.array(z.enum(["reconstruction", "isomorphism", "mathmodel", "truth-isomorphism", "math-truth-select"])).min(1, "Text and modes array are required"), ...validatorOptions,
+  }), response: successResponse },
+  { method: "POST", path: "/api/text-model-validator/objections", tag: "Text model validator", summary: "Generate objections and counter-arguments", body: body({
+    bottomlineOutput: requiredText("Input text"), audience: optionalString, objective: optionalString, idea: optionalString, tone: optionalString,
+    emphasis: optionalString, customInstructions: optionalString, llmProvider: provider.nullish(),
+  }), response: successResponse },
+  { method: "POST", path: "/api/objection-proof-rewrite", tag: "Text model validator", summary: "Rewrite a text to pre-empt its objections", body: body({ originalText: requiredText("Original text"), objectionsOutput: requiredText("Objections output"), objections: objectionRecordsSchema.nullish().describe("Records returned by the objections function; saves converting objectionsOutput"), customInstructions: optionalString, finalVersionOnly: z.boolean().nullish() }), response: successResponse },
+
+  // Coherence
+  { method: "POST", path: "/api/coherence-meter", tag: "Coherence", summary: "Coherence analysis, rewrite and math proof modes", body: body({
+    text: requiredText("Text"), mode: z.enum(["analyze", "rewrite", "rewrite-max", "reconstruct", "math-coherence", "math-cogency", "math-max-coherence", "math-maximize-truth"]),
+    aggressiveness: aggressiveness.optional(), coherenceType: coherenceType.nullish(),
+  }), response: successResponse },
+  { method: "POST", path: "/api/coherence-global", tag: "Coherence", summary: "Cross-chunk coherence with global state", body: body({
+    text: requiredText("Text"), coherenceType, mode: z.enum(["analyze", "rewrite"]), aggressiveness: aggressiveness.optional(),
+    documentId: optionalString, resumeFromChunk: z.number().int().nullish(), globalState: z.unknown().optional(), existingChunks: z.unknown().optional(),
+  }), response: successResponse },
+  { method: "POST", path: "/api/coherence-outline-guided", tag: "Coherence", summary: "Outline-guided coherence processing", body: body({ text: requiredText("Text"), coherenceType, mode: requiredText("mode"), aggressiveness: aggressiveness.optional() }), response: successResponse },
+  { method: "POST", path: "/api/coherence-sequential", tag: "Coherence", summary: "Database-backed sequential coherence processing", body: body({ text: requiredText("Text"), mode: coherenceMode.nullish(), provider: provider.optional() }), response: successResponse },
+  { method: "GET", path: "/api/coherence-sequential/:documentId/:mode", tag: "Coherence", summary: "Sequential coherence document state", params: z.object({ documentId: z.string().min(1), mode: coherenceMode }), response: successResponse },
+
+  // Pipeline
+  { method: "POST", path: "/api/pipeline/start", tag: "Pipeline", summary: "Create and start a pipeline job", body: pipelineInput, response: z.object({ success: z.boolean(), message: z.string(), jobId: z.number().int(), wordCount: z.number().int(), started: z.boolean() }) },
+  { method: "POST", path: "/api/pipeline/create", tag: "Pipeline", summary: "Create a pipeline job without starting it", body: pipelineInput, response: z.object({ success: z.boolean(), jobId: z.number().int(), wordCount: z.number().int(), message: z.string() }) },
+  { method: "POST", path: "/api/pipeline/run/:jobId", tag: "Pipeline", summary: "Queue a created pipeline job for the job worker", params: idParam("jobId"), response: successResponse },
+  { method: "GET", path: "/api/pipeline/status/:jobId", tag: "Pipeline", summary: "Pipeline job progress per stage", params: idParam("jobId"), response: successResponse },
+  { method: "GET", path: "/api/pipeline/outputs/:jobId", tag: "Pipeline", summary: "Pipeline stage outputs and objections", params: idParam("jobId"), response: successResponse },
+  { method: "POST", path: "/api/pipeline/resume/:jobId", tag: "Pipeline", summary: "Re-queue a paused or failed pipeline job; it continues after its last completed stage", params: idParam("jobId"), response: successResponse },
+  { method: "POST", path: "/api/pipeline/triage/:jobId", tag: "Pipeline", summary: "Keep, exclude or edit objections of a job paused for triage and queue its remaining stages", params: idParam("jobId"), body: pipelineTriageSchema, response: successResponse },
+  { method: "GET", path: "/api/pipeline/list", tag: "Pipeline", summary: "Your pipeline jobs, or everyone's with scope=all", auth: "session", query: z.object({ scope: z.enum(["all"]).optional() }), response: z.object({ success: z.boolean(), jobs: z.array(jsonObject) }) },
+  { method: "POST", path: "/api/replay/:jobType/:jobId", tag: "Pipeline", summary: "Replay a recorded job against its logged LLM responses", params: z.object({ jobType: z.enum(["pipeline", "reconstruction", "hcc"]), jobId: z.string().regex(/^\d+$/, "jobId must be an integer") }), response: successResponse },
+
+  // Financial models
+  { method: "POST", path: "/api/financial-models/:model", tag: "Financial models", summary: "Build an LBO, M&A, DCF or IPO model from a deal description; reports which inputs fell back to defaults", params: z.object({ model: z.enum(["lbo", "ma", "dcf", "ipo"]) }), body: body({ text: requiredText("Deal description") }), response: z.object({
+    success: z.boolean(), model: z.enum(["lbo", "ma", "dcf", "ipo"]), values: jsonObject, defaultedFields: z.array(z.string()), outputs: jsonObject, warnings: z.array(z.string()),
+  }) },
+  { method: "POST", path: "/api/financial-models/:model/valuation", tag: "Financial models", summary: "Base, upside and downside scenarios and two-way sensitivity grids for a DCF or LBO", params: z.object({ model: z.enum(["dcf", "lbo"]) }), body: body({
+    text: requiredText("Deal description"),
+    scenarios: z.object({ upside: scenarioShift.optional(), downside: scenarioShift.optional() }).nullish().describe("Replace parts of the default scenario shifts"),
+  }), response: z.object({
+    success: z.boolean(), model: z.enum(["dcf", "lbo"]), companyName: z.string(), defaultedFields: z.array(z.string()),
+    scenarios: z.array(z.object({ name: z.enum(["downside", "base", "upside"]), assumptions: z.record(z.number()), outputs: z.record(z.number().nullable()) })),
+    formats: z.record(z.enum(["money", "percent", "multiple"])),
+    sensitivities: z.array(z.object({
+      id: z.string(), title: z.string(), metric: z.string(), rowLabel: z.string(), columnLabel: z.string(),
+      rowValues: z.array(z.number()), columnValues: z.array(z.number()), cells: z.array(z.array(z.number().nullable())), baseRow: z.number().int(), baseColumn: z.number().int(),
+    }).passthrough()),
+    warnings: z.array(z.string()),
+  }) },
+  { method: "POST", path: "/api/financial-models/:model/workbook", tag: "Financial models", summary: "Download a DCF, LBO or three-statement model as an .xlsx workbook of live formulas", params: z.object({ model: z.enum(["dcf", "lbo", "three-statement"]) }), body: body({
+    text: optionalString.describe("Deal description to parse; defaults are used without one"),
+    values: z.record(z.unknown()).nullish().describe("Model values that override the parsed ones, e.g. { \"wacc\": 0.09 }"),
+  }), responseType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+
+
+  // ML experiments
+  { method: "POST", path: "/api/ml-experiments/parse", tag: "ML experiments", summary: "Parse an ML problem description into editable parameters and generate the validated scikit-learn script", body: body({
+    description: requiredText("Problem description"), customInstructions: optionalString, provider: provider.optional(),
+  }), response: mlExperimentResponse },
+  { method: "POST", path: "/api/ml-experiments/generate", tag: "ML experiments", summary: "Regenerate and validate the script from edited parameters", body: body({
+    parameters: z.record(z.unknown()).describe("MLModelParameters; omitted fields take their defaults"),
+  }), response: mlExperimentResponse },
+  { method: "POST", path: "/api/ml-experiments/download", tag: "ML experiments", summary: "Download the validated script as .py, or as an .ipynb notebook with format \"ipynb\"", body: body({
+    parameters: z.record(z.unknown()).describe("MLModelParameters; omitted fields take their defaults"),
+    format: z.enum(["py", "ipynb"]).optional(),
+  }), responseType: "text/x-python" },
+  // Calibration
+  { method: "GET", path: "/api/calibration/sets", tag: "Calibration", summary: "Latest version of each calibration set with its most recent run", auth: "session", response: successResponse },
+  { method: "GET", path: "/api/calibration/sets/:id", tag: "Calibration", summary: "A calibration set version with its samples and the list of versions", auth: "session", params: idParam("id"), response: successResponse },
+  { method: "POST", path: "/api/calibration/sets", tag: "Calibration", summary: "Save a calibration set; an existing name gets a new version", auth: "session", body: calibrationSetInputSchema, response: successResponse },
+  { method: "POST", path: "/api/calibration/sets/:id/runs", tag: "Calibration", summary: "Queue a run of a set version against a scorer, provider and model", auth: "session", params: idParam("id"), body: calibrationRunInputSchema, response: successResponse },
+  { method: "GET", path: "/api/calibration/runs/:id", tag: "Calibration", summary: "Run status, error statistics and per-sample results", auth: "session", params: idParam("id"), response: successResponse },
+  { method: "GET", path: "/api/calibration/drift", tag: "Calibration", summary: "Completed runs of every version of a set, oldest first, for charting drift", auth: "session", query: z.object({ name: requiredText("Set name"), scorer: z.string().optional(), provider: z.string().optional(), model: z.string().optional() }), response: successResponse },
+  { method: "GET", path: "/api/calibration/alerts", tag: "Calibration", summary: "Runs whose mean absolute error exceeded the set's threshold", auth: "session", response: successResponse },
+  // Long-form generation
+  { method: "POST", path: "/api/generate-strict-outline", tag: "Generation", summary: "Generate a strict outline", body: body({ prompt: requiredText("Prompt"), inputText: optionalString, provider: provider.optional() }), response: successResponse },
+  { method: "POST", path: "/api/generate-full-document", tag: "Generation", summary: "Generate a full document from an outline", body: body({ prompt: requiredText("Prompt"), inputText: optionalString, provider: provider.optional() }), response: successResponse },
+];
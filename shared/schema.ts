@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, real, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,10 +8,82 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email"), // Optional email field
+  role: text("role").notNull().default("customer"), // admin, staff, customer
+  permissions: jsonb("permissions").$type<Permission[]>().notNull().default([]), // granted on top of the role's permissions
+  unlimitedCredits: boolean("unlimited_credits").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastActiveAt: timestamp("last_active_at").defaultNow().notNull(),
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// ROLES & PERMISSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const USER_ROLES = ['admin', 'staff', 'customer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  'jobs:read_all',      // job history and pipeline jobs of every user
+  'credits:grant',      // grant credits and unlimited plans
+  'users:manage',       // change roles and permissions
+  'calibration:manage', // edit calibration sets and run them
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  staff: ['jobs:read_all', 'calibration:manage'],
+  customer: [],
+};
+
+export const updateUserAccessSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).optional(),
+  unlimitedCredits: z.boolean().optional(),
+}).refine(data => Object.values(data).some(v => v !== undefined), {
+  message: "Provide role, permissions or unlimitedCredits",
+});
+
+export const grantCreditsSchema = z.object({
+  provider: z.enum(["openai", "anthropic", "perplexity", "deepseek"]),
+  credits: z.number().int().refine(n => n !== 0, "credits must be non-zero"), // negative revokes
+  note: z.string().max(500).optional(),
+});
+
+export type UpdateUserAccess = z.infer<typeof updateUserAccessSchema>;
+export type GrantCredits = z.infer<typeof grantCreditsSchema>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PERSONAL API TOKENS
+// Only a SHA-256 hash of each token is stored; the plaintext is shown once.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const API_TOKEN_SCOPES = ['reconstruction', 'coherence', 'pipeline', 'translation'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  tokenPrefix: text("token_prefix").notNull(), // first characters, for telling tokens apart
+  tokenHash: text("token_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(3650).optional(),
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -226,6 +298,7 @@ export const reconstructionProjects = pgTable("reconstruction_projects", {
   reconstructedText: text("reconstructed_text"),
   status: text("status").notNull().default("pending"),
   targetWordCount: integer("target_word_count"),
+  customInstructions: text("custom_instructions"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -350,15 +423,30 @@ export const creditTransactions = pgTable("credit_transactions", {
   userId: integer("user_id").references(() => users.id).notNull(),
   provider: text("provider").notNull(),
   amount: integer("amount").notNull(), // dollar amount in cents
-  credits: integer("credits").notNull(), // word credits purchased/used
-  transactionType: text("transaction_type").notNull(), // purchase, deduction
+  credits: integer("credits").notNull(), // word credits purchased/used (usage: reserved, then actual once settled)
+  transactionType: text("transaction_type").notNull(), // purchase, deduction, usage, reversal (refunded purchase), grant (admin)
   stripeSessionId: text("stripe_session_id"),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
-  status: text("status").notNull().default("pending"), // pending, completed, failed
+  status: text("status").notNull().default("pending"), // pending, completed, failed; usage: reserved, completed, refunded
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Stripe webhook deliveries, keyed by Stripe's event id so retried deliveries are processed once
+export const stripeWebhookEvents = pgTable("stripe_webhook_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  status: text("status").notNull().default("processing"), // processing, processed, ignored, failed
+  errorMessage: text("error_message"),
+  payload: jsonb("payload"),
+  attempts: integer("attempts").notNull().default(1),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+});
+
+export type StripeWebhookEvent = typeof stripeWebhookEvents.$inferSelect;
+
 export const insertUserCreditsSchema = createInsertSchema(userCredits).omit({
   id: true,
   lastUpdated: true,
@@ -412,16 +500,19 @@ export type CoherenceDocument = typeof coherenceDocuments.$inferSelect;
 export type InsertCoherenceChunk = z.infer<typeof insertCoherenceChunkSchema>;
 export type CoherenceChunk = typeof coherenceChunks.$inferSelect;
 
-// Coherence mode types - using hyphenated format to match existing codebase
-export type CoherenceModeType = 
-  | "logical-consistency"
-  | "logical-cohesiveness"
-  | "scientific-explanatory"
-  | "thematic-psychological"
-  | "instructional"
-  | "motivational"
-  | "mathematical"
-  | "philosophical";
+// Coherence mode types - using hyphenated format to match existing codebase.
+// Each has a definition in server/services/coherenceModes.ts.
+export const COHERENCE_MODE_TYPES = [
+  "logical-consistency",
+  "logical-cohesiveness",
+  "scientific-explanatory",
+  "thematic-psychological",
+  "instructional",
+  "motivational",
+  "mathematical",
+  "philosophical",
+] as const;
+export type CoherenceModeType = typeof COHERENCE_MODE_TYPES[number];
 
 // State templates by mode
 export interface LogicalConsistencyState {
@@ -502,6 +593,9 @@ export interface ChunkEvaluationResult {
   violations: { location: string; type: string; description: string }[];
   repairs: { location: string; suggestion: string }[];
   state_update: Partial<CoherenceState>;
+  // Found by the mode's local state checks rather than the evaluating model;
+  // absent on chunks evaluated before these were stored separately
+  deterministic_violations?: { location: string; type: string; description: string }[];
 }
 
 // System instructions and prompts storage
@@ -537,7 +631,7 @@ export const reconstructionDocuments = pgTable("reconstruction_documents", {
   finalOutput: text("final_output"),
   finalWordCount: integer("final_word_count"), // Actual output word count
   validationResult: jsonb("validation_result"), // Stores Pass 3 validation results
-  status: text("status").default("pending"), // pending, skeleton_extracted, chunks_processed, stitched, completed, failed
+  status: text("status").default("pending"), // pending, queued, skeleton_extracted, chunks_processed, stitched, completed, failed
   
   // Length enforcement parameters
   targetMinWords: integer("target_min_words"), // Minimum target from user instructions
@@ -723,7 +817,7 @@ export const hccDocuments = pgTable("hcc_documents", {
   targetMaxWords: integer("target_max_words"),
   lengthRatio: text("length_ratio"), // numeric stored as text for precision
   lengthMode: text("length_mode"), // heavy_compression, moderate_compression, maintain, moderate_expansion, heavy_expansion
-  status: text("status").default("pending"), // pending, structure_detected, skeletons_extracted, processing, stitching, complete, failed
+  status: text("status").default("pending"), // pending, queued, structure_detected, skeletons_extracted, processing, stitching, complete, failed
   customInstructions: text("custom_instructions"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -885,8 +979,11 @@ export const pipelineJobs = pgTable("pipeline_jobs", {
   skeleton3: jsonb("skeleton_3"), // Responses skeleton
   skeleton4: jsonb("skeleton_4"), // Bullet-proof skeleton
   
+  // Stage composition (PipelineStageDefinition[]); null means DEFAULT_PIPELINE_STAGES
+  stageDefinitions: jsonb("stage_definitions"),
+  
   // Progress tracking
-  currentStage: integer("current_stage").default(1), // 1-4
+  currentStage: integer("current_stage").default(1), // 1-based index into the stage definitions
   stageStatus: text("stage_status").default("pending"), // pending, skeleton_extraction, chunk_processing, stitching, complete
   totalStages: integer("total_stages").default(4),
   
@@ -901,19 +998,16 @@ export const pipelineJobs = pgTable("pipeline_jobs", {
   hcViolations: jsonb("hc_violations"), // Array of violation objects
   hcRepairAttempts: integer("hc_repair_attempts").default(0),
   
-  // Timing
-  stage1StartTime: timestamp("stage1_start_time"),
-  stage1EndTime: timestamp("stage1_end_time"),
-  stage2StartTime: timestamp("stage2_start_time"),
-  stage2EndTime: timestamp("stage2_end_time"),
-  stage3StartTime: timestamp("stage3_start_time"),
-  stage3EndTime: timestamp("stage3_end_time"),
-  stage4StartTime: timestamp("stage4_start_time"),
-  stage4EndTime: timestamp("stage4_end_time"),
+  // Timing (per-stage timing lives in pipeline_stage_runs)
   hcCheckTime: timestamp("hc_check_time"),
   
+  // Objection triage: the job pauses after its objections stage (stageStatus
+  // awaiting_triage) until the user's decisions are applied at triagedAt
+  pauseForTriage: boolean("pause_for_triage").default(false),
+  triagedAt: timestamp("triaged_at"),
+  
   // Final status
-  status: text("status").default("pending"), // pending, running, paused, complete, completed_with_warnings, failed
+  status: text("status").default("pending"), // pending, queued, running, paused, complete, completed_with_warnings, failed
   errorMessage: text("error_message"),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -929,6 +1023,34 @@ export const insertPipelineJobSchema = createInsertSchema(pipelineJobs).omit({
 export type InsertPipelineJob = z.infer<typeof insertPipelineJobSchema>;
 export type PipelineJob = typeof pipelineJobs.$inferSelect;
 
+// One row per executed stage of a pipeline job
+export const pipelineStageRuns = pgTable("pipeline_stage_runs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => pipelineJobs.id).notNull(),
+  stageIndex: integer("stage_index").notNull(), // 1-based position in the job's stage definitions
+  stageName: text("stage_name").notNull(),
+  skeletonType: text("skeleton_type").notNull(), // PipelineSkeletonType
+  
+  output: text("output"),
+  outputWords: integer("output_words"),
+  skeleton: jsonb("skeleton"),
+  
+  status: text("status").default("pending"), // pending, running, complete, failed
+  errorMessage: text("error_message"),
+  startTime: timestamp("start_time"),
+  endTime: timestamp("end_time"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPipelineStageRunSchema = createInsertSchema(pipelineStageRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPipelineStageRun = z.infer<typeof insertPipelineStageRunSchema>;
+export type PipelineStageRun = typeof pipelineStageRuns.$inferSelect;
+
 // Stage-specific chunk tracking
 export const pipelineChunks = pgTable("pipeline_chunks", {
   id: serial("id").primaryKey(),
@@ -984,6 +1106,14 @@ export const pipelineObjections = pgTable("pipeline_objections", {
   integratedInSection: text("integrated_in_section"), // Where it appears in bullet-proof
   integrationStrategy: text("integration_strategy"), // preemptive, inline, footnote, structural
   integrationVerified: boolean("integration_verified").default(false),
+  integrationStatus: text("integration_status"), // integrated, unintegrated, contradicted (set by the verifier)
+  integrationSpan: jsonb("integration_span").$type<IntegrationSpan>(), // Located passage in the bullet-proof output
+  integrationNote: text("integration_note"), // Verifier's reason for the status
+  
+  // Triage: excluded objections are skipped by later stages; userEdited marks
+  // claim, objection or response text changed by the user
+  excluded: boolean("excluded").default(false),
+  userEdited: boolean("user_edited").default(false),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -996,6 +1126,121 @@ export const insertPipelineObjectionSchema = createInsertSchema(pipelineObjectio
 export type InsertPipelineObjection = z.infer<typeof insertPipelineObjectionSchema>;
 export type PipelineObjection = typeof pipelineObjections.$inferSelect;
 
+// Contract objections are generated against. Field names follow the
+// pipeline_objections columns so a validated record is stored as is; prose is
+// rendered from validated records, never parsed back out of it.
+export const OBJECTION_TYPES = ['logical', 'empirical', 'conceptual', 'methodological', 'practical'] as const;
+export const OBJECTION_SEVERITIES = ['fatal', 'serious', 'moderate', 'minor'] as const;
+export type ObjectionType = typeof OBJECTION_TYPES[number];
+export type ObjectionSeverity = typeof OBJECTION_SEVERITIES[number];
+
+export const objectionRecordSchema = z.object({
+  claimTargeted: z.string().trim().min(1, "claimTargeted must not be empty"),
+  claimLocation: z.string().trim(),
+  objectionType: z.string().trim().toLowerCase().pipe(z.enum(OBJECTION_TYPES)),
+  objectionText: z.string().trim().min(1, "objectionText must not be empty"),
+  severity: z.string().trim().toLowerCase().pipe(z.enum(OBJECTION_SEVERITIES)),
+  initialResponse: z.string().trim().min(1, "initialResponse must not be empty"),
+});
+
+export const objectionRecordsSchema = z.array(objectionRecordSchema);
+
+// Top-level shape a model must return (an object, so JSON mode can be used)
+export const objectionContractSchema = z.object({
+  objections: objectionRecordsSchema,
+});
+
+export type ObjectionRecord = z.infer<typeof objectionRecordSchema>;
+
+export const PIPELINE_INTEGRATION_STRATEGIES = ['preemptive', 'inline', 'footnote', 'structural'] as const;
+export type PipelineIntegrationStrategy = typeof PIPELINE_INTEGRATION_STRATEGIES[number];
+
+// One objection's triage decision; text fields are only sent when changed
+export const objectionTriageDecisionSchema = z.object({
+  index: z.number().int().positive(),
+  excluded: z.boolean().optional(),
+  claimTargeted: objectionRecordSchema.shape.claimTargeted.optional(),
+  objectionText: objectionRecordSchema.shape.objectionText.optional(),
+  initialResponse: objectionRecordSchema.shape.initialResponse.optional(),
+  objectionType: objectionRecordSchema.shape.objectionType.optional(),
+  severity: objectionRecordSchema.shape.severity.optional(),
+  integrationStrategy: z.enum(PIPELINE_INTEGRATION_STRATEGIES).nullable().optional(),
+});
+
+export const pipelineTriageSchema = z.object({
+  decisions: z.array(objectionTriageDecisionSchema).max(100),
+}).refine(
+  t => new Set(t.decisions.map(d => d.index)).size === t.decisions.length,
+  { message: "Each objection may appear only once", path: ["decisions"] }
+);
+
+export type ObjectionTriageDecision = z.infer<typeof objectionTriageDecisionSchema>;
+
+export const INTEGRATION_STATUSES = ['integrated', 'unintegrated', 'contradicted'] as const;
+export type IntegrationStatus = typeof INTEGRATION_STATUSES[number];
+
+// Where a response landed in the bullet-proof output; start/end are character offsets
+export interface IntegrationSpan {
+  sectionIndex: number;
+  sectionTitle: string;
+  start: number;
+  end: number;
+  quote: string;
+  // Share of the response's key terms found in the quote (0-1)
+  coverage: number;
+}
+
+export const integrationVerdictsSchema = z.object({
+  verdicts: z.array(z.object({
+    index: z.number().int().positive(),
+    status: z.string().trim().toLowerCase().pipe(z.enum(INTEGRATION_STATUSES)),
+    reason: z.string().trim().default(''),
+  })),
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PIPELINE STAGE DEFINITIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Which handler runs a stage and what skeleton it produces. The four built-in
+// types carry their own prompts and reject a promptTemplate; 'text' stages run
+// promptTemplate as written.
+export const PIPELINE_SKELETON_TYPES = ['reconstruction', 'objections', 'responses', 'bulletproof', 'text'] as const;
+export type PipelineSkeletonType = typeof PIPELINE_SKELETON_TYPES[number];
+
+// Pseudo-stage name that refers to the job's original text in `inputs`
+export const PIPELINE_ORIGINAL_INPUT = 'original';
+
+export interface PipelineStageDefinition {
+  name: string; // unique within the pipeline; referenced by later stages' inputs
+  label?: string;
+  skeletonType: PipelineSkeletonType;
+  // Placeholders: {{input}}, {{input:<stageName>}}, {{customInstructions}}, {{targetAudience}}, {{objective}}
+  promptTemplate?: string;
+  // Stage names whose outputs feed this stage; the first is its primary input.
+  // Defaults to the previous stage (or the original text for the first stage).
+  inputs?: string[];
+  maxTokens?: number;
+}
+
+export const pipelineStageDefinitionSchema = z.object({
+  name: z.string().min(1).regex(/^[a-z0-9_-]+$/i, "Stage names may only contain letters, digits, '_' and '-'"),
+  label: z.string().optional(),
+  skeletonType: z.enum(PIPELINE_SKELETON_TYPES),
+  promptTemplate: z.string().optional(),
+  inputs: z.array(z.string()).optional(),
+  maxTokens: z.number().int().positive().max(64000).optional(),
+});
+
+export const pipelineStagesSchema = z.array(pipelineStageDefinitionSchema).min(1).max(12);
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStageDefinition[] = [
+  { name: 'reconstruction', label: 'Reconstruction', skeletonType: 'reconstruction', inputs: [PIPELINE_ORIGINAL_INPUT] },
+  { name: 'objections', label: 'Objections', skeletonType: 'objections', inputs: ['reconstruction'] },
+  { name: 'responses', label: 'Enhanced Responses', skeletonType: 'responses', inputs: ['objections'] },
+  { name: 'bulletproof', label: 'Bullet-proof Version', skeletonType: 'bulletproof', inputs: ['reconstruction', 'responses'] },
+];
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PIPELINE SKELETON TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -1053,7 +1298,7 @@ export interface PipelineSkeleton4 {
   integrationMap: { sectionIndex: number; responseIndices: number[] }[];
   integrationStrategy: {
     responseIndex: number;
-    strategy: 'preemptive' | 'inline' | 'footnote' | 'structural';
+    strategy: PipelineIntegrationStrategy;
     targetSection: number;
   }[];
   concessionsToIncorporate: { objectionIndex: number; concession: string }[];
@@ -1114,6 +1359,13 @@ export const llmCalls = pgTable("llm_calls", {
   latencyMs: integer("latency_ms"),
   status: text("status"),
   errorMessage: text("error_message"),
+  // Record/replay: full request and response bodies keyed by a hash of the prompt
+  promptHash: text("prompt_hash"),
+  requestBody: jsonb("request_body"),
+  responseBody: jsonb("response_body"),
+  replayed: boolean("replayed").default(false),
+  // Credit reservation (credit_transactions.id) this call is billed to
+  creditTransactionId: integer("credit_transaction_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -1235,3 +1487,263 @@ export interface HCCheckResult {
     instructions: string;
   };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PUBLIC API (v1)
+// Request bodies for /api/v1. Every response is { data } on success or
+// { error: { code, message, details? } } on failure.
+// ═══════════════════════════════════════════════════════════════════════════
+
+const v1Text = z.string().trim().min(1, "text is required");
+
+export const v1ReconstructionRequestSchema = z.object({
+  text: v1Text,
+  title: z.string().max(200).optional(),
+  targetWordCount: z.number().int().min(50).max(100000).default(500),
+  customInstructions: z.string().optional(),
+});
+
+export const V1_COHERENCE_MODES = ["analyze", "rewrite", "rewrite-max", "reconstruct"] as const;
+export const V1_COHERENCE_TYPES = COHERENCE_MODE_TYPES;
+
+export const v1CoherenceRequestSchema = z.object({
+  text: v1Text,
+  mode: z.enum(V1_COHERENCE_MODES).default("analyze"),
+  coherenceType: z.enum(V1_COHERENCE_TYPES).default("logical-consistency"),
+  aggressiveness: z.enum(["conservative", "moderate", "aggressive"]).default("moderate"),
+});
+
+export const v1PipelineRequestSchema = z.object({
+  text: v1Text.refine(t => t.split(/\s+/).length >= 100, "text must be at least 100 words"),
+  customInstructions: z.string().optional(),
+  targetAudience: z.string().optional(),
+  objective: z.string().optional(),
+  stages: pipelineStagesSchema.optional(),
+});
+
+export const v1TranslationRequestSchema = z.object({
+  text: v1Text,
+  targetLanguage: z.string().trim().min(1),
+  sourceLanguage: z.string().trim().optional(),
+  preserveFormatting: z.boolean().optional(),
+  provider: z.enum(["openai", "anthropic", "perplexity"]).default("openai"),
+});
+
+export type V1ReconstructionRequest = z.infer<typeof v1ReconstructionRequestSchema>;
+export type V1CoherenceRequest = z.infer<typeof v1CoherenceRequestSchema>;
+export type V1PipelineRequest = z.infer<typeof v1PipelineRequestSchema>;
+export type V1TranslationRequest = z.infer<typeof v1TranslationRequestSchema>;
+
+export interface V1Error {
+  code: 'invalid_request' | 'unauthorized' | 'forbidden' | 'not_found' | 'insufficient_credits' | 'internal_error';
+  message: string;
+  details?: unknown;
+}
+
+export interface V1Job {
+  id: number;
+  type: 'reconstruction' | 'pipeline';
+  status: string;
+  createdAt: string | Date;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOB EVENTS
+// One event vocabulary for every live stream (CC jobs, universal expansion,
+// streaming analysis), delivered over /ws/cc-stream and as Server-Sent Events
+// from /api/jobs/:id/events. Each delivered event carries a per-job sequence
+// number `id`, which is also the SSE event id used with Last-Event-ID.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const jobEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("started"), message: z.string().optional(), totalSections: z.number().optional(), targetWords: z.number().optional() }),
+  z.object({
+    type: z.literal("progress"),
+    stage: z.string(),
+    message: z.string().optional(),
+    progress: z.number().optional(), // percent
+    completed: z.number().optional(),
+    total: z.number().optional(),
+    words: z.number().optional(),
+  }),
+  z.object({ type: z.literal("outline"), message: z.string().optional(), totalSections: z.number().optional(), outline: z.string().optional() }),
+  z.object({
+    type: z.literal("section"),
+    index: z.number(),
+    total: z.number().optional(),
+    title: z.string().optional(),
+    text: z.string(),
+    words: z.number().optional(),
+    totalWords: z.number().optional(),
+    progress: z.number().optional(),
+  }),
+  // Raw text deltas from streams that produce free text (analysis)
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({ type: z.literal("warning"), message: z.string() }),
+  z.object({ type: z.literal("complete"), message: z.string().optional(), totalWords: z.number().optional(), output: z.string().optional() }),
+  z.object({ type: z.literal("failed"), message: z.string() }),
+  z.object({ type: z.literal("aborted"), message: z.string().optional() }),
+]);
+
+export type JobEvent = z.infer<typeof jobEventSchema>;
+export type JobEventType = JobEvent["type"];
+
+export type DeliveredJobEvent = JobEvent & {
+  id: number;
+  jobId: string;
+  at: string;
+};
+
+export const TERMINAL_JOB_EVENTS: readonly JobEventType[] = ["complete", "failed", "aborted"];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DURABLE JOB QUEUE
+// Long-running jobs (pipeline runs, DB-enforced reconstructions, HCC documents)
+// are executed by a worker that leases rows from job_queue. The lease is kept
+// alive by heartbeats; a row whose lease lapses (worker died, server restarted)
+// is picked up again and the job resumes from what the database already holds.
+// Failures are retried with backoff until maxAttempts, then dead-lettered.
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const JOB_QUEUE_TYPES = ["pipeline", "reconstruction", "hcc", "calibration"] as const;
+export type JobQueueType = typeof JOB_QUEUE_TYPES[number];
+
+export const jobQueue = pgTable("job_queue", {
+  id: serial("id").primaryKey(),
+  jobType: text("job_type").notNull(), // JobQueueType
+  targetId: integer("target_id").notNull(), // pipeline_jobs, reconstruction_documents, hcc_documents or calibration_runs id
+  userId: integer("user_id").references(() => users.id),
+  status: text("status").notNull().default("queued"), // queued, running, completed, dead
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAfter: timestamp("run_after").defaultNow().notNull(), // earliest time the next attempt may start
+  leaseOwner: text("lease_owner"), // worker id holding the job
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  heartbeatAt: timestamp("heartbeat_at"),
+  lastError: text("last_error"),
+  // Usage reservation made by the request that enqueued the job; settled or refunded by the worker
+  creditTransactionId: integer("credit_transaction_id").references(() => creditTransactions.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertJobQueueSchema = createInsertSchema(jobQueue).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertJobQueueEntry = z.infer<typeof insertJobQueueSchema>;
+export type JobQueueEntry = typeof jobQueue.$inferSelect;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CALIBRATION SUITES
+// A calibration set is a named, versioned list of texts with expected scores.
+// Sets are never edited in place: saving changes creates the next version, so
+// every run stays comparable with the samples it was scored against. Each run
+// scores one set version with one scorer/provider/model and keeps per-sample
+// results, which is what the drift history is charted from.
+// ═══════════════════════════════════════════════════════════════════════════
+
+// evaluate_intelligence: the production evaluateIntelligence (OpenAI gpt-4o)
+// score_prompt: a single scoring prompt sent to any provider/model
+// local_metrics: the deterministic local pre-score, no provider
+export const CALIBRATION_SCORERS = ["evaluate_intelligence", "score_prompt", "local_metrics"] as const;
+export type CalibrationScorer = typeof CALIBRATION_SCORERS[number];
+
+export const DEFAULT_CALIBRATION_MAE_THRESHOLD = 8;
+
+export const calibrationSets = pgTable("calibration_sets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  version: integer("version").notNull(), // 1, 2, ... per name
+  description: text("description"),
+  previousVersionId: integer("previous_version_id"),
+  maeThreshold: real("mae_threshold").notNull().default(DEFAULT_CALIBRATION_MAE_THRESHOLD), // runs above it raise an alert
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("calibration_sets_name_version_idx").on(table.name, table.version),
+]);
+
+export const calibrationSamples = pgTable("calibration_samples", {
+  id: serial("id").primaryKey(),
+  setId: integer("set_id").notNull().references(() => calibrationSets.id),
+  position: integer("position").notNull(),
+  name: text("name").notNull(), // stable across versions; drift is tracked per sample name
+  text: text("text").notNull(),
+  expectedScore: real("expected_score").notNull(), // 0-100
+  reason: text("reason"),
+});
+
+export const calibrationRuns = pgTable("calibration_runs", {
+  id: serial("id").primaryKey(),
+  setId: integer("set_id").notNull().references(() => calibrationSets.id),
+  scorer: text("scorer").notNull(), // CalibrationScorer
+  provider: text("provider").notNull(),
+  model: text("model"), // requested model; null for the provider default
+  promptHash: text("prompt_hash"), // scoring prompt version, so prompt changes show up in the drift history
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed
+  sampleCount: integer("sample_count").notNull(),
+  scoredCount: integer("scored_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  meanAbsoluteError: real("mean_absolute_error"),
+  meanSignedError: real("mean_signed_error"), // actual - expected; positive means the scorer runs high
+  maxAbsoluteError: real("max_absolute_error"),
+  maeThreshold: real("mae_threshold").notNull(), // the set's threshold when the run was started
+  alert: boolean("alert").notNull().default(false),
+  errorMessage: text("error_message"),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const calibrationResults = pgTable("calibration_results", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => calibrationRuns.id),
+  sampleId: integer("sample_id").notNull().references(() => calibrationSamples.id),
+  expectedScore: real("expected_score").notNull(),
+  actualScore: real("actual_score"), // null when scoring failed
+  difference: real("difference"), // actual - expected
+  model: text("model"), // model that actually answered
+  latencyMs: integer("latency_ms"),
+  errorMessage: text("error_message"),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  // One result per sample and run, however many workers score the run
+  unique("calibration_results_run_sample_unique").on(table.runId, table.sampleId),
+]);
+
+export const calibrationSampleInputSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  text: z.string().trim().min(1).max(20000),
+  expectedScore: z.number().min(0).max(100),
+  reason: z.string().max(2000).optional(),
+});
+
+export const calibrationSetInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(2000).optional(),
+  maeThreshold: z.number().positive().max(100).optional(),
+  samples: z.array(calibrationSampleInputSchema).min(1).max(100),
+}).refine(data => new Set(data.samples.map(s => s.name)).size === data.samples.length, {
+  message: "Sample names must be unique within a set",
+});
+
+export const calibrationRunInputSchema = z.object({
+  scorer: z.enum(CALIBRATION_SCORERS).default("score_prompt"),
+  provider: z.string().min(1).max(50).optional(),
+  model: z.string().min(1).max(100).optional(),
+});
+
+export type CalibrationSampleInput = z.infer<typeof calibrationSampleInputSchema>;
+export type CalibrationSetInput = z.infer<typeof calibrationSetInputSchema>;
+export type CalibrationRunInput = z.infer<typeof calibrationRunInputSchema>;
+export type CalibrationSet = typeof calibrationSets.$inferSelect;
+export type CalibrationSample = typeof calibrationSamples.$inferSelect;
+export type CalibrationRun = typeof calibrationRuns.$inferSelect;
+export type CalibrationResult = typeof calibrationResults.$inferSelect;